@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "DrawingRevision" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "drawingId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "name" TEXT NOT NULL,
+    "elements" TEXT NOT NULL,
+    "appState" TEXT NOT NULL,
+    "files" TEXT NOT NULL DEFAULT '{}',
+    "createdByUserId" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "DrawingRevision_drawingId_fkey" FOREIGN KEY ("drawingId") REFERENCES "Drawing" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "DrawingRevision_drawingId_createdAt_idx" ON "DrawingRevision"("drawingId", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DrawingRevision_drawingId_version_key" ON "DrawingRevision"("drawingId", "version");
@@ -0,0 +1,43 @@
+-- Full-text index of drawing names and element text, one row per searchable entry. Prisma cannot
+-- model FTS5 virtual tables, so this table is not in schema.prisma and is queried with raw SQL.
+CREATE VIRTUAL TABLE "DrawingSearchIndex" USING fts5(
+    drawingId UNINDEXED,
+    elementId UNINDEXED,
+    kind UNINDEXED,
+    content,
+    tokenize = 'unicode61 remove_diacritics 2'
+);
+
+-- Index the existing drawings the way extractDrawingSearchEntries does: the name, text elements,
+-- frame names and element links of live elements.
+INSERT INTO "DrawingSearchIndex" ("drawingId", "elementId", "kind", "content")
+SELECT "drawingId", "elementId", "kind", substr("content", 1, 4000)
+FROM (
+    SELECT "drawingId", "elementId", "kind",
+        trim(replace(replace(replace(replace(replace(
+            "raw", char(13), ' '), char(10), ' '), char(9), ' '), char(2), ' '), char(3), ' ')) AS "content"
+    FROM (
+        SELECT d."id" AS "drawingId", NULL AS "elementId", 'name' AS "kind", d."name" AS "raw"
+        FROM "Drawing" d
+        UNION ALL
+        SELECT d."id", json_extract(e.value, '$.id'),
+            CASE WHEN json_extract(e.value, '$.type') = 'text' THEN 'text' ELSE 'frame' END,
+            CASE WHEN json_extract(e.value, '$.type') = 'text'
+                THEN coalesce(json_extract(e.value, '$.originalText'), json_extract(e.value, '$.text'))
+                ELSE json_extract(e.value, '$.name')
+            END
+        FROM "Drawing" d, json_each(CASE WHEN json_valid(d."elements") THEN d."elements" ELSE '[]' END) e
+        WHERE json_type(e.value) = 'object'
+            AND json_type(e.value, '$.id') = 'text'
+            AND coalesce(json_type(e.value, '$.isDeleted'), '') <> 'true'
+            AND json_extract(e.value, '$.type') IN ('text', 'frame', 'magicframe')
+        UNION ALL
+        SELECT d."id", json_extract(e.value, '$.id'), 'link', json_extract(e.value, '$.link')
+        FROM "Drawing" d, json_each(CASE WHEN json_valid(d."elements") THEN d."elements" ELSE '[]' END) e
+        WHERE json_type(e.value) = 'object'
+            AND json_type(e.value, '$.id') = 'text'
+            AND coalesce(json_type(e.value, '$.isDeleted'), '') <> 'true'
+    )
+    WHERE typeof("raw") = 'text'
+)
+WHERE length("content") > 0;
@@ -0,0 +1,14 @@
+-- AlterTable
+ALTER TABLE "Drawing" ADD COLUMN "previousCollectionId" TEXT;
+ALTER TABLE "Drawing" ADD COLUMN "trashedAt" DATETIME;
+
+-- AlterTable
+ALTER TABLE "SystemConfig" ADD COLUMN "trashRetentionDays" INTEGER NOT NULL DEFAULT 30;
+
+-- Drawings already in the trash start their retention window at upgrade time.
+UPDATE "Drawing"
+SET "trashedAt" = CURRENT_TIMESTAMP
+WHERE "collectionId" = 'trash' OR "collectionId" LIKE 'trash:%';
+
+-- CreateIndex
+CREATE INDEX "Drawing_trashedAt_idx" ON "Drawing"("trashedAt");
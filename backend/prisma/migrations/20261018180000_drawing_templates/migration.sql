@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Drawing" ADD COLUMN "templateScope" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Drawing_templateScope_idx" ON "Drawing"("templateScope");
@@ -0,0 +1,13 @@
+-- CreateTable
+CREATE TABLE "DrawingStar" (
+    "userId" TEXT NOT NULL,
+    "drawingId" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    PRIMARY KEY ("userId", "drawingId"),
+    CONSTRAINT "DrawingStar_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "DrawingStar_drawingId_fkey" FOREIGN KEY ("drawingId") REFERENCES "Drawing" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "DrawingStar_drawingId_idx" ON "DrawingStar"("drawingId");
@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "DrawingFile" (
+    "hash" TEXT NOT NULL PRIMARY KEY,
+    "mimeType" TEXT NOT NULL,
+    "size" INTEGER NOT NULL,
+    "createdByUserId" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateTable
+CREATE TABLE "DrawingFileRef" (
+    "drawingId" TEXT NOT NULL,
+    "fileHash" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    PRIMARY KEY ("drawingId", "fileHash"),
+    CONSTRAINT "DrawingFileRef_drawingId_fkey" FOREIGN KEY ("drawingId") REFERENCES "Drawing" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "DrawingFileRef_fileHash_fkey" FOREIGN KEY ("fileHash") REFERENCES "DrawingFile" ("hash") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "DrawingFileRef_fileHash_idx" ON "DrawingFileRef"("fileHash");
@@ -0,0 +1,37 @@
+-- CreateTable
+CREATE TABLE "OrphanedDrawingFile" (
+    "drawingId" TEXT NOT NULL,
+    "fileId" TEXT NOT NULL,
+    "detectedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    PRIMARY KEY ("drawingId", "fileId"),
+    CONSTRAINT "OrphanedDrawingFile_drawingId_fkey" FOREIGN KEY ("drawingId") REFERENCES "Drawing" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "FileSweep" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "trigger" TEXT NOT NULL,
+    "drawingsScanned" INTEGER NOT NULL DEFAULT 0,
+    "filesPruned" INTEGER NOT NULL DEFAULT 0,
+    "bytesReclaimed" INTEGER NOT NULL DEFAULT 0,
+    "blobsDeleted" INTEGER NOT NULL DEFAULT 0,
+    "blobBytesDeleted" INTEGER NOT NULL DEFAULT 0,
+    "startedAt" DATETIME NOT NULL,
+    "finishedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateTable
+CREATE TABLE "FileSweepUserStat" (
+    "sweepId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "filesPruned" INTEGER NOT NULL,
+    "bytesReclaimed" INTEGER NOT NULL,
+
+    PRIMARY KEY ("sweepId", "userId"),
+    CONSTRAINT "FileSweepUserStat_sweepId_fkey" FOREIGN KEY ("sweepId") REFERENCES "FileSweep" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "FileSweepUserStat_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "FileSweep_finishedAt_idx" ON "FileSweep"("finishedAt");
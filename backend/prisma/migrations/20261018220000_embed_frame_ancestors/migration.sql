@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "SystemConfig" ADD COLUMN "embedFrameAncestors" TEXT NOT NULL DEFAULT '';
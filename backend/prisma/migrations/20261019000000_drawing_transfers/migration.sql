@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "DrawingTransfer" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "drawingId" TEXT NOT NULL,
+    "fromUserId" TEXT NOT NULL,
+    "toUserId" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "DrawingTransfer_drawingId_fkey" FOREIGN KEY ("drawingId") REFERENCES "Drawing" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "DrawingTransfer_fromUserId_fkey" FOREIGN KEY ("fromUserId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "DrawingTransfer_toUserId_fkey" FOREIGN KEY ("toUserId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DrawingTransfer_drawingId_key" ON "DrawingTransfer"("drawingId");
+
+-- CreateIndex
+CREATE INDEX "DrawingTransfer_fromUserId_idx" ON "DrawingTransfer"("fromUserId");
+
+-- CreateIndex
+CREATE INDEX "DrawingTransfer_toUserId_idx" ON "DrawingTransfer"("toUserId");
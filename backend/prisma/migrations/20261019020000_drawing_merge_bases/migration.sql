@@ -0,0 +1,10 @@
+-- CreateTable
+CREATE TABLE "DrawingMergeBase" (
+    "drawingId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "elements" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    PRIMARY KEY ("drawingId", "version"),
+    CONSTRAINT "DrawingMergeBase_drawingId_fkey" FOREIGN KEY ("drawingId") REFERENCES "Drawing" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
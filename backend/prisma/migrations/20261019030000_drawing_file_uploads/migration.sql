@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "DrawingFileUpload" (
+    "fileHash" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    PRIMARY KEY ("fileHash", "userId"),
+    CONSTRAINT "DrawingFileUpload_fileHash_fkey" FOREIGN KEY ("fileHash") REFERENCES "DrawingFile" ("hash") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "DrawingFileUpload_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "DrawingFileUpload_userId_idx" ON "DrawingFileUpload"("userId");
+
+-- Until now only the first uploader was recorded.
+INSERT INTO "DrawingFileUpload" ("fileHash", "userId", "createdAt")
+SELECT "hash", "createdByUserId", "createdAt" FROM "DrawingFile"
+WHERE "createdByUserId" IN (SELECT "id" FROM "User");
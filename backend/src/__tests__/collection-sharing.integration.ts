@@ -0,0 +1,170 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import request from "supertest";
+import bcrypt from "bcrypt";
+import jwt, { SignOptions } from "jsonwebtoken";
+import { StringValue } from "ms";
+import { PrismaClient } from "../generated/client";
+import { config } from "../config";
+import { getTestPrisma, setupTestDb } from "./testUtils";
+
+describe("Collection sharing", () => {
+  const userAgent = "vitest-collection-sharing";
+  let prisma: PrismaClient;
+  let app: any;
+
+  let owner: { id: string; email: string };
+  let grantee: { id: string; email: string };
+  let ownerToken: string;
+  let granteeToken: string;
+  let agent: any;
+  let csrfHeaderName: string;
+  let csrfToken: string;
+
+  const signToken = (user: { id: string; email: string }) => {
+    const signOptions: SignOptions = { expiresIn: config.jwtAccessExpiresIn as StringValue };
+    return jwt.sign(
+      { userId: user.id, email: user.email, type: "access" },
+      config.jwtSecret,
+      signOptions
+    );
+  };
+
+  const send = (method: "post" | "put" | "delete", path: string, token: string, body?: unknown) =>
+    agent[method](path)
+      .set("User-Agent", userAgent)
+      .set("Authorization", `Bearer ${token}`)
+      .set(csrfHeaderName, csrfToken)
+      .send(body);
+
+  const get = (path: string, token: string) =>
+    agent.get(path).set("User-Agent", userAgent).set("Authorization", `Bearer ${token}`);
+
+  const createDrawing = async (name: string, collectionId: string | null) => {
+    const res = await send("post", "/drawings", ownerToken, {
+      name,
+      collectionId,
+      elements: [],
+      appState: { viewBackgroundColor: "#ffffff" },
+    });
+    expect(res.status).toBe(200);
+    return res.body as { id: string; version: number };
+  };
+
+  beforeAll(async () => {
+    setupTestDb();
+    prisma = getTestPrisma();
+    ({ app } = await import("../index"));
+
+    await prisma.systemConfig.upsert({
+      where: { id: "default" },
+      update: { authEnabled: true, registrationEnabled: false },
+      create: { id: "default", authEnabled: true, registrationEnabled: false },
+    });
+
+    const passwordHash = await bcrypt.hash("password123", 10);
+    owner = await prisma.user.create({
+      data: { email: "colshare-owner@test.local", passwordHash, name: "Owner", role: "USER", isActive: true },
+      select: { id: true, email: true },
+    });
+    grantee = await prisma.user.create({
+      data: { email: "colshare-grantee@test.local", passwordHash, name: "Grantee", role: "USER", isActive: true },
+      select: { id: true, email: true },
+    });
+    ownerToken = signToken(owner);
+    granteeToken = signToken(grantee);
+
+    agent = request.agent(app);
+    const csrfRes = await agent.get("/csrf-token").set("User-Agent", userAgent);
+    csrfHeaderName = csrfRes.body.header;
+    csrfToken = csrfRes.body.token;
+  });
+
+  afterAll(async () => {
+    await prisma.$disconnect();
+  });
+
+  it("grants access to every drawing in the collection and its subcollections", async () => {
+    const project = (await send("post", "/collections", ownerToken, { name: "Project" })).body;
+    const nested = (await send("post", "/collections", ownerToken, { name: "Specs", parentId: project.id })).body;
+    const inProject = await createDrawing("Overview", project.id);
+    const inNested = await createDrawing("Detail", nested.id);
+    const outside = await createDrawing("Private", null);
+
+    expect((await get(`/drawings/${inProject.id}`, granteeToken)).status).toBe(404);
+
+    const grant = await send("post", `/collections/${project.id}/permissions`, ownerToken, {
+      granteeUserId: grantee.id,
+      permission: "view",
+    });
+    expect(grant.status).toBe(200);
+
+    const viewed = await get(`/drawings/${inNested.id}`, granteeToken);
+    expect(viewed.status).toBe(200);
+    expect(viewed.body.accessLevel).toBe("view");
+    expect((await get(`/drawings/${outside.id}`, granteeToken)).status).toBe(404);
+
+    const blockedSave = await send("put", `/drawings/${inProject.id}`, granteeToken, {
+      name: "Renamed",
+      version: inProject.version,
+    });
+    expect(blockedSave.status).toBe(404);
+
+    const shared = await get("/drawings/shared", granteeToken);
+    expect(shared.status).toBe(200);
+    expect(shared.body.drawings.map((d: any) => d.id).sort()).toEqual(
+      [inProject.id, inNested.id].sort()
+    );
+
+    const nestedOnly = await get(`/drawings/shared?collectionId=${nested.id}`, granteeToken);
+    expect(nestedOnly.body.drawings.map((d: any) => d.id)).toEqual([inNested.id]);
+
+    const collections = await get("/collections/shared", granteeToken);
+    expect(collections.body.collections).toEqual([
+      expect.objectContaining({ id: project.id, name: "Project", accessLevel: "view" }),
+    ]);
+  });
+
+  it("lets edit grants save and stops applying once revoked or trashed", async () => {
+    const folder = (await send("post", "/collections", ownerToken, { name: "Shared edit" })).body;
+    const drawing = await createDrawing("Editable", folder.id);
+    const grant = await send("post", `/collections/${folder.id}/permissions`, ownerToken, {
+      granteeUserId: grantee.id,
+      permission: "edit",
+    });
+
+    const saved = await send("put", `/drawings/${drawing.id}`, granteeToken, {
+      name: "Edited by grantee",
+      version: drawing.version,
+    });
+    expect(saved.status).toBe(200);
+
+    await send("put", `/drawings/${drawing.id}`, ownerToken, { collectionId: "trash" });
+    expect((await get(`/drawings/${drawing.id}`, granteeToken)).status).toBe(404);
+    await send("post", `/drawings/${drawing.id}/restore`, ownerToken);
+    expect((await get(`/drawings/${drawing.id}`, granteeToken)).status).toBe(200);
+
+    const revoke = await send(
+      "delete",
+      `/collections/${folder.id}/permissions/${grant.body.permission.id}`,
+      ownerToken
+    );
+    expect(revoke.status).toBe(200);
+    expect((await get(`/drawings/${drawing.id}`, granteeToken)).status).toBe(404);
+  });
+
+  it("only lets the owner manage collection shares", async () => {
+    const folder = (await send("post", "/collections", ownerToken, { name: "Owner only" })).body;
+
+    expect((await get(`/collections/${folder.id}/sharing`, granteeToken)).status).toBe(404);
+    const selfShare = await send("post", `/collections/${folder.id}/permissions`, ownerToken, {
+      granteeUserId: owner.id,
+      permission: "view",
+    });
+    expect(selfShare.status).toBe(400);
+    const trashShare = await send("post", "/collections/trash/permissions", ownerToken, {
+      granteeUserId: grantee.id,
+      permission: "view",
+    });
+    expect(trashShare.status).toBe(404);
+  });
+});
@@ -0,0 +1,166 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import request from "supertest";
+import bcrypt from "bcrypt";
+import jwt, { SignOptions } from "jsonwebtoken";
+import { StringValue } from "ms";
+import JSZip from "jszip";
+import { PrismaClient } from "../generated/client";
+import { config } from "../config";
+import { getTestPrisma, setupTestDb } from "./testUtils";
+
+describe("Nested collections", () => {
+  const userAgent = "vitest-nested-collections";
+  let prisma: PrismaClient;
+  let app: any;
+
+  let owner: { id: string; email: string };
+  let other: { id: string; email: string };
+  let ownerToken: string;
+  let otherToken: string;
+  let agent: any;
+  let csrfHeaderName: string;
+  let csrfToken: string;
+
+  const signToken = (user: { id: string; email: string }) => {
+    const signOptions: SignOptions = { expiresIn: config.jwtAccessExpiresIn as StringValue };
+    return jwt.sign(
+      { userId: user.id, email: user.email, type: "access" },
+      config.jwtSecret,
+      signOptions
+    );
+  };
+
+  const send = (method: "post" | "put" | "delete", path: string, token: string, body?: unknown) =>
+    agent[method](path)
+      .set("User-Agent", userAgent)
+      .set("Authorization", `Bearer ${token}`)
+      .set(csrfHeaderName, csrfToken)
+      .send(body);
+
+  const createCollection = async (token: string, name: string, parentId?: string | null) => {
+    const res = await send("post", "/collections", token, { name, parentId });
+    expect(res.status).toBe(200);
+    return res.body as { id: string; parentId: string | null };
+  };
+
+  beforeAll(async () => {
+    setupTestDb();
+    prisma = getTestPrisma();
+    ({ app } = await import("../index"));
+
+    await prisma.systemConfig.upsert({
+      where: { id: "default" },
+      update: { authEnabled: true, registrationEnabled: false },
+      create: { id: "default", authEnabled: true, registrationEnabled: false },
+    });
+
+    const passwordHash = await bcrypt.hash("password123", 10);
+    owner = await prisma.user.create({
+      data: { email: "nested-owner@test.local", passwordHash, name: "Owner", role: "USER", isActive: true },
+      select: { id: true, email: true },
+    });
+    other = await prisma.user.create({
+      data: { email: "nested-other@test.local", passwordHash, name: "Other", role: "USER", isActive: true },
+      select: { id: true, email: true },
+    });
+    ownerToken = signToken(owner);
+    otherToken = signToken(other);
+
+    agent = request.agent(app);
+    const csrfRes = await agent.get("/csrf-token").set("User-Agent", userAgent);
+    csrfHeaderName = csrfRes.body.header;
+    csrfToken = csrfRes.body.token;
+  });
+
+  afterAll(async () => {
+    await prisma.$disconnect();
+  });
+
+  it("reparents collections and rejects cycles and foreign parents", async () => {
+    const root = await createCollection(ownerToken, "Projects");
+    const child = await createCollection(ownerToken, "Alpha", root.id);
+    expect(child.parentId).toBe(root.id);
+
+    const cycle = await send("put", `/collections/${root.id}`, ownerToken, { parentId: child.id });
+    expect(cycle.status).toBe(400);
+    const self = await send("put", `/collections/${root.id}`, ownerToken, { parentId: root.id });
+    expect(self.status).toBe(400);
+    const trash = await send("put", `/collections/${child.id}`, ownerToken, { parentId: "trash" });
+    expect(trash.status).toBe(400);
+
+    const foreign = await createCollection(otherToken, "Not yours");
+    const foreignParent = await send("post", "/collections", ownerToken, {
+      name: "Sneaky",
+      parentId: foreign.id,
+    });
+    expect(foreignParent.status).toBe(400);
+
+    const moved = await send("put", `/collections/${child.id}`, ownerToken, { parentId: null });
+    expect(moved.status).toBe(200);
+    expect(moved.body.parentId).toBeNull();
+    expect(moved.body.name).toBe("Alpha");
+  });
+
+  it("deletes nested collections and unfiles their drawings", async () => {
+    const root = await createCollection(ownerToken, "Archive");
+    const child = await createCollection(ownerToken, "2025", root.id);
+    const grandchild = await createCollection(ownerToken, "Q1", child.id);
+    const sibling = await createCollection(ownerToken, "Keep");
+    const drawing = await prisma.drawing.create({
+      data: {
+        name: "Deep",
+        elements: "[]",
+        appState: "{}",
+        files: "{}",
+        userId: owner.id,
+        collectionId: grandchild.id,
+      },
+    });
+
+    const res = await send("delete", `/collections/${root.id}`, ownerToken);
+    expect(res.status).toBe(200);
+    expect(res.body.deletedCollectionIds.sort()).toEqual([root.id, child.id, grandchild.id].sort());
+
+    const remaining = await prisma.collection.findMany({
+      where: { id: { in: [root.id, child.id, grandchild.id, sibling.id] } },
+      select: { id: true },
+    });
+    expect(remaining.map((c) => c.id)).toEqual([sibling.id]);
+    const unfiled = await prisma.drawing.findUnique({ where: { id: drawing.id } });
+    expect(unfiled?.collectionId).toBeNull();
+  });
+
+  it("exports nested collections as nested folders", async () => {
+    const root = await createCollection(ownerToken, "Clients");
+    const child = await createCollection(ownerToken, "Acme", root.id);
+    await prisma.drawing.create({
+      data: {
+        name: "Kickoff",
+        elements: "[]",
+        appState: "{}",
+        files: "{}",
+        userId: owner.id,
+        collectionId: child.id,
+      },
+    });
+
+    const res = await agent
+      .get("/export/excalidash")
+      .set("User-Agent", userAgent)
+      .set("Authorization", `Bearer ${ownerToken}`)
+      .buffer(true)
+      .parse((response: any, callback: any) => {
+        const chunks: Buffer[] = [];
+        response.on("data", (chunk: Buffer) => chunks.push(chunk));
+        response.on("end", () => callback(null, Buffer.concat(chunks)));
+      });
+    expect(res.status).toBe(200);
+
+    const zip = await JSZip.loadAsync(res.body);
+    const manifest = JSON.parse(await zip.file("excalidash.manifest.json")!.async("string"));
+    const exportedChild = manifest.collections.find((c: any) => c.id === child.id);
+    expect(exportedChild).toMatchObject({ parentId: root.id, folder: "Clients/Acme" });
+    const exportedDrawing = manifest.drawings.find((d: any) => d.name === "Kickoff");
+    expect(exportedDrawing.filePath.startsWith("Clients/Acme/")).toBe(true);
+  });
+});
@@ -0,0 +1,170 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import request from "supertest";
+import bcrypt from "bcrypt";
+import jwt, { SignOptions } from "jsonwebtoken";
+import { StringValue } from "ms";
+import { PrismaClient } from "../generated/client";
+import { config } from "../config";
+import { getTestPrisma, setupTestDb } from "./testUtils";
+
+describe("Drawing comments", () => {
+  const userAgent = "vitest-drawing-comments";
+  let prisma: PrismaClient;
+  let app: any;
+
+  let owner: { id: string; email: string };
+  let viewer: { id: string; email: string };
+  let ownerToken: string;
+  let viewerToken: string;
+  let agent: any;
+  let csrfHeaderName: string;
+  let csrfToken: string;
+  let drawingId: string;
+
+  const signToken = (user: { id: string; email: string }) => {
+    const signOptions: SignOptions = { expiresIn: config.jwtAccessExpiresIn as StringValue };
+    return jwt.sign(
+      { userId: user.id, email: user.email, type: "access" },
+      config.jwtSecret,
+      signOptions
+    );
+  };
+
+  const send = (method: "post" | "patch" | "delete", path: string, token: string | null, body?: unknown) => {
+    const req = agent[method](path).set("User-Agent", userAgent).set(csrfHeaderName, csrfToken);
+    return (token ? req.set("Authorization", `Bearer ${token}`) : req).send(body);
+  };
+
+  const list = (token: string) =>
+    agent
+      .get(`/drawings/${drawingId}/comments`)
+      .set("User-Agent", userAgent)
+      .set("Authorization", `Bearer ${token}`);
+
+  beforeAll(async () => {
+    setupTestDb();
+    prisma = getTestPrisma();
+    ({ app } = await import("../index"));
+
+    await prisma.systemConfig.upsert({
+      where: { id: "default" },
+      update: { authEnabled: true, registrationEnabled: false },
+      create: { id: "default", authEnabled: true, registrationEnabled: false },
+    });
+
+    const passwordHash = await bcrypt.hash("password123", 10);
+    owner = await prisma.user.create({
+      data: { email: "comments-owner@test.local", passwordHash, name: "Owner", role: "USER", isActive: true },
+      select: { id: true, email: true },
+    });
+    viewer = await prisma.user.create({
+      data: { email: "comments-viewer@test.local", passwordHash, name: "Viewer", role: "USER", isActive: true },
+      select: { id: true, email: true },
+    });
+    ownerToken = signToken(owner);
+    viewerToken = signToken(viewer);
+
+    const drawing = await prisma.drawing.create({
+      data: { name: "Reviewed", elements: "[]", appState: "{}", files: "{}", userId: owner.id },
+      select: { id: true },
+    });
+    drawingId = drawing.id;
+    await prisma.drawingPermission.create({
+      data: { drawingId, granteeUserId: viewer.id, permission: "view", createdByUserId: owner.id },
+    });
+
+    agent = request.agent(app);
+    const csrfRes = await agent.get("/csrf-token").set("User-Agent", userAgent);
+    csrfHeaderName = csrfRes.body.header;
+    csrfToken = csrfRes.body.token;
+  });
+
+  afterAll(async () => {
+    await prisma.$disconnect();
+  });
+
+  it("creates anchored threads and replies for anyone who can view", async () => {
+    const thread = await send("post", `/drawings/${drawingId}/comments`, viewerToken, {
+      body: "Is this arrow right?",
+      elementId: "arrow-1",
+    });
+    expect(thread.status).toBe(201);
+    expect(thread.body.comment).toMatchObject({
+      elementId: "arrow-1",
+      parentId: null,
+      resolved: false,
+      author: { id: viewer.id, name: "Viewer" },
+    });
+
+    const pinned = await send("post", `/drawings/${drawingId}/comments`, ownerToken, {
+      body: "Empty space here",
+      x: 120.5,
+      y: -40,
+    });
+    expect(pinned.body.comment).toMatchObject({ sceneX: 120.5, sceneY: -40 });
+
+    const reply = await send("post", `/drawings/${drawingId}/comments`, ownerToken, {
+      body: "Yes",
+      parentId: thread.body.comment.id,
+    });
+    expect(reply.status).toBe(201);
+
+    expect(
+      (await send("post", `/drawings/${drawingId}/comments`, ownerToken, {
+        body: "Nested",
+        parentId: reply.body.comment.id,
+      })).status
+    ).toBe(400);
+    expect(
+      (await send("post", `/drawings/${drawingId}/comments`, ownerToken, { body: "Half", x: 1 })).status
+    ).toBe(400);
+    expect((await send("post", `/drawings/${drawingId}/comments`, null, { body: "Anon" })).status).toBe(401);
+
+    const listed = await list(viewerToken);
+    expect(listed.status).toBe(200);
+    expect(listed.body.comments.map((c: any) => c.body)).toEqual([
+      "Is this arrow right?",
+      "Empty space here",
+      "Yes",
+    ]);
+  });
+
+  it("limits editing, resolving and deleting", async () => {
+    const thread = (await send("post", `/drawings/${drawingId}/comments`, ownerToken, { body: "Owner thread" }))
+      .body.comment;
+
+    const path = `/drawings/${drawingId}/comments/${thread.id}`;
+    expect((await send("patch", path, viewerToken, { body: "Hijack" })).status).toBe(403);
+    expect((await send("patch", path, viewerToken, { resolved: true })).status).toBe(403);
+
+    const resolved = await send("patch", path, ownerToken, { resolved: true });
+    expect(resolved.status).toBe(200);
+    expect(resolved.body.comment).toMatchObject({ resolved: true, resolvedByUserId: owner.id });
+
+    const reply = (await send("post", `/drawings/${drawingId}/comments`, viewerToken, {
+      body: "Late reply",
+      parentId: thread.id,
+    })).body.comment;
+    expect(
+      (await send("patch", `/drawings/${drawingId}/comments/${reply.id}`, viewerToken, { resolved: false })).status
+    ).toBe(400);
+    expect((await send("delete", path, viewerToken)).status).toBe(403);
+
+    expect((await send("delete", path, ownerToken)).status).toBe(200);
+    expect(await prisma.comment.count({ where: { id: { in: [thread.id, reply.id] } } })).toBe(0);
+  });
+
+  it("hides comments from users without access", async () => {
+    const outsider = await prisma.user.create({
+      data: {
+        email: "comments-outsider@test.local",
+        passwordHash: "x",
+        name: "Outsider",
+        role: "USER",
+        isActive: true,
+      },
+      select: { id: true, email: true },
+    });
+    expect((await list(signToken(outsider))).status).toBe(404);
+  });
+});
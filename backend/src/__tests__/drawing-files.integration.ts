@@ -0,0 +1,185 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import request from "supertest";
+import bcrypt from "bcrypt";
+import jwt, { SignOptions } from "jsonwebtoken";
+import { StringValue } from "ms";
+import { PrismaClient } from "../generated/client";
+import { config } from "../config";
+import { createDrawingFileStore, hashFileBytes } from "../server/drawingFiles";
+import { getTestPrisma, setupTestDb } from "./testUtils";
+
+const PNG_BASE64 =
+  "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8z8DwHwAFBQIAX8jx0gAAAABJRU5ErkJggg==";
+const PNG_BYTES = Buffer.from(PNG_BASE64, "base64");
+const PNG_HASH = hashFileBytes(PNG_BYTES);
+
+describe("Drawing file store", () => {
+  const userAgent = "vitest-drawing-files";
+  let prisma: PrismaClient;
+  let app: any;
+
+  let owner: { id: string; email: string };
+  let other: { id: string; email: string };
+  let ownerToken: string;
+  let otherToken: string;
+  let agent: any;
+  let csrfHeaderName: string;
+  let csrfToken: string;
+  let drawingId: string;
+
+  const signToken = (user: { id: string; email: string }) => {
+    const signOptions: SignOptions = { expiresIn: config.jwtAccessExpiresIn as StringValue };
+    return jwt.sign(
+      { userId: user.id, email: user.email, type: "access" },
+      config.jwtSecret,
+      signOptions
+    );
+  };
+
+  const send = (method: "post" | "put", path: string, token: string, body?: unknown) =>
+    agent[method](path)
+      .set("User-Agent", userAgent)
+      .set("Authorization", `Bearer ${token}`)
+      .set(csrfHeaderName, csrfToken)
+      .send(body);
+
+  const upload = (hash: string, bytes: Buffer, token: string, mimeType = "image/png") =>
+    agent
+      .put(`/files/${hash}`)
+      .set("User-Agent", userAgent)
+      .set("Authorization", `Bearer ${token}`)
+      .set(csrfHeaderName, csrfToken)
+      .set("Content-Type", mimeType)
+      .send(bytes);
+
+  const get = (path: string, token: string) =>
+    agent.get(path).set("User-Agent", userAgent).set("Authorization", `Bearer ${token}`);
+
+  beforeAll(async () => {
+    setupTestDb();
+    prisma = getTestPrisma();
+    ({ app } = await import("../index"));
+
+    await prisma.systemConfig.upsert({
+      where: { id: "default" },
+      update: { authEnabled: true, registrationEnabled: false },
+      create: { id: "default", authEnabled: true, registrationEnabled: false },
+    });
+
+    const passwordHash = await bcrypt.hash("password123", 10);
+    owner = await prisma.user.create({
+      data: { email: "files-owner@test.local", passwordHash, name: "Owner", role: "USER", isActive: true },
+      select: { id: true, email: true },
+    });
+    other = await prisma.user.create({
+      data: { email: "files-other@test.local", passwordHash, name: "Other", role: "USER", isActive: true },
+      select: { id: true, email: true },
+    });
+    ownerToken = signToken(owner);
+    otherToken = signToken(other);
+
+    agent = request.agent(app);
+    const csrfRes = await agent.get("/csrf-token").set("User-Agent", userAgent);
+    csrfHeaderName = csrfRes.body.header;
+    csrfToken = csrfRes.body.token;
+  });
+
+  afterAll(async () => {
+    await prisma.$disconnect();
+  });
+
+  it("moves inline images out of the drawing row", async () => {
+    const res = await send("post", "/drawings", ownerToken, {
+      name: "With image",
+      elements: [],
+      appState: { viewBackgroundColor: "#ffffff" },
+      files: {
+        "file-1": { id: "file-1", mimeType: "image/png", dataURL: `data:image/png;base64,${PNG_BASE64}` },
+      },
+    });
+    expect(res.status).toBe(200);
+    drawingId = res.body.id;
+    expect(res.body.files["file-1"]).toMatchObject({ id: "file-1", hash: PNG_HASH, mimeType: "image/png" });
+    expect(res.body.files["file-1"].dataURL).toBeUndefined();
+
+    const row = await prisma.drawing.findUnique({ where: { id: drawingId }, select: { files: true } });
+    expect(row!.files).not.toContain("base64");
+
+    const file = await get(`/files/${PNG_HASH}`, ownerToken);
+    expect(file.status).toBe(200);
+    expect(file.headers["content-type"]).toBe("image/png");
+    expect(Buffer.from(file.body).equals(PNG_BYTES)).toBe(true);
+  });
+
+  it("derives read access from the drawings that reference a file", async () => {
+    expect((await get(`/files/${PNG_HASH}`, otherToken)).status).toBe(404);
+
+    await send("post", `/drawings/${drawingId}/permissions`, ownerToken, {
+      granteeUserId: other.id,
+      permission: "view",
+    });
+    expect((await get(`/files/${PNG_HASH}?drawingId=${drawingId}`, otherToken)).status).toBe(200);
+  });
+
+  it("accepts uploads only when the bytes match the hash", async () => {
+    const bytes = Buffer.concat([PNG_BYTES, Buffer.from([0])]);
+    const hash = hashFileBytes(bytes);
+
+    expect((await upload(PNG_HASH, bytes, otherToken)).status).toBe(400);
+    expect((await upload(hash, bytes, otherToken, "text/html")).status).toBe(400);
+
+    const res = await upload(hash, bytes, otherToken);
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({ hash, size: bytes.length, mimeType: "image/png" });
+    expect((await get(`/files/${hash}`, otherToken)).status).toBe(200);
+    expect((await get(`/files/${hash}`, ownerToken)).status).toBe(404);
+  });
+
+  it("lets every user who uploaded the same bytes reference them", async () => {
+    const bytes = Buffer.concat([PNG_BYTES, Buffer.from([0])]);
+    const hash = hashFileBytes(bytes);
+    const saveReference = () =>
+      send("put", `/drawings/${drawingId}`, ownerToken, {
+        files: { "file-2": { id: "file-2", mimeType: "image/png", hash } },
+      });
+
+    // Knowing the hash of someone else's upload is not enough to claim it.
+    expect((await saveReference()).body.files).toEqual({});
+
+    expect((await upload(hash, bytes, ownerToken)).status).toBe(200);
+    const saved = await saveReference();
+    expect(saved.body.files["file-2"]).toMatchObject({ hash });
+    expect((await get(`/files/${hash}`, ownerToken)).status).toBe(200);
+    expect((await get(`/files/${hash}`, otherToken)).status).toBe(200);
+    const refs = await prisma.drawingFileRef.findMany({ where: { drawingId }, select: { fileHash: true } });
+    expect(refs.map((ref) => ref.fileHash)).toEqual([hash]);
+  });
+
+  it("shares stored files with duplicates instead of copying them", async () => {
+    const res = await send("post", `/drawings/${drawingId}/duplicate`, ownerToken);
+    expect(res.status).toBe(200);
+    expect(await prisma.drawingFileRef.count({ where: { drawingId: res.body.id } })).toBe(1);
+  });
+
+  it("migrates drawings saved with inline images", async () => {
+    const legacy = await prisma.drawing.create({
+      data: {
+        name: "Legacy",
+        elements: "[]",
+        appState: "{}",
+        files: JSON.stringify({
+          legacy: { id: "legacy", mimeType: "image/png", dataURL: `data:image/png;base64,${PNG_BASE64}` },
+        }),
+        userId: owner.id,
+      },
+    });
+
+    const store = createDrawingFileStore(prisma, { rootDir: process.env.DRAWING_FILES_DIR! });
+    expect(await store.migrateInlineFiles()).toBe(1);
+
+    const migrated = await prisma.drawing.findUnique({ where: { id: legacy.id } });
+    expect(JSON.parse(migrated!.files).legacy).toEqual({ id: "legacy", mimeType: "image/png", hash: PNG_HASH, size: PNG_BYTES.length });
+    expect(migrated!.updatedAt.getTime()).toBe(legacy.updatedAt.getTime());
+    expect(await store.migrateInlineFiles()).toBe(0);
+  });
+});
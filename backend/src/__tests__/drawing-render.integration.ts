@@ -0,0 +1,121 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import request from "supertest";
+import bcrypt from "bcrypt";
+import jwt, { SignOptions } from "jsonwebtoken";
+import { StringValue } from "ms";
+import { PrismaClient } from "../generated/client";
+import { config } from "../config";
+import { getTestPrisma, setupTestDb } from "./testUtils";
+
+describe("Drawing render routes", () => {
+  const userAgent = "vitest-drawing-render";
+  let prisma: PrismaClient;
+  let app: any;
+
+  let owner: { id: string; email: string };
+  let ownerToken: string;
+  let agent: any;
+  let csrfHeaderName: string;
+  let csrfToken: string;
+  let drawingId: string;
+
+  const signToken = (user: { id: string; email: string }) => {
+    const signOptions: SignOptions = { expiresIn: config.jwtAccessExpiresIn as StringValue };
+    return jwt.sign(
+      { userId: user.id, email: user.email, type: "access" },
+      config.jwtSecret,
+      signOptions
+    );
+  };
+
+  const get = (path: string, token?: string) => {
+    const req = agent.get(path).set("User-Agent", userAgent);
+    return token ? req.set("Authorization", `Bearer ${token}`) : req;
+  };
+
+  beforeAll(async () => {
+    setupTestDb();
+    prisma = getTestPrisma();
+    ({ app } = await import("../index"));
+
+    await prisma.systemConfig.upsert({
+      where: { id: "default" },
+      update: { authEnabled: true, registrationEnabled: false },
+      create: { id: "default", authEnabled: true, registrationEnabled: false },
+    });
+
+    const passwordHash = await bcrypt.hash("password123", 10);
+    owner = await prisma.user.create({
+      data: { email: "render-owner@test.local", passwordHash, name: "Owner", role: "USER", isActive: true },
+      select: { id: true, email: true },
+    });
+    ownerToken = signToken(owner);
+
+    const drawing = await prisma.drawing.create({
+      data: {
+        name: "Rendered",
+        elements: JSON.stringify([
+          { id: "r1", type: "rectangle", x: 0, y: 0, width: 100, height: 50, seed: 1 },
+          { id: "f1", type: "frame", x: 200, y: 0, width: 40, height: 30, seed: 2 },
+        ]),
+        appState: JSON.stringify({ viewBackgroundColor: "#ffffff" }),
+        files: "{}",
+        userId: owner.id,
+      },
+    });
+    drawingId = drawing.id;
+
+    agent = request.agent(app);
+    const csrfRes = await agent.get("/csrf-token").set("User-Agent", userAgent);
+    csrfHeaderName = csrfRes.body.header;
+    csrfToken = csrfRes.body.token;
+  });
+
+  afterAll(async () => {
+    await prisma.$disconnect();
+  });
+
+  it("renders SVG and PNG for the owner and revalidates by version", async () => {
+    const svg = await get(`/drawings/${drawingId}/render.svg?scale=2`, ownerToken);
+    expect(svg.status).toBe(200);
+    expect(svg.headers["content-type"]).toContain("image/svg+xml");
+    expect(svg.text).toContain('width="280"');
+
+    const cached = await get(`/drawings/${drawingId}/render.svg?scale=2`, ownerToken).set(
+      "If-None-Match",
+      svg.headers.etag
+    );
+    expect(cached.status).toBe(304);
+
+    await prisma.drawing.update({ where: { id: drawingId }, data: { version: { increment: 1 } } });
+    const changed = await get(`/drawings/${drawingId}/render.svg?scale=2`, ownerToken).set(
+      "If-None-Match",
+      svg.headers.etag
+    );
+    expect(changed.status).toBe(200);
+
+    const png = await get(`/drawings/${drawingId}/render.png?frameId=f1`, ownerToken);
+    expect(png.status).toBe(200);
+    expect(png.headers["content-type"]).toBe("image/png");
+  });
+
+  it("validates options and unknown frames", async () => {
+    expect((await get(`/drawings/${drawingId}/render.svg?scale=9`, ownerToken)).status).toBe(400);
+    expect((await get(`/drawings/${drawingId}/render.svg?frameId=nope`, ownerToken)).status).toBe(404);
+    expect((await get(`/drawings/${drawingId}/render.gif`, ownerToken)).status).toBe(404);
+  });
+
+  it("follows drawing access, including link shares", async () => {
+    expect((await get(`/drawings/${drawingId}/render.svg`)).status).toBe(404);
+
+    const share = await agent
+      .post(`/drawings/${drawingId}/link-shares`)
+      .set("User-Agent", userAgent)
+      .set("Authorization", `Bearer ${ownerToken}`)
+      .set(csrfHeaderName, csrfToken)
+      .send({ permission: "view" });
+    expect(share.status).toBe(200);
+
+    expect((await get(`/drawings/${drawingId}/render.svg`)).status).toBe(200);
+  });
+});
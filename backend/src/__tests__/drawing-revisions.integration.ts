@@ -0,0 +1,330 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import request from "supertest";
+import bcrypt from "bcrypt";
+import jwt, { SignOptions } from "jsonwebtoken";
+import { StringValue } from "ms";
+import { PrismaClient } from "../generated/client";
+import { config } from "../config";
+import { getTestPrisma, setupTestDb } from "./testUtils";
+
+describe("Drawing revisions", () => {
+  const userAgent = "vitest-drawing-revisions";
+  let prisma: PrismaClient;
+  let app: any;
+
+  let owner: { id: string; email: string };
+  let ownerToken: string;
+  let agent: any;
+  let csrfHeaderName: string;
+  let csrfToken: string;
+
+  const rectangle = (id: string, version: number) => ({
+    id,
+    type: "rectangle",
+    x: 0,
+    y: 0,
+    width: 10,
+    height: 10,
+    version,
+    versionNonce: version,
+    isDeleted: false,
+  });
+
+  const saveScene = (drawingId: string, elements: unknown[], version: number, merge?: boolean) =>
+    agent
+      .put(`/drawings/${drawingId}`)
+      .set("User-Agent", userAgent)
+      .set("Authorization", `Bearer ${ownerToken}`)
+      .set(csrfHeaderName, csrfToken)
+      .send({ elements, appState: { viewBackgroundColor: "#ffffff" }, version, merge });
+
+  beforeAll(async () => {
+    setupTestDb();
+    prisma = getTestPrisma();
+    ({ app } = await import("../index"));
+
+    await prisma.systemConfig.upsert({
+      where: { id: "default" },
+      update: { authEnabled: true, registrationEnabled: false },
+      create: { id: "default", authEnabled: true, registrationEnabled: false },
+    });
+
+    const passwordHash = await bcrypt.hash("password123", 10);
+    owner = await prisma.user.create({
+      data: {
+        email: "revisions-owner@test.local",
+        passwordHash,
+        name: "Revisions Owner",
+        role: "USER",
+        isActive: true,
+      },
+      select: { id: true, email: true },
+    });
+
+    const signOptions: SignOptions = { expiresIn: config.jwtAccessExpiresIn as StringValue };
+    ownerToken = jwt.sign(
+      { userId: owner.id, email: owner.email, type: "access" },
+      config.jwtSecret,
+      signOptions
+    );
+
+    agent = request.agent(app);
+    const csrfRes = await agent.get("/csrf-token").set("User-Agent", userAgent);
+    csrfHeaderName = csrfRes.body.header;
+    csrfToken = csrfRes.body.token;
+  });
+
+  afterAll(async () => {
+    await prisma.$disconnect();
+  });
+
+  it("seeds history with the original scene and coalesces rapid saves", async () => {
+    const drawing = await prisma.drawing.create({
+      data: {
+        name: "History",
+        elements: JSON.stringify([rectangle("a", 1)]),
+        appState: "{}",
+        files: "{}",
+        userId: owner.id,
+        version: 1,
+      },
+      select: { id: true },
+    });
+
+    expect((await saveScene(drawing.id, [rectangle("a", 2)], 1)).status).toBe(200);
+    expect((await saveScene(drawing.id, [rectangle("a", 3)], 2)).status).toBe(200);
+
+    const list = await agent
+      .get(`/drawings/${drawing.id}/revisions`)
+      .set("User-Agent", userAgent)
+      .set("Authorization", `Bearer ${ownerToken}`);
+    expect(list.status).toBe(200);
+    expect(list.body.revisions.map((r: any) => r.version)).toEqual([3, 1]);
+    expect(list.body.revisions[0].createdBy?.id).toBe(owner.id);
+
+    const original = await agent
+      .get(`/drawings/${drawing.id}/revisions/1`)
+      .set("User-Agent", userAgent)
+      .set("Authorization", `Bearer ${ownerToken}`);
+    expect(original.status).toBe(200);
+    expect(original.body.elements[0].version).toBe(1);
+  });
+
+  it("restores an older revision so it wins over the current scene", async () => {
+    const drawing = await prisma.drawing.create({
+      data: {
+        name: "Restore",
+        elements: JSON.stringify([rectangle("a", 1)]),
+        appState: "{}",
+        files: "{}",
+        userId: owner.id,
+        version: 1,
+      },
+      select: { id: true },
+    });
+
+    expect(
+      (await saveScene(drawing.id, [rectangle("a", 5), rectangle("b", 1)], 1)).status
+    ).toBe(200);
+
+    const restored = await agent
+      .post(`/drawings/${drawing.id}/revisions/1/restore`)
+      .set("User-Agent", userAgent)
+      .set("Authorization", `Bearer ${ownerToken}`)
+      .set(csrfHeaderName, csrfToken)
+      .send({ version: 2 });
+    expect(restored.status).toBe(200);
+    expect(restored.body.version).toBe(3);
+
+    const byId = new Map<string, any>(restored.body.elements.map((el: any) => [el.id, el]));
+    expect(byId.get("a")?.version).toBe(6);
+    expect(byId.get("a")?.isDeleted).toBe(false);
+    expect(byId.get("b")?.isDeleted).toBe(true);
+
+    const stale = await agent
+      .post(`/drawings/${drawing.id}/revisions/1/restore`)
+      .set("User-Agent", userAgent)
+      .set("Authorization", `Bearer ${ownerToken}`)
+      .set(csrfHeaderName, csrfToken)
+      .send({ version: 2 });
+    expect(stale.status).toBe(409);
+    expect(stale.body.currentVersion).toBe(3);
+  });
+
+  it("merges a stale save into the stored scene when asked to", async () => {
+    const drawing = await prisma.drawing.create({
+      data: {
+        name: "Merge",
+        elements: JSON.stringify([rectangle("a", 1), rectangle("b", 1)]),
+        appState: "{}",
+        files: "{}",
+        userId: owner.id,
+        version: 1,
+      },
+      select: { id: true },
+    });
+
+    // Another tab edits "a" and saves first.
+    expect((await saveScene(drawing.id, [rectangle("a", 2), rectangle("b", 1)], 1)).status).toBe(200);
+
+    // Without merge mode the stale save is still refused.
+    const refused = await saveScene(drawing.id, [rectangle("a", 1), rectangle("b", 2)], 1);
+    expect(refused.status).toBe(409);
+    expect(refused.body.code).toBe("VERSION_CONFLICT");
+
+    const merged = await saveScene(
+      drawing.id,
+      [rectangle("a", 1), rectangle("b", 2), rectangle("c", 1)],
+      1,
+      true
+    );
+    expect(merged.status).toBe(200);
+    expect(merged.body.merged).toBe(true);
+    expect(merged.body.version).toBe(3);
+    const byId = new Map<string, any>(merged.body.elements.map((el: any) => [el.id, el]));
+    expect(byId.get("a")?.version).toBe(2);
+    expect(byId.get("b")?.version).toBe(2);
+    expect(byId.has("c")).toBe(true);
+  });
+
+  it("merges from a tab holding a version that was coalesced out of the history", async () => {
+    const drawing = await prisma.drawing.create({
+      data: {
+        name: "Coalesced base",
+        elements: JSON.stringify([rectangle("a", 1), rectangle("b", 1)]),
+        appState: "{}",
+        files: "{}",
+        userId: owner.id,
+        version: 1,
+      },
+      select: { id: true },
+    });
+
+    // The same author saves twice within the coalesce window; version 2 folds into version 3.
+    expect((await saveScene(drawing.id, [rectangle("a", 2), rectangle("b", 1)], 1)).status).toBe(200);
+    expect((await saveScene(drawing.id, [rectangle("a", 3), rectangle("b", 1)], 2)).status).toBe(200);
+    const revisions = await prisma.drawingRevision.findMany({
+      where: { drawingId: drawing.id },
+      select: { version: true },
+    });
+    expect(revisions.map((revision) => revision.version).sort()).toEqual([1, 3]);
+
+    // An older tab still holds version 2 and edits "b".
+    const merged = await saveScene(drawing.id, [rectangle("a", 2), rectangle("b", 2)], 2, true);
+    expect(merged.status).toBe(200);
+    expect(merged.body.merged).toBe(true);
+    expect(merged.body.version).toBe(4);
+    const byId = new Map<string, any>(merged.body.elements.map((el: any) => [el.id, el]));
+    expect(byId.get("a")?.version).toBe(3);
+    expect(byId.get("b")?.version).toBe(2);
+  });
+
+  it("merges against a kept revision once its merge base was pruned", async () => {
+    const drawing = await prisma.drawing.create({
+      data: {
+        name: "Revision base",
+        elements: JSON.stringify([rectangle("a", 1), rectangle("b", 1)]),
+        appState: "{}",
+        files: "{}",
+        userId: owner.id,
+        version: 1,
+      },
+      select: { id: true },
+    });
+    expect((await saveScene(drawing.id, [rectangle("a", 2), rectangle("b", 1)], 1)).status).toBe(200);
+    await prisma.drawingMergeBase.deleteMany({ where: { drawingId: drawing.id, version: 1 } });
+
+    const merged = await saveScene(drawing.id, [rectangle("a", 1), rectangle("b", 2)], 1, true);
+    expect(merged.status).toBe(200);
+    expect(merged.body.merged).toBe(true);
+    const byId = new Map<string, any>(merged.body.elements.map((el: any) => [el.id, el]));
+    expect(byId.get("a")?.version).toBe(2);
+    expect(byId.get("b")?.version).toBe(2);
+  });
+
+  it("refuses to merge once the base revision is gone", async () => {
+    const drawing = await prisma.drawing.create({
+      data: {
+        name: "Pruned base",
+        elements: JSON.stringify([rectangle("a", 1), rectangle("b", 1)]),
+        appState: "{}",
+        files: "{}",
+        userId: owner.id,
+        version: 1,
+      },
+      select: { id: true },
+    });
+    expect((await saveScene(drawing.id, [rectangle("a", 2), rectangle("b", 1)], 1)).status).toBe(200);
+
+    // Pruning dropped both the merge base and the revision the stale tab started from.
+    await prisma.drawingMergeBase.deleteMany({ where: { drawingId: drawing.id, version: 1 } });
+    await prisma.drawingRevision.deleteMany({ where: { drawingId: drawing.id, version: 1 } });
+
+    const stale = await saveScene(drawing.id, [rectangle("a", 1), rectangle("b", 2)], 1, true);
+    expect(stale.status).toBe(409);
+    expect(stale.body.code).toBe("VERSION_CONFLICT");
+    expect(stale.body.currentVersion).toBe(2);
+    const stored = await prisma.drawing.findUniqueOrThrow({ where: { id: drawing.id } });
+    expect(stored.version).toBe(2);
+  });
+
+  it("diffs a stored revision against the live scene", async () => {
+    const drawing = await prisma.drawing.create({
+      data: {
+        name: "Diff",
+        elements: JSON.stringify([rectangle("a", 1), rectangle("b", 1)]),
+        appState: "{}",
+        files: "{}",
+        userId: owner.id,
+        version: 1,
+      },
+      select: { id: true },
+    });
+
+    const moved = { ...rectangle("a", 2), x: 50 };
+    expect(
+      (await saveScene(drawing.id, [moved, { ...rectangle("b", 2), isDeleted: true }, rectangle("c", 1)], 1))
+        .status
+    ).toBe(200);
+
+    const diff = await agent
+      .get(`/drawings/${drawing.id}/diff`)
+      .query({ from: 1 })
+      .set("User-Agent", userAgent)
+      .set("Authorization", `Bearer ${ownerToken}`);
+    expect(diff.status).toBe(200);
+    expect(diff.body.from).toBe(1);
+    expect(diff.body.to).toBe(2);
+    expect(diff.body.added.map((entry: any) => entry.id)).toEqual(["c"]);
+    expect(diff.body.removed.map((entry: any) => entry.id)).toEqual(["b"]);
+    expect(diff.body.modified).toEqual([
+      expect.objectContaining({ id: "a", changes: ["moved"] }),
+    ]);
+
+    const invalid = await agent
+      .get(`/drawings/${drawing.id}/diff`)
+      .query({ from: "latest" })
+      .set("User-Agent", userAgent)
+      .set("Authorization", `Bearer ${ownerToken}`);
+    expect(invalid.status).toBe(400);
+  });
+
+  it("hides revisions from users without access", async () => {
+    const drawing = await prisma.drawing.create({
+      data: {
+        name: "Private",
+        elements: "[]",
+        appState: "{}",
+        files: "{}",
+        userId: owner.id,
+        version: 1,
+      },
+      select: { id: true },
+    });
+
+    const anon = await request(app)
+      .get(`/drawings/${drawing.id}/revisions`)
+      .set("User-Agent", userAgent);
+    expect(anon.status).toBe(404);
+  });
+});
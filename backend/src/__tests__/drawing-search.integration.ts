@@ -0,0 +1,154 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import request from "supertest";
+import bcrypt from "bcrypt";
+import jwt, { SignOptions } from "jsonwebtoken";
+import { StringValue } from "ms";
+import { PrismaClient } from "../generated/client";
+import { config } from "../config";
+import { getTestPrisma, setupTestDb } from "./testUtils";
+
+describe("Drawing content search", () => {
+  const userAgent = "vitest-drawing-search";
+  let prisma: PrismaClient;
+  let app: any;
+
+  let owner: { id: string; email: string };
+  let other: { id: string; email: string };
+  let ownerToken: string;
+  let otherToken: string;
+  let agent: any;
+  let csrfHeaderName: string;
+  let csrfToken: string;
+
+  const textElement = (id: string, text: string) => ({
+    id,
+    type: "text",
+    x: 0,
+    y: 0,
+    width: 100,
+    height: 20,
+    text,
+    originalText: text,
+    version: 1,
+    versionNonce: 1,
+    isDeleted: false,
+  });
+
+  const signToken = (user: { id: string; email: string }) => {
+    const signOptions: SignOptions = { expiresIn: config.jwtAccessExpiresIn as StringValue };
+    return jwt.sign(
+      { userId: user.id, email: user.email, type: "access" },
+      config.jwtSecret,
+      signOptions
+    );
+  };
+
+  const createDrawing = async (token: string, name: string, elements: unknown[]) => {
+    const res = await agent
+      .post("/drawings")
+      .set("User-Agent", userAgent)
+      .set("Authorization", `Bearer ${token}`)
+      .set(csrfHeaderName, csrfToken)
+      .send({ name, elements, appState: { viewBackgroundColor: "#ffffff" } });
+    expect(res.status).toBe(200);
+    return res.body as { id: string; version: number };
+  };
+
+  beforeAll(async () => {
+    setupTestDb();
+    prisma = getTestPrisma();
+    ({ app } = await import("../index"));
+
+    await prisma.systemConfig.upsert({
+      where: { id: "default" },
+      update: { authEnabled: true, registrationEnabled: false },
+      create: { id: "default", authEnabled: true, registrationEnabled: false },
+    });
+
+    const passwordHash = await bcrypt.hash("password123", 10);
+    owner = await prisma.user.create({
+      data: { email: "search-owner@test.local", passwordHash, name: "Owner", role: "USER", isActive: true },
+      select: { id: true, email: true },
+    });
+    other = await prisma.user.create({
+      data: { email: "search-other@test.local", passwordHash, name: "Other", role: "USER", isActive: true },
+      select: { id: true, email: true },
+    });
+    ownerToken = signToken(owner);
+    otherToken = signToken(other);
+
+    agent = request.agent(app);
+    const csrfRes = await agent.get("/csrf-token").set("User-Agent", userAgent);
+    csrfHeaderName = csrfRes.body.header;
+    csrfToken = csrfRes.body.token;
+  });
+
+  afterAll(async () => {
+    await prisma.$disconnect();
+  });
+
+  it("finds drawings by text element content with snippets and element ids", async () => {
+    const drawing = await createDrawing(ownerToken, "Architecture", [
+      textElement("label-1", "Requests go through the payment-gateway first"),
+      textElement("label-2", "Unrelated note"),
+    ]);
+    await createDrawing(ownerToken, "Roadmap", [textElement("x", "Quarterly goals")]);
+
+    const res = await agent
+      .get("/drawings")
+      .query({ search: "payment-gateway", sortField: "relevance" })
+      .set("User-Agent", userAgent)
+      .set("Authorization", `Bearer ${ownerToken}`);
+
+    expect(res.status).toBe(200);
+    expect(res.body.drawings.map((d: any) => d.id)).toEqual([drawing.id]);
+    const match = res.body.drawings[0].search;
+    expect(match.matchedElementIds).toEqual(["label-1"]);
+    expect(match.snippets[0].segments.some((s: any) => s.match && /payment/i.test(s.text))).toBe(true);
+  });
+
+  it("reindexes on save and does not leak other users' drawings", async () => {
+    const drawing = await createDrawing(ownerToken, "Flows", [textElement("t", "legacy billing")]);
+    const saved = await agent
+      .put(`/drawings/${drawing.id}`)
+      .set("User-Agent", userAgent)
+      .set("Authorization", `Bearer ${ownerToken}`)
+      .set(csrfHeaderName, csrfToken)
+      .send({ elements: [textElement("t", "settlement ledger")], version: drawing.version });
+    expect(saved.status).toBe(200);
+
+    const search = (token: string, term: string) =>
+      agent
+        .get("/drawings")
+        .query({ search: term })
+        .set("User-Agent", userAgent)
+        .set("Authorization", `Bearer ${token}`);
+
+    expect((await search(ownerToken, "legacy")).body.drawings).toEqual([]);
+    expect((await search(ownerToken, "ledger")).body.drawings.map((d: any) => d.id)).toEqual([
+      drawing.id,
+    ]);
+    expect((await search(otherToken, "ledger")).body.drawings).toEqual([]);
+  });
+
+  it("searches content of drawings shared with the user", async () => {
+    const drawing = await createDrawing(ownerToken, "Shared", [textElement("s", "kubernetes cluster")]);
+    await prisma.drawingPermission.create({
+      data: {
+        drawingId: drawing.id,
+        granteeUserId: other.id,
+        permission: "view",
+        createdByUserId: owner.id,
+      },
+    });
+
+    const res = await agent
+      .get("/drawings/shared")
+      .query({ search: "kube" })
+      .set("User-Agent", userAgent)
+      .set("Authorization", `Bearer ${otherToken}`);
+    expect(res.status).toBe(200);
+    expect(res.body.drawings.map((d: any) => d.id)).toEqual([drawing.id]);
+    expect(res.body.drawings[0].search.matchedElementIds).toEqual(["s"]);
+  });
+});
@@ -0,0 +1,146 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import request from "supertest";
+import bcrypt from "bcrypt";
+import jwt, { SignOptions } from "jsonwebtoken";
+import { StringValue } from "ms";
+import { PrismaClient } from "../generated/client";
+import { config } from "../config";
+import { getTestPrisma, setupTestDb } from "./testUtils";
+
+describe("Drawing stars", () => {
+  const userAgent = "vitest-drawing-stars";
+  let prisma: PrismaClient;
+  let app: any;
+
+  let owner: { id: string; email: string };
+  let other: { id: string; email: string };
+  let ownerToken: string;
+  let otherToken: string;
+  let agent: any;
+  let csrfHeaderName: string;
+  let csrfToken: string;
+
+  const signToken = (user: { id: string; email: string }) => {
+    const signOptions: SignOptions = { expiresIn: config.jwtAccessExpiresIn as StringValue };
+    return jwt.sign(
+      { userId: user.id, email: user.email, type: "access" },
+      config.jwtSecret,
+      signOptions
+    );
+  };
+
+  const send = (method: "post" | "put" | "delete", path: string, token: string, body?: unknown) =>
+    agent[method](path)
+      .set("User-Agent", userAgent)
+      .set("Authorization", `Bearer ${token}`)
+      .set(csrfHeaderName, csrfToken)
+      .send(body);
+
+  const get = (path: string, token: string) =>
+    agent.get(path).set("User-Agent", userAgent).set("Authorization", `Bearer ${token}`);
+
+  const createDrawing = async (token: string, name: string) => {
+    const res = await send("post", "/drawings", token, {
+      name,
+      elements: [],
+      appState: { viewBackgroundColor: "#ffffff" },
+    });
+    expect(res.status).toBe(200);
+    return res.body.id as string;
+  };
+
+  let alpha: string;
+  let beta: string;
+  let gamma: string;
+  let sharedWithOwner: string;
+  let privateToOther: string;
+
+  beforeAll(async () => {
+    setupTestDb();
+    prisma = getTestPrisma();
+    ({ app } = await import("../index"));
+
+    await prisma.systemConfig.upsert({
+      where: { id: "default" },
+      update: { authEnabled: true, registrationEnabled: false },
+      create: { id: "default", authEnabled: true, registrationEnabled: false },
+    });
+
+    const passwordHash = await bcrypt.hash("password123", 10);
+    owner = await prisma.user.create({
+      data: { email: "stars-owner@test.local", passwordHash, name: "Owner", role: "USER", isActive: true },
+      select: { id: true, email: true },
+    });
+    other = await prisma.user.create({
+      data: { email: "stars-other@test.local", passwordHash, name: "Other", role: "USER", isActive: true },
+      select: { id: true, email: true },
+    });
+    ownerToken = signToken(owner);
+    otherToken = signToken(other);
+
+    agent = request.agent(app);
+    const csrfRes = await agent.get("/csrf-token").set("User-Agent", userAgent);
+    csrfHeaderName = csrfRes.body.header;
+    csrfToken = csrfRes.body.token;
+
+    alpha = await createDrawing(ownerToken, "Alpha");
+    beta = await createDrawing(ownerToken, "Beta");
+    gamma = await createDrawing(ownerToken, "Gamma");
+    sharedWithOwner = await createDrawing(otherToken, "Shared plan");
+    privateToOther = await createDrawing(otherToken, "Private plan");
+    await send("post", `/drawings/${sharedWithOwner}/permissions`, otherToken, {
+      granteeUserId: owner.id,
+      permission: "view",
+    });
+  });
+
+  afterAll(async () => {
+    await prisma.$disconnect();
+  });
+
+  it("stars owned and shared drawings but not inaccessible ones", async () => {
+    expect((await send("put", `/drawings/${beta}/star`, ownerToken)).body).toEqual({ id: beta, starred: true });
+    expect((await send("put", `/drawings/${sharedWithOwner}/star`, ownerToken)).status).toBe(200);
+    expect((await send("put", `/drawings/${privateToOther}/star`, ownerToken)).status).toBe(404);
+  });
+
+  it("lists starred drawings from both owned and shared ones", async () => {
+    const res = await get("/drawings?starred=true&sortField=name", ownerToken);
+    expect(res.status).toBe(200);
+    expect(res.body.drawings.map((d: any) => d.id)).toEqual([beta, sharedWithOwner]);
+    const shared = res.body.drawings.find((d: any) => d.id === sharedWithOwner);
+    expect(shared).toMatchObject({ starred: true, accessLevel: "view", collectionId: null });
+
+    const all = await get("/drawings?sortField=name", ownerToken);
+    expect(all.body.drawings.map((d: any) => [d.id, d.starred])).toEqual([
+      [alpha, false],
+      [beta, true],
+      [gamma, false],
+    ]);
+  });
+
+  it("pins starred drawings first across pages", async () => {
+    await send("put", `/drawings/${gamma}/star`, ownerToken);
+
+    const firstPage = await get("/drawings?sortField=name&sortDirection=asc&pinStarred=true&limit=2", ownerToken);
+    expect(firstPage.body.totalCount).toBe(3);
+    expect(firstPage.body.drawings.map((d: any) => d.id)).toEqual([beta, gamma]);
+
+    const secondPage = await get(
+      "/drawings?sortField=name&sortDirection=asc&pinStarred=true&limit=2&offset=2",
+      ownerToken
+    );
+    expect(secondPage.body.drawings.map((d: any) => d.id)).toEqual([alpha]);
+  });
+
+  it("keeps stars private and drops them on unstar", async () => {
+    const otherView = await get("/drawings/shared", otherToken);
+    expect(otherView.body.drawings).toEqual([]);
+    const otherOwned = await get("/drawings?starred=true", otherToken);
+    expect(otherOwned.body.drawings).toEqual([]);
+
+    await send("delete", `/drawings/${beta}/star`, ownerToken);
+    const res = await get("/drawings?starred=true&sortField=name", ownerToken);
+    expect(res.body.drawings.map((d: any) => d.id)).toEqual([gamma, sharedWithOwner]);
+  });
+});
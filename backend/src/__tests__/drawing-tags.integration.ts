@@ -0,0 +1,142 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import request from "supertest";
+import bcrypt from "bcrypt";
+import jwt, { SignOptions } from "jsonwebtoken";
+import { StringValue } from "ms";
+import { PrismaClient } from "../generated/client";
+import { config } from "../config";
+import { getTestPrisma, setupTestDb } from "./testUtils";
+
+describe("Drawing tags", () => {
+  const userAgent = "vitest-drawing-tags";
+  let prisma: PrismaClient;
+  let app: any;
+
+  let owner: { id: string; email: string };
+  let other: { id: string; email: string };
+  let ownerToken: string;
+  let otherToken: string;
+  let agent: any;
+  let csrfHeaderName: string;
+  let csrfToken: string;
+
+  const signToken = (user: { id: string; email: string }) => {
+    const signOptions: SignOptions = { expiresIn: config.jwtAccessExpiresIn as StringValue };
+    return jwt.sign(
+      { userId: user.id, email: user.email, type: "access" },
+      config.jwtSecret,
+      signOptions
+    );
+  };
+
+  const send = (method: "post" | "put" | "delete", path: string, token: string, body?: unknown) =>
+    agent[method](path)
+      .set("User-Agent", userAgent)
+      .set("Authorization", `Bearer ${token}`)
+      .set(csrfHeaderName, csrfToken)
+      .send(body);
+
+  const list = (path: string, token: string, query: Record<string, string>) =>
+    agent
+      .get(path)
+      .query(query)
+      .set("User-Agent", userAgent)
+      .set("Authorization", `Bearer ${token}`);
+
+  const createDrawing = (userId: string, name: string) =>
+    prisma.drawing.create({
+      data: { name, elements: "[]", appState: "{}", files: "{}", userId },
+      select: { id: true },
+    });
+
+  beforeAll(async () => {
+    setupTestDb();
+    prisma = getTestPrisma();
+    ({ app } = await import("../index"));
+
+    await prisma.systemConfig.upsert({
+      where: { id: "default" },
+      update: { authEnabled: true, registrationEnabled: false },
+      create: { id: "default", authEnabled: true, registrationEnabled: false },
+    });
+
+    const passwordHash = await bcrypt.hash("password123", 10);
+    owner = await prisma.user.create({
+      data: { email: "tags-owner@test.local", passwordHash, name: "Owner", role: "USER", isActive: true },
+      select: { id: true, email: true },
+    });
+    other = await prisma.user.create({
+      data: { email: "tags-other@test.local", passwordHash, name: "Other", role: "USER", isActive: true },
+      select: { id: true, email: true },
+    });
+    ownerToken = signToken(owner);
+    otherToken = signToken(other);
+
+    agent = request.agent(app);
+    const csrfRes = await agent.get("/csrf-token").set("User-Agent", userAgent);
+    csrfHeaderName = csrfRes.body.header;
+    csrfToken = csrfRes.body.token;
+  });
+
+  afterAll(async () => {
+    await prisma.$disconnect();
+  });
+
+  it("creates tags with unique names per user", async () => {
+    const created = await send("post", "/tags", ownerToken, { name: "Backend", color: "#4f46e5" });
+    expect(created.status).toBe(200);
+    expect(created.body).toMatchObject({ name: "Backend", color: "#4f46e5", drawingCount: 0 });
+
+    expect((await send("post", "/tags", ownerToken, { name: "Backend" })).status).toBe(409);
+    expect((await send("post", "/tags", otherToken, { name: "Backend" })).status).toBe(200);
+    expect((await send("post", "/tags", ownerToken, { name: "x", color: "red" })).status).toBe(400);
+  });
+
+  it("filters drawings by tags with any/all matching", async () => {
+    const api = (await send("post", "/tags", ownerToken, { name: "api" })).body;
+    const infra = (await send("post", "/tags", ownerToken, { name: "infra" })).body;
+    const both = await createDrawing(owner.id, "Both");
+    const onlyApi = await createDrawing(owner.id, "Only api");
+    await createDrawing(owner.id, "Untagged");
+
+    expect((await send("put", `/drawings/${both.id}/tags`, ownerToken, { tagIds: [api.id, infra.id] })).status).toBe(200);
+    expect((await send("put", `/drawings/${onlyApi.id}/tags`, ownerToken, { tagIds: [api.id] })).status).toBe(200);
+
+    const anyRes = await list("/drawings", ownerToken, {
+      tags: `${api.id},${infra.id}`,
+      sortField: "name",
+    });
+    expect(anyRes.body.drawings.map((d: any) => d.name)).toEqual(["Both", "Only api"]);
+    expect(anyRes.body.drawings[0].tags.map((t: any) => t.name)).toEqual(["api", "infra"]);
+
+    const allRes = await list("/drawings", ownerToken, {
+      tags: `${api.id},${infra.id}`,
+      tagMode: "all",
+    });
+    expect(allRes.body.drawings.map((d: any) => d.name)).toEqual(["Both"]);
+  });
+
+  it("keeps tags personal on shared drawings", async () => {
+    const drawing = await createDrawing(owner.id, "Shared doc");
+    await prisma.drawingPermission.create({
+      data: { drawingId: drawing.id, granteeUserId: other.id, permission: "view", createdByUserId: owner.id },
+    });
+    const ownerTag = (await send("post", "/tags", ownerToken, { name: "owner-only" })).body;
+    const otherTag = (await send("post", "/tags", otherToken, { name: "reading" })).body;
+
+    expect(
+      (await send("put", `/drawings/${drawing.id}/tags`, otherToken, { tagIds: [ownerTag.id] })).status
+    ).toBe(400);
+    expect(
+      (await send("put", `/drawings/${drawing.id}/tags`, otherToken, { tagIds: [otherTag.id] })).status
+    ).toBe(200);
+    await send("put", `/drawings/${drawing.id}/tags`, ownerToken, { tagIds: [ownerTag.id] });
+
+    const shared = await list("/drawings/shared", otherToken, { tags: otherTag.id });
+    expect(shared.body.drawings.map((d: any) => d.id)).toEqual([drawing.id]);
+    expect(shared.body.drawings[0].tags.map((t: any) => t.name)).toEqual(["reading"]);
+
+    const leaked = await list("/drawings/shared", otherToken, { tags: ownerTag.id });
+    expect(leaked.body.drawings).toEqual([]);
+  });
+});
@@ -0,0 +1,148 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import request from "supertest";
+import bcrypt from "bcrypt";
+import jwt, { SignOptions } from "jsonwebtoken";
+import { StringValue } from "ms";
+import { PrismaClient } from "../generated/client";
+import { config } from "../config";
+import { getTestPrisma, setupTestDb } from "./testUtils";
+
+describe("Drawing templates", () => {
+  const userAgent = "vitest-drawing-templates";
+  let prisma: PrismaClient;
+  let app: any;
+
+  let admin: { id: string; email: string };
+  let owner: { id: string; email: string };
+  let other: { id: string; email: string };
+  let adminToken: string;
+  let ownerToken: string;
+  let otherToken: string;
+  let agent: any;
+  let csrfHeaderName: string;
+  let csrfToken: string;
+
+  const signToken = (user: { id: string; email: string }) => {
+    const signOptions: SignOptions = { expiresIn: config.jwtAccessExpiresIn as StringValue };
+    return jwt.sign(
+      { userId: user.id, email: user.email, type: "access" },
+      config.jwtSecret,
+      signOptions
+    );
+  };
+
+  const send = (method: "post" | "put" | "delete", path: string, token: string, body?: unknown) =>
+    agent[method](path)
+      .set("User-Agent", userAgent)
+      .set("Authorization", `Bearer ${token}`)
+      .set(csrfHeaderName, csrfToken)
+      .send(body);
+
+  const get = (path: string, token: string) =>
+    agent.get(path).set("User-Agent", userAgent).set("Authorization", `Bearer ${token}`);
+
+  const createDrawing = async (token: string, name: string) => {
+    const res = await send("post", "/drawings", token, {
+      name,
+      elements: [{ id: "el-1", type: "text", text: "Skeleton", x: 0, y: 0, width: 10, height: 10 }],
+      appState: { viewBackgroundColor: "#ffffff" },
+      files: { "file-1": { id: "file-1", mimeType: "image/png", dataURL: "data:image/png;base64,AAAA" } },
+    });
+    expect(res.status).toBe(200);
+    return res.body as { id: string };
+  };
+
+  beforeAll(async () => {
+    setupTestDb();
+    prisma = getTestPrisma();
+    ({ app } = await import("../index"));
+
+    await prisma.systemConfig.upsert({
+      where: { id: "default" },
+      update: { authEnabled: true, registrationEnabled: false },
+      create: { id: "default", authEnabled: true, registrationEnabled: false },
+    });
+
+    const passwordHash = await bcrypt.hash("password123", 10);
+    const createUser = (email: string, name: string, role = "USER") =>
+      prisma.user.create({
+        data: { email, passwordHash, name, role, isActive: true },
+        select: { id: true, email: true },
+      });
+    admin = await createUser("templates-admin@test.local", "Admin", "ADMIN");
+    owner = await createUser("templates-owner@test.local", "Owner");
+    other = await createUser("templates-other@test.local", "Other");
+    adminToken = signToken(admin);
+    ownerToken = signToken(owner);
+    otherToken = signToken(other);
+
+    agent = request.agent(app);
+    const csrfRes = await agent.get("/csrf-token").set("User-Agent", userAgent);
+    csrfHeaderName = csrfRes.body.header;
+    csrfToken = csrfRes.body.token;
+  });
+
+  afterAll(async () => {
+    await prisma.$disconnect();
+  });
+
+  it("keeps personal templates private to their owner", async () => {
+    const drawing = await createDrawing(ownerToken, "Retro board");
+    const marked = await send("put", `/drawings/${drawing.id}/template`, ownerToken, { scope: "personal" });
+    expect(marked.status).toBe(200);
+
+    const mine = await get("/templates", ownerToken);
+    expect(mine.body.templates).toEqual([
+      expect.objectContaining({ id: drawing.id, scope: "personal", isOwner: true }),
+    ]);
+    expect((await get("/templates", otherToken)).body.templates).toEqual([]);
+    expect((await send("post", `/drawings/from-template/${drawing.id}`, otherToken, {})).status).toBe(404);
+  });
+
+  it("only lets admins publish global templates", async () => {
+    const drawing = await createDrawing(ownerToken, "Architecture");
+    const denied = await send("put", `/drawings/${drawing.id}/template`, ownerToken, { scope: "global" });
+    expect(denied.status).toBe(403);
+
+    const adminDrawing = await createDrawing(adminToken, "Service map");
+    const published = await send("put", `/drawings/${adminDrawing.id}/template`, adminToken, { scope: "global" });
+    expect(published.status).toBe(200);
+
+    const visible = await get("/templates", otherToken);
+    expect(visible.body.templates).toEqual([
+      expect.objectContaining({ id: adminDrawing.id, scope: "global", isOwner: false }),
+    ]);
+  });
+
+  it("clones scene and files into the chosen collection", async () => {
+    const template = await createDrawing(ownerToken, "Sprint retro");
+    await send("put", `/drawings/${template.id}/template`, ownerToken, { scope: "personal" });
+    const collection = await send("post", "/collections", ownerToken, { name: "Retros" });
+
+    const created = await send("post", `/drawings/from-template/${template.id}`, ownerToken, {
+      collectionId: collection.body.id,
+      name: "Retro week 42",
+    });
+    expect(created.status).toBe(200);
+    expect(created.body.id).not.toBe(template.id);
+    expect(created.body.name).toBe("Retro week 42");
+    expect(created.body.collectionId).toBe(collection.body.id);
+    expect(created.body.templateScope).toBeNull();
+    expect(created.body.elements).toEqual([expect.objectContaining({ id: "el-1" })]);
+    expect(Object.keys(created.body.files)).toEqual(["file-1"]);
+
+    const intoOthersCollection = await send("post", `/drawings/from-template/${template.id}`, otherToken, {
+      collectionId: collection.body.id,
+    });
+    expect(intoOthersCollection.status).toBe(404);
+  });
+
+  it("hides trashed templates", async () => {
+    const drawing = await createDrawing(ownerToken, "Old skeleton");
+    await send("put", `/drawings/${drawing.id}/template`, ownerToken, { scope: "personal" });
+    await send("put", `/drawings/${drawing.id}`, ownerToken, { collectionId: "trash" });
+
+    const templates = await get("/templates", ownerToken);
+    expect(templates.body.templates.map((t: any) => t.id)).not.toContain(drawing.id);
+  });
+});
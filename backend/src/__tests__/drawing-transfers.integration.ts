@@ -0,0 +1,176 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import request from "supertest";
+import bcrypt from "bcrypt";
+import jwt, { SignOptions } from "jsonwebtoken";
+import { StringValue } from "ms";
+import { PrismaClient } from "../generated/client";
+import { config } from "../config";
+import { getTestPrisma, setupTestDb } from "./testUtils";
+
+describe("Drawing ownership transfer", () => {
+  const userAgent = "vitest-drawing-transfers";
+  let prisma: PrismaClient;
+  let app: any;
+  let agent: any;
+  let csrfHeaderName: string;
+  let csrfToken: string;
+
+  type TestUser = { id: string; email: string };
+  let alice: TestUser;
+  let bob: TestUser;
+  let admin: TestUser;
+
+  const signToken = (user: TestUser) => {
+    const signOptions: SignOptions = { expiresIn: config.jwtAccessExpiresIn as StringValue };
+    return jwt.sign(
+      { userId: user.id, email: user.email, type: "access" },
+      config.jwtSecret,
+      signOptions
+    );
+  };
+
+  const send = (method: "get" | "post" | "delete", path: string, user: TestUser, body?: unknown) =>
+    agent[method](path)
+      .set("User-Agent", userAgent)
+      .set(csrfHeaderName, csrfToken)
+      .set("Authorization", `Bearer ${signToken(user)}`)
+      .send(body);
+
+  const createUser = async (email: string, name: string, role = "USER") => {
+    const passwordHash = await bcrypt.hash("password123", 10);
+    return prisma.user.create({
+      data: { email, passwordHash, name, role, isActive: true },
+      select: { id: true, email: true },
+    });
+  };
+
+  const createDrawing = (userId: string, data: { collectionId?: string; trashedAt?: Date } = {}) =>
+    prisma.drawing.create({
+      data: { name: "Handover", elements: "[]", appState: "{}", files: "{}", userId, ...data },
+      select: { id: true },
+    });
+
+  beforeAll(async () => {
+    setupTestDb();
+    prisma = getTestPrisma();
+    ({ app } = await import("../index"));
+
+    await prisma.systemConfig.upsert({
+      where: { id: "default" },
+      update: { authEnabled: true, registrationEnabled: false },
+      create: { id: "default", authEnabled: true, registrationEnabled: false },
+    });
+
+    alice = await createUser("transfer-alice@test.local", "Alice");
+    bob = await createUser("transfer-bob@test.local", "Bob");
+    admin = await createUser("transfer-admin@test.local", "Admin", "ADMIN");
+
+    agent = request.agent(app);
+    const csrfRes = await agent.get("/csrf-token").set("User-Agent", userAgent);
+    csrfHeaderName = csrfRes.body.header;
+    csrfToken = csrfRes.body.token;
+  });
+
+  afterAll(async () => {
+    await prisma.$disconnect();
+  });
+
+  it("hands a drawing over once the recipient accepts", async () => {
+    const collection = await prisma.collection.create({ data: { name: "Alice's", userId: alice.id } });
+    const drawing = await createDrawing(alice.id, { collectionId: collection.id });
+    await prisma.drawingPermission.create({
+      data: { drawingId: drawing.id, granteeUserId: bob.id, permission: "view", createdByUserId: alice.id },
+    });
+
+    expect((await send("post", `/drawings/${drawing.id}/transfer`, bob, { toUserId: alice.id })).status).toBe(404);
+    expect((await send("post", `/drawings/${drawing.id}/transfer`, alice, { toUserId: alice.id })).status).toBe(400);
+
+    const offered = await send("post", `/drawings/${drawing.id}/transfer`, alice, { toUserId: bob.id });
+    expect(offered.status).toBe(201);
+    const transferId = offered.body.transfer.id;
+
+    const pending = await send("get", "/transfers", bob);
+    expect(pending.body.incoming.map((t: any) => t.id)).toEqual([transferId]);
+    expect((await prisma.drawing.findUnique({ where: { id: drawing.id } }))?.userId).toBe(alice.id);
+
+    expect((await send("post", `/transfers/${transferId}/accept`, alice)).status).toBe(404);
+    const accepted = await send("post", `/transfers/${transferId}/accept`, bob);
+    expect(accepted.status).toBe(200);
+
+    const moved = await prisma.drawing.findUnique({ where: { id: drawing.id } });
+    expect(moved).toMatchObject({ userId: bob.id, collectionId: null });
+    const grants = await prisma.drawingPermission.findMany({
+      where: { drawingId: drawing.id },
+      select: { granteeUserId: true, permission: true },
+    });
+    expect(grants).toEqual([{ granteeUserId: alice.id, permission: "edit" }]);
+    expect(await prisma.drawingTransfer.count({ where: { id: transferId } })).toBe(0);
+
+    // Ownership-gated routes now follow the new owner.
+    expect((await send("get", `/drawings/${drawing.id}/sharing`, alice)).status).toBe(404);
+    expect((await send("get", `/drawings/${drawing.id}/sharing`, bob)).status).toBe(200);
+  });
+
+  it("lets the recipient decline and the owner withdraw", async () => {
+    const drawing = await createDrawing(alice.id);
+    const first = await send("post", `/drawings/${drawing.id}/transfer`, alice, { toUserId: bob.id });
+    expect((await send("delete", `/transfers/${first.body.transfer.id}`, bob)).status).toBe(200);
+
+    const second = await send("post", `/drawings/${drawing.id}/transfer`, alice, { toUserId: bob.id });
+    expect((await send("delete", `/transfers/${second.body.transfer.id}`, alice)).status).toBe(200);
+    expect((await send("post", `/transfers/${second.body.transfer.id}/accept`, bob)).status).toBe(404);
+    expect((await prisma.drawing.findUnique({ where: { id: drawing.id } }))?.userId).toBe(alice.id);
+  });
+
+  it("moves everything a user owns for admins, remapping the trash", async () => {
+    const leaver = await createUser("transfer-leaver@test.local", "Leaver");
+    const parent = await prisma.collection.create({ data: { name: "Team", userId: leaver.id } });
+    const child = await prisma.collection.create({
+      data: { name: "Sub", userId: leaver.id, parentId: parent.id },
+    });
+    await prisma.collection.create({ data: { id: `trash:${leaver.id}`, name: "Trash", userId: leaver.id } });
+    const filed = await createDrawing(leaver.id, { collectionId: child.id });
+    const trashed = await prisma.drawing.create({
+      data: {
+        name: "Old",
+        elements: "[]",
+        appState: "{}",
+        files: "{}",
+        userId: leaver.id,
+        collectionId: `trash:${leaver.id}`,
+        previousCollectionId: parent.id,
+        trashedAt: new Date(),
+      },
+      select: { id: true },
+    });
+
+    const body = { fromUserId: leaver.id, toUserId: bob.id };
+    expect((await send("post", "/transfers/bulk", alice, body)).status).toBe(403);
+    expect(
+      (await send("post", "/transfers/bulk", admin, { fromUserId: bob.id, toUserId: bob.id })).status
+    ).toBe(400);
+
+    const res = await send("post", "/transfers/bulk", admin, body);
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({ drawings: 2, collections: 2 });
+
+    expect(await prisma.collection.count({ where: { id: { in: [parent.id, child.id] }, userId: bob.id } })).toBe(2);
+    expect(await prisma.drawing.findUnique({ where: { id: filed.id } })).toMatchObject({
+      userId: bob.id,
+      collectionId: child.id,
+    });
+    expect(await prisma.drawing.findUnique({ where: { id: trashed.id } })).toMatchObject({
+      userId: bob.id,
+      collectionId: `trash:${bob.id}`,
+      previousCollectionId: parent.id,
+    });
+    expect(await prisma.collection.findUnique({ where: { id: `trash:${bob.id}` } })).toMatchObject({
+      userId: bob.id,
+    });
+    expect(
+      await prisma.drawingPermission.count({
+        where: { drawingId: { in: [filed.id, trashed.id] }, granteeUserId: leaver.id, permission: "edit" },
+      })
+    ).toBe(2);
+  });
+});
@@ -0,0 +1,115 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import request from "supertest";
+import bcrypt from "bcrypt";
+import jwt, { SignOptions } from "jsonwebtoken";
+import { StringValue } from "ms";
+import { PrismaClient } from "../generated/client";
+import { config } from "../config";
+import { getTestPrisma, setupTestDb } from "./testUtils";
+
+describe("Embed routes", () => {
+  const userAgent = "vitest-embed";
+  let prisma: PrismaClient;
+  let app: any;
+
+  let admin: { id: string; email: string };
+  let adminToken: string;
+  let agent: any;
+  let csrfHeaderName: string;
+  let csrfToken: string;
+  let drawingId: string;
+
+  const signToken = (user: { id: string; email: string }) => {
+    const signOptions: SignOptions = { expiresIn: config.jwtAccessExpiresIn as StringValue };
+    return jwt.sign(
+      { userId: user.id, email: user.email, type: "access" },
+      config.jwtSecret,
+      signOptions
+    );
+  };
+
+  const send = (method: "post" | "put", path: string, body: unknown) =>
+    agent[method](path)
+      .set("User-Agent", userAgent)
+      .set("Authorization", `Bearer ${adminToken}`)
+      .set(csrfHeaderName, csrfToken)
+      .send(body);
+
+  beforeAll(async () => {
+    setupTestDb();
+    prisma = getTestPrisma();
+    ({ app } = await import("../index"));
+
+    await prisma.systemConfig.upsert({
+      where: { id: "default" },
+      update: { authEnabled: true, registrationEnabled: false },
+      create: { id: "default", authEnabled: true, registrationEnabled: false },
+    });
+
+    const passwordHash = await bcrypt.hash("password123", 10);
+    admin = await prisma.user.create({
+      data: { email: "embed-admin@test.local", passwordHash, name: "Admin", role: "ADMIN", isActive: true },
+      select: { id: true, email: true },
+    });
+    adminToken = signToken(admin);
+
+    const drawing = await prisma.drawing.create({
+      data: {
+        name: "Wiki <diagram>",
+        elements: JSON.stringify([{ id: "r1", type: "rectangle", x: 0, y: 0, width: 100, height: 50, seed: 1 }]),
+        appState: JSON.stringify({ viewBackgroundColor: "#ffffff" }),
+        files: "{}",
+        userId: admin.id,
+      },
+    });
+    drawingId = drawing.id;
+
+    agent = request.agent(app);
+    const csrfRes = await agent.get("/csrf-token").set("User-Agent", userAgent);
+    csrfHeaderName = csrfRes.body.header;
+    csrfToken = csrfRes.body.token;
+  });
+
+  afterAll(async () => {
+    await prisma.$disconnect();
+  });
+
+  it("lets admins manage the frame-ancestors allowlist", async () => {
+    const invalid = await send("put", "/auth/embed-settings", { frameAncestors: ["https://wiki.example.com/page"] });
+    expect(invalid.status).toBe(400);
+
+    const saved = await send("put", "/auth/embed-settings", {
+      frameAncestors: ["https://Wiki.example.com/", "https://*.corp.example", "https://wiki.example.com"],
+    });
+    expect(saved.status).toBe(200);
+    expect(saved.body.config.frameAncestors).toEqual(["https://wiki.example.com", "https://*.corp.example"]);
+
+    const policy = await agent.get("/embed-policy").set("User-Agent", userAgent);
+    expect(policy.status).toBe(204);
+    expect(policy.headers["x-frame-ancestors"]).toBe("'self' https://wiki.example.com https://*.corp.example");
+  });
+
+  it("only serves the viewer for drawings shared by link", async () => {
+    const hidden = await agent.get(`/embed/${drawingId}`).set("User-Agent", userAgent);
+    expect(hidden.status).toBe(404);
+    expect(hidden.headers["content-type"]).toContain("text/html");
+    expect(hidden.text).not.toContain("Wiki");
+
+    const share = await send("post", `/drawings/${drawingId}/link-shares`, { permission: "view" });
+    expect(share.status).toBe(200);
+
+    const page = await agent.get(`/embed/${drawingId}?theme=dark`).set("User-Agent", userAgent);
+    expect(page.status).toBe(200);
+    expect(page.headers["x-frame-options"]).toBeUndefined();
+    expect(page.headers["content-security-policy"]).toContain(
+      "frame-ancestors 'self' https://wiki.example.com https://*.corp.example"
+    );
+    expect(page.text).toContain("<title>Wiki &lt;diagram&gt;</title>");
+    expect(page.text).toContain(`../drawings/${drawingId}/render.svg?darkMode=true`);
+  });
+
+  it("keeps the API itself unframeable", async () => {
+    const res = await agent.get("/csrf-token").set("User-Agent", userAgent);
+    expect(res.headers["content-security-policy"]).toContain("frame-ancestors 'none'");
+  });
+});
@@ -0,0 +1,153 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import request from "supertest";
+import bcrypt from "bcrypt";
+import jwt, { SignOptions } from "jsonwebtoken";
+import { StringValue } from "ms";
+import { PrismaClient } from "../generated/client";
+import { config } from "../config";
+import { getTestPrisma, setupTestDb } from "./testUtils";
+
+describe("Group sharing", () => {
+  const userAgent = "vitest-group-sharing";
+  let prisma: PrismaClient;
+  let app: any;
+
+  let admin: { id: string; email: string };
+  let owner: { id: string; email: string };
+  let teammate: { id: string; email: string };
+  let adminToken: string;
+  let ownerToken: string;
+  let teammateToken: string;
+  let agent: any;
+  let csrfHeaderName: string;
+  let csrfToken: string;
+
+  const signToken = (user: { id: string; email: string }) => {
+    const signOptions: SignOptions = { expiresIn: config.jwtAccessExpiresIn as StringValue };
+    return jwt.sign(
+      { userId: user.id, email: user.email, type: "access" },
+      config.jwtSecret,
+      signOptions
+    );
+  };
+
+  const send = (method: "post" | "patch" | "put" | "delete", path: string, token: string, body?: unknown) =>
+    agent[method](path)
+      .set("User-Agent", userAgent)
+      .set("Authorization", `Bearer ${token}`)
+      .set(csrfHeaderName, csrfToken)
+      .send(body);
+
+  const get = (path: string, token: string) =>
+    agent.get(path).set("User-Agent", userAgent).set("Authorization", `Bearer ${token}`);
+
+  beforeAll(async () => {
+    setupTestDb();
+    prisma = getTestPrisma();
+    ({ app } = await import("../index"));
+
+    await prisma.systemConfig.upsert({
+      where: { id: "default" },
+      update: { authEnabled: true, registrationEnabled: false },
+      create: { id: "default", authEnabled: true, registrationEnabled: false },
+    });
+
+    const passwordHash = await bcrypt.hash("password123", 10);
+    const createUser = (email: string, name: string, role = "USER") =>
+      prisma.user.create({
+        data: { email, passwordHash, name, role, isActive: true },
+        select: { id: true, email: true },
+      });
+    admin = await createUser("groups-admin@test.local", "Admin", "ADMIN");
+    owner = await createUser("groups-owner@test.local", "Owner");
+    teammate = await createUser("groups-teammate@test.local", "Teammate");
+    adminToken = signToken(admin);
+    ownerToken = signToken(owner);
+    teammateToken = signToken(teammate);
+
+    agent = request.agent(app);
+    const csrfRes = await agent.get("/csrf-token").set("User-Agent", userAgent);
+    csrfHeaderName = csrfRes.body.header;
+    csrfToken = csrfRes.body.token;
+  });
+
+  afterAll(async () => {
+    await prisma.$disconnect();
+  });
+
+  it("restricts group management to admins", async () => {
+    expect((await get("/auth/groups", ownerToken)).status).toBe(403);
+    expect((await send("post", "/auth/groups", ownerToken, { name: "Nope" })).status).toBe(403);
+  });
+
+  it("grants drawing access to members, including ones added after sharing", async () => {
+    const created = await send("post", "/auth/groups", adminToken, { name: "Platform team" });
+    expect(created.status).toBe(200);
+    const groupId = created.body.group.id as string;
+    expect((await send("post", "/auth/groups", adminToken, { name: "Platform team" })).status).toBe(409);
+
+    const drawing = await send("post", "/drawings", ownerToken, {
+      name: "Team diagram",
+      elements: [],
+      appState: { viewBackgroundColor: "#ffffff" },
+    });
+    const drawingId = drawing.body.id as string;
+
+    const resolved = await get(`/drawings/${drawingId}/share-resolve?q=platform`, ownerToken);
+    expect(resolved.body.groups).toEqual([
+      expect.objectContaining({ id: groupId, name: "Platform team", memberCount: 0 }),
+    ]);
+
+    const shared = await send("post", `/drawings/${drawingId}/permissions`, ownerToken, {
+      granteeGroupId: groupId,
+      permission: "edit",
+    });
+    expect(shared.status).toBe(200);
+    expect((await get(`/drawings/${drawingId}`, teammateToken)).status).toBe(404);
+
+    const added = await send("post", `/auth/groups/${groupId}/members`, adminToken, { userId: teammate.id });
+    expect(added.status).toBe(200);
+    expect(added.body.group.members.map((m: any) => m.id)).toEqual([teammate.id]);
+
+    const opened = await get(`/drawings/${drawingId}`, teammateToken);
+    expect(opened.status).toBe(200);
+    expect(opened.body.accessLevel).toBe("edit");
+
+    const sharedList = await get("/drawings/shared", teammateToken);
+    expect(sharedList.body.drawings).toEqual([
+      expect.objectContaining({ id: drawingId, accessLevel: "edit" }),
+    ]);
+
+    const sharing = await get(`/drawings/${drawingId}/sharing`, ownerToken);
+    expect(sharing.body.groupPermissions).toEqual([
+      expect.objectContaining({ groupId, permission: "edit" }),
+    ]);
+
+    const removed = await send("delete", `/auth/groups/${groupId}/members/${teammate.id}`, adminToken);
+    expect(removed.status).toBe(200);
+    expect((await get(`/drawings/${drawingId}`, teammateToken)).status).toBe(404);
+  });
+
+  it("revokes group grants through the shared permissions endpoint", async () => {
+    const group = (await send("post", "/auth/groups", adminToken, { name: "Design" })).body.group;
+    await send("post", `/auth/groups/${group.id}/members`, adminToken, { userId: teammate.id });
+    const drawing = await send("post", "/drawings", ownerToken, {
+      name: "Mockups",
+      elements: [],
+      appState: { viewBackgroundColor: "#ffffff" },
+    });
+    const grant = await send("post", `/drawings/${drawing.body.id}/permissions`, ownerToken, {
+      granteeGroupId: group.id,
+      permission: "view",
+    });
+    expect((await get(`/drawings/${drawing.body.id}`, teammateToken)).status).toBe(200);
+
+    const revoke = await send(
+      "delete",
+      `/drawings/${drawing.body.id}/permissions/${grant.body.groupPermission.id}`,
+      ownerToken
+    );
+    expect(revoke.status).toBe(200);
+    expect((await get(`/drawings/${drawing.body.id}`, teammateToken)).status).toBe(404);
+  });
+});
@@ -4,6 +4,7 @@ import fs from "fs";
 import path from "path";
 import os from "os";
 import JSZip from "jszip";
+import { hashFileBytes } from "../server/drawingFiles";
 import { getTestPrisma, setupTestDb, cleanupTestDb } from "./testUtils";
 import { BOOTSTRAP_USER_ID } from "../auth/authMode";
 
@@ -200,6 +201,56 @@ const createExcalidashArchiveWithDuplicateDrawingIds = async (): Promise<string>
   return filePath;
 };
 
+const PNG_BYTES = Buffer.from(
+  "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8z8DwHwAFBQIAX8jx0gAAAABJRU5ErkJggg==",
+  "base64"
+);
+const HTML_BYTES = Buffer.from("<script>alert(1)</script>");
+
+const createExcalidashArchiveWithArchivedFiles = async (): Promise<string> => {
+  const dir = createTempDir();
+  const filePath = path.join(dir, "archived-files.excalidash");
+  const zip = new JSZip();
+
+  const manifest = {
+    format: "excalidash",
+    formatVersion: 1,
+    exportedAt: new Date().toISOString(),
+    unorganizedFolder: "Unorganized",
+    collections: [] as any[],
+    drawings: [
+      {
+        id: "archived-files-drawing",
+        name: "With files",
+        filePath: "Unorganized/with-files.excalidraw",
+        collectionId: null,
+      },
+    ],
+  };
+
+  zip.file("excalidash.manifest.json", JSON.stringify(manifest));
+  zip.file(
+    "Unorganized/with-files.excalidraw",
+    JSON.stringify({
+      type: "excalidraw",
+      version: 2,
+      source: "test",
+      elements: [],
+      appState: {},
+      files: {
+        png: { id: "png", mimeType: "image/png", hash: hashFileBytes(PNG_BYTES) },
+        page: { id: "page", mimeType: "text/html", hash: hashFileBytes(HTML_BYTES) },
+      },
+    })
+  );
+  zip.file(`files/${hashFileBytes(PNG_BYTES)}`, PNG_BYTES);
+  zip.file(`files/${hashFileBytes(HTML_BYTES)}`, HTML_BYTES);
+
+  const buffer = await zip.generateAsync({ type: "nodebuffer" });
+  fs.writeFileSync(filePath, buffer);
+  return filePath;
+};
+
 const createLegacySqliteDbWithDuplicateDrawingIds = (): string => {
   const dir = createTempDir();
   const filePath = path.join(dir, "legacy-duplicate-ids.db");
@@ -421,6 +472,19 @@ describe("Import compatibility (legacy exports)", () => {
     expect(String(res.body.message || "")).toContain("Duplicate drawing id");
   });
 
+  it("stores archived images from a .excalidash import but skips unsupported file types", async () => {
+    const archive = await createExcalidashArchiveWithArchivedFiles();
+    const res = await agent
+      .post("/import/excalidash")
+      .set("User-Agent", userAgent)
+      .set(csrfHeaderName, csrfToken)
+      .attach("archive", archive);
+
+    expect(res.status).toBe(200);
+    expect(await prisma.drawingFile.findUnique({ where: { hash: hashFileBytes(PNG_BYTES) } })).not.toBeNull();
+    expect(await prisma.drawingFile.findUnique({ where: { hash: hashFileBytes(HTML_BYTES) } })).toBeNull();
+  });
+
   it("rejects legacy verify when DB has duplicate drawing IDs", async () => {
     const legacyDb = createLegacySqliteDbWithDuplicateDrawingIds();
     const res = await agent
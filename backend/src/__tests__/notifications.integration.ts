@@ -0,0 +1,148 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import request from "supertest";
+import bcrypt from "bcrypt";
+import jwt, { SignOptions } from "jsonwebtoken";
+import { StringValue } from "ms";
+import { PrismaClient } from "../generated/client";
+import { config } from "../config";
+import { createLinkShareExpiryJob } from "../server/notifications";
+import { getTestPrisma, setupTestDb } from "./testUtils";
+
+describe("Notifications", () => {
+  const userAgent = "vitest-notifications";
+  let prisma: PrismaClient;
+  let app: any;
+  let agent: any;
+  let csrfHeaderName: string;
+  let csrfToken: string;
+
+  type TestUser = { id: string; email: string };
+  let alice: TestUser;
+  let bob: TestUser;
+
+  const signToken = (user: TestUser) => {
+    const signOptions: SignOptions = { expiresIn: config.jwtAccessExpiresIn as StringValue };
+    return jwt.sign(
+      { userId: user.id, email: user.email, type: "access" },
+      config.jwtSecret,
+      signOptions
+    );
+  };
+
+  const send = (method: "get" | "post" | "delete", path: string, user: TestUser, body?: unknown) =>
+    agent[method](path)
+      .set("User-Agent", userAgent)
+      .set(csrfHeaderName, csrfToken)
+      .set("Authorization", `Bearer ${signToken(user)}`)
+      .send(body);
+
+  const createUser = async (email: string, name: string) => {
+    const passwordHash = await bcrypt.hash("password123", 10);
+    return prisma.user.create({
+      data: { email, passwordHash, name, role: "USER", isActive: true },
+      select: { id: true, email: true },
+    });
+  };
+
+  beforeAll(async () => {
+    setupTestDb();
+    prisma = getTestPrisma();
+    ({ app } = await import("../index"));
+
+    await prisma.systemConfig.upsert({
+      where: { id: "default" },
+      update: { authEnabled: true, registrationEnabled: false },
+      create: { id: "default", authEnabled: true, registrationEnabled: false },
+    });
+
+    alice = await createUser("notify-alice@test.local", "Alice");
+    bob = await createUser("notify-bob@test.local", "Bob");
+
+    agent = request.agent(app);
+    const csrfRes = await agent.get("/csrf-token").set("User-Agent", userAgent);
+    csrfHeaderName = csrfRes.body.header;
+    csrfToken = csrfRes.body.token;
+  });
+
+  afterAll(async () => {
+    await prisma.$disconnect();
+  });
+
+  it("tells users when a drawing is shared with them and unshared again", async () => {
+    const drawing = await prisma.drawing.create({
+      data: { name: "Roadmap", elements: "[]", appState: "{}", files: "{}", userId: alice.id },
+      select: { id: true },
+    });
+
+    const shared = await send("post", `/drawings/${drawing.id}/permissions`, alice, {
+      granteeUserId: bob.id,
+      permission: "edit",
+    });
+    expect(shared.status).toBe(200);
+
+    const inbox = await send("get", "/notifications", bob);
+    expect(inbox.status).toBe(200);
+    expect(inbox.body.unreadCount).toBe(1);
+    expect(inbox.body.notifications[0]).toMatchObject({
+      type: "drawing_shared",
+      drawingId: drawing.id,
+      readAt: null,
+      actor: { id: alice.id, name: "Alice" },
+      data: { drawingName: "Roadmap", permission: "edit" },
+    });
+    // The sharer is never notified about their own action.
+    expect((await send("get", "/notifications", alice)).body.unreadCount).toBe(0);
+
+    await send("delete", `/drawings/${drawing.id}/permissions/${shared.body.permission.id}`, alice);
+    const after = await send("get", "/notifications", bob);
+    expect(after.body.notifications.map((n: any) => n.type)).toEqual([
+      "drawing_unshared",
+      "drawing_shared",
+    ]);
+  });
+
+  it("marks notifications read one at a time or all at once", async () => {
+    const inbox = await send("get", "/notifications", bob);
+    const [first] = inbox.body.notifications;
+
+    expect((await send("post", `/notifications/${first.id}/read`, alice)).status).toBe(404);
+    const readOne = await send("post", `/notifications/${first.id}/read`, bob);
+    expect(readOne.body.unreadCount).toBe(inbox.body.unreadCount - 1);
+
+    const unread = await send("get", "/notifications?unread=true", bob);
+    expect(unread.body.notifications.map((n: any) => n.id)).not.toContain(first.id);
+
+    expect((await send("post", "/notifications/read-all", bob)).body).toEqual({ unreadCount: 0 });
+    expect((await send("get", "/notifications", bob)).body.unreadCount).toBe(0);
+  });
+
+  it("warns link share creators once before the link expires", async () => {
+    const drawing = await prisma.drawing.create({
+      data: { name: "Public", elements: "[]", appState: "{}", files: "{}", userId: alice.id },
+      select: { id: true },
+    });
+    const now = new Date();
+    await prisma.drawingLinkShare.create({
+      data: {
+        drawingId: drawing.id,
+        permission: "view",
+        tokenHash: `notify-test-${drawing.id}`,
+        expiresAt: new Date(now.getTime() + 60 * 60 * 1000),
+        createdByUserId: alice.id,
+      },
+    });
+
+    const delivered: string[] = [];
+    const job = createLinkShareExpiryJob(prisma, {
+      notify: async (inputs) => {
+        delivered.push(...inputs.map((input) => `${input.userId}:${input.type}`));
+      },
+      warnBeforeMs: 24 * 60 * 60 * 1000,
+      intervalMs: 60 * 1000,
+    });
+
+    expect(await job.notifyExpiringLinkShares(now)).toBe(1);
+    expect(await job.notifyExpiringLinkShares(now)).toBe(0);
+    expect(delivered).toEqual([`${alice.id}:link_share_expiring`]);
+  });
+});
@@ -3,30 +3,32 @@
  */
 import { PrismaClient } from "../generated/client";
 import fs from "fs";
+import os from "os";
 import path from "path";
 import { execSync } from "child_process";
 
 const TEST_DB_FILENAME = `test.${process.pid}.${Math.random().toString(16).slice(2)}.db`;
 const TEST_DB_PATH = path.resolve(__dirname, "../../prisma", TEST_DB_FILENAME);
-const DB_PUSH_LOCK_PATH = path.resolve(__dirname, "../../prisma/.test-db-push.lock");
+const TEST_FILES_DIR = path.join(os.tmpdir(), TEST_DB_FILENAME.replace(/\.db$/, ".files"));
+const DB_SETUP_LOCK_PATH = path.resolve(__dirname, "../../prisma/.test-db-setup.lock");
 
 const sleepSync = (ms: number) => {
   const shared = new Int32Array(new SharedArrayBuffer(4));
   Atomics.wait(shared, 0, 0, ms);
 };
 
-const withDbPushLock = (fn: () => void) => {
+const withDbSetupLock = (fn: () => void) => {
   const start = Date.now();
   let fd: number | null = null;
   while (fd === null) {
     try {
-      fd = fs.openSync(DB_PUSH_LOCK_PATH, "wx");
+      fd = fs.openSync(DB_SETUP_LOCK_PATH, "wx");
       fs.writeFileSync(fd, String(process.pid));
     } catch (error) {
       const err = error as NodeJS.ErrnoException;
       if (err.code !== "EEXIST") throw error;
       if (Date.now() - start > 30_000) {
-        throw new Error("Timed out waiting for Prisma db push lock");
+        throw new Error("Timed out waiting for Prisma test database setup lock");
       }
       sleepSync(50);
     }
@@ -40,7 +42,7 @@ const withDbPushLock = (fn: () => void) => {
     } catch {
     }
     try {
-      fs.unlinkSync(DB_PUSH_LOCK_PATH);
+      fs.unlinkSync(DB_SETUP_LOCK_PATH);
     } catch {
     }
   }
@@ -67,10 +69,13 @@ export const getTestPrisma = () => {
 export const setupTestDb = () => {
   const databaseUrl = `file:${TEST_DB_PATH}`;
   process.env.DATABASE_URL = databaseUrl;
+  // Keep stored drawing images out of the working tree.
+  process.env.DRAWING_FILES_DIR = TEST_FILES_DIR;
   
   try {
-    withDbPushLock(() => {
-      execSync("npx prisma db push --skip-generate --force-reset", {
+    withDbSetupLock(() => {
+      // Migrations rather than `db push`: the search index is an FTS5 table only they create.
+      execSync("npx prisma migrate reset --force --skip-generate --skip-seed", {
         cwd: path.resolve(__dirname, "../../"),
         env: {
           ...process.env,
@@ -0,0 +1,143 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import request from "supertest";
+import bcrypt from "bcrypt";
+import jwt, { SignOptions } from "jsonwebtoken";
+import { StringValue } from "ms";
+import { PrismaClient } from "../generated/client";
+import { config } from "../config";
+import { getTestPrisma, setupTestDb } from "./testUtils";
+
+describe("Trash restore", () => {
+  const userAgent = "vitest-trash-restore";
+  let prisma: PrismaClient;
+  let app: any;
+
+  let owner: { id: string; email: string };
+  let other: { id: string; email: string };
+  let ownerToken: string;
+  let otherToken: string;
+  let agent: any;
+  let csrfHeaderName: string;
+  let csrfToken: string;
+
+  const signToken = (user: { id: string; email: string }) => {
+    const signOptions: SignOptions = { expiresIn: config.jwtAccessExpiresIn as StringValue };
+    return jwt.sign(
+      { userId: user.id, email: user.email, type: "access" },
+      config.jwtSecret,
+      signOptions
+    );
+  };
+
+  const send = (method: "post" | "put" | "delete", path: string, token: string, body?: unknown) =>
+    agent[method](path)
+      .set("User-Agent", userAgent)
+      .set("Authorization", `Bearer ${token}`)
+      .set(csrfHeaderName, csrfToken)
+      .send(body);
+
+  const createCollection = async (token: string, name: string, parentId?: string | null) => {
+    const res = await send("post", "/collections", token, { name, parentId });
+    expect(res.status).toBe(200);
+    return res.body as { id: string; parentId: string | null };
+  };
+
+  beforeAll(async () => {
+    setupTestDb();
+    prisma = getTestPrisma();
+    ({ app } = await import("../index"));
+
+    await prisma.systemConfig.upsert({
+      where: { id: "default" },
+      update: { authEnabled: true, registrationEnabled: false },
+      create: { id: "default", authEnabled: true, registrationEnabled: false },
+    });
+
+    const passwordHash = await bcrypt.hash("password123", 10);
+    owner = await prisma.user.create({
+      data: { email: "trash-owner@test.local", passwordHash, name: "Owner", role: "USER", isActive: true },
+      select: { id: true, email: true },
+    });
+    other = await prisma.user.create({
+      data: { email: "trash-other@test.local", passwordHash, name: "Other", role: "USER", isActive: true },
+      select: { id: true, email: true },
+    });
+    ownerToken = signToken(owner);
+    otherToken = signToken(other);
+
+    agent = request.agent(app);
+    const csrfRes = await agent.get("/csrf-token").set("User-Agent", userAgent);
+    csrfHeaderName = csrfRes.body.header;
+    csrfToken = csrfRes.body.token;
+  });
+
+  afterAll(async () => {
+    await prisma.$disconnect();
+  });
+
+  const moveTo = (drawingId: string, collectionId: string | null) =>
+    send("put", `/drawings/${drawingId}`, ownerToken, { collectionId });
+
+  const createDrawing = (collectionId: string | null) =>
+    prisma.drawing.create({
+      data: {
+        name: "Trash me",
+        elements: "[]",
+        appState: "{}",
+        files: "{}",
+        userId: owner.id,
+        collectionId,
+      },
+    });
+
+  it("records where a drawing was trashed from and restores it there", async () => {
+    const collection = await createCollection(ownerToken, "Designs");
+    const drawing = await createDrawing(collection.id);
+
+    expect((await moveTo(drawing.id, "trash")).status).toBe(200);
+    const trashed = await prisma.drawing.findUnique({ where: { id: drawing.id } });
+    expect(trashed?.trashedAt).toBeInstanceOf(Date);
+    expect(trashed?.previousCollectionId).toBe(collection.id);
+
+    const restored = await send("post", `/drawings/${drawing.id}/restore`, ownerToken);
+    expect(restored.status).toBe(200);
+    expect(restored.body).toMatchObject({ collectionId: collection.id, restoredToPreviousCollection: true });
+
+    const after = await prisma.drawing.findUnique({ where: { id: drawing.id } });
+    expect(after).toMatchObject({ collectionId: collection.id, trashedAt: null, previousCollectionId: null });
+  });
+
+  it("restores to Unorganized when the original collection is gone", async () => {
+    const collection = await createCollection(ownerToken, "Temporary");
+    const drawing = await createDrawing(collection.id);
+    await moveTo(drawing.id, "trash");
+    expect((await send("delete", `/collections/${collection.id}`, ownerToken)).status).toBe(200);
+
+    const restored = await send("post", `/drawings/${drawing.id}/restore`, ownerToken);
+    expect(restored.status).toBe(200);
+    expect(restored.body).toMatchObject({ collectionId: null, restoredToPreviousCollection: false });
+  });
+
+  it("gives a duplicated trashed drawing its own trash date", async () => {
+    const collection = await createCollection(ownerToken, "Old work");
+    const drawing = await createDrawing(collection.id);
+    await moveTo(drawing.id, "trash");
+    const trashedLongAgo = new Date(Date.now() - 25 * 24 * 60 * 60 * 1000);
+    await prisma.drawing.update({ where: { id: drawing.id }, data: { trashedAt: trashedLongAgo } });
+
+    const copy = await send("post", `/drawings/${drawing.id}/duplicate`, ownerToken);
+    expect(copy.status).toBe(200);
+    expect(copy.body.collectionId).toBe("trash");
+    const stored = await prisma.drawing.findUniqueOrThrow({ where: { id: copy.body.id } });
+    expect(stored.trashedAt!.getTime()).toBeGreaterThan(trashedLongAgo.getTime());
+    expect(stored.previousCollectionId).toBe(collection.id);
+  });
+
+  it("rejects restoring drawings outside the trash or owned by someone else", async () => {
+    const drawing = await createDrawing(null);
+    expect((await send("post", `/drawings/${drawing.id}/restore`, ownerToken)).status).toBe(400);
+
+    await moveTo(drawing.id, "trash");
+    expect((await send("post", `/drawings/${drawing.id}/restore`, otherToken)).status).toBe(404);
+  });
+});
@@ -4,11 +4,6 @@ import jwt, { SignOptions } from "jsonwebtoken";
 import ms, { type StringValue } from "ms";
 import { Prisma, PrismaClient } from "./generated/client";
 import { config } from "./config";
-import {
-  requireAuth as defaultRequireAuth,
-  optionalAuth as defaultOptionalAuth,
-  authModeService as defaultAuthModeService,
-} from "./middleware/auth";
 import {
   getCsrfTokenHeader,
   getOriginFromReferer,
@@ -19,14 +14,15 @@ import rateLimit, { MemoryStore } from "express-rate-limit";
 import { registerAccountRoutes } from "./auth/accountRoutes";
 import { registerAdminRoutes } from "./auth/adminRoutes";
 import { registerCoreRoutes } from "./auth/coreRoutes";
+import { registerGroupRoutes } from "./auth/groupRoutes";
 import { registerOidcRoutes } from "./auth/oidcRoutes";
-import { prisma as defaultPrisma } from "./db/prisma";
 import {
   BOOTSTRAP_USER_ID,
   DEFAULT_SYSTEM_CONFIG_ID,
   type AuthModeService,
 } from "./auth/authMode";
 import { getCsrfValidationClientIds } from "./security/csrfClient";
+import type { PublishDrawingAccessChange } from "./server/socket";
 import {
   clearAuthCookies,
   readCookie,
@@ -97,10 +93,19 @@ type CreateAuthRouterDeps = {
   requireAuth: express.RequestHandler;
   optionalAuth: express.RequestHandler;
   authModeService: AuthModeService;
+  publishDrawingAccessChange: PublishDrawingAccessChange;
+  invalidateDrawingsCache: () => void;
 };
 
 export const createAuthRouter = (deps: CreateAuthRouterDeps): express.Router => {
-  const { prisma, requireAuth, optionalAuth, authModeService } = deps;
+  const {
+    prisma,
+    requireAuth,
+    optionalAuth,
+    authModeService,
+    publishDrawingAccessChange,
+    invalidateDrawingsCache,
+  } = deps;
   const router = express.Router();
 
   const ensureSystemConfig = authModeService.ensureSystemConfig;
@@ -501,6 +506,19 @@ export const createAuthRouter = (deps: CreateAuthRouterDeps): express.Router =>
     requireCsrf,
   });
 
+  registerGroupRoutes({
+    router,
+    prisma,
+    requireAuth,
+    ensureAuthEnabled,
+    requireAdmin,
+    sanitizeText,
+    config,
+    requireCsrf,
+    publishDrawingAccessChange,
+    invalidateDrawingsCache,
+  });
+
   registerAccountRoutes({
     router,
     prisma,
@@ -518,12 +536,3 @@ export const createAuthRouter = (deps: CreateAuthRouterDeps): express.Router =>
 
   return router;
 };
-
-const authRouter = createAuthRouter({
-  prisma: defaultPrisma,
-  requireAuth: defaultRequireAuth,
-  optionalAuth: defaultOptionalAuth,
-  authModeService: defaultAuthModeService,
-});
-
-export default authRouter;
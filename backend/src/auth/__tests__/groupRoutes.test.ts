@@ -0,0 +1,89 @@
+import express, { Request } from "express";
+import request from "supertest";
+import { describe, expect, it, vi } from "vitest";
+import { registerGroupRoutes } from "../groupRoutes";
+
+vi.mock("../../utils/audit", () => ({ logAuditEvent: vi.fn() }));
+
+describe("registerGroupRoutes", () => {
+  const createApp = () => {
+    const prisma = {
+      group: {
+        findUnique: vi.fn(async () => ({ id: "g1" })),
+        findUniqueOrThrow: vi.fn(async () => ({ id: "g1", name: "Team", memberships: [] })),
+        deleteMany: vi.fn(async () => ({ count: 1 })),
+      },
+      user: { findUnique: vi.fn(async () => ({ id: "u2" })) },
+      groupMembership: {
+        upsert: vi.fn(async () => ({})),
+        deleteMany: vi.fn(async () => ({ count: 1 })),
+      },
+      drawingGroupPermission: {
+        findMany: vi.fn(async () => [{ drawingId: "d1" }, { drawingId: "d2" }]),
+      },
+    };
+    const publishDrawingAccessChange = vi.fn();
+    const invalidateDrawingsCache = vi.fn();
+    const router = express.Router();
+    registerGroupRoutes({
+      router,
+      prisma: prisma as any,
+      requireAuth: (req, _res, next) => {
+        (req as Request).user = { id: "admin", role: "ADMIN" } as Request["user"];
+        next();
+      },
+      ensureAuthEnabled: async () => true,
+      requireAdmin: (req): req is any => Boolean(req.user),
+      sanitizeText: (input) => String(input),
+      config: { enableAuditLogging: false },
+      requireCsrf: () => true,
+      publishDrawingAccessChange,
+      invalidateDrawingsCache,
+    });
+    const app = express();
+    app.use(express.json());
+    app.use(router);
+    return { app, prisma, publishDrawingAccessChange, invalidateDrawingsCache };
+  };
+
+  it("re-checks the group's drawings when a member is removed", async () => {
+    const { app, prisma, publishDrawingAccessChange } = createApp();
+
+    expect((await request(app).delete("/groups/g1/members/u2")).status).toBe(200);
+    expect(prisma.drawingGroupPermission.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { groupId: "g1" } })
+    );
+    expect(publishDrawingAccessChange).toHaveBeenCalledWith(["d1", "d2"]);
+
+    publishDrawingAccessChange.mockClear();
+    prisma.groupMembership.deleteMany.mockResolvedValueOnce({ count: 0 });
+    expect((await request(app).delete("/groups/g1/members/u3")).status).toBe(200);
+    expect(publishDrawingAccessChange).not.toHaveBeenCalled();
+  });
+
+  it("invalidates the drawings cache when membership changes", async () => {
+    const { app, prisma, invalidateDrawingsCache } = createApp();
+
+    expect((await request(app).post("/groups/g1/members").send({ userId: "u2" })).status).toBe(200);
+    expect(invalidateDrawingsCache).toHaveBeenCalledTimes(1);
+
+    expect((await request(app).delete("/groups/g1/members/u2")).status).toBe(200);
+    expect(invalidateDrawingsCache).toHaveBeenCalledTimes(2);
+
+    prisma.groupMembership.deleteMany.mockResolvedValueOnce({ count: 0 });
+    expect((await request(app).delete("/groups/g1/members/u3")).status).toBe(200);
+    expect(invalidateDrawingsCache).toHaveBeenCalledTimes(2);
+  });
+
+  it("re-checks the drawings a deleted group was granted", async () => {
+    const { app, prisma, publishDrawingAccessChange } = createApp();
+
+    expect((await request(app).delete("/groups/g1")).status).toBe(200);
+    expect(publishDrawingAccessChange).toHaveBeenCalledWith(["d1", "d2"]);
+
+    publishDrawingAccessChange.mockClear();
+    prisma.group.deleteMany.mockResolvedValueOnce({ count: 0 });
+    expect((await request(app).delete("/groups/missing")).status).toBe(404);
+    expect(publishDrawingAccessChange).not.toHaveBeenCalled();
+  });
+});
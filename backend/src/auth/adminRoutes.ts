@@ -6,12 +6,16 @@ import {
   adminCreateUserSchema,
   adminRoleUpdateSchema,
   adminUpdateUserSchema,
+  embedSettingsUpdateSchema,
   impersonateSchema,
   loginRateLimitResetSchema,
   loginRateLimitUpdateSchema,
   registrationToggleSchema,
+  trashRetentionUpdateSchema,
 } from "./schemas";
 import { hashTokenForStorage } from "./tokenSecurity";
+import { DEFAULT_TRASH_RETENTION_DAYS } from "../server/trashPurge";
+import { normalizeFrameAncestor, parseFrameAncestors } from "../server/embed";
 
 type RegisterAdminRoutesDeps = {
   router: express.Router;
@@ -389,6 +393,141 @@ export const registerAdminRoutes = (deps: RegisterAdminRoutesDeps) => {
     }
   });
 
+  router.get("/trash-retention", requireAuth, async (req: Request, res: Response) => {
+    try {
+      if (!(await ensureAuthEnabled(res))) return;
+      if (!requireAdmin(req, res)) return;
+
+      await ensureSystemConfig();
+      const systemConfig = await prisma.systemConfig.findUnique({
+        where: { id: defaultSystemConfigId },
+        select: { trashRetentionDays: true },
+      });
+      res.json({
+        config: { retentionDays: systemConfig?.trashRetentionDays ?? DEFAULT_TRASH_RETENTION_DAYS },
+      });
+    } catch (error) {
+      console.error("Get trash retention config error:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        message: "Failed to fetch trash retention config",
+      });
+    }
+  });
+
+  router.put("/trash-retention", requireAuth, async (req: Request, res: Response) => {
+    try {
+      if (!(await ensureAuthEnabled(res))) return;
+      if (!requireCsrf(req, res)) return;
+      if (!requireAdmin(req, res)) return;
+
+      const parsed = trashRetentionUpdateSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          error: "Validation error",
+          message: "Retention must be a whole number of days between 0 and 3650",
+        });
+      }
+
+      await ensureSystemConfig();
+      const updated = await prisma.systemConfig.update({
+        where: { id: defaultSystemConfigId },
+        data: { trashRetentionDays: parsed.data.retentionDays },
+        select: { trashRetentionDays: true },
+      });
+
+      if (config.enableAuditLogging) {
+        await logAuditEvent({
+          userId: req.user.id,
+          action: "admin_trash_retention_updated",
+          resource: "system_config",
+          ipAddress: req.ip || req.connection.remoteAddress || undefined,
+          userAgent: req.headers["user-agent"] || undefined,
+          details: { retentionDays: updated.trashRetentionDays },
+        });
+      }
+
+      res.json({ config: { retentionDays: updated.trashRetentionDays } });
+    } catch (error) {
+      console.error("Update trash retention config error:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        message: "Failed to update trash retention config",
+      });
+    }
+  });
+
+  router.get("/embed-settings", requireAuth, async (req: Request, res: Response) => {
+    try {
+      if (!(await ensureAuthEnabled(res))) return;
+      if (!requireAdmin(req, res)) return;
+
+      await ensureSystemConfig();
+      const systemConfig = await prisma.systemConfig.findUnique({
+        where: { id: defaultSystemConfigId },
+        select: { embedFrameAncestors: true },
+      });
+      res.json({
+        config: { frameAncestors: parseFrameAncestors(systemConfig?.embedFrameAncestors ?? "") },
+      });
+    } catch (error) {
+      console.error("Get embed settings error:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        message: "Failed to fetch embed settings",
+      });
+    }
+  });
+
+  router.put("/embed-settings", requireAuth, async (req: Request, res: Response) => {
+    try {
+      if (!(await ensureAuthEnabled(res))) return;
+      if (!requireCsrf(req, res)) return;
+      if (!requireAdmin(req, res)) return;
+
+      const parsed = embedSettingsUpdateSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          error: "Validation error",
+          message: "Provide up to 50 origins that may embed drawings",
+        });
+      }
+      const invalid = parsed.data.frameAncestors.find((entry) => !normalizeFrameAncestor(entry));
+      if (invalid !== undefined) {
+        return res.status(400).json({
+          error: "Validation error",
+          message: `"${invalid}" is not an origin such as https://wiki.example.com or https://*.example.com`,
+        });
+      }
+
+      const frameAncestors = parseFrameAncestors(parsed.data.frameAncestors.join("\n"));
+      await ensureSystemConfig();
+      await prisma.systemConfig.update({
+        where: { id: defaultSystemConfigId },
+        data: { embedFrameAncestors: frameAncestors.join("\n") },
+      });
+
+      if (config.enableAuditLogging) {
+        await logAuditEvent({
+          userId: req.user.id,
+          action: "admin_embed_settings_updated",
+          resource: "system_config",
+          ipAddress: req.ip || req.connection.remoteAddress || undefined,
+          userAgent: req.headers["user-agent"] || undefined,
+          details: { frameAncestors },
+        });
+      }
+
+      res.json({ config: { frameAncestors } });
+    } catch (error) {
+      console.error("Update embed settings error:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        message: "Failed to update embed settings",
+      });
+    }
+  });
+
   router.post("/users", requireAuth, accountActionRateLimiter, async (req: Request, res: Response) => {
     try {
       if (!(await ensureAuthEnabled(res))) return;
@@ -0,0 +1,289 @@
+import express, { Request, Response } from "express";
+import { Prisma, PrismaClient } from "../generated/client";
+import type { PublishDrawingAccessChange } from "../server/socket";
+import { logAuditEvent } from "../utils/audit";
+import { groupCreateSchema, groupMemberAddSchema, groupUpdateSchema } from "./schemas";
+
+type RegisterGroupRoutesDeps = {
+  router: express.Router;
+  prisma: PrismaClient;
+  requireAuth: express.RequestHandler;
+  ensureAuthEnabled: (res: Response) => Promise<boolean>;
+  requireAdmin: (
+    req: Request,
+    res: Response
+  ) => req is Request & { user: NonNullable<Request["user"]> };
+  sanitizeText: (input: unknown, maxLength?: number) => string;
+  config: {
+    enableAuditLogging: boolean;
+  };
+  requireCsrf: (req: Request, res: Response) => boolean;
+  publishDrawingAccessChange: PublishDrawingAccessChange;
+  invalidateDrawingsCache: () => void;
+};
+
+const groupSelect = {
+  id: true,
+  name: true,
+  description: true,
+  createdAt: true,
+  updatedAt: true,
+  memberships: {
+    select: { user: { select: { id: true, name: true, email: true } } },
+    orderBy: { createdAt: "asc" },
+  },
+} satisfies Prisma.GroupSelect;
+
+type GroupRow = Prisma.GroupGetPayload<{ select: typeof groupSelect }>;
+
+const toGroupResponse = ({ memberships, ...group }: GroupRow) => ({
+  ...group,
+  members: memberships.map((membership) => membership.user),
+});
+
+const isUniqueViolation = (error: unknown) =>
+  error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002";
+
+/** Admin-only group management. Groups are instance-wide and can be used as share grantees. */
+export const registerGroupRoutes = (deps: RegisterGroupRoutesDeps) => {
+  const {
+    router,
+    prisma,
+    requireAuth,
+    ensureAuthEnabled,
+    requireAdmin,
+    sanitizeText,
+    config,
+    requireCsrf,
+    publishDrawingAccessChange,
+    invalidateDrawingsCache,
+  } = deps;
+
+  const findGroupDrawingIds = async (groupId: string) => {
+    const grants = await prisma.drawingGroupPermission.findMany({
+      where: { groupId },
+      select: { drawingId: true },
+    });
+    return grants.map((grant) => grant.drawingId);
+  };
+
+  const auditGroupEvent = async (
+    req: Request & { user: NonNullable<Request["user"]> },
+    action: string,
+    groupId: string,
+    details: Record<string, unknown>
+  ) => {
+    if (!config.enableAuditLogging) return;
+    await logAuditEvent({
+      userId: req.user.id,
+      action,
+      resource: `group:${groupId}`,
+      ipAddress: req.ip || req.connection.remoteAddress || undefined,
+      userAgent: req.headers["user-agent"] || undefined,
+      details: { groupId, ...details },
+    });
+  };
+
+  router.get("/groups", requireAuth, async (req: Request, res: Response) => {
+    try {
+      if (!(await ensureAuthEnabled(res))) return;
+      if (!requireAdmin(req, res)) return;
+
+      const groups = await prisma.group.findMany({
+        orderBy: { name: "asc" },
+        select: groupSelect,
+      });
+      res.json({ groups: groups.map(toGroupResponse) });
+    } catch (error) {
+      console.error("List groups error:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        message: "Failed to list groups",
+      });
+    }
+  });
+
+  router.post("/groups", requireAuth, async (req: Request, res: Response) => {
+    try {
+      if (!(await ensureAuthEnabled(res))) return;
+      if (!requireCsrf(req, res)) return;
+      if (!requireAdmin(req, res)) return;
+
+      const parsed = groupCreateSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          error: "Validation error",
+          message: "Group name must be between 1 and 100 characters",
+        });
+      }
+
+      const created = await prisma.group.create({
+        data: {
+          name: sanitizeText(parsed.data.name, 100),
+          description: parsed.data.description ? sanitizeText(parsed.data.description, 500) : null,
+          createdByUserId: req.user.id,
+        },
+        select: groupSelect,
+      });
+      await auditGroupEvent(req, "admin_group_created", created.id, { name: created.name });
+
+      res.json({ group: toGroupResponse(created) });
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        return res.status(409).json({ error: "Conflict", message: "A group with this name already exists" });
+      }
+      console.error("Create group error:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        message: "Failed to create group",
+      });
+    }
+  });
+
+  router.patch("/groups/:id", requireAuth, async (req: Request, res: Response) => {
+    try {
+      if (!(await ensureAuthEnabled(res))) return;
+      if (!requireCsrf(req, res)) return;
+      if (!requireAdmin(req, res)) return;
+
+      const parsed = groupUpdateSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          error: "Validation error",
+          message: "Group name must be between 1 and 100 characters",
+        });
+      }
+
+      const groupId = String(req.params.id || "");
+      const existing = await prisma.group.findUnique({ where: { id: groupId }, select: { id: true } });
+      if (!existing) {
+        return res.status(404).json({ error: "Not found", message: "Group not found" });
+      }
+
+      const data: Prisma.GroupUpdateInput = {};
+      if (typeof parsed.data.name !== "undefined") data.name = sanitizeText(parsed.data.name, 100);
+      if (typeof parsed.data.description !== "undefined") {
+        data.description = parsed.data.description ? sanitizeText(parsed.data.description, 500) : null;
+      }
+
+      const updated = await prisma.group.update({
+        where: { id: groupId },
+        data,
+        select: groupSelect,
+      });
+      await auditGroupEvent(req, "admin_group_updated", groupId, { fields: Object.keys(data) });
+
+      res.json({ group: toGroupResponse(updated) });
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        return res.status(409).json({ error: "Conflict", message: "A group with this name already exists" });
+      }
+      console.error("Update group error:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        message: "Failed to update group",
+      });
+    }
+  });
+
+  router.delete("/groups/:id", requireAuth, async (req: Request, res: Response) => {
+    try {
+      if (!(await ensureAuthEnabled(res))) return;
+      if (!requireCsrf(req, res)) return;
+      if (!requireAdmin(req, res)) return;
+
+      const groupId = String(req.params.id || "");
+      // Grants go with the group, so collect the drawings they covered first.
+      const drawingIds = await findGroupDrawingIds(groupId);
+      const deleted = await prisma.group.deleteMany({ where: { id: groupId } });
+      if (deleted.count === 0) {
+        return res.status(404).json({ error: "Not found", message: "Group not found" });
+      }
+      invalidateDrawingsCache();
+      publishDrawingAccessChange(drawingIds);
+      await auditGroupEvent(req, "admin_group_deleted", groupId, {});
+
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Delete group error:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        message: "Failed to delete group",
+      });
+    }
+  });
+
+  router.post("/groups/:id/members", requireAuth, async (req: Request, res: Response) => {
+    try {
+      if (!(await ensureAuthEnabled(res))) return;
+      if (!requireCsrf(req, res)) return;
+      if (!requireAdmin(req, res)) return;
+
+      const parsed = groupMemberAddSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Validation error", message: "Invalid user id" });
+      }
+
+      const groupId = String(req.params.id || "");
+      const [group, user] = await Promise.all([
+        prisma.group.findUnique({ where: { id: groupId }, select: { id: true } }),
+        prisma.user.findUnique({ where: { id: parsed.data.userId }, select: { id: true } }),
+      ]);
+      if (!group) {
+        return res.status(404).json({ error: "Not found", message: "Group not found" });
+      }
+      if (!user) {
+        return res.status(404).json({ error: "Not found", message: "User not found" });
+      }
+
+      await prisma.groupMembership.upsert({
+        where: { groupId_userId: { groupId, userId: user.id } },
+        update: {},
+        create: { groupId, userId: user.id },
+      });
+      // Membership decides which drawings show up in the member's shared and starred lists.
+      invalidateDrawingsCache();
+      await auditGroupEvent(req, "admin_group_member_added", groupId, { memberUserId: user.id });
+
+      const updated = await prisma.group.findUniqueOrThrow({ where: { id: groupId }, select: groupSelect });
+      res.json({ group: toGroupResponse(updated) });
+    } catch (error) {
+      console.error("Add group member error:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        message: "Failed to add group member",
+      });
+    }
+  });
+
+  router.delete("/groups/:id/members/:userId", requireAuth, async (req: Request, res: Response) => {
+    try {
+      if (!(await ensureAuthEnabled(res))) return;
+      if (!requireCsrf(req, res)) return;
+      if (!requireAdmin(req, res)) return;
+
+      const groupId = String(req.params.id || "");
+      const memberUserId = String(req.params.userId || "");
+      const group = await prisma.group.findUnique({ where: { id: groupId }, select: { id: true } });
+      if (!group) {
+        return res.status(404).json({ error: "Not found", message: "Group not found" });
+      }
+
+      const removed = await prisma.groupMembership.deleteMany({ where: { groupId, userId: memberUserId } });
+      if (removed.count > 0) {
+        invalidateDrawingsCache();
+        publishDrawingAccessChange(await findGroupDrawingIds(groupId));
+      }
+      await auditGroupEvent(req, "admin_group_member_removed", groupId, { memberUserId });
+
+      const updated = await prisma.group.findUniqueOrThrow({ where: { id: groupId }, select: groupSelect });
+      res.json({ group: toGroupResponse(updated) });
+    } catch (error) {
+      console.error("Remove group member error:", error);
+      res.status(500).json({
+        error: "Internal server error",
+        message: "Failed to remove group member",
+      });
+    }
+  });
+};
@@ -81,6 +81,25 @@ export const loginRateLimitUpdateSchema = z.object({
   max: z.number().int().min(1).max(10_000),
 });
 
+export const trashRetentionUpdateSchema = z.object({
+  retentionDays: z.number().int().min(0).max(3650),
+});
+
+export const embedSettingsUpdateSchema = z.object({
+  frameAncestors: z.array(z.string().trim().min(1).max(255)).max(50),
+});
+
+export const groupCreateSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  description: z.string().trim().max(500).nullable().optional(),
+});
+
+export const groupUpdateSchema = groupCreateSchema.partial();
+
+export const groupMemberAddSchema = z.object({
+  userId: z.string().trim().min(1),
+});
+
 export const loginRateLimitResetSchema = z.object({
   identifier: z.string().trim().min(1).max(255),
 });
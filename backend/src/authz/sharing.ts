@@ -1,6 +1,7 @@
 import type { PrismaClient } from "../generated/client";
 import crypto from "crypto";
 import { hashTokenForStorage } from "../auth/tokenSecurity";
+import { collectAncestorIds, collectDescendantIds } from "../server/collectionTree";
 
 export type DrawingPermission = "view" | "edit";
 export type DrawingAccess = "none" | DrawingPermission | "owner";
@@ -121,11 +122,11 @@ export const getDrawingAccess = async (params: {
 
   let baseAccess: DrawingAccess = "none";
 
-  // User-based access (owner or explicit ACL).
+  // User-based access (owner, explicit ACL, group ACL or a shared collection).
   if (params.principal?.kind === "user") {
     const drawing = await params.prisma.drawing.findUnique({
       where: { id: params.drawingId },
-      select: { userId: true },
+      select: { userId: true, collectionId: true },
     });
     if (!drawing) return "none";
     if (drawing.userId === params.principal.userId) return "owner";
@@ -140,6 +141,27 @@ export const getDrawingAccess = async (params: {
       select: { permission: true },
     });
     baseAccess = normalizeDrawingPermission(perm?.permission) ?? baseAccess;
+
+    const groupPerms = await params.prisma.drawingGroupPermission.findMany({
+      where: {
+        drawingId: params.drawingId,
+        group: { memberships: { some: { userId: params.principal.userId } } },
+      },
+      select: { permission: true },
+    });
+    for (const groupPerm of groupPerms) {
+      baseAccess = maxAccess(baseAccess, normalizeDrawingPermission(groupPerm.permission) ?? "none");
+    }
+
+    if (drawing.collectionId) {
+      const collectionAccess = await getCollectionShareAccess({
+        prisma: params.prisma,
+        granteeUserId: params.principal.userId,
+        ownerUserId: drawing.userId,
+        collectionId: drawing.collectionId,
+      });
+      baseAccess = maxAccess(baseAccess, collectionAccess ?? "none");
+    }
   }
 
   // Google Docs-style link policy: applies regardless of whether the visitor is signed in.
@@ -165,6 +187,69 @@ export const canEditDrawing = (
 
 export const isOwnerAccess = (access: DrawingAccess): boolean => access === "owner";
 
+/**
+ * Highest permission `granteeUserId` holds on `collectionId` or any collection it is nested in.
+ * Trashed drawings live outside regular collections, so collection shares never reach them.
+ */
+const getCollectionShareAccess = async (params: {
+  prisma: PrismaClient;
+  granteeUserId: string;
+  ownerUserId: string;
+  collectionId: string;
+}): Promise<DrawingPermission | null> => {
+  const grants = await params.prisma.collectionPermission.findMany({
+    where: { granteeUserId: params.granteeUserId, collection: { userId: params.ownerUserId } },
+    select: { collectionId: true, permission: true },
+  });
+  if (grants.length === 0) return null;
+
+  const tree = await params.prisma.collection.findMany({
+    where: { userId: params.ownerUserId },
+    select: { id: true, parentId: true },
+  });
+  const reachable = new Set([
+    params.collectionId,
+    ...collectAncestorIds(tree, params.collectionId),
+  ]);
+  let best: DrawingAccess = "none";
+  for (const grant of grants) {
+    if (!reachable.has(grant.collectionId)) continue;
+    best = maxAccess(best, normalizeDrawingPermission(grant.permission) ?? "none");
+  }
+  return best === "none" ? null : (best as DrawingPermission);
+};
+
+/**
+ * Every collection another user has shared with `userId`, directly or by sharing a collection
+ * it is nested in, mapped to the highest permission that applies to drawings inside it.
+ */
+export const getSharedCollectionAccess = async (params: {
+  prisma: PrismaClient;
+  userId: string;
+}): Promise<Map<string, DrawingPermission>> => {
+  const access = new Map<string, DrawingPermission>();
+  const grants = await params.prisma.collectionPermission.findMany({
+    where: { granteeUserId: params.userId, collection: { userId: { not: params.userId } } },
+    select: { collectionId: true, permission: true, collection: { select: { userId: true } } },
+  });
+  if (grants.length === 0) return access;
+
+  const ownerIds = Array.from(new Set(grants.map((grant) => grant.collection.userId)));
+  const collections = await params.prisma.collection.findMany({
+    where: { userId: { in: ownerIds } },
+    select: { id: true, parentId: true },
+  });
+  for (const grant of grants) {
+    const permission = normalizeDrawingPermission(grant.permission);
+    if (!permission) continue;
+    for (const id of collectDescendantIds(collections, grant.collectionId)) {
+      const current = access.get(id);
+      if (!current || accessRank(permission) > accessRank(current)) access.set(id, permission);
+    }
+  }
+  return access;
+};
+
 const getActiveLinkShareAccess = async (params: {
   prisma: PrismaClient;
   drawingId: string;
@@ -28,6 +28,7 @@ interface Config {
   apiKeys: string[];
   ciServiceAccountEmail: string;
   sharedWorkspace: boolean;
+  socketCompression: boolean;
 }
 
 export type AuthMode = "local" | "hybrid" | "oidc_enforced";
@@ -207,6 +208,7 @@ export const config: Config = {
   apiKeys: process.env.API_KEYS ? process.env.API_KEYS.split(',').map(k => k.trim()).filter(Boolean) : [],
   ciServiceAccountEmail: getOptionalEnv("CI_SERVICE_ACCOUNT_EMAIL", "ci@excalidash.local").trim(),
   sharedWorkspace: getOptionalBoolean("SHARED_WORKSPACE", false),
+  socketCompression: getOptionalBoolean("SOCKET_COMPRESSION", true),
 };
 
 if (config.nodeEnv === "production") {
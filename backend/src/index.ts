@@ -23,15 +23,27 @@ import {
 import { config } from "./config";
 import { authModeService, requireAuth, optionalAuth, requireAuthOrApiKey, optionalAuthOrApiKey } from "./middleware/auth";
 import { errorHandler, asyncHandler } from "./middleware/errorHandler";
-import authRouter from "./auth";
+import { createAuthRouter } from "./auth";
 import { logAuditEvent } from "./utils/audit";
 import { registerDashboardRoutes } from "./routes/dashboard";
 import { registerImportExportRoutes } from "./routes/importExport";
 import { registerSystemRoutes } from "./routes/system";
 import { prisma } from "./db/prisma";
 import { createDrawingsCacheStore } from "./server/drawingsCache";
+import { createDrawingRevisionStore } from "./server/drawingRevisions";
+import { createDrawingSearchIndex } from "./server/drawingSearchIndex";
+import { createTrashPurgeJob } from "./server/trashPurge";
+import { DEFAULT_FILE_SWEEP_GRACE_MS, createFileSweepJob } from "./server/fileSweep";
+import { DEFAULT_RENDER_CACHE_BYTES, createDrawingRenderCache } from "./server/drawingRender";
+import { createDrawingFileStore } from "./server/drawingFiles";
 import { registerCsrfProtection } from "./server/csrf";
-import { registerSocketHandlers } from "./server/socket";
+import {
+  createDrawingEventBroadcaster,
+  createUserEventEmitter,
+  registerSocketHandlers,
+} from "./server/socket";
+import { createLinkShareExpiryJob, createNotifier } from "./server/notifications";
+import { DEFAULT_ELEMENT_UPDATE_LIMITS } from "./server/socketUpdates";
 import { issueBootstrapSetupCodeIfRequired } from "./auth/bootstrapSetupCode";
 
 const backendRoot = path.resolve(__dirname, "../");
@@ -78,6 +90,10 @@ const isAllowedOrigin = (origin?: string): boolean => {
 };
 
 const uploadDir = path.resolve(__dirname, "../uploads");
+// Lives next to the database by default so the Docker volume for /app/prisma keeps both.
+const drawingFilesDir = process.env.DRAWING_FILES_DIR
+  ? path.resolve(process.env.DRAWING_FILES_DIR)
+  : path.resolve(backendRoot, "prisma/files");
 const MAX_UPLOAD_SIZE_BYTES = 100 * 1024 * 1024;
 const MAX_PAGE_SIZE = 200;
 const MAX_IMPORT_ARCHIVE_ENTRIES = 6000;
@@ -135,6 +151,8 @@ const io = new Server(httpServer, {
     credentials: true,
   },
   maxHttpBufferSize: 50 * 1024 * 1024,
+  // Deflate larger frames (scene deltas, resyncs); small cursor/presence traffic stays uncompressed.
+  perMessageDeflate: config.socketCompression ? { threshold: 1024 } : false,
 });
 const parseJsonField = <T>(
   rawValue: string | null | undefined,
@@ -166,6 +184,42 @@ const {
   invalidateDrawingsCache,
 } = createDrawingsCacheStore(DRAWINGS_CACHE_TTL_MS);
 
+const resolvePositiveEnvNumber = (key: string, fallback: number): number => {
+  const parsed = Number(process.env[key]);
+  if (!Number.isFinite(parsed) || parsed <= 0) {
+    return fallback;
+  }
+  return Math.floor(parsed);
+};
+const { recordDrawingRevision } = createDrawingRevisionStore(prisma, {
+  coalesceWindowMs: resolvePositiveEnvNumber("DRAWING_REVISION_COALESCE_MS", 5 * 60 * 1000),
+  maxRevisionsPerDrawing: resolvePositiveEnvNumber("DRAWING_REVISION_MAX_PER_DRAWING", 100),
+  maxMergeBasesPerDrawing: resolvePositiveEnvNumber("DRAWING_MERGE_BASE_MAX_PER_DRAWING", 20),
+});
+const drawingSearchIndex = createDrawingSearchIndex(prisma);
+const drawingFileStore = createDrawingFileStore(prisma, { rootDir: drawingFilesDir });
+const trashPurgeJob = createTrashPurgeJob(prisma, {
+  drawingSearchIndex,
+  invalidateDrawingsCache,
+  logAuditEvent,
+  config,
+  intervalMs: resolvePositiveEnvNumber("TRASH_PURGE_INTERVAL_MS", 60 * 60 * 1000),
+});
+const fileSweepJob = createFileSweepJob(prisma, {
+  drawingFileStore,
+  graceMs: resolvePositiveEnvNumber("FILE_SWEEP_GRACE_MS", DEFAULT_FILE_SWEEP_GRACE_MS),
+  intervalMs: resolvePositiveEnvNumber("FILE_SWEEP_INTERVAL_MS", 24 * 60 * 60 * 1000),
+});
+const notify = createNotifier(prisma, { emitToUser: createUserEventEmitter(io) });
+const linkShareExpiryJob = createLinkShareExpiryJob(prisma, {
+  notify,
+  warnBeforeMs: resolvePositiveEnvNumber("LINK_SHARE_EXPIRY_WARNING_MS", 24 * 60 * 60 * 1000),
+  intervalMs: resolvePositiveEnvNumber("LINK_SHARE_EXPIRY_CHECK_INTERVAL_MS", 15 * 60 * 1000),
+});
+const drawingRenderCache = createDrawingRenderCache(
+  resolvePositiveEnvNumber("DRAWING_RENDER_CACHE_BYTES", DEFAULT_RENDER_CACHE_BYTES)
+);
+
 const getUserTrashCollectionId = (userId: string): string => `trash:${userId}`;
 
 const ensureTrashCollection = async (
@@ -359,7 +413,18 @@ registerCsrfProtection({
   enableDebugLogging: process.env.DEBUG_CSRF === "true",
 });
 
-app.use("/auth", authRouter);
+app.use(
+  "/auth",
+  createAuthRouter({
+    prisma,
+    requireAuth,
+    optionalAuth,
+    authModeService,
+    // Sockets are registered further down; requests only arrive once they are.
+    publishDrawingAccessChange: (drawingIds) => publishDrawingAccessChange(drawingIds),
+    invalidateDrawingsCache,
+  })
+);
 
 const filesFieldSchema = z
   .union([z.record(z.string(), z.unknown()), z.null()])
@@ -400,6 +465,8 @@ const drawingUpdateSchemaBase = drawingBaseSchema
     appState: appStateSchema.optional(),
     files: filesFieldSchema,
     version: z.number().int().positive().optional(),
+    /** On a stale `version`, merge into the stored scene instead of answering 409. */
+    merge: z.boolean().optional(),
   });
 
 export const sanitizeDrawingUpdateData = (
@@ -566,11 +633,29 @@ const removeFileIfExists = async (filePath?: string) => {
   }
 };
 
-registerSocketHandlers({
+const { publishDrawingAccessChange, publishDrawingSceneChange, flushRoomScenes } = registerSocketHandlers({
   io,
   prisma,
   authModeService,
   jwtSecret: config.jwtSecret,
+  drawingUpdateSchema,
+  elementUpdateLimits: {
+    maxBytes: resolvePositiveEnvNumber("SOCKET_UPDATE_MAX_BYTES", DEFAULT_ELEMENT_UPDATE_LIMITS.maxBytes),
+    maxElements: resolvePositiveEnvNumber("SOCKET_UPDATE_MAX_ELEMENTS", DEFAULT_ELEMENT_UPDATE_LIMITS.maxElements),
+    windowMs: resolvePositiveEnvNumber("SOCKET_UPDATE_RATE_WINDOW_MS", DEFAULT_ELEMENT_UPDATE_LIMITS.windowMs),
+    maxUpdatesPerWindow: resolvePositiveEnvNumber(
+      "SOCKET_UPDATE_RATE_MAX",
+      DEFAULT_ELEMENT_UPDATE_LIMITS.maxUpdatesPerWindow
+    ),
+  },
+  roomScenePersistence: {
+    drawingFileStore,
+    recordDrawingRevision,
+    drawingSearchIndex,
+    invalidateDrawingsCache,
+    persistDelayMs: resolvePositiveEnvNumber("ROOM_SCENE_PERSIST_DELAY_MS", 2000),
+    maxPersistDelayMs: resolvePositiveEnvNumber("ROOM_SCENE_PERSIST_MAX_DELAY_MS", 10_000),
+  },
 });
 
 app.get("/health", (req, res) => {
@@ -592,6 +677,7 @@ if (enableOnboardingGate) {
   const isOnboardingGateBypassPath = (reqPath: string): boolean => {
     if (reqPath === "/health") return true;
     if (reqPath === "/csrf-token") return true;
+    if (reqPath === "/embed-policy") return true;
     if (reqPath === "/auth") return true;
     if (reqPath.startsWith("/auth/")) return true;
     return false;
@@ -664,6 +750,15 @@ registerDashboardRoutes(app, {
   buildDrawingsCacheKey,
   getCachedDrawingsBody,
   cacheDrawingsResponse,
+  recordDrawingRevision,
+  drawingSearchIndex,
+  drawingFileStore,
+  fileSweepJob,
+  drawingRenderCache,
+  broadcastDrawingEvent: createDrawingEventBroadcaster(io),
+  publishDrawingAccessChange,
+  publishDrawingSceneChange,
+  notify,
   MAX_PAGE_SIZE,
   config,
   logAuditEvent,
@@ -683,6 +778,8 @@ registerImportExportRoutes({
   validateImportedDrawing,
   ensureTrashCollection,
   invalidateDrawingsCache,
+  drawingSearchIndex,
+  drawingFileStore,
   removeFileIfExists,
   verifyDatabaseIntegrityAsync,
   MAX_IMPORT_ARCHIVE_ENTRIES,
@@ -714,8 +811,40 @@ if (isMain) {
     } catch (error) {
       console.error("Failed to issue bootstrap setup code:", error);
     }
+    try {
+      const migratedCount = await drawingFileStore.migrateInlineFiles();
+      if (migratedCount > 0) {
+        console.log(`Moved embedded images of ${migratedCount} drawings to the file store`);
+      }
+    } catch (error) {
+      console.error("Failed to migrate embedded drawing images:", error);
+    }
+    trashPurgeJob.start();
+    fileSweepJob.start();
+    linkShareExpiryJob.start();
     console.log(`Server running on port ${PORT}`);
     console.log(`Environment: ${config.nodeEnv}`);
     console.log(`Frontend URL: ${config.frontendUrl}`);
   });
+
+  let shuttingDown = false;
+  const shutdown = async (signal: NodeJS.Signals) => {
+    if (shuttingDown) return;
+    shuttingDown = true;
+    console.log(`Received ${signal}, shutting down`);
+    trashPurgeJob.stop();
+    fileSweepJob.stop();
+    linkShareExpiryJob.stop();
+    // Disconnect collaborators first so no edits arrive after live rooms are written out.
+    io.close();
+    try {
+      await flushRoomScenes();
+    } catch (error) {
+      console.error("Failed to save live room scenes on shutdown:", error);
+    }
+    await prisma.$disconnect();
+    process.exit(0);
+  };
+  process.once("SIGTERM", (signal) => void shutdown(signal));
+  process.once("SIGINT", (signal) => void shutdown(signal));
 }
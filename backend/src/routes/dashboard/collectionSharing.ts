@@ -0,0 +1,237 @@
+import express from "express";
+import { DashboardRouteDeps } from "./types";
+import { isTrashCollectionId } from "./trash";
+import { collectDescendantIds } from "../../server/collectionTree";
+import {
+  getSharedCollectionAccess,
+  normalizeDrawingPermission,
+} from "../../authz/sharing";
+
+const permissionSelect = {
+  id: true,
+  granteeUserId: true,
+  permission: true,
+  createdAt: true,
+  updatedAt: true,
+  granteeUser: { select: { id: true, name: true, email: true } },
+} as const;
+
+export const registerCollectionSharingRoutes = (
+  app: express.Express,
+  deps: DashboardRouteDeps
+) => {
+  const {
+    prisma,
+    requireAuth,
+    asyncHandler,
+    invalidateDrawingsCache,
+    config,
+    logAuditEvent,
+    notify,
+    publishDrawingAccessChange,
+  } = deps;
+
+  const findOwnedCollection = async (id: string, userId: string) => {
+    if (isTrashCollectionId(id, userId)) return null;
+    return prisma.collection.findFirst({
+      where: { id, userId },
+      select: { id: true, name: true },
+    });
+  };
+
+  // Grants cascade to nested collections, so every drawing below the shared one may have changed.
+  const publishCollectionAccessChange = async (collectionId: string, ownerUserId: string) => {
+    const tree = await prisma.collection.findMany({
+      where: { userId: ownerUserId },
+      select: { id: true, parentId: true },
+    });
+    const drawings = await prisma.drawing.findMany({
+      where: { userId: ownerUserId, collectionId: { in: collectDescendantIds(tree, collectionId) } },
+      select: { id: true },
+    });
+    publishDrawingAccessChange(drawings.map((drawing) => drawing.id));
+  };
+
+  // Collections other users shared with the caller directly (nested ones are reached through these).
+  app.get("/collections/shared", requireAuth, asyncHandler(async (req, res) => {
+    if (!req.user) return res.status(401).json({ error: "Unauthorized" });
+
+    const access = await getSharedCollectionAccess({ prisma, userId: req.user.id });
+    const grants = await prisma.collectionPermission.findMany({
+      where: { granteeUserId: req.user.id, collection: { userId: { not: req.user.id } } },
+      select: {
+        collection: {
+          select: {
+            id: true,
+            name: true,
+            createdAt: true,
+            user: { select: { id: true, name: true, email: true } },
+          },
+        },
+      },
+      orderBy: { createdAt: "desc" },
+    });
+
+    return res.json({
+      collections: grants.map(({ collection }) => ({
+        id: collection.id,
+        name: collection.name,
+        createdAt: collection.createdAt,
+        owner: collection.user,
+        accessLevel: access.get(collection.id) ?? "view",
+      })),
+    });
+  }));
+
+  // Owner-only: resolve users by name/email in the context of a collection you own.
+  app.get("/collections/:id/share-resolve", requireAuth, asyncHandler(async (req, res) => {
+    if (!req.user) return res.status(401).json({ error: "Unauthorized" });
+
+    const { id } = req.params;
+    const qRaw = typeof req.query.q === "string" ? req.query.q.trim() : "";
+    const q = qRaw.toLowerCase();
+    if (q.length < 3) return res.json({ users: [] });
+
+    if (!(await findOwnedCollection(id, req.user.id))) {
+      return res.status(404).json({ error: "Collection not found" });
+    }
+
+    const users = await prisma.user.findMany({
+      where: {
+        isActive: true,
+        id: { not: req.user.id },
+        OR: [
+          { email: { contains: q } },
+          { name: { contains: q } },
+          { username: { contains: q } },
+        ],
+      },
+      select: { id: true, name: true, email: true },
+      take: 10,
+    });
+
+    return res.json({ users });
+  }));
+
+  app.get("/collections/:id/sharing", requireAuth, asyncHandler(async (req, res) => {
+    if (!req.user) return res.status(401).json({ error: "Unauthorized" });
+    const { id } = req.params;
+
+    if (!(await findOwnedCollection(id, req.user.id))) {
+      return res.status(404).json({ error: "Collection not found" });
+    }
+
+    const permissions = await prisma.collectionPermission.findMany({
+      where: { collectionId: id },
+      select: permissionSelect,
+      orderBy: { createdAt: "desc" },
+    });
+
+    return res.json({ permissions });
+  }));
+
+  app.post("/collections/:id/permissions", requireAuth, asyncHandler(async (req, res) => {
+    if (!req.user) return res.status(401).json({ error: "Unauthorized" });
+    const { id } = req.params;
+
+    const collection = await findOwnedCollection(id, req.user.id);
+    if (!collection) {
+      return res.status(404).json({ error: "Collection not found" });
+    }
+
+    const granteeUserId = typeof req.body?.granteeUserId === "string" ? req.body.granteeUserId : null;
+    const permission = normalizeDrawingPermission(req.body?.permission);
+    if (!granteeUserId || !permission) {
+      return res.status(400).json({ error: "Validation error", message: "Invalid grantee or permission" });
+    }
+    if (granteeUserId === req.user.id) {
+      return res.status(400).json({ error: "Validation error", message: "Cannot share with yourself" });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: granteeUserId },
+      select: { id: true, isActive: true },
+    });
+    if (!user || !user.isActive) {
+      return res.status(404).json({ error: "User not found" });
+    }
+
+    const saved = await prisma.collectionPermission.upsert({
+      where: {
+        collectionId_granteeUserId: { collectionId: id, granteeUserId },
+      },
+      update: { permission, createdByUserId: req.user.id },
+      create: { collectionId: id, granteeUserId, permission, createdByUserId: req.user.id },
+      select: permissionSelect,
+    });
+
+    invalidateDrawingsCache();
+    await publishCollectionAccessChange(id, req.user.id);
+
+    if (config.enableAuditLogging) {
+      await logAuditEvent({
+        userId: req.user.id,
+        action: "collection_shared_user_upsert",
+        resource: `collection:${id}`,
+        ipAddress: req.ip || req.connection.remoteAddress || undefined,
+        userAgent: req.headers["user-agent"] || undefined,
+        details: { collectionId: id, granteeUserId, permission },
+      });
+    }
+
+    await notify([
+      {
+        userId: granteeUserId,
+        type: "collection_shared",
+        actorUserId: req.user.id,
+        data: { collectionId: id, collectionName: collection.name, permission },
+      },
+    ]);
+
+    return res.json({ permission: saved });
+  }));
+
+  app.delete("/collections/:id/permissions/:permId", requireAuth, asyncHandler(async (req, res) => {
+    if (!req.user) return res.status(401).json({ error: "Unauthorized" });
+    const { id, permId } = req.params;
+
+    const collection = await findOwnedCollection(id, req.user.id);
+    if (!collection) {
+      return res.status(404).json({ error: "Collection not found" });
+    }
+
+    const grant = await prisma.collectionPermission.findFirst({
+      where: { id: permId, collectionId: id },
+      select: { granteeUserId: true },
+    });
+    await prisma.collectionPermission.deleteMany({
+      where: { id: permId, collectionId: id },
+    });
+    invalidateDrawingsCache();
+    await publishCollectionAccessChange(id, req.user.id);
+
+    if (config.enableAuditLogging) {
+      await logAuditEvent({
+        userId: req.user.id,
+        action: "collection_shared_user_revoke",
+        resource: `collection:${id}`,
+        ipAddress: req.ip || req.connection.remoteAddress || undefined,
+        userAgent: req.headers["user-agent"] || undefined,
+        details: { collectionId: id, permissionId: permId },
+      });
+    }
+
+    if (grant) {
+      await notify([
+        {
+          userId: grant.granteeUserId,
+          type: "collection_unshared",
+          actorUserId: req.user.id,
+          data: { collectionId: id, collectionName: collection.name },
+        },
+      ]);
+    }
+
+    return res.json({ success: true });
+  }));
+};
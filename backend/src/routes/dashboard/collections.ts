@@ -1,6 +1,16 @@
 import express from "express";
+import { z } from "zod";
 import { DashboardRouteDeps } from "./types";
 import { getUserTrashCollectionId, isTrashCollectionId } from "./trash";
+import {
+  MAX_COLLECTION_DEPTH,
+  collectAncestorIds,
+  collectDescendantIds,
+  getSubtreeHeight,
+  wouldCreateCycle,
+} from "../../server/collectionTree";
+
+const parentIdSchema = z.string().trim().min(1).nullable();
 
 export const registerCollectionRoutes = (
   app: express.Express,
@@ -17,8 +27,52 @@ export const registerCollectionRoutes = (
     invalidateDrawingsCache,
     config,
     logAuditEvent,
+    publishDrawingAccessChange,
   } = deps;
 
+  const loadCollectionTree = (userId: string) =>
+    prisma.collection.findMany({
+      where: { userId },
+      select: { id: true, parentId: true },
+    });
+
+  // Collection shares cascade down the tree, so moving or deleting a subtree changes access to its drawings.
+  const findSubtreeDrawingIds = async (userId: string, collectionIds: string[]) => {
+    const drawings = await prisma.drawing.findMany({
+      where: { userId, collectionId: { in: collectionIds } },
+      select: { id: true },
+    });
+    return drawings.map((drawing) => drawing.id);
+  };
+
+  /**
+   * Checks that `parentId` can hold `collectionId` (or a new collection when omitted):
+   * the parent must be one of the user's regular collections, the move must not create a
+   * cycle, and the resulting tree must stay within MAX_COLLECTION_DEPTH.
+   */
+  const validateParent = async (
+    userId: string,
+    parentId: string,
+    collectionId?: string
+  ): Promise<string | null> => {
+    if (isTrashCollectionId(parentId, userId)) {
+      return "Collections cannot be nested inside the trash";
+    }
+    const tree = await loadCollectionTree(userId);
+    if (!tree.some((collection) => collection.id === parentId)) {
+      return "Parent collection not found";
+    }
+    if (collectionId && wouldCreateCycle(tree, collectionId, parentId)) {
+      return "A collection cannot be moved inside itself";
+    }
+    const parentDepth = collectAncestorIds(tree, parentId).length + 1;
+    const movedHeight = collectionId ? getSubtreeHeight(tree, collectionId) : 1;
+    if (parentDepth + movedHeight > MAX_COLLECTION_DEPTH) {
+      return `Collections cannot be nested more than ${MAX_COLLECTION_DEPTH} levels deep`;
+    }
+    return null;
+  };
+
   app.get("/collections", requireAuthOrApiKey, asyncHandler(async (req, res) => {
     if (!req.user) return res.status(401).json({ error: "Unauthorized" });
     const trashCollectionId = getUserTrashCollectionId(req.user.id);
@@ -50,9 +104,24 @@ export const registerCollectionRoutes = (
       });
     }
 
+    const parsedParentId = parentIdSchema.optional().safeParse(req.body.parentId);
+    if (!parsedParentId.success) {
+      return res.status(400).json({
+        error: "Validation error",
+        message: "parentId must be a collection id or null",
+      });
+    }
+    const parentId = parsedParentId.data ?? null;
+    if (parentId) {
+      const parentError = await validateParent(req.user.id, parentId);
+      if (parentError) {
+        return res.status(400).json({ error: "Validation error", message: parentError });
+      }
+    }
+
     const sanitizedName = sanitizeText(parsed.data, 100);
     const newCollection = await prisma.collection.create({
-      data: { name: sanitizedName, userId: req.user.id },
+      data: { name: sanitizedName, userId: req.user.id, parentId },
     });
     return res.json(newCollection);
   }));
@@ -72,22 +141,51 @@ export const registerCollectionRoutes = (
     });
     if (!existingCollection) return res.status(404).json({ error: "Collection not found" });
 
-    const parsed = collectionNameSchema.safeParse(req.body.name);
-    if (!parsed.success) {
-      return res.status(400).json({
-        error: "Validation error",
-        message: "Collection name must be between 1 and 100 characters",
-      });
+    const data: { name?: string; parentId?: string | null } = {};
+    if (req.body.name !== undefined || req.body.parentId === undefined) {
+      const parsed = collectionNameSchema.safeParse(req.body.name);
+      if (!parsed.success) {
+        return res.status(400).json({
+          error: "Validation error",
+          message: "Collection name must be between 1 and 100 characters",
+        });
+      }
+      data.name = sanitizeText(parsed.data, 100);
+    }
+    if (req.body.parentId !== undefined) {
+      const parsedParentId = parentIdSchema.safeParse(req.body.parentId);
+      if (!parsedParentId.success) {
+        return res.status(400).json({
+          error: "Validation error",
+          message: "parentId must be a collection id or null",
+        });
+      }
+      if (parsedParentId.data) {
+        const parentError = await validateParent(req.user.id, parsedParentId.data, id);
+        if (parentError) {
+          return res.status(400).json({ error: "Validation error", message: parentError });
+        }
+      }
+      data.parentId = parsedParentId.data;
     }
 
-    const sanitizedName = sanitizeText(parsed.data, 100);
+    const isReparent =
+      data.parentId !== undefined && data.parentId !== existingCollection.parentId;
+    const movedDrawingIds = isReparent
+      ? await findSubtreeDrawingIds(
+          req.user.id,
+          collectDescendantIds(await loadCollectionTree(req.user.id), id)
+        )
+      : [];
+
     const updateResult = await prisma.collection.updateMany({
       where: { id, userId: req.user.id },
-      data: { name: sanitizedName },
+      data,
     });
     if (updateResult.count === 0) {
       return res.status(404).json({ error: "Collection not found" });
     }
+    publishDrawingAccessChange(movedDrawingIds);
     const updatedCollection = await prisma.collection.findFirst({
       where: { id, userId: req.user.id },
     });
@@ -112,14 +210,20 @@ export const registerCollectionRoutes = (
     });
     if (!collection) return res.status(404).json({ error: "Collection not found" });
 
+    // Nested collections go with their parent; drawings anywhere in the subtree become unorganized.
+    const deletedCollectionIds = collectDescendantIds(await loadCollectionTree(req.user.id), id);
+    const releasedDrawingIds = await findSubtreeDrawingIds(req.user.id, deletedCollectionIds);
     await prisma.$transaction([
       prisma.drawing.updateMany({
-        where: { collectionId: id, userId: req.user.id },
+        where: { collectionId: { in: deletedCollectionIds }, userId: req.user.id },
         data: { collectionId: null },
       }),
-      prisma.collection.deleteMany({ where: { id, userId: req.user.id } }),
+      prisma.collection.deleteMany({
+        where: { id: { in: deletedCollectionIds }, userId: req.user.id },
+      }),
     ]);
     invalidateDrawingsCache();
+    publishDrawingAccessChange(releasedDrawingIds);
 
     if (config.enableAuditLogging) {
       await logAuditEvent({
@@ -128,10 +232,14 @@ export const registerCollectionRoutes = (
         resource: `collection:${id}`,
         ipAddress: req.ip || req.connection.remoteAddress || undefined,
         userAgent: req.headers["user-agent"] || undefined,
-        details: { collectionId: id, collectionName: collection.name },
+        details: {
+          collectionId: id,
+          collectionName: collection.name,
+          nestedCollectionCount: deletedCollectionIds.length - 1,
+        },
       });
     }
 
-    return res.json({ success: true });
+    return res.json({ success: true, deletedCollectionIds });
   }));
 };
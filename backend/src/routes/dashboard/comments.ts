@@ -0,0 +1,270 @@
+import express from "express";
+import { z } from "zod";
+import { Prisma } from "../../generated/client";
+import { DashboardRouteDeps } from "./types";
+import { getRequestPrincipal } from "./principal";
+import { canEditDrawing, canViewDrawing, getDrawingAccess } from "../../authz/sharing";
+
+export const MAX_COMMENT_LENGTH = 5000;
+
+const commentBodySchema = z.string().trim().min(1).max(MAX_COMMENT_LENGTH);
+
+const commentCreateSchema = z
+  .object({
+    body: commentBodySchema,
+    parentId: z.string().min(1).optional(),
+    elementId: z.string().min(1).max(200).optional(),
+    x: z.number().optional(),
+    y: z.number().optional(),
+  })
+  .refine((value) => (value.x === undefined) === (value.y === undefined), {
+    message: "x and y must be given together",
+  })
+  .refine(
+    (value) => !value.parentId || (value.elementId === undefined && value.x === undefined),
+    { message: "Replies share their thread's anchor" }
+  );
+
+const commentUpdateSchema = z
+  .object({
+    body: commentBodySchema.optional(),
+    resolved: z.boolean().optional(),
+  })
+  .refine((value) => value.body !== undefined || value.resolved !== undefined, {
+    message: "Provide body or resolved",
+  });
+
+const commentSelect = {
+  id: true,
+  drawingId: true,
+  parentId: true,
+  body: true,
+  elementId: true,
+  sceneX: true,
+  sceneY: true,
+  resolved: true,
+  resolvedAt: true,
+  resolvedByUserId: true,
+  createdAt: true,
+  updatedAt: true,
+  author: { select: { id: true, name: true } },
+} satisfies Prisma.CommentSelect;
+
+export const registerCommentRoutes = (
+  app: express.Express,
+  deps: DashboardRouteDeps
+) => {
+  const {
+    prisma,
+    optionalAuthOrApiKey,
+    requireAuthOrApiKey,
+    asyncHandler,
+    sanitizeText,
+    broadcastDrawingEvent,
+    notify,
+  } = deps;
+
+  // The drawing owner hears about every new thread; replies also go to everyone already in
+  // the thread. Recipients who can no longer see the drawing are skipped.
+  const notifyCommentCreated = async (
+    drawingId: string,
+    comment: { id: string; parentId: string | null; body: string; authorId: string }
+  ) => {
+    const drawing = await prisma.drawing.findUnique({
+      where: { id: drawingId },
+      select: { name: true, userId: true },
+    });
+    if (!drawing) return;
+
+    const recipientIds = new Set([drawing.userId]);
+    if (comment.parentId) {
+      const thread = await prisma.comment.findMany({
+        where: { drawingId, OR: [{ id: comment.parentId }, { parentId: comment.parentId }] },
+        select: { authorId: true },
+      });
+      for (const entry of thread) recipientIds.add(entry.authorId);
+    }
+    recipientIds.delete(comment.authorId);
+
+    const recipients: string[] = [];
+    for (const userId of recipientIds) {
+      const access = await getDrawingAccess({
+        prisma,
+        principal: { kind: "user", userId },
+        drawingId,
+      });
+      if (canViewDrawing(access)) recipients.push(userId);
+    }
+
+    await notify(
+      recipients.map((userId) => ({
+        userId,
+        type: "comment_created" as const,
+        actorUserId: comment.authorId,
+        drawingId,
+        data: {
+          drawingName: drawing.name,
+          commentId: comment.id,
+          threadId: comment.parentId ?? comment.id,
+          excerpt: comment.body.slice(0, 140),
+        },
+      }))
+    );
+  };
+
+  const findComment = (drawingId: string, commentId: string) =>
+    prisma.comment.findFirst({
+      where: { id: commentId, drawingId },
+      select: { ...commentSelect, authorId: true },
+    });
+
+  /** Flat list in creation order; clients group replies under their thread by `parentId`. */
+  app.get("/drawings/:id/comments", optionalAuthOrApiKey, asyncHandler(async (req, res) => {
+    const principal = await getRequestPrincipal(req);
+    const { id } = req.params;
+    const access = await getDrawingAccess({ prisma, principal, drawingId: id });
+    if (!canViewDrawing(access)) {
+      return res.status(404).json({ error: "Drawing not found" });
+    }
+
+    const comments = await prisma.comment.findMany({
+      where: { drawingId: id },
+      orderBy: { createdAt: "asc" },
+      select: commentSelect,
+    });
+    return res.json({ comments });
+  }));
+
+  // Anyone who can view the drawing may comment, but only as a signed-in user.
+  app.post("/drawings/:id/comments", requireAuthOrApiKey, asyncHandler(async (req, res) => {
+    if (!req.user) return res.status(401).json({ error: "Unauthorized" });
+
+    const principal = await getRequestPrincipal(req);
+    const { id } = req.params;
+    const access = await getDrawingAccess({ prisma, principal, drawingId: id });
+    if (!canViewDrawing(access)) {
+      return res.status(404).json({ error: "Drawing not found" });
+    }
+
+    const parsed = commentCreateSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        error: "Validation error",
+        message: parsed.error.issues[0]?.message ?? "Invalid comment",
+      });
+    }
+    const { body, parentId, elementId, x, y } = parsed.data;
+
+    if (parentId) {
+      const parent = await prisma.comment.findFirst({
+        where: { id: parentId, drawingId: id },
+        select: { parentId: true },
+      });
+      if (!parent) return res.status(404).json({ error: "Comment not found" });
+      if (parent.parentId) {
+        return res.status(400).json({
+          error: "Validation error",
+          message: "Reply to the thread's first comment",
+        });
+      }
+    }
+
+    const comment = await prisma.comment.create({
+      data: {
+        drawingId: id,
+        parentId: parentId ?? null,
+        authorId: req.user.id,
+        body: sanitizeText(body, MAX_COMMENT_LENGTH),
+        elementId: elementId ?? null,
+        sceneX: x ?? null,
+        sceneY: y ?? null,
+      },
+      select: commentSelect,
+    });
+    broadcastDrawingEvent(id, "comment-created", { comment });
+    await notifyCommentCreated(id, { ...comment, authorId: req.user.id });
+    return res.status(201).json({ comment });
+  }));
+
+  // Authors edit their own text; resolving a thread is open to its author and to editors.
+  app.patch("/drawings/:id/comments/:commentId", requireAuthOrApiKey, asyncHandler(async (req, res) => {
+    if (!req.user) return res.status(401).json({ error: "Unauthorized" });
+
+    const principal = await getRequestPrincipal(req);
+    const { id, commentId } = req.params;
+    const access = await getDrawingAccess({ prisma, principal, drawingId: id });
+    if (!canViewDrawing(access)) {
+      return res.status(404).json({ error: "Drawing not found" });
+    }
+
+    const parsed = commentUpdateSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        error: "Validation error",
+        message: parsed.error.issues[0]?.message ?? "Invalid comment update",
+      });
+    }
+
+    const existing = await findComment(id, commentId);
+    if (!existing) return res.status(404).json({ error: "Comment not found" });
+
+    const isAuthor = existing.authorId === req.user.id;
+    const data: Prisma.CommentUpdateInput = {};
+    if (parsed.data.body !== undefined) {
+      if (!isAuthor) {
+        return res.status(403).json({ error: "Forbidden", message: "Only the author can edit a comment" });
+      }
+      data.body = sanitizeText(parsed.data.body, MAX_COMMENT_LENGTH);
+    }
+    if (parsed.data.resolved !== undefined) {
+      if (existing.parentId) {
+        return res.status(400).json({
+          error: "Validation error",
+          message: "Resolve the thread's first comment",
+        });
+      }
+      if (!isAuthor && !canEditDrawing(access)) {
+        return res.status(403).json({
+          error: "Forbidden",
+          message: "Only the thread author or an editor can resolve it",
+        });
+      }
+      data.resolved = parsed.data.resolved;
+      data.resolvedAt = parsed.data.resolved ? new Date() : null;
+      data.resolvedByUserId = parsed.data.resolved ? req.user.id : null;
+    }
+
+    const comment = await prisma.comment.update({
+      where: { id: commentId },
+      data,
+      select: commentSelect,
+    });
+    broadcastDrawingEvent(id, "comment-updated", { comment });
+    return res.json({ comment });
+  }));
+
+  // Deleting a thread's first comment removes its replies too.
+  app.delete("/drawings/:id/comments/:commentId", requireAuthOrApiKey, asyncHandler(async (req, res) => {
+    if (!req.user) return res.status(401).json({ error: "Unauthorized" });
+
+    const principal = await getRequestPrincipal(req);
+    const { id, commentId } = req.params;
+    const access = await getDrawingAccess({ prisma, principal, drawingId: id });
+    if (!canViewDrawing(access)) {
+      return res.status(404).json({ error: "Drawing not found" });
+    }
+
+    const existing = await findComment(id, commentId);
+    if (!existing) return res.status(404).json({ error: "Comment not found" });
+    if (existing.authorId !== req.user.id && access !== "owner") {
+      return res.status(403).json({
+        error: "Forbidden",
+        message: "Only the author or the drawing owner can delete a comment",
+      });
+    }
+
+    await prisma.comment.delete({ where: { id: commentId } });
+    broadcastDrawingEvent(id, "comment-deleted", { drawingId: id, commentId });
+    return res.json({ success: true });
+  }));
+};
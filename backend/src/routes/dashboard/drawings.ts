@@ -7,17 +7,87 @@ import {
   toInternalTrashCollectionId,
   toPublicTrashCollectionId,
 } from "./trash";
+import { getRequestPrincipal } from "./principal";
+import { collectDescendantIds } from "../../server/collectionTree";
+import { mergeSceneElements } from "../../server/drawingMerge";
+import { buildDrawingSearchFilter, findDrawingsByRelevance, toSearchResult } from "./search";
 import {
+  buildDrawingTagWhere,
+  buildDrawingTagsSelect,
+  flattenDrawingTags,
+  parseDrawingTagFilter,
+  toTagFilterCacheKey,
+} from "./tags";
+import {
+  buildDrawingStarsSelect,
+  buildStarredWhere,
+  findDrawingsStarredFirst,
+  flattenDrawingStar,
+  parseBooleanFlag,
+} from "./stars";
+import {
+  DrawingPermission,
   buildShareLinkToken,
   canEditDrawing,
   canViewDrawing,
   getDrawingAccess,
+  getSharedCollectionAccess,
   hashShareLinkToken,
   isOwnerAccess,
   normalizeDrawingPermission,
-  type DrawingPrincipal,
 } from "../../authz/sharing";
 
+const groupPermissionSelect = {
+  id: true,
+  groupId: true,
+  permission: true,
+  createdAt: true,
+  updatedAt: true,
+  group: { select: { id: true, name: true } },
+} as const;
+
+/** Drawings someone else owns that `userId` reaches through a user, group or collection grant. */
+const buildSharedDrawingWhere = (
+  userId: string,
+  sharedCollectionIds: string[]
+): Prisma.DrawingWhereInput => ({
+  // Some deployments keep an owner self-permission row for access control; exclude those.
+  userId: { not: userId },
+  OR: [
+    { permissions: { some: { granteeUserId: userId } } },
+    { groupPermissions: { some: { group: { memberships: { some: { userId } } } } } },
+    { collectionId: { in: sharedCollectionIds } },
+  ],
+});
+
+const buildSharedGrantSelect = (userId: string) => ({
+  permissions: {
+    where: { granteeUserId: userId },
+    select: { permission: true },
+  },
+  groupPermissions: {
+    where: { group: { memberships: { some: { userId } } } },
+    select: { permission: true },
+  },
+});
+
+/** Turns a row selected with `buildSharedGrantSelect` into what a non-owner may see of it. */
+const toSharedDrawingRow = (d: any, sharedCollections: Map<string, DrawingPermission>) => {
+  const grantedPerms = [
+    ...(Array.isArray(d?.permissions) ? d.permissions : []),
+    ...(Array.isArray(d?.groupPermissions) ? d.groupPermissions : []),
+  ].map((row: { permission?: unknown }) => normalizeDrawingPermission(row.permission));
+  const collectionPerm = d.collectionId ? sharedCollections.get(d.collectionId) : undefined;
+  const perm = grantedPerms.includes("edit") || collectionPerm === "edit" ? "edit" : "view";
+  const { permissions: _permissions, groupPermissions: _groupPermissions, ...rest } = d;
+  return {
+    ...rest,
+    // Collections are owner-scoped; don't leak the owner's collection ids to viewers.
+    collectionId: null,
+    accessLevel: perm,
+  };
+};
+
 export const registerDrawingRoutes = (
   app: express.Express,
   deps: DashboardRouteDeps
@@ -39,18 +109,86 @@ export const registerDrawingRoutes = (
     buildDrawingsCacheKey,
     getCachedDrawingsBody,
     cacheDrawingsResponse,
+    recordDrawingRevision,
+    drawingSearchIndex,
+    drawingFileStore,
     MAX_PAGE_SIZE,
     config,
     logAuditEvent,
+    notify,
+    publishDrawingAccessChange,
+    publishDrawingSceneChange,
   } = deps;
 
-  const getRequestPrincipal = async (
-    req: express.Request
-  ): Promise<DrawingPrincipal | null> => {
-    if (req.user?.id) {
-      return { kind: "user", userId: req.user.id };
+  /**
+   * Merge mode for `PUT /drawings/:id`: a scene saved against an older `version` is merged into
+   * the stored one, using the merge base recorded for exactly that version as the common base.
+   * Retried when another save lands in between; only unresolvable element edits end up as 409.
+   */
+  const saveMergedScene = async (
+    id: string,
+    baseVersion: number,
+    incomingElements: unknown[],
+    data: Prisma.DrawingUpdateInput
+  ): Promise<
+    | { status: "merged" }
+    | { status: "conflict"; currentVersion: number | null; conflictingElementIds: string[] }
+  > => {
+    // Only the exact scene the client started from is a valid base; merging against an older
+    // one would undo edits made since. Recent versions have a merge base; older ones are only
+    // mergeable while a revision of exactly that version is kept.
+    const where = { drawingId_version: { drawingId: id, version: baseVersion } };
+    const mergeBase =
+      (await prisma.drawingMergeBase.findUnique({ where, select: { elements: true } })) ??
+      (await prisma.drawingRevision.findUnique({ where, select: { elements: true } }));
+    if (!mergeBase) {
+      const latest = await prisma.drawing.findUnique({ where: { id }, select: { version: true } });
+      return { status: "conflict", currentVersion: latest?.version ?? null, conflictingElementIds: [] };
+    }
+    const baseElements = parseJsonField<unknown[]>(mergeBase.elements, []);
+
+    for (let attempt = 0; attempt < 3; attempt += 1) {
+      const stored = await prisma.drawing.findUnique({
+        where: { id },
+        select: { version: true, elements: true, files: true },
+      });
+      if (!stored || stored.version < baseVersion) {
+        return { status: "conflict", currentVersion: stored?.version ?? null, conflictingElementIds: [] };
+      }
+
+      const result = mergeSceneElements({
+        base: baseElements,
+        stored: parseJsonField<unknown[]>(stored.elements, []),
+        incoming: incomingElements,
+      });
+      if ("conflictingElementIds" in result) {
+        return {
+          status: "conflict",
+          currentVersion: stored.version,
+          conflictingElementIds: result.conflictingElementIds,
+        };
+      }
+
+      const mergedData: Prisma.DrawingUpdateInput = {
+        ...data,
+        elements: JSON.stringify(result.elements),
+      };
+      // Files are content-addressed, so keeping both sides' entries is always safe.
+      if (typeof data.files === "string") {
+        mergedData.files = JSON.stringify({
+          ...parseJsonField<Record<string, unknown>>(stored.files, {}),
+          ...parseJsonField<Record<string, unknown>>(data.files, {}),
+        });
+      }
+      const written = await prisma.drawing.updateMany({
+        where: { id, version: stored.version },
+        data: mergedData,
+      });
+      if (written.count > 0) return { status: "merged" };
     }
-    return null;
+
+    const latest = await prisma.drawing.findUnique({ where: { id }, select: { version: true } });
+    return { status: "conflict", currentVersion: latest?.version ?? null, conflictingElementIds: [] };
   };
 
   const resolveDefaultTtlMs = (permission: "view" | "edit"): number => {
@@ -79,10 +217,10 @@ export const registerDrawingRoutes = (
     const where: Prisma.DrawingWhereInput = { userId: req.user.id };
     const searchTerm =
       typeof search === "string" && search.trim().length > 0 ? search.trim() : undefined;
-
-    if (searchTerm) {
-      where.name = { contains: searchTerm };
-    }
+    const tagFilter = parseDrawingTagFilter(req.query);
+    const starredOnly = parseBooleanFlag(req.query.starred);
+    const pinStarred = parseBooleanFlag(req.query.pinStarred);
+    let sharedCollections: Map<string, DrawingPermission> | null = null;
 
     let collectionFilterKey = "default";
     if (collectionId === "null") {
@@ -103,6 +241,17 @@ export const registerDrawingRoutes = (
         where.collectionId = normalizedCollectionId;
         collectionFilterKey = `id:${normalizedCollectionId}`;
       }
+    } else if (starredOnly) {
+      // The Starred view spans everything the caller can open, including drawings shared with them.
+      sharedCollections = await getSharedCollectionAccess({ prisma, userId: req.user.id });
+      delete where.userId;
+      where.OR = [
+        {
+          userId: req.user.id,
+          OR: [{ collectionId: { notIn: [trashCollectionId, "trash"] } }, { collectionId: null }],
+        },
+        buildSharedDrawingWhere(req.user.id, Array.from(sharedCollections.keys())),
+      ];
     } else {
       where.OR = [
         { collectionId: { notIn: [trashCollectionId, "trash"] } },
@@ -115,7 +264,10 @@ export const registerDrawingRoutes = (
         ? includeData.toLowerCase() === "true" || includeData === "1"
         : false;
     const parsedSortField: SortField =
-      sortField === "name" || sortField === "createdAt" || sortField === "updatedAt"
+      sortField === "name" ||
+      sortField === "createdAt" ||
+      sortField === "updatedAt" ||
+      sortField === "relevance"
         ? sortField
         : "updatedAt";
     const parsedSortDirection: SortDirection =
@@ -139,6 +291,9 @@ export const registerDrawingRoutes = (
         userId: req.user.id,
         searchTerm: searchTerm ?? "",
         collectionFilter: collectionFilterKey,
+        tagFilter: toTagFilterCacheKey(tagFilter),
+        starredOnly,
+        pinStarred,
         includeData: shouldIncludeData,
         sortField: parsedSortField,
         sortDirection: parsedSortDirection,
@@ -159,8 +314,36 @@ export const registerDrawingRoutes = (
       version: true,
       createdAt: true,
       updatedAt: true,
+      trashedAt: true,
+      templateScope: true,
+      tags: buildDrawingTagsSelect(req.user.id),
+      stars: buildDrawingStarsSelect(req.user.id),
+      ...(sharedCollections ? { userId: true, ...buildSharedGrantSelect(req.user.id) } : {}),
     };
 
+    let searchMatches = searchTerm
+      ? await drawingSearchIndex.search(searchTerm, { kind: "owned", userId: req.user.id })
+      : null;
+    if (searchTerm && searchMatches && sharedCollections) {
+      const sharedMatches = await drawingSearchIndex.search(searchTerm, {
+        kind: "shared",
+        userId: req.user.id,
+        collectionIds: Array.from(sharedCollections.keys()),
+      });
+      searchMatches = new Map([...searchMatches, ...sharedMatches]);
+    }
+    const andFilters: Prisma.DrawingWhereInput[] = [];
+    if (starredOnly) {
+      andFilters.push(buildStarredWhere(req.user.id));
+    }
+    if (searchTerm && searchMatches) {
+      andFilters.push(buildDrawingSearchFilter(searchTerm, searchMatches));
+    }
+    if (tagFilter) {
+      andFilters.push(...buildDrawingTagWhere(req.user.id, tagFilter));
+    }
+    if (andFilters.length > 0) where.AND = andFilters;
+
     const orderBy: Prisma.DrawingOrderByWithRelationInput =
       parsedSortField === "name"
         ? { name: parsedSortDirection }
@@ -171,16 +354,58 @@ export const registerDrawingRoutes = (
     const queryOptions: Prisma.DrawingFindManyArgs = { where, orderBy };
     if (parsedLimit !== undefined) queryOptions.take = parsedLimit;
     if (parsedOffset !== undefined) queryOptions.skip = parsedOffset;
-    if (!shouldIncludeData) queryOptions.select = summarySelect;
+    if (shouldIncludeData) {
+      queryOptions.include = {
+        tags: buildDrawingTagsSelect(req.user.id),
+        stars: buildDrawingStarsSelect(req.user.id),
+        ...(sharedCollections ? buildSharedGrantSelect(req.user.id) : {}),
+      };
+    } else {
+      queryOptions.select = summarySelect;
+    }
 
-    const [drawings, totalCount] = await Promise.all([
-      prisma.drawing.findMany(queryOptions),
-      prisma.drawing.count({ where }),
-    ]);
+    const { drawings, totalCount } =
+      parsedSortField === "relevance" && searchMatches
+        ? await findDrawingsByRelevance(prisma, {
+            where,
+            matches: searchMatches,
+            sortDirection: parsedSortDirection,
+            select: queryOptions.select,
+            include: queryOptions.include,
+            take: queryOptions.take,
+            skip: queryOptions.skip,
+          })
+        : pinStarred && !starredOnly
+        ? await findDrawingsStarredFirst(prisma, {
+            userId: req.user.id,
+            where,
+            orderBy,
+            select: queryOptions.select,
+            include: queryOptions.include,
+            take: queryOptions.take,
+            skip: queryOptions.skip,
+          })
+        : await Promise.all([
+            prisma.drawing.findMany(queryOptions),
+            prisma.drawing.count({ where }),
+          ]).then(([drawings, totalCount]) => ({ drawings, totalCount }));
+
+    // Only the Starred view mixes in drawings owned by others; those get the shared-list shape.
+    const toListRow = (d: any) => {
+      if (!sharedCollections) return d;
+      if (d.userId !== req.user!.id) return toSharedDrawingRow(d, sharedCollections);
+      const { permissions: _permissions, groupPermissions: _groupPermissions, ...rest } = d;
+      return { ...rest, accessLevel: "owner" };
+    };
+
+    const withSearch = (d: any) => {
+      const tagged = flattenDrawingStar(flattenDrawingTags(toListRow(d)));
+      return searchMatches ? { ...tagged, search: toSearchResult(searchMatches.get(d.id)) } : tagged;
+    };
 
     let responsePayload: any[] = drawings as any[];
     if (shouldIncludeData) {
-      responsePayload = (drawings as any[]).map((d: any) => ({
+      responsePayload = (drawings as any[]).map((d: any) => withSearch({
         ...d,
         collectionId: toPublicTrashCollectionId(d.collectionId, req.user!.id),
         elements: parseJsonField(d.elements, []),
@@ -188,7 +413,7 @@ export const registerDrawingRoutes = (
         files: parseJsonField(d.files, {}),
       }));
     } else {
-      responsePayload = (drawings as any[]).map((d: any) => ({
+      responsePayload = (drawings as any[]).map((d: any) => withSearch({
         ...d,
         collectionId: toPublicTrashCollectionId(d.collectionId, req.user!.id),
       }));
@@ -212,16 +437,39 @@ export const registerDrawingRoutes = (
   app.get("/drawings/shared", requireAuth, asyncHandler(async (req, res) => {
     if (!req.user) return res.status(401).json({ error: "Unauthorized" });
 
-    const { search, includeData, limit, offset, sortField, sortDirection } = req.query;
+    const { search, collectionId, includeData, limit, offset, sortField, sortDirection } = req.query;
     const searchTerm =
       typeof search === "string" && search.trim().length > 0 ? search.trim() : undefined;
+    const tagFilter = parseDrawingTagFilter(req.query);
+    const sharedCollections = await getSharedCollectionAccess({ prisma, userId: req.user.id });
+    const sharedCollectionIds = Array.from(sharedCollections.keys());
+
+    // `?collectionId=` narrows the list to one shared collection and everything nested in it.
+    let collectionScope: string[] | null = null;
+    if (typeof collectionId === "string" && collectionId.length > 0) {
+      if (!sharedCollections.has(collectionId)) {
+        return res.status(404).json({ error: "Collection not found" });
+      }
+      const sharedCollection = await prisma.collection.findUnique({
+        where: { id: collectionId },
+        select: { userId: true },
+      });
+      const ownerTree = await prisma.collection.findMany({
+        where: { userId: sharedCollection?.userId },
+        select: { id: true, parentId: true },
+      });
+      collectionScope = collectDescendantIds(ownerTree, collectionId);
+    }
 
     const shouldIncludeData =
       typeof includeData === "string"
         ? includeData.toLowerCase() === "true" || includeData === "1"
         : false;
     const parsedSortField: SortField =
-      sortField === "name" || sortField === "createdAt" || sortField === "updatedAt"
+      sortField === "name" ||
+      sortField === "createdAt" ||
+      sortField === "updatedAt" ||
+      sortField === "relevance"
         ? sortField
         : "updatedAt";
     const parsedSortDirection: SortDirection =
@@ -247,19 +495,29 @@ export const registerDrawingRoutes = (
         ? { createdAt: parsedSortDirection }
         : { updatedAt: parsedSortDirection };
 
-    const whereDrawing: Prisma.DrawingWhereInput = {
-      // "Shared with me" should only include drawings owned by someone else.
-      // Some deployments keep an owner self-permission row for access control; exclude those.
-      userId: { not: req.user.id },
-      permissions: {
-        some: {
-          granteeUserId: req.user.id,
-        },
-      },
-    };
-    if (searchTerm) {
-      whereDrawing.name = { contains: searchTerm };
+    // "Shared with me" should only include drawings owned by someone else.
+    const whereDrawing = buildSharedDrawingWhere(req.user.id, sharedCollectionIds);
+    const searchMatches = searchTerm
+      ? await drawingSearchIndex.search(searchTerm, {
+          kind: "shared",
+          userId: req.user.id,
+          collectionIds: sharedCollectionIds,
+        })
+      : null;
+    const andFilters: Prisma.DrawingWhereInput[] = [];
+    if (collectionScope) {
+      andFilters.push({ collectionId: { in: collectionScope } });
+    }
+    if (parseBooleanFlag(req.query.starred)) {
+      andFilters.push(buildStarredWhere(req.user.id));
     }
+    if (searchTerm && searchMatches) {
+      andFilters.push(buildDrawingSearchFilter(searchTerm, searchMatches));
+    }
+    if (tagFilter) {
+      andFilters.push(...buildDrawingTagWhere(req.user.id, tagFilter));
+    }
+    if (andFilters.length > 0) whereDrawing.AND = andFilters;
 
     const summarySelect: Prisma.DrawingSelect = {
       id: true,
@@ -270,33 +528,44 @@ export const registerDrawingRoutes = (
       createdAt: true,
       updatedAt: true,
       userId: true,
-      permissions: {
-        where: { granteeUserId: req.user.id },
-        select: { permission: true },
-      },
+      ...buildSharedGrantSelect(req.user.id),
+      tags: buildDrawingTagsSelect(req.user.id),
+      stars: buildDrawingStarsSelect(req.user.id),
     };
 
     const queryOptions: Prisma.DrawingFindManyArgs = { where: whereDrawing, orderBy };
     if (parsedLimit !== undefined) queryOptions.take = parsedLimit;
     if (parsedOffset !== undefined) queryOptions.skip = parsedOffset;
-    if (!shouldIncludeData) queryOptions.select = summarySelect;
-
-    const [drawings, totalCount] = await Promise.all([
-      prisma.drawing.findMany(queryOptions),
-      prisma.drawing.count({ where: whereDrawing }),
-    ]);
-
-    const normalize = (d: any) => {
-      const rawPerm = Array.isArray(d?.permissions) ? d.permissions[0]?.permission : null;
-      const perm = normalizeDrawingPermission(rawPerm) ?? "view";
-      const { permissions: _permissions, ...rest } = d;
-      return {
-        ...rest,
-        // Collections are owner-scoped; don't leak the owner's collection ids to viewers.
-        collectionId: null,
-        accessLevel: perm,
+    if (shouldIncludeData) {
+      queryOptions.include = {
+        ...buildSharedGrantSelect(req.user.id),
+        tags: buildDrawingTagsSelect(req.user.id),
+        stars: buildDrawingStarsSelect(req.user.id),
       };
-    };
+    } else {
+      queryOptions.select = summarySelect;
+    }
+
+    const { drawings, totalCount } =
+      parsedSortField === "relevance" && searchMatches
+        ? await findDrawingsByRelevance(prisma, {
+            where: whereDrawing,
+            matches: searchMatches,
+            sortDirection: parsedSortDirection,
+            select: queryOptions.select,
+            include: queryOptions.include,
+            take: queryOptions.take,
+            skip: queryOptions.skip,
+          })
+        : await Promise.all([
+            prisma.drawing.findMany(queryOptions),
+            prisma.drawing.count({ where: whereDrawing }),
+          ]).then(([drawings, totalCount]) => ({ drawings, totalCount }));
+
+    const normalize = (d: any) => ({
+      ...flattenDrawingStar(flattenDrawingTags(toSharedDrawingRow(d, sharedCollections))),
+      ...(searchMatches ? { search: toSearchResult(searchMatches.get(d.id)) } : {}),
+    });
 
     let responsePayload: any[] = drawings as any[];
     if (shouldIncludeData) {
@@ -386,6 +655,7 @@ export const registerDrawingRoutes = (
       await ensureTrashCollection(prisma, req.user.id);
     }
 
+    const files = await drawingFileStore.externalizeFiles(payload.files ?? {}, req.user.id);
     const newDrawing = await prisma.drawing.create({
       data: {
         name: drawingName,
@@ -393,11 +663,14 @@ export const registerDrawingRoutes = (
         appState: JSON.stringify(payload.appState),
         userId: req.user.id,
         collectionId: targetCollectionId,
+        trashedAt: isTrashCollectionId(targetCollectionId, req.user.id) ? new Date() : null,
         preview: payload.preview ?? null,
-        files: JSON.stringify(payload.files ?? {}),
+        files: JSON.stringify(files),
       },
     });
+    await drawingFileStore.syncDrawingFileRefs(newDrawing.id, files);
     invalidateDrawingsCache();
+    await drawingSearchIndex.indexDrawing(newDrawing);
 
     return res.json({
       ...newDrawing,
@@ -436,6 +709,7 @@ export const registerDrawingRoutes = (
       preview?: string | null;
       files?: Record<string, unknown>;
       version?: number;
+      merge?: boolean;
     };
     const ownerUserId = existingDrawing.userId;
     const trashCollectionId = getUserTrashCollectionId(ownerUserId);
@@ -450,7 +724,12 @@ export const registerDrawingRoutes = (
     if (payload.name !== undefined) data.name = payload.name;
     if (payload.elements !== undefined) data.elements = JSON.stringify(payload.elements);
     if (payload.appState !== undefined) data.appState = JSON.stringify(payload.appState);
-    if (payload.files !== undefined) data.files = JSON.stringify(payload.files);
+    if (payload.files !== undefined) {
+      const files = await drawingFileStore.externalizeFiles(payload.files, principal?.userId ?? null, {
+        drawingId: id,
+      });
+      data.files = JSON.stringify(files);
+    }
     if (payload.preview !== undefined) data.preview = payload.preview;
 
     if (payload.collectionId !== undefined) {
@@ -460,9 +739,14 @@ export const registerDrawingRoutes = (
           message: "Only the owner can move drawings between collections",
         });
       }
+      const wasTrashed = isTrashCollectionId(existingDrawing.collectionId, ownerUserId);
       if (payload.collectionId === "trash") {
         await ensureTrashCollection(prisma, ownerUserId);
         (data as Prisma.DrawingUncheckedUpdateInput).collectionId = trashCollectionId;
+        if (!wasTrashed) {
+          data.trashedAt = new Date();
+          data.previousCollectionId = existingDrawing.collectionId;
+        }
       } else if (payload.collectionId) {
         const collection = await prisma.collection.findFirst({
           where: { id: payload.collectionId, userId: ownerUserId },
@@ -472,6 +756,10 @@ export const registerDrawingRoutes = (
       } else {
         (data as Prisma.DrawingUncheckedUpdateInput).collectionId = null;
       }
+      if (payload.collectionId !== "trash" && wasTrashed) {
+        data.trashedAt = null;
+        data.previousCollectionId = null;
+      }
     }
 
     const updateWhere: Prisma.DrawingWhereInput = { id };
@@ -483,7 +771,26 @@ export const registerDrawingRoutes = (
       where: updateWhere,
       data,
     });
-    if (updateResult.count === 0) {
+    let merged = false;
+    if (
+      updateResult.count === 0 &&
+      isSceneUpdate &&
+      payload.version !== undefined &&
+      payload.merge === true &&
+      payload.elements !== undefined
+    ) {
+      const outcome = await saveMergedScene(id, payload.version, payload.elements, data);
+      if (outcome.status === "conflict") {
+        return res.status(409).json({
+          error: "Conflict",
+          code: "VERSION_CONFLICT",
+          message: "Drawing has changed in a way that could not be merged.",
+          currentVersion: outcome.currentVersion,
+          conflictingElementIds: outcome.conflictingElementIds,
+        });
+      }
+      merged = true;
+    } else if (updateResult.count === 0) {
       if (isSceneUpdate && payload.version !== undefined) {
         const latestDrawing = await prisma.drawing.findFirst({
           where: { id },
@@ -505,7 +812,31 @@ export const registerDrawingRoutes = (
     if (!updatedDrawing) {
       return res.status(404).json({ error: "Drawing not found" });
     }
+    if (payload.files !== undefined) {
+      await drawingFileStore.syncDrawingFileRefs(id, updatedDrawing.files);
+    }
     invalidateDrawingsCache();
+    // Collection shares (and the trash, which drops them) decide who may open the drawing.
+    if (updatedDrawing.collectionId !== existingDrawing.collectionId) {
+      publishDrawingAccessChange([id]);
+    }
+
+    if (isSceneUpdate && updatedDrawing.version > existingDrawing.version) {
+      try {
+        await recordDrawingRevision({
+          drawing: updatedDrawing,
+          previous: existingDrawing,
+          createdByUserId: principal?.userId ?? null,
+        });
+      } catch (error) {
+        // History is best-effort; never fail a save because the snapshot could not be written.
+        console.error("Failed to record drawing revision", { drawingId: id, error });
+      }
+      publishDrawingSceneChange(id);
+    }
+    if (payload.elements !== undefined || payload.name !== undefined) {
+      await drawingSearchIndex.indexDrawing(updatedDrawing);
+    }
 
     return res.json({
       ...updatedDrawing,
@@ -514,6 +845,7 @@ export const registerDrawingRoutes = (
       appState: parseJsonField(updatedDrawing.appState, {}),
       files: parseJsonField(updatedDrawing.files, {}),
       accessLevel: access,
+      ...(merged ? { merged: true } : {}),
     });
   }));
 
@@ -531,6 +863,7 @@ export const registerDrawingRoutes = (
       return res.status(404).json({ error: "Drawing not found" });
     }
     invalidateDrawingsCache();
+    await drawingSearchIndex.removeDrawings([id]);
 
     if (config.enableAuditLogging) {
       await logAuditEvent({
@@ -557,6 +890,9 @@ export const registerDrawingRoutes = (
       await ensureTrashCollection(prisma, req.user.id);
       duplicatedCollectionId = getUserTrashCollectionId(req.user.id);
     }
+    // Like a drawing created in the trash, the copy starts its own retention period; restoring
+    // it leads back to where the original came from.
+    const copyIsTrashed = isTrashCollectionId(duplicatedCollectionId, req.user.id);
 
     const newDrawing = await prisma.drawing.create({
       data: {
@@ -566,10 +902,15 @@ export const registerDrawingRoutes = (
         files: original.files,
         userId: req.user.id,
         collectionId: duplicatedCollectionId,
+        trashedAt: copyIsTrashed ? new Date() : null,
+        previousCollectionId: copyIsTrashed ? original.previousCollectionId : null,
         version: 1,
       },
     });
+    // The copy points at the same stored images; only the references are new.
+    await drawingFileStore.syncDrawingFileRefs(newDrawing.id, newDrawing.files);
     invalidateDrawingsCache();
+    await drawingSearchIndex.indexDrawing(newDrawing);
 
     return res.json({
       ...newDrawing,
@@ -607,8 +948,17 @@ export const registerDrawingRoutes = (
       select: { id: true, name: true, email: true },
       take: 10,
     });
+    const groups = await prisma.group.findMany({
+      where: { name: { contains: q } },
+      select: { id: true, name: true, _count: { select: { memberships: true } } },
+      orderBy: { name: "asc" },
+      take: 10,
+    });
 
-    return res.json({ users });
+    return res.json({
+      users,
+      groups: groups.map(({ _count, ...group }) => ({ ...group, memberCount: _count.memberships })),
+    });
   }));
 
   app.get("/drawings/:id/sharing", requireAuth, asyncHandler(async (req, res) => {
@@ -620,7 +970,7 @@ export const registerDrawingRoutes = (
       return res.status(404).json({ error: "Drawing not found" });
     }
 
-    const [permissions, linkShares] = await Promise.all([
+    const [permissions, groupPermissions, linkShares, transfer] = await Promise.all([
       prisma.drawingPermission.findMany({
         where: { drawingId: id },
         select: {
@@ -633,6 +983,11 @@ export const registerDrawingRoutes = (
         },
         orderBy: { createdAt: "desc" },
       }),
+      prisma.drawingGroupPermission.findMany({
+        where: { drawingId: id },
+        select: groupPermissionSelect,
+        orderBy: { createdAt: "desc" },
+      }),
       prisma.drawingLinkShare.findMany({
         where: { drawingId: id },
         select: {
@@ -646,20 +1001,81 @@ export const registerDrawingRoutes = (
         },
         orderBy: { createdAt: "desc" },
       }),
+      prisma.drawingTransfer.findUnique({
+        where: { drawingId: id },
+        select: { id: true, createdAt: true, toUser: { select: { id: true, name: true, email: true } } },
+      }),
     ]);
 
-    return res.json({ permissions, linkShares });
+    return res.json({ permissions, groupPermissions, linkShares, transfer });
   }));
 
   app.post("/drawings/:id/permissions", requireAuth, asyncHandler(async (req, res) => {
     if (!req.user) return res.status(401).json({ error: "Unauthorized" });
     const { id } = req.params;
 
-    const drawing = await prisma.drawing.findUnique({ where: { id }, select: { userId: true } });
+    const drawing = await prisma.drawing.findUnique({
+      where: { id },
+      select: { userId: true, name: true },
+    });
     if (!drawing || drawing.userId !== req.user.id) {
       return res.status(404).json({ error: "Drawing not found" });
     }
 
+    const granteeGroupId =
+      typeof req.body?.granteeGroupId === "string" ? req.body.granteeGroupId : null;
+    if (granteeGroupId) {
+      const groupPermission = normalizeDrawingPermission(req.body?.permission);
+      if (!groupPermission) {
+        return res.status(400).json({ error: "Validation error", message: "Invalid grantee or permission" });
+      }
+      const group = await prisma.group.findUnique({
+        where: { id: granteeGroupId },
+        select: { id: true, name: true, memberships: { select: { userId: true } } },
+      });
+      if (!group) {
+        return res.status(404).json({ error: "Group not found" });
+      }
+
+      const savedGroupPermission = await prisma.drawingGroupPermission.upsert({
+        where: { drawingId_groupId: { drawingId: id, groupId: granteeGroupId } },
+        update: { permission: groupPermission, createdByUserId: req.user.id },
+        create: {
+          drawingId: id,
+          groupId: granteeGroupId,
+          permission: groupPermission,
+          createdByUserId: req.user.id,
+        },
+        select: groupPermissionSelect,
+      });
+
+      invalidateDrawingsCache();
+      publishDrawingAccessChange([id]);
+
+      if (config.enableAuditLogging) {
+        await logAuditEvent({
+          userId: req.user.id,
+          action: "drawing_shared_group_upsert",
+          resource: `drawing:${id}`,
+          ipAddress: req.ip || req.connection.remoteAddress || undefined,
+          userAgent: req.headers["user-agent"] || undefined,
+          details: { drawingId: id, groupId: granteeGroupId, permission: groupPermission },
+        });
+      }
+
+      await notify(
+        group.memberships.map((membership) => ({
+          userId: membership.userId,
+          type: "drawing_shared" as const,
+          actorUserId: req.user?.id,
+          drawingId: id,
+          data: { drawingName: drawing.name, permission: groupPermission, groupName: group.name },
+        }))
+      );
+
+      return res.json({ groupPermission: savedGroupPermission });
+    }
+
     const granteeUserId = typeof req.body?.granteeUserId === "string" ? req.body.granteeUserId : null;
     const permission = normalizeDrawingPermission(req.body?.permission);
     if (!granteeUserId || !permission) {
@@ -694,6 +1110,7 @@ export const registerDrawingRoutes = (
     });
 
     invalidateDrawingsCache();
+    publishDrawingAccessChange([id]);
 
     if (config.enableAuditLogging) {
       await logAuditEvent({
@@ -706,6 +1123,16 @@ export const registerDrawingRoutes = (
       });
     }
 
+    await notify([
+      {
+        userId: granteeUserId,
+        type: "drawing_shared",
+        actorUserId: req.user.id,
+        drawingId: id,
+        data: { drawingName: drawing.name, permission },
+      },
+    ]);
+
     return res.json({ permission: saved });
   }));
 
@@ -713,20 +1140,38 @@ export const registerDrawingRoutes = (
     if (!req.user) return res.status(401).json({ error: "Unauthorized" });
     const { id, permId } = req.params;
 
-    const drawing = await prisma.drawing.findUnique({ where: { id }, select: { userId: true } });
+    const drawing = await prisma.drawing.findUnique({
+      where: { id },
+      select: { userId: true, name: true },
+    });
     if (!drawing || drawing.userId !== req.user.id) {
       return res.status(404).json({ error: "Drawing not found" });
     }
 
-    await prisma.drawingPermission.deleteMany({
-      where: { id: permId, drawingId: id },
-    });
+    // Looked up before revoking so the people who lose access can be told.
+    const [userGrant, groupGrant] = await Promise.all([
+      prisma.drawingPermission.findFirst({
+        where: { id: permId, drawingId: id },
+        select: { granteeUserId: true },
+      }),
+      prisma.drawingGroupPermission.findFirst({
+        where: { id: permId, drawingId: id },
+        select: { group: { select: { name: true, memberships: { select: { userId: true } } } } },
+      }),
+    ]);
+
+    // Permission ids are unique across both tables, so one id revokes either a user or a group grant.
+    const [, revokedGroupGrants] = await Promise.all([
+      prisma.drawingPermission.deleteMany({ where: { id: permId, drawingId: id } }),
+      prisma.drawingGroupPermission.deleteMany({ where: { id: permId, drawingId: id } }),
+    ]);
     invalidateDrawingsCache();
+    publishDrawingAccessChange([id]);
 
     if (config.enableAuditLogging) {
       await logAuditEvent({
         userId: req.user.id,
-        action: "drawing_shared_user_revoke",
+        action: revokedGroupGrants.count > 0 ? "drawing_shared_group_revoke" : "drawing_shared_user_revoke",
         resource: `drawing:${id}`,
         ipAddress: req.ip || req.connection.remoteAddress || undefined,
         userAgent: req.headers["user-agent"] || undefined,
@@ -734,6 +1179,20 @@ export const registerDrawingRoutes = (
       });
     }
 
+    const revokedUserIds = [
+      ...(userGrant ? [userGrant.granteeUserId] : []),
+      ...(groupGrant?.group.memberships.map((membership) => membership.userId) ?? []),
+    ];
+    await notify(
+      revokedUserIds.map((userId) => ({
+        userId,
+        type: "drawing_unshared" as const,
+        actorUserId: req.user?.id,
+        drawingId: id,
+        data: { drawingName: drawing.name, groupName: groupGrant?.group.name ?? null },
+      }))
+    );
+
     return res.json({ success: true });
   }));
 
@@ -805,6 +1264,8 @@ export const registerDrawingRoutes = (
       },
     });
 
+    publishDrawingAccessChange([id]);
+
     if (config.enableAuditLogging) {
       await logAuditEvent({
         userId: req.user.id,
@@ -832,6 +1293,7 @@ export const registerDrawingRoutes = (
       where: { id: shareId, drawingId: id, revokedAt: null },
       data: { revokedAt: new Date() },
     });
+    publishDrawingAccessChange([id]);
 
     if (config.enableAuditLogging) {
       await logAuditEvent({
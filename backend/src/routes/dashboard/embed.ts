@@ -0,0 +1,99 @@
+import crypto from "crypto";
+import express from "express";
+import { DashboardRouteDeps } from "./types";
+import { getRequestPrincipal } from "./principal";
+import { canViewDrawing, getDrawingAccess } from "../../authz/sharing";
+import { toDarkModeColor } from "../../server/drawingRender";
+import {
+  buildFrameAncestorsDirective,
+  getEmbedFrameAncestors,
+  renderEmbedPage,
+  renderEmbedUnavailablePage,
+} from "../../server/embed";
+
+const HEX_COLOR_PATTERN = /^#[0-9a-f]{3,8}$/i;
+const MAX_FRAME_ID_LENGTH = 200;
+
+export const registerEmbedRoutes = (
+  app: express.Express,
+  deps: DashboardRouteDeps
+) => {
+  const { prisma, optionalAuth, asyncHandler, parseJsonField } = deps;
+
+  /** Replaces the API's `frame-ancestors 'none'` policy with the admin allowlist for one page. */
+  const setEmbedHeaders = (res: express.Response, frameAncestors: string, nonce: string) => {
+    res.removeHeader("X-Frame-Options");
+    res.setHeader(
+      "Content-Security-Policy",
+      [
+        "default-src 'none'",
+        `script-src 'self' 'nonce-${nonce}'`,
+        `style-src 'nonce-${nonce}'`,
+        "img-src 'self' data: blob:",
+        "connect-src 'self'",
+        "base-uri 'none'",
+        "form-action 'none'",
+        `frame-ancestors ${frameAncestors}`,
+      ].join("; ")
+    );
+    res.setHeader("Cache-Control", "no-store");
+    res.setHeader("Content-Type", "text/html; charset=utf-8");
+  };
+
+  /**
+   * Policy lookup for the frontend's `/embed/:id` route: nginx calls this through `auth_request`
+   * and copies the header into the SPA shell's CSP, so both viewers share one allowlist.
+   */
+  app.get("/embed-policy", asyncHandler(async (_req, res) => {
+    const frameAncestors = await getEmbedFrameAncestors(prisma);
+    res.setHeader("X-Frame-Ancestors", buildFrameAncestorsDirective(frameAncestors));
+    res.setHeader("Cache-Control", "no-store");
+    return res.status(204).end();
+  }));
+
+  /**
+   * `GET /embed/:id?theme=dark&frameId=` serves a chromeless, read-only viewer that sites on the
+   * admin allowlist may frame. Access follows the drawing's sharing, so anonymous visitors need
+   * an active link share.
+   */
+  app.get("/embed/:id", optionalAuth, asyncHandler(async (req, res) => {
+    const { id } = req.params;
+    const nonce = crypto.randomBytes(16).toString("base64");
+    setEmbedHeaders(res, buildFrameAncestorsDirective(await getEmbedFrameAncestors(prisma)), nonce);
+
+    const principal = await getRequestPrincipal(req);
+    const access = await getDrawingAccess({ prisma, principal, drawingId: id });
+    const drawing = canViewDrawing(access)
+      ? await prisma.drawing.findUnique({ where: { id }, select: { name: true, appState: true } })
+      : null;
+    if (!drawing) {
+      return res.status(404).send(renderEmbedUnavailablePage());
+    }
+
+    const darkMode = req.query.theme === "dark";
+    const frameId =
+      typeof req.query.frameId === "string" && req.query.frameId.length <= MAX_FRAME_ID_LENGTH
+        ? req.query.frameId
+        : null;
+    const renderQuery = new URLSearchParams();
+    if (darkMode) renderQuery.set("darkMode", "true");
+    if (frameId) renderQuery.set("frameId", frameId);
+    const query = renderQuery.toString();
+
+    const appState = parseJsonField<Record<string, unknown>>(drawing.appState, {});
+    const viewBackground =
+      typeof appState.viewBackgroundColor === "string" && HEX_COLOR_PATTERN.test(appState.viewBackgroundColor)
+        ? appState.viewBackgroundColor
+        : "#ffffff";
+
+    return res.send(
+      renderEmbedPage({
+        drawingId: id,
+        name: drawing.name,
+        renderUrl: `../drawings/${encodeURIComponent(id)}/render.svg${query ? `?${query}` : ""}`,
+        backgroundColor: darkMode ? toDarkModeColor(viewBackground) : viewBackground,
+        nonce,
+      })
+    );
+  }));
+};
@@ -0,0 +1,130 @@
+import express from "express";
+import { DashboardRouteDeps } from "./types";
+import { getRequestPrincipal } from "./principal";
+import {
+  DRAWING_FILE_MIME_TYPES,
+  hashFileBytes,
+  isDrawingFileHash,
+} from "../../server/drawingFiles";
+
+const MAX_DRAWING_FILE_BYTES = 10 * 1024 * 1024;
+const SWEEPS_LISTED = 5;
+
+export const registerFileRoutes = (
+  app: express.Express,
+  deps: DashboardRouteDeps
+) => {
+  const {
+    prisma,
+    requireAuth,
+    requireAuthOrApiKey,
+    optionalAuthOrApiKey,
+    asyncHandler,
+    drawingFileStore,
+    fileSweepJob,
+    config,
+    logAuditEvent,
+  } = deps;
+
+  const readRawBody = express.raw({ type: () => true, limit: MAX_DRAWING_FILE_BYTES });
+
+  const listSweeps = () =>
+    prisma.fileSweep.findMany({
+      orderBy: { finishedAt: "desc" },
+      take: SWEEPS_LISTED,
+      include: {
+        users: {
+          include: { user: { select: { id: true, name: true, email: true } } },
+          orderBy: { bytesReclaimed: "desc" },
+        },
+      },
+    });
+
+  // Registered before /files/:hash so "sweeps" is not taken for a hash.
+  app.get("/files/sweeps", requireAuth, asyncHandler(async (req, res) => {
+    if (!req.user) return res.status(401).json({ error: "Unauthorized" });
+    if (req.user.role !== "ADMIN") {
+      return res.status(403).json({ error: "Forbidden", message: "Admin access required" });
+    }
+    return res.json({ running: fileSweepJob.isRunning(), sweeps: await listSweeps() });
+  }));
+
+  app.post("/files/sweeps", requireAuth, asyncHandler(async (req, res) => {
+    if (!req.user) return res.status(401).json({ error: "Unauthorized" });
+    if (req.user.role !== "ADMIN") {
+      return res.status(403).json({ error: "Forbidden", message: "Admin access required" });
+    }
+
+    const report = await fileSweepJob.sweepOrphanedFiles("admin");
+    if (config.enableAuditLogging) {
+      await logAuditEvent({
+        userId: req.user.id,
+        action: "admin_file_sweep_run",
+        resource: `file_sweep:${report.id}`,
+        ipAddress: req.ip || req.connection.remoteAddress || undefined,
+        userAgent: req.headers["user-agent"] || undefined,
+        details: {
+          filesPruned: report.filesPruned,
+          bytesReclaimed: report.bytesReclaimed,
+          blobsDeleted: report.blobsDeleted,
+          blobBytesDeleted: report.blobBytesDeleted,
+        },
+      });
+    }
+    return res.json({ running: false, sweeps: await listSweeps() });
+  }));
+
+  app.put("/files/:hash", requireAuthOrApiKey, readRawBody, asyncHandler(async (req, res) => {
+    if (!req.user) return res.status(401).json({ error: "Unauthorized" });
+
+    const { hash } = req.params;
+    if (!isDrawingFileHash(hash)) {
+      return res.status(400).json({ error: "Validation error", message: "Invalid file hash" });
+    }
+    const mimeType = String(req.headers["content-type"] || "").split(";")[0].trim().toLowerCase();
+    // SVGs are rewritten by the sanitizer, so their stored bytes cannot match a client-side hash.
+    if (!DRAWING_FILE_MIME_TYPES.has(mimeType) || mimeType === "image/svg+xml") {
+      return res.status(400).json({ error: "Validation error", message: "Unsupported image type" });
+    }
+    const bytes = Buffer.isBuffer(req.body) ? req.body : null;
+    if (!bytes || bytes.length === 0) {
+      return res.status(400).json({ error: "Validation error", message: "File body is empty" });
+    }
+    if (hashFileBytes(bytes) !== hash) {
+      return res.status(400).json({
+        error: "Validation error",
+        message: "File contents do not match the hash",
+      });
+    }
+
+    const stored = await drawingFileStore.putFile({ bytes, mimeType, createdByUserId: req.user.id });
+    return res.json(stored);
+  }));
+
+  app.get("/files/:hash", optionalAuthOrApiKey, asyncHandler(async (req, res) => {
+    const { hash } = req.params;
+    if (!isDrawingFileHash(hash)) return res.status(404).json({ error: "File not found" });
+
+    const record = await prisma.drawingFile.findUnique({
+      where: { hash },
+      select: { hash: true, createdByUserId: true },
+    });
+    const principal = await getRequestPrincipal(req);
+    const drawingIdHint = typeof req.query.drawingId === "string" ? req.query.drawingId : null;
+    if (!record || !(await drawingFileStore.canReadFile(principal, record, drawingIdHint))) {
+      return res.status(404).json({ error: "File not found" });
+    }
+
+    const etag = `"${hash}"`;
+    res.setHeader("ETag", etag);
+    res.setHeader("Cache-Control", "private, max-age=31536000, immutable");
+    if (req.headers["if-none-match"] === etag) return res.status(304).end();
+
+    const file = await drawingFileStore.readFile(hash);
+    if (!file) return res.status(404).json({ error: "File not found" });
+
+    res.setHeader("Content-Type", file.mimeType);
+    res.setHeader("Content-Length", String(file.bytes.length));
+    return res.end(file.bytes);
+  }));
+};
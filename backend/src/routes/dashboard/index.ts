@@ -1,7 +1,19 @@
 import express from "express";
 import { registerCollectionRoutes } from "./collections";
+import { registerCollectionSharingRoutes } from "./collectionSharing";
+import { registerCommentRoutes } from "./comments";
 import { registerDrawingRoutes } from "./drawings";
+import { registerEmbedRoutes } from "./embed";
+import { registerFileRoutes } from "./files";
 import { registerLibraryRoutes } from "./library";
+import { registerNotificationRoutes } from "./notifications";
+import { registerRenderRoutes } from "./render";
+import { registerRevisionRoutes } from "./revisions";
+import { registerStarRoutes } from "./stars";
+import { registerTagRoutes } from "./tags";
+import { registerTemplateRoutes } from "./templates";
+import { registerTrashRoutes } from "./trash";
+import { registerTransferRoutes } from "./transfers";
 import { DashboardRouteDeps } from "./types";
 
 export const registerDashboardRoutes = (
@@ -9,7 +21,19 @@ export const registerDashboardRoutes = (
   deps: DashboardRouteDeps
 ) => {
   registerDrawingRoutes(app, deps);
+  registerRevisionRoutes(app, deps);
+  registerRenderRoutes(app, deps);
+  registerEmbedRoutes(app, deps);
+  registerCommentRoutes(app, deps);
+  registerTrashRoutes(app, deps);
+  registerTransferRoutes(app, deps);
+  registerNotificationRoutes(app, deps);
+  registerTemplateRoutes(app, deps);
   registerCollectionRoutes(app, deps);
+  registerCollectionSharingRoutes(app, deps);
+  registerTagRoutes(app, deps);
+  registerStarRoutes(app, deps);
+  registerFileRoutes(app, deps);
   registerLibraryRoutes(app, deps);
 };
 
@@ -0,0 +1,55 @@
+import express from "express";
+import { DashboardRouteDeps } from "./types";
+import { notificationSelect, serializeNotification } from "../../server/notifications";
+
+const NOTIFICATION_PAGE_SIZE = 50;
+
+export const registerNotificationRoutes = (
+  app: express.Express,
+  deps: DashboardRouteDeps
+) => {
+  const { prisma, requireAuth, asyncHandler } = deps;
+
+  const countUnread = (userId: string) =>
+    prisma.notification.count({ where: { userId, readAt: null } });
+
+  app.get("/notifications", requireAuth, asyncHandler(async (req, res) => {
+    if (!req.user) return res.status(401).json({ error: "Unauthorized" });
+    const unreadOnly = req.query.unread === "true";
+
+    const [notifications, unreadCount] = await Promise.all([
+      prisma.notification.findMany({
+        where: { userId: req.user.id, ...(unreadOnly ? { readAt: null } : {}) },
+        select: notificationSelect,
+        orderBy: { createdAt: "desc" },
+        take: NOTIFICATION_PAGE_SIZE,
+      }),
+      countUnread(req.user.id),
+    ]);
+    return res.json({ notifications: notifications.map(serializeNotification), unreadCount });
+  }));
+
+  app.post("/notifications/read-all", requireAuth, asyncHandler(async (req, res) => {
+    if (!req.user) return res.status(401).json({ error: "Unauthorized" });
+    await prisma.notification.updateMany({
+      where: { userId: req.user.id, readAt: null },
+      data: { readAt: new Date() },
+    });
+    return res.json({ unreadCount: 0 });
+  }));
+
+  app.post("/notifications/:id/read", requireAuth, asyncHandler(async (req, res) => {
+    if (!req.user) return res.status(401).json({ error: "Unauthorized" });
+    const { id } = req.params;
+
+    const notification = await prisma.notification.findFirst({
+      where: { id, userId: req.user.id },
+      select: { id: true, readAt: true },
+    });
+    if (!notification) return res.status(404).json({ error: "Notification not found" });
+    if (!notification.readAt) {
+      await prisma.notification.update({ where: { id }, data: { readAt: new Date() } });
+    }
+    return res.json({ unreadCount: await countUnread(req.user.id) });
+  }));
+};
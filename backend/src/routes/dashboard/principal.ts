@@ -0,0 +1,11 @@
+import express from "express";
+import type { DrawingPrincipal } from "../../authz/sharing";
+
+export const getRequestPrincipal = async (
+  req: express.Request
+): Promise<DrawingPrincipal | null> => {
+  if (req.user?.id) {
+    return { kind: "user", userId: req.user.id };
+  }
+  return null;
+};
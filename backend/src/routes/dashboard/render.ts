@@ -0,0 +1,124 @@
+import express from "express";
+import { DashboardRouteDeps } from "./types";
+import { getRequestPrincipal } from "./principal";
+import { parseBooleanFlag } from "./stars";
+import { canViewDrawing, getDrawingAccess } from "../../authz/sharing";
+import {
+  DrawingRenderOptions,
+  MAX_PNG_PIXELS,
+  MAX_RENDER_SCALE,
+  MIN_RENDER_SCALE,
+  rasterizeSvg,
+  renderDrawingSvg,
+} from "../../server/drawingRender";
+
+const parseRenderOptions = (query: express.Request["query"]): DrawingRenderOptions | null => {
+  const scale = query.scale === undefined ? 1 : Number(query.scale);
+  if (!Number.isFinite(scale) || scale < MIN_RENDER_SCALE || scale > MAX_RENDER_SCALE) return null;
+  if (query.frameId !== undefined && (typeof query.frameId !== "string" || query.frameId.length === 0)) {
+    return null;
+  }
+  return {
+    scale,
+    background: query.background === undefined ? true : parseBooleanFlag(query.background),
+    darkMode: parseBooleanFlag(query.darkMode),
+    frameId: typeof query.frameId === "string" ? query.frameId : null,
+  };
+};
+
+export const registerRenderRoutes = (
+  app: express.Express,
+  deps: DashboardRouteDeps
+) => {
+  const { prisma, optionalAuthOrApiKey, asyncHandler, parseJsonField, drawingFileStore, drawingRenderCache } = deps;
+
+  /** Inlines the image bytes of every image element; stored files are read back from disk. */
+  const loadImageFiles = async (elements: unknown, files: Record<string, any>) => {
+    const fileIds = new Set<string>();
+    for (const element of Array.isArray(elements) ? elements : []) {
+      if (element?.type === "image" && !element.isDeleted && typeof element.fileId === "string") {
+        fileIds.add(element.fileId);
+      }
+    }
+
+    const loaded: Record<string, unknown> = {};
+    for (const fileId of fileIds) {
+      const entry = files[fileId];
+      if (typeof entry?.dataURL === "string") {
+        loaded[fileId] = entry;
+        continue;
+      }
+      const stored = typeof entry?.hash === "string" ? await drawingFileStore.readFile(entry.hash) : null;
+      if (stored) {
+        loaded[fileId] = { ...entry, dataURL: `data:${stored.mimeType};base64,${stored.bytes.toString("base64")}` };
+      }
+    }
+    return loaded;
+  };
+
+  /**
+   * `GET /drawings/:id/render.svg|png?scale=&background=&darkMode=&frameId=` renders the saved
+   * scene on the server, for API clients that have no browser. Bodies are cached per drawing
+   * version and options; access is checked on every request, so link shares work as usual.
+   */
+  app.get("/drawings/:id/render.:format", optionalAuthOrApiKey, asyncHandler(async (req, res) => {
+    const { id, format } = req.params;
+    if (format !== "svg" && format !== "png") {
+      return res.status(404).json({ error: "Not found", message: "Supported formats are svg and png" });
+    }
+    const options = parseRenderOptions(req.query);
+    if (!options) {
+      return res.status(400).json({
+        error: "Validation error",
+        message: `scale must be between ${MIN_RENDER_SCALE} and ${MAX_RENDER_SCALE} and frameId a frame id`,
+      });
+    }
+
+    const principal = await getRequestPrincipal(req);
+    const access = await getDrawingAccess({ prisma, principal, drawingId: id });
+    if (!canViewDrawing(access)) {
+      return res.status(404).json({ error: "Drawing not found", message: "Drawing does not exist" });
+    }
+    const drawing = await prisma.drawing.findUnique({
+      where: { id },
+      select: { version: true, elements: true, appState: true, files: true },
+    });
+    if (!drawing) {
+      return res.status(404).json({ error: "Drawing not found", message: "Drawing does not exist" });
+    }
+
+    const cacheKey = drawingRenderCache.buildKey({ drawingId: id, version: drawing.version, format, options });
+    const etag = drawingRenderCache.getETag(cacheKey);
+    res.setHeader("ETag", etag);
+    res.setHeader("Cache-Control", "private, no-cache");
+    if (req.headers["if-none-match"] === etag) return res.status(304).end();
+
+    let body = drawingRenderCache.get(cacheKey);
+    if (!body) {
+      const elements = parseJsonField<unknown>(drawing.elements, []);
+      const rendered = renderDrawingSvg(
+        {
+          elements,
+          appState: parseJsonField(drawing.appState, {}),
+          files: await loadImageFiles(elements, parseJsonField(drawing.files, {})),
+        },
+        options
+      );
+      if (!rendered) {
+        return res.status(404).json({ error: "Frame not found", message: "The drawing has no frame with that id" });
+      }
+      if (format === "png" && rendered.width * rendered.height > MAX_PNG_PIXELS) {
+        return res.status(400).json({
+          error: "Validation error",
+          message: "The rendered image is too large; use a smaller scale",
+        });
+      }
+      body = format === "svg" ? Buffer.from(rendered.svg) : await rasterizeSvg(rendered.svg);
+      drawingRenderCache.set(cacheKey, body);
+    }
+
+    res.setHeader("Content-Type", format === "svg" ? "image/svg+xml; charset=utf-8" : "image/png");
+    res.setHeader("Content-Length", String(body.length));
+    return res.end(body);
+  }));
+};
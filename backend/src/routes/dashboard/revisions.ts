@@ -0,0 +1,267 @@
+import express from "express";
+import { DashboardRouteDeps } from "./types";
+import { getRequestPrincipal } from "./principal";
+import { toPublicTrashCollectionId } from "./trash";
+import { canEditDrawing, canViewDrawing, getDrawingAccess } from "../../authz/sharing";
+import { buildRestoredElements } from "../../server/drawingRevisions";
+import { diffSceneElements } from "../../server/drawingDiff";
+
+const parseRevisionNumber = (raw: unknown): number | null => {
+  if (typeof raw !== "string" || !/^\d+$/.test(raw)) return null;
+  const parsed = Number(raw);
+  return Number.isSafeInteger(parsed) && parsed > 0 ? parsed : null;
+};
+
+export const registerRevisionRoutes = (
+  app: express.Express,
+  deps: DashboardRouteDeps
+) => {
+  const {
+    prisma,
+    optionalAuthOrApiKey,
+    asyncHandler,
+    parseJsonField,
+    invalidateDrawingsCache,
+    recordDrawingRevision,
+    drawingSearchIndex,
+    drawingFileStore,
+    config,
+    logAuditEvent,
+    publishDrawingSceneChange,
+  } = deps;
+
+  app.get("/drawings/:id/revisions", optionalAuthOrApiKey, asyncHandler(async (req, res) => {
+    const principal = await getRequestPrincipal(req);
+    const { id } = req.params;
+    const access = await getDrawingAccess({ prisma, principal, drawingId: id });
+    if (!canViewDrawing(access)) {
+      return res.status(404).json({ error: "Drawing not found" });
+    }
+
+    const revisions = await prisma.drawingRevision.findMany({
+      where: { drawingId: id },
+      orderBy: { version: "desc" },
+      select: {
+        id: true,
+        version: true,
+        name: true,
+        createdByUserId: true,
+        createdAt: true,
+        updatedAt: true,
+      },
+    });
+
+    const authorIds = Array.from(
+      new Set(
+        revisions
+          .map((revision) => revision.createdByUserId)
+          .filter((userId): userId is string => typeof userId === "string")
+      )
+    );
+    const authors = authorIds.length
+      ? await prisma.user.findMany({
+          where: { id: { in: authorIds } },
+          select: { id: true, name: true },
+        })
+      : [];
+    const authorsById = new Map(authors.map((author) => [author.id, author]));
+
+    return res.json({
+      revisions: revisions.map(({ createdByUserId, ...revision }) => ({
+        ...revision,
+        createdBy: createdByUserId ? authorsById.get(createdByUserId) ?? null : null,
+      })),
+    });
+  }));
+
+  app.get("/drawings/:id/revisions/:rev", optionalAuthOrApiKey, asyncHandler(async (req, res) => {
+    const principal = await getRequestPrincipal(req);
+    const { id } = req.params;
+    const access = await getDrawingAccess({ prisma, principal, drawingId: id });
+    if (!canViewDrawing(access)) {
+      return res.status(404).json({ error: "Drawing not found" });
+    }
+
+    const version = parseRevisionNumber(req.params.rev);
+    if (version === null) {
+      return res.status(400).json({ error: "Validation error", message: "Invalid revision" });
+    }
+
+    const revision = await prisma.drawingRevision.findUnique({
+      where: { drawingId_version: { drawingId: id, version } },
+    });
+    if (!revision) {
+      return res.status(404).json({ error: "Revision not found" });
+    }
+
+    const { createdByUserId, ...rest } = revision;
+    const createdBy = createdByUserId
+      ? await prisma.user.findUnique({
+          where: { id: createdByUserId },
+          select: { id: true, name: true },
+        })
+      : null;
+
+    return res.json({
+      ...rest,
+      createdBy,
+      elements: parseJsonField(revision.elements, []),
+      appState: parseJsonField(revision.appState, {}),
+      files: parseJsonField(revision.files, {}),
+    });
+  }));
+
+  // Compares two stored snapshots. `to` defaults to the live drawing when omitted or "current".
+  app.get("/drawings/:id/diff", optionalAuthOrApiKey, asyncHandler(async (req, res) => {
+    const principal = await getRequestPrincipal(req);
+    const { id } = req.params;
+    const access = await getDrawingAccess({ prisma, principal, drawingId: id });
+    if (!canViewDrawing(access)) {
+      return res.status(404).json({ error: "Drawing not found" });
+    }
+
+    const fromVersion = parseRevisionNumber(req.query.from);
+    const toRaw = req.query.to;
+    const toCurrent = toRaw === undefined || toRaw === "current";
+    const toVersion = toCurrent ? null : parseRevisionNumber(toRaw);
+    if (fromVersion === null || (!toCurrent && toVersion === null)) {
+      return res.status(400).json({
+        error: "Validation error",
+        message: "from must be a revision number and to a revision number or \"current\"",
+      });
+    }
+
+    const [fromSnapshot, toSnapshot] = await Promise.all([
+      prisma.drawingRevision.findUnique({
+        where: { drawingId_version: { drawingId: id, version: fromVersion } },
+        select: { version: true, elements: true },
+      }),
+      toVersion === null
+        ? prisma.drawing.findUnique({
+            where: { id },
+            select: { version: true, elements: true },
+          })
+        : prisma.drawingRevision.findUnique({
+            where: { drawingId_version: { drawingId: id, version: toVersion } },
+            select: { version: true, elements: true },
+          }),
+    ]);
+    if (!fromSnapshot || !toSnapshot) {
+      return res.status(404).json({ error: "Revision not found" });
+    }
+
+    return res.json({
+      from: fromSnapshot.version,
+      to: toSnapshot.version,
+      ...diffSceneElements(
+        parseJsonField<unknown[]>(fromSnapshot.elements, []),
+        parseJsonField<unknown[]>(toSnapshot.elements, [])
+      ),
+    });
+  }));
+
+  app.post("/drawings/:id/revisions/:rev/restore", optionalAuthOrApiKey, asyncHandler(async (req, res) => {
+    const principal = await getRequestPrincipal(req);
+    const { id } = req.params;
+    const access = await getDrawingAccess({ prisma, principal, drawingId: id });
+    if (!canEditDrawing(access)) {
+      return res.status(404).json({ error: "Drawing not found" });
+    }
+
+    const version = parseRevisionNumber(req.params.rev);
+    if (version === null) {
+      return res.status(400).json({ error: "Validation error", message: "Invalid revision" });
+    }
+    const expectedVersionRaw = req.body?.version;
+    if (
+      expectedVersionRaw !== undefined &&
+      (!Number.isInteger(expectedVersionRaw) || expectedVersionRaw < 1)
+    ) {
+      return res.status(400).json({ error: "Validation error", message: "Invalid version" });
+    }
+
+    const [drawing, revision] = await Promise.all([
+      prisma.drawing.findUnique({ where: { id } }),
+      prisma.drawingRevision.findUnique({
+        where: { drawingId_version: { drawingId: id, version } },
+      }),
+    ]);
+    if (!drawing) return res.status(404).json({ error: "Drawing not found" });
+    if (!revision) return res.status(404).json({ error: "Revision not found" });
+
+    const expectedVersion: number = expectedVersionRaw ?? drawing.version;
+    const restoredElements = buildRestoredElements(
+      parseJsonField<unknown[]>(drawing.elements, []),
+      parseJsonField<unknown[]>(revision.elements, [])
+    );
+
+    const updateResult = await prisma.drawing.updateMany({
+      where: { id, version: expectedVersion },
+      data: {
+        elements: JSON.stringify(restoredElements),
+        appState: revision.appState,
+        files: revision.files,
+        // The stored thumbnail describes the replaced scene; let the next editor save regenerate it.
+        preview: null,
+        version: { increment: 1 },
+      },
+    });
+    if (updateResult.count === 0) {
+      const latestDrawing = await prisma.drawing.findFirst({
+        where: { id },
+        select: { version: true },
+      });
+      return res.status(409).json({
+        error: "Conflict",
+        code: "VERSION_CONFLICT",
+        message: "Drawing has changed since this editor state was loaded.",
+        currentVersion: latestDrawing?.version ?? null,
+      });
+    }
+
+    const restoredDrawing = await prisma.drawing.findUnique({ where: { id } });
+    if (!restoredDrawing) return res.status(404).json({ error: "Drawing not found" });
+    await drawingFileStore.syncDrawingFileRefs(id, restoredDrawing.files);
+    invalidateDrawingsCache();
+
+    try {
+      await recordDrawingRevision({
+        drawing: restoredDrawing,
+        previous: drawing,
+        createdByUserId: principal?.userId ?? null,
+        forceNew: true,
+      });
+    } catch (error) {
+      console.error("Failed to record drawing revision", { drawingId: id, error });
+    }
+    await drawingSearchIndex.indexDrawing(restoredDrawing);
+    publishDrawingSceneChange(id);
+
+    if (config.enableAuditLogging && principal) {
+      await logAuditEvent({
+        userId: principal.userId,
+        action: "drawing_revision_restored",
+        resource: `drawing:${id}`,
+        ipAddress: req.ip || req.connection.remoteAddress || undefined,
+        userAgent: req.headers["user-agent"] || undefined,
+        details: {
+          drawingId: id,
+          restoredFromVersion: version,
+          newVersion: restoredDrawing.version,
+        },
+      });
+    }
+
+    const isOwner = principal?.userId === restoredDrawing.userId;
+    return res.json({
+      ...restoredDrawing,
+      collectionId: isOwner
+        ? toPublicTrashCollectionId(restoredDrawing.collectionId, restoredDrawing.userId)
+        : null,
+      elements: parseJsonField(restoredDrawing.elements, []),
+      appState: parseJsonField(restoredDrawing.appState, {}),
+      files: parseJsonField(restoredDrawing.files, {}),
+      accessLevel: access,
+    });
+  }));
+};
@@ -0,0 +1,61 @@
+import { Prisma, PrismaClient } from "../../generated/client";
+import type { DrawingSearchMatch } from "../../server/drawingSearchIndex";
+import type { SortDirection } from "./types";
+
+/** Matches drawings by name substring or by any hit in the content index. */
+export const buildDrawingSearchFilter = (
+  searchTerm: string,
+  matches: Map<string, DrawingSearchMatch>
+): Prisma.DrawingWhereInput => ({
+  OR: [{ name: { contains: searchTerm } }, { id: { in: Array.from(matches.keys()) } }],
+});
+
+/**
+ * Pages through drawings ordered by search rank. Name-only matches (no index hit) sort
+ * after indexed hits; ties fall back to the most recently updated drawing.
+ */
+export const findDrawingsByRelevance = async (
+  prisma: PrismaClient,
+  params: {
+    where: Prisma.DrawingWhereInput;
+    matches: Map<string, DrawingSearchMatch>;
+    sortDirection: SortDirection;
+    select?: Prisma.DrawingSelect;
+    include?: Prisma.DrawingInclude;
+    take?: number;
+    skip?: number;
+  }
+): Promise<{ drawings: any[]; totalCount: number }> => {
+  const candidates = await prisma.drawing.findMany({
+    where: params.where,
+    select: { id: true, updatedAt: true },
+  });
+  const rankOf = (id: string) => params.matches.get(id)?.rank ?? Number.POSITIVE_INFINITY;
+  candidates.sort((a, b) => {
+    const byRank = rankOf(a.id) - rankOf(b.id);
+    if (byRank !== 0 && !Number.isNaN(byRank)) return byRank;
+    return b.updatedAt.getTime() - a.updatedAt.getTime();
+  });
+  if (params.sortDirection === "asc") candidates.reverse();
+
+  const start = params.skip ?? 0;
+  const pageIds = candidates
+    .slice(start, params.take === undefined ? undefined : start + params.take)
+    .map((candidate) => candidate.id);
+  const pageQuery: Prisma.DrawingFindManyArgs = { where: { id: { in: pageIds } } };
+  if (params.select) pageQuery.select = params.select;
+  else if (params.include) pageQuery.include = params.include;
+  const rows = pageIds.length ? await prisma.drawing.findMany(pageQuery) : [];
+  const rowsById = new Map((rows as any[]).map((row) => [row.id as string, row]));
+
+  return {
+    drawings: pageIds.map((id) => rowsById.get(id)).filter(Boolean),
+    totalCount: candidates.length,
+  };
+};
+
+export const toSearchResult = (match: DrawingSearchMatch | undefined) => ({
+  rank: match?.rank ?? null,
+  matchedElementIds: match?.matchedElementIds ?? [],
+  snippets: match?.snippets ?? [],
+});
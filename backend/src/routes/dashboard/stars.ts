@@ -0,0 +1,113 @@
+import express from "express";
+import { Prisma, PrismaClient } from "../../generated/client";
+import { DashboardRouteDeps } from "./types";
+import { getRequestPrincipal } from "./principal";
+import { canViewDrawing, getDrawingAccess } from "../../authz/sharing";
+
+/** Reads a boolean list flag such as `?starred=true` or `?pinStarred=1`. */
+export const parseBooleanFlag = (value: unknown): boolean =>
+  typeof value === "string" && (value.toLowerCase() === "true" || value === "1");
+
+export const buildStarredWhere = (userId: string): Prisma.DrawingWhereInput => ({
+  stars: { some: { userId } },
+});
+
+export const buildDrawingStarsSelect = (userId: string) =>
+  ({
+    where: { userId },
+    select: { userId: true },
+  }) satisfies Prisma.Drawing$starsArgs;
+
+/** Replaces the caller's star rows Prisma returns with a `starred` flag. */
+export const flattenDrawingStar = <T extends { stars?: unknown }>(drawing: T) => {
+  const { stars, ...rest } = drawing;
+  return { ...rest, starred: Array.isArray(stars) && stars.length > 0 };
+};
+
+/**
+ * Pages through drawings with the caller's starred ones first; each group keeps `orderBy`.
+ * Starred drawings are a handful per user, so this is two bounded queries per page.
+ */
+export const findDrawingsStarredFirst = async (
+  prisma: PrismaClient,
+  params: {
+    userId: string;
+    where: Prisma.DrawingWhereInput;
+    orderBy: Prisma.DrawingOrderByWithRelationInput;
+    select?: Prisma.DrawingSelect;
+    include?: Prisma.DrawingInclude;
+    take?: number;
+    skip?: number;
+  }
+): Promise<{ drawings: any[]; totalCount: number }> => {
+  const starredWhere: Prisma.DrawingWhereInput = {
+    AND: [params.where, buildStarredWhere(params.userId)],
+  };
+  const otherWhere: Prisma.DrawingWhereInput = {
+    AND: [params.where, { stars: { none: { userId: params.userId } } }],
+  };
+  const [starredCount, otherCount] = await Promise.all([
+    prisma.drawing.count({ where: starredWhere }),
+    prisma.drawing.count({ where: otherWhere }),
+  ]);
+
+  const findPage = (where: Prisma.DrawingWhereInput, skip: number, take: number | undefined) => {
+    const query: Prisma.DrawingFindManyArgs = { where, orderBy: params.orderBy, skip, take };
+    if (params.select) query.select = params.select;
+    else if (params.include) query.include = params.include;
+    return prisma.drawing.findMany(query);
+  };
+
+  const skip = params.skip ?? 0;
+  const starred = skip < starredCount ? await findPage(starredWhere, skip, params.take) : [];
+  const remaining = params.take === undefined ? undefined : params.take - starred.length;
+  const others =
+    remaining === undefined || remaining > 0
+      ? await findPage(otherWhere, Math.max(0, skip - starredCount), remaining)
+      : [];
+
+  return { drawings: [...starred, ...others], totalCount: starredCount + otherCount };
+};
+
+export const registerStarRoutes = (
+  app: express.Express,
+  deps: DashboardRouteDeps
+) => {
+  const { prisma, requireAuthOrApiKey, asyncHandler, invalidateDrawingsCache } = deps;
+
+  const findViewableDrawing = async (req: express.Request, drawingId: string) => {
+    const principal = await getRequestPrincipal(req);
+    const access = await getDrawingAccess({ prisma, principal, drawingId });
+    return canViewDrawing(access);
+  };
+
+  // Stars are private to the caller and need only view access, so shared drawings can be starred too.
+  app.put("/drawings/:id/star", requireAuthOrApiKey, asyncHandler(async (req, res) => {
+    if (!req.user) return res.status(401).json({ error: "Unauthorized" });
+
+    const { id } = req.params;
+    if (!(await findViewableDrawing(req, id))) {
+      return res.status(404).json({ error: "Drawing not found" });
+    }
+
+    await prisma.drawingStar.upsert({
+      where: { userId_drawingId: { userId: req.user.id, drawingId: id } },
+      update: {},
+      create: { userId: req.user.id, drawingId: id },
+    });
+    invalidateDrawingsCache();
+
+    return res.json({ id, starred: true });
+  }));
+
+  // Unstarring never needs access: a star left on a drawing that is no longer shared can still go.
+  app.delete("/drawings/:id/star", requireAuthOrApiKey, asyncHandler(async (req, res) => {
+    if (!req.user) return res.status(401).json({ error: "Unauthorized" });
+
+    const { id } = req.params;
+    await prisma.drawingStar.deleteMany({ where: { userId: req.user.id, drawingId: id } });
+    invalidateDrawingsCache();
+
+    return res.json({ id, starred: false });
+  }));
+};
@@ -0,0 +1,236 @@
+import express from "express";
+import { z } from "zod";
+import { Prisma } from "../../generated/client";
+import { DashboardRouteDeps } from "./types";
+import { getRequestPrincipal } from "./principal";
+import { canViewDrawing, getDrawingAccess } from "../../authz/sharing";
+
+const tagNameSchema = z.string().trim().min(1).max(50);
+const tagColorSchema = z
+  .string()
+  .regex(/^#[0-9a-fA-F]{6}$/)
+  .nullable();
+const MAX_TAGS_PER_DRAWING = 50;
+
+export type TagMatchMode = "any" | "all";
+
+export type DrawingTagFilter = {
+  tagIds: string[];
+  mode: TagMatchMode;
+};
+
+/** Reads `?tags=a,b` (or repeated `tags`) and `?tagMode=all|any` from a list request. */
+export const parseDrawingTagFilter = (query: express.Request["query"]): DrawingTagFilter | null => {
+  const raw = query.tags;
+  const values = Array.isArray(raw) ? raw : raw === undefined ? [] : [raw];
+  const tagIds = Array.from(
+    new Set(
+      values
+        .flatMap((value) => (typeof value === "string" ? value.split(",") : []))
+        .map((value) => value.trim())
+        .filter((value) => value.length > 0)
+    )
+  ).sort();
+  if (tagIds.length === 0) return null;
+  return { tagIds, mode: query.tagMode === "all" ? "all" : "any" };
+};
+
+export const toTagFilterCacheKey = (filter: DrawingTagFilter | null): string =>
+  filter ? `${filter.mode}:${filter.tagIds.join(",")}` : "";
+
+/** Only the requesting user's tags count, so tag ids of other users never match. */
+export const buildDrawingTagWhere = (
+  userId: string,
+  filter: DrawingTagFilter
+): Prisma.DrawingWhereInput[] =>
+  filter.mode === "all"
+    ? filter.tagIds.map((tagId) => ({ tags: { some: { tagId, tag: { userId } } } }))
+    : [{ tags: { some: { tagId: { in: filter.tagIds }, tag: { userId } } } }];
+
+export const buildDrawingTagsSelect = (userId: string) =>
+  ({
+    where: { tag: { userId } },
+    orderBy: { tag: { name: "asc" } },
+    select: { tag: { select: { id: true, name: true, color: true } } },
+  }) satisfies Prisma.Drawing$tagsArgs;
+
+/** Replaces the `{ tag }` join rows Prisma returns with a flat tag list. */
+export const flattenDrawingTags = <T extends { tags?: unknown }>(drawing: T) => {
+  const rows = Array.isArray(drawing.tags) ? drawing.tags : [];
+  return {
+    ...drawing,
+    tags: rows
+      .map((row: { tag?: { id: string; name: string; color: string | null } }) => row.tag)
+      .filter(Boolean),
+  };
+};
+
+export const registerTagRoutes = (
+  app: express.Express,
+  deps: DashboardRouteDeps
+) => {
+  const {
+    prisma,
+    requireAuth,
+    requireAuthOrApiKey,
+    asyncHandler,
+    sanitizeText,
+    invalidateDrawingsCache,
+  } = deps;
+
+  const isUniqueViolation = (error: unknown) =>
+    error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002";
+
+  app.get("/tags", requireAuthOrApiKey, asyncHandler(async (req, res) => {
+    if (!req.user) return res.status(401).json({ error: "Unauthorized" });
+
+    const tags = await prisma.tag.findMany({
+      where: { userId: req.user.id },
+      orderBy: { name: "asc" },
+      include: { _count: { select: { drawings: true } } },
+    });
+    return res.json(
+      tags.map(({ _count, ...tag }) => ({ ...tag, drawingCount: _count.drawings }))
+    );
+  }));
+
+  app.post("/tags", requireAuthOrApiKey, asyncHandler(async (req, res) => {
+    if (!req.user) return res.status(401).json({ error: "Unauthorized" });
+
+    const parsedName = tagNameSchema.safeParse(req.body?.name);
+    if (!parsedName.success) {
+      return res.status(400).json({
+        error: "Validation error",
+        message: "Tag name must be between 1 and 50 characters",
+      });
+    }
+    const parsedColor = tagColorSchema.optional().safeParse(req.body?.color);
+    if (!parsedColor.success) {
+      return res.status(400).json({
+        error: "Validation error",
+        message: "Tag color must be a hex color like #4f46e5",
+      });
+    }
+
+    try {
+      const tag = await prisma.tag.create({
+        data: {
+          name: sanitizeText(parsedName.data, 50),
+          color: parsedColor.data ?? null,
+          userId: req.user.id,
+        },
+      });
+      return res.json({ ...tag, drawingCount: 0 });
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        return res.status(409).json({ error: "Conflict", message: "A tag with this name already exists" });
+      }
+      throw error;
+    }
+  }));
+
+  app.put("/tags/:id", requireAuth, asyncHandler(async (req, res) => {
+    if (!req.user) return res.status(401).json({ error: "Unauthorized" });
+
+    const { id } = req.params;
+    const existingTag = await prisma.tag.findFirst({ where: { id, userId: req.user.id } });
+    if (!existingTag) return res.status(404).json({ error: "Tag not found" });
+
+    const data: Prisma.TagUpdateInput = {};
+    if (req.body?.name !== undefined) {
+      const parsedName = tagNameSchema.safeParse(req.body.name);
+      if (!parsedName.success) {
+        return res.status(400).json({
+          error: "Validation error",
+          message: "Tag name must be between 1 and 50 characters",
+        });
+      }
+      data.name = sanitizeText(parsedName.data, 50);
+    }
+    if (req.body?.color !== undefined) {
+      const parsedColor = tagColorSchema.safeParse(req.body.color);
+      if (!parsedColor.success) {
+        return res.status(400).json({
+          error: "Validation error",
+          message: "Tag color must be a hex color like #4f46e5",
+        });
+      }
+      data.color = parsedColor.data;
+    }
+
+    try {
+      const tag = await prisma.tag.update({
+        where: { id },
+        data,
+        include: { _count: { select: { drawings: true } } },
+      });
+      invalidateDrawingsCache();
+      const { _count, ...rest } = tag;
+      return res.json({ ...rest, drawingCount: _count.drawings });
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        return res.status(409).json({ error: "Conflict", message: "A tag with this name already exists" });
+      }
+      throw error;
+    }
+  }));
+
+  app.delete("/tags/:id", requireAuth, asyncHandler(async (req, res) => {
+    if (!req.user) return res.status(401).json({ error: "Unauthorized" });
+
+    const { id } = req.params;
+    const deleteResult = await prisma.tag.deleteMany({ where: { id, userId: req.user.id } });
+    if (deleteResult.count === 0) return res.status(404).json({ error: "Tag not found" });
+    invalidateDrawingsCache();
+
+    return res.json({ success: true });
+  }));
+
+  // Replaces the caller's tags on a drawing. Other users' tags on the same drawing are untouched.
+  app.put("/drawings/:id/tags", requireAuthOrApiKey, asyncHandler(async (req, res) => {
+    if (!req.user) return res.status(401).json({ error: "Unauthorized" });
+
+    const principal = await getRequestPrincipal(req);
+    const { id } = req.params;
+    const access = await getDrawingAccess({ prisma, principal, drawingId: id });
+    if (!canViewDrawing(access)) {
+      return res.status(404).json({ error: "Drawing not found" });
+    }
+
+    const parsed = z
+      .array(z.string().min(1))
+      .max(MAX_TAGS_PER_DRAWING)
+      .safeParse(req.body?.tagIds);
+    if (!parsed.success) {
+      return res.status(400).json({
+        error: "Validation error",
+        message: `tagIds must be an array of at most ${MAX_TAGS_PER_DRAWING} tag ids`,
+      });
+    }
+    const tagIds = Array.from(new Set(parsed.data));
+    const ownedTags = await prisma.tag.findMany({
+      where: { id: { in: tagIds }, userId: req.user.id },
+      select: { id: true },
+    });
+    if (ownedTags.length !== tagIds.length) {
+      return res.status(400).json({ error: "Validation error", message: "Unknown tag" });
+    }
+
+    await prisma.$transaction([
+      prisma.drawingTag.deleteMany({
+        where: { drawingId: id, tag: { userId: req.user.id } },
+      }),
+      prisma.drawingTag.createMany({
+        data: tagIds.map((tagId) => ({ drawingId: id, tagId })),
+      }),
+    ]);
+    invalidateDrawingsCache();
+
+    const tags = await prisma.tag.findMany({
+      where: { id: { in: tagIds } },
+      orderBy: { name: "asc" },
+      select: { id: true, name: true, color: true },
+    });
+    return res.json({ tags });
+  }));
+};
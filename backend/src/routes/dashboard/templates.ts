@@ -0,0 +1,191 @@
+import express from "express";
+import { Prisma } from "../../generated/client";
+import { DashboardRouteDeps } from "./types";
+import {
+  isTrashCollectionId,
+  toInternalTrashCollectionId,
+  toPublicTrashCollectionId,
+} from "./trash";
+
+export type TemplateScope = "personal" | "global";
+
+export const normalizeTemplateScope = (value: unknown): TemplateScope | null | undefined => {
+  if (value === null) return null;
+  if (value === "personal" || value === "global") return value;
+  return undefined;
+};
+
+/** Templates a user may see: their own personal ones plus every global one, never trashed drawings. */
+export const buildVisibleTemplateWhere = (userId: string): Prisma.DrawingWhereInput => ({
+  OR: [{ templateScope: "global" }, { templateScope: "personal", userId }],
+  trashedAt: null,
+});
+
+export const registerTemplateRoutes = (
+  app: express.Express,
+  deps: DashboardRouteDeps
+) => {
+  const {
+    prisma,
+    requireAuth,
+    asyncHandler,
+    parseJsonField,
+    sanitizeText,
+    invalidateDrawingsCache,
+    drawingSearchIndex,
+    drawingFileStore,
+    config,
+    logAuditEvent,
+  } = deps;
+
+  app.get("/templates", requireAuth, asyncHandler(async (req, res) => {
+    if (!req.user) return res.status(401).json({ error: "Unauthorized" });
+
+    const templates = await prisma.drawing.findMany({
+      where: buildVisibleTemplateWhere(req.user.id),
+      select: {
+        id: true,
+        name: true,
+        preview: true,
+        templateScope: true,
+        updatedAt: true,
+        user: { select: { id: true, name: true } },
+      },
+      orderBy: [{ templateScope: "asc" }, { name: "asc" }],
+    });
+
+    return res.json({
+      templates: templates.map(({ user, templateScope, ...template }) => ({
+        ...template,
+        scope: templateScope as TemplateScope,
+        owner: user,
+        isOwner: user.id === req.user!.id,
+      })),
+    });
+  }));
+
+  // Owners mark their drawings as personal templates; only admins can publish or retire global ones.
+  app.put("/drawings/:id/template", requireAuth, asyncHandler(async (req, res) => {
+    if (!req.user) return res.status(401).json({ error: "Unauthorized" });
+
+    const { id } = req.params;
+    const scope = normalizeTemplateScope(req.body?.scope);
+    if (scope === undefined) {
+      return res.status(400).json({
+        error: "Validation error",
+        message: "scope must be \"personal\", \"global\" or null",
+      });
+    }
+
+    const isAdmin = req.user.role === "ADMIN";
+    const drawing = await prisma.drawing.findFirst({
+      where: isAdmin
+        ? { id, OR: [{ userId: req.user.id }, { templateScope: "global" }] }
+        : { id, userId: req.user.id },
+      select: { id: true, name: true, userId: true, collectionId: true, templateScope: true },
+    });
+    if (!drawing) return res.status(404).json({ error: "Drawing not found" });
+    if (scope !== null && isTrashCollectionId(drawing.collectionId, drawing.userId)) {
+      return res.status(400).json({
+        error: "Validation error",
+        message: "Drawings in the trash cannot be templates",
+      });
+    }
+    if (scope === "global" && !isAdmin) {
+      return res.status(403).json({
+        error: "Forbidden",
+        message: "Only admins can publish templates for everyone",
+      });
+    }
+    if (drawing.templateScope === "global" && drawing.userId !== req.user.id && scope === "personal") {
+      return res.status(400).json({
+        error: "Validation error",
+        message: "Only the owner can keep this drawing as a personal template",
+      });
+    }
+
+    await prisma.drawing.update({
+      where: { id },
+      data: { templateScope: scope },
+    });
+    invalidateDrawingsCache();
+
+    if (config.enableAuditLogging) {
+      await logAuditEvent({
+        userId: req.user.id,
+        action: "drawing_template_updated",
+        resource: `drawing:${id}`,
+        ipAddress: req.ip || req.connection.remoteAddress || undefined,
+        userAgent: req.headers["user-agent"] || undefined,
+        details: { drawingId: id, drawingName: drawing.name, from: drawing.templateScope, to: scope },
+      });
+    }
+
+    return res.json({ id, templateScope: scope });
+  }));
+
+  app.post("/drawings/from-template/:id", requireAuth, asyncHandler(async (req, res) => {
+    if (!req.user) return res.status(401).json({ error: "Unauthorized" });
+
+    const { id } = req.params;
+    const template = await prisma.drawing.findFirst({
+      where: { id, ...buildVisibleTemplateWhere(req.user.id) },
+    });
+    if (!template) return res.status(404).json({ error: "Template not found" });
+
+    const rawCollectionId = req.body?.collectionId;
+    if (rawCollectionId !== undefined && rawCollectionId !== null && typeof rawCollectionId !== "string") {
+      return res.status(400).json({ error: "Validation error", message: "Invalid collectionId" });
+    }
+    const targetCollectionId = toInternalTrashCollectionId(rawCollectionId ?? null, req.user.id) ?? null;
+    if (targetCollectionId && isTrashCollectionId(targetCollectionId, req.user.id)) {
+      return res.status(400).json({
+        error: "Validation error",
+        message: "Cannot create a drawing in the trash",
+      });
+    }
+    if (targetCollectionId) {
+      const collection = await prisma.collection.findFirst({
+        where: { id: targetCollectionId, userId: req.user.id },
+        select: { id: true },
+      });
+      if (!collection) return res.status(404).json({ error: "Collection not found" });
+    }
+
+    const requestedName = typeof req.body?.name === "string" ? sanitizeText(req.body.name, 255) : "";
+    const newDrawing = await prisma.drawing.create({
+      data: {
+        name: requestedName || template.name,
+        elements: template.elements,
+        appState: template.appState,
+        files: template.files,
+        preview: template.preview,
+        userId: req.user.id,
+        collectionId: targetCollectionId,
+        version: 1,
+      },
+    });
+    await drawingFileStore.syncDrawingFileRefs(newDrawing.id, newDrawing.files);
+    invalidateDrawingsCache();
+    await drawingSearchIndex.indexDrawing(newDrawing);
+
+    if (config.enableAuditLogging) {
+      await logAuditEvent({
+        userId: req.user.id,
+        action: "drawing_created_from_template",
+        resource: `drawing:${newDrawing.id}`,
+        ipAddress: req.ip || req.connection.remoteAddress || undefined,
+        userAgent: req.headers["user-agent"] || undefined,
+        details: { drawingId: newDrawing.id, templateId: template.id },
+      });
+    }
+
+    return res.json({
+      ...newDrawing,
+      collectionId: toPublicTrashCollectionId(newDrawing.collectionId, req.user.id),
+      elements: parseJsonField(newDrawing.elements, []),
+      appState: parseJsonField(newDrawing.appState, {}),
+      files: parseJsonField(newDrawing.files, {}),
+    });
+  }));
+};
@@ -0,0 +1,293 @@
+import express from "express";
+import { z } from "zod";
+import { Prisma } from "../../generated/client";
+import { DashboardRouteDeps } from "./types";
+import { transferAllOwnership, transferDrawings } from "../../server/ownershipTransfer";
+
+const transferOfferSchema = z.object({
+  toUserId: z.string().trim().min(1),
+});
+
+const bulkTransferSchema = z
+  .object({
+    fromUserId: z.string().trim().min(1),
+    toUserId: z.string().trim().min(1),
+  })
+  .refine((value) => value.fromUserId !== value.toUserId, {
+    message: "Choose two different users",
+  });
+
+const transferSelect = {
+  id: true,
+  createdAt: true,
+  drawing: { select: { id: true, name: true } },
+  fromUser: { select: { id: true, name: true, email: true } },
+  toUser: { select: { id: true, name: true, email: true } },
+} satisfies Prisma.DrawingTransferSelect;
+
+export const registerTransferRoutes = (
+  app: express.Express,
+  deps: DashboardRouteDeps
+) => {
+  const {
+    prisma,
+    requireAuth,
+    asyncHandler,
+    ensureTrashCollection,
+    invalidateDrawingsCache,
+    config,
+    logAuditEvent,
+    notify,
+    publishDrawingAccessChange,
+  } = deps;
+
+  // Offers the drawing to another user; it changes hands only once they accept.
+  // A new offer replaces any pending one for the same drawing.
+  app.post("/drawings/:id/transfer", requireAuth, asyncHandler(async (req, res) => {
+    if (!req.user) return res.status(401).json({ error: "Unauthorized" });
+    const { id } = req.params;
+
+    const drawing = await prisma.drawing.findUnique({ where: { id }, select: { userId: true } });
+    if (!drawing || drawing.userId !== req.user.id) {
+      return res.status(404).json({ error: "Drawing not found" });
+    }
+
+    const parsed = transferOfferSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Validation error", message: "Choose who to transfer to" });
+    }
+    const { toUserId } = parsed.data;
+    if (toUserId === req.user.id) {
+      return res.status(400).json({ error: "Validation error", message: "You already own this drawing" });
+    }
+    const recipient = await prisma.user.findUnique({
+      where: { id: toUserId },
+      select: { isActive: true },
+    });
+    if (!recipient || !recipient.isActive) {
+      return res.status(404).json({ error: "User not found" });
+    }
+
+    const transfer = await prisma.drawingTransfer.upsert({
+      where: { drawingId: id },
+      update: { fromUserId: req.user.id, toUserId, createdAt: new Date() },
+      create: { drawingId: id, fromUserId: req.user.id, toUserId },
+      select: transferSelect,
+    });
+
+    if (config.enableAuditLogging) {
+      await logAuditEvent({
+        userId: req.user.id,
+        action: "drawing_transfer_offered",
+        resource: `drawing:${id}`,
+        ipAddress: req.ip || req.connection.remoteAddress || undefined,
+        userAgent: req.headers["user-agent"] || undefined,
+        details: { drawingId: id, transferId: transfer.id, toUserId },
+      });
+    }
+
+    await notify([
+      {
+        userId: toUserId,
+        type: "ownership_offered",
+        actorUserId: req.user.id,
+        drawingId: id,
+        data: { drawingName: transfer.drawing.name, transferId: transfer.id },
+      },
+    ]);
+
+    return res.status(201).json({ transfer });
+  }));
+
+  app.get("/transfers", requireAuth, asyncHandler(async (req, res) => {
+    if (!req.user) return res.status(401).json({ error: "Unauthorized" });
+
+    const [incoming, outgoing] = await Promise.all([
+      prisma.drawingTransfer.findMany({
+        where: { toUserId: req.user.id },
+        select: transferSelect,
+        orderBy: { createdAt: "desc" },
+      }),
+      prisma.drawingTransfer.findMany({
+        where: { fromUserId: req.user.id },
+        select: transferSelect,
+        orderBy: { createdAt: "desc" },
+      }),
+    ]);
+    return res.json({ incoming, outgoing });
+  }));
+
+  app.post("/transfers/:transferId/accept", requireAuth, asyncHandler(async (req, res) => {
+    if (!req.user) return res.status(401).json({ error: "Unauthorized" });
+    const user = req.user;
+    const { transferId } = req.params;
+
+    const transfer = await prisma.drawingTransfer.findFirst({
+      where: { id: transferId, toUserId: user.id },
+      select: { id: true, drawingId: true, fromUserId: true, drawing: { select: { name: true } } },
+    });
+    if (!transfer) return res.status(404).json({ error: "Transfer not found" });
+
+    const movedIds = await prisma.$transaction((tx) =>
+      transferDrawings(tx, {
+        fromUserId: transfer.fromUserId,
+        toUserId: user.id,
+        actorUserId: user.id,
+        drawingIds: [transfer.drawingId],
+        collectionsMove: false,
+        ensureTrashCollection,
+      })
+    );
+    if (movedIds.length === 0) {
+      // The offering user no longer owns the drawing, so the offer is void.
+      await prisma.drawingTransfer.deleteMany({ where: { id: transfer.id } });
+      return res.status(409).json({ error: "Conflict", message: "This transfer is no longer valid" });
+    }
+    invalidateDrawingsCache();
+    publishDrawingAccessChange(movedIds);
+
+    if (config.enableAuditLogging) {
+      await logAuditEvent({
+        userId: user.id,
+        action: "drawing_transfer_accepted",
+        resource: `drawing:${transfer.drawingId}`,
+        ipAddress: req.ip || req.connection.remoteAddress || undefined,
+        userAgent: req.headers["user-agent"] || undefined,
+        details: {
+          drawingId: transfer.drawingId,
+          transferId: transfer.id,
+          fromUserId: transfer.fromUserId,
+          toUserId: user.id,
+        },
+      });
+    }
+
+    await notify([
+      {
+        userId: transfer.fromUserId,
+        type: "ownership_accepted",
+        actorUserId: user.id,
+        drawingId: transfer.drawingId,
+        data: { drawingName: transfer.drawing.name },
+      },
+    ]);
+
+    return res.json({ drawingId: transfer.drawingId });
+  }));
+
+  // The recipient declines, or the offering owner withdraws.
+  app.delete("/transfers/:transferId", requireAuth, asyncHandler(async (req, res) => {
+    if (!req.user) return res.status(401).json({ error: "Unauthorized" });
+    const { transferId } = req.params;
+
+    const transfer = await prisma.drawingTransfer.findFirst({
+      where: { id: transferId, OR: [{ toUserId: req.user.id }, { fromUserId: req.user.id }] },
+      select: {
+        id: true,
+        drawingId: true,
+        fromUserId: true,
+        toUserId: true,
+        drawing: { select: { name: true } },
+      },
+    });
+    if (!transfer) return res.status(404).json({ error: "Transfer not found" });
+
+    await prisma.drawingTransfer.deleteMany({ where: { id: transfer.id } });
+
+    if (config.enableAuditLogging) {
+      await logAuditEvent({
+        userId: req.user.id,
+        action: transfer.toUserId === req.user.id ? "drawing_transfer_declined" : "drawing_transfer_cancelled",
+        resource: `drawing:${transfer.drawingId}`,
+        ipAddress: req.ip || req.connection.remoteAddress || undefined,
+        userAgent: req.headers["user-agent"] || undefined,
+        details: { drawingId: transfer.drawingId, transferId: transfer.id },
+      });
+    }
+
+    if (transfer.toUserId === req.user.id) {
+      await notify([
+        {
+          userId: transfer.fromUserId,
+          type: "ownership_declined",
+          actorUserId: req.user.id,
+          drawingId: transfer.drawingId,
+          data: { drawingName: transfer.drawing.name },
+        },
+      ]);
+    }
+
+    return res.json({ success: true });
+  }));
+
+  // Admin hand-over of everything a user owns, e.g. when they leave. No acceptance step.
+  app.post("/transfers/bulk", requireAuth, asyncHandler(async (req, res) => {
+    if (!req.user) return res.status(401).json({ error: "Unauthorized" });
+    if (req.user.role !== "ADMIN") {
+      return res.status(403).json({ error: "Forbidden", message: "Admin access required" });
+    }
+    const admin = req.user;
+
+    const parsed = bulkTransferSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        error: "Validation error",
+        message: parsed.error.issues[0]?.message ?? "Invalid transfer",
+      });
+    }
+    const { fromUserId, toUserId } = parsed.data;
+
+    const [fromUser, toUser] = await Promise.all([
+      prisma.user.findUnique({ where: { id: fromUserId }, select: { id: true, name: true } }),
+      prisma.user.findUnique({ where: { id: toUserId }, select: { isActive: true } }),
+    ]);
+    if (!fromUser || !toUser || !toUser.isActive) {
+      return res.status(404).json({ error: "User not found" });
+    }
+
+    const result = await prisma.$transaction((tx) =>
+      transferAllOwnership(tx, {
+        fromUserId,
+        toUserId,
+        actorUserId: admin.id,
+        ensureTrashCollection,
+      })
+    );
+    invalidateDrawingsCache();
+    publishDrawingAccessChange(result.drawingIds);
+
+    if (config.enableAuditLogging) {
+      await logAuditEvent({
+        userId: admin.id,
+        action: "admin_ownership_transferred",
+        resource: `user:${fromUserId}`,
+        ipAddress: req.ip || req.connection.remoteAddress || undefined,
+        userAgent: req.headers["user-agent"] || undefined,
+        details: {
+          fromUserId,
+          toUserId,
+          drawingCount: result.drawingIds.length,
+          collectionCount: result.collectionIds.length,
+        },
+      });
+    }
+
+    await notify([
+      {
+        userId: toUserId,
+        type: "ownership_transferred",
+        actorUserId: admin.id,
+        data: {
+          fromUserName: fromUser.name,
+          drawingCount: result.drawingIds.length,
+          collectionCount: result.collectionIds.length,
+        },
+      },
+    ]);
+
+    return res.json({
+      drawings: result.drawingIds.length,
+      collections: result.collectionIds.length,
+    });
+  }));
+};
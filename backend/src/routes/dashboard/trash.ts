@@ -1,3 +1,6 @@
+import express from "express";
+import { DashboardRouteDeps } from "./types";
+
 export const getUserTrashCollectionId = (userId: string): string => `trash:${userId}`;
 
 export const isTrashCollectionId = (
@@ -18,3 +21,71 @@ export const toPublicTrashCollectionId = (
   userId: string
 ): string | null | undefined =>
   isTrashCollectionId(collectionId, userId) ? "trash" : collectionId;
+
+export const registerTrashRoutes = (
+  app: express.Express,
+  deps: DashboardRouteDeps
+) => {
+  const {
+    prisma,
+    requireAuth,
+    asyncHandler,
+    invalidateDrawingsCache,
+    config,
+    logAuditEvent,
+  } = deps;
+
+  // Puts a trashed drawing back where it was trashed from, or in Unorganized when that
+  // collection no longer exists.
+  app.post("/drawings/:id/restore", requireAuth, asyncHandler(async (req, res) => {
+    if (!req.user) return res.status(401).json({ error: "Unauthorized" });
+
+    const { id } = req.params;
+    const drawing = await prisma.drawing.findFirst({
+      where: { id, userId: req.user.id },
+      select: { id: true, name: true, collectionId: true, previousCollectionId: true },
+    });
+    if (!drawing) return res.status(404).json({ error: "Drawing not found" });
+    if (!isTrashCollectionId(drawing.collectionId, req.user.id)) {
+      return res.status(400).json({
+        error: "Validation error",
+        message: "Drawing is not in the trash",
+      });
+    }
+
+    const previousCollection =
+      drawing.previousCollectionId && !isTrashCollectionId(drawing.previousCollectionId, req.user.id)
+        ? await prisma.collection.findFirst({
+            where: { id: drawing.previousCollectionId, userId: req.user.id },
+            select: { id: true },
+          })
+        : null;
+    const targetCollectionId = previousCollection?.id ?? null;
+
+    const updateResult = await prisma.drawing.updateMany({
+      where: { id, userId: req.user.id, collectionId: drawing.collectionId },
+      data: { collectionId: targetCollectionId, trashedAt: null, previousCollectionId: null },
+    });
+    if (updateResult.count === 0) {
+      return res.status(409).json({ error: "Conflict", message: "Drawing was moved while restoring" });
+    }
+    invalidateDrawingsCache();
+
+    if (config.enableAuditLogging) {
+      await logAuditEvent({
+        userId: req.user.id,
+        action: "drawing_restored",
+        resource: `drawing:${id}`,
+        ipAddress: req.ip || req.connection.remoteAddress || undefined,
+        userAgent: req.headers["user-agent"] || undefined,
+        details: { drawingId: id, drawingName: drawing.name, collectionId: targetCollectionId },
+      });
+    }
+
+    return res.json({
+      id,
+      collectionId: targetCollectionId,
+      restoredToPreviousCollection: targetCollectionId !== null || drawing.previousCollectionId === null,
+    });
+  }));
+};
@@ -1,14 +1,28 @@
 import express from "express";
 import { z } from "zod";
 import { Prisma, PrismaClient } from "../../generated/client";
+import type { RecordDrawingRevision } from "../../server/drawingRevisions";
+import type { DrawingSearchIndex } from "../../server/drawingSearchIndex";
+import type { DrawingFileStore } from "../../server/drawingFiles";
+import type { FileSweepJob } from "../../server/fileSweep";
+import type { DrawingRenderCache } from "../../server/drawingRender";
+import type {
+  BroadcastDrawingEvent,
+  PublishDrawingAccessChange,
+  PublishDrawingSceneChange,
+} from "../../server/socket";
+import type { Notify } from "../../server/notifications";
 
-export type SortField = "name" | "createdAt" | "updatedAt";
+export type SortField = "name" | "createdAt" | "updatedAt" | "relevance";
 export type SortDirection = "asc" | "desc";
 
 type BuildDrawingsCacheKey = (keyParts: {
   userId: string;
   searchTerm: string;
   collectionFilter: string;
+  tagFilter: string;
+  starredOnly: boolean;
+  pinStarred: boolean;
   includeData: boolean;
   sortField: SortField;
   sortDirection: SortDirection;
@@ -49,6 +63,15 @@ export type DashboardRouteDeps = {
   buildDrawingsCacheKey: BuildDrawingsCacheKey;
   getCachedDrawingsBody: (key: string) => Buffer | null;
   cacheDrawingsResponse: (key: string, payload: unknown) => Buffer;
+  recordDrawingRevision: RecordDrawingRevision;
+  drawingSearchIndex: DrawingSearchIndex;
+  drawingFileStore: DrawingFileStore;
+  fileSweepJob: FileSweepJob;
+  drawingRenderCache: DrawingRenderCache;
+  broadcastDrawingEvent: BroadcastDrawingEvent;
+  publishDrawingAccessChange: PublishDrawingAccessChange;
+  publishDrawingSceneChange: PublishDrawingSceneChange;
+  notify: Notify;
   MAX_PAGE_SIZE: number;
   config: {
     nodeEnv: string;
@@ -10,8 +10,33 @@ import {
   findFirstDuplicate,
   getSafeZipEntry,
   getUserTrashCollectionId,
+  resolveImportedTrashState,
   sanitizeDrawingData,
 } from "./shared";
+import { collectAncestorIds, normalizeCollectionTree } from "../../server/collectionTree";
+import { DRAWING_FILE_MIME_TYPES, hashFileBytes, isDrawingFileHash } from "../../server/drawingFiles";
+
+/**
+ * Rebuilds the collection tree from a manifest. Backups without `parentId` fall back to
+ * the folder layout, so a collection stored in `A/B` is nested under the one stored in `A`.
+ */
+const resolveManifestCollectionTree = (
+  collections: { id: string; parentId?: string | null; folder: string }[]
+) => {
+  const idByFolder = new Map(collections.map((collection) => [collection.folder, collection.id]));
+  return normalizeCollectionTree(
+    collections.map((collection) => {
+      if (collection.id === "trash") return { id: collection.id, parentId: null };
+      if (collection.parentId !== undefined) {
+        return { id: collection.id, parentId: collection.parentId === "trash" ? null : collection.parentId };
+      }
+      const slash = collection.folder.lastIndexOf("/");
+      const parentFolder = slash > 0 ? collection.folder.slice(0, slash) : null;
+      const parentId = parentFolder ? idByFolder.get(parentFolder) ?? null : null;
+      return { id: collection.id, parentId: parentId === "trash" ? null : parentId };
+    })
+  );
+};
 
 const isSafeMulterTempFilename = (value: string): boolean => /^[a-f0-9]{32}$/.test(value);
 
@@ -60,6 +85,8 @@ export const registerExcalidashImportRoutes = (deps: RegisterImportExportDeps) =
     validateImportedDrawing,
     ensureTrashCollection,
     invalidateDrawingsCache,
+    drawingSearchIndex,
+    drawingFileStore,
     removeFileIfExists,
     MAX_IMPORT_ARCHIVE_ENTRIES,
     MAX_IMPORT_COLLECTIONS,
@@ -173,6 +200,7 @@ export const registerExcalidashImportRoutes = (deps: RegisterImportExportDeps) =
         excalidashBackendVersion: manifest.excalidashBackendVersion || null,
         collections: manifest.collections.length,
         drawings: manifest.drawings.length,
+        tags: manifest.tags?.length ?? 0,
       });
     } finally {
       await removeFileIfExists(stagedPath);
@@ -274,10 +302,51 @@ export const registerExcalidashImportRoutes = (deps: RegisterImportExportDeps) =
         name: string;
         version: number | undefined;
         collectionId: string | null;
+        tagIds: string[] | undefined;
         sanitized: ReturnType<typeof sanitizeDrawingData>;
       };
       const preparedDrawings: PreparedImportDrawing[] = [];
       let extractedBytes = Buffer.byteLength(rawManifest, "utf8");
+      const storedArchiveHashes = new Set<string>();
+
+      /**
+       * Loads images the backup keeps under `files/<hash>` into the file store. SVGs are put back
+       * inline instead, so they go through the same sanitizer as any other inline image.
+       */
+      const resolveArchivedFiles = async (files: Record<string, unknown>) => {
+        for (const entry of Object.values(files)) {
+          if (typeof entry !== "object" || entry === null) continue;
+          const file = entry as Record<string, unknown>;
+          const hash = file.hash;
+          if (!isDrawingFileHash(hash) || typeof file.dataURL === "string") continue;
+
+          const mimeType = typeof file.mimeType === "string" ? file.mimeType.toLowerCase() : "";
+          // Stored files are served with their recorded type, so only accept what uploads accept.
+          if (!DRAWING_FILE_MIME_TYPES.has(mimeType)) continue;
+          const isSvg = mimeType === "image/svg+xml";
+          if (!isSvg && storedArchiveHashes.has(hash)) continue;
+
+          const archived = getSafeZipEntry(zip, `files/${hash}`);
+          if (!archived) continue;
+          const bytes = await archived.async("nodebuffer");
+          extractedBytes += bytes.length;
+          if (extractedBytes > MAX_IMPORT_TOTAL_EXTRACTED_BYTES) {
+            throw new ImportValidationError("Backup contents exceed maximum import size");
+          }
+          if (hashFileBytes(bytes) !== hash) {
+            throw new ImportValidationError(`Image does not match its hash: files/${hash}`);
+          }
+
+          if (isSvg) {
+            file.dataURL = `data:image/svg+xml;base64,${bytes.toString("base64")}`;
+            delete file.hash;
+            continue;
+          }
+          await drawingFileStore.putFile({ bytes, mimeType, createdByUserId: req.user!.id });
+          storedArchiveHashes.add(hash);
+        }
+      };
+
       try {
         for (const d of manifest.drawings) {
           const entry = getSafeZipEntry(zip, d.filePath);
@@ -318,13 +387,17 @@ export const registerExcalidashImportRoutes = (deps: RegisterImportExportDeps) =
           if (!validateImportedDrawing(imported)) {
             throw new ImportValidationError(`Drawing failed validation: ${d.filePath}`);
           }
+          await resolveArchivedFiles(imported.files);
 
+          const sanitized = sanitizeDrawingData(imported);
+          sanitized.files = await drawingFileStore.externalizeFiles(sanitized.files || {}, req.user!.id);
           preparedDrawings.push({
             id: d.id,
             name: sanitizeText(imported.name, 255) || "Untitled Drawing",
             version: typeof d.version === "number" ? d.version : undefined,
             collectionId: d.collectionId,
-            sanitized: sanitizeDrawingData(imported),
+            tagIds: d.tagIds,
+            sanitized,
           });
         }
       } catch (error) {
@@ -334,6 +407,13 @@ export const registerExcalidashImportRoutes = (deps: RegisterImportExportDeps) =
         throw error;
       }
 
+      const importedDrawings: {
+        id: string;
+        name: string;
+        elements: string;
+        files: Record<string, unknown>;
+        tagIds: string[] | undefined;
+      }[] = [];
       const result = await prisma.$transaction(async (tx) => {
         const trashCollectionId = getUserTrashCollectionId(req.user!.id);
         const collectionIdMap = new Map<string, string>();
@@ -343,6 +423,8 @@ export const registerExcalidashImportRoutes = (deps: RegisterImportExportDeps) =
         let drawingsCreated = 0;
         let drawingsUpdated = 0;
         let drawingIdConflicts = 0;
+        let tagsCreated = 0;
+        let tagsMatched = 0;
 
         const needsTrash =
           manifest.collections.some((c) => c.id === "trash") ||
@@ -384,29 +466,69 @@ export const registerExcalidashImportRoutes = (deps: RegisterImportExportDeps) =
           collectionIdConflicts += 1;
         }
 
+        // Tags are matched by name so re-importing a backup reuses the user's existing tags.
+        const tagIdMap = new Map<string, string>();
+        for (const t of manifest.tags ?? []) {
+          const name = sanitizeText(t.name, 50);
+          if (!name) continue;
+          const color = typeof t.color === "string" && /^#[0-9a-fA-F]{6}$/.test(t.color) ? t.color : null;
+          const existing = await tx.tag.findUnique({
+            where: { userId_name: { userId: req.user!.id, name } },
+          });
+          if (existing) {
+            tagIdMap.set(t.id, existing.id);
+            tagsMatched += 1;
+            continue;
+          }
+          const created = await tx.tag.create({ data: { name, color, userId: req.user!.id } });
+          tagIdMap.set(t.id, created.id);
+          tagsCreated += 1;
+        }
+
+        // Parents are linked after every collection exists, top-level collections first.
+        const manifestTree = resolveManifestCollectionTree(manifest.collections);
+        const nodesParentsFirst = [...manifestTree].sort(
+          (a, b) =>
+            collectAncestorIds(manifestTree, a.id).length -
+            collectAncestorIds(manifestTree, b.id).length
+        );
+        for (const node of nodesParentsFirst) {
+          const localId = collectionIdMap.get(node.id);
+          if (!localId || localId === trashCollectionId) continue;
+          const localParentId = node.parentId ? collectionIdMap.get(node.parentId) ?? null : null;
+          await tx.collection.update({
+            where: { id: localId },
+            data: { parentId: localParentId },
+          });
+        }
+
         const resolveCollectionId = (collectionId: string | null): string | null => {
           if (!collectionId) return null;
           if (collectionId === "trash") return trashCollectionId;
           return collectionIdMap.get(collectionId) || null;
         };
 
+
         for (const prepared of preparedDrawings) {
           const targetCollectionId = resolveCollectionId(prepared.collectionId);
           const existing = await tx.drawing.findUnique({ where: { id: prepared.id } });
+          const elements = JSON.stringify(prepared.sanitized.elements);
           if (!existing) {
             await tx.drawing.create({
               data: {
                 id: prepared.id,
                 name: prepared.name,
-                elements: JSON.stringify(prepared.sanitized.elements),
+                elements,
                 appState: JSON.stringify(prepared.sanitized.appState),
                 files: JSON.stringify(prepared.sanitized.files || {}),
                 preview: prepared.sanitized.preview ?? null,
                 version: prepared.version ?? 1,
                 userId: req.user!.id,
                 collectionId: targetCollectionId,
+                ...resolveImportedTrashState(targetCollectionId, req.user!.id, null),
               },
             });
+            importedDrawings.push({ id: prepared.id, name: prepared.name, elements, files: prepared.sanitized.files, tagIds: prepared.tagIds });
             drawingsCreated += 1;
             continue;
           }
@@ -416,14 +538,16 @@ export const registerExcalidashImportRoutes = (deps: RegisterImportExportDeps) =
               where: { id: prepared.id },
               data: {
                 name: prepared.name,
-                elements: JSON.stringify(prepared.sanitized.elements),
+                elements,
                 appState: JSON.stringify(prepared.sanitized.appState),
                 files: JSON.stringify(prepared.sanitized.files || {}),
                 preview: prepared.sanitized.preview ?? null,
                 version: prepared.version ?? existing.version,
                 collectionId: targetCollectionId,
+                ...resolveImportedTrashState(targetCollectionId, req.user!.id, existing),
               },
             });
+            importedDrawings.push({ id: prepared.id, name: prepared.name, elements, files: prepared.sanitized.files, tagIds: prepared.tagIds });
             drawingsUpdated += 1;
             continue;
           }
@@ -433,26 +557,52 @@ export const registerExcalidashImportRoutes = (deps: RegisterImportExportDeps) =
             data: {
               id: newId,
               name: prepared.name,
-              elements: JSON.stringify(prepared.sanitized.elements),
+              elements,
               appState: JSON.stringify(prepared.sanitized.appState),
               files: JSON.stringify(prepared.sanitized.files || {}),
               preview: prepared.sanitized.preview ?? null,
               version: prepared.version ?? 1,
               userId: req.user!.id,
               collectionId: targetCollectionId,
+              ...resolveImportedTrashState(targetCollectionId, req.user!.id, null),
             },
           });
+          importedDrawings.push({ id: newId, name: prepared.name, elements, files: prepared.sanitized.files, tagIds: prepared.tagIds });
           drawingsCreated += 1;
           drawingIdConflicts += 1;
         }
 
+        for (const drawing of importedDrawings) {
+          if (!drawing.tagIds) continue;
+          const localTagIds = Array.from(
+            new Set(
+              drawing.tagIds
+                .map((tagId) => tagIdMap.get(tagId))
+                .filter((tagId): tagId is string => typeof tagId === "string")
+            )
+          );
+          await tx.drawingTag.deleteMany({
+            where: { drawingId: drawing.id, tag: { userId: req.user!.id } },
+          });
+          if (localTagIds.length > 0) {
+            await tx.drawingTag.createMany({
+              data: localTagIds.map((tagId) => ({ drawingId: drawing.id, tagId })),
+            });
+          }
+        }
+
         return {
           collections: { created: collectionsCreated, updated: collectionsUpdated, idConflicts: collectionIdConflicts },
           drawings: { created: drawingsCreated, updated: drawingsUpdated, idConflicts: drawingIdConflicts },
+          tags: { created: tagsCreated, matched: tagsMatched },
         };
       });
 
+      for (const drawing of importedDrawings) {
+        await drawingFileStore.syncDrawingFileRefs(drawing.id, drawing.files);
+      }
       invalidateDrawingsCache();
+      await drawingSearchIndex.indexDrawings(importedDrawings);
       return res.json({ success: true, message: "Backup imported successfully", ...result });
     } finally {
       await removeFileIfExists(stagedPath);
@@ -9,6 +9,8 @@ import {
   sanitizePathSegment,
   toPublicTrashCollectionId,
 } from "./shared";
+import { collectAncestorIds, normalizeCollectionTree } from "../../server/collectionTree";
+import { collectFileHashes } from "../../server/drawingFiles";
 
 export const registerExcalidashExportRoute = (deps: RegisterImportExportDeps) => {
   const {
@@ -18,6 +20,7 @@ export const registerExcalidashExportRoute = (deps: RegisterImportExportDeps) =>
     asyncHandler,
     getBackendVersion,
     parseJsonField,
+    drawingFileStore,
   } = deps;
 
   app.get("/export/excalidash", requireAuth, asyncHandler(async (req, res) => {
@@ -34,11 +37,19 @@ export const registerExcalidashExportRoute = (deps: RegisterImportExportDeps) =>
     const exportedAt = new Date().toISOString();
     const drawings = await prisma.drawing.findMany({
       where: { userId: req.user.id },
-      include: { collection: true },
+      include: {
+        collection: true,
+        tags: { where: { tag: { userId: req.user.id } }, select: { tagId: true } },
+      },
     });
     const userCollections = await prisma.collection.findMany({
       where: { userId: req.user.id },
     });
+    const userTags = await prisma.tag.findMany({
+      where: { userId: req.user.id },
+      orderBy: { name: "asc" },
+      select: { id: true, name: true, color: true },
+    });
 
     const hasInternalTrashCollection = userCollections.some((collection) => collection.id === trashCollectionId);
     const normalizedUserCollections = userCollections.filter(
@@ -61,16 +72,37 @@ export const registerExcalidashExportRoute = (deps: RegisterImportExportDeps) =>
     }
 
     const exportSource = `${req.protocol}://${req.get("host")}`;
-    const usedFolderNames = new Set<string>();
-    const unorganizedFolder = makeUniqueName("Unorganized", usedFolderNames);
+    // Nested collections become nested folders; names only need to be unique among siblings.
+    const exportTree = normalizeCollectionTree(
+      collectionsToExport.map((collection) => ({
+        id: collection.id,
+        parentId: isTrashCollectionId(collection.id, req.user!.id) ? null : collection.parentId,
+      }))
+    );
+    const parentIdByCollectionId = new Map(exportTree.map((node) => [node.id, node.parentId]));
+    const usedFolderNamesByParent = new Map<string, Set<string>>([["", new Set<string>()]]);
+    const unorganizedFolder = makeUniqueName("Unorganized", usedFolderNamesByParent.get("")!);
     const folderByCollectionId = new Map<string, string>();
-    for (const collection of collectionsToExport) {
+    const collectionsParentsFirst = [...collectionsToExport].sort(
+      (a, b) =>
+        collectAncestorIds(exportTree, a.id).length - collectAncestorIds(exportTree, b.id).length
+    );
+    for (const collection of collectionsParentsFirst) {
+      const parentId = parentIdByCollectionId.get(collection.id) ?? null;
+      const parentFolder = parentId ? folderByCollectionId.get(parentId) ?? "" : "";
+      let usedNames = usedFolderNamesByParent.get(parentFolder);
+      if (!usedNames) {
+        usedNames = new Set<string>();
+        usedFolderNamesByParent.set(parentFolder, usedNames);
+      }
       const base = sanitizePathSegment(collection.name, "Collection");
-      const folder = makeUniqueName(base, usedFolderNames);
-      folderByCollectionId.set(collection.id, folder);
+      const segment = makeUniqueName(base, usedNames);
+      folderByCollectionId.set(collection.id, parentFolder ? `${parentFolder}/${segment}` : segment);
     }
 
-    type DrawingWithCollection = Prisma.DrawingGetPayload<{ include: { collection: true } }>;
+    type DrawingWithCollection = Prisma.DrawingGetPayload<{
+      include: { collection: true; tags: { select: { tagId: true } } };
+    }>;
     const drawingsManifest = drawings.map((drawing: DrawingWithCollection) => {
       const folder = drawing.collectionId
         ? folderByCollectionId.get(drawing.collectionId) || unorganizedFolder
@@ -82,6 +114,7 @@ export const registerExcalidashExportRoute = (deps: RegisterImportExportDeps) =>
         name: drawing.name,
         filePath: `${folder}/${fileName}`,
         collectionId: toPublicTrashCollectionId(drawing.collectionId, req.user!.id),
+        tagIds: drawing.tags.map((link) => link.tagId),
         version: drawing.version,
         createdAt: drawing.createdAt.toISOString(),
         updatedAt: drawing.updatedAt.toISOString(),
@@ -92,6 +125,7 @@ export const registerExcalidashExportRoute = (deps: RegisterImportExportDeps) =>
       .map((collection) => ({
         id: toPublicTrashCollectionId(collection.id, req.user!.id) || collection.id,
         name: isTrashCollectionId(collection.id, req.user!.id) ? "Trash" : collection.name,
+        parentId: parentIdByCollectionId.get(collection.id) ?? null,
         folder: folderByCollectionId.get(collection.id) || sanitizePathSegment(collection.name, "Collection"),
         createdAt: collection.createdAt.toISOString(),
         updatedAt: collection.updatedAt.toISOString(),
@@ -107,6 +141,7 @@ export const registerExcalidashExportRoute = (deps: RegisterImportExportDeps) =>
       unorganizedFolder,
       collections: manifestCollections,
       drawings: drawingsManifest,
+      tags: userTags,
     };
 
     res.setHeader("Content-Type", "application/zip");
@@ -140,16 +175,21 @@ export const registerExcalidashExportRoute = (deps: RegisterImportExportDeps) =>
     archive.append(JSON.stringify(manifest, null, 2), { name: "excalidash.manifest.json" });
 
     const drawingsManifestById = new Map(drawingsManifest.map((d) => [d.id, d]));
+    const archivedFileHashes = new Set<string>();
     for (const drawing of drawings) {
       const meta = drawingsManifestById.get(drawing.id);
       if (!meta) continue;
+      const files = parseJsonField(drawing.files, {} as Record<string, unknown>);
+      for (const hash of collectFileHashes(files)) {
+        archivedFileHashes.add(hash);
+      }
       const drawingData = {
         type: "excalidraw" as const,
         version: 2 as const,
         source: exportSource,
         elements: parseJsonField(drawing.elements, [] as unknown[]),
         appState: parseJsonField(drawing.appState, {} as Record<string, unknown>),
-        files: parseJsonField(drawing.files, {} as Record<string, unknown>),
+        files,
         excalidash: {
           drawingId: drawing.id,
           collectionId: drawing.collectionId ?? null,
@@ -160,20 +200,30 @@ export const registerExcalidashExportRoute = (deps: RegisterImportExportDeps) =>
       archive.append(JSON.stringify(drawingData, null, 2), { name: meta.filePath });
     }
 
+    // Each image is stored once, however many drawings use it.
+    for (const hash of archivedFileHashes) {
+      const file = await drawingFileStore.readFile(hash);
+      if (!file) continue;
+      archive.append(file.bytes, { name: `files/${hash}` });
+    }
+
     const readme = `ExcaliDash Backup (.excalidash)
 
 This file is a zip archive containing a versioned ExcaliDash manifest and your drawings,
-organized into folders by collection.
+organized into folders by collection. Nested collections are stored as nested folders.
 
 Files:
 - excalidash.manifest.json (required)
 - <Collection Folder>/*.excalidraw
+- <Collection Folder>/<Nested Collection Folder>/*.excalidraw
+- files/<sha256> (embedded images, referenced from drawings by their "hash")
 
 ExportedAt: ${exportedAt}
 FormatVersion: 1
 BackendVersion: ${getBackendVersion()}
 Collections: ${collectionsToExport.length}
 Drawings: ${drawings.length}
+Tags: ${userTags.length}
 `;
     archive.append(readme, { name: "README.txt" });
     await archive.finalize();
@@ -6,6 +6,7 @@ import {
   findSqliteTable,
   getCurrentLatestPrismaMigrationName,
   getUserTrashCollectionId,
+  resolveImportedTrashState,
   normalizeNonEmptyId,
   openReadonlySqliteDb,
   parseOptionalJson,
@@ -26,6 +27,8 @@ export const registerLegacySqliteImportRoutes = (deps: RegisterImportExportDeps)
     validateImportedDrawing,
     ensureTrashCollection,
     invalidateDrawingsCache,
+    drawingSearchIndex,
+    drawingFileStore,
     removeFileIfExists,
     verifyDatabaseIntegrityAsync,
     MAX_IMPORT_COLLECTIONS,
@@ -247,16 +250,24 @@ export const registerLegacySqliteImportRoutes = (deps: RegisterImportExportDeps)
             });
           }
 
+          const sanitized = sanitizeDrawingData(importPayload);
+          sanitized.files = await drawingFileStore.externalizeFiles(sanitized.files || {}, req.user!.id);
           preparedDrawings.push({
             importedId: typeof d.id === "string" ? d.id : null,
             name: sanitizeText(importPayload.name, 255) || "Untitled Drawing",
-            sanitized: sanitizeDrawingData(importPayload),
+            sanitized,
             collectionIdRaw: d.collectionId,
             collectionNameRaw: d.collectionName,
             versionRaw: d.version,
           });
         }
 
+        const importedDrawingRows: {
+          id: string;
+          name: string;
+          elements: string;
+          files: Record<string, unknown>;
+        }[] = [];
         const result = await prisma.$transaction(async (tx) => {
           const trashCollectionId = getUserTrashCollectionId(req.user!.id);
           const hasTrash = importedDrawings.some((d) => String(d.collectionId || "") === "trash");
@@ -330,9 +341,11 @@ export const registerLegacySqliteImportRoutes = (deps: RegisterImportExportDeps)
             return null;
           };
 
+
           for (const d of preparedDrawings) {
             const resolvedCollectionId = resolveImportedCollectionId(d.collectionIdRaw, d.collectionNameRaw);
             const existing = d.importedId ? await tx.drawing.findUnique({ where: { id: d.importedId } }) : null;
+            const elements = JSON.stringify(d.sanitized.elements);
 
             if (!existing) {
               const idToUse = d.importedId || uuidv4();
@@ -340,15 +353,17 @@ export const registerLegacySqliteImportRoutes = (deps: RegisterImportExportDeps)
                 data: {
                   id: idToUse,
                   name: d.name,
-                  elements: JSON.stringify(d.sanitized.elements),
+                  elements,
                   appState: JSON.stringify(d.sanitized.appState),
                   files: JSON.stringify(d.sanitized.files || {}),
                   preview: d.sanitized.preview ?? null,
                   version: Number.isFinite(Number(d.versionRaw)) ? Number(d.versionRaw) : 1,
                   userId: req.user!.id,
                   collectionId: resolvedCollectionId ?? null,
+                  ...resolveImportedTrashState(resolvedCollectionId, req.user!.id, null),
                 },
               });
+              importedDrawingRows.push({ id: idToUse, name: d.name, elements, files: d.sanitized.files });
               drawingsCreated += 1;
               continue;
             }
@@ -358,14 +373,16 @@ export const registerLegacySqliteImportRoutes = (deps: RegisterImportExportDeps)
                 where: { id: existing.id },
                 data: {
                   name: d.name,
-                  elements: JSON.stringify(d.sanitized.elements),
+                  elements,
                   appState: JSON.stringify(d.sanitized.appState),
                   files: JSON.stringify(d.sanitized.files || {}),
                   preview: d.sanitized.preview ?? null,
                   version: Number.isFinite(Number(d.versionRaw)) ? Number(d.versionRaw) : existing.version,
                   collectionId: resolvedCollectionId ?? null,
+                  ...resolveImportedTrashState(resolvedCollectionId, req.user!.id, existing),
                 },
               });
+              importedDrawingRows.push({ id: existing.id, name: d.name, elements, files: d.sanitized.files });
               drawingsUpdated += 1;
               continue;
             }
@@ -375,15 +392,17 @@ export const registerLegacySqliteImportRoutes = (deps: RegisterImportExportDeps)
               data: {
                 id: newId,
                 name: d.name,
-                elements: JSON.stringify(d.sanitized.elements),
+                elements,
                 appState: JSON.stringify(d.sanitized.appState),
                 files: JSON.stringify(d.sanitized.files || {}),
                 preview: d.sanitized.preview ?? null,
                 version: Number.isFinite(Number(d.versionRaw)) ? Number(d.versionRaw) : 1,
                 userId: req.user!.id,
                 collectionId: resolvedCollectionId ?? null,
+                ...resolveImportedTrashState(resolvedCollectionId, req.user!.id, null),
               },
             });
+            importedDrawingRows.push({ id: newId, name: d.name, elements, files: d.sanitized.files });
             drawingsCreated += 1;
             drawingIdConflicts += 1;
           }
@@ -394,7 +413,11 @@ export const registerLegacySqliteImportRoutes = (deps: RegisterImportExportDeps)
           };
         });
 
+        for (const drawing of importedDrawingRows) {
+          await drawingFileStore.syncDrawingFileRefs(drawing.id, drawing.files);
+        }
         invalidateDrawingsCache();
+        await drawingSearchIndex.indexDrawings(importedDrawingRows);
         return res.json({ success: true, ...result });
       } catch {
         return res.status(500).json({
@@ -5,6 +5,8 @@ import JSZip from "jszip";
 import { z } from "zod";
 import { Prisma, PrismaClient } from "../../generated/client";
 import { sanitizeDrawingData } from "../../security";
+import type { DrawingSearchIndex } from "../../server/drawingSearchIndex";
+import type { DrawingFileStore } from "../../server/drawingFiles";
 
 export class ImportValidationError extends Error {
   status: number;
@@ -27,6 +29,8 @@ export const excalidashManifestSchemaV1 = z.object({
     z.object({
       id: z.string().min(1),
       name: z.string(),
+      // Added with nested collections; older backups only have top-level collections.
+      parentId: z.string().min(1).nullable().optional(),
       folder: z.string().min(1),
       createdAt: z.string().optional(),
       updatedAt: z.string().optional(),
@@ -38,11 +42,23 @@ export const excalidashManifestSchemaV1 = z.object({
       name: z.string(),
       filePath: z.string().min(1),
       collectionId: z.string().nullable(),
+      tagIds: z.array(z.string().min(1)).max(50).optional(),
       version: z.number().int().optional(),
       createdAt: z.string().optional(),
       updatedAt: z.string().optional(),
     })
   ),
+  // Added after the first release of formatVersion 1; older backups have no tags.
+  tags: z
+    .array(
+      z.object({
+        id: z.string().min(1),
+        name: z.string(),
+        color: z.string().nullable().optional(),
+      })
+    )
+    .max(1000)
+    .optional(),
 });
 
 export type RegisterImportExportDeps = {
@@ -64,6 +80,8 @@ export type RegisterImportExportDeps = {
     userId: string
   ) => Promise<void>;
   invalidateDrawingsCache: () => void;
+  drawingSearchIndex: DrawingSearchIndex;
+  drawingFileStore: DrawingFileStore;
   removeFileIfExists: (filePath?: string) => Promise<void>;
   verifyDatabaseIntegrityAsync: (filePath: string) => Promise<boolean>;
   MAX_IMPORT_ARCHIVE_ENTRIES: number;
@@ -162,6 +180,19 @@ export const toPublicTrashCollectionId = (
 ): string | null =>
   isTrashCollectionId(collectionId, userId) ? "trash" : collectionId ?? null;
 
+/** Trash bookkeeping for an imported drawing; existing trash timestamps are kept on re-import. */
+export const resolveImportedTrashState = (
+  collectionId: string | null,
+  userId: string,
+  existing: { trashedAt: Date | null; previousCollectionId: string | null } | null
+) =>
+  isTrashCollectionId(collectionId, userId)
+    ? {
+        trashedAt: existing?.trashedAt ?? new Date(),
+        previousCollectionId: existing?.previousCollectionId ?? null,
+      }
+    : { trashedAt: null, previousCollectionId: null };
+
 export const findSqliteTable = (tables: string[], candidates: string[]): string | null => {
   const byLower = new Map(tables.map((t) => [t.toLowerCase(), t]));
   for (const candidate of candidates) {
@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import {
+  collectAncestorIds,
+  collectDescendantIds,
+  getSubtreeHeight,
+  normalizeCollectionTree,
+  wouldCreateCycle,
+} from "./collectionTree";
+
+const tree = [
+  { id: "root", parentId: null },
+  { id: "a", parentId: "root" },
+  { id: "b", parentId: "root" },
+  { id: "a1", parentId: "a" },
+  { id: "other", parentId: null },
+];
+
+describe("collectDescendantIds", () => {
+  it("returns the root followed by its nested collections", () => {
+    expect(collectDescendantIds(tree, "root")).toEqual(["root", "a", "b", "a1"]);
+    expect(collectDescendantIds(tree, "other")).toEqual(["other"]);
+  });
+});
+
+describe("collectAncestorIds", () => {
+  it("walks up to the top level, nearest first", () => {
+    expect(collectAncestorIds(tree, "a1")).toEqual(["a", "root"]);
+  });
+
+  it("stops on corrupt cycles", () => {
+    const looped = [
+      { id: "x", parentId: "y" },
+      { id: "y", parentId: "x" },
+    ];
+    expect(collectAncestorIds(looped, "x")).toEqual(["y"]);
+  });
+});
+
+describe("wouldCreateCycle", () => {
+  it("rejects moving a collection into itself or a descendant", () => {
+    expect(wouldCreateCycle(tree, "a", "a")).toBe(true);
+    expect(wouldCreateCycle(tree, "root", "a1")).toBe(true);
+    expect(wouldCreateCycle(tree, "a", "b")).toBe(false);
+  });
+});
+
+describe("getSubtreeHeight", () => {
+  it("counts levels including the root", () => {
+    expect(getSubtreeHeight(tree, "root")).toBe(3);
+    expect(getSubtreeHeight(tree, "b")).toBe(1);
+  });
+});
+
+describe("normalizeCollectionTree", () => {
+  it("drops dangling parents and breaks cycles", () => {
+    expect(
+      normalizeCollectionTree([
+        { id: "x", parentId: "y" },
+        { id: "y", parentId: "x" },
+        { id: "z", parentId: "missing" },
+      ])
+    ).toEqual([
+      { id: "x", parentId: null },
+      { id: "y", parentId: "x" },
+      { id: "z", parentId: null },
+    ]);
+  });
+});
@@ -0,0 +1,91 @@
+export const MAX_COLLECTION_DEPTH = 16;
+
+export type CollectionTreeNode = {
+  id: string;
+  parentId: string | null;
+};
+
+const indexByParent = (collections: CollectionTreeNode[]) => {
+  const childrenByParent = new Map<string, string[]>();
+  for (const collection of collections) {
+    if (!collection.parentId) continue;
+    const siblings = childrenByParent.get(collection.parentId);
+    if (siblings) siblings.push(collection.id);
+    else childrenByParent.set(collection.parentId, [collection.id]);
+  }
+  return childrenByParent;
+};
+
+/** Returns `rootId` followed by every collection nested below it, parents before children. */
+export const collectDescendantIds = (
+  collections: CollectionTreeNode[],
+  rootId: string
+): string[] => {
+  const childrenByParent = indexByParent(collections);
+  const result: string[] = [];
+  const seen = new Set<string>();
+  const queue = [rootId];
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    if (seen.has(id)) continue;
+    seen.add(id);
+    result.push(id);
+    queue.push(...(childrenByParent.get(id) ?? []));
+  }
+  return result;
+};
+
+/** Ancestor ids of `id`, nearest first. Stops at a repeated id so corrupt data cannot loop. */
+export const collectAncestorIds = (
+  collections: CollectionTreeNode[],
+  id: string
+): string[] => {
+  const parentById = new Map(collections.map((collection) => [collection.id, collection.parentId]));
+  const ancestors: string[] = [];
+  const seen = new Set<string>([id]);
+  let current = parentById.get(id) ?? null;
+  while (current && !seen.has(current)) {
+    ancestors.push(current);
+    seen.add(current);
+    current = parentById.get(current) ?? null;
+  }
+  return ancestors;
+};
+
+/** True when placing `id` under `parentId` would make a collection its own ancestor. */
+export const wouldCreateCycle = (
+  collections: CollectionTreeNode[],
+  id: string,
+  parentId: string
+): boolean => parentId === id || collectAncestorIds(collections, parentId).includes(id);
+
+/** Depth of the subtree below `rootId`, counting `rootId` itself as 1. */
+export const getSubtreeHeight = (collections: CollectionTreeNode[], rootId: string): number => {
+  const childrenByParent = indexByParent(collections);
+  const seen = new Set<string>();
+  const heightOf = (id: string): number => {
+    if (seen.has(id)) return 0;
+    seen.add(id);
+    const children = childrenByParent.get(id) ?? [];
+    return 1 + children.reduce((max, childId) => Math.max(max, heightOf(childId)), 0);
+  };
+  return heightOf(rootId);
+};
+
+/**
+ * Breaks any parent cycles and dangling parent references in `collections`, returning a copy
+ * where every `parentId` points at a collection in the list. Used when trusting external input.
+ */
+export const normalizeCollectionTree = <T extends CollectionTreeNode>(collections: T[]): T[] => {
+  const ids = new Set(collections.map((collection) => collection.id));
+  const result = collections.map((collection) => ({
+    ...collection,
+    parentId: collection.parentId && ids.has(collection.parentId) ? collection.parentId : null,
+  }));
+  for (const collection of result) {
+    if (collection.parentId && wouldCreateCycle(result, collection.id, collection.parentId)) {
+      collection.parentId = null;
+    }
+  }
+  return result;
+};
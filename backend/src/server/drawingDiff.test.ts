@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { diffSceneElements } from "./drawingDiff";
+
+const rect = (overrides: Record<string, unknown> = {}) => ({
+  id: "a",
+  type: "rectangle",
+  x: 0,
+  y: 0,
+  width: 10,
+  height: 10,
+  strokeColor: "#000000",
+  version: 1,
+  versionNonce: 1,
+  updated: 1,
+  isDeleted: false,
+  ...overrides,
+});
+
+describe("diffSceneElements", () => {
+  it("reports added and removed elements, treating tombstones as absent", () => {
+    const diff = diffSceneElements(
+      [rect({ id: "gone" }), rect({ id: "revived", isDeleted: true })],
+      [rect({ id: "gone", isDeleted: true, version: 2 }), rect({ id: "revived", version: 2 })]
+    );
+
+    expect(diff.added.map((entry) => entry.id)).toEqual(["revived"]);
+    expect(diff.removed.map((entry) => entry.id)).toEqual(["gone"]);
+    expect(diff.modified).toEqual([]);
+  });
+
+  it("ignores elements whose version metadata and content are unchanged", () => {
+    const diff = diffSceneElements([rect()], [rect()]);
+    expect(diff).toEqual({ added: [], removed: [], modified: [] });
+  });
+
+  it("classifies moves, restyles and text edits", () => {
+    const diff = diffSceneElements(
+      [rect(), rect({ id: "t", type: "text", text: "hello" })],
+      [
+        rect({ x: 20, strokeColor: "#ff0000", version: 2 }),
+        rect({ id: "t", type: "text", text: "hello world", version: 2 }),
+      ]
+    );
+
+    const byId = new Map(diff.modified.map((entry) => [entry.id, entry]));
+    expect(byId.get("a")?.changes).toEqual(["moved", "restyled"]);
+    expect(byId.get("a")?.previousBounds.x).toBe(0);
+    expect(byId.get("a")?.bounds.x).toBe(20);
+    expect(byId.get("t")?.changes).toEqual(["text"]);
+  });
+
+  it("skips version bumps that carry no visible change", () => {
+    const diff = diffSceneElements([rect()], [rect({ version: 5, versionNonce: 9, updated: 9 })]);
+    expect(diff.modified).toEqual([]);
+  });
+
+  it("derives bounds for linear elements from their points", () => {
+    const diff = diffSceneElements(
+      [],
+      [rect({ id: "line", type: "line", x: 5, y: 5, points: [[0, 0], [-5, 10]] })]
+    );
+
+    expect(diff.added[0].bounds).toEqual({ x: 0, y: 5, width: 5, height: 10 });
+  });
+});
@@ -0,0 +1,193 @@
+type SceneElement = Record<string, unknown> & { id: string };
+
+export type ElementChangeKind = "moved" | "restyled" | "text" | "other";
+
+export type ElementBounds = { x: number; y: number; width: number; height: number };
+
+export type ElementDiffEntry = {
+  id: string;
+  type: string | null;
+  bounds: ElementBounds;
+};
+
+export type ModifiedElementDiffEntry = ElementDiffEntry & {
+  changes: ElementChangeKind[];
+  previousBounds: ElementBounds;
+};
+
+export type SceneDiff = {
+  added: ElementDiffEntry[];
+  removed: ElementDiffEntry[];
+  modified: ModifiedElementDiffEntry[];
+};
+
+const GEOMETRY_KEYS = ["x", "y", "width", "height", "angle", "points"] as const;
+const STYLE_KEYS = [
+  "strokeColor",
+  "backgroundColor",
+  "fillStyle",
+  "strokeWidth",
+  "strokeStyle",
+  "roughness",
+  "opacity",
+  "roundness",
+  "fontSize",
+  "fontFamily",
+  "textAlign",
+  "verticalAlign",
+  "startArrowhead",
+  "endArrowhead",
+] as const;
+const TEXT_KEYS = ["text", "originalText"] as const;
+
+const VERSION_METADATA_KEYS = new Set(["version", "versionNonce", "updated", "seed"]);
+
+const listContentKeys = (a: SceneElement, b: SceneElement): string[] =>
+  Array.from(new Set([...Object.keys(a), ...Object.keys(b)])).filter(
+    (key) => !VERSION_METADATA_KEYS.has(key)
+  );
+
+const isSceneElement = (value: unknown): value is SceneElement =>
+  typeof value === "object" &&
+  value !== null &&
+  typeof (value as { id?: unknown }).id === "string";
+
+const toFiniteNumber = (value: unknown): number => {
+  if (typeof value === "number") return Number.isFinite(value) ? value : 0;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : 0;
+};
+
+const isLiveElement = (element: SceneElement | undefined): element is SceneElement =>
+  element !== undefined && element.isDeleted !== true;
+
+/**
+ * Mirrors the content signature used by `reconcileElements` on the client so that an
+ * element is only reported as changed when collaborators would also treat it as changed.
+ */
+const getContentSig = (element: SceneElement): string => {
+  const type = typeof element.type === "string" ? element.type : "";
+  const isDeleted = element.isDeleted ? "1" : "0";
+  const status = typeof element.status === "string" ? element.status : "";
+  let pointsSig = "";
+  if (Array.isArray(element.points)) {
+    const points = element.points as unknown[];
+    const last = points.length > 0 ? points[points.length - 1] : null;
+    const lastX = Array.isArray(last) ? toFiniteNumber(last[0]) : 0;
+    const lastY = Array.isArray(last) ? toFiniteNumber(last[1]) : 0;
+    pointsSig = `p${points.length}:${lastX},${lastY}`;
+  }
+  const text = typeof element.text === "string" ? element.text : "";
+  const textSig = text ? `t${text.length}:${text.slice(0, 64)}` : "";
+  const fileId = typeof element.fileId === "string" ? element.fileId : "";
+  return [
+    type,
+    isDeleted,
+    status,
+    toFiniteNumber(element.x),
+    toFiniteNumber(element.y),
+    toFiniteNumber(element.width),
+    toFiniteNumber(element.height),
+    toFiniteNumber(element.angle),
+    pointsSig,
+    fileId,
+    textSig,
+  ].join("|");
+};
+
+const hasSameVersionMetadata = (a: SceneElement, b: SceneElement): boolean =>
+  toFiniteNumber(a.version) === toFiniteNumber(b.version) &&
+  toFiniteNumber(a.versionNonce) === toFiniteNumber(b.versionNonce) &&
+  toFiniteNumber(a.updated) === toFiniteNumber(b.updated) &&
+  getContentSig(a) === getContentSig(b);
+
+const differs = (a: SceneElement, b: SceneElement, keys: readonly string[]): boolean =>
+  keys.some((key) => JSON.stringify(a[key] ?? null) !== JSON.stringify(b[key] ?? null));
+
+export const getElementBounds = (element: SceneElement): ElementBounds => {
+  const x = toFiniteNumber(element.x);
+  const y = toFiniteNumber(element.y);
+  if (Array.isArray(element.points) && element.points.length > 0) {
+    const xs: number[] = [];
+    const ys: number[] = [];
+    for (const point of element.points as unknown[]) {
+      if (!Array.isArray(point)) continue;
+      xs.push(toFiniteNumber(point[0]));
+      ys.push(toFiniteNumber(point[1]));
+    }
+    if (xs.length > 0) {
+      const minX = Math.min(...xs);
+      const minY = Math.min(...ys);
+      return {
+        x: x + minX,
+        y: y + minY,
+        width: Math.max(...xs) - minX,
+        height: Math.max(...ys) - minY,
+      };
+    }
+  }
+  return {
+    x,
+    y,
+    width: toFiniteNumber(element.width),
+    height: toFiniteNumber(element.height),
+  };
+};
+
+const toEntry = (element: SceneElement): ElementDiffEntry => ({
+  id: element.id,
+  type: typeof element.type === "string" ? element.type : null,
+  bounds: getElementBounds(element),
+});
+
+const indexElements = (elements: unknown[]): Map<string, SceneElement> => {
+  const byId = new Map<string, SceneElement>();
+  for (const element of elements) {
+    if (isSceneElement(element)) byId.set(element.id, element);
+  }
+  return byId;
+};
+
+/**
+ * Compares two scene snapshots by element id. Deleted tombstones count as absent, so an
+ * element deleted between `from` and `to` is reported as removed.
+ */
+export const diffSceneElements = (fromElements: unknown[], toElements: unknown[]): SceneDiff => {
+  const fromById = indexElements(fromElements);
+  const toById = indexElements(toElements);
+  const diff: SceneDiff = { added: [], removed: [], modified: [] };
+
+  for (const [id, next] of toById) {
+    const previous = fromById.get(id);
+    if (!isLiveElement(next)) continue;
+    if (!isLiveElement(previous)) {
+      diff.added.push(toEntry(next));
+      continue;
+    }
+    if (hasSameVersionMetadata(previous, next)) continue;
+
+    const changes: ElementChangeKind[] = [];
+    if (differs(previous, next, GEOMETRY_KEYS)) changes.push("moved");
+    if (differs(previous, next, STYLE_KEYS)) changes.push("restyled");
+    if (differs(previous, next, TEXT_KEYS)) changes.push("text");
+    if (changes.length === 0) {
+      // Version bumps without a visible change (e.g. a restore re-stamping elements) are not diffs.
+      if (!differs(previous, next, listContentKeys(previous, next))) continue;
+      changes.push("other");
+    }
+
+    diff.modified.push({
+      ...toEntry(next),
+      changes,
+      previousBounds: getElementBounds(previous),
+    });
+  }
+
+  for (const [id, previous] of fromById) {
+    if (!isLiveElement(previous)) continue;
+    if (isLiveElement(toById.get(id))) continue;
+    diff.removed.push(toEntry(previous));
+  }
+
+  return diff;
+};
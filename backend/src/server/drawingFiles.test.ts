@@ -0,0 +1,157 @@
+import { describe, expect, it, vi } from "vitest";
+import type { DrawingAccess } from "../authz/sharing";
+import {
+  collectFileHashes,
+  createDrawingFileStore,
+  isDrawingFileHash,
+  parseImageDataUrl,
+} from "./drawingFiles";
+
+const access = new Map<string, DrawingAccess>();
+
+vi.mock("../authz/sharing", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../authz/sharing")>()),
+  getDrawingAccess: vi.fn(
+    async ({ principal, drawingId }: { principal: { userId: string } | null; drawingId: string }) =>
+      access.get(`${principal?.userId}:${drawingId}`) ?? "none"
+  ),
+}));
+
+const HASH = "a".repeat(64);
+
+describe("parseImageDataUrl", () => {
+  it("decodes supported base64 images and normalizes jpg", () => {
+    const parsed = parseImageDataUrl("data:image/JPG;base64,AAEC");
+    expect(parsed?.mimeType).toBe("image/jpeg");
+    expect(Array.from(parsed!.bytes)).toEqual([0, 1, 2]);
+  });
+
+  it("rejects other types, non-base64 and empty payloads", () => {
+    expect(parseImageDataUrl("data:text/html;base64,AAEC")).toBeNull();
+    expect(parseImageDataUrl("data:image/png,raw")).toBeNull();
+    expect(parseImageDataUrl("data:image/png;base64,")).toBeNull();
+  });
+});
+
+describe("collectFileHashes", () => {
+  it("returns each referenced hash once and ignores inline or malformed entries", () => {
+    expect(
+      collectFileHashes({
+        a: { id: "a", hash: HASH },
+        b: { id: "b", hash: HASH },
+        c: { id: "c", dataURL: "data:image/png;base64,AA" },
+        d: { id: "d", hash: "not-a-hash" },
+        e: null,
+      })
+    ).toEqual([HASH]);
+    expect(collectFileHashes(null)).toEqual([]);
+  });
+
+  it("only accepts lowercase sha256 hex as a hash", () => {
+    expect(isDrawingFileHash(HASH)).toBe(true);
+    expect(isDrawingFileHash(HASH.toUpperCase())).toBe(false);
+    expect(isDrawingFileHash(`${HASH}0`)).toBe(false);
+  });
+});
+
+describe("externalizeFiles", () => {
+  // HASH was uploaded first by "owner", later by "second", and is used by owner's drawing d1.
+  // Revisions of d3 only mention it outside an entry's `hash`; d4 had it as a real entry.
+  const createStore = () => {
+    const refs = [{ drawingId: "d1", fileHash: HASH }];
+    const revisions = [
+      { drawingId: "d3", files: JSON.stringify({ [HASH]: { id: "x", note: HASH, hash: `${HASH}0` } }) },
+      { drawingId: "d4", files: JSON.stringify({ img: { id: "img", hash: HASH } }) },
+    ];
+    const uploads = [
+      { fileHash: HASH, userId: "owner" },
+      { fileHash: HASH, userId: "second" },
+    ];
+    const prisma = {
+      drawingFile: {
+        findMany: vi.fn(async ({ where }: any) =>
+          where.hash.in.includes(HASH) ? [{ hash: HASH, createdByUserId: "owner" }] : []
+        ),
+      },
+      drawingFileRef: {
+        findUnique: vi.fn(async ({ where }: any) =>
+          refs.find(
+            (ref) =>
+              ref.drawingId === where.drawingId_fileHash.drawingId &&
+              ref.fileHash === where.drawingId_fileHash.fileHash
+          ) ?? null
+        ),
+        findFirst: vi.fn(async () => null),
+        findMany: vi.fn(async ({ where }: any) =>
+          refs.filter(
+            (ref) =>
+              (!where.drawingId || ref.drawingId === where.drawingId) &&
+              (typeof where.fileHash === "string"
+                ? ref.fileHash === where.fileHash
+                : where.fileHash.in.includes(ref.fileHash))
+          )
+        ),
+      },
+      drawingFileUpload: {
+        findUnique: vi.fn(async ({ where }: any) =>
+          uploads.find(
+            (upload) =>
+              upload.fileHash === where.fileHash_userId.fileHash &&
+              upload.userId === where.fileHash_userId.userId
+          ) ?? null
+        ),
+      },
+      drawingRevision: {
+        findMany: vi.fn(async ({ where }: any) =>
+          revisions.filter(
+            (revision) =>
+              revision.drawingId === where.drawingId && revision.files.includes(where.files.contains)
+          )
+        ),
+      },
+    };
+    return createDrawingFileStore(prisma as any, { rootDir: "/nonexistent" });
+  };
+  const files = { img: { id: "img", mimeType: "image/png", hash: HASH } };
+
+  it("drops hash references the saving user cannot read", async () => {
+    access.clear();
+    const store = createStore();
+    expect(await store.externalizeFiles(files, "stranger", { drawingId: "d2" })).toEqual({});
+    expect(await store.externalizeFiles(files, null, { drawingId: "d2" })).toEqual({});
+  });
+
+  it("keeps hashes the drawing already has, the user uploaded or can view elsewhere", async () => {
+    access.clear();
+    const store = createStore();
+    expect(await store.externalizeFiles(files, "stranger", { drawingId: "d1" })).toEqual(files);
+    expect(await store.externalizeFiles(files, "owner", { drawingId: "d2" })).toEqual(files);
+    expect(await store.externalizeFiles(files, "second", { drawingId: "d2" })).toEqual(files);
+
+    access.set("viewer:d1", "view");
+    expect(await store.externalizeFiles(files, "viewer", { drawingId: "d2" })).toEqual(files);
+  });
+
+  it("drops entries whose hash is malformed", async () => {
+    access.clear();
+    const store = createStore();
+    expect(
+      await store.externalizeFiles(
+        { bad: { id: "bad", hash: `${HASH}0` }, meta: { id: "meta", mimeType: "image/png" } },
+        "owner",
+        { drawingId: "d1" }
+      )
+    ).toEqual({ meta: { id: "meta", mimeType: "image/png" } });
+  });
+
+  it("only counts revisions that reference the hash as an entry's hash", async () => {
+    access.clear();
+    access.set("editor:d3", "edit");
+    access.set("editor:d4", "view");
+    const store = createStore();
+    const principal = { kind: "user" as const, userId: "editor" };
+    const file = { hash: HASH, createdByUserId: "owner" };
+    expect(await store.canReadFile(principal, file, "d3")).toBe(false);
+    expect(await store.canReadFile(principal, file, "d4")).toBe(true);
+  });
+});
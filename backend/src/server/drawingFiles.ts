@@ -0,0 +1,440 @@
+import crypto from "crypto";
+import path from "path";
+import { promises as fsPromises } from "fs";
+import { PrismaClient } from "../generated/client";
+import { DrawingPrincipal, canViewDrawing, getDrawingAccess } from "../authz/sharing";
+
+export const DRAWING_FILE_MIME_TYPES = new Set([
+  "image/png",
+  "image/jpeg",
+  "image/gif",
+  "image/webp",
+  "image/svg+xml",
+]);
+
+const BATCH_SIZE = 20;
+const MAX_REFERENCES_CHECKED = 50;
+// Matches how JSON.stringify writes an inline image, so the migration can skip clean rows in SQL.
+const INLINE_DATA_URL_MARKER = "\"dataURL\":\"data:";
+
+type FileEntry = Record<string, unknown>;
+
+type DrawingFileStoreOptions = {
+  rootDir: string;
+};
+
+type ExternalizeFilesOptions = {
+  /** Drawing the files are saved to; hashes it already references are kept without a check. */
+  drawingId?: string | null;
+};
+
+export const isDrawingFileHash = (value: unknown): value is string =>
+  typeof value === "string" && /^[a-f0-9]{64}$/.test(value);
+
+export const hashFileBytes = (bytes: Buffer): string =>
+  crypto.createHash("sha256").update(bytes).digest("hex");
+
+const normalizeMimeType = (value: string): string => {
+  const lower = value.trim().toLowerCase();
+  return lower === "image/jpg" ? "image/jpeg" : lower;
+};
+
+/** Decodes a base64 image data URL; anything else (or an unsupported type) yields null. */
+export const parseImageDataUrl = (
+  dataURL: string
+): { mimeType: string; bytes: Buffer } | null => {
+  const match = /^data:([a-z0-9.+/-]+);base64,(.*)$/is.exec(dataURL);
+  if (!match) return null;
+  const mimeType = normalizeMimeType(match[1]);
+  if (!DRAWING_FILE_MIME_TYPES.has(mimeType)) return null;
+  const bytes = Buffer.from(match[2].replace(/\s+/g, ""), "base64");
+  return bytes.length > 0 ? { mimeType, bytes } : null;
+};
+
+const isFileEntry = (value: unknown): value is FileEntry =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const parseFilesJson = (raw: string): Record<string, unknown> => {
+  try {
+    const parsed = JSON.parse(raw);
+    return isFileEntry(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+};
+
+/** Hashes of stored files a `Drawing.files` map points at. */
+export const collectFileHashes = (files: unknown): string[] => {
+  if (!isFileEntry(files)) return [];
+  const hashes = new Set<string>();
+  for (const entry of Object.values(files)) {
+    if (isFileEntry(entry) && isDrawingFileHash(entry.hash)) hashes.add(entry.hash);
+  }
+  return Array.from(hashes);
+};
+
+/**
+ * Content-addressed store for embedded images. Bytes are written once per sha256 under
+ * `rootDir/<first two hex chars>/<hash>`; drawings keep `{ id, mimeType, hash }` entries and
+ * `DrawingFileRef` rows record which drawings point at which file.
+ */
+export const createDrawingFileStore = (
+  prisma: PrismaClient,
+  options: DrawingFileStoreOptions
+) => {
+  const rootDir = path.resolve(options.rootDir);
+
+  const getFilePath = (hash: string): string => {
+    if (!isDrawingFileHash(hash)) throw new Error("Invalid file hash");
+    return path.join(rootDir, hash.slice(0, 2), hash);
+  };
+
+  const writeBlobIfMissing = async (hash: string, bytes: Buffer) => {
+    const filePath = getFilePath(hash);
+    const exists = await fsPromises.access(filePath).then(
+      () => true,
+      () => false
+    );
+    if (exists) return;
+    await fsPromises.mkdir(path.dirname(filePath), { recursive: true });
+    const tempPath = `${filePath}.${crypto.randomBytes(6).toString("hex")}.tmp`;
+    await fsPromises.writeFile(tempPath, bytes);
+    await fsPromises.rename(tempPath, filePath);
+  };
+
+  const putFile = async (params: {
+    bytes: Buffer;
+    mimeType: string;
+    createdByUserId?: string | null;
+  }): Promise<{ hash: string; size: number; mimeType: string }> => {
+    const hash = hashFileBytes(params.bytes);
+    const mimeType = normalizeMimeType(params.mimeType);
+    await writeBlobIfMissing(hash, params.bytes);
+    await prisma.drawingFile.upsert({
+      where: { hash },
+      update: {},
+      create: {
+        hash,
+        mimeType,
+        size: params.bytes.length,
+        createdByUserId: params.createdByUserId ?? null,
+      },
+    });
+    if (params.createdByUserId) {
+      await prisma.drawingFileUpload.upsert({
+        where: { fileHash_userId: { fileHash: hash, userId: params.createdByUserId } },
+        update: {},
+        create: { fileHash: hash, userId: params.createdByUserId },
+      });
+    }
+    return { hash, size: params.bytes.length, mimeType };
+  };
+
+  const readFile = async (
+    hash: string
+  ): Promise<{ mimeType: string; size: number; bytes: Buffer } | null> => {
+    if (!isDrawingFileHash(hash)) return null;
+    const record = await prisma.drawingFile.findUnique({ where: { hash } });
+    if (!record) return null;
+    try {
+      const bytes = await fsPromises.readFile(getFilePath(hash));
+      return { mimeType: record.mimeType, size: record.size, bytes };
+    } catch (error) {
+      console.error("Stored drawing file is missing on disk", { hash, error });
+      return null;
+    }
+  };
+
+  const canViewAnyDrawing = async (principal: DrawingPrincipal | null, drawingIds: string[]) => {
+    for (const drawingId of drawingIds) {
+      const access = await getDrawingAccess({ prisma, principal, drawingId });
+      if (canViewDrawing(access)) return true;
+    }
+    return false;
+  };
+
+  /**
+   * A file is readable by everyone who uploaded its bytes and by anyone who can view a drawing
+   * that references it. `drawingIdHint` names the drawing being loaded, which also covers
+   * link-share visitors without scanning every reference.
+   */
+  const canReadFile = async (
+    principal: DrawingPrincipal | null,
+    file: { hash: string; createdByUserId: string | null },
+    drawingIdHint: string | null
+  ): Promise<boolean> => {
+    if (principal && file.createdByUserId === principal.userId) return true;
+    if (principal) {
+      const uploaded = await prisma.drawingFileUpload.findUnique({
+        where: { fileHash_userId: { fileHash: file.hash, userId: principal.userId } },
+        select: { userId: true },
+      });
+      if (uploaded) return true;
+    }
+
+    if (drawingIdHint) {
+      const ref = await prisma.drawingFileRef.findUnique({
+        where: { drawingId_fileHash: { drawingId: drawingIdHint, fileHash: file.hash } },
+        select: { drawingId: true },
+      });
+      // Revisions are not tracked by refs, so older versions of the drawing count as well. The
+      // substring filter only narrows the rows; an entry's `hash` has to match exactly.
+      const referenced =
+        ref ??
+        (
+          await prisma.drawingRevision.findMany({
+            where: { drawingId: drawingIdHint, files: { contains: file.hash } },
+            select: { drawingId: true, files: true },
+          })
+        ).find((revision) => collectFileHashes(parseFilesJson(revision.files)).includes(file.hash));
+      if (referenced && (await canViewAnyDrawing(principal, [referenced.drawingId]))) return true;
+    }
+
+    // Refs only exist for hashes their drawing's editors could read (see externalizeFiles).
+    if (principal) {
+      const owned = await prisma.drawingFileRef.findFirst({
+        where: { fileHash: file.hash, drawing: { userId: principal.userId } },
+        select: { drawingId: true },
+      });
+      if (owned) return true;
+    }
+
+    const refs = await prisma.drawingFileRef.findMany({
+      where: { fileHash: file.hash },
+      select: { drawingId: true },
+      orderBy: { createdAt: "asc" },
+      take: MAX_REFERENCES_CHECKED,
+    });
+    return canViewAnyDrawing(principal, refs.map((ref) => ref.drawingId));
+  };
+
+  /**
+   * Hash references a save may keep: ones the drawing already has, and stored files the saving
+   * user can read. Knowing a hash is not enough, or it would grant read access to the file.
+   */
+  const findClaimableHashes = async (
+    hashes: string[],
+    userId: string | null,
+    drawingId: string | null
+  ): Promise<Set<string>> => {
+    const claimable = new Set<string>();
+    if (hashes.length === 0) return claimable;
+    if (drawingId) {
+      const refs = await prisma.drawingFileRef.findMany({
+        where: { drawingId, fileHash: { in: hashes } },
+        select: { fileHash: true },
+      });
+      for (const ref of refs) claimable.add(ref.fileHash);
+    }
+    const unchecked = hashes.filter((hash) => !claimable.has(hash));
+    if (unchecked.length === 0) return claimable;
+
+    const principal: DrawingPrincipal | null = userId ? { kind: "user", userId } : null;
+    const records = await prisma.drawingFile.findMany({
+      where: { hash: { in: unchecked } },
+      select: { hash: true, createdByUserId: true },
+    });
+    for (const record of records) {
+      if (await canReadFile(principal, record, drawingId)) claimable.add(record.hash);
+    }
+    return claimable;
+  };
+
+  /**
+   * Moves inline `dataURL`s of an (already sanitized) files map into the store and returns the
+   * map with `hash` references instead. Entries the store cannot take are left untouched; malformed
+   * hashes and hash references `createdByUserId` may not claim are dropped.
+   */
+  const externalizeFiles = async (
+    files: Record<string, unknown>,
+    createdByUserId?: string | null,
+    options: ExternalizeFilesOptions = {}
+  ): Promise<Record<string, unknown>> => {
+    const referencedHashes = new Set<string>();
+    for (const entry of Object.values(files)) {
+      if (!isFileEntry(entry) || (typeof entry.dataURL === "string" && entry.dataURL.length > 0)) continue;
+      if (isDrawingFileHash(entry.hash)) referencedHashes.add(entry.hash);
+    }
+    const claimable = await findClaimableHashes(
+      [...referencedHashes],
+      createdByUserId ?? null,
+      options.drawingId ?? null
+    );
+    const result: Record<string, unknown> = {};
+    for (const [fileId, entry] of Object.entries(files)) {
+      if (!isFileEntry(entry)) {
+        result[fileId] = entry;
+        continue;
+      }
+      const { dataURL, ...rest } = entry;
+      if (typeof dataURL === "string" && dataURL.length > 0) {
+        const parsed = parseImageDataUrl(dataURL);
+        if (!parsed) {
+          result[fileId] = entry;
+          continue;
+        }
+        const stored = await putFile({ ...parsed, createdByUserId });
+        result[fileId] = { ...rest, mimeType: stored.mimeType, hash: stored.hash, size: stored.size };
+        continue;
+      }
+      if (rest.hash === undefined) {
+        result[fileId] = entry;
+      } else if (isDrawingFileHash(rest.hash) && claimable.has(rest.hash)) {
+        result[fileId] = rest;
+      }
+    }
+    return result;
+  };
+
+  /**
+   * Makes `DrawingFileRef` rows match the hashes in a drawing's files map. Callers pass maps
+   * that went through `externalizeFiles` or were copied from a drawing the user can read.
+   */
+  const syncDrawingFileRefs = async (
+    drawingId: string,
+    files: Record<string, unknown> | string
+  ): Promise<void> => {
+    const hashes = collectFileHashes(typeof files === "string" ? parseFilesJson(files) : files);
+    await prisma.drawingFileRef.deleteMany({
+      where: { drawingId, fileHash: { notIn: hashes } },
+    });
+    if (hashes.length === 0) return;
+
+    const [existingRefs, storedFiles] = await Promise.all([
+      prisma.drawingFileRef.findMany({ where: { drawingId }, select: { fileHash: true } }),
+      prisma.drawingFile.findMany({ where: { hash: { in: hashes } }, select: { hash: true } }),
+    ]);
+    const referenced = new Set(existingRefs.map((ref) => ref.fileHash));
+    const missing = storedFiles
+      .map((file) => file.hash)
+      .filter((hash) => !referenced.has(hash));
+    if (missing.length === 0) return;
+    await prisma.drawingFileRef.createMany({
+      data: missing.map((fileHash) => ({ drawingId, fileHash })),
+    });
+  };
+
+  /**
+   * One-off upgrade of rows written before the store existed: drawings and revisions that still
+   * carry inline images are rewritten with hash references. Safe to run on every startup.
+   */
+  const migrateInlineFiles = async (): Promise<number> => {
+    let migrated = 0;
+
+    let drawingCursor: string | undefined;
+    for (;;) {
+      const drawings = await prisma.drawing.findMany({
+        where: {
+          files: { contains: INLINE_DATA_URL_MARKER },
+          ...(drawingCursor ? { id: { gt: drawingCursor } } : {}),
+        },
+        select: { id: true, userId: true, files: true, updatedAt: true },
+        orderBy: { id: "asc" },
+        take: BATCH_SIZE,
+      });
+      if (drawings.length === 0) break;
+      drawingCursor = drawings[drawings.length - 1].id;
+
+      for (const drawing of drawings) {
+        const files = await externalizeFiles(parseFilesJson(drawing.files), drawing.userId, {
+          drawingId: drawing.id,
+        });
+        await prisma.drawing.update({
+          where: { id: drawing.id },
+          data: { files: JSON.stringify(files), updatedAt: drawing.updatedAt },
+        });
+        await syncDrawingFileRefs(drawing.id, files);
+        migrated += 1;
+      }
+    }
+
+    let revisionCursor: string | undefined;
+    for (;;) {
+      const revisions = await prisma.drawingRevision.findMany({
+        where: {
+          files: { contains: INLINE_DATA_URL_MARKER },
+          ...(revisionCursor ? { id: { gt: revisionCursor } } : {}),
+        },
+        select: {
+          id: true,
+          drawingId: true,
+          files: true,
+          updatedAt: true,
+          drawing: { select: { userId: true } },
+        },
+        orderBy: { id: "asc" },
+        take: BATCH_SIZE,
+      });
+      if (revisions.length === 0) break;
+      revisionCursor = revisions[revisions.length - 1].id;
+
+      for (const revision of revisions) {
+        const files = await externalizeFiles(parseFilesJson(revision.files), revision.drawing.userId, {
+          drawingId: revision.drawingId,
+        });
+        await prisma.drawingRevision.update({
+          where: { id: revision.id },
+          data: { files: JSON.stringify(files), updatedAt: revision.updatedAt },
+        });
+      }
+    }
+
+    return migrated;
+  };
+
+  /**
+   * Deletes stored files that no drawing references anymore and that no revision mentions, so
+   * restoring an old version keeps its images. Files created after `createdBefore` are kept:
+   * the editor uploads images before the save that references them.
+   */
+  const deleteUnreferencedFiles = async (
+    createdBefore: Date
+  ): Promise<{ count: number; bytes: number }> => {
+    let count = 0;
+    let bytes = 0;
+    let cursor: string | undefined;
+    for (;;) {
+      const candidates = await prisma.drawingFile.findMany({
+        where: {
+          createdAt: { lt: createdBefore },
+          references: { none: {} },
+          ...(cursor ? { hash: { gt: cursor } } : {}),
+        },
+        select: { hash: true, size: true },
+        orderBy: { hash: "asc" },
+        take: BATCH_SIZE,
+      });
+      if (candidates.length === 0) break;
+      cursor = candidates[candidates.length - 1].hash;
+
+      for (const candidate of candidates) {
+        const revision = await prisma.drawingRevision.findFirst({
+          where: { files: { contains: candidate.hash } },
+          select: { id: true },
+        });
+        if (revision) continue;
+
+        const deleted = await prisma.drawingFile.deleteMany({
+          where: { hash: candidate.hash, references: { none: {} } },
+        });
+        if (deleted.count === 0) continue;
+        await fsPromises.rm(getFilePath(candidate.hash), { force: true });
+        count += 1;
+        bytes += candidate.size;
+      }
+    }
+    return { count, bytes };
+  };
+
+  return {
+    putFile,
+    readFile,
+    canReadFile,
+    externalizeFiles,
+    syncDrawingFileRefs,
+    migrateInlineFiles,
+    deleteUnreferencedFiles,
+  };
+};
+
+export type DrawingFileStore = ReturnType<typeof createDrawingFileStore>;
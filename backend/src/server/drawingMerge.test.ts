@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import { mergeSceneElements } from "./drawingMerge";
+
+const element = (id: string, version: number, extra: Record<string, unknown> = {}) => ({
+  id,
+  type: "rectangle",
+  version,
+  versionNonce: version,
+  updated: version,
+  ...extra,
+});
+
+describe("mergeSceneElements", () => {
+  it("keeps each side's changes to elements only it touched", () => {
+    const base = [element("a", 1), element("b", 1)];
+    const stored = [element("a", 2, { x: 5 }), element("b", 1), element("s", 1)];
+    const incoming = [element("a", 1), element("b", 3, { x: 7 }), element("i", 1)];
+
+    const result = mergeSceneElements({ base, stored, incoming });
+    if (!("elements" in result)) throw new Error("expected a merge");
+    expect(result.elements.map((el) => [el.id, el.version])).toEqual([
+      ["a", 2],
+      ["b", 3],
+      ["i", 1],
+      ["s", 1],
+    ]);
+  });
+
+  it("lets the stored copy win when the incoming one did not change it, even at a lower version", () => {
+    const base = [element("a", 4)];
+    const stored = [element("a", 2, { versionNonce: 99 })];
+    const result = mergeSceneElements({ base, stored, incoming: base });
+    if (!("elements" in result)) throw new Error("expected a merge");
+    expect(result.elements[0]).toMatchObject({ version: 2, versionNonce: 99 });
+  });
+
+  it("resolves elements both sides changed like reconcileElements", () => {
+    const base = [element("a", 1), element("b", 1)];
+    const stored = [element("a", 3), element("b", 2, { updated: 10, versionNonce: 1 })];
+    const incoming = [element("a", 2), element("b", 2, { updated: 10, versionNonce: 2 })];
+
+    const result = mergeSceneElements({ base, stored, incoming });
+    if (!("elements" in result)) throw new Error("expected a merge");
+    expect(result.elements.find((el) => el.id === "a")?.version).toBe(3);
+    expect(result.elements.find((el) => el.id === "b")?.versionNonce).toBe(2);
+  });
+
+  it("reports edits whose metadata is identical but content differs", () => {
+    const base = [element("a", 1)];
+    const stored = [element("a", 2, { x: 1 })];
+    const incoming = [element("a", 2, { x: 2 })];
+    expect(mergeSceneElements({ base, stored, incoming })).toEqual({
+      ok: false,
+      conflictingElementIds: ["a"],
+    });
+  });
+});
@@ -0,0 +1,94 @@
+export type SceneElement = Record<string, unknown> & { id: string };
+
+export type SceneMergeResult =
+  | { ok: true; elements: SceneElement[] }
+  | { ok: false; conflictingElementIds: string[] };
+
+export const isSceneElement = (value: unknown): value is SceneElement =>
+  typeof value === "object" &&
+  value !== null &&
+  typeof (value as { id?: unknown }).id === "string";
+
+const toFiniteNumber = (value: unknown): number => {
+  const n = typeof value === "number" ? value : Number(value);
+  return Number.isFinite(n) ? n : 0;
+};
+
+const readVersion = (element: SceneElement) => toFiniteNumber(element.version);
+const readVersionNonce = (element: SceneElement) => toFiniteNumber(element.versionNonce);
+const readUpdated = (element: SceneElement) => toFiniteNumber(element.updated);
+
+const indexById = (elements: unknown[]): Map<string, SceneElement> => {
+  const byId = new Map<string, SceneElement>();
+  for (const element of elements) {
+    if (isSceneElement(element) && !byId.has(element.id)) byId.set(element.id, element);
+  }
+  return byId;
+};
+
+const isSameRevision = (a: SceneElement, b: SceneElement) =>
+  readVersion(a) === readVersion(b) && readVersionNonce(a) === readVersionNonce(b);
+
+/**
+ * Same ordering as the editor's `reconcileElements` with the stored copy as "local" and the
+ * incoming one as "remote": higher version, then later `updated`, then a differing nonce lets the
+ * incoming copy win. Null when both carry identical metadata but different content, which
+ * reconcile only tolerates for live frames and a stored scene can't resolve.
+ */
+export const pickNewerElement = (stored: SceneElement, incoming: SceneElement): SceneElement | null => {
+  if (readVersion(incoming) !== readVersion(stored)) {
+    return readVersion(incoming) > readVersion(stored) ? incoming : stored;
+  }
+  if (readUpdated(incoming) !== readUpdated(stored)) {
+    return readUpdated(incoming) > readUpdated(stored) ? incoming : stored;
+  }
+  if (readVersionNonce(incoming) !== readVersionNonce(stored)) return incoming;
+  return JSON.stringify(incoming) === JSON.stringify(stored) ? stored : null;
+};
+
+/**
+ * Element-wise three-way merge of a save made against `base` into the `stored` scene.
+ * An element only one side changed since the base keeps that side's copy; elements both
+ * sides touched fall back to reconcile ordering. Elements missing from `incoming` are kept
+ * (deletions travel as `isDeleted` tombstones). The result follows the incoming z-order,
+ * with elements only the stored scene knows about after it.
+ */
+export const mergeSceneElements = (params: {
+  base: unknown[];
+  stored: unknown[];
+  incoming: unknown[];
+}): SceneMergeResult => {
+  const baseById = indexById(params.base);
+  const storedById = indexById(params.stored);
+  const incomingById = indexById(params.incoming);
+
+  const merged: SceneElement[] = [];
+  const conflictingElementIds: string[] = [];
+
+  for (const incoming of incomingById.values()) {
+    const stored = storedById.get(incoming.id);
+    if (!stored) {
+      merged.push(incoming);
+      continue;
+    }
+    const base = baseById.get(incoming.id);
+    if (base && isSameRevision(incoming, base)) {
+      merged.push(stored);
+      continue;
+    }
+    if (base && isSameRevision(stored, base)) {
+      merged.push(incoming);
+      continue;
+    }
+    const winner = pickNewerElement(stored, incoming);
+    if (winner) merged.push(winner);
+    else conflictingElementIds.push(incoming.id);
+  }
+
+  for (const stored of storedById.values()) {
+    if (!incomingById.has(stored.id)) merged.push(stored);
+  }
+
+  if (conflictingElementIds.length > 0) return { ok: false, conflictingElementIds };
+  return { ok: true, elements: merged };
+};
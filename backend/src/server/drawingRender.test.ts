@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import {
+  createDrawingRenderCache,
+  rasterizeSvg,
+  renderDrawingSvg,
+  toDarkModeColor,
+} from "./drawingRender";
+
+const baseElement = {
+  strokeColor: "#1e1e1e",
+  backgroundColor: "transparent",
+  fillStyle: "solid",
+  strokeWidth: 2,
+  strokeStyle: "solid",
+  roughness: 1,
+  opacity: 100,
+  seed: 1,
+  angle: 0,
+};
+
+const scene = {
+  elements: [
+    { ...baseElement, id: "r1", type: "rectangle", x: 0, y: 0, width: 100, height: 50 },
+    { ...baseElement, id: "t1", type: "text", x: 0, y: 60, width: 80, height: 25, text: "<b>&'", fontSize: 20 },
+    { ...baseElement, id: "f1", type: "frame", x: 200, y: 0, width: 40, height: 30, name: "Frame" },
+    { ...baseElement, id: "e1", type: "ellipse", x: 210, y: 5, width: 10, height: 10, frameId: "f1" },
+    { ...baseElement, id: "gone", type: "rectangle", x: 5000, y: 5000, width: 10, height: 10, isDeleted: true },
+  ],
+  appState: { viewBackgroundColor: "#ffffff" },
+  files: {},
+};
+
+const options = { scale: 1, background: true, darkMode: false, frameId: null };
+
+describe("renderDrawingSvg", () => {
+  it("fits the visible elements with padding and escapes text", () => {
+    const rendered = renderDrawingSvg(scene, options)!;
+    expect(rendered.width).toBe(260);
+    expect(rendered.height).toBe(105);
+    expect(rendered.svg).toContain("&lt;b&gt;&amp;&apos;");
+    expect(rendered.svg).toContain('fill="#ffffff"');
+    expect(rendered.svg).toContain('clip-path="url(#frame-clip-0)"');
+  });
+
+  it("applies scale, background and dark mode options", () => {
+    const rendered = renderDrawingSvg(scene, { ...options, scale: 2, background: false, darkMode: true })!;
+    expect(rendered.width).toBe(520);
+    expect(rendered.svg).not.toContain('fill="#ffffff"');
+    expect(rendered.svg).toContain(toDarkModeColor("#1e1e1e"));
+  });
+
+  it("renders only the selected frame and returns null for unknown frames", () => {
+    const rendered = renderDrawingSvg(scene, { ...options, frameId: "f1" })!;
+    expect([rendered.width, rendered.height]).toEqual([40, 30]);
+    expect(rendered.svg).not.toContain("&lt;b&gt;");
+    expect(renderDrawingSvg(scene, { ...options, frameId: "r1" })).toBeNull();
+  });
+
+  it("produces a PNG", async () => {
+    const png = await rasterizeSvg(renderDrawingSvg(scene, options)!.svg);
+    expect(png.subarray(1, 4).toString()).toBe("PNG");
+  });
+});
+
+describe("toDarkModeColor", () => {
+  it("inverts hex colours like the editor and keeps keywords", () => {
+    expect(toDarkModeColor("#ffffff")).toBe("#121212");
+    expect(toDarkModeColor("#fff8")).toBe("#12121288");
+    expect(toDarkModeColor("transparent")).toBe("transparent");
+  });
+});
+
+describe("createDrawingRenderCache", () => {
+  it("keys on the drawing version and evicts the least recently used bodies", () => {
+    const cache = createDrawingRenderCache(10);
+    const key = (version: number) => cache.buildKey({ drawingId: "d1", version, format: "svg", options });
+
+    expect(key(1)).not.toBe(key(2));
+    expect(cache.getETag(key(1))).not.toBe(cache.getETag(key(2)));
+
+    cache.set(key(1), Buffer.alloc(4));
+    cache.set(key(2), Buffer.alloc(4));
+    cache.get(key(1));
+    cache.set(key(3), Buffer.alloc(4));
+    expect(cache.get(key(2))).toBeNull();
+    expect(cache.get(key(1))).not.toBeNull();
+    expect(cache.get(key(3))).not.toBeNull();
+  });
+});
@@ -0,0 +1,710 @@
+import crypto from "crypto";
+import rough from "roughjs";
+import type { Drawable, OpSet, Options as RoughOptions } from "roughjs/bin/core";
+import { renderAsync } from "@resvg/resvg-js";
+
+export const MIN_RENDER_SCALE = 0.1;
+export const MAX_RENDER_SCALE = 4;
+export const MAX_PNG_PIXELS = 16 * 1024 * 1024;
+
+const EXPORT_PADDING = 10;
+const FRAME_RADIUS = 8;
+const FRAME_STROKE = "#bbbbbb";
+const FRAME_NAME_COLOR = "#999999";
+export const DEFAULT_RENDER_CACHE_BYTES = 32 * 1024 * 1024;
+const IMAGE_DATA_URL = /^data:image\/(png|jpeg|gif|webp|svg\+xml);base64,[a-z0-9+/=\s]+$/i;
+const SAFE_COLOR = /^(#[0-9a-f]{3,8}|[a-z]+|(rgb|hsl)a?\([0-9.,%\s]+\))$/i;
+
+// Excalidraw font ids; the generic fallback is what the PNG rasterizer actually has installed.
+const FONT_FAMILIES: Record<number, string> = {
+  1: "Virgil, Excalifont, sans-serif",
+  2: "Helvetica, Arial, sans-serif",
+  3: "Cascadia, monospace",
+  5: "Excalifont, Virgil, sans-serif",
+  6: "Nunito, sans-serif",
+  7: "Lilita One, sans-serif",
+  8: "Comic Shanns, monospace",
+  9: "Liberation Sans, sans-serif",
+};
+
+export type DrawingRenderOptions = {
+  scale: number;
+  background: boolean;
+  darkMode: boolean;
+  frameId: string | null;
+};
+
+export type DrawingRenderScene = {
+  elements: unknown;
+  appState: unknown;
+  files: Record<string, unknown>;
+};
+
+export type RenderedSvg = { svg: string; width: number; height: number };
+
+type Point = [number, number];
+
+type RenderElement = {
+  id: string;
+  type: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  angle: number;
+  strokeColor: string;
+  backgroundColor: string;
+  fillStyle: string;
+  strokeWidth: number;
+  strokeStyle: string;
+  roughness: number;
+  opacity: number;
+  seed: number;
+  rounded: boolean;
+  adaptiveRadius: boolean;
+  frameId: string | null;
+  containerId: string | null;
+  points: Point[];
+  startArrowhead: string | null;
+  endArrowhead: string | null;
+  elbowed: boolean;
+  text: string;
+  fontSize: number;
+  fontFamily: number;
+  textAlign: string;
+  lineHeight: number;
+  fileId: string | null;
+  flipX: boolean;
+  flipY: boolean;
+  crop: {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    naturalWidth: number;
+    naturalHeight: number;
+  } | null;
+  name: string | null;
+};
+
+type Bounds = { minX: number; minY: number; maxX: number; maxY: number };
+
+const isRecord = (value: unknown): value is Record<string, any> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const num = (value: unknown, fallback: number): number =>
+  typeof value === "number" && Number.isFinite(value) ? value : fallback;
+
+const str = (value: unknown): string | null => (typeof value === "string" ? value : null);
+
+const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+
+const fmt = (value: number): string => String(Math.round(value * 100) / 100);
+
+type Attrs = Record<string, string | number | undefined>;
+
+/** Builds an SVG element; attribute values are escaped and numbers rounded to two decimals. */
+const tag = (name: string, attrs: Attrs, children?: string): string => {
+  const attrText = Object.entries(attrs)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => ` ${key}="${typeof value === "number" ? fmt(value) : escapeXml(String(value))}"`)
+    .join("");
+  return children === undefined ? `<${name}${attrText}/>` : `<${name}${attrText}>${children}</${name}>`;
+};
+
+const normalizeColor = (value: unknown, fallback: string): string => {
+  const color = typeof value === "string" ? value.trim() : "";
+  return SAFE_COLOR.test(color) ? color : fallback;
+};
+
+/**
+ * The colour Excalidraw shows in dark mode, which applies `invert(93%) hue-rotate(180deg)` to
+ * the canvas. Only hex colours are converted; keywords such as `transparent` pass through.
+ */
+export const toDarkModeColor = (color: string): string => {
+  const match = /^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i.exec(color);
+  if (!match) return color;
+  let hex = match[1];
+  if (hex.length <= 4) hex = hex.split("").map((char) => char + char).join("");
+  const [r, g, b] = [0, 2, 4].map((offset) => {
+    const channel = parseInt(hex.slice(offset, offset + 2), 16);
+    return 0.93 * 255 + channel * (1 - 2 * 0.93);
+  });
+  const rotated = [
+    -0.574 * r + 1.43 * g + 0.144 * b,
+    0.426 * r + 0.43 * g + 0.144 * b,
+    0.426 * r + 1.43 * g - 0.856 * b,
+  ];
+  const toHex = (channel: number) =>
+    Math.round(Math.min(255, Math.max(0, channel))).toString(16).padStart(2, "0");
+  return `#${rotated.map(toHex).join("")}${hex.slice(6)}`;
+};
+
+const toPoints = (value: unknown): Point[] =>
+  Array.isArray(value)
+    ? value
+        .filter((point) => Array.isArray(point) && point.length >= 2)
+        .map((point) => [num(point[0], 0), num(point[1], 0)] as Point)
+    : [];
+
+const toRenderElement = (raw: unknown): RenderElement | null => {
+  if (!isRecord(raw) || raw.isDeleted === true || typeof raw.type !== "string") return null;
+  const roundness = isRecord(raw.roundness) ? raw.roundness : null;
+  const scale = Array.isArray(raw.scale) ? raw.scale : [1, 1];
+  const crop = isRecord(raw.crop) ? raw.crop : null;
+  return {
+    id: str(raw.id) ?? "",
+    type: raw.type,
+    x: num(raw.x, 0),
+    y: num(raw.y, 0),
+    width: Math.max(0, num(raw.width, 0)),
+    height: Math.max(0, num(raw.height, 0)),
+    angle: num(raw.angle, 0),
+    strokeColor: normalizeColor(raw.strokeColor, "#1e1e1e"),
+    backgroundColor: normalizeColor(raw.backgroundColor, "transparent"),
+    fillStyle: str(raw.fillStyle) ?? "solid",
+    strokeWidth: Math.max(0.5, num(raw.strokeWidth, 2)),
+    strokeStyle: str(raw.strokeStyle) ?? "solid",
+    roughness: Math.min(2, Math.max(0, num(raw.roughness, 1))),
+    opacity: Math.min(100, Math.max(0, num(raw.opacity, 100))),
+    seed: Math.floor(num(raw.seed, 1)),
+    rounded: roundness !== null,
+    adaptiveRadius: num(roundness?.type, 0) === 3,
+    frameId: str(raw.frameId),
+    containerId: str(raw.containerId),
+    points: toPoints(raw.points),
+    startArrowhead: str(raw.startArrowhead),
+    endArrowhead: str(raw.endArrowhead),
+    elbowed: raw.elbowed === true,
+    text: str(raw.text) ?? "",
+    fontSize: Math.max(1, num(raw.fontSize, 20)),
+    fontFamily: num(raw.fontFamily, 5),
+    textAlign: str(raw.textAlign) ?? "left",
+    lineHeight: num(raw.lineHeight, 1.25),
+    fileId: str(raw.fileId),
+    flipX: num(scale[0], 1) < 0,
+    flipY: num(scale[1], 1) < 0,
+    crop:
+      crop && num(crop.width, 0) > 0 && num(crop.height, 0) > 0
+        ? {
+            x: num(crop.x, 0),
+            y: num(crop.y, 0),
+            width: num(crop.width, 0),
+            height: num(crop.height, 0),
+            naturalWidth: num(crop.naturalWidth, 0),
+            naturalHeight: num(crop.naturalHeight, 0),
+          }
+        : null,
+    name: str(raw.name),
+  };
+};
+
+const isLinear = (element: RenderElement) =>
+  element.type === "line" || element.type === "arrow" || element.type === "freedraw";
+
+const isFrame = (element: RenderElement) =>
+  element.type === "frame" || element.type === "magicframe";
+
+/** Local (pre-rotation) box of an element relative to its x/y. */
+const getLocalBox = (element: RenderElement) => {
+  if (isLinear(element) && element.points.length > 0) {
+    // A loop rather than Math.min(...points): freehand strokes can have tens of thousands of points.
+    let [minX, minY] = element.points[0];
+    let [maxX, maxY] = element.points[0];
+    for (const [px, py] of element.points) {
+      minX = Math.min(minX, px);
+      minY = Math.min(minY, py);
+      maxX = Math.max(maxX, px);
+      maxY = Math.max(maxY, py);
+    }
+    return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+  }
+  return { x: 0, y: 0, width: element.width, height: element.height };
+};
+
+const getElementBounds = (element: RenderElement): Bounds => {
+  const box = getLocalBox(element);
+  const cx = element.x + box.x + box.width / 2;
+  const cy = element.y + box.y + box.height / 2;
+  const cos = Math.cos(element.angle);
+  const sin = Math.sin(element.angle);
+  const corners: Point[] = [
+    [element.x + box.x, element.y + box.y],
+    [element.x + box.x + box.width, element.y + box.y],
+    [element.x + box.x + box.width, element.y + box.y + box.height],
+    [element.x + box.x, element.y + box.y + box.height],
+  ].map(([px, py]) => [
+    cx + (px - cx) * cos - (py - cy) * sin,
+    cy + (px - cx) * sin + (py - cy) * cos,
+  ]);
+  return {
+    minX: Math.min(...corners.map((point) => point[0])),
+    minY: Math.min(...corners.map((point) => point[1])),
+    maxX: Math.max(...corners.map((point) => point[0])),
+    maxY: Math.max(...corners.map((point) => point[1])),
+  };
+};
+
+/**
+ * Renders a scene to a standalone SVG with roughjs, seeded like the editor so shapes keep their
+ * hand-drawn look. Image elements need `dataURL`s in `scene.files`. Returns null when
+ * `options.frameId` does not name a frame of the scene.
+ */
+export const renderDrawingSvg = (
+  scene: DrawingRenderScene,
+  options: DrawingRenderOptions
+): RenderedSvg | null => {
+  const generator = rough.generator();
+  const appState = isRecord(scene.appState) ? scene.appState : {};
+  const paint = (color: string) => (options.darkMode ? toDarkModeColor(color) : color);
+  const viewBackground = normalizeColor(appState.viewBackgroundColor, "#ffffff");
+
+  const all = (Array.isArray(scene.elements) ? scene.elements : [])
+    .map(toRenderElement)
+    .filter((element): element is RenderElement => element !== null);
+
+  let elements = all;
+  let bounds: Bounds | null = null;
+  const exportingFrame = options.frameId
+    ? all.find((element) => element.id === options.frameId && isFrame(element))
+    : null;
+  if (options.frameId) {
+    if (!exportingFrame) return null;
+    const inFrame = new Set(
+      all.filter((element) => element.frameId === exportingFrame.id).map((element) => element.id)
+    );
+    elements = all.filter(
+      (element) => inFrame.has(element.id) || (element.containerId !== null && inFrame.has(element.containerId))
+    );
+    bounds = {
+      minX: exportingFrame.x,
+      minY: exportingFrame.y,
+      maxX: exportingFrame.x + exportingFrame.width,
+      maxY: exportingFrame.y + exportingFrame.height,
+    };
+  } else if (elements.length > 0) {
+    bounds = elements.map(getElementBounds).reduce((acc, next) => ({
+      minX: Math.min(acc.minX, next.minX),
+      minY: Math.min(acc.minY, next.minY),
+      maxX: Math.max(acc.maxX, next.maxX),
+      maxY: Math.max(acc.maxY, next.maxY),
+    }));
+  }
+  bounds = bounds ?? { minX: 0, minY: 0, maxX: 0, maxY: 0 };
+
+  const padding = exportingFrame ? 0 : EXPORT_PADDING;
+  const width = Math.max(1, Math.ceil(bounds.maxX - bounds.minX + padding * 2));
+  const height = Math.max(1, Math.ceil(bounds.maxY - bounds.minY + padding * 2));
+
+  const roughOptions = (element: RenderElement): RoughOptions => {
+    const solid = element.strokeStyle === "solid";
+    const strokeWidth = solid ? element.strokeWidth : element.strokeWidth + 0.5;
+    return {
+      seed: element.seed,
+      roughness: element.roughness,
+      bowing: 1,
+      stroke: paint(element.strokeColor),
+      strokeWidth,
+      fill: element.backgroundColor === "transparent" ? undefined : paint(element.backgroundColor),
+      fillStyle: element.fillStyle,
+      fillWeight: element.strokeWidth / 2,
+      hachureGap: element.strokeWidth * 4,
+      strokeLineDash:
+        element.strokeStyle === "dashed"
+          ? [8, 8 + strokeWidth]
+          : element.strokeStyle === "dotted"
+            ? [1.5, 6 + strokeWidth]
+            : undefined,
+      disableMultiStroke: !solid,
+      preserveVertices: element.roughness < 2,
+    };
+  };
+
+  const drawableToSvg = (drawable: Drawable): string =>
+    drawable.sets
+      .map((set: OpSet) => {
+        const d = generator.opsToPath(set, 2);
+        const o = drawable.options;
+        if (set.type === "fillPath") {
+          return tag("path", { d, fill: o.fill ?? "none", stroke: "none" });
+        }
+        if (set.type === "fillSketch") {
+          const weight = o.fillWeight && o.fillWeight > 0 ? o.fillWeight : o.strokeWidth / 2;
+          return tag("path", { d, fill: "none", stroke: o.fill ?? "none", "stroke-width": weight });
+        }
+        return tag("path", {
+          d,
+          fill: "none",
+          stroke: o.stroke,
+          "stroke-width": o.strokeWidth,
+          "stroke-dasharray": o.strokeLineDash?.map(fmt).join(" "),
+        });
+      })
+      .join("");
+
+  const renderArrowhead = (element: RenderElement, position: "start" | "end", arrowhead: string): string => {
+    const points = element.points;
+    if (points.length < 2) return "";
+    const [tip, neighbor] =
+      position === "end" ? [points[points.length - 1], points[points.length - 2]] : [points[0], points[1]];
+    const dx = tip[0] - neighbor[0];
+    const dy = tip[1] - neighbor[1];
+    const distance = Math.hypot(dx, dy);
+    if (distance === 0) return "";
+    const ux = dx / distance;
+    const uy = dy / distance;
+    const base = arrowhead.startsWith("diamond") ? 12 : arrowhead === "arrow" ? 25 : 15;
+    const size = Math.min(base, distance * (arrowhead.startsWith("diamond") ? 0.25 : 0.5));
+    const back = (angleDeg: number, length: number): Point => {
+      const angle = (angleDeg * Math.PI) / 180;
+      return [
+        tip[0] - length * (ux * Math.cos(angle) - uy * Math.sin(angle)),
+        tip[1] - length * (ux * Math.sin(angle) + uy * Math.cos(angle)),
+      ];
+    };
+    const baseOptions = roughOptions(element);
+    const headOptions = (outline: boolean): RoughOptions => ({
+      ...baseOptions,
+      strokeLineDash: undefined,
+      fill: outline ? paint(viewBackground) : baseOptions.stroke,
+      fillStyle: "solid",
+    });
+
+    switch (arrowhead) {
+      case "bar":
+        return drawableToSvg(
+          generator.linearPath([back(90, size / 2), back(-90, size / 2)], { ...baseOptions, strokeLineDash: undefined })
+        );
+      case "dot":
+      case "circle":
+      case "circle_outline":
+        return drawableToSvg(
+          generator.circle(
+            tip[0] - (ux * size) / 2,
+            tip[1] - (uy * size) / 2,
+            size,
+            headOptions(arrowhead === "circle_outline")
+          )
+        );
+      case "triangle":
+      case "triangle_outline":
+        return drawableToSvg(
+          generator.polygon([tip, back(25, size), back(-25, size)], headOptions(arrowhead === "triangle_outline"))
+        );
+      case "diamond":
+      case "diamond_outline":
+        return drawableToSvg(
+          generator.polygon(
+            [tip, back(30, size * 0.58), [tip[0] - ux * size, tip[1] - uy * size], back(-30, size * 0.58)],
+            headOptions(arrowhead === "diamond_outline")
+          )
+        );
+      default:
+        return drawableToSvg(
+          generator.linearPath([back(20, size), tip, back(-20, size)], { ...baseOptions, strokeLineDash: undefined })
+        );
+    }
+  };
+
+  const renderText = (element: RenderElement): string => {
+    const fontSize = element.fontSize;
+    const lineHeight = element.fontSize * element.lineHeight;
+    const anchor = element.textAlign === "center" ? "middle" : element.textAlign === "right" ? "end" : "start";
+    const x = element.textAlign === "center" ? element.width / 2 : element.textAlign === "right" ? element.width : 0;
+    const family = FONT_FAMILIES[element.fontFamily] ?? FONT_FAMILIES[5];
+    return element.text
+      .split("\n")
+      .map((line, index) => {
+        const y = index * lineHeight + lineHeight / 2 + fontSize * 0.35;
+        return tag(
+          "text",
+          {
+            x,
+            y,
+            "font-family": family,
+            "font-size": fontSize,
+            fill: paint(element.strokeColor),
+            "text-anchor": anchor,
+            "xml:space": "preserve",
+          },
+          escapeXml(line)
+        );
+      })
+      .join("");
+  };
+
+  const renderImage = (element: RenderElement): string => {
+    const file = element.fileId ? scene.files[element.fileId] : null;
+    const dataURL = isRecord(file) && typeof file.dataURL === "string" ? file.dataURL : "";
+    if (!IMAGE_DATA_URL.test(dataURL)) {
+      return tag("rect", { width: element.width, height: element.height, fill: paint("#e9ecef") });
+    }
+    const flip =
+      element.flipX || element.flipY
+        ? `translate(${element.flipX ? fmt(element.width) : 0} ${element.flipY ? fmt(element.height) : 0}) ` +
+          `scale(${element.flipX ? -1 : 1} ${element.flipY ? -1 : 1})`
+        : undefined;
+    const href = dataURL.replace(/\s+/g, "");
+    const crop = element.crop;
+    const image =
+      crop && crop.naturalWidth > 0 && crop.naturalHeight > 0
+        ? tag(
+            "svg",
+            {
+              width: element.width,
+              height: element.height,
+              viewBox: `${fmt(crop.x)} ${fmt(crop.y)} ${fmt(crop.width)} ${fmt(crop.height)}`,
+              preserveAspectRatio: "none",
+            },
+            tag("image", { href, width: crop.naturalWidth, height: crop.naturalHeight, preserveAspectRatio: "none" })
+          )
+        : tag("image", { href, width: element.width, height: element.height, preserveAspectRatio: "none" });
+    return tag("g", { transform: flip }, image);
+  };
+
+  const renderShape = (element: RenderElement): string => {
+    const { width: w, height: h } = element;
+    const opts = roughOptions(element);
+    switch (element.type) {
+      case "rectangle": {
+        if (!element.rounded) return drawableToSvg(generator.rectangle(0, 0, w, h, opts));
+        const side = Math.min(w, h);
+        const r = element.adaptiveRadius ? (side >= 128 ? 32 : side * 0.25) : side * 0.25;
+        const d =
+          `M ${r} 0 L ${w - r} 0 Q ${w} 0, ${w} ${r} L ${w} ${h - r} Q ${w} ${h}, ${w - r} ${h} ` +
+          `L ${r} ${h} Q 0 ${h}, 0 ${h - r} L 0 ${r} Q 0 0, ${r} 0`;
+        return drawableToSvg(generator.path(d, opts));
+      }
+      case "diamond":
+        return drawableToSvg(generator.polygon([[w / 2, 0], [w, h / 2], [w / 2, h], [0, h / 2]], opts));
+      case "ellipse":
+        return drawableToSvg(generator.ellipse(w / 2, h / 2, w, h, { ...opts, curveFitting: 1 }));
+      case "line":
+      case "arrow": {
+        const points = element.points;
+        if (points.length < 2) return "";
+        const first = points[0];
+        const last = points[points.length - 1];
+        const closed = element.type === "line" && points.length > 2 && first[0] === last[0] && first[1] === last[1];
+        const shape = closed
+          ? generator.polygon(points.slice(0, -1), opts)
+          : element.rounded && !element.elbowed && points.length > 2
+            ? generator.curve(points, { ...opts, fill: undefined })
+            : generator.linearPath(points, { ...opts, fill: undefined });
+        let svg = drawableToSvg(shape);
+        if (element.type === "arrow") {
+          if (element.startArrowhead) svg += renderArrowhead(element, "start", element.startArrowhead);
+          if (element.endArrowhead) svg += renderArrowhead(element, "end", element.endArrowhead);
+        }
+        return svg;
+      }
+      case "freedraw": {
+        const points = element.points;
+        if (points.length === 0) return "";
+        let d = `M ${fmt(points[0][0])} ${fmt(points[0][1])}`;
+        for (let index = 1; index < points.length - 1; index += 1) {
+          const [x, y] = points[index];
+          const [nx, ny] = points[index + 1];
+          d += ` Q ${fmt(x)} ${fmt(y)} ${fmt((x + nx) / 2)} ${fmt((y + ny) / 2)}`;
+        }
+        const end = points[points.length - 1];
+        d += ` L ${fmt(end[0])} ${fmt(end[1])}`;
+        return tag("path", {
+          d,
+          fill: "none",
+          stroke: paint(element.strokeColor),
+          "stroke-width": element.strokeWidth * 2,
+          "stroke-linecap": "round",
+          "stroke-linejoin": "round",
+        });
+      }
+      case "text":
+        return renderText(element);
+      case "image":
+        return renderImage(element);
+      case "frame":
+      case "magicframe": {
+        const label = element.name ?? (element.type === "magicframe" ? "AI Frame" : "Frame");
+        return (
+          tag("rect", {
+            width: w,
+            height: h,
+            rx: FRAME_RADIUS,
+            ry: FRAME_RADIUS,
+            fill: "none",
+            stroke: paint(FRAME_STROKE),
+            "stroke-width": 2,
+          }) +
+          tag(
+            "text",
+            { x: 0, y: -6, "font-family": "sans-serif", "font-size": 14, fill: paint(FRAME_NAME_COLOR) },
+            escapeXml(label)
+          )
+        );
+      }
+      case "embeddable":
+      case "iframe":
+        return drawableToSvg(generator.rectangle(0, 0, w, h, { ...opts, fill: paint("#f1f3f5"), fillStyle: "solid" }));
+      default:
+        return "";
+    }
+  };
+
+  const frames = new Map(
+    all.filter(isFrame).map((frame, index) => [frame.id, { frame, clipId: `frame-clip-${index}` }])
+  );
+  const usedClips = new Set<string>();
+
+  const body = elements
+    .filter((element) => !(exportingFrame && isFrame(element)))
+    .map((element) => {
+      const content = renderShape(element);
+      if (!content) return "";
+      const box = getLocalBox(element);
+      const cx = box.x + box.width / 2;
+      const cy = box.y + box.height / 2;
+      const rotate = element.angle ? ` rotate(${fmt((element.angle * 180) / Math.PI)} ${fmt(cx)} ${fmt(cy)})` : "";
+      const group = tag(
+        "g",
+        {
+          transform: `translate(${fmt(element.x)} ${fmt(element.y)})${rotate}`,
+          opacity: element.opacity < 100 ? element.opacity / 100 : undefined,
+        },
+        content
+      );
+      const frame = !exportingFrame && element.frameId ? frames.get(element.frameId) : undefined;
+      if (!frame) return group;
+      usedClips.add(frame.frame.id);
+      return tag("g", { "clip-path": `url(#${frame.clipId})` }, group);
+    })
+    .join("");
+
+  const clipDefs = Array.from(usedClips)
+    .map((frameId) => {
+      const { frame, clipId } = frames.get(frameId)!;
+      return tag(
+        "clipPath",
+        { id: clipId },
+        tag("rect", {
+          x: frame.x,
+          y: frame.y,
+          width: frame.width,
+          height: frame.height,
+          rx: FRAME_RADIUS,
+          ry: FRAME_RADIUS,
+        })
+      );
+    })
+    .join("");
+  const exportClip = exportingFrame
+    ? tag(
+        "clipPath",
+        { id: "export-frame" },
+        tag("rect", { x: bounds.minX, y: bounds.minY, width: exportingFrame.width, height: exportingFrame.height })
+      )
+    : "";
+
+  const scaledWidth = Math.max(1, Math.round(width * options.scale));
+  const scaledHeight = Math.max(1, Math.round(height * options.scale));
+  const backgroundRect = options.background
+    ? tag("rect", { x: 0, y: 0, width, height, fill: paint(viewBackground) })
+    : "";
+  const offsetX = padding - bounds.minX;
+  const offsetY = padding - bounds.minY;
+
+  const svg = tag(
+    "svg",
+    {
+      xmlns: "http://www.w3.org/2000/svg",
+      version: "1.1",
+      viewBox: `0 0 ${width} ${height}`,
+      width: scaledWidth,
+      height: scaledHeight,
+    },
+    "<!-- svg-source:excalidash -->" +
+      (clipDefs || exportClip ? `<defs>${clipDefs}${exportClip}</defs>` : "") +
+      backgroundRect +
+      tag(
+        "g",
+        {
+          transform: `translate(${fmt(offsetX)} ${fmt(offsetY)})`,
+          "clip-path": exportingFrame ? "url(#export-frame)" : undefined,
+        },
+        body
+      )
+  );
+
+  return { svg, width: scaledWidth, height: scaledHeight };
+};
+
+/** Rasterizes an SVG produced by `renderDrawingSvg` at its own width and height, off the main thread. */
+export const rasterizeSvg = async (svg: string): Promise<Buffer> => {
+  const rendered = await renderAsync(svg, {
+    font: {
+      loadSystemFonts: true,
+      defaultFontFamily: "DejaVu Sans",
+      sansSerifFamily: "DejaVu Sans",
+      monospaceFamily: "DejaVu Sans Mono",
+    },
+  });
+  return rendered.asPng();
+};
+
+/** Small LRU keyed by drawing version and render options, bounded by total body size. */
+export const createDrawingRenderCache = (maxBytes = DEFAULT_RENDER_CACHE_BYTES) => {
+  const entries = new Map<string, Buffer>();
+  let totalBytes = 0;
+
+  const buildKey = (parts: {
+    drawingId: string;
+    version: number;
+    format: "svg" | "png";
+    options: DrawingRenderOptions;
+  }) =>
+    JSON.stringify([
+      parts.drawingId,
+      parts.version,
+      parts.format,
+      parts.options.scale,
+      parts.options.background,
+      parts.options.darkMode,
+      parts.options.frameId,
+    ]);
+
+  const get = (key: string): Buffer | null => {
+    const body = entries.get(key);
+    if (!body) return null;
+    entries.delete(key);
+    entries.set(key, body);
+    return body;
+  };
+
+  const set = (key: string, body: Buffer) => {
+    if (body.length > maxBytes) return;
+    const existing = entries.get(key);
+    if (existing) {
+      totalBytes -= existing.length;
+      entries.delete(key);
+    }
+    entries.set(key, body);
+    totalBytes += body.length;
+    for (const [oldestKey, oldest] of entries) {
+      if (totalBytes <= maxBytes) break;
+      entries.delete(oldestKey);
+      totalBytes -= oldest.length;
+    }
+  };
+
+  const getETag = (key: string) =>
+    `"${crypto.createHash("sha1").update(key).digest("base64url")}"`;
+
+  return { buildKey, get, set, getETag };
+};
+
+export type DrawingRenderCache = ReturnType<typeof createDrawingRenderCache>;
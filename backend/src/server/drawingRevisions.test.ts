@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+import { buildRestoredElements } from "./drawingRevisions";
+
+describe("buildRestoredElements", () => {
+  it("bumps restored elements past the current scene version", () => {
+    const restored = buildRestoredElements(
+      [{ id: "a", version: 7, isDeleted: false }],
+      [{ id: "a", version: 2, isDeleted: false, x: 10 }],
+      1234
+    );
+
+    expect(restored).toHaveLength(1);
+    expect(restored[0]).toMatchObject({ id: "a", version: 8, x: 10, updated: 1234 });
+  });
+
+  it("tombstones elements that did not exist in the restored revision", () => {
+    const restored = buildRestoredElements(
+      [
+        { id: "a", version: 3, isDeleted: false },
+        { id: "b", version: 4, isDeleted: false },
+        { id: "c", version: 2, isDeleted: true },
+      ],
+      [{ id: "a", version: 1, isDeleted: false }]
+    );
+
+    const byId = new Map(restored.map((element) => [element.id, element]));
+    expect(byId.get("b")).toMatchObject({ isDeleted: true, version: 5 });
+    expect(byId.has("c")).toBe(false);
+  });
+
+  it("skips malformed entries and duplicate ids", () => {
+    const restored = buildRestoredElements(
+      [],
+      [null, "nope", { id: "a", version: 1 }, { id: "a", version: 9 }]
+    );
+
+    expect(restored.map((element) => element.id)).toEqual(["a"]);
+    expect(restored[0].version).toBe(2);
+  });
+});
@@ -0,0 +1,214 @@
+import { Prisma, PrismaClient } from "../generated/client";
+
+export type DrawingSceneSnapshot = {
+  id: string;
+  version: number;
+  name: string;
+  elements: string;
+  appState: string;
+  files: string;
+};
+
+type RecordDrawingRevisionParams = {
+  drawing: DrawingSceneSnapshot;
+  /**
+   * State that was overwritten by `drawing`. Used to seed the history the first time a
+   * drawing is edited so the original scene is recoverable.
+   */
+  previous?: DrawingSceneSnapshot | null;
+  createdByUserId?: string | null;
+  /** Always start a new revision instead of folding into the latest one (e.g. restores). */
+  forceNew?: boolean;
+};
+
+type DrawingRevisionStoreOptions = {
+  coalesceWindowMs: number;
+  maxRevisionsPerDrawing: number;
+  /** Recent versions kept as merge bases; older saves merge against revision rows instead. */
+  maxMergeBasesPerDrawing: number;
+};
+
+type SceneElement = Record<string, unknown> & { id: string };
+
+const isSceneElement = (value: unknown): value is SceneElement =>
+  typeof value === "object" &&
+  value !== null &&
+  typeof (value as { id?: unknown }).id === "string";
+
+const readElementVersion = (element: SceneElement): number => {
+  const raw = element.version;
+  return typeof raw === "number" && Number.isFinite(raw) ? raw : 0;
+};
+
+const randomVersionNonce = (): number => Math.floor(Math.random() * 2 ** 31);
+
+/**
+ * Rebuilds `target` so it wins over `current` under the collaborative reconcile rules
+ * (higher element version wins). Elements that only exist in `current` are tombstoned,
+ * otherwise peers holding the newer scene would resurrect them after a restore.
+ */
+export const buildRestoredElements = (
+  current: unknown[],
+  target: unknown[],
+  now: number = Date.now()
+): SceneElement[] => {
+  const currentById = new Map<string, SceneElement>();
+  for (const element of current) {
+    if (isSceneElement(element)) currentById.set(element.id, element);
+  }
+
+  const restored: SceneElement[] = [];
+  const restoredIds = new Set<string>();
+  for (const element of target) {
+    if (!isSceneElement(element) || restoredIds.has(element.id)) continue;
+    restoredIds.add(element.id);
+    const existing = currentById.get(element.id);
+    const baseVersion = Math.max(
+      readElementVersion(element),
+      existing ? readElementVersion(existing) : 0
+    );
+    restored.push({
+      ...element,
+      version: baseVersion + 1,
+      versionNonce: randomVersionNonce(),
+      updated: now,
+    });
+  }
+
+  for (const element of currentById.values()) {
+    if (restoredIds.has(element.id) || element.isDeleted === true) continue;
+    restored.push({
+      ...element,
+      isDeleted: true,
+      version: readElementVersion(element) + 1,
+      versionNonce: randomVersionNonce(),
+      updated: now,
+    });
+  }
+
+  return restored;
+};
+
+export const createDrawingRevisionStore = (
+  prisma: PrismaClient,
+  options: DrawingRevisionStoreOptions
+) => {
+  const toRevisionData = (snapshot: DrawingSceneSnapshot) => ({
+    version: snapshot.version,
+    name: snapshot.name,
+    elements: snapshot.elements,
+    appState: snapshot.appState,
+    files: snapshot.files,
+  });
+
+  const pruneRevisions = async (drawingId: string) => {
+    const stale = await prisma.drawingRevision.findMany({
+      where: { drawingId },
+      orderBy: { version: "desc" },
+      skip: options.maxRevisionsPerDrawing,
+      select: { id: true },
+    });
+    if (stale.length === 0) return;
+    await prisma.drawingRevision.deleteMany({
+      where: { id: { in: stale.map((revision) => revision.id) } },
+    });
+  };
+
+  /**
+   * Keeps the elements of the most recent saved versions as merge bases. Coalescing rewrites
+   * revision rows, so the versions a stale tab is most likely to hold would otherwise be gone.
+   */
+  const recordMergeBases = async (snapshots: DrawingSceneSnapshot[]) => {
+    for (const snapshot of snapshots) {
+      await prisma.drawingMergeBase.upsert({
+        where: { drawingId_version: { drawingId: snapshot.id, version: snapshot.version } },
+        update: {},
+        create: { drawingId: snapshot.id, version: snapshot.version, elements: snapshot.elements },
+      });
+    }
+    const drawingId = snapshots[0]?.id;
+    if (!drawingId) return;
+    const stale = await prisma.drawingMergeBase.findMany({
+      where: { drawingId },
+      orderBy: { version: "desc" },
+      skip: options.maxMergeBasesPerDrawing,
+      select: { version: true },
+    });
+    if (stale.length === 0) return;
+    await prisma.drawingMergeBase.deleteMany({
+      where: { drawingId, version: { in: stale.map((base) => base.version) } },
+    });
+  };
+
+  /**
+   * Snapshots a drawing scene after a version increment. Saves from the same author within
+   * the coalesce window fold into the latest revision, so autosave does not create one row
+   * per keystroke burst.
+   */
+  const recordDrawingRevision = async ({
+    drawing,
+    previous,
+    createdByUserId = null,
+    forceNew = false,
+  }: RecordDrawingRevisionParams): Promise<void> => {
+    await recordMergeBases(
+      previous && previous.version < drawing.version ? [previous, drawing] : [drawing]
+    );
+
+    const latest = await prisma.drawingRevision.findFirst({
+      where: { drawingId: drawing.id },
+      orderBy: { version: "desc" },
+    });
+    if (latest && latest.version >= drawing.version) return;
+
+    if (!latest && previous && previous.version < drawing.version) {
+      await prisma.drawingRevision.create({
+        data: {
+          drawingId: drawing.id,
+          ...toRevisionData(previous),
+          createdByUserId: null,
+        },
+      });
+    }
+
+    const canCoalesce =
+      !forceNew &&
+      latest !== null &&
+      latest.createdByUserId === createdByUserId &&
+      Date.now() - latest.createdAt.getTime() < options.coalesceWindowMs;
+
+    try {
+      if (canCoalesce && latest) {
+        await prisma.drawingRevision.update({
+          where: { id: latest.id },
+          data: toRevisionData(drawing),
+        });
+      } else {
+        await prisma.drawingRevision.create({
+          data: {
+            drawingId: drawing.id,
+            ...toRevisionData(drawing),
+            createdByUserId,
+          },
+        });
+      }
+    } catch (error) {
+      // A concurrent save already captured this version.
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === "P2002"
+      ) {
+        return;
+      }
+      throw error;
+    }
+
+    await pruneRevisions(drawing.id);
+  };
+
+  return { recordDrawingRevision };
+};
+
+export type RecordDrawingRevision = ReturnType<
+  typeof createDrawingRevisionStore
+>["recordDrawingRevision"];
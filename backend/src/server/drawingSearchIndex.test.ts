@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildSearchMatchQuery,
+  extractDrawingSearchEntries,
+  parseSearchSnippet,
+} from "./drawingSearchIndex";
+
+describe("extractDrawingSearchEntries", () => {
+  it("indexes the name, text, frame names and links of live elements", () => {
+    const entries = extractDrawingSearchEntries("Checkout  flow", [
+      { id: "t1", type: "text", text: "wrapped\ntext", originalText: "Calls the\npayment-gateway" },
+      { id: "f1", type: "frame", name: "Billing" },
+      { id: "r1", type: "rectangle", link: "https://docs.example.com/pay" },
+      { id: "t2", type: "text", text: "removed", isDeleted: true },
+      { id: "r2", type: "rectangle" },
+      { type: "text", text: "no id" },
+    ]);
+
+    expect(entries).toEqual([
+      { elementId: null, kind: "name", content: "Checkout flow" },
+      { elementId: "t1", kind: "text", content: "Calls the payment-gateway" },
+      { elementId: "f1", kind: "frame", content: "Billing" },
+      { elementId: "r1", kind: "link", content: "https://docs.example.com/pay" },
+    ]);
+  });
+
+  it("skips blank strings", () => {
+    expect(
+      extractDrawingSearchEntries("", [{ id: "t1", type: "text", text: "   " }])
+    ).toEqual([]);
+  });
+});
+
+describe("buildSearchMatchQuery", () => {
+  it("quotes each word as a prefix phrase", () => {
+    expect(buildSearchMatchQuery('payment-gateway "v2')).toBe('"payment-gateway"* "v2"*');
+  });
+
+  it("ignores operator-only input", () => {
+    expect(buildSearchMatchQuery('  * - "" ')).toBeNull();
+  });
+});
+
+describe("parseSearchSnippet", () => {
+  it("splits highlight markers into segments", () => {
+    expect(parseSearchSnippet("via the \u0002payment\u0003 \u0002gateway\u0003…")).toEqual([
+      { text: "via the ", match: false },
+      { text: "payment", match: true },
+      { text: " ", match: false },
+      { text: "gateway", match: true },
+      { text: "…", match: false },
+    ]);
+  });
+});
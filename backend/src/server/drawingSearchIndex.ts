@@ -0,0 +1,253 @@
+import { Prisma, PrismaClient } from "../generated/client";
+
+export type DrawingSearchEntryKind = "name" | "text" | "frame" | "link";
+
+export type DrawingSearchEntry = {
+  elementId: string | null;
+  kind: DrawingSearchEntryKind;
+  content: string;
+};
+
+export type DrawingSearchSnippet = {
+  elementId: string | null;
+  kind: DrawingSearchEntryKind;
+  segments: { text: string; match: boolean }[];
+};
+
+export type DrawingSearchMatch = {
+  /** bm25 score of the best hit; lower is more relevant. */
+  rank: number;
+  matchedElementIds: string[];
+  snippets: DrawingSearchSnippet[];
+};
+
+export type DrawingSearchScope =
+  | { kind: "owned"; userId: string }
+  | { kind: "shared"; userId: string; collectionIds?: string[] };
+
+type IndexableDrawing = {
+  id: string;
+  name: string;
+  elements: string;
+};
+
+// Control characters never survive `normalizeSearchContent`, so they can delimit highlights.
+const SNIPPET_OPEN = "\u0002";
+const SNIPPET_CLOSE = "\u0003";
+const SNIPPET_ELLIPSIS = "…";
+const SNIPPET_TOKENS = 12;
+const MAX_ENTRY_LENGTH = 4000;
+const MAX_QUERY_TOKENS = 8;
+const MAX_SNIPPETS_PER_DRAWING = 3;
+const MAX_HIT_ROWS = 2000;
+const INSERT_CHUNK_SIZE = 200;
+
+const normalizeSearchContent = (value: string): string =>
+  value
+    .replace(/[\u0000-\u001f\u007f]+/g, " ")
+    .replace(/\s+/g, " ")
+    .trim()
+    .slice(0, MAX_ENTRY_LENGTH);
+
+const parseElements = (raw: string): unknown[] => {
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Collects the searchable strings of a drawing: its name, text elements, frame names and
+ * element links. Deleted tombstones are skipped so removed text stops matching.
+ */
+export const extractDrawingSearchEntries = (
+  name: string,
+  elements: unknown[]
+): DrawingSearchEntry[] => {
+  const entries: DrawingSearchEntry[] = [];
+  const push = (elementId: string | null, kind: DrawingSearchEntryKind, raw: unknown) => {
+    if (typeof raw !== "string") return;
+    const content = normalizeSearchContent(raw);
+    if (content.length > 0) entries.push({ elementId, kind, content });
+  };
+
+  push(null, "name", name);
+  for (const element of elements) {
+    if (typeof element !== "object" || element === null) continue;
+    const record = element as Record<string, unknown>;
+    if (typeof record.id !== "string" || record.isDeleted === true) continue;
+
+    if (record.type === "text") {
+      push(record.id, "text", record.originalText ?? record.text);
+    } else if (record.type === "frame" || record.type === "magicframe") {
+      push(record.id, "frame", record.name);
+    }
+    push(record.id, "link", record.link);
+  }
+  return entries;
+};
+
+/**
+ * Turns free user input into an FTS5 query: every whitespace-separated word becomes a
+ * quoted prefix phrase, and all of them must match. Returns null when nothing is searchable.
+ */
+export const buildSearchMatchQuery = (term: string): string | null => {
+  const phrases = term
+    .split(/\s+/)
+    .map((token) => token.replace(/"/g, "").trim())
+    .filter((token) => /[\p{L}\p{N}]/u.test(token))
+    .slice(0, MAX_QUERY_TOKENS)
+    .map((token) => `"${token}"*`);
+  return phrases.length > 0 ? phrases.join(" ") : null;
+};
+
+/** Splits an FTS5 snippet into plain segments so clients never render raw markup. */
+export const parseSearchSnippet = (raw: string): DrawingSearchSnippet["segments"] => {
+  const segments: DrawingSearchSnippet["segments"] = [];
+  let rest = raw;
+  while (rest.length > 0) {
+    const open = rest.indexOf(SNIPPET_OPEN);
+    if (open === -1) {
+      segments.push({ text: rest, match: false });
+      break;
+    }
+    if (open > 0) segments.push({ text: rest.slice(0, open), match: false });
+    const close = rest.indexOf(SNIPPET_CLOSE, open + 1);
+    const end = close === -1 ? rest.length : close;
+    const matched = rest.slice(open + 1, end);
+    if (matched.length > 0) segments.push({ text: matched, match: true });
+    rest = close === -1 ? "" : rest.slice(close + 1);
+  }
+  return segments;
+};
+
+type SearchHitRow = {
+  drawingId: string;
+  elementId: string | null;
+  kind: string;
+  snippet: string;
+  rank: number;
+};
+
+const toEntryKind = (value: string): DrawingSearchEntryKind =>
+  value === "text" || value === "frame" || value === "link" ? value : "name";
+
+/**
+ * Keeps the SQLite FTS5 table of drawing text up to date. The virtual table is created (and
+ * backfilled) by a migration, since Prisma cannot model it.
+ */
+export const createDrawingSearchIndex = (prisma: PrismaClient) => {
+  const buildReplaceStatements = (drawing: IndexableDrawing) => {
+    const entries = extractDrawingSearchEntries(drawing.name, parseElements(drawing.elements));
+    const statements = [
+      prisma.$executeRaw`DELETE FROM "DrawingSearchIndex" WHERE "drawingId" = ${drawing.id}`,
+    ];
+    for (let start = 0; start < entries.length; start += INSERT_CHUNK_SIZE) {
+      const rows = entries
+        .slice(start, start + INSERT_CHUNK_SIZE)
+        .map(
+          (entry) =>
+            Prisma.sql`(${drawing.id}, ${entry.elementId}, ${entry.kind}, ${entry.content})`
+        );
+      statements.push(
+        prisma.$executeRaw`INSERT INTO "DrawingSearchIndex" ("drawingId", "elementId", "kind", "content") VALUES ${Prisma.join(rows)}`
+      );
+    }
+    return statements;
+  };
+
+  /**
+   * Replaces the indexed text of the given drawings. Indexing is best-effort: a failure is
+   * logged and never fails the save that triggered it.
+   */
+  const indexDrawings = async (drawings: IndexableDrawing[]): Promise<void> => {
+    if (drawings.length === 0) return;
+    try {
+      await prisma.$transaction(drawings.flatMap(buildReplaceStatements));
+    } catch (error) {
+      console.error("Failed to update drawing search index", {
+        drawingIds: drawings.map((drawing) => drawing.id),
+        error,
+      });
+    }
+  };
+
+  const indexDrawing = (drawing: IndexableDrawing): Promise<void> => indexDrawings([drawing]);
+
+  const removeDrawings = async (drawingIds: string[]): Promise<void> => {
+    if (drawingIds.length === 0) return;
+    try {
+      await prisma.$executeRaw`DELETE FROM "DrawingSearchIndex" WHERE "drawingId" IN (${Prisma.join(drawingIds)})`;
+    } catch (error) {
+      console.error("Failed to remove drawings from search index", { drawingIds, error });
+    }
+  };
+
+  /**
+   * Looks up drawings whose indexed text matches `term` within `scope`. Results are keyed
+   * by drawing id; callers intersect them with their own filters.
+   */
+  const search = async (
+    term: string,
+    scope: DrawingSearchScope
+  ): Promise<Map<string, DrawingSearchMatch>> => {
+    const matches = new Map<string, DrawingSearchMatch>();
+    const matchQuery = buildSearchMatchQuery(term);
+    if (!matchQuery) return matches;
+
+    const sharedCollectionFilter =
+      scope.kind === "shared" && scope.collectionIds && scope.collectionIds.length > 0
+        ? Prisma.sql` OR d."collectionId" IN (${Prisma.join(scope.collectionIds)})`
+        : Prisma.empty;
+    const scopeFilter =
+      scope.kind === "owned"
+        ? Prisma.sql`d."userId" = ${scope.userId}`
+        : Prisma.sql`d."userId" <> ${scope.userId} AND (EXISTS (
+            SELECT 1 FROM "DrawingPermission" p
+            WHERE p."drawingId" = d."id" AND p."granteeUserId" = ${scope.userId}
+          ) OR EXISTS (
+            SELECT 1 FROM "DrawingGroupPermission" gp
+            JOIN "GroupMembership" gm ON gm."groupId" = gp."groupId"
+            WHERE gp."drawingId" = d."id" AND gm."userId" = ${scope.userId}
+          )${sharedCollectionFilter})`;
+
+    const rows = await prisma.$queryRaw<SearchHitRow[]>`
+      SELECT
+        "DrawingSearchIndex"."drawingId" AS "drawingId",
+        "DrawingSearchIndex"."elementId" AS "elementId",
+        "DrawingSearchIndex"."kind" AS "kind",
+        snippet("DrawingSearchIndex", 3, ${SNIPPET_OPEN}, ${SNIPPET_CLOSE}, ${SNIPPET_ELLIPSIS}, ${SNIPPET_TOKENS}) AS "snippet",
+        bm25("DrawingSearchIndex") AS "rank"
+      FROM "DrawingSearchIndex"
+      JOIN "Drawing" d ON d."id" = "DrawingSearchIndex"."drawingId"
+      WHERE "DrawingSearchIndex" MATCH ${matchQuery} AND ${scopeFilter}
+      ORDER BY "rank"
+      LIMIT ${MAX_HIT_ROWS}`;
+
+    for (const row of rows) {
+      const rank = Number(row.rank);
+      let match = matches.get(row.drawingId);
+      if (!match) {
+        match = { rank, matchedElementIds: [], snippets: [] };
+        matches.set(row.drawingId, match);
+      }
+      if (row.elementId && !match.matchedElementIds.includes(row.elementId)) {
+        match.matchedElementIds.push(row.elementId);
+      }
+      if (match.snippets.length < MAX_SNIPPETS_PER_DRAWING) {
+        match.snippets.push({
+          elementId: row.elementId,
+          kind: toEntryKind(row.kind),
+          segments: parseSearchSnippet(row.snippet),
+        });
+      }
+    }
+    return matches;
+  };
+
+  return { indexDrawing, indexDrawings, removeDrawings, search };
+};
+
+export type DrawingSearchIndex = ReturnType<typeof createDrawingSearchIndex>;
@@ -19,6 +19,9 @@ describe("drawings cache store", () => {
       userId: "u1",
       searchTerm: "roadmap",
       collectionFilter: "default",
+      tagFilter: "",
+      starredOnly: false,
+      pinStarred: false,
       includeData: false,
       sortField: "updatedAt",
       sortDirection: "desc",
@@ -27,6 +30,9 @@ describe("drawings cache store", () => {
       userId: "u1",
       searchTerm: "roadmap",
       collectionFilter: "default",
+      tagFilter: "",
+      starredOnly: false,
+      pinStarred: false,
       includeData: false,
       sortField: "updatedAt",
       sortDirection: "desc",
@@ -35,13 +41,56 @@ describe("drawings cache store", () => {
       userId: "u1",
       searchTerm: "roadmap",
       collectionFilter: "default",
+      tagFilter: "",
+      starredOnly: false,
+      pinStarred: false,
       includeData: true,
       sortField: "updatedAt",
       sortDirection: "desc",
     });
 
+    const keyD = buildDrawingsCacheKey({
+      userId: "u1",
+      searchTerm: "roadmap",
+      collectionFilter: "default",
+      tagFilter: "all:t1,t2",
+      starredOnly: false,
+      pinStarred: false,
+      includeData: false,
+      sortField: "updatedAt",
+      sortDirection: "desc",
+    });
+
+    const keyE = buildDrawingsCacheKey({
+      userId: "u1",
+      searchTerm: "roadmap",
+      collectionFilter: "default",
+      tagFilter: "",
+      starredOnly: true,
+      pinStarred: false,
+      includeData: false,
+      sortField: "updatedAt",
+      sortDirection: "desc",
+    });
+
+    const keyF = buildDrawingsCacheKey({
+      userId: "u1",
+      searchTerm: "roadmap",
+      collectionFilter: "default",
+      tagFilter: "",
+      starredOnly: false,
+      pinStarred: true,
+      includeData: false,
+      sortField: "updatedAt",
+      sortDirection: "desc",
+    });
+
     expect(keyA).toBe(keyB);
     expect(keyA).not.toBe(keyC);
+    expect(keyA).not.toBe(keyD);
+    expect(keyA).not.toBe(keyE);
+    expect(keyA).not.toBe(keyF);
+    expect(keyE).not.toBe(keyF);
   });
 
   it("caches payloads and expires by TTL", () => {
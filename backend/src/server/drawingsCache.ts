@@ -4,8 +4,11 @@ export type DrawingsCacheKeyParts = {
   userId: string;
   searchTerm: string;
   collectionFilter: string;
+  tagFilter: string;
+  starredOnly: boolean;
+  pinStarred: boolean;
   includeData: boolean;
-  sortField: "name" | "createdAt" | "updatedAt";
+  sortField: "name" | "createdAt" | "updatedAt" | "relevance";
   sortDirection: "asc" | "desc";
 };
 
@@ -17,6 +20,9 @@ export const createDrawingsCacheStore = (ttlMs: number) => {
       keyParts.userId,
       keyParts.searchTerm,
       keyParts.collectionFilter,
+      keyParts.tagFilter,
+      keyParts.starredOnly ? "starred" : "all",
+      keyParts.pinStarred ? "pinned" : "unpinned",
       keyParts.includeData ? "full" : "summary",
       keyParts.sortField,
       keyParts.sortDirection,
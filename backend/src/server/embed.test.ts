@@ -0,0 +1,91 @@
+import { JSDOM } from "jsdom";
+import { describe, expect, it, vi } from "vitest";
+import {
+  buildFrameAncestorsDirective,
+  normalizeFrameAncestor,
+  parseFrameAncestors,
+  renderEmbedPage,
+} from "./embed";
+
+describe("normalizeFrameAncestor", () => {
+  it("accepts http(s) origins and leading wildcard labels", () => {
+    expect(normalizeFrameAncestor(" HTTPS://Wiki.Example.com/ ")).toBe("https://wiki.example.com");
+    expect(normalizeFrameAncestor("https://*.example.com")).toBe("https://*.example.com");
+    expect(normalizeFrameAncestor("http://localhost:3000")).toBe("http://localhost:3000");
+  });
+
+  it("rejects anything that is not a bare origin", () => {
+    for (const value of [
+      "*",
+      "'self'",
+      "https:",
+      "wiki.example.com",
+      "https://wiki.example.com/page",
+      "https://wiki.example.com?x=1",
+      "https://a.*.example.com",
+      "javascript://x",
+      "https://example.com; script-src *",
+      "https://example.com:70000",
+    ]) {
+      expect(normalizeFrameAncestor(value)).toBeNull();
+    }
+  });
+});
+
+describe("parseFrameAncestors", () => {
+  it("dedupes stored origins and drops invalid lines", () => {
+    expect(parseFrameAncestors("https://a.example.com\nhttps://A.example.com/\nnope\n\n")).toEqual([
+      "https://a.example.com",
+    ]);
+    expect(parseFrameAncestors("")).toEqual([]);
+  });
+
+  it("always allows the app itself to frame the viewer", () => {
+    expect(buildFrameAncestorsDirective([])).toBe("'self'");
+    expect(buildFrameAncestorsDirective(["https://a.example.com"])).toBe("'self' https://a.example.com");
+  });
+});
+
+describe("renderEmbedPage", () => {
+  it("escapes the drawing name and keeps the config out of script context", () => {
+    const html = renderEmbedPage({
+      drawingId: "d1",
+      name: "<script>alert(1)</script>",
+      renderUrl: "../drawings/d1/render.svg?frameId=</script>",
+      backgroundColor: "#ffffff",
+      nonce: "abc",
+    });
+    expect(html).toContain("<title>&lt;script&gt;alert(1)&lt;/script&gt;</title>");
+    expect(html).not.toContain("frameId=</script>");
+    expect(html).toContain('<script nonce="abc">');
+  });
+
+  it("refetches the render when editors change the drawing or the room saves it", () => {
+    const html = renderEmbedPage({
+      drawingId: "d1",
+      name: "Sketch",
+      renderUrl: "../drawings/d1/render.svg",
+      backgroundColor: "#ffffff",
+      nonce: "abc",
+    });
+    const { window } = new JSDOM(html, { runScripts: "outside-only" });
+    const handlers = new Map<string, (payload?: unknown) => void>();
+    const socket = { on: (event: string, handler: () => void) => handlers.set(event, handler), emit: vi.fn() };
+    const fetch = vi.fn(() => new Promise(() => undefined));
+    const setTimeout = vi.fn(() => 1);
+    Object.assign(window, { io: () => socket, fetch, setTimeout, clearTimeout: vi.fn() });
+
+    window.eval(html.match(/<script nonce="abc">([\s\S]*?)<\/script>/)![1]);
+    expect(fetch).toHaveBeenCalledTimes(1);
+
+    for (const event of ["element-update", "element-delta"]) {
+      setTimeout.mockClear();
+      handlers.get(event)!({ drawingId: "d1" });
+      expect(setTimeout).toHaveBeenCalledTimes(1);
+    }
+    expect(fetch).toHaveBeenCalledTimes(1);
+
+    handlers.get("room-persisted")!({ drawingId: "d1", version: 2, seq: 3 });
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+});
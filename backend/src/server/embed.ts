@@ -0,0 +1,229 @@
+import { PrismaClient } from "../generated/client";
+import { DEFAULT_SYSTEM_CONFIG_ID } from "../auth/authMode";
+
+export const MAX_EMBED_FRAME_ANCESTORS = 50;
+
+const FRAME_ANCESTOR_PATTERN = /^(https?):\/\/(\*\.)?([a-z0-9-]+(?:\.[a-z0-9-]+)*)(?::(\d{1,5}))?\/?$/i;
+
+/**
+ * Normalises one allowlist entry to a CSP source expression: an http(s) origin, optionally with
+ * a leading `*.` wildcard label. Paths, queries and keywords are rejected so an entry can never
+ * widen the policy beyond the site it names.
+ */
+export const normalizeFrameAncestor = (value: string): string | null => {
+  const match = FRAME_ANCESTOR_PATTERN.exec(value.trim());
+  if (!match) return null;
+  const [, scheme, wildcard = "", host, port] = match;
+  if (port !== undefined && (Number(port) < 1 || Number(port) > 65535)) return null;
+  return `${scheme.toLowerCase()}://${wildcard}${host.toLowerCase()}${port ? `:${port}` : ""}`;
+};
+
+/** Parses the stored allowlist (one origin per line), skipping anything that no longer validates. */
+export const parseFrameAncestors = (raw: string): string[] => {
+  const origins = new Set<string>();
+  for (const entry of raw.split(/\s+/)) {
+    const normalized = entry ? normalizeFrameAncestor(entry) : null;
+    if (normalized) origins.add(normalized);
+  }
+  return Array.from(origins);
+};
+
+/** CSP `frame-ancestors` value: the app itself plus every allowlisted origin. */
+export const buildFrameAncestorsDirective = (origins: string[]): string =>
+  ["'self'", ...origins].join(" ");
+
+export const getEmbedFrameAncestors = async (prisma: PrismaClient): Promise<string[]> => {
+  const systemConfig = await prisma.systemConfig.findUnique({
+    where: { id: DEFAULT_SYSTEM_CONFIG_ID },
+    select: { embedFrameAncestors: true },
+  });
+  return parseFrameAncestors(systemConfig?.embedFrameAncestors ?? "");
+};
+
+export type EmbedPageOptions = {
+  drawingId: string;
+  name: string;
+  /** Relative URL of the SVG render, so the page works behind the `/api` proxy prefix too. */
+  renderUrl: string;
+  backgroundColor: string;
+  nonce: string;
+};
+
+/** Delay after the last remote change before the render is refetched if no room save arrives. */
+export const EMBED_REFRESH_DELAY_MS = 2000;
+
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+const toScriptJson = (value: unknown): string => JSON.stringify(value).replace(/</g, "\\u003c");
+
+// Pan (drag), zoom (wheel, around the pointer) and fit (double-click) over the rendered SVG.
+// The image is resized rather than CSS-scaled so the SVG stays crisp at every zoom level.
+// Remote edits only mark the render stale: it is refetched shortly after, and retried a few
+// times while the ETag is unchanged in case the save is still in flight. The room announces its
+// own saves (\`room-persisted\`), which refetch right away.
+const EMBED_VIEWER_SCRIPT = `(function () {
+  var config = JSON.parse(document.getElementById("embed-config").textContent);
+  var viewport = document.getElementById("viewport");
+  var img = document.getElementById("scene");
+  var view = { x: 0, y: 0, zoom: 1 };
+  var fitted = false;
+  var drag = null;
+  var etag = null;
+  var objectUrl = null;
+  var refreshTimer = null;
+
+  var apply = function () {
+    img.style.left = view.x + "px";
+    img.style.top = view.y + "px";
+    img.style.width = img.naturalWidth * view.zoom + "px";
+    img.style.height = img.naturalHeight * view.zoom + "px";
+  };
+  var fit = function () {
+    var width = img.naturalWidth;
+    var height = img.naturalHeight;
+    if (!width || !height) return;
+    var zoom = Math.min(1, viewport.clientWidth / width, viewport.clientHeight / height);
+    view = {
+      zoom: zoom,
+      x: (viewport.clientWidth - width * zoom) / 2,
+      y: (viewport.clientHeight - height * zoom) / 2
+    };
+    apply();
+  };
+
+  img.addEventListener("load", function () {
+    if (fitted) return apply();
+    fitted = true;
+    fit();
+  });
+  viewport.addEventListener("wheel", function (event) {
+    event.preventDefault();
+    var zoom = Math.min(config.maxZoom, Math.max(config.minZoom, view.zoom * Math.exp(-event.deltaY * 0.0015)));
+    var rect = viewport.getBoundingClientRect();
+    var px = event.clientX - rect.left;
+    var py = event.clientY - rect.top;
+    view.x = px - (px - view.x) * (zoom / view.zoom);
+    view.y = py - (py - view.y) * (zoom / view.zoom);
+    view.zoom = zoom;
+    apply();
+  }, { passive: false });
+  viewport.addEventListener("pointerdown", function (event) {
+    drag = { x: event.clientX - view.x, y: event.clientY - view.y };
+    viewport.setPointerCapture(event.pointerId);
+    viewport.classList.add("dragging");
+  });
+  viewport.addEventListener("pointermove", function (event) {
+    if (!drag) return;
+    view.x = event.clientX - drag.x;
+    view.y = event.clientY - drag.y;
+    apply();
+  });
+  var endDrag = function () {
+    drag = null;
+    viewport.classList.remove("dragging");
+  };
+  viewport.addEventListener("pointerup", endDrag);
+  viewport.addEventListener("pointercancel", endDrag);
+  viewport.addEventListener("dblclick", fit);
+
+  var refresh = function (attempt) {
+    fetch(config.renderUrl, { cache: "no-cache", credentials: "same-origin" })
+      .then(function (res) {
+        if (!res.ok) return null;
+        var next = res.headers.get("ETag");
+        if (etag !== null && next === etag) {
+          if (attempt < 3) refreshTimer = setTimeout(function () { refresh(attempt + 1); }, config.refreshDelayMs);
+          return null;
+        }
+        etag = next;
+        return res.blob();
+      })
+      .then(function (blob) {
+        if (!blob) return;
+        var url = URL.createObjectURL(blob);
+        img.src = url;
+        if (objectUrl) URL.revokeObjectURL(objectUrl);
+        objectUrl = url;
+      })
+      .catch(function () {});
+  };
+  var scheduleRefresh = function () {
+    clearTimeout(refreshTimer);
+    refreshTimer = setTimeout(function () { refresh(0); }, config.refreshDelayMs);
+  };
+
+  refresh(0);
+  if (typeof window.io !== "function") return;
+  var socket = window.io({ path: "/socket.io", transports: ["websocket", "polling"] });
+  var joined = false;
+  socket.on("connect", function () {
+    socket.emit("join-room", { drawingId: config.drawingId, viewer: true });
+    if (joined) scheduleRefresh();
+    joined = true;
+  });
+  socket.on("element-update", scheduleRefresh);
+  socket.on("element-delta", scheduleRefresh);
+  socket.on("room-persisted", function () {
+    clearTimeout(refreshTimer);
+    refresh(0);
+  });
+})();`;
+
+/**
+ * Standalone read-only viewer served by the backend at `/embed/:id`. It shows the server-side
+ * SVG render and follows the drawing's socket room, so wikis can frame it without loading the
+ * whole editor bundle.
+ */
+export const renderEmbedPage = (options: EmbedPageOptions): string => {
+  const { nonce } = options;
+  const name = escapeHtml(options.name);
+  const config = {
+    drawingId: options.drawingId,
+    renderUrl: options.renderUrl,
+    refreshDelayMs: EMBED_REFRESH_DELAY_MS,
+    minZoom: 0.1,
+    maxZoom: 8,
+  };
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta name="robots" content="noindex">
+<title>${name}</title>
+<style nonce="${nonce}">
+html, body { margin: 0; height: 100%; overflow: hidden; background: ${options.backgroundColor}; }
+#viewport { position: absolute; inset: 0; cursor: grab; touch-action: none; }
+#viewport.dragging { cursor: grabbing; }
+#scene { position: absolute; max-width: none; user-select: none; -webkit-user-drag: none; }
+</style>
+</head>
+<body>
+<div id="viewport"><img id="scene" alt="${name}" draggable="false"></div>
+<script type="application/json" id="embed-config">${toScriptJson(config)}</script>
+<script src="/socket.io/socket.io.js"></script>
+<script nonce="${nonce}">${EMBED_VIEWER_SCRIPT}</script>
+</body>
+</html>
+`;
+};
+
+/** Body for drawings that do not exist or are not shared with the viewer. */
+export const renderEmbedUnavailablePage = (): string => `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="robots" content="noindex">
+<title>Drawing unavailable</title>
+</head>
+<body>
+<p>This drawing is not available. It may have been deleted or is no longer shared.</p>
+</body>
+</html>
+`;
@@ -0,0 +1,113 @@
+import { describe, expect, it, vi } from "vitest";
+import { collectReferencedFileIds, createFileSweepJob, getFileEntryBytes } from "./fileSweep";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe("collectReferencedFileIds", () => {
+  it("only counts image elements that are still on the canvas", () => {
+    const fileIds = collectReferencedFileIds([
+      { type: "image", fileId: "kept" },
+      { type: "image", fileId: "deleted", isDeleted: true },
+      { type: "rectangle", fileId: "not-an-image" },
+      null,
+    ]);
+    expect(Array.from(fileIds)).toEqual(["kept"]);
+    expect(collectReferencedFileIds("nope").size).toBe(0);
+  });
+});
+
+describe("getFileEntryBytes", () => {
+  it("prefers the stored size and falls back to the inline data URL", () => {
+    expect(getFileEntryBytes({ hash: "h", size: 1234 })).toBe(1234);
+    expect(getFileEntryBytes({ dataURL: "data:image/png;base64,AAAA" })).toBe(26);
+    expect(getFileEntryBytes(null)).toBe(0);
+  });
+});
+
+describe("createFileSweepJob", () => {
+  const createPrisma = (marks: { drawingId: string; fileId: string; detectedAt: Date }[]) => {
+    const drawing = {
+      id: "d1",
+      userId: "u1",
+      elements: JSON.stringify([
+        { type: "image", fileId: "live" },
+        { type: "image", fileId: "old", isDeleted: true },
+      ]),
+      files: JSON.stringify({
+        live: { id: "live", hash: "a", size: 10 },
+        old: { id: "old", hash: "b", size: 300 },
+        recent: { id: "recent", hash: "c", size: 20 },
+      }),
+      version: 4,
+      updatedAt: new Date("2026-01-01T00:00:00.000Z"),
+    };
+    return {
+      drawing: {
+        findMany: vi.fn().mockResolvedValueOnce([drawing]).mockResolvedValue([]),
+        updateMany: vi.fn(async () => ({ count: 1 })),
+      },
+      orphanedDrawingFile: {
+        findMany: vi.fn(async () => marks),
+        createMany: vi.fn(async () => ({ count: 0 })),
+        deleteMany: vi.fn(async () => ({ count: 0 })),
+      },
+      fileSweep: {
+        create: vi.fn(async ({ data }: any) => ({ id: "s1", ...data, finishedAt: data.startedAt })),
+        findMany: vi.fn(async () => []),
+        deleteMany: vi.fn(),
+      },
+    };
+  };
+
+  const createDeps = () => ({
+    drawingFileStore: {
+      syncDrawingFileRefs: vi.fn(async () => undefined),
+      deleteUnreferencedFiles: vi.fn(async () => ({ count: 1, bytes: 300 })),
+    },
+    graceMs: 7 * DAY_MS,
+    intervalMs: 60_000,
+  });
+
+  it("prunes orphans past the grace period and marks new ones", async () => {
+    const now = new Date("2026-03-31T00:00:00.000Z");
+    const prisma = createPrisma([
+      { drawingId: "d1", fileId: "old", detectedAt: new Date(now.getTime() - 8 * DAY_MS) },
+      { drawingId: "d1", fileId: "live", detectedAt: new Date(now.getTime() - 8 * DAY_MS) },
+    ]);
+    const deps = createDeps();
+
+    const report = await createFileSweepJob(prisma as any, deps).sweepOrphanedFiles("admin", now);
+
+    expect(prisma.orphanedDrawingFile.createMany).toHaveBeenCalledWith({
+      data: [{ drawingId: "d1", fileId: "recent", detectedAt: now }],
+    });
+    const update = (prisma.drawing.updateMany.mock.calls[0] as any[])[0];
+    expect(update.where).toEqual({ id: "d1", version: 4 });
+    expect(Object.keys(JSON.parse(update.data.files))).toEqual(["live", "recent"]);
+    expect(update.data.updatedAt).toEqual(new Date("2026-01-01T00:00:00.000Z"));
+    expect(deps.drawingFileStore.deleteUnreferencedFiles).toHaveBeenCalledWith(
+      new Date(now.getTime() - 7 * DAY_MS)
+    );
+    expect(report).toMatchObject({
+      trigger: "admin",
+      drawingsScanned: 1,
+      filesPruned: 1,
+      bytesReclaimed: 300,
+      blobsDeleted: 1,
+      users: [{ userId: "u1", filesPruned: 1, bytesReclaimed: 300 }],
+    });
+  });
+
+  it("leaves the drawing alone while orphans are inside the grace period", async () => {
+    const now = new Date("2026-03-31T00:00:00.000Z");
+    const prisma = createPrisma([
+      { drawingId: "d1", fileId: "old", detectedAt: new Date(now.getTime() - DAY_MS) },
+    ]);
+
+    const report = await createFileSweepJob(prisma as any, createDeps()).sweepOrphanedFiles("scheduled", now);
+
+    expect(prisma.drawing.updateMany).not.toHaveBeenCalled();
+    expect(report.filesPruned).toBe(0);
+    expect(report.users).toEqual([]);
+  });
+});
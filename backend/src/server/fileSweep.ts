@@ -0,0 +1,236 @@
+import { PrismaClient } from "../generated/client";
+import type { DrawingFileStore } from "./drawingFiles";
+
+export const DEFAULT_FILE_SWEEP_GRACE_MS = 7 * 24 * 60 * 60 * 1000;
+
+const SWEEP_BATCH_SIZE = 50;
+const SWEEPS_KEPT = 20;
+
+export type FileSweepTrigger = "scheduled" | "admin";
+
+export type FileSweepReport = {
+  id: string;
+  trigger: FileSweepTrigger;
+  startedAt: Date;
+  finishedAt: Date;
+  drawingsScanned: number;
+  filesPruned: number;
+  bytesReclaimed: number;
+  blobsDeleted: number;
+  blobBytesDeleted: number;
+  users: { userId: string; filesPruned: number; bytesReclaimed: number }[];
+};
+
+type FileSweepDeps = {
+  drawingFileStore: Pick<DrawingFileStore, "syncDrawingFileRefs" | "deleteUnreferencedFiles">;
+  graceMs: number;
+  intervalMs: number;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const parseJson = (raw: string, fallback: unknown): unknown => {
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return fallback;
+  }
+};
+
+/** File ids used by image elements that are still on the canvas (deleted elements do not count). */
+export const collectReferencedFileIds = (elements: unknown): Set<string> => {
+  const fileIds = new Set<string>();
+  if (!Array.isArray(elements)) return fileIds;
+  for (const element of elements) {
+    if (!isRecord(element) || element.isDeleted === true) continue;
+    if (element.type === "image" && typeof element.fileId === "string") fileIds.add(element.fileId);
+  }
+  return fileIds;
+};
+
+/** Image bytes a `Drawing.files` entry accounts for: the stored size, or the inline data URL. */
+export const getFileEntryBytes = (entry: unknown): number => {
+  if (!isRecord(entry)) return 0;
+  if (typeof entry.size === "number" && Number.isFinite(entry.size)) return entry.size;
+  return typeof entry.dataURL === "string" ? Buffer.byteLength(entry.dataURL) : 0;
+};
+
+/**
+ * Removes `Drawing.files` entries that no live image element uses. An entry is first marked
+ * as orphaned and only pruned by a later run once the grace period has passed; stored files
+ * nothing points at anymore are deleted from disk afterwards. Runs on an interval and on demand
+ * from the Admin page; overlapping requests share the run in progress.
+ */
+export const createFileSweepJob = (prisma: PrismaClient, deps: FileSweepDeps) => {
+  let timer: NodeJS.Timeout | null = null;
+  let running: Promise<FileSweepReport> | null = null;
+
+  const sweepDrawings = async (now: Date) => {
+    const cutoff = new Date(now.getTime() - deps.graceMs);
+    const users = new Map<string, { filesPruned: number; bytesReclaimed: number }>();
+    let drawingsScanned = 0;
+    let filesPruned = 0;
+    let bytesReclaimed = 0;
+
+    let cursor: string | undefined;
+    for (;;) {
+      const drawings = await prisma.drawing.findMany({
+        where: {
+          files: { not: "{}" },
+          ...(cursor ? { id: { gt: cursor } } : {}),
+        },
+        select: { id: true, userId: true, elements: true, files: true, version: true, updatedAt: true },
+        orderBy: { id: "asc" },
+        take: SWEEP_BATCH_SIZE,
+      });
+      if (drawings.length === 0) break;
+      cursor = drawings[drawings.length - 1].id;
+
+      const marks = await prisma.orphanedDrawingFile.findMany({
+        where: { drawingId: { in: drawings.map((drawing) => drawing.id) } },
+      });
+
+      for (const drawing of drawings) {
+        drawingsScanned += 1;
+        const parsedFiles = parseJson(drawing.files, {});
+        const files = isRecord(parsedFiles) ? parsedFiles : {};
+        const referenced = collectReferencedFileIds(parseJson(drawing.elements, []));
+        const orphaned = new Set(Object.keys(files).filter((fileId) => !referenced.has(fileId)));
+
+        const drawingMarks = marks.filter((mark) => mark.drawingId === drawing.id);
+        const markedIds = new Set(drawingMarks.map((mark) => mark.fileId));
+        const cleared = drawingMarks.filter((mark) => !orphaned.has(mark.fileId));
+        if (cleared.length > 0) {
+          await prisma.orphanedDrawingFile.deleteMany({
+            where: { drawingId: drawing.id, fileId: { in: cleared.map((mark) => mark.fileId) } },
+          });
+        }
+        const detected = Array.from(orphaned).filter((fileId) => !markedIds.has(fileId));
+        if (detected.length > 0) {
+          await prisma.orphanedDrawingFile.createMany({
+            data: detected.map((fileId) => ({ drawingId: drawing.id, fileId, detectedAt: now })),
+          });
+        }
+
+        const expired = drawingMarks
+          .filter((mark) => orphaned.has(mark.fileId) && mark.detectedAt <= cutoff)
+          .map((mark) => mark.fileId);
+        if (expired.length === 0) continue;
+
+        const remaining = { ...files };
+        let drawingBytes = 0;
+        for (const fileId of expired) {
+          drawingBytes += getFileEntryBytes(remaining[fileId]);
+          delete remaining[fileId];
+        }
+        // Skipped when a save lands in between; the next run sees the new scene. The version and
+        // updatedAt stay as they are so open editors do not see a conflict for a cleanup.
+        const updated = await prisma.drawing.updateMany({
+          where: { id: drawing.id, version: drawing.version },
+          data: { files: JSON.stringify(remaining), updatedAt: drawing.updatedAt },
+        });
+        if (updated.count === 0) continue;
+
+        await deps.drawingFileStore.syncDrawingFileRefs(drawing.id, remaining);
+        await prisma.orphanedDrawingFile.deleteMany({
+          where: { drawingId: drawing.id, fileId: { in: expired } },
+        });
+
+        filesPruned += expired.length;
+        bytesReclaimed += drawingBytes;
+        const userStats = users.get(drawing.userId) ?? { filesPruned: 0, bytesReclaimed: 0 };
+        userStats.filesPruned += expired.length;
+        userStats.bytesReclaimed += drawingBytes;
+        users.set(drawing.userId, userStats);
+      }
+    }
+
+    return { cutoff, users, drawingsScanned, filesPruned, bytesReclaimed };
+  };
+
+  const runSweep = async (trigger: FileSweepTrigger, now: Date): Promise<FileSweepReport> => {
+    const { cutoff, users, drawingsScanned, filesPruned, bytesReclaimed } = await sweepDrawings(now);
+    const blobs = await deps.drawingFileStore.deleteUnreferencedFiles(cutoff);
+
+    const userStats = Array.from(users, ([userId, stats]) => ({ userId, ...stats }));
+    const sweep = await prisma.fileSweep.create({
+      data: {
+        trigger,
+        drawingsScanned,
+        filesPruned,
+        bytesReclaimed,
+        blobsDeleted: blobs.count,
+        blobBytesDeleted: blobs.bytes,
+        startedAt: now,
+        users: { create: userStats },
+      },
+    });
+
+    const stale = await prisma.fileSweep.findMany({
+      select: { id: true },
+      orderBy: { finishedAt: "desc" },
+      skip: SWEEPS_KEPT,
+    });
+    if (stale.length > 0) {
+      await prisma.fileSweep.deleteMany({ where: { id: { in: stale.map((row) => row.id) } } });
+    }
+
+    return {
+      id: sweep.id,
+      trigger,
+      startedAt: sweep.startedAt,
+      finishedAt: sweep.finishedAt,
+      drawingsScanned,
+      filesPruned,
+      bytesReclaimed,
+      blobsDeleted: blobs.count,
+      blobBytesDeleted: blobs.bytes,
+      users: userStats,
+    };
+  };
+
+  const sweepOrphanedFiles = (
+    trigger: FileSweepTrigger,
+    now: Date = new Date()
+  ): Promise<FileSweepReport> => {
+    if (!running) {
+      running = runSweep(trigger, now).finally(() => {
+        running = null;
+      });
+    }
+    return running;
+  };
+
+  const isRunning = () => running !== null;
+
+  const runOnce = async () => {
+    if (running) return;
+    try {
+      const report = await sweepOrphanedFiles("scheduled");
+      if (report.filesPruned > 0 || report.blobsDeleted > 0) {
+        console.log(
+          `Pruned ${report.filesPruned} orphaned images from drawings and deleted ${report.blobsDeleted} stored files`
+        );
+      }
+    } catch (error) {
+      console.error("Failed to sweep orphaned drawing images:", error);
+    }
+  };
+
+  const start = () => {
+    if (timer) return;
+    void runOnce();
+    timer = setInterval(() => void runOnce(), deps.intervalMs);
+    timer.unref();
+  };
+
+  const stop = () => {
+    if (timer) clearInterval(timer);
+    timer = null;
+  };
+
+  return { sweepOrphanedFiles, isRunning, start, stop };
+};
+
+export type FileSweepJob = ReturnType<typeof createFileSweepJob>;
@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { filterNotificationInputs, serializeNotification } from "./notifications";
+
+describe("filterNotificationInputs", () => {
+  it("skips the actor and repeated events", () => {
+    expect(
+      filterNotificationInputs([
+        { userId: "alice", type: "drawing_shared", actorUserId: "alice", drawingId: "d1" },
+        { userId: "bob", type: "drawing_shared", actorUserId: "alice", drawingId: "d1" },
+        { userId: "bob", type: "drawing_shared", actorUserId: "alice", drawingId: "d1" },
+        { userId: "bob", type: "comment_created", actorUserId: "alice", drawingId: "d1" },
+      ]).map((input) => `${input.userId}:${input.type}`)
+    ).toEqual(["bob:drawing_shared", "bob:comment_created"]);
+  });
+
+  it("keeps system notifications that have no actor", () => {
+    expect(
+      filterNotificationInputs([{ userId: "alice", type: "link_share_expiring", drawingId: "d1" }])
+    ).toHaveLength(1);
+  });
+});
+
+describe("serializeNotification", () => {
+  const row = {
+    id: "n1",
+    type: "drawing_shared",
+    drawingId: "d1",
+    readAt: null,
+    createdAt: new Date(0),
+    actor: null,
+  };
+
+  it("parses the stored payload", () => {
+    expect(serializeNotification({ ...row, data: '{"drawingName":"Plan"}' }).data).toEqual({
+      drawingName: "Plan",
+    });
+  });
+
+  it("falls back to an empty payload for malformed data", () => {
+    expect(serializeNotification({ ...row, data: "not json" }).data).toEqual({});
+    expect(serializeNotification({ ...row, data: "[1]" }).data).toEqual({});
+  });
+});
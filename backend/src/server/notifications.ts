@@ -0,0 +1,174 @@
+import { Prisma, PrismaClient } from "../generated/client";
+import type { EmitUserEvent } from "./socket";
+
+export type NotificationType =
+  | "drawing_shared"
+  | "drawing_unshared"
+  | "collection_shared"
+  | "collection_unshared"
+  | "ownership_offered"
+  | "ownership_declined"
+  | "ownership_accepted"
+  | "ownership_transferred"
+  | "comment_created"
+  | "link_share_expiring";
+
+export type NotificationInput = {
+  userId: string;
+  type: NotificationType;
+  actorUserId?: string | null;
+  drawingId?: string | null;
+  /** Snapshot of what the text needs (names, permission, ...); stored as JSON. */
+  data?: Record<string, unknown>;
+};
+
+export type Notify = (inputs: NotificationInput[]) => Promise<void>;
+
+export const notificationSelect = {
+  id: true,
+  type: true,
+  drawingId: true,
+  data: true,
+  readAt: true,
+  createdAt: true,
+  actor: { select: { id: true, name: true } },
+} satisfies Prisma.NotificationSelect;
+
+type NotificationRow = Prisma.NotificationGetPayload<{ select: typeof notificationSelect }>;
+
+export const serializeNotification = (row: NotificationRow) => {
+  let data: Record<string, unknown> = {};
+  try {
+    const parsed: unknown = JSON.parse(row.data);
+    if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) {
+      data = parsed as Record<string, unknown>;
+    }
+  } catch {
+    // Leave the payload empty; the client falls back to generic text.
+  }
+  return { ...row, data };
+};
+
+/**
+ * Drops notifications about a user's own actions (e.g. sharing with a group they are in)
+ * and repeats of the same event for the same recipient.
+ */
+export const filterNotificationInputs = (inputs: NotificationInput[]): NotificationInput[] => {
+  const seen = new Set<string>();
+  return inputs.filter((input) => {
+    if (input.actorUserId && input.actorUserId === input.userId) return false;
+    const key = `${input.userId}\u0000${input.type}\u0000${input.drawingId ?? ""}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+type NotifierDeps = {
+  emitToUser: EmitUserEvent;
+};
+
+/**
+ * Stores notifications and pushes each one to the recipient's open sockets. Failures are
+ * logged rather than thrown: a notification must never fail the action that caused it.
+ */
+export const createNotifier = (prisma: PrismaClient, deps: NotifierDeps): Notify => {
+  return async (inputs) => {
+    try {
+      for (const input of filterNotificationInputs(inputs)) {
+        const row = await prisma.notification.create({
+          data: {
+            userId: input.userId,
+            type: input.type,
+            actorUserId: input.actorUserId ?? null,
+            drawingId: input.drawingId ?? null,
+            data: JSON.stringify(input.data ?? {}),
+          },
+          select: notificationSelect,
+        });
+        deps.emitToUser(input.userId, "notification", serializeNotification(row));
+      }
+    } catch (error) {
+      console.error("Failed to create notifications:", error);
+    }
+  };
+};
+
+type LinkShareExpiryDeps = {
+  notify: Notify;
+  /** How long before `expiresAt` the creator is warned. */
+  warnBeforeMs: number;
+  intervalMs: number;
+};
+
+/**
+ * Warns whoever created a link share once it is within `warnBeforeMs` of expiring. Each share
+ * is only announced once (`expiryNotifiedAt`); revoked and already-expired shares are skipped.
+ */
+export const createLinkShareExpiryJob = (prisma: PrismaClient, deps: LinkShareExpiryDeps) => {
+  let timer: NodeJS.Timeout | null = null;
+  let running = false;
+
+  const notifyExpiringLinkShares = async (now: Date = new Date()): Promise<number> => {
+    const expiring = await prisma.drawingLinkShare.findMany({
+      where: {
+        revokedAt: null,
+        expiryNotifiedAt: null,
+        expiresAt: { gt: now, lte: new Date(now.getTime() + deps.warnBeforeMs) },
+      },
+      select: {
+        id: true,
+        drawingId: true,
+        permission: true,
+        expiresAt: true,
+        createdByUserId: true,
+        drawing: { select: { name: true } },
+      },
+    });
+    if (expiring.length === 0) return 0;
+
+    await prisma.drawingLinkShare.updateMany({
+      where: { id: { in: expiring.map((share) => share.id) } },
+      data: { expiryNotifiedAt: now },
+    });
+    await deps.notify(
+      expiring.map((share) => ({
+        userId: share.createdByUserId,
+        type: "link_share_expiring" as const,
+        drawingId: share.drawingId,
+        data: {
+          drawingName: share.drawing.name,
+          permission: share.permission,
+          expiresAt: share.expiresAt?.toISOString() ?? null,
+        },
+      }))
+    );
+    return expiring.length;
+  };
+
+  const runOnce = async () => {
+    if (running) return;
+    running = true;
+    try {
+      await notifyExpiringLinkShares();
+    } catch (error) {
+      console.error("Failed to check expiring link shares:", error);
+    } finally {
+      running = false;
+    }
+  };
+
+  const start = () => {
+    if (timer) return;
+    void runOnce();
+    timer = setInterval(() => void runOnce(), deps.intervalMs);
+    timer.unref();
+  };
+
+  const stop = () => {
+    if (timer) clearInterval(timer);
+    timer = null;
+  };
+
+  return { notifyExpiringLinkShares, start, stop };
+};
@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+import { remapTransferredPlacement } from "./ownershipTransfer";
+
+describe("remapTransferredPlacement", () => {
+  it("moves trashed drawings into the recipient's trash", () => {
+    expect(
+      remapTransferredPlacement({ collectionId: "trash:alice", previousCollectionId: "c1" }, "alice", "bob", false)
+    ).toEqual({ collectionId: "trash:bob", previousCollectionId: null });
+    expect(
+      remapTransferredPlacement({ collectionId: "trash", previousCollectionId: "c1" }, "alice", "bob", true)
+    ).toEqual({ collectionId: "trash:bob", previousCollectionId: "c1" });
+  });
+
+  it("keeps collections only when they move along", () => {
+    const drawing = { collectionId: "c1", previousCollectionId: null };
+    expect(remapTransferredPlacement(drawing, "alice", "bob", false)).toEqual({
+      collectionId: null,
+      previousCollectionId: null,
+    });
+    expect(remapTransferredPlacement(drawing, "alice", "bob", true)).toEqual({
+      collectionId: "c1",
+      previousCollectionId: null,
+    });
+  });
+
+  it("never carries the previous owner's trash id as a restore target", () => {
+    expect(
+      remapTransferredPlacement(
+        { collectionId: "trash:alice", previousCollectionId: "trash:alice" },
+        "alice",
+        "bob",
+        true
+      )
+    ).toEqual({ collectionId: "trash:bob", previousCollectionId: null });
+  });
+});
@@ -0,0 +1,124 @@
+import { Prisma } from "../generated/client";
+
+type EnsureTrashCollection = (db: Prisma.TransactionClient, userId: string) => Promise<void>;
+
+export type DrawingPlacement = {
+  collectionId: string | null;
+  previousCollectionId: string | null;
+};
+
+const isUserTrashId = (collectionId: string | null, userId: string) =>
+  collectionId === "trash" || collectionId === `trash:${userId}`;
+
+/**
+ * Where a drawing lands for its new owner. Trashed drawings move into the recipient's trash;
+ * other collection ids are only kept when the collections change hands too (bulk transfer),
+ * since a drawing must never sit in a collection its owner doesn't own.
+ */
+export const remapTransferredPlacement = (
+  drawing: DrawingPlacement,
+  fromUserId: string,
+  toUserId: string,
+  collectionsMove: boolean
+): DrawingPlacement => {
+  const keep = (collectionId: string | null) =>
+    collectionsMove && !isUserTrashId(collectionId, fromUserId) ? collectionId : null;
+  if (isUserTrashId(drawing.collectionId, fromUserId)) {
+    return {
+      collectionId: `trash:${toUserId}`,
+      previousCollectionId: keep(drawing.previousCollectionId),
+    };
+  }
+  return { collectionId: keep(drawing.collectionId), previousCollectionId: null };
+};
+
+type TransferDrawingsOptions = {
+  fromUserId: string;
+  toUserId: string;
+  /** Who performed the transfer; recorded as the grantor of the previous owner's edit access. */
+  actorUserId: string;
+  /** Limits the transfer to these drawings; all of `fromUserId`'s drawings otherwise. */
+  drawingIds?: string[];
+  collectionsMove: boolean;
+  ensureTrashCollection: EnsureTrashCollection;
+};
+
+/**
+ * Re-owns drawings inside a transaction. The previous owner keeps edit access through a
+ * DrawingPermission, any grant the recipient held becomes redundant and is dropped, and
+ * pending transfer offers for the moved drawings are settled. Returns the moved drawing ids.
+ */
+export const transferDrawings = async (
+  tx: Prisma.TransactionClient,
+  options: TransferDrawingsOptions
+): Promise<string[]> => {
+  const { fromUserId, toUserId, actorUserId, drawingIds, collectionsMove } = options;
+  const drawings = await tx.drawing.findMany({
+    where: { userId: fromUserId, ...(drawingIds ? { id: { in: drawingIds } } : {}) },
+    select: { id: true, collectionId: true, previousCollectionId: true },
+  });
+  if (drawings.length === 0) return [];
+
+  if (drawings.some((drawing) => isUserTrashId(drawing.collectionId, fromUserId))) {
+    await options.ensureTrashCollection(tx, toUserId);
+  }
+
+  // Drawings that land in the same place are moved with one statement.
+  const idsByPlacement = new Map<string, { placement: DrawingPlacement; ids: string[] }>();
+  for (const drawing of drawings) {
+    const placement = remapTransferredPlacement(drawing, fromUserId, toUserId, collectionsMove);
+    const key = JSON.stringify(placement);
+    const group = idsByPlacement.get(key);
+    if (group) group.ids.push(drawing.id);
+    else idsByPlacement.set(key, { placement, ids: [drawing.id] });
+  }
+  for (const { placement, ids } of idsByPlacement.values()) {
+    await tx.drawing.updateMany({
+      where: { id: { in: ids }, userId: fromUserId },
+      data: { userId: toUserId, ...placement },
+    });
+  }
+
+  const ids = drawings.map((drawing) => drawing.id);
+  await tx.drawingPermission.deleteMany({
+    where: { drawingId: { in: ids }, granteeUserId: { in: [fromUserId, toUserId] } },
+  });
+  await tx.drawingPermission.createMany({
+    data: ids.map((drawingId) => ({
+      drawingId,
+      granteeUserId: fromUserId,
+      permission: "edit",
+      createdByUserId: actorUserId,
+    })),
+  });
+  await tx.drawingTransfer.deleteMany({ where: { drawingId: { in: ids } } });
+  return ids;
+};
+
+/**
+ * Moves every collection and drawing from one user to another (admin hand-over). The previous
+ * owner's trash collection stays theirs; its drawings move into the recipient's trash.
+ */
+export const transferAllOwnership = async (
+  tx: Prisma.TransactionClient,
+  options: Omit<TransferDrawingsOptions, "drawingIds" | "collectionsMove">
+): Promise<{ drawingIds: string[]; collectionIds: string[] }> => {
+  const { fromUserId, toUserId } = options;
+  const collections = await tx.collection.findMany({
+    where: { userId: fromUserId, id: { notIn: ["trash", `trash:${fromUserId}`] } },
+    select: { id: true },
+  });
+  const collectionIds = collections.map((collection) => collection.id);
+  if (collectionIds.length > 0) {
+    await tx.collection.updateMany({
+      where: { id: { in: collectionIds } },
+      data: { userId: toUserId },
+    });
+    await tx.collectionPermission.deleteMany({
+      where: { collectionId: { in: collectionIds }, granteeUserId: toUserId },
+    });
+  }
+
+  const drawingIds = await transferDrawings(tx, { ...options, collectionsMove: true });
+  return { drawingIds, collectionIds };
+};
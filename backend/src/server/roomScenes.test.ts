@@ -0,0 +1,177 @@
+import { describe, expect, it, vi } from "vitest";
+import { applyDeltaToElement, createRoomSceneStore } from "./roomScenes";
+
+const element = (id: string, version: number, extra: Record<string, unknown> = {}) => ({
+  id,
+  type: "rectangle",
+  x: 0,
+  version,
+  versionNonce: version,
+  updated: version,
+  ...extra,
+});
+
+describe("applyDeltaToElement", () => {
+  it("applies deltas on their base and skips ones the room already has", () => {
+    const current = element("a", 1);
+    const delta = { id: "a", version: 2, versionNonce: 2, base: { version: 1, versionNonce: 1 }, props: { x: 5 } };
+    expect(applyDeltaToElement(current, delta)).toMatchObject({ id: "a", version: 2, x: 5 });
+    expect(applyDeltaToElement(element("a", 3), delta)).toBe("stale");
+    expect(applyDeltaToElement(undefined, delta)).toBe("missing");
+  });
+
+  it("folds a newer delta's fields onto a copy with a different base", () => {
+    const current = element("a", 1, { versionNonce: 42, y: 9 });
+    const delta = { id: "a", version: 2, versionNonce: 2, base: { version: 1, versionNonce: 1 }, props: { x: 5 } };
+    expect(applyDeltaToElement(current, delta)).toMatchObject({ version: 2, x: 5, y: 9 });
+  });
+});
+
+describe("createRoomSceneStore", () => {
+  const createStore = (storedRows: Array<Record<string, unknown>>) => {
+    const rows = [...storedRows];
+    const prisma = {
+      drawing: {
+        findUnique: vi.fn(async () => rows.shift() ?? null),
+        updateMany: vi.fn(async () => ({ count: 1 })),
+      },
+    };
+    const deps = {
+      drawingFileStore: {
+        externalizeFiles: vi.fn(async (files: Record<string, unknown>) =>
+          Object.fromEntries(Object.keys(files).map((fileId) => [fileId, { hash: `h-${fileId}` }]))
+        ),
+        syncDrawingFileRefs: vi.fn(async () => undefined),
+      },
+      recordDrawingRevision: vi.fn(async () => undefined),
+      drawingSearchIndex: { indexDrawing: vi.fn(async () => undefined) },
+      invalidateDrawingsCache: vi.fn(),
+      persistDelayMs: 60_000,
+      maxPersistDelayMs: 60_000,
+      onPersisted: vi.fn(),
+      onStoredChanges: vi.fn(),
+    };
+    return { store: createRoomSceneStore(prisma as any, deps), prisma, deps };
+  };
+
+  const row = (version: number, elements: unknown[], files: Record<string, unknown> = {}) => ({
+    id: "d1",
+    name: "Sketch",
+    version,
+    elements: JSON.stringify(elements),
+    appState: "{}",
+    files: JSON.stringify(files),
+  });
+
+  it("writes live changes on top of the version it loaded", async () => {
+    const { store, prisma, deps } = createStore([
+      row(3, [element("a", 1)], { old: { hash: "h-old" } }),
+      row(3, [element("a", 1)], { old: { hash: "h-old" } }),
+      row(4, []),
+    ]);
+    expect(await store.load("d1")).toBe(true);
+
+    const result = store.applyDeltas(
+      "d1",
+      [
+        { id: "a", version: 2, versionNonce: 2, base: { version: 1, versionNonce: 1 }, props: { x: 5 } },
+        { id: "b", version: 1, versionNonce: 1, base: { version: 0, versionNonce: 0 }, props: {} },
+      ],
+      { files: { img: { dataURL: "data:image/png;base64,AA==" } }, userId: "u1", seq: 7 }
+    );
+    expect(result).toEqual({ missingElementIds: ["b"] });
+    expect(store.isAheadOf("d1", 3)).toBe(true);
+
+    await store.flush("d1");
+
+    const update = (prisma.drawing.updateMany.mock.calls[0] as any[])[0];
+    expect(update.where).toEqual({ id: "d1", version: 3 });
+    expect(JSON.parse(update.data.elements)).toEqual([expect.objectContaining({ id: "a", x: 5 })]);
+    expect(JSON.parse(update.data.files)).toEqual({ old: { hash: "h-old" }, img: { hash: "h-img" } });
+    expect(deps.drawingFileStore.externalizeFiles).toHaveBeenCalledWith(
+      { img: { dataURL: "data:image/png;base64,AA==" } },
+      "u1",
+      { drawingId: "d1" }
+    );
+    expect(deps.onPersisted).toHaveBeenCalledWith("d1", 4, 7);
+    expect(store.isAheadOf("d1", 4)).toBe(false);
+  });
+
+  it("folds in elements saved over HTTP while the room was open", async () => {
+    const { store, prisma, deps } = createStore([
+      row(3, [element("a", 1), element("b", 1)]),
+      row(5, [element("a", 1), element("b", 4, { x: 7 }), element("c", 1)]),
+      row(6, []),
+    ]);
+    await store.load("d1");
+    store.applyElements("d1", [element("a", 2, { x: 1 })], { userId: "u1" });
+
+    await store.flush("d1");
+
+    expect(deps.onStoredChanges).toHaveBeenCalledWith("d1", [
+      expect.objectContaining({ id: "b", version: 4 }),
+      expect.objectContaining({ id: "c" }),
+    ]);
+    const update = (prisma.drawing.updateMany.mock.calls[0] as any[])[0];
+    expect(update.where).toEqual({ id: "d1", version: 5 });
+    expect(JSON.parse(update.data.elements).map((el: any) => [el.id, el.version])).toEqual([
+      ["a", 2],
+      ["b", 4],
+      ["c", 1],
+    ]);
+  });
+
+  it("writes every room with pending changes on flushAll, before the debounce fires", async () => {
+    const { store, prisma } = createStore([
+      row(3, [element("a", 1)]),
+      row(3, [element("a", 1)]),
+      row(4, []),
+    ]);
+    await store.load("d1");
+    store.applyElements("d1", [element("a", 2, { x: 1 })], { userId: "u1" });
+
+    await store.flushAll();
+
+    expect(prisma.drawing.updateMany).toHaveBeenCalledTimes(1);
+    expect(store.isAheadOf("d1", 4)).toBe(false);
+  });
+
+  it("replaces a clean room's scene with one written over HTTP", async () => {
+    const { store, prisma } = createStore([
+      row(3, [element("a", 1), element("b", 1)]),
+      row(4, [element("b", 2, { x: 3 })], { img: { hash: "h-img" } }),
+    ]);
+    await store.load("d1");
+
+    const snapshot = await store.syncWithStored("d1");
+
+    expect(snapshot).toMatchObject({
+      version: 4,
+      elements: [expect.objectContaining({ id: "b", version: 2, x: 3 })],
+      files: { img: { hash: "h-img" } },
+      elementOrder: ["b"],
+    });
+    expect(store.isAheadOf("d1", 4)).toBe(false);
+    expect(prisma.drawing.updateMany).not.toHaveBeenCalled();
+  });
+
+  it("writes a dirty room's changes over a scene written over HTTP instead of dropping them", async () => {
+    const { store, prisma, deps } = createStore([
+      row(3, [element("a", 1)]),
+      row(4, [element("a", 1), element("c", 1)]),
+      row(5, []),
+    ]);
+    await store.load("d1");
+    store.applyElements("d1", [element("a", 2, { x: 1 })], { userId: "u1" });
+
+    expect(await store.syncWithStored("d1")).toBeNull();
+
+    expect(deps.onStoredChanges).toHaveBeenCalledWith("d1", [expect.objectContaining({ id: "c" })]);
+    const update = (prisma.drawing.updateMany.mock.calls[0] as any[])[0];
+    expect(update.where).toEqual({ id: "d1", version: 4 });
+    expect(JSON.parse(update.data.elements).map((el: any) => [el.id, el.version])).toEqual([
+      ["a", 2],
+      ["c", 1],
+    ]);
+  });
+});
@@ -0,0 +1,410 @@
+import { PrismaClient } from "../generated/client";
+import type { DrawingFileStore } from "./drawingFiles";
+import { isSceneElement, pickNewerElement, type SceneElement } from "./drawingMerge";
+import type { RecordDrawingRevision } from "./drawingRevisions";
+import type { DrawingSearchIndex } from "./drawingSearchIndex";
+import type { ElementDelta } from "./socketUpdates";
+
+type RoomScene = {
+  drawingId: string;
+  /** `Drawing.version` this scene was loaded from or last written as. */
+  version: number;
+  /** Insertion order is the z-order. */
+  elements: Map<string, SceneElement>;
+  files: Record<string, unknown>;
+  /** Files received live that have not been written to the file store yet. */
+  unpersistedFileIds: Set<string>;
+  dirty: boolean;
+  dirtySinceMs: number | null;
+  lastEditorUserId: string | null;
+  /** Room sequence number of the last change applied to this scene. */
+  lastAppliedSeq: number;
+  persistTimer: NodeJS.Timeout | null;
+  persisting: Promise<void> | null;
+};
+
+export type RoomSceneSnapshot = {
+  version: number;
+  elements: SceneElement[];
+  files: Record<string, unknown>;
+  elementOrder?: string[];
+};
+
+type RoomSceneChange = {
+  files?: Record<string, unknown>;
+  elementOrder?: string[];
+  userId: string | null;
+  /** Room sequence number the change was relayed under. */
+  seq?: number;
+};
+
+export type RoomScenePersistenceDeps = {
+  drawingFileStore: Pick<DrawingFileStore, "externalizeFiles" | "syncDrawingFileRefs">;
+  recordDrawingRevision: RecordDrawingRevision;
+  drawingSearchIndex: Pick<DrawingSearchIndex, "indexDrawing">;
+  invalidateDrawingsCache: () => void;
+  /** Quiet period after the last change before the scene is written. */
+  persistDelayMs: number;
+  /** Upper bound on how long a continuously edited scene stays unsaved. */
+  maxPersistDelayMs: number;
+};
+
+type RoomSceneStoreDeps = RoomScenePersistenceDeps & {
+  /**
+   * Called after each write with the drawing's new `version` and the room sequence number of the
+   * last change the write contains, so senders can tell which of their edits are saved.
+   */
+  onPersisted?: (drawingId: string, version: number, seq: number) => void;
+  /** Called with elements an HTTP save changed behind the room's back, once folded in. */
+  onStoredChanges?: (drawingId: string, elements: SceneElement[]) => void;
+};
+
+const MAX_PERSIST_ATTEMPTS = 3;
+
+const parseJson = <T>(value: string | null | undefined, fallback: T): T => {
+  if (!value) return fallback;
+  try {
+    return (JSON.parse(value) as T) ?? fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+const readNumber = (value: unknown) => (typeof value === "number" && Number.isFinite(value) ? value : 0);
+
+/**
+ * Applies one delta to the room's copy. Deltas whose base does not match still carry the fields
+ * their sender changed, so those are folded onto the newer copy rather than dropped. A delta for
+ * an element the room has never seen cannot be rebuilt and is reported as missing.
+ */
+export const applyDeltaToElement = (
+  current: SceneElement | undefined,
+  delta: ElementDelta
+): SceneElement | "stale" | "missing" => {
+  const revision = { version: delta.version, versionNonce: delta.versionNonce };
+  if (!delta.base) {
+    const incoming: SceneElement = { ...delta.props, id: delta.id, ...revision };
+    if (!current) return incoming;
+    return pickNewerElement(current, incoming) ?? incoming;
+  }
+  if (!current) return "missing";
+  const currentVersion = readNumber(current.version);
+  if (
+    currentVersion > delta.version ||
+    (currentVersion === delta.version && readNumber(current.versionNonce) === delta.versionNonce)
+  ) {
+    return "stale";
+  }
+  return { ...current, ...delta.props, id: delta.id, ...revision };
+};
+
+const reorderElements = (elements: Map<string, SceneElement>, elementOrder: string[]) => {
+  const ordered = new Map<string, SceneElement>();
+  for (const id of elementOrder) {
+    const element = elements.get(id);
+    if (element) ordered.set(id, element);
+  }
+  for (const [id, element] of elements) {
+    if (!ordered.has(id)) ordered.set(id, element);
+  }
+  return ordered;
+};
+
+/**
+ * Canonical scenes of drawings with an open collaboration room. Live updates are applied here as
+ * they are relayed, late joiners are served from memory, and the store writes debounced snapshots
+ * to the drawing itself, so clients in a live session do not save scene changes over HTTP.
+ */
+export const createRoomSceneStore = (prisma: PrismaClient, deps: RoomSceneStoreDeps) => {
+  const scenes = new Map<string, RoomScene>();
+  const loading = new Map<string, Promise<RoomScene | null>>();
+
+  const readScene = async (drawingId: string): Promise<RoomScene | null> => {
+    const drawing = await prisma.drawing.findUnique({
+      where: { id: drawingId },
+      select: { version: true, elements: true, files: true },
+    });
+    if (!drawing) return null;
+    const elements = new Map<string, SceneElement>();
+    for (const element of parseJson<unknown[]>(drawing.elements, [])) {
+      if (isSceneElement(element)) elements.set(element.id, element);
+    }
+    return {
+      drawingId,
+      version: drawing.version,
+      elements,
+      files: parseJson<Record<string, unknown>>(drawing.files, {}),
+      unpersistedFileIds: new Set(),
+      dirty: false,
+      dirtySinceMs: null,
+      lastEditorUserId: null,
+      lastAppliedSeq: 0,
+      persistTimer: null,
+      persisting: null,
+    };
+  };
+
+  /** Makes sure the room's scene is in memory; false when the drawing no longer exists. */
+  const load = async (drawingId: string): Promise<boolean> => {
+    if (scenes.has(drawingId)) return true;
+    let pending = loading.get(drawingId);
+    if (!pending) {
+      pending = readScene(drawingId)
+        .then((scene) => {
+          if (scene && !scenes.has(drawingId)) scenes.set(drawingId, scene);
+          return scenes.get(drawingId) ?? null;
+        })
+        .finally(() => loading.delete(drawingId));
+      loading.set(drawingId, pending);
+    }
+    return (await pending) !== null;
+  };
+
+  const writeScene = async (scene: RoomScene) => {
+    for (let attempt = 0; attempt < MAX_PERSIST_ATTEMPTS; attempt += 1) {
+      const stored = await prisma.drawing.findUnique({ where: { id: scene.drawingId } });
+      if (!stored) {
+        // Deleted while the room was open; nothing left to save into.
+        scenes.delete(scene.drawingId);
+        return;
+      }
+
+      const storedFiles = parseJson<Record<string, unknown>>(stored.files, {});
+      if (stored.version !== scene.version) {
+        // Saved over HTTP meanwhile (a client outside the room, or the API). Fold those
+        // elements in the way a live update would be, keeping the room's copy on ties.
+        const pulled: SceneElement[] = [];
+        for (const element of parseJson<unknown[]>(stored.elements, [])) {
+          if (!isSceneElement(element)) continue;
+          const current = scene.elements.get(element.id);
+          if (current && (pickNewerElement(current, element) ?? current) === current) continue;
+          scene.elements.set(element.id, element);
+          pulled.push(element);
+        }
+        for (const [fileId, entry] of Object.entries(storedFiles)) {
+          if (!(fileId in scene.files)) scene.files[fileId] = entry;
+        }
+        if (pulled.length > 0) deps.onStoredChanges?.(scene.drawingId, pulled);
+      }
+
+      const newFileIds = [...scene.unpersistedFileIds];
+      const newFiles = await deps.drawingFileStore.externalizeFiles(
+        Object.fromEntries(newFileIds.map((fileId) => [fileId, scene.files[fileId]])),
+        scene.lastEditorUserId,
+        { drawingId: scene.drawingId }
+      );
+      const persistedSeq = scene.lastAppliedSeq;
+      const written = await prisma.drawing.updateMany({
+        where: { id: scene.drawingId, version: stored.version },
+        data: {
+          elements: JSON.stringify([...scene.elements.values()]),
+          files: JSON.stringify({ ...storedFiles, ...newFiles }),
+          version: { increment: 1 },
+        },
+      });
+      if (written.count === 0) continue;
+      for (const fileId of newFileIds) scene.unpersistedFileIds.delete(fileId);
+
+      const updated = await prisma.drawing.findUnique({ where: { id: scene.drawingId } });
+      if (!updated) return;
+      scene.version = updated.version;
+      deps.invalidateDrawingsCache();
+      if (newFileIds.length > 0) {
+        await deps.drawingFileStore.syncDrawingFileRefs(scene.drawingId, updated.files);
+      }
+      try {
+        await deps.recordDrawingRevision({
+          drawing: updated,
+          previous: stored,
+          createdByUserId: scene.lastEditorUserId,
+        });
+      } catch (error) {
+        console.error("Failed to record drawing revision", { drawingId: scene.drawingId, error });
+      }
+      await deps.drawingSearchIndex.indexDrawing(updated);
+      deps.onPersisted?.(scene.drawingId, scene.version, persistedSeq);
+      return;
+    }
+    throw new Error("Drawing kept changing while the room scene was being saved");
+  };
+
+  const persistNow = async (scene: RoomScene) => {
+    if (scene.persistTimer) clearTimeout(scene.persistTimer);
+    scene.persistTimer = null;
+    if (!scene.dirty) return;
+    scene.dirty = false;
+    scene.dirtySinceMs = null;
+    try {
+      await writeScene(scene);
+    } catch (error) {
+      console.error("Failed to save room scene", { drawingId: scene.drawingId, error });
+      if (scenes.get(scene.drawingId) === scene) markDirty(scene);
+    }
+  };
+
+  /** Writes the scene now (after any write already in progress). */
+  const flush = (drawingId: string): Promise<void> => {
+    const scene = scenes.get(drawingId);
+    if (!scene) return Promise.resolve();
+    const previous = scene.persisting ?? Promise.resolve();
+    const next = previous.then(() => persistNow(scene));
+    scene.persisting = next;
+    return next.finally(() => {
+      if (scene.persisting === next) scene.persisting = null;
+    });
+  };
+
+  const markDirty = (scene: RoomScene) => {
+    const now = Date.now();
+    scene.dirty = true;
+    scene.dirtySinceMs ??= now;
+    if (scene.persistTimer) clearTimeout(scene.persistTimer);
+    const remaining = deps.maxPersistDelayMs - (now - scene.dirtySinceMs);
+    scene.persistTimer = setTimeout(
+      () => void flush(scene.drawingId),
+      Math.max(0, Math.min(deps.persistDelayMs, remaining))
+    );
+    scene.persistTimer.unref();
+  };
+
+  const applyChange = (scene: RoomScene, change: RoomSceneChange) => {
+    if (change.files) {
+      for (const [fileId, entry] of Object.entries(change.files)) {
+        scene.files[fileId] = entry;
+        scene.unpersistedFileIds.add(fileId);
+      }
+    }
+    if (change.elementOrder && change.elementOrder.length > 0) {
+      scene.elements = reorderElements(scene.elements, change.elementOrder);
+    }
+    if (change.userId) scene.lastEditorUserId = change.userId;
+    if (change.seq !== undefined) scene.lastAppliedSeq = Math.max(scene.lastAppliedSeq, change.seq);
+    markDirty(scene);
+  };
+
+  /** Applies full elements (protocol v1 updates and resync answers) like `reconcileElements`. */
+  const applyElements = (
+    drawingId: string,
+    elements: unknown[],
+    change: RoomSceneChange
+  ): boolean => {
+    const scene = scenes.get(drawingId);
+    if (!scene) return false;
+    for (const element of elements) {
+      if (!isSceneElement(element)) continue;
+      const current = scene.elements.get(element.id);
+      scene.elements.set(element.id, current ? pickNewerElement(current, element) ?? element : element);
+    }
+    applyChange(scene, change);
+    return true;
+  };
+
+  /** Applies v2 deltas; returns the ids the sender has to resend in full. */
+  const applyDeltas = (
+    drawingId: string,
+    deltas: ElementDelta[],
+    change: RoomSceneChange
+  ): { missingElementIds: string[] } | null => {
+    const scene = scenes.get(drawingId);
+    if (!scene) return null;
+    const missingElementIds: string[] = [];
+    for (const delta of deltas) {
+      const result = applyDeltaToElement(scene.elements.get(delta.id), delta);
+      if (result === "missing") missingElementIds.push(delta.id);
+      else if (result !== "stale") scene.elements.set(delta.id, result);
+    }
+    applyChange(scene, change);
+    return { missingElementIds };
+  };
+
+  /** The room's scene as clients see it; `elementIds` narrows it to those elements. */
+  const getSnapshot = (drawingId: string, elementIds?: string[] | null): RoomSceneSnapshot | null => {
+    const scene = scenes.get(drawingId);
+    if (!scene) return null;
+    if (elementIds) {
+      const elements = elementIds
+        .map((id) => scene.elements.get(id))
+        .filter((element): element is SceneElement => !!element);
+      const fileIds = new Set(elements.map((element) => element.fileId));
+      const files = Object.fromEntries(
+        Object.entries(scene.files).filter(([fileId]) => fileIds.has(fileId))
+      );
+      return { version: scene.version, elements, files };
+    }
+    return {
+      version: scene.version,
+      elements: [...scene.elements.values()],
+      files: { ...scene.files },
+      elementOrder: [...scene.elements.keys()],
+    };
+  };
+
+  /** True while the room holds changes that may not be in the drawing a client fetched at `version`. */
+  const isAheadOf = (drawingId: string, version: number | null) => {
+    const scene = scenes.get(drawingId);
+    if (!scene) return false;
+    return scene.dirty || scene.persisting !== null || version !== scene.version;
+  };
+
+  /**
+   * Saves and forgets a room's scene once its last socket has left. `isStillEmpty` is asked again
+   * after the write, since someone may have joined while it ran.
+   */
+  const release = async (drawingId: string, isStillEmpty: () => boolean) => {
+    await flush(drawingId);
+    const scene = scenes.get(drawingId);
+    if (scene && !scene.dirty && isStillEmpty()) {
+      if (scene.persistTimer) clearTimeout(scene.persistTimer);
+      scenes.delete(drawingId);
+    }
+  };
+
+  /**
+   * Catches an open room up with a scene written over HTTP (a save or a revision restore). A room
+   * with unsaved changes writes them now, which folds the stored elements in and reports them
+   * through `onStoredChanges`; a clean room takes the stored scene as is. Returns the room's new
+   * snapshot when it was replaced, so the caller can hand it to everyone in the room.
+   */
+  const syncWithStored = async (drawingId: string): Promise<RoomSceneSnapshot | null> => {
+    const scene = scenes.get(drawingId);
+    if (!scene) return null;
+    if (!scene.dirty && !scene.persisting) {
+      const stored = await readScene(drawingId);
+      if (scenes.get(drawingId) !== scene) return null;
+      if (!stored) {
+        if (scene.persistTimer) clearTimeout(scene.persistTimer);
+        scenes.delete(drawingId);
+        return null;
+      }
+      // A live change may have landed while the drawing was read; that one has to be merged.
+      if (!scene.dirty && !scene.persisting) {
+        if (stored.version === scene.version) return null;
+        scene.version = stored.version;
+        scene.elements = stored.elements;
+        scene.files = stored.files;
+        return getSnapshot(drawingId);
+      }
+    }
+    await flush(drawingId);
+    return null;
+  };
+
+  /** Writes every room's pending changes now; used on shutdown, when the timers will not fire. */
+  const flushAll = async () => {
+    await Promise.all([...scenes.keys()].map((drawingId) => flush(drawingId)));
+  };
+
+  return {
+    load,
+    applyElements,
+    applyDeltas,
+    getSnapshot,
+    isAheadOf,
+    flush,
+    flushAll,
+    release,
+    syncWithStored,
+  };
+};
+
+export type RoomSceneStore = ReturnType<typeof createRoomSceneStore>;
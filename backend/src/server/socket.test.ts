@@ -0,0 +1,291 @@
+import { createServer } from "http";
+import type { AddressInfo } from "net";
+import jwt from "jsonwebtoken";
+import { Server } from "socket.io";
+import { io as connectClient, type Socket as ClientSocket } from "socket.io-client";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { z } from "zod";
+import { elementSchema, sanitizeDrawingData } from "../security";
+import type { DrawingAccess } from "../authz/sharing";
+import { registerSocketHandlers } from "./socket";
+
+const access = new Map<string, DrawingAccess>();
+
+vi.mock("../authz/sharing", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../authz/sharing")>()),
+  getDrawingAccess: vi.fn(
+    async ({ principal, drawingId }: { principal: { userId: string } | null; drawingId: string }) =>
+      access.get(`${principal?.userId}:${drawingId}`) ?? "none"
+  ),
+}));
+
+const JWT_SECRET = "socket-test-secret";
+
+// Mirrors the scene part of the app's drawingUpdateSchema.
+const drawingUpdateSchema = z
+  .object({
+    elements: elementSchema.array().optional(),
+    files: z.record(z.string(), z.unknown()).optional(),
+  })
+  .refine((data) => {
+    const sanitized = sanitizeDrawingData({ elements: data.elements ?? [], appState: {}, files: data.files });
+    Object.assign(data, { elements: sanitized.elements, files: sanitized.files });
+    return true;
+  });
+
+const drawingRow = {
+  id: "d1",
+  name: "Sketch",
+  version: 1,
+  elements: JSON.stringify([{ id: "a", type: "rectangle", x: 0, version: 1, versionNonce: 1 }]),
+  appState: "{}",
+  files: "{}",
+};
+
+const waitFor = <T = any>(socket: ClientSocket, event: string) =>
+  new Promise<T>((resolve) => socket.once(event, resolve));
+
+/** Resolves with whatever arrives within `ms`; used to assert that something is not relayed. */
+const collect = (socket: ClientSocket, event: string, ms = 150) =>
+  new Promise<any[]>((resolve) => {
+    const received: any[] = [];
+    socket.on(event, (payload) => received.push(payload));
+    setTimeout(() => resolve(received), ms);
+  });
+
+describe("registerSocketHandlers", () => {
+  let server: Server;
+  let url: string;
+  let prisma: any;
+  let publishDrawingAccessChange: (drawingIds: string[]) => void;
+  let publishDrawingSceneChange: (drawingId: string) => void;
+  const clients: ClientSocket[] = [];
+
+  beforeEach(async () => {
+    access.clear();
+    prisma = {
+      user: {
+        findUnique: vi.fn(async ({ where }: any) => ({ id: where.id, name: where.id, isActive: true })),
+      },
+      drawing: {
+        findUnique: vi.fn(async ({ where }: any) => ({ ...drawingRow, id: where.id })),
+        updateMany: vi.fn(async () => ({ count: 1 })),
+      },
+      drawingLinkShare: {
+        findFirst: vi.fn(async () => null),
+      },
+    };
+    const httpServer = createServer();
+    server = new Server(httpServer);
+    ({ publishDrawingAccessChange, publishDrawingSceneChange } = registerSocketHandlers({
+      io: server,
+      prisma,
+      authModeService: { getAuthEnabled: async () => true } as any,
+      jwtSecret: JWT_SECRET,
+      drawingUpdateSchema,
+      elementUpdateLimits: { maxBytes: 2_000, maxElements: 10, windowMs: 10_000, maxUpdatesPerWindow: 100 },
+      roomScenePersistence: {
+        drawingFileStore: {
+          externalizeFiles: vi.fn(async (files: Record<string, unknown>) => files),
+          syncDrawingFileRefs: vi.fn(async () => undefined),
+        },
+        recordDrawingRevision: vi.fn(async () => undefined),
+        drawingSearchIndex: { indexDrawing: vi.fn(async () => undefined) },
+        invalidateDrawingsCache: vi.fn(),
+        persistDelayMs: 20,
+        maxPersistDelayMs: 20,
+      },
+    }));
+    await new Promise<void>((resolve) => httpServer.listen(0, "127.0.0.1", resolve));
+    url = `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    for (const client of clients.splice(0)) client.disconnect();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  const connect = async (userId: string, drawingAccess: DrawingAccess, drawingId = "d1") => {
+    access.set(`${userId}:${drawingId}`, drawingAccess);
+    const token = jwt.sign({ userId, email: `${userId}@example.com`, type: "access" }, JWT_SECRET);
+    const client = connectClient(url, { auth: { token }, transports: ["websocket"], forceNew: true });
+    clients.push(client);
+    await waitFor(client, "connect");
+    return client;
+  };
+
+  const join = (client: ClientSocket, userId: string, drawingId = "d1") =>
+    new Promise<any>((resolve) =>
+      client.emit("join-room", { drawingId, version: 1, user: { id: userId, name: userId } }, resolve)
+    );
+
+  describe("room scene", () => {
+    it("saves accepted deltas and reports the sequence number each save covers", async () => {
+      const editor = await connect("u1", "edit");
+      await join(editor, "u1");
+
+      const ack = waitFor(editor, "element-delta-ack");
+      const persisted = waitFor(editor, "room-persisted");
+      editor.emit("element-delta", {
+        v: 2,
+        drawingId: "d1",
+        deltas: [{ id: "a", version: 2, versionNonce: 2, base: { version: 1, versionNonce: 1 }, props: { x: 5 } }],
+      });
+
+      const { seq } = await ack;
+      expect(await persisted).toEqual({ drawingId: "d1", version: 1, seq });
+      const written = prisma.drawing.updateMany.mock.calls[0][0];
+      expect(JSON.parse(written.data.elements)).toEqual([expect.objectContaining({ id: "a", x: 5, version: 2 })]);
+    });
+
+    it("reports rejected deltas without acknowledging or saving them", async () => {
+      const editor = await connect("u1", "edit");
+      await join(editor, "u1");
+
+      const acks = collect(editor, "element-delta-ack");
+      const rejected = waitFor(editor, "element-update-rejected");
+      editor.emit("element-delta", {
+        v: 2,
+        drawingId: "d1",
+        deltas: [{ id: "a", version: 2, versionNonce: 2, props: { type: "text", text: "x".repeat(5_000) } }],
+      });
+
+      expect(await rejected).toMatchObject({ drawingId: "d1", code: "payload_too_large" });
+      expect(await acks).toEqual([]);
+      expect(prisma.drawing.updateMany).not.toHaveBeenCalled();
+    });
+
+    it("sends the room a scene written over HTTP and serves it to late joiners", async () => {
+      const editor = await connect("u1", "edit");
+      await join(editor, "u1");
+
+      const restored = { id: "b", type: "rectangle", x: 3, version: 1, versionNonce: 1 };
+      prisma.drawing.findUnique.mockImplementation(async ({ where }: any) => ({
+        ...drawingRow,
+        id: where.id,
+        version: 2,
+        elements: JSON.stringify([restored]),
+      }));
+      const scene = waitFor(editor, "room-scene");
+      publishDrawingSceneChange("d1");
+
+      expect(await scene).toMatchObject({ drawingId: "d1", version: 2, elements: [restored], seq: 1 });
+      const joiner = await connect("u2", "view");
+      const lateScenes = collect(joiner, "room-scene");
+      joiner.emit("join-room", { drawingId: "d1", version: 2, user: { id: "u2", name: "u2" } });
+      expect(await lateScenes).toEqual([]);
+      expect(prisma.drawing.updateMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("access changes", () => {
+    it("re-checks sockets in the room and evicts ones that lost access", async () => {
+      const owner = await connect("u1", "owner");
+      const revoked = await connect("u2", "edit");
+      const downgraded = await connect("u3", "edit");
+      for (const [client, userId] of [
+        [owner, "u1"],
+        [revoked, "u2"],
+        [downgraded, "u3"],
+      ] as const) {
+        await join(client, userId);
+      }
+
+      access.set("u2:d1", "none");
+      access.set("u3:d1", "view");
+      const ownerNotices = collect(owner, "access-changed");
+      const evicted = waitFor(revoked, "access-changed");
+      const downgradedNotice = waitFor(downgraded, "access-changed");
+      publishDrawingAccessChange(["d1", "elsewhere"]);
+
+      expect(await evicted).toEqual({ drawingId: "d1", access: "none" });
+      expect(await downgradedNotice).toEqual({ drawingId: "d1", access: "view" });
+      expect(await ownerNotices).toEqual([]);
+
+      const relayed = collect(revoked, "element-delta");
+      owner.emit("element-delta", {
+        v: 2,
+        drawingId: "d1",
+        deltas: [{ id: "a", version: 2, versionNonce: 2, base: { version: 1, versionNonce: 1 }, props: { x: 5 } }],
+      });
+      expect(await relayed).toEqual([]);
+    });
+
+    it("re-checks the room when its link share expires", async () => {
+      const expiresAt = new Date(Date.now() + 200);
+      prisma.drawingLinkShare.findFirst.mockImplementation(async ({ where }: any) =>
+        where.expiresAt.gt.getTime() < expiresAt.getTime() ? { expiresAt } : null
+      );
+      const visitor = await connect("u2", "view");
+      await join(visitor, "u2");
+
+      // The share lapses on its own; no route publishes a change.
+      access.set("u2:d1", "none");
+      expect(await waitFor(visitor, "access-changed")).toEqual({ drawingId: "d1", access: "none" });
+    });
+  });
+
+  describe("follow mode", () => {
+    const viewport = { centerX: 10, centerY: 20, zoom: 2, width: 800, height: 600 };
+
+    // u1 edits and u2 views d1, u3 is in d2, and u4 may not open d1 at all.
+    const setUpRooms = async () => {
+      const leader = await connect("u1", "edit");
+      const follower = await connect("u2", "view");
+      const elsewhere = await connect("u3", "edit", "d2");
+      const outsider = await connect("u4", "none");
+      await join(leader, "u1");
+      await join(follower, "u2");
+      await join(elsewhere, "u3", "d2");
+      const refused = waitFor(outsider, "error");
+      outsider.emit("join-room", { drawingId: "d1", version: 1, user: { id: "u4", name: "u4" } });
+      await refused;
+      return { leader, follower, elsewhere, outsider };
+    };
+
+    it("relays viewports to the room only, under the sender's presence identity", async () => {
+      const { leader, follower, elsewhere, outsider } = await setUpRooms();
+
+      const followerViewports = collect(follower, "viewport-update");
+      const elsewhereViewports = collect(elsewhere, "viewport-update");
+      const ownViewports = collect(leader, "viewport-update");
+      leader.emit("viewport-update", { ...viewport, drawingId: "d1", userId: "u2", zoom: 1_000 });
+      leader.emit("viewport-update", { ...viewport, drawingId: "d1", width: 0 });
+      outsider.emit("viewport-update", { ...viewport, drawingId: "d1" });
+
+      expect(await followerViewports).toEqual([{ ...viewport, zoom: 30, drawingId: "d1", userId: "u1" }]);
+      expect(await elsewhereViewports).toEqual([]);
+      expect(await ownViewports).toEqual([]);
+    });
+
+    it("records who follows whom for room members, and only towards people in the room", async () => {
+      const { follower, outsider } = await setUpRooms();
+
+      const presence = waitFor<any[]>(follower, "presence-update");
+      follower.emit("follow-user", { drawingId: "d1", leaderId: "u1" });
+      expect((await presence).find((user) => user.id === "u2")).toMatchObject({ followingId: "u1" });
+
+      const ignored = collect(follower, "presence-update");
+      follower.emit("follow-user", { drawingId: "d1", leaderId: "u3" });
+      follower.emit("follow-user", { drawingId: "d1", leaderId: "u2" });
+      outsider.emit("follow-user", { drawingId: "d1", leaderId: "u1" });
+      expect(await ignored).toEqual([]);
+    });
+
+    it("lets only editors ask the room to follow them", async () => {
+      const { leader, follower, elsewhere } = await setUpRooms();
+
+      const leaderRequests = collect(leader, "follow-request");
+      const refused = waitFor(follower, "error");
+      follower.emit("follow-me", { drawingId: "d1" });
+      expect(await refused).toEqual({ message: "Only editors can ask others to follow them" });
+      expect(await leaderRequests).toEqual([]);
+
+      const request = waitFor(follower, "follow-request");
+      const elsewhereRequests = collect(elsewhere, "follow-request");
+      leader.emit("follow-me", { drawingId: "d1" });
+      expect(await request).toEqual({ drawingId: "d1", userId: "u1", username: "u1" });
+      expect(await elsewhereRequests).toEqual([]);
+    });
+  });
+});
@@ -1,5 +1,6 @@
 import jwt from "jsonwebtoken";
 import { Server } from "socket.io";
+import type { z } from "zod";
 import { PrismaClient } from "../generated/client";
 import { AuthModeService } from "../auth/authMode";
 import { ACCESS_TOKEN_COOKIE_NAME, parseCookieHeader } from "../auth/cookies";
@@ -10,6 +11,15 @@ import {
   canViewDrawing,
   type DrawingPrincipal,
 } from "../authz/sharing";
+import { createRoomSceneStore, type RoomScenePersistenceDeps } from "./roomScenes";
+import {
+  DEFAULT_ELEMENT_UPDATE_LIMITS,
+  createUpdateRateLimiter,
+  sanitizeElementDelta,
+  sanitizeElementUpdate,
+  type ElementUpdateLimits,
+  type ElementUpdateRejectionCode,
+} from "./socketUpdates";
 
 interface User {
   id: string;
@@ -18,13 +28,93 @@ interface User {
   color: string;
   socketId: string;
   isActive: boolean;
+  /** Presence id of the collaborator whose viewport this user mirrors, if any. */
+  followingId: string | null;
 }
 
+type PresenceIdentity = Omit<User, "socketId" | "isActive" | "followingId">;
+
+const MAX_SELECTED_ELEMENTS = 1000;
+
+const toSelectedElementIds = (value: unknown): string[] | null => {
+  if (!Array.isArray(value)) return null;
+  const ids = value.filter(
+    (id): id is string => typeof id === "string" && id.length > 0 && id.length <= 200
+  );
+  return Array.from(new Set(ids)).slice(0, MAX_SELECTED_ELEMENTS);
+};
+
+// Matches Excalidraw's own zoom limits.
+const MIN_VIEWPORT_ZOOM = 0.1;
+const MAX_VIEWPORT_ZOOM = 30;
+
+const toViewport = (data: any) => {
+  const centerX = Number(data?.centerX);
+  const centerY = Number(data?.centerY);
+  const zoom = Number(data?.zoom);
+  const width = Number(data?.width);
+  const height = Number(data?.height);
+  if (![centerX, centerY, zoom, width, height].every(Number.isFinite)) return null;
+  if (width <= 0 || height <= 0) return null;
+  return {
+    centerX,
+    centerY,
+    zoom: Math.min(MAX_VIEWPORT_ZOOM, Math.max(MIN_VIEWPORT_ZOOM, zoom)),
+    width: Math.min(width, 100_000),
+    height: Math.min(height, 100_000),
+  };
+};
+
+const RESYNC_RATE_LIMITS = { windowMs: 10_000, maxUpdatesPerWindow: 10 };
+
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
+const DRAWING_ROOM_PREFIX = "drawing_";
+
+export const getDrawingRoomId = (drawingId: string) => `${DRAWING_ROOM_PREFIX}${drawingId}`;
+
+/** Pushes a server-originated event (e.g. a new comment) to everyone who has the drawing open. */
+export type BroadcastDrawingEvent = (drawingId: string, event: string, payload: unknown) => void;
+
+export const createDrawingEventBroadcaster =
+  (io: Server): BroadcastDrawingEvent =>
+  (drawingId, event, payload) => {
+    io.to(getDrawingRoomId(drawingId)).emit(event, payload);
+  };
+
+export const getUserRoomId = (userId: string) => `user_${userId}`;
+
+/** Pushes an event to every socket the user has open, whichever drawing they are on. */
+export type EmitUserEvent = (userId: string, event: string, payload: unknown) => void;
+
+export const createUserEventEmitter =
+  (io: Server): EmitUserEvent =>
+  (userId, event, payload) => {
+    io.to(getUserRoomId(userId)).emit(event, payload);
+  };
+
+/**
+ * Sharing routes call this after changing who may open a drawing (a grant or link share was added,
+ * downgraded or revoked) so sockets already in the room are re-checked instead of keeping stale access.
+ */
+export type PublishDrawingAccessChange = (drawingIds: string[]) => void;
+
+/**
+ * Scene routes call this after writing a drawing's scene over HTTP (a save or a revision restore)
+ * so an open room drops its stale copy and everyone in it is sent the new scene.
+ */
+export type PublishDrawingSceneChange = (drawingId: string) => void;
+
 type RegisterSocketHandlersDeps = {
   io: Server;
   prisma: PrismaClient;
   authModeService: AuthModeService;
   jwtSecret: string;
+  /** The schema HTTP saves go through; relayed element updates are held to the same rules. */
+  drawingUpdateSchema: z.ZodTypeAny;
+  elementUpdateLimits?: ElementUpdateLimits;
+  /** How the room's canonical scene is written back to the drawing. */
+  roomScenePersistence: RoomScenePersistenceDeps;
 };
 
 export const registerSocketHandlers = ({
@@ -32,9 +122,102 @@ export const registerSocketHandlers = ({
   prisma,
   authModeService,
   jwtSecret,
+  drawingUpdateSchema,
+  elementUpdateLimits = DEFAULT_ELEMENT_UPDATE_LIMITS,
+  roomScenePersistence,
 }: RegisterSocketHandlersDeps) => {
   const roomUsers = new Map<string, User[]>();
   const socketPrincipalMap = new Map<string, DrawingPrincipal>();
+  const accessReevaluators = new Map<string, (drawingId: string) => Promise<void>>();
+  // Every relayed scene change gets the room's next sequence number so clients can spot gaps.
+  const roomSequences = new Map<string, number>();
+
+  const currentRoomSeq = (roomId: string) => roomSequences.get(roomId) ?? 0;
+  const nextRoomSeq = (roomId: string) => {
+    const seq = currentRoomSeq(roomId) + 1;
+    roomSequences.set(roomId, seq);
+    return seq;
+  };
+  const roomScenes = createRoomSceneStore(prisma, {
+    ...roomScenePersistence,
+    onPersisted: (drawingId, version, seq) => {
+      io.to(getDrawingRoomId(drawingId)).emit("room-persisted", { drawingId, version, seq });
+    },
+    onStoredChanges: (drawingId, elements) => {
+      const roomId = getDrawingRoomId(drawingId);
+      io.to(roomId).emit("element-update", { elements, drawingId, seq: nextRoomSeq(roomId) });
+    },
+  });
+
+  io.of("/").adapter.on("delete-room", (roomId: string) => {
+    roomSequences.delete(roomId);
+    if (!roomId.startsWith(DRAWING_ROOM_PREFIX)) return;
+    clearLinkShareExpiry(roomId.slice(DRAWING_ROOM_PREFIX.length));
+    // Last one out: write the scene and drop it from memory.
+    roomScenes
+      .release(roomId.slice(DRAWING_ROOM_PREFIX.length), () => !io.sockets.adapter.rooms.has(roomId))
+      .catch((err) => console.error("Failed to release room scene:", err));
+  });
+
+  const reevaluateRoomAccess = (drawingId: string) => {
+    const socketIds = io.sockets.adapter.rooms.get(getDrawingRoomId(drawingId));
+    if (!socketIds) return;
+    for (const socketId of [...socketIds]) {
+      accessReevaluators
+        .get(socketId)?.(drawingId)
+        .catch((err) => console.error("Failed to re-check drawing access:", err));
+    }
+  };
+
+  // Link shares lapse without any route running, so occupied rooms get a re-check when theirs expires.
+  const linkShareExpiryTimers = new Map<string, NodeJS.Timeout>();
+
+  const clearLinkShareExpiry = (drawingId: string) => {
+    const timer = linkShareExpiryTimers.get(drawingId);
+    if (timer) clearTimeout(timer);
+    linkShareExpiryTimers.delete(drawingId);
+  };
+
+  const scheduleLinkShareExpiry = async (drawingId: string): Promise<void> => {
+    if (!io.sockets.adapter.rooms.has(getDrawingRoomId(drawingId))) {
+      clearLinkShareExpiry(drawingId);
+      return;
+    }
+    const expiring = await prisma.drawingLinkShare.findFirst({
+      where: { drawingId, revokedAt: null, expiresAt: { gt: new Date() } },
+      orderBy: { expiresAt: "asc" },
+      select: { expiresAt: true },
+    });
+    clearLinkShareExpiry(drawingId);
+    if (!expiring?.expiresAt) return;
+    // setTimeout cannot wait longer than ~24.8 days; far-off expiries just schedule again.
+    const delayMs = Math.min(expiring.expiresAt.getTime() - Date.now() + 1, MAX_TIMER_DELAY_MS);
+    const timer = setTimeout(() => {
+      linkShareExpiryTimers.delete(drawingId);
+      reevaluateRoomAccess(drawingId);
+      scheduleLinkShareExpiry(drawingId).catch((err) =>
+        console.error("Failed to schedule link share expiry:", err)
+      );
+    }, Math.max(0, delayMs));
+    timer.unref();
+    linkShareExpiryTimers.set(drawingId, timer);
+  };
+
+  const removeFromPresence = (roomId: string, socketId: string) => {
+    const users = roomUsers.get(roomId);
+    if (!users) return;
+    const index = users.findIndex((u) => u.socketId === socketId);
+    if (index === -1) return;
+    const [leaving] = users.splice(index, 1);
+    // Nobody can keep following someone who has left (other tabs of the same user still count).
+    if (!users.some((u) => u.id === leaving.id)) {
+      for (const user of users) {
+        if (user.followingId === leaving.id) user.followingId = null;
+      }
+    }
+    roomUsers.set(roomId, users);
+    io.to(roomId).emit("presence-update", users);
+  };
 
   const toPresenceName = (value: unknown): string => {
     if (typeof value !== "string") return "User";
@@ -121,11 +304,25 @@ export const registerSocketHandlers = ({
 
   io.on("connection", (socket) => {
     const principal = socketPrincipalMap.get(socket.id) || null;
+    const editorUserId = principal?.kind === "user" ? principal.userId : null;
+    if (principal?.kind === "user") {
+      socket.join(getUserRoomId(principal.userId));
+    }
     const authorizedDrawingAccess = new Map<
       string,
       { access: "view" | "edit" | "owner"; checkedAtMs: number }
     >();
     const ACCESS_CACHE_TTL_MS = 1500;
+    const updateRateLimiter = createUpdateRateLimiter(elementUpdateLimits);
+    const resyncRateLimiter = createUpdateRateLimiter(RESYNC_RATE_LIMITS);
+
+    const rejectElementUpdate = (
+      drawingId: string,
+      code: ElementUpdateRejectionCode,
+      message: string
+    ) => {
+      socket.emit("element-update-rejected", { drawingId, code, message });
+    };
 
     const getCachedOrFreshAccess = async (
       drawingId: string
@@ -155,11 +352,16 @@ export const registerSocketHandlers = ({
         {
           drawingId,
           user,
+          viewer,
+          version,
         }: {
           drawingId: string;
-          user: Omit<User, "socketId" | "isActive">;
+          user?: PresenceIdentity;
+          viewer?: boolean;
+          /** `Drawing.version` of the copy the client fetched before joining. */
+          version?: number;
         },
-        ack?: (payload: { user: Omit<User, "socketId" | "isActive"> }) => void
+        ack?: (payload: { user?: PresenceIdentity; seq: number }) => void
       ) => {
         try {
           const access = await getCachedOrFreshAccess(drawingId);
@@ -168,8 +370,26 @@ export const registerSocketHandlers = ({
             return;
           }
 
-          const roomId = `drawing_${drawingId}`;
+          const roomId = getDrawingRoomId(drawingId);
           socket.join(roomId);
+          scheduleLinkShareExpiry(drawingId).catch((err) =>
+            console.error("Failed to schedule link share expiry:", err)
+          );
+          await roomScenes.load(drawingId);
+          // Late joiners get whatever the room has not written to the drawing yet.
+          const sendRoomScene = () => {
+            if (!roomScenes.isAheadOf(drawingId, typeof version === "number" ? version : null)) return;
+            const snapshot = roomScenes.getSnapshot(drawingId);
+            if (snapshot) {
+              socket.emit("room-scene", { ...snapshot, drawingId, seq: currentRoomSeq(roomId) });
+            }
+          };
+          // Embedded viewers only follow updates; they are not collaborators, so keep them out of presence.
+          if (viewer === true) {
+            if (typeof ack === "function") ack({ seq: currentRoomSeq(roomId) });
+            sendRoomScene();
+            return;
+          }
 
           let trustedUserId =
             typeof user?.id === "string" && user.id.trim().length > 0
@@ -198,6 +418,7 @@ export const registerSocketHandlers = ({
             color: toPresenceColor(user?.color),
             socketId: socket.id,
             isActive: true,
+            followingId: null,
           };
 
           const currentUsers = roomUsers.get(roomId) || [];
@@ -215,8 +436,10 @@ export const registerSocketHandlers = ({
                 initials: newUser.initials,
                 color: newUser.color,
               },
+              seq: currentRoomSeq(roomId),
             });
           }
+          sendRoomScene();
         } catch (err) {
           console.error("Error in join-room handler:", err);
           socket.emit("error", { message: "Failed to join room" });
@@ -229,7 +452,7 @@ export const registerSocketHandlers = ({
       if (!drawingId || !authorizedDrawingAccess.has(drawingId)) {
         return;
       }
-      const roomId = `drawing_${drawingId}`;
+      const roomId = getDrawingRoomId(drawingId);
       // Don't trust client-provided identity fields; use the server-side presence user.
       const users = roomUsers.get(roomId) || [];
       const self = users.find((u) => u.socketId === socket.id);
@@ -243,12 +466,87 @@ export const registerSocketHandlers = ({
       });
     });
 
+    const getSelf = (drawingId: string) =>
+      (roomUsers.get(getDrawingRoomId(drawingId)) || []).find((u) => u.socketId === socket.id);
+
+    socket.on("selection-change", (data) => {
+      const drawingId = typeof data?.drawingId === "string" ? data.drawingId : null;
+      if (!drawingId || !authorizedDrawingAccess.has(drawingId)) return;
+      const self = getSelf(drawingId);
+      const selectedElementIds = toSelectedElementIds(data?.selectedElementIds);
+      if (!self || !selectedElementIds) return;
+      // Same identity rewrite as cursor-move: who selected what comes from presence, not the client.
+      socket.to(getDrawingRoomId(drawingId)).emit("selection-change", {
+        drawingId,
+        selectedElementIds,
+        userId: self.id,
+        username: self.name,
+        color: self.color,
+      });
+    });
+
+    // Follow-presenter: followers are tracked in presence so the leader only streams its viewport
+    // while someone is watching.
+    socket.on("follow-user", (data) => {
+      const drawingId = typeof data?.drawingId === "string" ? data.drawingId : null;
+      if (!drawingId || !authorizedDrawingAccess.has(drawingId)) return;
+      const roomId = getDrawingRoomId(drawingId);
+      const users = roomUsers.get(roomId) || [];
+      const self = users.find((u) => u.socketId === socket.id);
+      if (!self) return;
+
+      const leaderId = typeof data?.leaderId === "string" ? data.leaderId : null;
+      if (leaderId !== null && (leaderId === self.id || !users.some((u) => u.id === leaderId))) {
+        return;
+      }
+      if (self.followingId === leaderId) return;
+      self.followingId = leaderId;
+      io.to(roomId).emit("presence-update", users);
+    });
+
+    socket.on("viewport-update", (data) => {
+      const drawingId = typeof data?.drawingId === "string" ? data.drawingId : null;
+      if (!drawingId || !authorizedDrawingAccess.has(drawingId)) return;
+      const self = getSelf(drawingId);
+      const viewport = toViewport(data);
+      if (!self || !viewport) return;
+      socket.volatile.to(getDrawingRoomId(drawingId)).emit("viewport-update", {
+        ...viewport,
+        drawingId,
+        userId: self.id,
+      });
+    });
+
+    // "Ask everyone to follow me" is reserved for people who can edit the drawing.
+    socket.on("follow-me", async (data) => {
+      const drawingId = typeof data?.drawingId === "string" ? data.drawingId : null;
+      if (!drawingId || !authorizedDrawingAccess.has(drawingId)) return;
+      const self = getSelf(drawingId);
+      if (!self) return;
+
+      const access = await getCachedOrFreshAccess(drawingId);
+      if (!access || !canEditDrawing(access)) {
+        socket.emit("error", { message: "Only editors can ask others to follow them" });
+        return;
+      }
+      socket.to(getDrawingRoomId(drawingId)).emit("follow-request", {
+        drawingId,
+        userId: self.id,
+        username: self.name,
+      });
+    });
+
     socket.on("element-update", async (data) => {
       const drawingId = typeof data?.drawingId === "string" ? data.drawingId : null;
       if (!drawingId || !authorizedDrawingAccess.has(drawingId)) {
         return;
       }
 
+      if (!updateRateLimiter.allow()) {
+        rejectElementUpdate(drawingId, "rate_limited", "Too many updates; slow down");
+        return;
+      }
+
       // Enforce edit permission for every mutation event.
       const joinedAccess = await getCachedOrFreshAccess(drawingId);
       if (!joinedAccess || !canEditDrawing(joinedAccess)) {
@@ -256,8 +554,100 @@ export const registerSocketHandlers = ({
         return;
       }
 
-      const roomId = `drawing_${drawingId}`;
-      socket.to(roomId).emit("element-update", data);
+      // Never relay client data verbatim: peers get the same sanitized shape an HTTP save would store.
+      const result = sanitizeElementUpdate(data, drawingUpdateSchema, elementUpdateLimits);
+      if ("code" in result) {
+        rejectElementUpdate(drawingId, result.code, result.message);
+        return;
+      }
+
+      const loaded = await roomScenes.load(drawingId);
+      const self = getSelf(drawingId);
+      const roomId = getDrawingRoomId(drawingId);
+      const seq = nextRoomSeq(roomId);
+      if (loaded) {
+        roomScenes.applyElements(drawingId, result.update.elements, {
+          files: result.update.files,
+          elementOrder: result.update.elementOrder,
+          userId: editorUserId,
+          seq,
+        });
+      }
+
+      socket.to(roomId).emit("element-update", {
+        ...result.update,
+        drawingId,
+        seq,
+        ...(self ? { userId: self.id } : {}),
+      });
+    });
+
+    // Protocol v2: only changed fields per element, sequenced per room. The sender is told its own
+    // sequence number so it does not mistake it for a gap, and which elements the room could not
+    // rebuild from a delta so it sends them in full.
+    socket.on("element-delta", async (data) => {
+      const drawingId = typeof data?.drawingId === "string" ? data.drawingId : null;
+      if (!drawingId || !authorizedDrawingAccess.has(drawingId)) return;
+
+      if (!updateRateLimiter.allow()) {
+        rejectElementUpdate(drawingId, "rate_limited", "Too many updates; slow down");
+        return;
+      }
+      const joinedAccess = await getCachedOrFreshAccess(drawingId);
+      if (!joinedAccess || !canEditDrawing(joinedAccess)) {
+        socket.emit("error", { message: "Read-only access: cannot edit this drawing" });
+        return;
+      }
+      const result = sanitizeElementDelta(data, drawingUpdateSchema, elementUpdateLimits);
+      if ("code" in result) {
+        rejectElementUpdate(drawingId, result.code, result.message);
+        return;
+      }
+
+      const loaded = await roomScenes.load(drawingId);
+      const self = getSelf(drawingId);
+      const roomId = getDrawingRoomId(drawingId);
+      const seq = nextRoomSeq(roomId);
+      const applied = loaded
+        ? roomScenes.applyDeltas(drawingId, result.update.deltas, {
+            files: result.update.files,
+            elementOrder: result.update.elementOrder,
+            userId: editorUserId,
+            seq,
+          })
+        : null;
+      socket.to(roomId).emit("element-delta", {
+        ...result.update,
+        v: data.v,
+        drawingId,
+        seq,
+        ...(self ? { userId: self.id } : {}),
+      });
+      socket.emit("element-delta-ack", {
+        drawingId,
+        seq,
+        ...(applied && applied.missingElementIds.length > 0
+          ? { resend: applied.missingElementIds }
+          : {}),
+      });
+    });
+
+    // A client that missed a sequence number (or holds an older base than a delta expects) gets a
+    // fresh copy from the room's scene; `elements: null` tells it to reload from the server instead.
+    socket.on("resync-request", async (data) => {
+      const drawingId = typeof data?.drawingId === "string" ? data.drawingId : null;
+      if (!drawingId || !authorizedDrawingAccess.has(drawingId)) return;
+      if (!resyncRateLimiter.allow()) return;
+
+      const roomId = getDrawingRoomId(drawingId);
+      const snapshot = (await roomScenes.load(drawingId))
+        ? roomScenes.getSnapshot(drawingId, toSelectedElementIds(data?.elementIds))
+        : null;
+      socket.emit("resync", {
+        ...(snapshot ?? { elements: null }),
+        drawingId,
+        seq: currentRoomSeq(roomId),
+      });
     });
 
     socket.on(
@@ -266,7 +656,7 @@ export const registerSocketHandlers = ({
         if (!authorizedDrawingAccess.has(drawingId)) {
           return;
         }
-        const roomId = `drawing_${drawingId}`;
+        const roomId = getDrawingRoomId(drawingId);
         const users = roomUsers.get(roomId);
         if (users) {
           const user = users.find((u) => u.socketId === socket.id);
@@ -278,16 +668,56 @@ export const registerSocketHandlers = ({
       }
     );
 
+    // Runs when a sharing route publishes an access change: downgrade in place, or evict entirely.
+    accessReevaluators.set(socket.id, async (drawingId) => {
+      const roomId = getDrawingRoomId(drawingId);
+      if (!socket.rooms.has(roomId)) return;
+      const previous = authorizedDrawingAccess.get(drawingId)?.access ?? null;
+      authorizedDrawingAccess.delete(drawingId);
+      const access = await getCachedOrFreshAccess(drawingId);
+      if (!access) {
+        socket.leave(roomId);
+        removeFromPresence(roomId, socket.id);
+        socket.emit("access-changed", { drawingId, access: "none" });
+        return;
+      }
+      if (access !== previous) {
+        socket.emit("access-changed", { drawingId, access });
+      }
+    });
+
     socket.on("disconnect", () => {
       socketPrincipalMap.delete(socket.id);
-      roomUsers.forEach((users, roomId) => {
-        const index = users.findIndex((u) => u.socketId === socket.id);
-        if (index !== -1) {
-          users.splice(index, 1);
-          roomUsers.set(roomId, users);
-          io.to(roomId).emit("presence-update", users);
-        }
-      });
+      accessReevaluators.delete(socket.id);
+      roomUsers.forEach((_users, roomId) => removeFromPresence(roomId, socket.id));
     });
   });
+
+  const publishDrawingAccessChange: PublishDrawingAccessChange = (drawingIds) => {
+    for (const drawingId of new Set(drawingIds)) {
+      if (!io.sockets.adapter.rooms.has(getDrawingRoomId(drawingId))) continue;
+      reevaluateRoomAccess(drawingId);
+      // The change may have been a new or revoked link share.
+      scheduleLinkShareExpiry(drawingId).catch((err) =>
+        console.error("Failed to schedule link share expiry:", err)
+      );
+    }
+  };
+
+  const publishDrawingSceneChange: PublishDrawingSceneChange = (drawingId) => {
+    roomScenes
+      .syncWithStored(drawingId)
+      .then((snapshot) => {
+        if (!snapshot) return;
+        const roomId = getDrawingRoomId(drawingId);
+        io.to(roomId).emit("room-scene", { ...snapshot, drawingId, seq: nextRoomSeq(roomId) });
+      })
+      .catch((err) => console.error("Failed to refresh room scene:", err));
+  };
+
+  return {
+    publishDrawingAccessChange,
+    publishDrawingSceneChange,
+    flushRoomScenes: roomScenes.flushAll,
+  };
 };
@@ -0,0 +1,118 @@
+import { describe, expect, it } from "vitest";
+import { z } from "zod";
+import { elementSchema, sanitizeDrawingData } from "../security";
+import {
+  ELEMENT_DELTA_PROTOCOL_VERSION,
+  createUpdateRateLimiter,
+  sanitizeElementDelta,
+  sanitizeElementUpdate,
+} from "./socketUpdates";
+
+// Mirrors the scene part of the app's drawingUpdateSchema.
+const drawingUpdateSchema = z
+  .object({
+    elements: elementSchema.array().optional(),
+    files: z.record(z.string(), z.unknown()).optional(),
+  })
+  .refine((data) => {
+    const sanitized = sanitizeDrawingData({ elements: data.elements ?? [], appState: {}, files: data.files });
+    Object.assign(data, { elements: sanitized.elements, files: sanitized.files });
+    return true;
+  });
+
+const limits = { maxBytes: 10_000, maxElements: 3 };
+
+describe("sanitizeElementUpdate", () => {
+  it("relays sanitized elements and drops unknown top-level fields", () => {
+    const result = sanitizeElementUpdate(
+      {
+        drawingId: "d1",
+        userId: "spoofed",
+        elements: [{ id: "a", type: "text", text: "<script>alert(1)</script>hi", link: "javascript:alert(1)" }],
+        elementOrder: ["a"],
+      },
+      drawingUpdateSchema,
+      limits
+    );
+    if (!("update" in result)) throw new Error(`rejected: ${result.message}`);
+    expect(Object.keys(result.update).sort()).toEqual(["elementOrder", "elements"]);
+    const [element] = result.update.elements as any[];
+    expect(element.text).not.toContain("<script");
+    expect(element.link).toBe("");
+  });
+
+  it("rejects malformed payloads with a code", () => {
+    expect(sanitizeElementUpdate({ elements: "nope" }, drawingUpdateSchema, limits)).toMatchObject({
+      ok: false,
+      code: "invalid_payload",
+    });
+    expect(
+      sanitizeElementUpdate({ elements: [{ id: "a", x: "far" }] }, drawingUpdateSchema, limits)
+    ).toMatchObject({ ok: false, code: "invalid_payload" });
+    expect(sanitizeElementUpdate({ elementOrder: [42] }, drawingUpdateSchema, limits)).toMatchObject({
+      ok: false,
+      code: "invalid_payload",
+    });
+  });
+
+  it("enforces the size limits", () => {
+    const many = [{ id: "a" }, { id: "b" }, { id: "c" }, { id: "d" }];
+    expect(sanitizeElementUpdate({ elements: many }, drawingUpdateSchema, limits)).toMatchObject({
+      ok: false,
+      code: "payload_too_large",
+    });
+    const huge = [{ id: "a", type: "text", text: "x".repeat(20_000) }];
+    expect(sanitizeElementUpdate({ elements: huge }, drawingUpdateSchema, limits)).toMatchObject({
+      ok: false,
+      code: "payload_too_large",
+    });
+  });
+});
+
+describe("sanitizeElementDelta", () => {
+  it("sanitizes changed fields and keeps the revision headers", () => {
+    const result = sanitizeElementDelta(
+      {
+        v: ELEMENT_DELTA_PROTOCOL_VERSION,
+        deltas: [
+          {
+            id: "a",
+            version: 3,
+            versionNonce: 7,
+            base: { version: 2, versionNonce: 5 },
+            props: { text: "<script>alert(1)</script>hi", id: "spoofed" },
+          },
+        ],
+      },
+      drawingUpdateSchema,
+      limits
+    );
+    if (!("update" in result)) throw new Error(`rejected: ${result.message}`);
+    const [delta] = result.update.deltas;
+    expect(delta).toMatchObject({ id: "a", version: 3, versionNonce: 7, base: { version: 2, versionNonce: 5 } });
+    expect(Object.keys(delta.props)).toEqual(["text"]);
+    expect(delta.props.text).not.toContain("<script");
+  });
+
+  it("rejects other protocol versions and malformed deltas", () => {
+    expect(sanitizeElementDelta({ v: 1, deltas: [] }, drawingUpdateSchema, limits)).toMatchObject({
+      ok: false,
+      code: "invalid_payload",
+    });
+    expect(
+      sanitizeElementDelta(
+        { v: ELEMENT_DELTA_PROTOCOL_VERSION, deltas: [{ id: "a", props: {} }] },
+        drawingUpdateSchema,
+        limits
+      )
+    ).toMatchObject({ ok: false, code: "invalid_payload" });
+  });
+});
+
+describe("createUpdateRateLimiter", () => {
+  it("allows a fixed number of updates per window", () => {
+    const limiter = createUpdateRateLimiter({ windowMs: 1000, maxUpdatesPerWindow: 2 });
+    expect([limiter.allow(0), limiter.allow(10), limiter.allow(20)]).toEqual([true, true, false]);
+    expect(limiter.allow(1000)).toBe(true);
+  });
+});
@@ -0,0 +1,201 @@
+import { z } from "zod";
+
+export type ElementUpdateRejectionCode = "invalid_payload" | "payload_too_large" | "rate_limited";
+
+export type ElementUpdateLimits = {
+  /** Largest serialized `element-update` payload that is relayed. */
+  maxBytes: number;
+  maxElements: number;
+  /** Per-socket budget: at most `maxUpdatesPerWindow` updates every `windowMs`. */
+  windowMs: number;
+  maxUpdatesPerWindow: number;
+};
+
+export const DEFAULT_ELEMENT_UPDATE_LIMITS: ElementUpdateLimits = {
+  maxBytes: 25 * 1024 * 1024,
+  // Same ceiling as imported drawings.
+  maxElements: 10_000,
+  windowMs: 10_000,
+  maxUpdatesPerWindow: 400,
+};
+
+const MAX_ELEMENT_ORDER_LENGTH = 50_000;
+
+const elementOrderSchema = z
+  .array(z.string().min(1).max(200))
+  .max(MAX_ELEMENT_ORDER_LENGTH)
+  .optional();
+
+export type SanitizedElementUpdate = {
+  elements: unknown[];
+  files?: Record<string, unknown>;
+  elementOrder?: string[];
+};
+
+export type ElementUpdateResult =
+  | { ok: true; update: SanitizedElementUpdate }
+  | { ok: false; code: ElementUpdateRejectionCode; message: string };
+
+const measureBytes = (data: unknown): number | null => {
+  try {
+    return Buffer.byteLength(JSON.stringify(data) ?? "", "utf8");
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Validates a relayed `element-update` with the same schema HTTP saves use (`drawingUpdateSchema`,
+ * which runs `sanitizeDrawingData` and the SVG sanitizer), so peers only ever receive what the
+ * server would have stored.
+ */
+export const sanitizeElementUpdate = (
+  data: any,
+  drawingUpdateSchema: z.ZodTypeAny,
+  limits: Pick<ElementUpdateLimits, "maxBytes" | "maxElements">
+): ElementUpdateResult => {
+  const bytes = measureBytes(data);
+  if (bytes === null) {
+    return { ok: false, code: "invalid_payload", message: "Update could not be read" };
+  }
+  if (bytes > limits.maxBytes) {
+    return { ok: false, code: "payload_too_large", message: "Update is too large to share live" };
+  }
+
+  const elements = data?.elements ?? [];
+  if (!Array.isArray(elements)) {
+    return { ok: false, code: "invalid_payload", message: "Invalid elements" };
+  }
+  if (elements.length > limits.maxElements) {
+    return { ok: false, code: "payload_too_large", message: "Too many elements in one update" };
+  }
+  const order = elementOrderSchema.safeParse(data?.elementOrder ?? undefined);
+  if (!order.success) {
+    return { ok: false, code: "invalid_payload", message: "Invalid element order" };
+  }
+
+  const parsed = drawingUpdateSchema.safeParse({ elements, files: data?.files ?? undefined });
+  if (!parsed.success) {
+    return {
+      ok: false,
+      code: "invalid_payload",
+      message: parsed.error.issues[0]?.message ?? "Invalid drawing data",
+    };
+  }
+  const sanitized = parsed.data as { elements?: unknown[]; files?: Record<string, unknown> };
+  return {
+    ok: true,
+    update: {
+      elements: sanitized.elements ?? [],
+      ...(sanitized.files ? { files: sanitized.files } : {}),
+      ...(order.data ? { elementOrder: order.data } : {}),
+    },
+  };
+};
+
+/** Fixed-window counter; one per socket. */
+export const createUpdateRateLimiter = (limits: Pick<ElementUpdateLimits, "windowMs" | "maxUpdatesPerWindow">) => {
+  let windowStartedAt = 0;
+  let count = 0;
+  return {
+    allow(now: number = Date.now()): boolean {
+      if (now - windowStartedAt >= limits.windowMs) {
+        windowStartedAt = now;
+        count = 0;
+      }
+      count += 1;
+      return count <= limits.maxUpdatesPerWindow;
+    },
+  };
+};
+
+/** Version of the `element-delta` wire format; bumped whenever its shape changes. */
+export const ELEMENT_DELTA_PROTOCOL_VERSION = 2;
+
+/**
+ * One changed element. With `base`, `props` only holds the fields that changed since the
+ * sender's copy at that version/nonce; without it, `props` is the whole element.
+ */
+export type ElementDelta = {
+  id: string;
+  version: number;
+  versionNonce: number;
+  base?: { version: number; versionNonce: number };
+  props: Record<string, unknown>;
+};
+
+export type SanitizedElementDelta = {
+  deltas: ElementDelta[];
+  files?: Record<string, unknown>;
+  elementOrder?: string[];
+};
+
+export type ElementDeltaResult =
+  | { ok: true; update: SanitizedElementDelta }
+  | { ok: false; code: ElementUpdateRejectionCode; message: string };
+
+const revisionSchema = z.object({
+  version: z.number().finite(),
+  versionNonce: z.number().finite(),
+});
+
+const elementDeltaSchema = revisionSchema.extend({
+  id: z.string().min(1).max(200),
+  base: revisionSchema.optional(),
+  props: z.record(z.string(), z.unknown()),
+});
+
+/**
+ * Validates an `element-delta`. Each delta's props go through `sanitizeElementUpdate` as a
+ * partial element, so deltas get the same size limits and sanitizing as full updates.
+ */
+export const sanitizeElementDelta = (
+  data: any,
+  drawingUpdateSchema: z.ZodTypeAny,
+  limits: Pick<ElementUpdateLimits, "maxBytes" | "maxElements">
+): ElementDeltaResult => {
+  if (data?.v !== ELEMENT_DELTA_PROTOCOL_VERSION) {
+    return { ok: false, code: "invalid_payload", message: "Unsupported live sync protocol version" };
+  }
+  const rawDeltas = data?.deltas ?? [];
+  if (!Array.isArray(rawDeltas)) {
+    return { ok: false, code: "invalid_payload", message: "Invalid deltas" };
+  }
+  if (rawDeltas.length > limits.maxElements) {
+    return { ok: false, code: "payload_too_large", message: "Too many elements in one update" };
+  }
+  const headers = z.array(elementDeltaSchema).safeParse(rawDeltas);
+  if (!headers.success) {
+    return { ok: false, code: "invalid_payload", message: "Invalid deltas" };
+  }
+
+  const result = sanitizeElementUpdate(
+    {
+      elements: headers.data.map((delta) => ({ ...delta.props, id: delta.id })),
+      files: data?.files,
+      elementOrder: data?.elementOrder,
+    },
+    drawingUpdateSchema,
+    limits
+  );
+  if ("code" in result) return result;
+
+  const deltas = headers.data.map((delta, index): ElementDelta => {
+    const { id: _id, ...props } = result.update.elements[index] as Record<string, unknown>;
+    return {
+      id: delta.id,
+      version: delta.version,
+      versionNonce: delta.versionNonce,
+      ...(delta.base ? { base: delta.base } : {}),
+      props,
+    };
+  });
+  return {
+    ok: true,
+    update: {
+      deltas,
+      ...(result.update.files ? { files: result.update.files } : {}),
+      ...(result.update.elementOrder ? { elementOrder: result.update.elementOrder } : {}),
+    },
+  };
+};
@@ -0,0 +1,64 @@
+import { describe, expect, it, vi } from "vitest";
+import { createTrashPurgeJob, getTrashPurgeCutoff } from "./trashPurge";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe("getTrashPurgeCutoff", () => {
+  it("subtracts the retention window and disables purging at 0 days", () => {
+    const now = new Date("2026-03-31T00:00:00.000Z");
+    expect(getTrashPurgeCutoff(30, now)?.toISOString()).toBe("2026-03-01T00:00:00.000Z");
+    expect(getTrashPurgeCutoff(0, now)).toBeNull();
+  });
+});
+
+describe("createTrashPurgeJob", () => {
+  const createDeps = () => ({
+    drawingSearchIndex: { removeDrawings: vi.fn(async () => undefined) },
+    invalidateDrawingsCache: vi.fn(),
+    logAuditEvent: vi.fn(async () => undefined),
+    config: { enableAuditLogging: true },
+    intervalMs: 60_000,
+  });
+
+  it("deletes expired trash and writes drawing_purged audit events", async () => {
+    const now = new Date("2026-03-31T00:00:00.000Z");
+    const trashedAt = new Date(now.getTime() - 40 * DAY_MS);
+    const findMany = vi.fn(async () => [
+      { id: "d1", name: "Old sketch", userId: "u1", trashedAt },
+    ]);
+    const deleteMany = vi.fn(async () => ({ count: 1 }));
+    const prisma = {
+      systemConfig: { findUnique: vi.fn(async () => ({ trashRetentionDays: 30 })) },
+      drawing: { findMany, deleteMany },
+    };
+    const deps = createDeps();
+
+    const purged = await createTrashPurgeJob(prisma as any, deps).purgeExpiredTrash(now);
+
+    expect(purged).toBe(1);
+    const where = (findMany.mock.calls[0] as any[])[0].where;
+    expect(where.trashedAt.lt.toISOString()).toBe("2026-03-01T00:00:00.000Z");
+    expect(deps.drawingSearchIndex.removeDrawings).toHaveBeenCalledWith(["d1"]);
+    expect(deps.invalidateDrawingsCache).toHaveBeenCalledTimes(1);
+    expect(deps.logAuditEvent).toHaveBeenCalledWith(
+      expect.objectContaining({
+        userId: "u1",
+        action: "drawing_purged",
+        resource: "drawing:d1",
+        details: expect.objectContaining({ retentionDays: 30, trashedAt: trashedAt.toISOString() }),
+      })
+    );
+  });
+
+  it("keeps everything when retention is disabled", async () => {
+    const prisma = {
+      systemConfig: { findUnique: vi.fn(async () => ({ trashRetentionDays: 0 })) },
+      drawing: { findMany: vi.fn(), deleteMany: vi.fn() },
+    };
+    const deps = createDeps();
+
+    expect(await createTrashPurgeJob(prisma as any, deps).purgeExpiredTrash()).toBe(0);
+    expect(prisma.drawing.findMany).not.toHaveBeenCalled();
+    expect(deps.invalidateDrawingsCache).not.toHaveBeenCalled();
+  });
+});
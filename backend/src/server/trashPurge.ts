@@ -0,0 +1,119 @@
+import { PrismaClient } from "../generated/client";
+import { DEFAULT_SYSTEM_CONFIG_ID } from "../auth/authMode";
+import type { DrawingSearchIndex } from "./drawingSearchIndex";
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+export const MAX_TRASH_RETENTION_DAYS = 3650;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PURGE_BATCH_SIZE = 200;
+
+type TrashPurgeDeps = {
+  drawingSearchIndex: Pick<DrawingSearchIndex, "removeDrawings">;
+  invalidateDrawingsCache: () => void;
+  logAuditEvent: (params: {
+    userId: string;
+    action: string;
+    resource?: string;
+    details?: Record<string, unknown>;
+  }) => Promise<void>;
+  config: { enableAuditLogging: boolean };
+  intervalMs: number;
+};
+
+/** Oldest `trashedAt` that is still kept, or null when retention is disabled (0 days). */
+export const getTrashPurgeCutoff = (retentionDays: number, now: Date): Date | null =>
+  retentionDays > 0 ? new Date(now.getTime() - retentionDays * DAY_MS) : null;
+
+/**
+ * Permanently deletes drawings that have been in the trash for longer than the configured
+ * retention window. Runs on an interval; a run that overlaps the previous one is skipped.
+ */
+export const createTrashPurgeJob = (prisma: PrismaClient, deps: TrashPurgeDeps) => {
+  let timer: NodeJS.Timeout | null = null;
+  let running = false;
+
+  const getRetentionDays = async (): Promise<number> => {
+    const systemConfig = await prisma.systemConfig.findUnique({
+      where: { id: DEFAULT_SYSTEM_CONFIG_ID },
+      select: { trashRetentionDays: true },
+    });
+    return systemConfig?.trashRetentionDays ?? DEFAULT_TRASH_RETENTION_DAYS;
+  };
+
+  const purgeExpiredTrash = async (now: Date = new Date()): Promise<number> => {
+    const retentionDays = await getRetentionDays();
+    const cutoff = getTrashPurgeCutoff(retentionDays, now);
+    if (!cutoff) return 0;
+
+    const expiredWhere = {
+      trashedAt: { lt: cutoff },
+      OR: [{ collectionId: "trash" }, { collectionId: { startsWith: "trash:" } }],
+    };
+    let purged = 0;
+    for (;;) {
+      const expired = await prisma.drawing.findMany({
+        where: expiredWhere,
+        select: { id: true, name: true, userId: true, trashedAt: true },
+        orderBy: { trashedAt: "asc" },
+        take: PURGE_BATCH_SIZE,
+      });
+      if (expired.length === 0) break;
+
+      const ids = expired.map((drawing) => drawing.id);
+      const deleteResult = await prisma.drawing.deleteMany({
+        where: { ...expiredWhere, id: { in: ids } },
+      });
+      purged += deleteResult.count;
+      await deps.drawingSearchIndex.removeDrawings(ids);
+
+      if (deps.config.enableAuditLogging) {
+        for (const drawing of expired) {
+          await deps.logAuditEvent({
+            userId: drawing.userId,
+            action: "drawing_purged",
+            resource: `drawing:${drawing.id}`,
+            details: {
+              drawingId: drawing.id,
+              drawingName: drawing.name,
+              trashedAt: drawing.trashedAt?.toISOString() ?? null,
+              retentionDays,
+            },
+          });
+        }
+      }
+      if (expired.length < PURGE_BATCH_SIZE) break;
+    }
+
+    if (purged > 0) deps.invalidateDrawingsCache();
+    return purged;
+  };
+
+  const runOnce = async () => {
+    if (running) return;
+    running = true;
+    try {
+      await purgeExpiredTrash();
+    } catch (error) {
+      console.error("Failed to purge expired trash:", error);
+    } finally {
+      running = false;
+    }
+  };
+
+  const start = () => {
+    if (timer) return;
+    void runOnce();
+    timer = setInterval(() => void runOnce(), deps.intervalMs);
+    timer.unref();
+  };
+
+  const stop = () => {
+    if (timer) clearInterval(timer);
+    timer = null;
+  };
+
+  return { purgeExpiredTrash, start, stop };
+};
+
+export type TrashPurgeJob = ReturnType<typeof createTrashPurgeJob>;
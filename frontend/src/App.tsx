@@ -85,6 +85,7 @@ function App() {
                   }
                 />
                 <Route path="/shared/:id" element={<Editor />} />
+                <Route path="/embed/:id" element={<Editor embedded />} />
                 <Route path="*" element={<Navigate to="/" replace />} />
               </Routes>
             </Suspense>
@@ -1,5 +1,19 @@
 import axios from "axios";
-import type { Drawing, Collection, DrawingSummary } from "../types";
+import type {
+  Drawing,
+  Collection,
+  DrawingSummary,
+  DrawingComment,
+  DrawingDiff,
+  DrawingRevision,
+  DrawingRevisionSummary,
+  DrawingTagRef,
+  DrawingTemplate,
+  SharedCollection,
+  Tag,
+  TagMatchMode,
+  TemplateScope,
+} from "../types";
 import { normalizePreviewSvg } from "../utils/previewSvg";
 
 export const API_URL = import.meta.env.VITE_API_URL || "/api";
@@ -223,7 +237,7 @@ const getAuthEnabledStatus = async (): Promise<boolean | null> => {
 
 const redirectToLogin = async () => {
   const isShareFlow =
-    window.location.pathname.startsWith("/shared/");
+    window.location.pathname.startsWith("/shared/") || window.location.pathname.startsWith("/embed/");
   if (isShareFlow) return;
 
   try {
@@ -303,7 +317,7 @@ api.interceptors.response.use(
       const url = String(originalRequest.url || "");
       const isAuthRoute = url.includes('/auth/');
       const isShareFlow =
-        window.location.pathname.startsWith("/shared/");
+        window.location.pathname.startsWith("/shared/") || window.location.pathname.startsWith("/embed/");
       const authEnabled = !isAuthRoute ? await getAuthEnabledStatus() : true;
 
       // Share links can grant access to drawings without a logged-in user session.
@@ -390,9 +404,12 @@ const deserializeDrawingSummary = (drawing: unknown): DrawingSummary => {
   if (typeof drawing !== 'object' || drawing === null) {
     throw new Error('Invalid drawing data');
   }
-  const parsed = drawing as HasTimestamps & DrawingSummary;
+  const parsed = drawing as HasTimestamps & Omit<DrawingSummary, "trashedAt"> & {
+    trashedAt?: TimestampValue | null;
+  };
   return deserializeTimestamps({
     ...parsed,
+    trashedAt: parsed.trashedAt == null ? parsed.trashedAt : coerceTimestamp(parsed.trashedAt),
     preview:
       typeof parsed.preview === "string"
         ? normalizePreviewSvg(parsed.preview)
@@ -421,7 +438,7 @@ export interface PaginatedDrawings<T> {
   offset?: number;
 }
 
-export type DrawingSortField = "name" | "createdAt" | "updatedAt";
+export type DrawingSortField = "name" | "createdAt" | "updatedAt" | "relevance";
 export type SortDirection = "asc" | "desc";
 
 export function getDrawings(
@@ -432,6 +449,8 @@ export function getDrawings(
     offset?: number;
     sortField?: DrawingSortField;
     sortDirection?: SortDirection;
+    tagIds?: string[];
+    tagMode?: TagMatchMode;
   }
 ): Promise<PaginatedDrawings<DrawingSummary>>;
 
@@ -444,6 +463,8 @@ export function getDrawings(
     offset?: number;
     sortField?: DrawingSortField;
     sortDirection?: SortDirection;
+    tagIds?: string[];
+    tagMode?: TagMatchMode;
   }
 ): Promise<PaginatedDrawings<Drawing>>;
 
@@ -456,16 +477,28 @@ export async function getDrawings(
     offset?: number;
     sortField?: DrawingSortField;
     sortDirection?: SortDirection;
+    tagIds?: string[];
+    tagMode?: TagMatchMode;
+    /** Only starred drawings; without a collection this includes starred shared drawings. */
+    starred?: boolean;
+    /** Lists the user's starred drawings before the rest. */
+    pinStarred?: boolean;
   }
 ) {
   const params: Record<string, string | number> = {};
   if (search) params.search = search;
   if (collectionId !== undefined)
     params.collectionId = collectionId === null ? "null" : collectionId;
+  if (options?.starred) params.starred = "true";
+  if (options?.pinStarred) params.pinStarred = "true";
   if (options?.limit !== undefined) params.limit = options.limit;
   if (options?.offset !== undefined) params.offset = options.offset;
   if (options?.sortField) params.sortField = options.sortField;
   if (options?.sortDirection) params.sortDirection = options.sortDirection;
+  if (options?.tagIds && options.tagIds.length > 0) {
+    params.tags = options.tagIds.join(",");
+    if (options.tagMode) params.tagMode = options.tagMode;
+  }
 
   if (options?.includeData) {
     params.includeData = "true";
@@ -489,14 +522,23 @@ export async function getSharedDrawings(
     offset?: number;
     sortField?: DrawingSortField;
     sortDirection?: SortDirection;
+    tagIds?: string[];
+    tagMode?: TagMatchMode;
+    /** Limits the list to one shared collection and the collections nested in it. */
+    collectionId?: string;
   }
 ): Promise<PaginatedDrawings<DrawingSummary>> {
   const params: Record<string, string | number> = {};
   if (search) params.search = search;
+  if (options?.collectionId) params.collectionId = options.collectionId;
   if (options?.limit !== undefined) params.limit = options.limit;
   if (options?.offset !== undefined) params.offset = options.offset;
   if (options?.sortField) params.sortField = options.sortField;
   if (options?.sortDirection) params.sortDirection = options.sortDirection;
+  if (options?.tagIds && options.tagIds.length > 0) {
+    params.tags = options.tagIds.join(",");
+    if (options.tagMode) params.tagMode = options.tagMode;
+  }
   const response = await api.get<PaginatedDrawings<DrawingSummary>>("/drawings/shared", { params });
   return {
     ...response.data,
@@ -511,11 +553,17 @@ export const getDrawing = async (id: string) => {
 
 export type ShareResolvedUser = { id: string; name: string; email: string };
 
-export const resolveShareUsers = async (drawingId: string, q: string): Promise<ShareResolvedUser[]> => {
-  const response = await api.get<{ users: ShareResolvedUser[] }>(`/drawings/${drawingId}/share-resolve`, {
-    params: { q },
-  });
-  return response.data.users;
+export type ShareResolvedGroup = { id: string; name: string; memberCount: number };
+
+export const resolveShareTargets = async (
+  drawingId: string,
+  q: string
+): Promise<{ users: ShareResolvedUser[]; groups: ShareResolvedGroup[] }> => {
+  const response = await api.get<{ users: ShareResolvedUser[]; groups?: ShareResolvedGroup[] }>(
+    `/drawings/${drawingId}/share-resolve`,
+    { params: { q } }
+  );
+  return { users: response.data.users, groups: response.data.groups ?? [] };
 };
 
 export type DrawingPermissionRow = {
@@ -527,6 +575,15 @@ export type DrawingPermissionRow = {
   granteeUser: ShareResolvedUser;
 };
 
+export type DrawingGroupPermissionRow = {
+  id: string;
+  groupId: string;
+  permission: "view" | "edit";
+  createdAt: string | number | Date;
+  updatedAt: string | number | Date;
+  group: { id: string; name: string };
+};
+
 export type DrawingLinkShareRow = {
   id: string;
   permission: "view" | "edit";
@@ -537,14 +594,29 @@ export type DrawingLinkShareRow = {
   lastUsedAt: string | null;
 };
 
+export type PendingDrawingTransfer = {
+  id: string;
+  createdAt: string;
+  toUser: ShareResolvedUser;
+};
+
 export const getDrawingSharing = async (drawingId: string): Promise<{
   permissions: DrawingPermissionRow[];
+  groupPermissions: DrawingGroupPermissionRow[];
   linkShares: DrawingLinkShareRow[];
+  transfer: PendingDrawingTransfer | null;
 }> => {
-  const response = await api.get<{ permissions: DrawingPermissionRow[]; linkShares: DrawingLinkShareRow[] }>(
-    `/drawings/${drawingId}/sharing`
-  );
-  return response.data;
+  const response = await api.get<{
+    permissions: DrawingPermissionRow[];
+    groupPermissions?: DrawingGroupPermissionRow[];
+    linkShares: DrawingLinkShareRow[];
+    transfer?: PendingDrawingTransfer | null;
+  }>(`/drawings/${drawingId}/sharing`);
+  return {
+    ...response.data,
+    groupPermissions: response.data.groupPermissions ?? [],
+    transfer: response.data.transfer ?? null,
+  };
 };
 
 export const upsertDrawingPermission = async (
@@ -555,11 +627,71 @@ export const upsertDrawingPermission = async (
   return response.data;
 };
 
+export const upsertDrawingGroupPermission = async (
+  drawingId: string,
+  params: { granteeGroupId: string; permission: "view" | "edit" }
+): Promise<{ groupPermission: DrawingGroupPermissionRow }> => {
+  const response = await api.post<{ groupPermission: DrawingGroupPermissionRow }>(
+    `/drawings/${drawingId}/permissions`,
+    params
+  );
+  return response.data;
+};
+
 export const revokeDrawingPermission = async (drawingId: string, permissionId: string): Promise<{ success: true }> => {
   const response = await api.delete<{ success: true }>(`/drawings/${drawingId}/permissions/${permissionId}`);
   return response.data;
 };
 
+export const getSharedCollections = async (): Promise<SharedCollection[]> => {
+  const response = await api.get<{ collections: SharedCollection[] }>("/collections/shared");
+  return response.data.collections.map((collection) => ({
+    ...collection,
+    createdAt: coerceTimestamp(collection.createdAt),
+  }));
+};
+
+export const resolveCollectionShareUsers = async (
+  collectionId: string,
+  q: string
+): Promise<ShareResolvedUser[]> => {
+  const response = await api.get<{ users: ShareResolvedUser[] }>(
+    `/collections/${collectionId}/share-resolve`,
+    { params: { q } }
+  );
+  return response.data.users;
+};
+
+export const getCollectionSharing = async (
+  collectionId: string
+): Promise<{ permissions: DrawingPermissionRow[] }> => {
+  const response = await api.get<{ permissions: DrawingPermissionRow[] }>(
+    `/collections/${collectionId}/sharing`
+  );
+  return response.data;
+};
+
+export const upsertCollectionPermission = async (
+  collectionId: string,
+  params: { granteeUserId: string; permission: "view" | "edit" }
+): Promise<{ permission: DrawingPermissionRow }> => {
+  const response = await api.post<{ permission: DrawingPermissionRow }>(
+    `/collections/${collectionId}/permissions`,
+    params
+  );
+  return response.data;
+};
+
+export const revokeCollectionPermission = async (
+  collectionId: string,
+  permissionId: string
+): Promise<{ success: true }> => {
+  const response = await api.delete<{ success: true }>(
+    `/collections/${collectionId}/permissions/${permissionId}`
+  );
+  return response.data;
+};
+
 export const createLinkShare = async (
   drawingId: string,
   params: { permission: "view" | "edit"; expiresAt?: string; passphrase?: string }
@@ -576,6 +708,82 @@ export const revokeLinkShare = async (drawingId: string, shareId: string): Promi
   return response.data;
 };
 
+export type OwnershipTransfer = {
+  id: string;
+  createdAt: string;
+  drawing: { id: string; name: string };
+  fromUser: ShareResolvedUser;
+  toUser: ShareResolvedUser;
+};
+
+/** Offers a drawing you own to another user; ownership moves once they accept. */
+export const offerDrawingTransfer = async (
+  drawingId: string,
+  toUserId: string
+): Promise<{ transfer: OwnershipTransfer }> => {
+  const response = await api.post<{ transfer: OwnershipTransfer }>(`/drawings/${drawingId}/transfer`, { toUserId });
+  return response.data;
+};
+
+export const getOwnershipTransfers = async (): Promise<{
+  incoming: OwnershipTransfer[];
+  outgoing: OwnershipTransfer[];
+}> => {
+  const response = await api.get<{ incoming: OwnershipTransfer[]; outgoing: OwnershipTransfer[] }>("/transfers");
+  return response.data;
+};
+
+export const acceptOwnershipTransfer = async (transferId: string): Promise<{ drawingId: string }> => {
+  const response = await api.post<{ drawingId: string }>(`/transfers/${transferId}/accept`);
+  return response.data;
+};
+
+/** Declines an incoming offer, or withdraws one you made. */
+export const dismissOwnershipTransfer = async (transferId: string): Promise<{ success: true }> => {
+  const response = await api.delete<{ success: true }>(`/transfers/${transferId}`);
+  return response.data;
+};
+
+export type NotificationType =
+  | 'drawing_shared'
+  | 'drawing_unshared'
+  | 'collection_shared'
+  | 'collection_unshared'
+  | 'ownership_offered'
+  | 'ownership_declined'
+  | 'ownership_accepted'
+  | 'ownership_transferred'
+  | 'comment_created'
+  | 'link_share_expiring';
+
+export type AppNotification = {
+  id: string;
+  type: NotificationType;
+  drawingId: string | null;
+  data: Record<string, unknown>;
+  readAt: string | null;
+  createdAt: string;
+  actor: { id: string; name: string } | null;
+};
+
+export const getNotifications = async (): Promise<{
+  notifications: AppNotification[];
+  unreadCount: number;
+}> => {
+  const response = await api.get<{ notifications: AppNotification[]; unreadCount: number }>("/notifications");
+  return response.data;
+};
+
+export const markNotificationRead = async (notificationId: string): Promise<{ unreadCount: number }> => {
+  const response = await api.post<{ unreadCount: number }>(`/notifications/${notificationId}/read`);
+  return response.data;
+};
+
+export const markAllNotificationsRead = async (): Promise<{ unreadCount: number }> => {
+  const response = await api.post<{ unreadCount: number }>("/notifications/read-all");
+  return response.data;
+};
+
 export const createDrawing = async (
   name?: string,
   collectionId?: string | null
@@ -589,8 +797,15 @@ export const createDrawing = async (
   return response.data;
 };
 
-export const updateDrawing = async (id: string, data: Partial<Drawing>) => {
-  const response = await api.put<Drawing>(`/drawings/${id}`, data);
+/**
+ * With `merge`, a save made against an outdated `version` is merged into the stored scene by the
+ * server (`merged: true` in the response) and only fails with 409 when that is not possible.
+ */
+export const updateDrawing = async (
+  id: string,
+  data: Partial<Drawing> & { merge?: boolean }
+): Promise<Drawing & { merged?: boolean }> => {
+  const response = await api.put<Drawing & { merged?: boolean }>(`/drawings/${id}`, data);
   return deserializeDrawing(response.data);
 };
 
@@ -604,13 +819,148 @@ export const duplicateDrawing = async (id: string) => {
   return deserializeDrawing(response.data);
 };
 
+export type StoredDrawingFile = { hash: string; size: number; mimeType: string };
+
+/** Uploads image bytes to the content-addressed file store; `hash` is their sha256 hex. */
+export const uploadDrawingFile = async (hash: string, blob: Blob): Promise<StoredDrawingFile> => {
+  const response = await api.put<StoredDrawingFile>(`/files/${hash}`, blob, {
+    headers: { "Content-Type": blob.type },
+  });
+  return response.data;
+};
+
+/** `drawingId` names the drawing the file is loaded for, which is how link-share visitors get access. */
+export const getDrawingFile = async (hash: string, drawingId?: string): Promise<Blob> => {
+  const response = await api.get<Blob>(`/files/${hash}`, {
+    params: drawingId ? { drawingId } : undefined,
+    responseType: "blob",
+  });
+  return response.data;
+};
+
+export const setDrawingStarred = async (id: string, starred: boolean) => {
+  const response = starred
+    ? await api.put<{ id: string; starred: boolean }>(`/drawings/${id}/star`)
+    : await api.delete<{ id: string; starred: boolean }>(`/drawings/${id}/star`);
+  return response.data;
+};
+
+export const getTemplates = async (): Promise<DrawingTemplate[]> => {
+  const response = await api.get<{ templates: DrawingTemplate[] }>("/templates");
+  return response.data.templates.map((template) => ({
+    ...template,
+    updatedAt: coerceTimestamp(template.updatedAt),
+    preview:
+      typeof template.preview === "string" ? normalizePreviewSvg(template.preview) : template.preview,
+  }));
+};
+
+/** Marks a drawing as a personal or (admins only) global template; `null` removes it. */
+export const setDrawingTemplateScope = async (id: string, scope: TemplateScope | null) => {
+  const response = await api.put<{ id: string; templateScope: TemplateScope | null }>(
+    `/drawings/${id}/template`,
+    { scope }
+  );
+  return response.data;
+};
+
+export const createDrawingFromTemplate = async (
+  templateId: string,
+  params: { collectionId?: string | null; name?: string } = {}
+) => {
+  const response = await api.post<Drawing>(`/drawings/from-template/${templateId}`, params);
+  return deserializeDrawing(response.data);
+};
+
+/** Moves a trashed drawing back to the collection it was trashed from (or Unorganized). */
+export const restoreDrawing = async (id: string) => {
+  const response = await api.post<{
+    id: string;
+    collectionId: string | null;
+    restoredToPreviousCollection: boolean;
+  }>(`/drawings/${id}/restore`);
+  return response.data;
+};
+
+export const getDrawingRevisions = async (id: string): Promise<DrawingRevisionSummary[]> => {
+  const response = await api.get<{ revisions: DrawingRevisionSummary[] }>(
+    `/drawings/${id}/revisions`
+  );
+  return response.data.revisions.map(deserializeTimestamps);
+};
+
+export const getDrawingRevision = async (
+  id: string,
+  version: number
+): Promise<DrawingRevision> => {
+  const response = await api.get<DrawingRevision>(`/drawings/${id}/revisions/${version}`);
+  return deserializeTimestamps(response.data);
+};
+
+export const restoreDrawingRevision = async (
+  id: string,
+  version: number,
+  currentVersion?: number
+) => {
+  const response = await api.post<Drawing>(`/drawings/${id}/revisions/${version}/restore`, {
+    version: currentVersion,
+  });
+  return deserializeDrawing(response.data);
+};
+
+export const getDrawingDiff = async (
+  id: string,
+  from: number,
+  to?: number
+): Promise<DrawingDiff> => {
+  const response = await api.get<DrawingDiff>(`/drawings/${id}/diff`, {
+    params: { from, to: to ?? "current" },
+  });
+  return response.data;
+};
+
+/** Also applied to comments pushed over the socket, which carry ISO timestamps. */
+export const deserializeDrawingComment = (comment: DrawingComment): DrawingComment => ({
+  ...deserializeTimestamps(comment),
+  resolvedAt: comment.resolvedAt == null ? null : coerceTimestamp(comment.resolvedAt),
+});
+
+export const getDrawingComments = async (id: string): Promise<DrawingComment[]> => {
+  const response = await api.get<{ comments: DrawingComment[] }>(`/drawings/${id}/comments`);
+  return response.data.comments.map(deserializeDrawingComment);
+};
+
+export const createDrawingComment = async (
+  id: string,
+  input: { body: string; parentId?: string; elementId?: string; x?: number; y?: number }
+): Promise<DrawingComment> => {
+  const response = await api.post<{ comment: DrawingComment }>(`/drawings/${id}/comments`, input);
+  return deserializeDrawingComment(response.data.comment);
+};
+
+export const updateDrawingComment = async (
+  id: string,
+  commentId: string,
+  patch: { body?: string; resolved?: boolean }
+): Promise<DrawingComment> => {
+  const response = await api.patch<{ comment: DrawingComment }>(
+    `/drawings/${id}/comments/${commentId}`,
+    patch
+  );
+  return deserializeDrawingComment(response.data.comment);
+};
+
+export const deleteDrawingComment = async (id: string, commentId: string) => {
+  await api.delete(`/drawings/${id}/comments/${commentId}`);
+};
+
 export const getCollections = async () => {
   const response = await api.get<Collection[]>("/collections");
   return response.data;
 };
 
-export const createCollection = async (name: string) => {
-  const response = await api.post<Collection>("/collections", { name });
+export const createCollection = async (name: string, parentId: string | null = null) => {
+  const response = await api.post<Collection>("/collections", { name, parentId });
   return response.data;
 };
 
@@ -621,11 +971,43 @@ export const updateCollection = async (id: string, name: string) => {
   return response.data;
 };
 
+export const moveCollection = async (id: string, parentId: string | null) => {
+  const response = await api.put<Collection>(`/collections/${id}`, { parentId });
+  return response.data;
+};
+
+/** Deletes a collection and everything nested in it; drawings become unorganized. */
 export const deleteCollection = async (id: string) => {
-  const response = await api.delete<{ success: true }>(`/collections/${id}`);
+  const response = await api.delete<{ success: true; deletedCollectionIds: string[] }>(
+    `/collections/${id}`
+  );
+  return response.data;
+};
+
+export const getTags = async () => {
+  const response = await api.get<Tag[]>("/tags");
+  return response.data.map((tag) => deserializeTimestamps(tag));
+};
+
+export const createTag = async (name: string, color?: string | null) => {
+  const response = await api.post<Tag>("/tags", { name, color });
+  return deserializeTimestamps(response.data);
+};
+
+export const updateTag = async (id: string, data: { name?: string; color?: string | null }) => {
+  const response = await api.put<Tag>(`/tags/${id}`, data);
+  return deserializeTimestamps(response.data);
+};
+
+export const deleteTag = async (id: string) => {
+  const response = await api.delete<{ success: true }>(`/tags/${id}`);
   return response.data;
 };
 
+export const setDrawingTags = async (drawingId: string, tagIds: string[]) => {
+  const response = await api.put<{ tags: DrawingTagRef[] }>(`/drawings/${drawingId}/tags`, { tagIds });
+  return response.data.tags;
+};
 
 type LibraryItem = Record<string, unknown>;
 
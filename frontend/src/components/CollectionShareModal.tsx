@@ -0,0 +1,243 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { X, Plus, AlertTriangle, RefreshCw, Search, Folder } from "lucide-react";
+import * as api from "../api";
+import { useAuth } from "../context/AuthContext";
+import { CustomSelect } from "./ShareModal";
+
+type Props = {
+  collectionId: string;
+  collectionName: string;
+  isOpen: boolean;
+  onClose: () => void;
+};
+
+export const CollectionShareModal: React.FC<Props> = ({ collectionId, collectionName, isOpen, onClose }) => {
+  const { user } = useAuth();
+  const currentUserId = user?.id || null;
+
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [permissions, setPermissions] = useState<api.DrawingPermissionRow[]>([]);
+
+  const [userQuery, setUserQuery] = useState("");
+  const [userResults, setUserResults] = useState<api.ShareResolvedUser[]>([]);
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const data = await api.getCollectionSharing(collectionId);
+      setPermissions(data.permissions);
+    } catch (err: unknown) {
+      let message = "Failed to load sharing settings";
+      if (api.isAxiosError(err)) {
+        const serverMessage = typeof err.response?.data?.message === "string" ? err.response.data.message : null;
+        if (serverMessage) message = serverMessage;
+      }
+      setError(message);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [collectionId]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setUserQuery("");
+    setUserResults([]);
+    void refresh();
+  }, [isOpen, refresh]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const q = userQuery.trim();
+    if (q.length < 3) {
+      setUserResults([]);
+      return;
+    }
+    let cancelled = false;
+    const run = async () => {
+      try {
+        const users = await api.resolveCollectionShareUsers(collectionId, q);
+        const filtered = currentUserId ? users.filter((u) => u.id !== currentUserId) : users;
+        if (!cancelled) setUserResults(filtered);
+      } catch {
+        if (!cancelled) setUserResults([]);
+      }
+    };
+    const t = window.setTimeout(run, 250);
+    return () => {
+      cancelled = true;
+      window.clearTimeout(t);
+    };
+  }, [collectionId, currentUserId, isOpen, userQuery]);
+
+  const handleUpsertUser = async (granteeUserId: string, permission: "view" | "edit") => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      await api.upsertCollectionPermission(collectionId, { granteeUserId, permission });
+      await refresh();
+      setUserQuery("");
+      setUserResults([]);
+    } catch (err: unknown) {
+      let message = "Failed to share with user";
+      if (api.isAxiosError(err)) {
+        const serverMessage = typeof err.response?.data?.message === "string" ? err.response.data.message : null;
+        if (serverMessage) message = serverMessage;
+      }
+      setError(message);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRevokeUser = async (permissionId: string) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      await api.revokeCollectionPermission(collectionId, permissionId);
+      await refresh();
+    } catch {
+      setError("Failed to revoke access");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-black/40 backdrop-blur-sm" onClick={onClose} />
+
+      <div className="relative w-full max-w-[540px] bg-white dark:bg-neutral-900 rounded-[24px] border-2 border-black dark:border-neutral-700 shadow-[12px_12px_0px_0px_rgba(0,0,0,1)] dark:shadow-[12px_12px_0px_0px_rgba(255,255,255,0.05)] flex flex-col animate-in fade-in zoom-in-95 duration-200">
+        <div className="px-8 py-6 flex items-center justify-between border-b-2 border-black dark:border-neutral-700">
+          <h2 className="text-xl font-black text-slate-800 dark:text-neutral-100 truncate pr-4" title={collectionName}>
+            Share "{collectionName}"
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-2 rounded-xl border-2 border-transparent hover:border-black dark:hover:border-neutral-600 transition-all group shrink-0"
+          >
+            <X size={20} strokeWidth={3} className="group-hover:rotate-90 transition-transform duration-200" />
+          </button>
+        </div>
+
+        <div className="flex-1 px-8 pt-8 pb-10 space-y-8 overflow-visible">
+          {error && (
+            <div className="p-4 rounded-xl bg-rose-50 dark:bg-rose-900/20 border-2 border-rose-600 dark:border-rose-500 text-sm font-bold text-rose-600 dark:text-rose-400 flex items-center gap-3">
+              <AlertTriangle size={18} strokeWidth={3} />
+              {error}
+            </div>
+          )}
+
+          <p className="flex items-start gap-3 text-sm font-bold text-slate-500 dark:text-neutral-400 leading-snug px-1">
+            <Folder size={18} strokeWidth={2.5} className="shrink-0 mt-0.5" />
+            People added here can open every drawing in this collection and in the collections nested inside it.
+          </p>
+
+          <section className="relative">
+            <div className="relative group">
+              <div className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-400 group-focus-within:text-indigo-600 transition-colors">
+                <Search size={20} strokeWidth={2.5} />
+              </div>
+              <input
+                value={userQuery}
+                onChange={(e) => setUserQuery(e.target.value)}
+                placeholder="Add people"
+                className="w-full pl-12 pr-4 py-4 rounded-xl border-2 border-black dark:border-neutral-700 bg-slate-50 dark:bg-neutral-800 text-slate-900 dark:text-neutral-100 focus:outline-none focus:ring-0 focus:border-indigo-600 dark:focus:border-indigo-500 transition-all font-bold placeholder:text-slate-400 shadow-[2px_2px_0px_0px_rgba(0,0,0,1)] dark:shadow-[2px_2px_0px_0px_rgba(255,255,255,0.05)]"
+              />
+            </div>
+
+            {userResults.length > 0 && (
+              <div className="absolute top-full left-0 right-0 mt-3 border-2 border-black dark:border-neutral-700 rounded-xl bg-white dark:bg-neutral-900 shadow-[8px_8px_0px_0px_rgba(0,0,0,1)] dark:shadow-[8px_8px_0px_0px_rgba(255,255,255,0.1)] overflow-hidden z-[200] animate-in fade-in slide-in-from-top-2">
+                {userResults.map((u) => (
+                  <button
+                    key={u.id}
+                    onClick={() => handleUpsertUser(u.id, "view")}
+                    className="w-full text-left px-5 py-4 flex items-center gap-4 hover:bg-indigo-50 dark:hover:bg-indigo-900/20 transition-colors group border-b last:border-b-0 border-slate-100 dark:border-neutral-800"
+                  >
+                    <div className="w-10 h-10 rounded-xl bg-indigo-100 dark:bg-indigo-900/40 flex items-center justify-center text-indigo-700 dark:text-indigo-300 font-black text-lg border-2 border-black dark:border-neutral-600">
+                      {u.name.charAt(0).toUpperCase()}
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <div className="text-base font-black text-slate-900 dark:text-neutral-100 truncate">{u.name}</div>
+                      <div className="text-xs font-bold text-slate-500 dark:text-neutral-400 truncate">{u.email}</div>
+                    </div>
+                    <Plus size={20} className="text-slate-400 group-hover:text-indigo-600 transition-colors" strokeWidth={3} />
+                  </button>
+                ))}
+              </div>
+            )}
+          </section>
+
+          <section className="space-y-4">
+            <h3 className="text-[11px] font-black uppercase tracking-[0.2em] text-slate-400 dark:text-neutral-500 px-1">People with access</h3>
+
+            <div className="space-y-1">
+              <div className="flex items-center gap-4 px-1 py-3 min-h-[64px]">
+                <div className="w-11 h-11 rounded-xl bg-slate-100 dark:bg-neutral-800 flex items-center justify-center text-slate-600 dark:text-neutral-300 font-black text-xl border-2 border-black dark:border-neutral-600 shrink-0">
+                  {user?.name?.charAt(0).toUpperCase() || "U"}
+                </div>
+                <div className="flex-1 min-w-0 flex flex-col justify-center">
+                  <div className="text-base font-black text-slate-900 dark:text-neutral-100 leading-tight">
+                    {user?.name} <span className="text-slate-400 dark:text-neutral-500 font-bold ml-1">(you)</span>
+                  </div>
+                  <div className="text-sm font-bold text-slate-500 dark:text-neutral-400 mt-0.5">{user?.email}</div>
+                </div>
+                <div className="text-[10px] font-black uppercase tracking-widest text-slate-400 dark:text-neutral-500 pr-4 shrink-0">Owner</div>
+              </div>
+
+              {permissions.map((p) => (
+                <div key={p.id} className="flex items-center gap-4 px-1 py-3 min-h-[64px] group">
+                  <div className="w-11 h-11 rounded-xl bg-indigo-50 dark:bg-indigo-900/20 flex items-center justify-center text-indigo-600 dark:text-indigo-400 font-black text-xl border-2 border-indigo-600 dark:border-indigo-500 shrink-0">
+                    {p.granteeUser.name.charAt(0).toUpperCase()}
+                  </div>
+                  <div className="flex-1 min-w-0 flex flex-col justify-center">
+                    <div className="text-base font-black text-slate-900 dark:text-neutral-100 leading-tight truncate">{p.granteeUser.name}</div>
+                    <div className="text-sm font-bold text-slate-500 dark:text-neutral-400 mt-0.5 truncate">{p.granteeUser.email}</div>
+                  </div>
+                  <div className="shrink-0 flex items-center h-full">
+                    <CustomSelect
+                      value={p.permission}
+                      onChange={async (val) => {
+                        if (val === "remove") {
+                          await handleRevokeUser(p.id);
+                        } else {
+                          await handleUpsertUser(p.granteeUserId, val as "view" | "edit");
+                        }
+                      }}
+                      options={[
+                        { label: "Viewer", value: "view" },
+                        { label: "Editor", value: "edit" },
+                        { label: "Remove access", value: "remove", danger: true },
+                      ]}
+                      align="right"
+                    />
+                  </div>
+                </div>
+              ))}
+            </div>
+          </section>
+        </div>
+
+        <div className="px-8 py-8 flex items-center justify-end border-t-2 border-black dark:border-neutral-700 bg-slate-50 dark:bg-neutral-800/50 rounded-b-[22px]">
+          <button
+            onClick={onClose}
+            className="px-12 py-3.5 rounded-xl bg-indigo-600 dark:bg-indigo-500 text-white border-2 border-black font-black text-sm uppercase tracking-[0.2em] hover:-translate-y-0.5 hover:shadow-[6px_6px_0px_0px_rgba(0,0,0,1)] active:translate-y-0 active:shadow-none transition-all shadow-[4px_4px_0px_0px_rgba(0,0,0,1)]"
+          >
+            DONE
+          </button>
+        </div>
+
+        {isLoading && (
+          <div className="absolute inset-0 bg-white/20 dark:bg-black/10 backdrop-blur-[1px] flex items-center justify-center z-[300] pointer-events-none rounded-[24px]">
+             <div className="bg-white dark:bg-neutral-900 border-2 border-black dark:border-neutral-700 p-5 rounded-2xl shadow-[8px_8px_0px_0px_rgba(0,0,0,1)]">
+                <RefreshCw size={28} strokeWidth={3} className="animate-spin text-indigo-600 dark:text-indigo-400" />
+             </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,78 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import clsx from 'clsx';
+import { readSceneViewport, type SceneViewport } from '../pages/editor/shared';
+import { getCommentAnchor, type CommentThread } from '../utils/comments';
+
+type Props = {
+  threads: CommentThread[];
+  activeThreadId: string | null;
+  getAppState: () => any | null;
+  getElements: () => readonly any[];
+  onSelect: (thread: CommentThread) => void;
+};
+
+type CanvasSnapshot = { viewport: SceneViewport | null; elements: readonly any[] };
+
+const sameViewport = (a: SceneViewport | null, b: SceneViewport | null) =>
+  a === b || (!!a && !!b && a.scrollX === b.scrollX && a.scrollY === b.scrollY && a.zoom === b.zoom);
+
+/** Pins for open, anchored comment threads, kept on their element while it moves. */
+export const CommentPins: React.FC<Props> = ({ threads, activeThreadId, getAppState, getElements, onSelect }) => {
+  const [snapshot, setSnapshot] = useState<CanvasSnapshot>(() => ({
+    viewport: readSceneViewport(getAppState()),
+    elements: getElements(),
+  }));
+
+  // Same per-frame tracking as DiffOverlay; Excalidraw hands out a new elements array on every edit.
+  useEffect(() => {
+    let frameId = 0;
+    const tick = () => {
+      const viewport = readSceneViewport(getAppState());
+      const elements = getElements();
+      setSnapshot((prev) =>
+        prev.elements === elements && sameViewport(prev.viewport, viewport) ? prev : { viewport, elements }
+      );
+      frameId = requestAnimationFrame(tick);
+    };
+    frameId = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frameId);
+  }, [getAppState, getElements]);
+
+  const elementsById = useMemo(
+    () => new Map(snapshot.elements.map((element) => [element.id as string, element])),
+    [snapshot.elements]
+  );
+
+  const { viewport } = snapshot;
+  if (!viewport) return null;
+
+  return (
+    <div className="absolute inset-0 pointer-events-none z-10 overflow-hidden">
+      {threads.map((thread) => {
+        if (thread.root.resolved) return null;
+        const anchor = getCommentAnchor(thread.root, elementsById);
+        if (!anchor) return null;
+        const isActive = thread.root.id === activeThreadId;
+        return (
+          <button
+            key={thread.root.id}
+            onClick={() => onSelect(thread)}
+            className={clsx(
+              "absolute -translate-y-full pointer-events-auto min-w-6 h-6 px-1.5 flex items-center justify-center rounded-full rounded-bl-none border-2 text-[11px] font-bold shadow-[2px_2px_0px_0px_rgba(0,0,0,1)] transition-colors",
+              isActive
+                ? "bg-indigo-600 border-black text-white"
+                : "bg-amber-300 border-black text-gray-900 hover:bg-amber-400"
+            )}
+            style={{
+              left: (anchor.x + viewport.scrollX) * viewport.zoom,
+              top: (anchor.y + viewport.scrollY) * viewport.zoom,
+            }}
+            title={thread.root.body}
+          >
+            {1 + thread.replies.length}
+          </button>
+        );
+      })}
+    </div>
+  );
+};
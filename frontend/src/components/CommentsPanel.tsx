@@ -0,0 +1,262 @@
+import React, { useState } from 'react';
+import clsx from 'clsx';
+import { formatDistanceToNow } from 'date-fns';
+import { Check, Loader2, MapPin, MessageSquare, RotateCcw, Trash2, X } from 'lucide-react';
+import type { DrawingComment } from '../types';
+import type { CommentThread } from '../utils/comments';
+
+type Props = {
+  isOpen: boolean;
+  threads: CommentThread[];
+  activeThreadId: string | null;
+  canComment: boolean;
+  /** Editors may resolve any thread; authors always can. */
+  canResolveAny: boolean;
+  /** Owners may delete any comment; authors always can. */
+  canDeleteAny: boolean;
+  isAuthor: (comment: DrawingComment) => boolean;
+  onClose: () => void;
+  onSelectThread: (thread: CommentThread) => void;
+  onCreate: (body: string) => Promise<void>;
+  onReply: (threadId: string, body: string) => Promise<void>;
+  onResolve: (threadId: string, resolved: boolean) => Promise<void>;
+  onDelete: (commentId: string) => Promise<void>;
+};
+
+const isAnchored = (comment: DrawingComment) =>
+  Boolean(comment.elementId) || (comment.sceneX !== null && comment.sceneY !== null);
+
+const CommentBody: React.FC<{
+  comment: DrawingComment;
+  canDelete: boolean;
+  onDelete: () => void;
+}> = ({ comment, canDelete, onDelete }) => (
+  <div className="group/comment">
+    <div className="flex items-center justify-between gap-2">
+      <span className="text-xs font-semibold text-gray-900 dark:text-white truncate">
+        {comment.author?.name ?? 'Deleted user'}
+      </span>
+      <span className="flex items-center gap-1 shrink-0 text-[11px] text-gray-500 dark:text-gray-400">
+        {formatDistanceToNow(comment.createdAt)} ago
+        {canDelete ? (
+          <button
+            onClick={(event) => {
+              event.stopPropagation();
+              onDelete();
+            }}
+            className="p-0.5 rounded opacity-0 group-hover/comment:opacity-100 hover:text-rose-600 transition-opacity"
+            title={comment.parentId ? 'Delete reply' : 'Delete thread'}
+          >
+            <Trash2 size={12} />
+          </button>
+        ) : null}
+      </span>
+    </div>
+    <p className="mt-0.5 text-sm text-gray-700 dark:text-gray-200 whitespace-pre-wrap break-words">{comment.body}</p>
+  </div>
+);
+
+const Composer: React.FC<{
+  placeholder: string;
+  submitLabel: string;
+  onSubmit: (body: string) => Promise<void>;
+}> = ({ placeholder, submitLabel, onSubmit }) => {
+  const [body, setBody] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const submit = async () => {
+    const trimmed = body.trim();
+    if (!trimmed || isSaving) return;
+    setIsSaving(true);
+    try {
+      await onSubmit(trimmed);
+      setBody('');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2" onClick={(event) => event.stopPropagation()}>
+      <textarea
+        rows={2}
+        value={body}
+        placeholder={placeholder}
+        onChange={(event) => setBody(event.target.value)}
+        onKeyDown={(event) => {
+          // Keep Excalidraw's shortcuts out of the text box; Ctrl/Cmd+Enter submits.
+          event.stopPropagation();
+          if (event.key === 'Enter' && (event.metaKey || event.ctrlKey)) void submit();
+        }}
+        className="w-full px-3 py-2 rounded-lg border border-gray-200 dark:border-neutral-700 bg-white dark:bg-neutral-800 text-sm text-gray-900 dark:text-white outline-none focus:border-indigo-500 resize-none"
+      />
+      <div className="flex justify-end">
+        <button
+          onClick={() => void submit()}
+          disabled={!body.trim() || isSaving}
+          className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg border-2 border-black dark:border-neutral-700 bg-indigo-600 text-white text-xs font-semibold hover:bg-indigo-700 disabled:opacity-50 transition-colors"
+        >
+          {isSaving ? <Loader2 size={12} className="animate-spin" /> : null}
+          {submitLabel}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export const CommentsPanel: React.FC<Props> = ({
+  isOpen,
+  threads,
+  activeThreadId,
+  canComment,
+  canResolveAny,
+  canDeleteAny,
+  isAuthor,
+  onClose,
+  onSelectThread,
+  onCreate,
+  onReply,
+  onResolve,
+  onDelete,
+}) => {
+  const [showResolved, setShowResolved] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!isOpen) return null;
+
+  const openCount = threads.filter((thread) => !thread.root.resolved).length;
+  const visibleThreads = threads.filter((thread) => thread.root.resolved === showResolved);
+
+  const run = async (action: () => Promise<void>, message: string) => {
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      console.error(message, err);
+      setError(message);
+      throw err;
+    }
+  };
+  const runQuietly = (action: () => Promise<void>, message: string) => {
+    run(action, message).catch(() => undefined);
+  };
+
+  return (
+    <aside className="fixed top-16 right-0 bottom-0 w-80 z-20 flex flex-col bg-white dark:bg-neutral-900 border-l border-gray-200 dark:border-neutral-800 shadow-xl">
+      <div className="h-12 px-4 flex items-center justify-between border-b border-gray-200 dark:border-neutral-800">
+        <h2 className="flex items-center gap-2 text-sm font-semibold text-gray-900 dark:text-white">
+          <MessageSquare size={16} /> Comments
+        </h2>
+        <button
+          onClick={onClose}
+          className="p-1.5 hover:bg-gray-100 dark:hover:bg-neutral-800 rounded-lg text-gray-600 dark:text-gray-300 transition-colors"
+          title="Close comments"
+        >
+          <X size={16} />
+        </button>
+      </div>
+
+      {error ? (
+        <div className="mx-4 mt-3 px-3 py-2 rounded-lg text-xs font-medium bg-rose-50 dark:bg-rose-900/20 text-rose-600 dark:text-rose-400">
+          {error}
+        </div>
+      ) : null}
+
+      {canComment ? (
+        <div className="p-4 border-b border-gray-200 dark:border-neutral-800 space-y-1">
+          <Composer
+            placeholder="Add a comment…"
+            submitLabel="Comment"
+            onSubmit={(body) => run(() => onCreate(body), 'Failed to add comment')}
+          />
+          <p className="text-[11px] text-gray-500 dark:text-gray-400">
+            Attaches to the selected element, or pins to the middle of the view.
+          </p>
+        </div>
+      ) : null}
+
+      <div className="px-4 pt-3 flex gap-1 text-xs font-semibold">
+        {[false, true].map((resolved) => (
+          <button
+            key={String(resolved)}
+            onClick={() => setShowResolved(resolved)}
+            className={clsx(
+              "px-2.5 py-1 rounded-lg transition-colors",
+              showResolved === resolved
+                ? "bg-gray-900 text-white dark:bg-white dark:text-gray-900"
+                : "text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-neutral-800"
+            )}
+          >
+            {resolved ? `Resolved (${threads.length - openCount})` : `Open (${openCount})`}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex-1 overflow-y-auto custom-scrollbar p-4 space-y-3">
+        {visibleThreads.length === 0 ? (
+          <p className="py-6 text-sm text-center text-gray-500 dark:text-gray-400">
+            {showResolved ? 'No resolved threads.' : 'No open comments.'}
+          </p>
+        ) : (
+          visibleThreads.map((thread) => {
+            const { root } = thread;
+            const canResolve = canResolveAny || isAuthor(root);
+            return (
+              <div
+                key={root.id}
+                onClick={() => onSelectThread(thread)}
+                className={clsx(
+                  "p-3 rounded-xl border-2 cursor-pointer space-y-2 transition-colors",
+                  activeThreadId === root.id
+                    ? "border-indigo-500 bg-indigo-50/60 dark:bg-neutral-800"
+                    : "border-gray-200 dark:border-neutral-700 hover:border-gray-300 dark:hover:border-neutral-600"
+                )}
+              >
+                <div className="flex items-center justify-between gap-2 text-[11px] text-gray-500 dark:text-gray-400">
+                  <span className="flex items-center gap-1">
+                    {isAnchored(root) ? <MapPin size={12} /> : null}
+                    {root.elementId ? 'On an element' : isAnchored(root) ? 'On the canvas' : 'On the drawing'}
+                  </span>
+                  {canResolve ? (
+                    <button
+                      onClick={(event) => {
+                        event.stopPropagation();
+                        runQuietly(() => onResolve(root.id, !root.resolved), 'Failed to update thread');
+                      }}
+                      className="flex items-center gap-1 px-1.5 py-0.5 rounded-md font-semibold hover:bg-gray-100 dark:hover:bg-neutral-700 text-gray-700 dark:text-gray-200"
+                      title={root.resolved ? 'Reopen thread' : 'Resolve thread'}
+                    >
+                      {root.resolved ? <RotateCcw size={12} /> : <Check size={12} />}
+                      {root.resolved ? 'Reopen' : 'Resolve'}
+                    </button>
+                  ) : null}
+                </div>
+                <CommentBody
+                  comment={root}
+                  canDelete={canDeleteAny || isAuthor(root)}
+                  onDelete={() => runQuietly(() => onDelete(root.id), 'Failed to delete comment')}
+                />
+                {thread.replies.map((reply) => (
+                  <div key={reply.id} className="pl-3 border-l-2 border-gray-200 dark:border-neutral-700">
+                    <CommentBody
+                      comment={reply}
+                      canDelete={canDeleteAny || isAuthor(reply)}
+                      onDelete={() => runQuietly(() => onDelete(reply.id), 'Failed to delete reply')}
+                    />
+                  </div>
+                ))}
+                {canComment && activeThreadId === root.id ? (
+                  <Composer
+                    placeholder="Reply…"
+                    submitLabel="Reply"
+                    onSubmit={(body) => run(() => onReply(root.id, body), 'Failed to add reply')}
+                  />
+                ) : null}
+              </div>
+            );
+          })
+        )}
+      </div>
+    </aside>
+  );
+};
@@ -0,0 +1,89 @@
+import React, { useEffect, useState } from 'react';
+import clsx from 'clsx';
+import { X } from 'lucide-react';
+import type { DrawingDiff, ElementBounds } from '../types';
+import { readSceneViewport, sceneBoundsToViewport, type SceneViewport } from '../pages/editor/shared';
+
+type Props = {
+  diff: DrawingDiff;
+  getAppState: () => any | null;
+  onClose: () => void;
+};
+
+const MARKER_STYLES = {
+  added: "border-emerald-500 bg-emerald-500/10",
+  removed: "border-rose-500 bg-rose-500/10 border-dashed",
+  modified: "border-amber-500 bg-amber-500/10",
+} as const;
+
+type Marker = { key: string; kind: keyof typeof MARKER_STYLES; bounds: ElementBounds; label: string };
+
+export const DiffOverlay: React.FC<Props> = ({ diff, getAppState, onClose }) => {
+  const [viewport, setViewport] = useState<SceneViewport | null>(() => readSceneViewport(getAppState()));
+
+  // Track the canvas viewport per frame so markers stay aligned while panning/zooming.
+  useEffect(() => {
+    let frameId = 0;
+    const tick = () => {
+      const next = readSceneViewport(getAppState());
+      setViewport((prev) =>
+        prev &&
+        next &&
+        prev.scrollX === next.scrollX &&
+        prev.scrollY === next.scrollY &&
+        prev.zoom === next.zoom
+          ? prev
+          : next
+      );
+      frameId = requestAnimationFrame(tick);
+    };
+    frameId = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frameId);
+  }, [getAppState]);
+
+  const markers: Marker[] = [
+    ...diff.added.map((entry) => ({ key: `added:${entry.id}`, kind: "added" as const, bounds: entry.bounds, label: "Added" })),
+    ...diff.removed.map((entry) => ({ key: `removed:${entry.id}`, kind: "removed" as const, bounds: entry.bounds, label: "Removed" })),
+    ...diff.modified.map((entry) => ({
+      key: `modified:${entry.id}`,
+      kind: "modified" as const,
+      bounds: entry.bounds,
+      label: entry.changes.join(", "),
+    })),
+  ];
+
+  return (
+    <div className="absolute inset-0 pointer-events-none z-10 overflow-hidden">
+      {viewport
+        ? markers.map((marker) => {
+            const rect = sceneBoundsToViewport(marker.bounds, viewport);
+            return (
+              <div
+                key={marker.key}
+                className={clsx("absolute border-2 rounded-md", MARKER_STYLES[marker.kind])}
+                style={rect}
+              >
+                <span className="absolute -top-5 left-0 px-1 rounded text-[10px] font-semibold uppercase tracking-wide bg-gray-900/80 text-white whitespace-nowrap">
+                  {marker.label}
+                </span>
+              </div>
+            );
+          })
+        : null}
+
+      <div className="absolute bottom-16 left-1/2 -translate-x-1/2 pointer-events-auto flex items-center gap-3 px-3 py-2 rounded-xl border-2 border-black dark:border-neutral-700 bg-white dark:bg-neutral-900 shadow-[2px_2px_0px_0px_rgba(0,0,0,1)] text-xs font-semibold text-gray-700 dark:text-gray-200">
+        <span>Changes since v{diff.from}</span>
+        <span className="text-emerald-600 dark:text-emerald-400">+{diff.added.length} added</span>
+        <span className="text-rose-600 dark:text-rose-400">−{diff.removed.length} removed</span>
+        <span className="text-amber-600 dark:text-amber-400">{diff.modified.length} modified</span>
+        <button
+          onClick={onClose}
+          className="p-1 hover:bg-gray-100 dark:hover:bg-neutral-800 rounded-md transition-colors"
+          title="Hide changes"
+        >
+          <X size={14} />
+        </button>
+      </div>
+    </div>
+  );
+};
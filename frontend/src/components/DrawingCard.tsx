@@ -1,14 +1,16 @@
 
 import React, { useState, useEffect, useCallback } from 'react';
 import { createPortal } from 'react-dom';
-import { PenTool, Trash2, FolderInput, ArrowRight, Check, Clock, Copy, Download, Loader2 } from 'lucide-react';
-import type { DrawingSummary, Collection, Drawing } from '../types';
+import { PenTool, Trash2, FolderInput, ArrowRight, Check, Clock, Copy, Download, Loader2, Frame, Link2, Type, Tags, Plus, RotateCcw, LayoutTemplate, Globe, Star } from 'lucide-react';
+import type { DrawingSummary, Collection, Drawing, DrawingSearchSnippet, Tag, TemplateScope } from '../types';
 import { formatDistanceToNow } from 'date-fns';
 import clsx from 'clsx';
 import { exportDrawingToFile } from '../utils/exportUtils';
 import { previewHasEmbeddedImages } from '../utils/previewSvg';
+import { hydrateStoredFiles } from '../utils/drawingFiles';
 
 import * as api from '../api';
+import { TagChip } from './TagChip';
 
 type HydratedDrawingData = {
   elements: any[];
@@ -52,12 +54,77 @@ interface DrawingCardProps {
   onDelete: (id: string) => void;
   onMoveToCollection: (id: string, collectionId: string | null) => void;
   onDuplicate: (id: string) => void;
+  /** Shown in the trash view to move the drawing back where it came from. */
+  onRestore?: (id: string) => void;
+  /** The star toggle is hidden when omitted. */
+  onToggleStar?: (id: string, starred: boolean) => void;
+  /** Template menu items are hidden when omitted. */
+  onSetTemplateScope?: (id: string, scope: TemplateScope | null) => void;
+  /** Admins may also publish a drawing as a template for everyone. */
+  canPublishTemplates?: boolean;
   onClick: (id: string, e: React.MouseEvent) => void;
   onDragStart?: (e: React.DragEvent, id: string) => void;
   onMouseDown?: (e: React.MouseEvent, id: string) => void;
   onPreviewGenerated?: (id: string, preview: string) => void;
+  onOpenMatch?: (id: string, elementId: string) => void;
+  /** The current user's tags; the tag menu is hidden when omitted. */
+  tags?: Tag[];
+  onSetTags?: (id: string, tagIds: string[]) => void;
+  onCreateTag?: (name: string) => Promise<Tag | null>;
+  onTagClick?: (tagId: string) => void;
 }
 
+const SNIPPET_ICONS = {
+  text: Type,
+  frame: Frame,
+  link: Link2,
+} as const;
+
+const SearchSnippets: React.FC<{
+  snippets: DrawingSearchSnippet[];
+  onOpen?: (elementId: string) => void;
+}> = ({ snippets, onOpen }) => {
+  // The name is already shown as the card title.
+  const contentSnippets = snippets.filter(
+    (snippet): snippet is DrawingSearchSnippet & { elementId: string; kind: keyof typeof SNIPPET_ICONS } =>
+      snippet.kind !== "name" && snippet.elementId !== null
+  );
+  if (contentSnippets.length === 0) return null;
+
+  return (
+    <ul className="mt-2 space-y-1" data-testid="drawing-search-snippets">
+      {contentSnippets.slice(0, 2).map((snippet) => {
+        const Icon = SNIPPET_ICONS[snippet.kind];
+        return (
+          <li key={`${snippet.kind}:${snippet.elementId}`}>
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                onOpen?.(snippet.elementId);
+              }}
+              className="w-full flex items-start gap-1.5 text-left text-[11px] leading-snug text-slate-500 dark:text-neutral-400 hover:text-slate-800 dark:hover:text-neutral-200 transition-colors"
+              title="Open drawing at this match"
+            >
+              <Icon size={11} className="mt-0.5 flex-shrink-0" />
+              <span className="line-clamp-2 break-words">
+                {snippet.segments.map((segment, index) =>
+                  segment.match ? (
+                    <mark key={index} className="bg-amber-200/70 dark:bg-amber-500/30 text-inherit rounded-sm px-0.5">
+                      {segment.text}
+                    </mark>
+                  ) : (
+                    <React.Fragment key={index}>{segment.text}</React.Fragment>
+                  )
+                )}
+              </span>
+            </button>
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
+
 const ContextMenuPortal: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   return createPortal(children, document.body);
 };
@@ -73,13 +140,24 @@ export const DrawingCard: React.FC<DrawingCardProps> = ({
   onDelete,
   onMoveToCollection,
   onDuplicate,
+  onRestore,
+  onToggleStar,
+  onSetTemplateScope,
+  canPublishTemplates = false,
   onClick,
   onDragStart,
   onMouseDown,
   onPreviewGenerated,
+  onOpenMatch,
+  tags,
+  onSetTags,
+  onCreateTag,
+  onTagClick,
 }) => {
   const [isRenaming, setIsRenaming] = useState(false);
   const [showMoveSubmenu, setShowMoveSubmenu] = useState(false);
+  const [showTagSubmenu, setShowTagSubmenu] = useState(false);
+  const [newTagName, setNewTagName] = useState('');
   const [showCollectionDropdown, setShowCollectionDropdown] = useState(false);
   const [newName, setNewName] = useState(drawing.name);
   const [previewSvg, setPreviewSvg] = useState<string | null>(drawing.preview ?? null);
@@ -109,11 +187,12 @@ export const DrawingCard: React.FC<DrawingCardProps> = ({
       return fullDataPromiseRef.current;
     }
     const currentDrawingId = drawingIdRef.current;
-    const promise = api.getDrawing(currentDrawingId).then((fullDrawing) => {
+    const promise = api.getDrawing(currentDrawingId).then(async (fullDrawing) => {
       const payload: HydratedDrawingData = {
         elements: fullDrawing.elements || [],
         appState: fullDrawing.appState || {},
-        files: fullDrawing.files || {},
+        // Previews and .excalidraw exports need the image bytes, not stored references.
+        files: await hydrateStoredFiles(fullDrawing.files, currentDrawingId),
       };
       setFullData(payload);
       fullDataPromiseRef.current = null;
@@ -204,6 +283,31 @@ export const DrawingCard: React.FC<DrawingCardProps> = ({
     return () => document.removeEventListener('click', handleClick);
   }, []);
 
+  const assignedTagIds = (drawing.tags ?? []).map(tag => tag.id);
+
+  const toggleTag = (tagId: string) => {
+    if (!onSetTags) return;
+    onSetTags(
+      drawing.id,
+      assignedTagIds.includes(tagId)
+        ? assignedTagIds.filter(id => id !== tagId)
+        : [...assignedTagIds, tagId]
+    );
+  };
+
+  const handleCreateTagSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = newTagName.trim();
+    if (!name || !onCreateTag || !onSetTags) return;
+    const existing = tags?.find(tag => tag.name.toLowerCase() === name.toLowerCase());
+    const tag = existing ?? await onCreateTag(name);
+    if (!tag) return;
+    setNewTagName('');
+    if (!assignedTagIds.includes(tag.id)) {
+      onSetTags(drawing.id, [...assignedTagIds, tag.id]);
+    }
+  };
+
   const handleRenameSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (newName.trim()) {
@@ -259,6 +363,29 @@ export const DrawingCard: React.FC<DrawingCardProps> = ({
             {isSelected && <Check size={14} strokeWidth={3} />}
           </button>
         </div>
+        {onToggleStar ? (
+          <div
+            className={clsx(
+              "absolute top-2 left-2 z-20 transition-opacity duration-200",
+              !drawing.starred && "opacity-0 group-hover:opacity-100"
+            )}
+          >
+            <button
+              onClick={(e) => { e.stopPropagation(); onToggleStar(drawing.id, !drawing.starred); }}
+              data-testid={`star-drawing-${drawing.id}`}
+              aria-pressed={Boolean(drawing.starred)}
+              aria-label={`${drawing.starred ? "Unstar" : "Star"} ${drawing.name}`}
+              className={clsx(
+                "w-6 h-6 rounded-full border-2 flex items-center justify-center transition-all duration-200 shadow-sm bg-white dark:bg-neutral-800",
+                drawing.starred
+                  ? "border-amber-400 text-amber-500"
+                  : "border-slate-300 dark:border-neutral-600 text-slate-400 dark:text-neutral-500 hover:border-amber-400 hover:text-amber-500"
+              )}
+            >
+              <Star size={12} strokeWidth={2.5} fill={drawing.starred ? "currentColor" : "none"} />
+            </button>
+          </div>
+        ) : null}
 
         <div
           onClick={(e) => !isTrash && onClick(drawing.id, e)}
@@ -321,10 +448,30 @@ export const DrawingCard: React.FC<DrawingCardProps> = ({
               {drawing.name}
             </h3>
           )}
+          {drawing.tags && drawing.tags.length > 0 ? (
+            <div className="flex flex-wrap gap-1 mt-1.5" data-testid={`drawing-tags-${drawing.id}`}>
+              {drawing.tags.map((tag) => (
+                <TagChip
+                  key={tag.id}
+                  tag={tag}
+                  onClick={onTagClick ? (e) => { e.stopPropagation(); onTagClick(tag.id); } : undefined}
+                  title={onTagClick ? `Filter by ${tag.name}` : tag.name}
+                />
+              ))}
+            </div>
+          ) : null}
+          {drawing.search && !isTrash ? (
+            <SearchSnippets
+              snippets={drawing.search.snippets}
+              onOpen={(elementId) => onOpenMatch?.(drawing.id, elementId)}
+            />
+          ) : null}
           <div className="flex items-center justify-between mt-2.5 sm:mt-3 relative">
             <p className="text-[10px] sm:text-[11px] font-medium text-slate-400 dark:text-neutral-500 flex items-center gap-1 sm:gap-1.5">
               <Clock size={10} className="sm:w-[11px] sm:h-[11px]" />
-              {formatDistanceToNow(drawing.updatedAt)} ago
+              {drawing.trashedAt
+                ? `Trashed ${formatDistanceToNow(drawing.trashedAt)} ago`
+                : `${formatDistanceToNow(drawing.updatedAt)} ago`}
             </p>
 
             <div className="relative" onClick={e => e.stopPropagation()}>
@@ -458,6 +605,63 @@ export const DrawingCard: React.FC<DrawingCardProps> = ({
                 </div>
               ) : null}
 
+              {tags && onSetTags && !isTrash ? (
+                <div
+                  className="relative"
+                  onMouseEnter={() => setShowTagSubmenu(true)}
+                  onMouseLeave={() => setShowTagSubmenu(false)}
+                >
+                  <button
+                    className="w-full px-3 py-2 text-sm text-left text-slate-600 dark:text-neutral-300 hover:bg-neutral-100 dark:hover:bg-neutral-800 hover:text-neutral-900 dark:hover:text-white flex items-center justify-between"
+                  >
+                    <span className="flex items-center gap-2"><Tags size={14} /> Tags</span>
+                    <ArrowRight size={12} />
+                  </button>
+
+                  {showTagSubmenu && (
+                    <div className="absolute left-full top-0 ml-1 w-48 bg-white dark:bg-neutral-900 rounded-lg border-2 border-black dark:border-neutral-700 shadow-[2px_2px_0px_0px_rgba(0,0,0,1)] dark:shadow-[2px_2px_0px_0px_rgba(255,255,255,0.2)] py-1 max-h-64 overflow-y-auto">
+                      {tags.map(tag => {
+                        const isApplied = assignedTagIds.includes(tag.id);
+                        return (
+                          <button
+                            key={tag.id}
+                            onClick={() => toggleTag(tag.id)}
+                            className={clsx(
+                              "w-full px-3 py-1.5 text-xs text-left flex items-center justify-between gap-2 hover:bg-neutral-100 dark:hover:bg-neutral-800",
+                              isApplied ? "text-neutral-900 dark:text-white font-medium" : "text-slate-600 dark:text-neutral-400"
+                            )}
+                          >
+                            <span className="flex items-center gap-2 min-w-0">
+                              <span className="w-2 h-2 rounded-full flex-shrink-0" style={{ backgroundColor: tag.color || '#64748b' }} />
+                              <span className="truncate">{tag.name}</span>
+                            </span>
+                            {isApplied && <Check size={10} />}
+                          </button>
+                        );
+                      })}
+                      {onCreateTag ? (
+                        <form
+                          onSubmit={handleCreateTagSubmit}
+                          className={clsx("px-2 pb-1", tags.length > 0 && "pt-1 mt-1 border-t border-slate-50 dark:border-slate-700")}
+                        >
+                          <div className="flex items-center gap-1.5 px-1 text-xs text-slate-500 dark:text-neutral-400">
+                            <Plus size={12} className="flex-shrink-0" />
+                            <input
+                              type="text"
+                              value={newTagName}
+                              maxLength={50}
+                              onChange={(e) => setNewTagName(e.target.value)}
+                              placeholder="New tag"
+                              className="w-full py-1 bg-transparent text-xs text-slate-700 dark:text-neutral-200 placeholder:text-slate-400 focus:outline-none"
+                            />
+                          </div>
+                        </form>
+                      ) : null}
+                    </div>
+                  )}
+                </div>
+              ) : null}
+
               {!isShared ? (
                 <>
                   <div className="border-t border-slate-50 dark:border-slate-700 my-1"></div>
@@ -470,6 +674,30 @@ export const DrawingCard: React.FC<DrawingCardProps> = ({
                   >
                     <Copy size={14} /> Duplicate
                   </button>
+                  {onSetTemplateScope ? (
+                    <>
+                      <button
+                        onClick={() => {
+                          onSetTemplateScope(drawing.id, drawing.templateScope ? null : 'personal');
+                          setContextMenu(null);
+                        }}
+                        className="w-full px-3 py-2 text-sm text-left text-slate-600 dark:text-neutral-300 hover:bg-neutral-100 dark:hover:bg-neutral-800 hover:text-neutral-900 dark:hover:text-white flex items-center gap-2"
+                      >
+                        <LayoutTemplate size={14} /> {drawing.templateScope ? 'Remove from templates' : 'Save as template'}
+                      </button>
+                      {canPublishTemplates && drawing.templateScope !== 'global' ? (
+                        <button
+                          onClick={() => {
+                            onSetTemplateScope(drawing.id, 'global');
+                            setContextMenu(null);
+                          }}
+                          className="w-full px-3 py-2 text-sm text-left text-slate-600 dark:text-neutral-300 hover:bg-neutral-100 dark:hover:bg-neutral-800 hover:text-neutral-900 dark:hover:text-white flex items-center gap-2"
+                        >
+                          <Globe size={14} /> Publish template for everyone
+                        </button>
+                      ) : null}
+                    </>
+                  ) : null}
                 </>
               ) : null}
 
@@ -491,6 +719,18 @@ export const DrawingCard: React.FC<DrawingCardProps> = ({
                 </div>
               )}
 
+              {onRestore ? (
+                <button
+                  onClick={() => {
+                    onRestore(drawing.id);
+                    setContextMenu(null);
+                  }}
+                  className="w-full px-3 py-2 text-sm text-left text-slate-600 dark:text-neutral-300 hover:bg-neutral-100 dark:hover:bg-neutral-800 hover:text-neutral-900 dark:hover:text-white flex items-center gap-2"
+                >
+                  <RotateCcw size={14} /> Restore
+                </button>
+              ) : null}
+
               {!isShared ? (
                 <>
                   <div className="border-t border-slate-50 dark:border-slate-700 my-1"></div>
@@ -0,0 +1,214 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import clsx from 'clsx';
+import { formatDistanceToNow } from 'date-fns';
+import { Diff, History, Loader2, RotateCcw, X } from 'lucide-react';
+import { exportToSvg } from '@excalidraw/excalidraw';
+import * as api from '../api';
+import { hydrateStoredFiles } from '../utils/drawingFiles';
+import type { DrawingRevisionSummary } from '../types';
+
+type Props = {
+  drawingId: string;
+  isOpen: boolean;
+  canRestore: boolean;
+  onClose: () => void;
+  onRestore: (version: number) => Promise<void>;
+  onCompare: (version: number) => Promise<void>;
+};
+
+export const HistoryPanel: React.FC<Props> = ({
+  drawingId,
+  isOpen,
+  canRestore,
+  onClose,
+  onRestore,
+  onCompare,
+}) => {
+  const [revisions, setRevisions] = useState<DrawingRevisionSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedVersion, setSelectedVersion] = useState<number | null>(null);
+  const [previewSvg, setPreviewSvg] = useState<string | null>(null);
+  const [isPreviewLoading, setIsPreviewLoading] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [isComparing, setIsComparing] = useState(false);
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setRevisions(await api.getDrawingRevisions(drawingId));
+    } catch {
+      setError("Failed to load version history");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [drawingId]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setSelectedVersion(null);
+    setPreviewSvg(null);
+    void refresh();
+  }, [isOpen, refresh]);
+
+  useEffect(() => {
+    if (selectedVersion === null) return;
+    let cancelled = false;
+    setIsPreviewLoading(true);
+    setPreviewSvg(null);
+
+    const renderPreview = async () => {
+      try {
+        const revision = await api.getDrawingRevision(drawingId, selectedVersion);
+        const svg = await exportToSvg({
+          elements: (revision.elements || []).filter((element: any) => !element?.isDeleted),
+          appState: {
+            ...revision.appState,
+            exportBackground: true,
+            viewBackgroundColor: revision.appState?.viewBackgroundColor || '#ffffff',
+          },
+          files: await hydrateStoredFiles(revision.files, drawingId),
+          exportPadding: 10,
+        });
+        if (!cancelled) setPreviewSvg(svg.outerHTML);
+      } catch (err) {
+        console.error("Failed to render revision preview", err);
+        if (!cancelled) setError("Failed to load this version");
+      } finally {
+        if (!cancelled) setIsPreviewLoading(false);
+      }
+    };
+
+    void renderPreview();
+    return () => {
+      cancelled = true;
+    };
+  }, [drawingId, selectedVersion]);
+
+  const handleRestore = async () => {
+    if (selectedVersion === null || isRestoring) return;
+    setIsRestoring(true);
+    setError(null);
+    try {
+      await onRestore(selectedVersion);
+      setSelectedVersion(null);
+      setPreviewSvg(null);
+      await refresh();
+    } catch {
+      setError("Failed to restore this version");
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  const handleCompare = async () => {
+    if (selectedVersion === null || isComparing) return;
+    setIsComparing(true);
+    setError(null);
+    try {
+      await onCompare(selectedVersion);
+    } catch {
+      setError("Failed to compare with this version");
+    } finally {
+      setIsComparing(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <aside className="fixed top-16 right-0 bottom-0 w-80 z-20 flex flex-col bg-white dark:bg-neutral-900 border-l border-gray-200 dark:border-neutral-800 shadow-xl">
+      <div className="h-12 px-4 flex items-center justify-between border-b border-gray-200 dark:border-neutral-800">
+        <h2 className="flex items-center gap-2 text-sm font-semibold text-gray-900 dark:text-white">
+          <History size={16} /> Version history
+        </h2>
+        <button
+          onClick={onClose}
+          className="p-1.5 hover:bg-gray-100 dark:hover:bg-neutral-800 rounded-lg text-gray-600 dark:text-gray-300 transition-colors"
+          title="Close history"
+        >
+          <X size={16} />
+        </button>
+      </div>
+
+      {error ? (
+        <div className="mx-4 mt-3 px-3 py-2 rounded-lg text-xs font-medium bg-rose-50 dark:bg-rose-900/20 text-rose-600 dark:text-rose-400">
+          {error}
+        </div>
+      ) : null}
+
+      {selectedVersion !== null ? (
+        <div className="p-4 border-b border-gray-200 dark:border-neutral-800 space-y-3">
+          <div className="aspect-[16/10] rounded-lg border border-gray-200 dark:border-neutral-700 bg-slate-50 dark:bg-neutral-800/50 flex items-center justify-center overflow-hidden">
+            {isPreviewLoading ? (
+              <Loader2 size={20} className="animate-spin text-gray-400" />
+            ) : previewSvg ? (
+              <div
+                className="w-full h-full p-2 flex items-center justify-center [&>svg]:w-auto [&>svg]:h-auto [&>svg]:max-w-full [&>svg]:max-h-full"
+                dangerouslySetInnerHTML={{ __html: previewSvg }}
+              />
+            ) : null}
+          </div>
+          <button
+            onClick={handleCompare}
+            disabled={isComparing}
+            className="w-full flex items-center justify-center gap-2 px-3 py-2 rounded-lg border-2 border-black dark:border-neutral-700 bg-white dark:bg-neutral-900 text-gray-900 dark:text-white text-sm font-semibold hover:bg-gray-50 dark:hover:bg-neutral-800 disabled:opacity-50 disabled:cursor-wait transition-colors"
+          >
+            {isComparing ? <Loader2 size={16} className="animate-spin" /> : <Diff size={16} />}
+            Show changes since this version
+          </button>
+          {canRestore ? (
+            <button
+              onClick={handleRestore}
+              disabled={isRestoring || isPreviewLoading}
+              className="w-full flex items-center justify-center gap-2 px-3 py-2 rounded-lg border-2 border-black dark:border-neutral-700 bg-indigo-600 text-white text-sm font-semibold hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-wait transition-colors"
+            >
+              {isRestoring ? <Loader2 size={16} className="animate-spin" /> : <RotateCcw size={16} />}
+              Restore this version
+            </button>
+          ) : null}
+        </div>
+      ) : null}
+
+      <div className="flex-1 overflow-y-auto custom-scrollbar py-2">
+        {isLoading && revisions.length === 0 ? (
+          <div className="flex justify-center py-6">
+            <Loader2 size={20} className="animate-spin text-gray-400" />
+          </div>
+        ) : revisions.length === 0 ? (
+          <p className="px-4 py-6 text-sm text-center text-gray-500 dark:text-gray-400">
+            No earlier versions yet. History is captured as the drawing is saved.
+          </p>
+        ) : (
+          revisions.map((revision, index) => (
+            <button
+              key={revision.id}
+              onClick={() => setSelectedVersion(revision.version)}
+              className={clsx(
+                "w-full text-left px-4 py-2.5 transition-colors",
+                selectedVersion === revision.version
+                  ? "bg-indigo-50 dark:bg-neutral-800"
+                  : "hover:bg-gray-50 dark:hover:bg-neutral-800/60"
+              )}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-sm font-medium text-gray-900 dark:text-white">
+                  {new Date(revision.updatedAt).toLocaleString()}
+                </span>
+                {index === 0 ? (
+                  <span className="text-[10px] font-semibold uppercase tracking-wide text-emerald-600 dark:text-emerald-400">
+                    Latest
+                  </span>
+                ) : null}
+              </div>
+              <div className="mt-0.5 text-xs text-gray-500 dark:text-gray-400 truncate">
+                v{revision.version} · {revision.createdBy?.name ?? "Unknown"} · {formatDistanceToNow(revision.updatedAt)} ago
+              </div>
+            </button>
+          ))
+        )}
+      </div>
+    </aside>
+  );
+};
@@ -18,6 +18,14 @@ vi.mock("./ImpersonationBanner", () => ({
   ImpersonationBanner: () => null,
 }));
 
+vi.mock("./TransferOffersBanner", () => ({
+  TransferOffersBanner: () => null,
+}));
+
+vi.mock("./NotificationBell", () => ({
+  NotificationBell: () => null,
+}));
+
 import { Layout } from "./Layout";
 
 describe("Layout", () => {
@@ -6,28 +6,34 @@ import { Logo } from './Logo';
 import { UploadStatus } from './UploadStatus';
 import { ImpersonationBanner } from './ImpersonationBanner';
 import { UpdateBanner } from './UpdateBanner';
-import type { Collection } from '../types';
+import { TransferOffersBanner } from './TransferOffersBanner';
+import { NotificationBell } from './NotificationBell';
+import type { Collection, SharedCollection } from '../types';
 import clsx from 'clsx';
 
 interface LayoutProps {
   children: React.ReactNode;
   collections: Collection[];
+  sharedCollections?: SharedCollection[];
   selectedCollectionId: string | null | undefined;
   onSelectCollection: (id: string | null | undefined) => void;
-  onCreateCollection: (name: string) => void;
+  onCreateCollection: (name: string, parentId?: string | null) => void;
   onEditCollection: (id: string, name: string) => void;
   onDeleteCollection: (id: string) => void;
+  onMoveCollection?: (id: string, parentId: string | null) => void;
   onDrop?: (e: React.DragEvent, collectionId: string | null) => void;
 }
 
 export const Layout: React.FC<LayoutProps> = ({
   children,
   collections,
+  sharedCollections,
   selectedCollectionId,
   onSelectCollection,
   onCreateCollection,
   onEditCollection,
   onDeleteCollection,
+  onMoveCollection,
   onDrop
 }) => {
   const location = useLocation();
@@ -125,12 +131,16 @@ export const Layout: React.FC<LayoutProps> = ({
                 <span className="text-xl text-slate-900 dark:text-white mt-1" style={{ fontFamily: 'Excalifont' }}>ExcaliDash</span>
                 <span className="text-[10px] font-bold text-red-500 mt-2" style={{ fontFamily: 'sans-serif' }}>BETA</span>
               </div>
+              <div className="ml-3">
+                <NotificationBell />
+              </div>
             </div>
 
             <div className="flex-1 min-w-0 overflow-y-auto no-scrollbar">
               <div className="w-full mx-auto p-4 sm:p-6 lg:p-8 min-h-full">
                 <UpdateBanner />
                 <ImpersonationBanner />
+                <TransferOffersBanner />
                 {children}
               </div>
             </div>
@@ -154,11 +164,13 @@ export const Layout: React.FC<LayoutProps> = ({
           >
             <Sidebar
               collections={collections}
+              sharedCollections={sharedCollections}
               selectedCollectionId={selectedCollectionId}
               onSelectCollection={onSelectCollection}
               onCreateCollection={onCreateCollection}
               onEditCollection={onEditCollection}
               onDeleteCollection={onDeleteCollection}
+              onMoveCollection={onMoveCollection}
               onDrop={onDrop}
             />
 
@@ -180,11 +192,13 @@ export const Layout: React.FC<LayoutProps> = ({
           >
             <Sidebar
               collections={collections}
+              sharedCollections={sharedCollections}
               selectedCollectionId={selectedCollectionId}
               onSelectCollection={onSelectCollection}
               onCreateCollection={onCreateCollection}
               onEditCollection={onEditCollection}
               onDeleteCollection={onDeleteCollection}
+              onMoveCollection={onMoveCollection}
               onDrop={onDrop}
             />
             
@@ -196,10 +210,14 @@ export const Layout: React.FC<LayoutProps> = ({
               <div className="absolute inset-y-0 -left-0.5 -right-0.5 bg-transparent hover:bg-indigo-500/10 dark:hover:bg-indigo-400/10 transition-colors duration-150" />
             </div>
           </aside>
-          <main className="flex-1 min-w-0 bg-white/40 dark:bg-neutral-900/40 backdrop-blur-sm rounded-2xl border border-white/50 dark:border-neutral-800/50 shadow-sm h-full transition-colors duration-200 overflow-y-auto no-scrollbar">
+          <main className="relative flex-1 min-w-0 bg-white/40 dark:bg-neutral-900/40 backdrop-blur-sm rounded-2xl border border-white/50 dark:border-neutral-800/50 shadow-sm h-full transition-colors duration-200 overflow-y-auto no-scrollbar">
+            <div className="absolute top-4 right-4 sm:top-6 sm:right-6 lg:top-8 lg:right-8 z-30">
+              <NotificationBell />
+            </div>
             <div className="w-full mx-auto p-4 sm:p-6 lg:p-8 min-h-full">
               <UpdateBanner />
               <ImpersonationBanner />
+              <TransferOffersBanner />
               {children}
             </div>
           </main>
@@ -0,0 +1,192 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Bell, CheckCheck } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { io } from 'socket.io-client';
+import clsx from 'clsx';
+import * as api from '../api';
+import { useAuth } from '../context/AuthContext';
+import { getSocketUrl } from '../utils/socket';
+import { describeNotification, prependNotification } from '../utils/notifications';
+
+/** Bell with an unread badge; new notifications arrive live over the user's socket room. */
+export const NotificationBell: React.FC = () => {
+  const { user, authEnabled } = useAuth();
+  const navigate = useNavigate();
+  const [notifications, setNotifications] = useState<api.AppNotification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [isOpen, setIsOpen] = useState(false);
+  const popoverRef = useRef<HTMLDivElement>(null);
+  // Ids already counted, so a push that races the initial fetch isn't counted twice.
+  const knownIdsRef = useRef(new Set<string>());
+
+  const enabled = authEnabled && Boolean(user);
+
+  useEffect(() => {
+    setNotifications([]);
+    setUnreadCount(0);
+    knownIdsRef.current = new Set();
+    if (!enabled) return;
+    let cancelled = false;
+    api
+      .getNotifications()
+      .then((result) => {
+        if (cancelled) return;
+        result.notifications.forEach((entry) => knownIdsRef.current.add(entry.id));
+        setNotifications(result.notifications);
+        setUnreadCount(result.unreadCount);
+      })
+      .catch(() => undefined);
+
+    const socket = io(getSocketUrl(), {
+      path: '/socket.io',
+      transports: ['websocket', 'polling'],
+      withCredentials: true,
+    });
+    socket.on('notification', (notification: api.AppNotification) => {
+      if (knownIdsRef.current.has(notification.id)) return;
+      knownIdsRef.current.add(notification.id);
+      setNotifications((prev) => prependNotification(prev, notification));
+      if (!notification.readAt) setUnreadCount((count) => count + 1);
+    });
+
+    return () => {
+      cancelled = true;
+      socket.off('notification');
+      socket.disconnect();
+    };
+  }, [enabled, user?.id]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClickOutside = (event: MouseEvent) => {
+      if (popoverRef.current && !popoverRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [isOpen]);
+
+  if (!enabled) return null;
+
+  const markRead = async (notification: api.AppNotification) => {
+    if (notification.readAt) return;
+    const readAt = new Date().toISOString();
+    setNotifications((prev) => prev.map((entry) => (entry.id === notification.id ? { ...entry, readAt } : entry)));
+    setUnreadCount((count) => Math.max(0, count - 1));
+    try {
+      const result = await api.markNotificationRead(notification.id);
+      setUnreadCount(result.unreadCount);
+    } catch {
+      // The next fetch reconciles the badge.
+    }
+  };
+
+  const markAllRead = async () => {
+    const readAt = new Date().toISOString();
+    setNotifications((prev) => prev.map((entry) => (entry.readAt ? entry : { ...entry, readAt })));
+    setUnreadCount(0);
+    try {
+      await api.markAllNotificationsRead();
+    } catch {
+      // The next fetch reconciles the badge.
+    }
+  };
+
+  const handleSelect = (notification: api.AppNotification) => {
+    void markRead(notification);
+    const { href } = describeNotification(notification);
+    if (href) {
+      setIsOpen(false);
+      navigate(href);
+    }
+  };
+
+  return (
+    <div className="relative" ref={popoverRef}>
+      <button
+        type="button"
+        onClick={() => setIsOpen((open) => !open)}
+        className="relative inline-flex items-center justify-center h-11 w-11 rounded-xl border-2 border-black dark:border-neutral-700 bg-white/90 dark:bg-neutral-900/90 shadow-[2px_2px_0px_0px_rgba(0,0,0,1)] dark:shadow-[2px_2px_0px_0px_rgba(255,255,255,0.2)] text-slate-900 dark:text-neutral-200 hover:-translate-y-0.5 transition-all active:translate-y-0 active:shadow-none"
+        title="Notifications"
+        aria-label={unreadCount > 0 ? `Notifications (${unreadCount} unread)` : 'Notifications'}
+      >
+        <Bell size={20} />
+        {unreadCount > 0 && (
+          <span className="absolute -top-1.5 -right-1.5 min-w-[20px] h-5 px-1 rounded-full bg-rose-500 border-2 border-white dark:border-neutral-900 text-[10px] font-black leading-4 text-white text-center">
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 z-50 w-80 bg-white dark:bg-neutral-900 rounded-xl border-2 border-black dark:border-neutral-700 shadow-[4px_4px_0px_0px_rgba(0,0,0,1)] dark:shadow-[4px_4px_0px_0px_rgba(255,255,255,0.2)] overflow-hidden">
+          <div className="p-3 border-b border-slate-100 dark:border-neutral-800 flex items-center justify-between bg-slate-50 dark:bg-neutral-800/50">
+            <h3 className="font-bold text-sm text-slate-700 dark:text-slate-200">Notifications</h3>
+            {unreadCount > 0 && (
+              <button
+                type="button"
+                onClick={() => void markAllRead()}
+                className="flex items-center gap-1 text-xs text-slate-500 hover:text-slate-800 dark:text-slate-400 dark:hover:text-slate-200 font-medium"
+              >
+                <CheckCheck size={14} />
+                Mark all read
+              </button>
+            )}
+          </div>
+
+          <div className="max-h-96 overflow-y-auto no-scrollbar p-1">
+            {notifications.length === 0 ? (
+              <p className="p-4 text-sm text-center text-slate-500 dark:text-neutral-400">You're all caught up.</p>
+            ) : (
+              notifications.map((notification) => {
+                const { text, href } = describeNotification(notification);
+                return (
+                  <button
+                    key={notification.id}
+                    type="button"
+                    onClick={() => handleSelect(notification)}
+                    className={clsx(
+                      'w-full flex items-start gap-2.5 p-2 rounded-lg text-left transition-colors hover:bg-slate-50 dark:hover:bg-neutral-800',
+                      !href && 'cursor-default'
+                    )}
+                  >
+                    <span
+                      className={clsx(
+                        'mt-1.5 w-2 h-2 flex-shrink-0 rounded-full',
+                        notification.readAt ? 'bg-transparent' : 'bg-indigo-500'
+                      )}
+                    />
+                    <span className="min-w-0 flex-1">
+                      <span
+                        className={clsx(
+                          'block text-sm break-words',
+                          notification.readAt
+                            ? 'text-slate-500 dark:text-neutral-400'
+                            : 'font-medium text-slate-800 dark:text-neutral-100'
+                        )}
+                      >
+                        {text}
+                      </span>
+                      <span className="block mt-0.5 text-[11px] text-slate-400 dark:text-neutral-500">
+                        {formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true })}
+                      </span>
+                    </span>
+                  </button>
+                );
+              })
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,88 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { getElementSceneBox, readSceneViewport, type SceneViewport } from '../pages/editor/shared';
+
+export type RemoteSelection = {
+  userId: string;
+  name: string;
+  color: string;
+  elementIds: string[];
+};
+
+type Props = {
+  selections: RemoteSelection[];
+  getAppState: () => any | null;
+  getElements: () => readonly any[];
+};
+
+type CanvasSnapshot = { viewport: SceneViewport | null; elements: readonly any[] };
+
+const PADDING = 4;
+
+const sameViewport = (a: SceneViewport | null, b: SceneViewport | null) =>
+  a === b || (!!a && !!b && a.scrollX === b.scrollX && a.scrollY === b.scrollY && a.zoom === b.zoom);
+
+/** Outlines what each collaborator has selected, in their presence color. */
+export const RemoteSelections: React.FC<Props> = ({ selections, getAppState, getElements }) => {
+  const [snapshot, setSnapshot] = useState<CanvasSnapshot>(() => ({
+    viewport: readSceneViewport(getAppState()),
+    elements: getElements(),
+  }));
+
+  // Same per-frame tracking as CommentPins so outlines follow elements while they move.
+  useEffect(() => {
+    let frameId = 0;
+    const tick = () => {
+      const viewport = readSceneViewport(getAppState());
+      const elements = getElements();
+      setSnapshot((prev) =>
+        prev.elements === elements && sameViewport(prev.viewport, viewport) ? prev : { viewport, elements }
+      );
+      frameId = requestAnimationFrame(tick);
+    };
+    frameId = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frameId);
+  }, [getAppState, getElements]);
+
+  const elementsById = useMemo(
+    () => new Map(snapshot.elements.map((element) => [element.id as string, element])),
+    [snapshot.elements]
+  );
+
+  const { viewport } = snapshot;
+  if (!viewport) return null;
+
+  return (
+    <div className="absolute inset-0 pointer-events-none z-10 overflow-hidden">
+      {selections.map((selection) =>
+        selection.elementIds.map((elementId, index) => {
+          const element = elementsById.get(elementId);
+          if (!element || element.isDeleted) return null;
+          const box = getElementSceneBox(element);
+          return (
+            <div
+              key={`${selection.userId}:${elementId}`}
+              className="absolute rounded-sm border-2 border-dashed"
+              style={{
+                left: (box.x + viewport.scrollX) * viewport.zoom - PADDING,
+                top: (box.y + viewport.scrollY) * viewport.zoom - PADDING,
+                width: box.width * viewport.zoom + PADDING * 2,
+                height: box.height * viewport.zoom + PADDING * 2,
+                borderColor: selection.color,
+                transform: box.angle ? `rotate(${box.angle}rad)` : undefined,
+              }}
+            >
+              {index === 0 ? (
+                <span
+                  className="absolute bottom-full left-0 mb-0.5 px-1.5 py-0.5 rounded text-[10px] font-bold text-white whitespace-nowrap"
+                  style={{ backgroundColor: selection.color }}
+                >
+                  {selection.name}
+                </span>
+              ) : null}
+            </div>
+          );
+        })
+      )}
+    </div>
+  );
+};
@@ -13,6 +13,7 @@ import {
   Check,
   RefreshCw,
   Search,
+  Users,
 } from "lucide-react";
 import * as api from "../api";
 import { useAuth } from "../context/AuthContext";
@@ -58,7 +59,7 @@ const calculateExpiresAt = (option: string, customDate?: string): string | undef
   return now.toISOString();
 };
 
-const CustomSelect: React.FC<{
+export const CustomSelect: React.FC<{
   value: string;
   onChange: (value: string) => void;
   options: { label: string; value: string; danger?: boolean }[];
@@ -148,11 +149,14 @@ export const ShareModal: React.FC<Props> = ({ drawingId, drawingName, isOpen, on
   const [error, setError] = useState<string | null>(null);
   const [sharing, setSharing] = useState<{
     permissions: api.DrawingPermissionRow[];
+    groupPermissions: api.DrawingGroupPermissionRow[];
     linkShares: api.DrawingLinkShareRow[];
+    transfer: api.PendingDrawingTransfer | null;
   } | null>(null);
 
   const [userQuery, setUserQuery] = useState("");
   const [userResults, setUserResults] = useState<api.ShareResolvedUser[]>([]);
+  const [groupResults, setGroupResults] = useState<api.ShareResolvedGroup[]>([]);
   const [userPermission, setUserPermission] = useState<"view" | "edit">("view");
 
   const [linkPermission, setLinkPermission] = useState<"view" | "edit">("view");
@@ -212,6 +216,7 @@ export const ShareModal: React.FC<Props> = ({ drawingId, drawingName, isOpen, on
     if (!isOpen) return;
     setUserQuery("");
     setUserResults([]);
+    setGroupResults([]);
     setUserPermission("view");
     setLinkPermission("view");
     setExpiryOption("1d");
@@ -225,16 +230,23 @@ export const ShareModal: React.FC<Props> = ({ drawingId, drawingName, isOpen, on
     const q = userQuery.trim();
     if (q.length < 3) {
       setUserResults([]);
+      setGroupResults([]);
       return;
     }
     let cancelled = false;
     const run = async () => {
       try {
-        const users = await api.resolveShareUsers(drawingId, q);
+        const { users, groups } = await api.resolveShareTargets(drawingId, q);
         const filtered = currentUserId ? users.filter((u) => u.id !== currentUserId) : users;
-        if (!cancelled) setUserResults(filtered);
+        if (!cancelled) {
+          setUserResults(filtered);
+          setGroupResults(groups);
+        }
       } catch {
-        if (!cancelled) setUserResults([]);
+        if (!cancelled) {
+          setUserResults([]);
+          setGroupResults([]);
+        }
       }
     };
     const t = window.setTimeout(run, 250);
@@ -275,6 +287,7 @@ export const ShareModal: React.FC<Props> = ({ drawingId, drawingName, isOpen, on
       await refresh();
       setUserQuery("");
       setUserResults([]);
+      setGroupResults([]);
     } catch (err: unknown) {
       let message = "Failed to share with user";
       if (api.isAxiosError(err)) {
@@ -287,6 +300,27 @@ export const ShareModal: React.FC<Props> = ({ drawingId, drawingName, isOpen, on
     }
   };
 
+  const handleUpsertGroup = async (groupId: string, permission: "view" | "edit") => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      await api.upsertDrawingGroupPermission(drawingId, { granteeGroupId: groupId, permission });
+      await refresh();
+      setUserQuery("");
+      setUserResults([]);
+      setGroupResults([]);
+    } catch (err: unknown) {
+      let message = "Failed to share with group";
+      if (api.isAxiosError(err)) {
+        const serverMessage = typeof err.response?.data?.message === "string" ? err.response.data.message : null;
+        if (serverMessage) message = serverMessage;
+      }
+      setError(message);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   const handleRevokeUser = async (permissionId: string) => {
     setIsLoading(true);
     setError(null);
@@ -300,6 +334,38 @@ export const ShareModal: React.FC<Props> = ({ drawingId, drawingName, isOpen, on
     }
   };
 
+  // Offers are reversible until accepted, so no extra confirmation step.
+  const handleOfferTransfer = async (granteeUserId: string) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      await api.offerDrawingTransfer(drawingId, granteeUserId);
+      await refresh();
+    } catch (err: unknown) {
+      let message = "Failed to offer ownership";
+      if (api.isAxiosError(err)) {
+        const serverMessage = typeof err.response?.data?.message === "string" ? err.response.data.message : null;
+        if (serverMessage) message = serverMessage;
+      }
+      setError(message);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleCancelTransfer = async (transferId: string) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      await api.dismissOwnershipTransfer(transferId);
+      await refresh();
+    } catch {
+      setError("Failed to cancel the ownership transfer");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   const handleUpdateLink = async (newPermission?: "view" | "edit", newExpiry?: string) => {
     setIsLoading(true);
     setError(null);
@@ -348,6 +414,7 @@ export const ShareModal: React.FC<Props> = ({ drawingId, drawingName, isOpen, on
   if (!isOpen) return null;
 
   const currentLinkUrl = activeLink ? shareableEditorUrl : "";
+  const pendingTransfer = sharing?.transfer ?? null;
 
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
@@ -382,13 +449,31 @@ export const ShareModal: React.FC<Props> = ({ drawingId, drawingName, isOpen, on
               <input
                 value={userQuery}
                 onChange={(e) => setUserQuery(e.target.value)}
-                placeholder="Add people"
+                placeholder="Add people or groups"
                 className="w-full pl-12 pr-4 py-4 rounded-xl border-2 border-black dark:border-neutral-700 bg-slate-50 dark:bg-neutral-800 text-slate-900 dark:text-neutral-100 focus:outline-none focus:ring-0 focus:border-indigo-600 dark:focus:border-indigo-500 transition-all font-bold placeholder:text-slate-400 shadow-[2px_2px_0px_0px_rgba(0,0,0,1)] dark:shadow-[2px_2px_0px_0px_rgba(255,255,255,0.05)]"
               />
             </div>
 
-            {userResults.length > 0 && (
+            {(userResults.length > 0 || groupResults.length > 0) && (
               <div className="absolute top-full left-0 right-0 mt-3 border-2 border-black dark:border-neutral-700 rounded-xl bg-white dark:bg-neutral-900 shadow-[8px_8px_0px_0px_rgba(0,0,0,1)] dark:shadow-[8px_8px_0px_0px_rgba(255,255,255,0.1)] overflow-hidden z-[200] animate-in fade-in slide-in-from-top-2">
+                {groupResults.map((g) => (
+                  <button
+                    key={g.id}
+                    onClick={() => handleUpsertGroup(g.id, userPermission)}
+                    className="w-full text-left px-5 py-4 flex items-center gap-4 hover:bg-indigo-50 dark:hover:bg-indigo-900/20 transition-colors group border-b last:border-b-0 border-slate-100 dark:border-neutral-800"
+                  >
+                    <div className="w-10 h-10 rounded-xl bg-amber-100 dark:bg-amber-900/40 flex items-center justify-center text-amber-700 dark:text-amber-300 border-2 border-black dark:border-neutral-600">
+                      <Users size={18} strokeWidth={2.5} />
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <div className="text-base font-black text-slate-900 dark:text-neutral-100 truncate">{g.name}</div>
+                      <div className="text-xs font-bold text-slate-500 dark:text-neutral-400 truncate">
+                        Group · {g.memberCount} {g.memberCount === 1 ? "member" : "members"}
+                      </div>
+                    </div>
+                    <Plus size={20} className="text-slate-400 group-hover:text-indigo-600 transition-colors" strokeWidth={3} />
+                  </button>
+                ))}
                 {userResults.map((u) => (
                   <button
                     key={u.id}
@@ -441,11 +526,58 @@ export const ShareModal: React.FC<Props> = ({ drawingId, drawingName, isOpen, on
                       onChange={async (val) => {
                         if (val === "remove") {
                           await handleRevokeUser(p.id);
+                        } else if (val === "transfer") {
+                          await handleOfferTransfer(p.granteeUserId);
                         } else {
                           await api.upsertDrawingPermission(drawingId, { granteeUserId: p.granteeUserId, permission: val as any });
                           void refresh();
                         }
                       }}
+                      options={[
+                        { label: "Viewer", value: "view" },
+                        { label: "Editor", value: "edit" },
+                        { label: "Transfer ownership", value: "transfer" },
+                        { label: "Remove access", value: "remove", danger: true },
+                      ]}
+                      align="right"
+                    />
+                  </div>
+                </div>
+              ))}
+
+              {pendingTransfer && (
+                <div className="flex items-center gap-3 px-4 py-3 rounded-xl bg-indigo-50 dark:bg-indigo-900/20 border-2 border-indigo-600 dark:border-indigo-500">
+                  <div className="flex-1 min-w-0 text-sm font-bold text-indigo-900 dark:text-indigo-200">
+                    Waiting for {pendingTransfer.toUser.name} to accept ownership. You will keep edit access.
+                  </div>
+                  <button
+                    onClick={() => void handleCancelTransfer(pendingTransfer.id)}
+                    className="shrink-0 px-3 py-1.5 rounded-lg border-2 border-black dark:border-neutral-600 bg-white dark:bg-neutral-900 text-xs font-black uppercase tracking-widest text-slate-700 dark:text-neutral-200 hover:-translate-y-0.5 transition-all"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              )}
+
+              {(sharing?.groupPermissions || []).map((p) => (
+                <div key={p.id} className="flex items-center gap-4 px-1 py-3 min-h-[64px] group">
+                  <div className="w-11 h-11 rounded-xl bg-amber-50 dark:bg-amber-900/20 flex items-center justify-center text-amber-600 dark:text-amber-400 border-2 border-amber-600 dark:border-amber-500 shrink-0">
+                    <Users size={20} strokeWidth={2.5} />
+                  </div>
+                  <div className="flex-1 min-w-0 flex flex-col justify-center">
+                    <div className="text-base font-black text-slate-900 dark:text-neutral-100 leading-tight truncate">{p.group.name}</div>
+                    <div className="text-sm font-bold text-slate-500 dark:text-neutral-400 mt-0.5 truncate">Group</div>
+                  </div>
+                  <div className="shrink-0 flex items-center h-full">
+                    <CustomSelect
+                      value={p.permission}
+                      onChange={async (val) => {
+                        if (val === "remove") {
+                          await handleRevokeUser(p.id);
+                        } else {
+                          await handleUpsertGroup(p.groupId, val as "view" | "edit");
+                        }
+                      }}
                       options={[
                         { label: "Viewer", value: "view" },
                         { label: "Editor", value: "edit" },
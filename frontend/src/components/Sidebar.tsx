@@ -1,20 +1,29 @@
 import React, { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { LayoutGrid, Folder, Plus, Trash2, Edit2, Archive, FolderOpen, Settings as SettingsIcon, User, LogOut, Shield } from 'lucide-react';
-import type { Collection } from '../types';
+import { LayoutGrid, Folder, Plus, Trash2, Edit2, Archive, FolderOpen, FolderPlus, ChevronRight, Settings as SettingsIcon, User, LogOut, Shield, Users, Star } from 'lucide-react';
+import type { Collection, SharedCollection } from '../types';
 import clsx from 'clsx';
 import { ConfirmModal } from './ConfirmModal';
 import { Logo } from './Logo';
 import { useAuth } from '../context/AuthContext';
 import { getInitialsFromName } from '../utils/user';
+import { buildCollectionTree, getCollectionSubtreeIds, type CollectionTreeNode } from '../utils/collectionTree';
+import { toSharedCollectionViewId } from '../utils/sharedCollections';
+import { CollectionShareModal } from './CollectionShareModal';
+
+// Drawings are dragged with a `drawingId` payload; collections use their own type so drops can tell them apart.
+const COLLECTION_DRAG_TYPE = 'application/x-excalidash-collection';
 
 interface SidebarProps {
   collections: Collection[];
+  /** Collections other users shared with the current user. */
+  sharedCollections?: SharedCollection[];
   selectedCollectionId: string | null | undefined;
   onSelectCollection: (id: string | null | undefined) => void;
-  onCreateCollection: (name: string) => void;
+  onCreateCollection: (name: string, parentId?: string | null) => void;
   onEditCollection: (id: string, name: string) => void;
   onDeleteCollection: (id: string) => void;
+  onMoveCollection?: (id: string, parentId: string | null) => void;
   onDrop?: (e: React.DragEvent, collectionId: string | null) => void;
 }
 
@@ -33,6 +42,11 @@ interface SidebarItemProps {
   onEditSubmit?: (e: React.FormEvent) => void;
   onEditBlur?: () => void;
   onDrop?: (e: React.DragEvent, collectionId: string | null) => void;
+  depth?: number;
+  isExpanded?: boolean;
+  onToggleExpand?: () => void;
+  onCollectionDragStart?: (e: React.DragEvent) => void;
+  onCollectionDrop?: (draggedCollectionId: string) => void;
 }
 
 const SidebarItem: React.FC<SidebarItemProps> = ({
@@ -49,12 +63,17 @@ const SidebarItem: React.FC<SidebarItemProps> = ({
   onEditChange,
   onEditSubmit,
   onEditBlur,
-  onDrop
+  onDrop,
+  depth = 0,
+  isExpanded,
+  onToggleExpand,
+  onCollectionDragStart,
+  onCollectionDrop
 }) => {
   const [isDragOver, setIsDragOver] = useState(false);
 
   return (
-    <div className="relative group/item pl-3 pr-2">
+    <div className="relative group/item pl-3 pr-2" style={depth > 0 ? { paddingLeft: 12 + depth * 14 } : undefined}>
       {isEditing ? (
         <form onSubmit={onEditSubmit} className="py-1">
           <input
@@ -79,6 +98,8 @@ const SidebarItem: React.FC<SidebarItemProps> = ({
           }}
           onDoubleClick={onDoubleClick}
           onContextMenu={onContextMenu}
+          draggable={Boolean(onCollectionDragStart)}
+          onDragStart={onCollectionDragStart}
           onDragOver={(e) => {
             e.preventDefault();
             setIsDragOver(true);
@@ -87,6 +108,12 @@ const SidebarItem: React.FC<SidebarItemProps> = ({
           onDrop={(e) => {
             e.preventDefault();
             setIsDragOver(false);
+            const draggedCollectionId = e.dataTransfer.getData(COLLECTION_DRAG_TYPE);
+            if (draggedCollectionId) {
+              e.stopPropagation();
+              onCollectionDrop?.(draggedCollectionId);
+              return;
+            }
             onDrop?.(e, id);
           }}
           className={clsx(
@@ -96,6 +123,22 @@ const SidebarItem: React.FC<SidebarItemProps> = ({
               : "text-slate-600 dark:text-neutral-400 border-transparent hover:bg-slate-50 dark:hover:bg-neutral-800 hover:border-black dark:hover:border-neutral-700 hover:shadow-[2px_2px_0px_0px_rgba(0,0,0,1)] dark:hover:shadow-[2px_2px_0px_0px_rgba(255,255,255,0.2)] hover:-translate-y-0.5"
           )}
         >
+          {onToggleExpand ? (
+            <button
+              type="button"
+              onClick={(e) => {
+                e.stopPropagation();
+                onToggleExpand();
+              }}
+              className="-mr-2 -ml-1 p-0.5 rounded text-slate-400 dark:text-neutral-500 hover:text-slate-900 dark:hover:text-neutral-200"
+              aria-label={isExpanded ? `Collapse ${label}` : `Expand ${label}`}
+              aria-expanded={isExpanded}
+            >
+              <ChevronRight size={12} className={clsx("transition-transform duration-150", isExpanded && "rotate-90")} />
+            </button>
+          ) : depth > 0 || isExpanded !== undefined ? (
+            <span className="-mr-2 -ml-1 w-4 flex-shrink-0" aria-hidden="true" />
+          ) : null}
           <span className={clsx("transition-colors duration-200", isActive || isDragOver ? "text-indigo-900 dark:text-neutral-200" : "text-slate-400 dark:text-neutral-500 group-hover:text-slate-900 dark:group-hover:text-neutral-200")}>
             {icon}
           </span>
@@ -118,7 +161,9 @@ export const Sidebar: React.FC<SidebarProps> = ({
   onCreateCollection,
   onEditCollection,
   onDeleteCollection,
-  onDrop
+  onMoveCollection,
+  onDrop,
+  sharedCollections = []
 }) => {
   const navigate = useNavigate();
   const { logout, user, authEnabled } = useAuth();
@@ -130,6 +175,15 @@ export const Sidebar: React.FC<SidebarProps> = ({
   const [contextMenu, setContextMenu] = useState<{ x: number; y: number; type: 'item' | 'background'; id?: string } | null>(null);
   const [collectionToDelete, setCollectionToDelete] = useState<string | null>(null);
   const [isTrashDragOver, setIsTrashDragOver] = useState(false);
+  const [creatingParentId, setCreatingParentId] = useState<string | null>(null);
+  const [collapsedIds, setCollapsedIds] = useState<Set<string>>(new Set());
+  const [isRootDragOver, setIsRootDragOver] = useState(false);
+  const [sharingCollection, setSharingCollection] = useState<Collection | null>(null);
+
+  const collectionTree = React.useMemo(
+    () => buildCollectionTree(collections.filter(c => c.name !== 'Trash')),
+    [collections]
+  );
 
   useEffect(() => {
     const handleClickOutside = () => setContextMenu(null);
@@ -140,12 +194,43 @@ export const Sidebar: React.FC<SidebarProps> = ({
   const handleCreateSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (newCollectionName.trim()) {
-      onCreateCollection(newCollectionName);
+      onCreateCollection(newCollectionName, creatingParentId);
       setNewCollectionName('');
       setIsCreating(false);
+      setCreatingParentId(null);
+    }
+  };
+
+  const startCreating = (parentId: string | null) => {
+    setCreatingParentId(parentId);
+    setIsCreating(true);
+    if (parentId) {
+      setCollapsedIds(prev => {
+        const next = new Set(prev);
+        next.delete(parentId);
+        return next;
+      });
     }
   };
 
+  const toggleExpanded = (id: string) => {
+    setCollapsedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const handleMoveCollection = (draggedId: string, parentId: string | null) => {
+    if (!onMoveCollection) return;
+    const dragged = collections.find(c => c.id === draggedId);
+    if (!dragged || (dragged.parentId ?? null) === parentId) return;
+    // The server rejects cycles too; skip the request when the drop target is obviously invalid.
+    if (parentId && getCollectionSubtreeIds(collections, draggedId).has(parentId)) return;
+    onMoveCollection(draggedId, parentId);
+  };
+
   const handleEditSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (editingId && editName.trim()) {
@@ -154,6 +239,72 @@ export const Sidebar: React.FC<SidebarProps> = ({
     }
   };
 
+  const renderCreateForm = (depth: number) => (
+    <form
+      onSubmit={handleCreateSubmit}
+      className="mb-2 px-4"
+      style={depth > 0 ? { paddingLeft: 16 + depth * 14 } : undefined}
+      onClick={e => e.stopPropagation()}
+    >
+      <input
+        autoFocus
+        type="text"
+        value={newCollectionName}
+        onChange={(e) => setNewCollectionName(e.target.value)}
+        placeholder={depth > 0 ? "New Subcollection..." : "New Collection..."}
+        className="w-full px-3 py-2 text-sm bg-white dark:bg-neutral-800 border-2 border-black dark:border-neutral-700 rounded-lg shadow-[2px_2px_0px_0px_rgba(0,0,0,1)] dark:shadow-[2px_2px_0px_0px_rgba(255,255,255,0.2)] outline-none placeholder:text-slate-400 dark:placeholder:text-neutral-500 font-bold text-slate-900 dark:text-white"
+        onBlur={() => {
+          if (!newCollectionName) {
+            setIsCreating(false);
+            setCreatingParentId(null);
+          }
+        }}
+      />
+    </form>
+  );
+
+  const renderCollectionNode = (node: CollectionTreeNode): React.ReactNode => {
+    const { collection, depth, children } = node;
+    const hasChildren = children.length > 0;
+    const isExpanded = !collapsedIds.has(collection.id);
+    return (
+      <React.Fragment key={collection.id}>
+        <SidebarItem
+          id={collection.id}
+          icon={selectedCollectionId === collection.id ? <FolderOpen size={18} /> : <Folder size={18} />}
+          label={collection.name}
+          isActive={selectedCollectionId === collection.id}
+          onClick={() => onSelectCollection(collection.id)}
+          onDoubleClick={() => {
+            setEditingId(collection.id);
+            setEditName(collection.name);
+          }}
+          onContextMenu={(e) => handleItemContextMenu(e, collection.id)}
+          isEditing={editingId === collection.id}
+          editValue={editName}
+          onEditChange={setEditName}
+          onEditSubmit={handleEditSubmit}
+          onEditBlur={() => setEditingId(null)}
+          onDrop={onDrop}
+          depth={depth}
+          isExpanded={hasChildren ? isExpanded : undefined}
+          onToggleExpand={hasChildren ? () => toggleExpanded(collection.id) : undefined}
+          onCollectionDragStart={
+            onMoveCollection
+              ? (e) => {
+                  e.dataTransfer.setData(COLLECTION_DRAG_TYPE, collection.id);
+                  e.dataTransfer.effectAllowed = 'move';
+                }
+              : undefined
+          }
+          onCollectionDrop={(draggedId) => handleMoveCollection(draggedId, collection.id)}
+        />
+        {isCreating && creatingParentId === collection.id && renderCreateForm(depth + 1)}
+        {hasChildren && isExpanded && children.map(renderCollectionNode)}
+      </React.Fragment>
+    );
+  };
+
   const handleItemContextMenu = (e: React.MouseEvent, id: string) => {
     e.preventDefault();
     e.stopPropagation();
@@ -199,6 +350,14 @@ export const Sidebar: React.FC<SidebarProps> = ({
               </button>
             </div>
 
+            <SidebarItem
+              id={"starred"}
+              icon={<Star size={18} />}
+              label="Starred"
+              isActive={selectedCollectionId === "starred"}
+              onClick={() => onSelectCollection("starred")}
+            />
+
             <SidebarItem
               id={"shared"}
               icon={<Shield size={18} />}
@@ -218,10 +377,29 @@ export const Sidebar: React.FC<SidebarProps> = ({
           </div>
 
           <div className="space-y-1">
-            <div className="flex items-center justify-between px-6 pb-2 group/header">
+            <div
+              className={clsx(
+                "flex items-center justify-between px-6 pb-2 group/header rounded-lg transition-colors",
+                isRootDragOver && "bg-indigo-50 dark:bg-neutral-800"
+              )}
+              onDragOver={(e) => {
+                if (!onMoveCollection || !e.dataTransfer.types.includes(COLLECTION_DRAG_TYPE)) return;
+                e.preventDefault();
+                setIsRootDragOver(true);
+              }}
+              onDragLeave={() => setIsRootDragOver(false)}
+              onDrop={(e) => {
+                setIsRootDragOver(false);
+                const draggedCollectionId = e.dataTransfer.getData(COLLECTION_DRAG_TYPE);
+                if (!draggedCollectionId) return;
+                e.preventDefault();
+                handleMoveCollection(draggedCollectionId, null);
+              }}
+              title={onMoveCollection ? "Drop a collection here to move it to the top level" : undefined}
+            >
               <span className="text-[11px] font-bold text-slate-400 dark:text-neutral-500 uppercase tracking-wider">Collections</span>
               <button
-                onClick={(e) => { e.stopPropagation(); setIsCreating(true); }}
+                onClick={(e) => { e.stopPropagation(); startCreating(null); }}
                 className="p-1 text-slate-400 dark:text-neutral-500 hover:text-indigo-600 dark:hover:text-neutral-200 hover:bg-indigo-50 dark:hover:bg-neutral-800 rounded-md transition-all opacity-0 group-hover/header:opacity-100"
                 title="New Collection"
               >
@@ -229,42 +407,38 @@ export const Sidebar: React.FC<SidebarProps> = ({
               </button>
             </div>
 
-            {isCreating && (
-              <form onSubmit={handleCreateSubmit} className="mb-2 px-4" onClick={e => e.stopPropagation()}>
-                <input
-                  autoFocus
-                  type="text"
-                  value={newCollectionName}
-                  onChange={(e) => setNewCollectionName(e.target.value)}
-                  placeholder="New Collection..."
-                  className="w-full px-3 py-2 text-sm bg-white dark:bg-neutral-800 border-2 border-black dark:border-neutral-700 rounded-lg shadow-[2px_2px_0px_0px_rgba(0,0,0,1)] dark:shadow-[2px_2px_0px_0px_rgba(255,255,255,0.2)] outline-none placeholder:text-slate-400 dark:placeholder:text-neutral-500 font-bold text-slate-900 dark:text-white"
-                  onBlur={() => !newCollectionName && setIsCreating(false)}
-                />
-              </form>
-            )}
-
-            {collections.filter(c => c.name !== 'Trash').map((collection) => (
-              <SidebarItem
-                key={collection.id}
-                id={collection.id}
-                icon={selectedCollectionId === collection.id ? <FolderOpen size={18} /> : <Folder size={18} />}
-                label={collection.name}
-                isActive={selectedCollectionId === collection.id}
-                onClick={() => onSelectCollection(collection.id)}
-                onDoubleClick={() => {
-                  setEditingId(collection.id);
-                  setEditName(collection.name);
-                }}
-                onContextMenu={(e) => handleItemContextMenu(e, collection.id)}
-                isEditing={editingId === collection.id}
-                editValue={editName}
-                onEditChange={setEditName}
-                onEditSubmit={handleEditSubmit}
-                onEditBlur={() => setEditingId(null)}
-                onDrop={onDrop}
-              />
-            ))}
+            {isCreating && creatingParentId === null && renderCreateForm(0)}
+            {collectionTree.map(renderCollectionNode)}
           </div>
+
+          {sharedCollections.length > 0 && (
+            <div className="space-y-1">
+              <div className="px-6 pb-2 text-[11px] font-bold text-slate-400 dark:text-neutral-500 uppercase tracking-wider">
+                Shared Collections
+              </div>
+              {sharedCollections.map((collection) => {
+                const viewId = toSharedCollectionViewId(collection.id);
+                return (
+                  <SidebarItem
+                    key={collection.id}
+                    id={viewId}
+                    icon={<Users size={18} />}
+                    label={collection.name}
+                    isActive={selectedCollectionId === viewId}
+                    onClick={() => onSelectCollection(viewId)}
+                    extraAction={
+                      <span
+                        className="text-[10px] font-bold text-slate-400 dark:text-neutral-500 truncate max-w-[80px]"
+                        title={`Shared by ${collection.owner.name} (${collection.accessLevel === 'edit' ? 'can edit' : 'view only'})`}
+                      >
+                        {collection.owner.name}
+                      </span>
+                    }
+                  />
+                );
+              })}
+            </div>
+          )}
         </nav>
 
         <div className="px-3 pt-3 sm:pt-4 pb-3 sm:pb-4 border-t border-slate-200/50 dark:border-slate-700/50 space-y-2">
@@ -391,6 +565,29 @@ export const Sidebar: React.FC<SidebarProps> = ({
                   <Edit2 size={14} /> Rename Collection
                 </button>
 
+                <button
+                  onClick={() => {
+                    startCreating(contextMenu.id!);
+                    setContextMenu(null);
+                  }}
+                  className="w-full px-3 py-2 text-sm text-left text-slate-600 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700 hover:text-indigo-600 dark:hover:text-indigo-400 flex items-center gap-2"
+                >
+                  <FolderPlus size={14} /> New Subcollection
+                </button>
+
+                {authEnabled && (
+                  <button
+                    onClick={() => {
+                      const collection = collections.find(c => c.id === contextMenu.id);
+                      if (collection) setSharingCollection(collection);
+                      setContextMenu(null);
+                    }}
+                    className="w-full px-3 py-2 text-sm text-left text-slate-600 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700 hover:text-indigo-600 dark:hover:text-indigo-400 flex items-center gap-2"
+                  >
+                    <Users size={14} /> Share Collection
+                  </button>
+                )}
+
                 <button
                   onClick={() => {
                     setCollectionToDelete(contextMenu.id!);
@@ -404,7 +601,7 @@ export const Sidebar: React.FC<SidebarProps> = ({
             ) : (
               <button
                 onClick={() => {
-                  setIsCreating(true);
+                  startCreating(null);
                   setContextMenu(null);
                 }}
                 className="w-full px-3 py-2 text-sm text-left text-slate-600 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700 hover:text-indigo-600 dark:hover:text-indigo-400 flex items-center gap-2"
@@ -419,7 +616,7 @@ export const Sidebar: React.FC<SidebarProps> = ({
       <ConfirmModal
         isOpen={!!collectionToDelete}
         title="Delete Collection"
-        message="Are you sure you want to delete this collection? All drawings inside will be moved to Unorganized."
+        message="Are you sure you want to delete this collection? Collections nested inside it are deleted too, and all of their drawings will be moved to Unorganized."
         confirmText="Delete Collection"
         onConfirm={() => {
           if (collectionToDelete) {
@@ -430,6 +627,15 @@ export const Sidebar: React.FC<SidebarProps> = ({
         onCancel={() => setCollectionToDelete(null)}
       />
 
+      {sharingCollection && (
+        <CollectionShareModal
+          collectionId={sharingCollection.id}
+          collectionName={sharingCollection.name}
+          isOpen={true}
+          onClose={() => setSharingCollection(null)}
+        />
+      )}
+
 
     </>
   );
@@ -0,0 +1,40 @@
+import React from 'react';
+import clsx from 'clsx';
+import type { DrawingTagRef } from '../types';
+
+type Props = {
+  tag: DrawingTagRef;
+  active?: boolean;
+  size?: 'sm' | 'md';
+  onClick?: (e: React.MouseEvent) => void;
+  title?: string;
+};
+
+const DEFAULT_TAG_COLOR = '#64748b';
+
+export const TagChip: React.FC<Props> = ({ tag, active = false, size = 'sm', onClick, title }) => {
+  const color = tag.color || DEFAULT_TAG_COLOR;
+  const className = clsx(
+    "inline-flex items-center gap-1 max-w-[140px] rounded-full border font-semibold transition-colors",
+    size === 'sm' ? "px-1.5 py-0.5 text-[10px]" : "px-2.5 py-1 text-xs",
+    active
+      ? "border-black dark:border-neutral-300 bg-slate-900 dark:bg-neutral-100 text-white dark:text-neutral-900"
+      : "border-slate-200 dark:border-neutral-700 bg-white dark:bg-neutral-800 text-slate-600 dark:text-neutral-300",
+    onClick && !active && "hover:border-slate-400 dark:hover:border-neutral-500"
+  );
+  const content = (
+    <>
+      <span className="w-1.5 h-1.5 rounded-full flex-shrink-0" style={{ backgroundColor: color }} />
+      <span className="truncate">{tag.name}</span>
+    </>
+  );
+
+  if (!onClick) {
+    return <span className={className} title={title ?? tag.name}>{content}</span>;
+  }
+  return (
+    <button type="button" onClick={onClick} className={className} title={title ?? tag.name} aria-pressed={active}>
+      {content}
+    </button>
+  );
+};
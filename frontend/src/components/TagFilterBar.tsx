@@ -0,0 +1,73 @@
+import React from 'react';
+import clsx from 'clsx';
+import { Tags, X } from 'lucide-react';
+import type { Tag, TagMatchMode } from '../types';
+import { TagChip } from './TagChip';
+
+type Props = {
+  tags: Tag[];
+  selectedTagIds: string[];
+  mode: TagMatchMode;
+  onToggleTag: (tagId: string) => void;
+  onModeChange: (mode: TagMatchMode) => void;
+  onClear: () => void;
+};
+
+export const TagFilterBar: React.FC<Props> = ({
+  tags,
+  selectedTagIds,
+  mode,
+  onToggleTag,
+  onModeChange,
+  onClear,
+}) => {
+  if (tags.length === 0) return null;
+  const hasSelection = selectedTagIds.length > 0;
+
+  return (
+    <div className="-mt-4 mb-6 flex items-center gap-2 flex-wrap" data-testid="tag-filter-bar">
+      <span className="flex items-center gap-1.5 text-xs font-bold uppercase tracking-wide text-slate-400 dark:text-neutral-500 mr-1">
+        <Tags size={14} /> Tags
+      </span>
+      {tags.map((tag) => (
+        <TagChip
+          key={tag.id}
+          tag={tag}
+          size="md"
+          active={selectedTagIds.includes(tag.id)}
+          onClick={() => onToggleTag(tag.id)}
+          title={`${tag.name} (${tag.drawingCount})`}
+        />
+      ))}
+      {selectedTagIds.length > 1 ? (
+        <div className="flex items-center rounded-lg border-2 border-black dark:border-neutral-700 overflow-hidden text-[11px] font-bold">
+          {(['any', 'all'] as const).map((option) => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => onModeChange(option)}
+              className={clsx(
+                "px-2 py-0.5 transition-colors",
+                mode === option
+                  ? "bg-indigo-600 text-white"
+                  : "bg-white dark:bg-neutral-900 text-slate-600 dark:text-neutral-300 hover:bg-indigo-50 dark:hover:bg-neutral-800"
+              )}
+              title={option === 'any' ? "Show drawings with any selected tag" : "Show drawings with all selected tags"}
+            >
+              {option === 'any' ? 'Any' : 'All'}
+            </button>
+          ))}
+        </div>
+      ) : null}
+      {hasSelection ? (
+        <button
+          type="button"
+          onClick={onClear}
+          className="flex items-center gap-1 text-xs font-medium text-slate-500 dark:text-neutral-400 hover:text-slate-800 dark:hover:text-neutral-200"
+        >
+          <X size={12} /> Clear
+        </button>
+      ) : null}
+    </div>
+  );
+};
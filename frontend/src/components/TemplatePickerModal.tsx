@@ -0,0 +1,127 @@
+import React, { useEffect, useState } from 'react';
+import { createPortal } from 'react-dom';
+import clsx from 'clsx';
+import { FilePlus, Globe, LayoutTemplate, Loader2, X } from 'lucide-react';
+import * as api from '../api';
+import type { DrawingTemplate } from '../types';
+import { previewHasEmbeddedImages } from '../utils/previewSvg';
+
+interface TemplatePickerModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** Called with null for a blank drawing, or the chosen template. */
+  onPick: (template: DrawingTemplate | null) => void;
+}
+
+export const TemplatePickerModal: React.FC<TemplatePickerModalProps> = ({ isOpen, onClose, onPick }) => {
+  const [templates, setTemplates] = useState<DrawingTemplate[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+    api
+      .getTemplates()
+      .then((data) => {
+        if (!cancelled) setTemplates(data);
+      })
+      .catch((err) => {
+        console.error('Failed to load templates:', err);
+        if (!cancelled) setError('Failed to load templates');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const tileClass =
+    "flex flex-col text-left rounded-xl border-2 border-black dark:border-neutral-700 bg-white dark:bg-neutral-900 overflow-hidden shadow-[2px_2px_0px_0px_rgba(0,0,0,1)] dark:shadow-[2px_2px_0px_0px_rgba(255,255,255,0.2)] hover:-translate-y-0.5 hover:shadow-[4px_4px_0px_0px_rgba(0,0,0,1)] dark:hover:shadow-[4px_4px_0px_0px_rgba(255,255,255,0.2)] transition-all";
+
+  return createPortal(
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-neutral-900/20 backdrop-blur-sm" onClick={onClose} />
+
+      <div className="relative w-full max-w-3xl max-h-[85vh] flex flex-col bg-white dark:bg-neutral-900 rounded-2xl border-2 border-black dark:border-neutral-700 shadow-[4px_4px_0px_0px_rgba(0,0,0,1)] dark:shadow-[2px_2px_0px_0px_rgba(255,255,255,0.08)] animate-in fade-in zoom-in-95 duration-200">
+        <div className="px-6 py-4 flex items-center justify-between border-b-2 border-black dark:border-neutral-700">
+          <h3 className="text-xl font-bold text-neutral-900 dark:text-neutral-100 tracking-tight">New drawing</h3>
+          <button
+            onClick={onClose}
+            className="text-neutral-400 hover:text-neutral-900 dark:hover:text-white transition-colors"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto">
+          {error && (
+            <div className="mb-4 text-sm font-bold text-rose-600 dark:text-rose-400">{error}</div>
+          )}
+          <div className="grid grid-cols-2 sm:grid-cols-3 gap-4">
+            <button onClick={() => onPick(null)} className={tileClass}>
+              <div className="aspect-[4/3] flex items-center justify-center bg-slate-50 dark:bg-neutral-800 text-indigo-600 dark:text-indigo-400">
+                <FilePlus size={36} strokeWidth={1.5} />
+              </div>
+              <div className="px-3 py-2 border-t-2 border-black dark:border-neutral-700">
+                <div className="text-sm font-bold text-slate-900 dark:text-white">Blank drawing</div>
+                <div className="text-xs text-slate-500 dark:text-neutral-400">Start from an empty canvas</div>
+              </div>
+            </button>
+
+            {templates.map((template) => (
+              <button key={template.id} onClick={() => onPick(template)} className={tileClass}>
+                <div className="aspect-[4/3] flex items-center justify-center bg-slate-50 dark:bg-neutral-800 text-neutral-300 dark:text-neutral-500">
+                  {template.preview ? (
+                    <div
+                      className={clsx(
+                        "w-full h-full p-3 flex items-center justify-center [&>svg]:w-auto [&>svg]:h-auto [&>svg]:max-w-full [&>svg]:max-h-full",
+                        !previewHasEmbeddedImages(template.preview) && "dark:[&>svg]:invert dark:[&>svg_rect[fill='white']]:opacity-0 dark:[&>svg_rect[fill='#ffffff']]:opacity-0"
+                      )}
+                      dangerouslySetInnerHTML={{ __html: template.preview }}
+                    />
+                  ) : (
+                    <LayoutTemplate size={36} strokeWidth={1.5} />
+                  )}
+                </div>
+                <div className="px-3 py-2 border-t-2 border-black dark:border-neutral-700 min-w-0">
+                  <div className="text-sm font-bold text-slate-900 dark:text-white truncate" title={template.name}>
+                    {template.name}
+                  </div>
+                  <div className="flex items-center gap-1 text-xs text-slate-500 dark:text-neutral-400 truncate">
+                    {template.scope === 'global' ? (
+                      <>
+                        <Globe size={12} className="flex-shrink-0" />
+                        {template.isOwner ? 'Shared template' : `Shared by ${template.owner.name}`}
+                      </>
+                    ) : (
+                      'Your template'
+                    )}
+                  </div>
+                </div>
+              </button>
+            ))}
+          </div>
+
+          {isLoading && (
+            <div className="mt-4 flex items-center gap-2 text-sm text-slate-500 dark:text-neutral-400">
+              <Loader2 size={16} className="animate-spin" /> Loading templates…
+            </div>
+          )}
+          {!isLoading && !error && templates.length === 0 && (
+            <p className="mt-4 text-sm text-slate-500 dark:text-neutral-400">
+              No templates yet. Use "Save as template" on a drawing's menu to add one.
+            </p>
+          )}
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+};
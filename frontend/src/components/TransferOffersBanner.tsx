@@ -0,0 +1,105 @@
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowRightLeft, Check, X } from 'lucide-react';
+import * as api from '../api';
+import { useAuth } from '../context/AuthContext';
+
+/** Drawings other users have offered to hand over to the signed-in user. */
+export const TransferOffersBanner: React.FC = () => {
+  const { user, authEnabled } = useAuth();
+  const [offers, setOffers] = useState<api.OwnershipTransfer[]>([]);
+  const [accepted, setAccepted] = useState<{ id: string; name: string } | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    setOffers([]);
+    if (!authEnabled || !user) return;
+    let cancelled = false;
+    api
+      .getOwnershipTransfers()
+      .then(({ incoming }) => {
+        if (!cancelled) setOffers(incoming);
+      })
+      .catch(() => undefined);
+    return () => {
+      cancelled = true;
+    };
+  }, [authEnabled, user]);
+
+  const settle = async (offer: api.OwnershipTransfer, accept: boolean) => {
+    setBusyId(offer.id);
+    setError('');
+    try {
+      if (accept) {
+        await api.acceptOwnershipTransfer(offer.id);
+        setAccepted(offer.drawing);
+      } else {
+        await api.dismissOwnershipTransfer(offer.id);
+      }
+      setOffers((prev) => prev.filter((entry) => entry.id !== offer.id));
+    } catch (err: unknown) {
+      let message = accept ? 'Failed to accept the drawing' : 'Failed to decline the drawing';
+      if (api.isAxiosError(err)) {
+        message = err.response?.data?.message || err.response?.data?.error || message;
+        // Withdrawn or already settled elsewhere.
+        if (err.response?.status === 404 || err.response?.status === 409) {
+          setOffers((prev) => prev.filter((entry) => entry.id !== offer.id));
+        }
+      }
+      setError(message);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (offers.length === 0 && !accepted && !error) return null;
+
+  return (
+    <div className="mb-6 rounded-xl border border-indigo-200 dark:border-indigo-800/50 bg-indigo-50/80 dark:bg-indigo-950/30 px-3 py-2 shadow-sm space-y-1.5">
+      {offers.map((offer) => (
+        <div key={offer.id} className="flex flex-wrap items-center gap-x-4 gap-y-2">
+          <div className="flex items-center gap-2 min-w-0 flex-1 text-sm text-indigo-900 dark:text-indigo-100">
+            <ArrowRightLeft size={14} strokeWidth={2.5} className="flex-shrink-0 text-indigo-700 dark:text-indigo-400" />
+            <span className="truncate">
+              <span className="font-bold">{offer.fromUser.name}</span> wants to make you the owner of{' '}
+              <span className="font-bold">{offer.drawing.name}</span>
+            </span>
+          </div>
+          <div className="flex items-center gap-2 ml-auto">
+            <button
+              type="button"
+              onClick={() => void settle(offer, false)}
+              disabled={busyId !== null}
+              className="h-8 flex items-center gap-1.5 px-3 rounded-lg border border-indigo-200 dark:border-indigo-800/50 bg-white/50 dark:bg-neutral-900/50 text-[11px] font-black uppercase tracking-wider text-indigo-900 dark:text-indigo-100 hover:border-indigo-300 transition-colors disabled:opacity-50"
+            >
+              <X size={14} strokeWidth={2.5} />
+              Decline
+            </button>
+            <button
+              type="button"
+              onClick={() => void settle(offer, true)}
+              disabled={busyId !== null}
+              className="h-8 flex items-center gap-1.5 px-3 rounded-lg bg-indigo-600 text-[11px] font-black uppercase tracking-wider text-white hover:bg-indigo-700 transition-all disabled:opacity-50"
+            >
+              <Check size={14} strokeWidth={2.5} />
+              Accept
+            </button>
+          </div>
+        </div>
+      ))}
+      {accepted ? (
+        <div className="flex items-center gap-2 text-xs font-bold text-indigo-800 dark:text-indigo-300">
+          You now own {accepted.name}.
+          <Link to={`/editor/${accepted.id}`} className="underline">
+            Open it
+          </Link>
+          <button type="button" onClick={() => setAccepted(null)} className="ml-auto" title="Dismiss">
+            <X size={12} />
+          </button>
+        </div>
+      ) : null}
+      {error ? <div className="text-xs font-bold text-rose-600 dark:text-rose-400">{error}</div> : null}
+    </div>
+  );
+};
@@ -58,7 +58,8 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
   useEffect(() => {
     const loadUser = async () => {
       try {
-        const isShareFlow = window.location.pathname.startsWith("/shared/");
+        const isShareFlow =
+          window.location.pathname.startsWith("/shared/") || window.location.pathname.startsWith("/embed/");
 
         try {
           const statusResponse = await authStatus();
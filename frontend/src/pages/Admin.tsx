@@ -5,8 +5,9 @@ import { ConfirmModal } from '../components/ConfirmModal';
 import { useAuth } from '../context/AuthContext';
 import * as api from '../api';
 import type { Collection } from '../types';
-import { Shield, UserPlus, RefreshCw, UserCog, LogIn, Settings as SettingsIcon, KeyRound } from 'lucide-react';
+import { Shield, UserPlus, RefreshCw, UserCog, LogIn, Settings as SettingsIcon, KeyRound, Trash2, Users, X, ImageOff, AppWindow, ArrowRightLeft } from 'lucide-react';
 import { Toaster, toast } from 'sonner';
+import { formatDistanceToNow } from 'date-fns';
 import { getPasswordPolicy, validatePassword } from '../utils/passwordPolicy';
 import { PasswordRequirements } from '../components/PasswordRequirements';
 import {
@@ -15,6 +16,7 @@ import {
   readImpersonationState,
   USER_KEY,
 } from '../utils/impersonation';
+import { getCollectionSubtreeIds } from '../utils/collectionTree';
 
 type AdminUser = {
   id: string;
@@ -28,12 +30,43 @@ type AdminUser = {
   updatedAt: string;
 };
 
+type AdminGroup = {
+  id: string;
+  name: string;
+  description: string | null;
+  members: Array<{ id: string; name: string; email: string }>;
+};
+
+type FileSweep = {
+  id: string;
+  trigger: 'scheduled' | 'admin' | string;
+  drawingsScanned: number;
+  filesPruned: number;
+  bytesReclaimed: number;
+  blobsDeleted: number;
+  blobBytesDeleted: number;
+  startedAt: string;
+  finishedAt: string;
+  users: Array<{
+    userId: string;
+    filesPruned: number;
+    bytesReclaimed: number;
+    user: { id: string; name: string; email: string };
+  }>;
+};
+
 type LoginRateLimitFormState = {
   enabled: boolean;
   windowMinutes: number;
   max: number;
 };
 
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
 const sanitizePositiveInt = (value: number, fallback = 1) => {
   if (!Number.isFinite(value)) return fallback;
   return Math.max(1, Math.round(value));
@@ -75,6 +108,24 @@ export const Admin: React.FC = () => {
   const [savedLoginRateLimit, setSavedLoginRateLimit] = useState<LoginRateLimitFormState | null>(null);
   const [loginRateLimitAutoSaveQueued, setLoginRateLimitAutoSaveQueued] = useState(false);
   const lastAutoSaveAttemptKeyRef = useRef<string | null>(null);
+  const [trashRetentionDays, setTrashRetentionDays] = useState<number | null>(null);
+  const [trashRetentionInput, setTrashRetentionInput] = useState('');
+  const [trashRetentionSaving, setTrashRetentionSaving] = useState(false);
+  const [embedFrameAncestors, setEmbedFrameAncestors] = useState<string[] | null>(null);
+  const [embedFrameAncestorsInput, setEmbedFrameAncestorsInput] = useState('');
+  const [embedSettingsSaving, setEmbedSettingsSaving] = useState(false);
+  const [transferFromId, setTransferFromId] = useState('');
+  const [transferToId, setTransferToId] = useState('');
+  const [transferConfirmOpen, setTransferConfirmOpen] = useState(false);
+  const [transferSaving, setTransferSaving] = useState(false);
+  const [fileSweeps, setFileSweeps] = useState<FileSweep[] | null>(null);
+  const [fileSweepRunning, setFileSweepRunning] = useState(false);
+
+  const [groups, setGroups] = useState<AdminGroup[]>([]);
+  const [newGroupName, setNewGroupName] = useState('');
+  const [groupSaving, setGroupSaving] = useState(false);
+  const [groupDeleteTarget, setGroupDeleteTarget] = useState<AdminGroup | null>(null);
+
   const [resetIdentifier, setResetIdentifier] = useState('');
   const [resetLoading, setResetLoading] = useState(false);
 
@@ -264,6 +315,227 @@ export const Admin: React.FC = () => {
     }
   }, [loginRateLimitSaving, normalizedLoginRateLimit]);
 
+  const loadTrashRetention = async () => {
+    try {
+      const response = await api.api.get<{ config: { retentionDays: number } }>('/auth/trash-retention');
+      setTrashRetentionDays(response.data.config.retentionDays);
+      setTrashRetentionInput(String(response.data.config.retentionDays));
+    } catch (err: unknown) {
+      let message = 'Failed to load trash retention';
+      if (api.isAxiosError(err)) {
+        message = err.response?.data?.message || err.response?.data?.error || message;
+      }
+      setError(message);
+    }
+  };
+
+  const saveTrashRetention = async () => {
+    const retentionDays = Number(trashRetentionInput);
+    if (!Number.isInteger(retentionDays) || retentionDays < 0 || retentionDays > 3650) {
+      setError('Retention must be a whole number of days between 0 and 3650');
+      return;
+    }
+    setTrashRetentionSaving(true);
+    setError('');
+    setSuccess('');
+    try {
+      const response = await api.api.put<{ config: { retentionDays: number } }>('/auth/trash-retention', {
+        retentionDays,
+      });
+      setTrashRetentionDays(response.data.config.retentionDays);
+      setTrashRetentionInput(String(response.data.config.retentionDays));
+      setSuccess(
+        response.data.config.retentionDays === 0
+          ? 'Trashed drawings are now kept until deleted manually'
+          : `Trashed drawings are now purged after ${response.data.config.retentionDays} days`
+      );
+    } catch (err: unknown) {
+      let message = 'Failed to save trash retention';
+      if (api.isAxiosError(err)) {
+        message = err.response?.data?.message || err.response?.data?.error || message;
+      }
+      setError(message);
+    } finally {
+      setTrashRetentionSaving(false);
+    }
+  };
+
+  const loadEmbedSettings = async () => {
+    try {
+      const response = await api.api.get<{ config: { frameAncestors: string[] } }>('/auth/embed-settings');
+      setEmbedFrameAncestors(response.data.config.frameAncestors);
+      setEmbedFrameAncestorsInput(response.data.config.frameAncestors.join('\n'));
+    } catch (err: unknown) {
+      let message = 'Failed to load embed settings';
+      if (api.isAxiosError(err)) {
+        message = err.response?.data?.message || err.response?.data?.error || message;
+      }
+      setError(message);
+    }
+  };
+
+  const saveEmbedSettings = async () => {
+    const frameAncestors = embedFrameAncestorsInput
+      .split(/\s+/)
+      .map(origin => origin.trim())
+      .filter(Boolean);
+    setEmbedSettingsSaving(true);
+    setError('');
+    setSuccess('');
+    try {
+      const response = await api.api.put<{ config: { frameAncestors: string[] } }>('/auth/embed-settings', {
+        frameAncestors,
+      });
+      setEmbedFrameAncestors(response.data.config.frameAncestors);
+      setEmbedFrameAncestorsInput(response.data.config.frameAncestors.join('\n'));
+      setSuccess(
+        response.data.config.frameAncestors.length === 0
+          ? 'Drawings can now only be embedded by ExcaliDash itself'
+          : `Drawings can now be embedded by ${response.data.config.frameAncestors.length} site(s)`
+      );
+    } catch (err: unknown) {
+      let message = 'Failed to save embed settings';
+      if (api.isAxiosError(err)) {
+        message = err.response?.data?.message || err.response?.data?.error || message;
+      }
+      setError(message);
+    } finally {
+      setEmbedSettingsSaving(false);
+    }
+  };
+
+  const transferOwnership = async () => {
+    setTransferSaving(true);
+    setError('');
+    setSuccess('');
+    try {
+      const response = await api.api.post<{ drawings: number; collections: number }>('/transfers/bulk', {
+        fromUserId: transferFromId,
+        toUserId: transferToId,
+      });
+      const recipient = users.find(u => u.id === transferToId);
+      setSuccess(
+        `Moved ${response.data.drawings} drawing(s) and ${response.data.collections} collection(s) to ${recipient?.email ?? 'the new owner'}`
+      );
+      setTransferFromId('');
+      setTransferToId('');
+    } catch (err: unknown) {
+      let message = 'Failed to transfer ownership';
+      if (api.isAxiosError(err)) {
+        message = err.response?.data?.message || err.response?.data?.error || message;
+      }
+      setError(message);
+    } finally {
+      setTransferSaving(false);
+    }
+  };
+
+  const loadFileSweeps = async () => {
+    try {
+      const response = await api.api.get<{ running: boolean; sweeps: FileSweep[] }>('/files/sweeps');
+      setFileSweeps(response.data.sweeps);
+      setFileSweepRunning(response.data.running);
+    } catch (err: unknown) {
+      let message = 'Failed to load image cleanup history';
+      if (api.isAxiosError(err)) {
+        message = err.response?.data?.message || err.response?.data?.error || message;
+      }
+      setError(message);
+    }
+  };
+
+  const runFileSweep = async () => {
+    setFileSweepRunning(true);
+    setError('');
+    setSuccess('');
+    try {
+      const response = await api.api.post<{ running: boolean; sweeps: FileSweep[] }>('/files/sweeps');
+      setFileSweeps(response.data.sweeps);
+      const latest = response.data.sweeps[0];
+      setSuccess(
+        latest
+          ? `Image cleanup reclaimed ${formatBytes(latest.bytesReclaimed)} from ${latest.filesPruned} unused images`
+          : 'Image cleanup finished'
+      );
+    } catch (err: unknown) {
+      let message = 'Failed to run image cleanup';
+      if (api.isAxiosError(err)) {
+        message = err.response?.data?.message || err.response?.data?.error || message;
+      }
+      setError(message);
+    } finally {
+      setFileSweepRunning(false);
+    }
+  };
+
+  const loadGroups = async () => {
+    try {
+      const response = await api.api.get<{ groups: AdminGroup[] }>('/auth/groups');
+      setGroups(response.data.groups || []);
+    } catch (err: unknown) {
+      let message = 'Failed to load groups';
+      if (api.isAxiosError(err)) {
+        message = err.response?.data?.message || err.response?.data?.error || message;
+      }
+      setError(message);
+    }
+  };
+
+  const runGroupMutation = async (action: () => Promise<void>, fallbackMessage: string) => {
+    setGroupSaving(true);
+    setError('');
+    setSuccess('');
+    try {
+      await action();
+    } catch (err: unknown) {
+      let message = fallbackMessage;
+      if (api.isAxiosError(err)) {
+        message = err.response?.data?.message || err.response?.data?.error || message;
+      }
+      setError(message);
+    } finally {
+      setGroupSaving(false);
+    }
+  };
+
+  const replaceGroup = (group: AdminGroup) =>
+    setGroups(prev =>
+      [...prev.filter(g => g.id !== group.id), group].sort((a, b) => a.name.localeCompare(b.name))
+    );
+
+  const createGroup = () => {
+    const name = newGroupName.trim();
+    if (!name) {
+      setError('Enter a group name');
+      return;
+    }
+    void runGroupMutation(async () => {
+      const response = await api.api.post<{ group: AdminGroup }>('/auth/groups', { name });
+      replaceGroup(response.data.group);
+      setNewGroupName('');
+      setSuccess(`Created group ${response.data.group.name}`);
+    }, 'Failed to create group');
+  };
+
+  const addGroupMember = (groupId: string, userId: string) =>
+    void runGroupMutation(async () => {
+      const response = await api.api.post<{ group: AdminGroup }>(`/auth/groups/${groupId}/members`, { userId });
+      replaceGroup(response.data.group);
+    }, 'Failed to add member');
+
+  const removeGroupMember = (groupId: string, userId: string) =>
+    void runGroupMutation(async () => {
+      const response = await api.api.delete<{ group: AdminGroup }>(`/auth/groups/${groupId}/members/${userId}`);
+      replaceGroup(response.data.group);
+    }, 'Failed to remove member');
+
+  const deleteGroup = (group: AdminGroup) =>
+    void runGroupMutation(async () => {
+      await api.api.delete(`/auth/groups/${group.id}`);
+      setGroups(prev => prev.filter(g => g.id !== group.id));
+      setSuccess(`Deleted group ${group.name}`);
+    }, 'Failed to delete group');
+
   const resetLoginRateLimit = async () => {
     const identifier = resetIdentifier.trim();
     if (!identifier) {
@@ -294,6 +566,10 @@ export const Admin: React.FC = () => {
     void loadUsers();
     void loadLoginRateLimitConfig();
     void loadRegistrationStatus();
+    void loadTrashRetention();
+    void loadEmbedSettings();
+    void loadFileSweeps();
+    void loadGroups();
   }, [authEnabled, isAdmin]);
 
   useEffect(() => {
@@ -345,8 +621,8 @@ export const Admin: React.FC = () => {
     else navigate(`/collections?id=${id}`);
   };
 
-  const handleCreateCollection = async (name: string) => {
-    await api.createCollection(name);
+  const handleCreateCollection = async (name: string, parentId: string | null = null) => {
+    await api.createCollection(name, parentId);
     const newCollections = await api.getCollections();
     setCollections(newCollections);
   };
@@ -356,8 +632,14 @@ export const Admin: React.FC = () => {
     await api.updateCollection(id, name);
   };
 
+  const handleMoveCollection = async (id: string, parentId: string | null) => {
+    setCollections(prev => prev.map(c => (c.id === id ? { ...c, parentId } : c)));
+    await api.moveCollection(id, parentId);
+  };
+
   const handleDeleteCollection = async (id: string) => {
-    setCollections(prev => prev.filter(c => c.id !== id));
+    const deletedIds = getCollectionSubtreeIds(collections, id);
+    setCollections(prev => prev.filter(c => !deletedIds.has(c.id)));
     await api.deleteCollection(id);
   };
 
@@ -485,6 +767,7 @@ export const Admin: React.FC = () => {
       onCreateCollection={handleCreateCollection}
       onEditCollection={handleEditCollection}
       onDeleteCollection={handleDeleteCollection}
+      onMoveCollection={handleMoveCollection}
     >
       <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-4 mb-6 sm:mb-8 min-w-0">
         <div className="min-w-0">
@@ -775,6 +1058,202 @@ export const Admin: React.FC = () => {
         </div>
       </div>
 
+      <div className="mb-6 bg-white dark:bg-neutral-900 border-2 border-black dark:border-neutral-700 rounded-2xl shadow-[4px_4px_0px_0px_rgba(0,0,0,1)] dark:shadow-[4px_4px_0px_0px_rgba(255,255,255,0.2)] p-4 sm:p-6">
+        <div className="flex items-center gap-3 mb-4">
+          <div className="w-12 h-12 bg-rose-50 dark:bg-neutral-800 rounded-xl flex items-center justify-center border-2 border-rose-100 dark:border-neutral-700">
+            <Trash2 size={24} className="text-rose-600 dark:text-rose-400" />
+          </div>
+          <div className="min-w-0">
+            <h2 className="text-2xl font-bold text-slate-900 dark:text-white">Trash Retention</h2>
+            <p className="text-sm text-slate-600 dark:text-neutral-400 font-medium">
+              {trashRetentionDays === null
+                ? 'Loading…'
+                : trashRetentionDays === 0
+                  ? 'Trashed drawings are kept until deleted manually.'
+                  : `Trashed drawings are permanently deleted after ${trashRetentionDays} days.`}
+            </p>
+          </div>
+        </div>
+
+        <div className="flex flex-col sm:flex-row sm:items-end gap-4">
+          <div className="flex-1 max-w-xs">
+            <label className="block text-sm font-bold text-slate-700 dark:text-neutral-300 mb-2">
+              Retention (days, 0 = forever)
+            </label>
+            <input
+              type="number"
+              min={0}
+              max={3650}
+              value={trashRetentionInput}
+              onChange={e => setTrashRetentionInput(e.target.value)}
+              disabled={trashRetentionDays === null}
+              className="w-full px-4 py-3 bg-white dark:bg-neutral-800 border-2 border-slate-200 dark:border-neutral-700 rounded-xl text-slate-900 dark:text-white outline-none"
+            />
+          </div>
+          <button
+            onClick={() => void saveTrashRetention()}
+            disabled={
+              trashRetentionSaving ||
+              trashRetentionDays === null ||
+              trashRetentionInput === String(trashRetentionDays)
+            }
+            className="px-4 py-3 text-sm font-bold rounded-xl border-2 border-black dark:border-neutral-700 bg-white dark:bg-neutral-900 text-slate-900 dark:text-neutral-200 shadow-[2px_2px_0px_0px_rgba(0,0,0,1)] dark:shadow-[2px_2px_0px_0px_rgba(255,255,255,0.2)] hover:-translate-y-0.5 transition-all disabled:opacity-60"
+          >
+            {trashRetentionSaving ? 'Saving…' : 'Save'}
+          </button>
+        </div>
+      </div>
+
+      <div className="mb-6 bg-white dark:bg-neutral-900 border-2 border-black dark:border-neutral-700 rounded-2xl shadow-[4px_4px_0px_0px_rgba(0,0,0,1)] dark:shadow-[4px_4px_0px_0px_rgba(255,255,255,0.2)] p-4 sm:p-6">
+        <div className="flex items-center gap-3 mb-4">
+          <div className="w-12 h-12 bg-indigo-50 dark:bg-neutral-800 rounded-xl flex items-center justify-center border-2 border-indigo-100 dark:border-neutral-700">
+            <ArrowRightLeft size={24} className="text-indigo-600 dark:text-indigo-400" />
+          </div>
+          <div className="min-w-0">
+            <h2 className="text-2xl font-bold text-slate-900 dark:text-white">Ownership Transfer</h2>
+            <p className="text-sm text-slate-600 dark:text-neutral-400 font-medium">
+              Hand every drawing and collection of one user to another. The previous owner keeps edit access.
+            </p>
+          </div>
+        </div>
+
+        <div className="flex flex-col sm:flex-row sm:items-end gap-4">
+          {([
+            ['From', transferFromId, setTransferFromId],
+            ['To', transferToId, setTransferToId],
+          ] as const).map(([label, value, setValue]) => (
+            <div key={label} className="flex-1">
+              <label className="block text-sm font-bold text-slate-700 dark:text-neutral-300 mb-2">{label}</label>
+              <select
+                value={value}
+                onChange={e => setValue(e.target.value)}
+                className="w-full px-4 py-3 bg-white dark:bg-neutral-800 border-2 border-slate-200 dark:border-neutral-700 rounded-xl text-slate-900 dark:text-white outline-none"
+              >
+                <option value="">Choose a user…</option>
+                {users
+                  .filter(u => label === 'From' || u.isActive)
+                  .map(u => (
+                    <option key={u.id} value={u.id}>
+                      {u.name} ({u.email})
+                    </option>
+                  ))}
+              </select>
+            </div>
+          ))}
+          <button
+            onClick={() => setTransferConfirmOpen(true)}
+            disabled={transferSaving || !transferFromId || !transferToId || transferFromId === transferToId}
+            className="px-4 py-3 text-sm font-bold rounded-xl border-2 border-black dark:border-neutral-700 bg-white dark:bg-neutral-900 text-slate-900 dark:text-neutral-200 shadow-[2px_2px_0px_0px_rgba(0,0,0,1)] dark:shadow-[2px_2px_0px_0px_rgba(255,255,255,0.2)] hover:-translate-y-0.5 transition-all disabled:opacity-60"
+          >
+            {transferSaving ? 'Transferring…' : 'Transfer'}
+          </button>
+        </div>
+      </div>
+
+      <div className="mb-6 bg-white dark:bg-neutral-900 border-2 border-black dark:border-neutral-700 rounded-2xl shadow-[4px_4px_0px_0px_rgba(0,0,0,1)] dark:shadow-[4px_4px_0px_0px_rgba(255,255,255,0.2)] p-4 sm:p-6">
+        <div className="flex items-center gap-3 mb-4">
+          <div className="w-12 h-12 bg-sky-50 dark:bg-neutral-800 rounded-xl flex items-center justify-center border-2 border-sky-100 dark:border-neutral-700">
+            <AppWindow size={24} className="text-sky-600 dark:text-sky-400" />
+          </div>
+          <div className="min-w-0">
+            <h2 className="text-2xl font-bold text-slate-900 dark:text-white">Embedding</h2>
+            <p className="text-sm text-slate-600 dark:text-neutral-400 font-medium">
+              Sites listed here may show link-shared drawings in an iframe via <code>/embed/&lt;drawing id&gt;</code>.
+            </p>
+          </div>
+        </div>
+
+        <div className="flex flex-col sm:flex-row sm:items-end gap-4">
+          <div className="flex-1">
+            <label className="block text-sm font-bold text-slate-700 dark:text-neutral-300 mb-2">
+              Allowed origins (one per line, e.g. https://wiki.example.com or https://*.example.com)
+            </label>
+            <textarea
+              rows={3}
+              value={embedFrameAncestorsInput}
+              onChange={e => setEmbedFrameAncestorsInput(e.target.value)}
+              disabled={embedFrameAncestors === null}
+              className="w-full px-4 py-3 bg-white dark:bg-neutral-800 border-2 border-slate-200 dark:border-neutral-700 rounded-xl text-slate-900 dark:text-white outline-none font-mono text-sm"
+            />
+          </div>
+          <button
+            onClick={() => void saveEmbedSettings()}
+            disabled={
+              embedSettingsSaving ||
+              embedFrameAncestors === null ||
+              embedFrameAncestorsInput === embedFrameAncestors.join('\n')
+            }
+            className="px-4 py-3 text-sm font-bold rounded-xl border-2 border-black dark:border-neutral-700 bg-white dark:bg-neutral-900 text-slate-900 dark:text-neutral-200 shadow-[2px_2px_0px_0px_rgba(0,0,0,1)] dark:shadow-[2px_2px_0px_0px_rgba(255,255,255,0.2)] hover:-translate-y-0.5 transition-all disabled:opacity-60"
+          >
+            {embedSettingsSaving ? 'Saving…' : 'Save'}
+          </button>
+        </div>
+      </div>
+
+      <div className="mb-6 bg-white dark:bg-neutral-900 border-2 border-black dark:border-neutral-700 rounded-2xl shadow-[4px_4px_0px_0px_rgba(0,0,0,1)] dark:shadow-[4px_4px_0px_0px_rgba(255,255,255,0.2)] p-4 sm:p-6">
+        <div className="flex flex-col sm:flex-row sm:items-center gap-4 mb-4">
+          <div className="flex items-center gap-3 flex-1 min-w-0">
+            <div className="w-12 h-12 bg-amber-50 dark:bg-neutral-800 rounded-xl flex items-center justify-center border-2 border-amber-100 dark:border-neutral-700">
+              <ImageOff size={24} className="text-amber-600 dark:text-amber-400" />
+            </div>
+            <div className="min-w-0">
+              <h2 className="text-2xl font-bold text-slate-900 dark:text-white">Image Cleanup</h2>
+              <p className="text-sm text-slate-600 dark:text-neutral-400 font-medium">
+                Images removed from a drawing are dropped after a grace period. Runs daily.
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={() => void runFileSweep()}
+            disabled={fileSweepRunning || fileSweeps === null}
+            className="px-4 py-3 text-sm font-bold rounded-xl border-2 border-black dark:border-neutral-700 bg-white dark:bg-neutral-900 text-slate-900 dark:text-neutral-200 shadow-[2px_2px_0px_0px_rgba(0,0,0,1)] dark:shadow-[2px_2px_0px_0px_rgba(255,255,255,0.2)] hover:-translate-y-0.5 transition-all disabled:opacity-60"
+          >
+            {fileSweepRunning ? 'Running…' : 'Run now'}
+          </button>
+        </div>
+
+        {fileSweeps === null ? (
+          <p className="text-sm text-slate-500 dark:text-neutral-500 font-medium">Loading…</p>
+        ) : fileSweeps.length === 0 ? (
+          <p className="text-sm text-slate-500 dark:text-neutral-500 font-medium">No cleanup has run yet.</p>
+        ) : (
+          <div className="space-y-4">
+            <p className="text-sm text-slate-700 dark:text-neutral-300 font-medium">
+              Last run {formatDistanceToNow(new Date(fileSweeps[0].finishedAt), { addSuffix: true })}
+              {fileSweeps[0].trigger === 'admin' ? ' (started by an admin)' : ''}: scanned{' '}
+              {fileSweeps[0].drawingsScanned} drawings, removed {fileSweeps[0].filesPruned} unused images (
+              {formatBytes(fileSweeps[0].bytesReclaimed)}) and deleted {fileSweeps[0].blobsDeleted} stored files (
+              {formatBytes(fileSweeps[0].blobBytesDeleted)} on disk).
+            </p>
+            {fileSweeps[0].users.length > 0 && (
+              <div className="overflow-x-auto">
+                <table className="min-w-full text-sm">
+                  <thead className="bg-slate-50 dark:bg-neutral-800/70">
+                    <tr className="text-left">
+                      <th className="px-4 py-2 font-bold text-slate-600 dark:text-neutral-300">User</th>
+                      <th className="px-4 py-2 font-bold text-slate-600 dark:text-neutral-300">Images removed</th>
+                      <th className="px-4 py-2 font-bold text-slate-600 dark:text-neutral-300">Reclaimed</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {fileSweeps[0].users.map(stat => (
+                      <tr key={stat.userId} className="border-t border-slate-100 dark:border-neutral-800">
+                        <td className="px-4 py-2">
+                          <div className="font-bold text-slate-900 dark:text-white truncate">{stat.user.name}</div>
+                          <div className="text-slate-500 dark:text-neutral-400 truncate">{stat.user.email}</div>
+                        </td>
+                        <td className="px-4 py-2 text-slate-700 dark:text-neutral-300">{stat.filesPruned}</td>
+                        <td className="px-4 py-2 text-slate-700 dark:text-neutral-300">{formatBytes(stat.bytesReclaimed)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+
       <div className="bg-white dark:bg-neutral-900 border-2 border-black dark:border-neutral-700 rounded-2xl shadow-[4px_4px_0px_0px_rgba(0,0,0,1)] dark:shadow-[4px_4px_0px_0px_rgba(255,255,255,0.2)] overflow-hidden">
         <div className="px-4 sm:px-6 py-4 border-b-2 border-slate-200 dark:border-neutral-700 flex items-center gap-3">
           <div className="w-10 h-10 bg-indigo-50 dark:bg-neutral-800 rounded-xl flex items-center justify-center border-2 border-indigo-100 dark:border-neutral-700">
@@ -873,6 +1352,138 @@ export const Admin: React.FC = () => {
         </div>
       </div>
 
+      <div className="mt-6 bg-white dark:bg-neutral-900 border-2 border-black dark:border-neutral-700 rounded-2xl shadow-[4px_4px_0px_0px_rgba(0,0,0,1)] dark:shadow-[4px_4px_0px_0px_rgba(255,255,255,0.2)] overflow-hidden">
+        <div className="px-4 sm:px-6 py-4 border-b-2 border-slate-200 dark:border-neutral-700 flex items-center gap-3">
+          <div className="w-10 h-10 bg-amber-50 dark:bg-neutral-800 rounded-xl flex items-center justify-center border-2 border-amber-100 dark:border-neutral-700">
+            <Users size={20} className="text-amber-600 dark:text-amber-400" />
+          </div>
+          <div className="min-w-0">
+            <h2 className="text-xl font-bold text-slate-900 dark:text-white">Groups</h2>
+            <p className="text-sm text-slate-600 dark:text-neutral-400 font-medium">
+              Drawings shared with a group are available to everyone in it.
+            </p>
+          </div>
+        </div>
+
+        <div className="px-4 sm:px-6 py-4 flex flex-col sm:flex-row gap-3 border-b border-slate-100 dark:border-neutral-800">
+          <input
+            value={newGroupName}
+            onChange={e => setNewGroupName(e.target.value)}
+            onKeyDown={e => {
+              if (e.key === 'Enter') createGroup();
+            }}
+            placeholder="New group name"
+            maxLength={100}
+            className="flex-1 px-4 py-3 bg-white dark:bg-neutral-800 border-2 border-slate-200 dark:border-neutral-700 rounded-xl text-slate-900 dark:text-white outline-none"
+          />
+          <button
+            onClick={createGroup}
+            disabled={groupSaving || !newGroupName.trim()}
+            className="px-4 py-3 text-sm font-bold rounded-xl border-2 border-black dark:border-neutral-700 bg-white dark:bg-neutral-900 text-slate-900 dark:text-neutral-200 shadow-[2px_2px_0px_0px_rgba(0,0,0,1)] dark:shadow-[2px_2px_0px_0px_rgba(255,255,255,0.2)] hover:-translate-y-0.5 transition-all disabled:opacity-60"
+          >
+            Create Group
+          </button>
+        </div>
+
+        {groups.map(group => {
+          const memberIds = new Set(group.members.map(m => m.id));
+          const candidates = users.filter(u => u.isActive && !memberIds.has(u.id));
+          return (
+            <div key={group.id} className="px-4 sm:px-6 py-4 border-t border-slate-100 dark:border-neutral-800 first:border-t-0">
+              <div className="flex items-center justify-between gap-3 mb-3">
+                <div className="min-w-0">
+                  <div className="font-bold text-slate-900 dark:text-white truncate">{group.name}</div>
+                  <div className="text-xs text-slate-500 dark:text-neutral-400">
+                    {group.members.length} {group.members.length === 1 ? 'member' : 'members'}
+                  </div>
+                </div>
+                <button
+                  onClick={() => setGroupDeleteTarget(group)}
+                  disabled={groupSaving}
+                  className="inline-flex items-center gap-2 px-3 py-2 rounded-xl border-2 border-rose-300 dark:border-rose-700 bg-rose-50 dark:bg-rose-900/20 text-rose-700 dark:text-rose-300 font-bold disabled:opacity-60"
+                >
+                  <Trash2 size={16} />
+                  Delete
+                </button>
+              </div>
+              <div className="flex flex-wrap items-center gap-2">
+                {group.members.map(member => (
+                  <span
+                    key={member.id}
+                    title={member.email}
+                    className="inline-flex items-center gap-1 pl-3 pr-1 py-1 rounded-xl border-2 border-slate-200 dark:border-neutral-700 text-sm font-bold text-slate-700 dark:text-neutral-200"
+                  >
+                    {member.name}
+                    <button
+                      onClick={() => removeGroupMember(group.id, member.id)}
+                      disabled={groupSaving}
+                      aria-label={`Remove ${member.name} from ${group.name}`}
+                      className="p-1 rounded-lg hover:bg-slate-100 dark:hover:bg-neutral-800 disabled:opacity-60"
+                    >
+                      <X size={14} />
+                    </button>
+                  </span>
+                ))}
+                {candidates.length > 0 && (
+                  <select
+                    value=""
+                    onChange={e => {
+                      if (e.target.value) addGroupMember(group.id, e.target.value);
+                    }}
+                    disabled={groupSaving}
+                    className="px-3 py-1.5 bg-white dark:bg-neutral-800 border-2 border-slate-200 dark:border-neutral-700 rounded-xl text-sm font-bold text-slate-900 dark:text-white"
+                  >
+                    <option value="">Add member…</option>
+                    {candidates.map(u => (
+                      <option key={u.id} value={u.id}>
+                        {u.name} ({u.email})
+                      </option>
+                    ))}
+                  </select>
+                )}
+              </div>
+            </div>
+          );
+        })}
+        {groups.length === 0 && (
+          <div className="px-4 sm:px-6 py-6 text-sm text-slate-500 dark:text-neutral-500 font-medium">No groups yet.</div>
+        )}
+      </div>
+
+      <ConfirmModal
+        isOpen={!!groupDeleteTarget}
+        title="Delete group?"
+        message={
+          groupDeleteTarget
+            ? `Members of ${groupDeleteTarget.name} will lose access to drawings shared with the group.`
+            : ''
+        }
+        confirmText="Delete"
+        onConfirm={() => {
+          if (groupDeleteTarget) deleteGroup(groupDeleteTarget);
+          setGroupDeleteTarget(null);
+        }}
+        onCancel={() => setGroupDeleteTarget(null)}
+      />
+
+      <ConfirmModal
+        isOpen={transferConfirmOpen}
+        title="Transfer ownership?"
+        message={(() => {
+          const from = users.find(u => u.id === transferFromId);
+          const to = users.find(u => u.id === transferToId);
+          return from && to
+            ? `Everything ${from.email} owns moves to ${to.email} right away, without asking ${to.email} to accept.`
+            : '';
+        })()}
+        confirmText="Transfer"
+        onConfirm={() => {
+          setTransferConfirmOpen(false);
+          void transferOwnership();
+        }}
+        onCancel={() => setTransferConfirmOpen(false)}
+      />
+
       <ConfirmModal
         isOpen={!!impersonateTarget}
         title="Start impersonation?"
@@ -1,23 +1,36 @@
 import React, { useEffect, useState, useCallback, useRef } from 'react';
 import { Layout } from '../components/Layout';
 import { DrawingCard } from '../components/DrawingCard';
-import { Plus, Search, Loader2, Inbox, Trash2, Folder, ArrowRight, Copy, Upload, CheckSquare, Square, ArrowUp, ArrowDown, ChevronDown, FileText, Calendar, Clock } from 'lucide-react';
+import { Plus, Search, Loader2, Inbox, Trash2, Folder, ArrowRight, Copy, Upload, CheckSquare, Square, ArrowUp, ArrowDown, ChevronDown, FileText, Calendar, Clock, Sparkles, Star } from 'lucide-react';
 import { useNavigate, useSearchParams, useLocation } from 'react-router-dom';
 import * as api from '../api';
 import type { DrawingSortField, SortDirection } from '../api';
+import type { DrawingTemplate, Tag, TagMatchMode, TemplateScope } from '../types';
 import { useDebounce } from '../hooks/useDebounce';
 import clsx from 'clsx';
 import { ConfirmModal } from '../components/ConfirmModal';
 import { useUpload } from '../context/UploadContext';
 import { DragOverlayPortal, getSelectionBounds, type Point, type SelectionBounds } from './dashboard/shared';
 import { useDashboardData } from './dashboard/useDashboardData';
+import { TagFilterBar } from '../components/TagFilterBar';
+import { getCollectionSubtreeIds } from '../utils/collectionTree';
+import { getSharedCollectionIdFromView } from '../utils/sharedCollections';
+import { TemplatePickerModal } from '../components/TemplatePickerModal';
+import { useAuth } from '../context/AuthContext';
 
 const PAGE_SIZE = 24;
 
+const buildEditorPath = (drawingId: string, focusElementId?: string | null) =>
+  focusElementId
+    ? `/editor/${drawingId}?focus=${encodeURIComponent(focusElementId)}`
+    : `/editor/${drawingId}`;
+
 export const Dashboard: React.FC = () => {
   const [searchParams] = useSearchParams();
   const location = useLocation();
   const navigate = useNavigate();
+  const { user } = useAuth();
+  const [isTemplatePickerOpen, setIsTemplatePickerOpen] = useState(false);
 
   const selectedCollectionId = React.useMemo(() => {
     if (location.pathname === '/') return undefined;
@@ -45,6 +58,9 @@ export const Dashboard: React.FC = () => {
   const [lastSelectedId, setLastSelectedId] = useState<string | null>(null);
   const [showBulkMoveMenu, setShowBulkMoveMenu] = useState(false);
   const [showSortMenu, setShowSortMenu] = useState(false);
+  const [selectedTagIds, setSelectedTagIds] = useState<string[]>([]);
+  const [tagMode, setTagMode] = useState<TagMatchMode>('any');
+  const [pinStarred, setPinStarred] = useState(false);
 
   const [drawingToDelete, setDrawingToDelete] = useState<string | null>(null);
   const [showBulkDeleteConfirm, setShowBulkDeleteConfirm] = useState(false);
@@ -68,6 +84,11 @@ export const Dashboard: React.FC = () => {
     direction: 'desc'
   });
 
+  const isSearching = debouncedSearch.trim().length > 0;
+  // Relevance only means something while searching; fall back to the default order otherwise.
+  const effectiveSortField: SortField =
+    sortConfig.field === 'relevance' && !isSearching ? 'updatedAt' : sortConfig.field;
+
   const { uploadFiles } = useUpload();
   const resetSelection = useCallback(() => {
     setSelectedIds(new Set());
@@ -81,13 +102,19 @@ export const Dashboard: React.FC = () => {
     isFetchingMore,
     isLoading,
     hasMore,
+    tags,
+    setTags,
+    sharedCollections,
     refreshData,
     fetchMore,
   } = useDashboardData({
     debouncedSearch,
     selectedCollectionId,
-    sortField: sortConfig.field,
+    sortField: effectiveSortField,
     sortDirection: sortConfig.direction,
+    tagIds: selectedTagIds,
+    tagMode,
+    pinStarred,
     pageSize: PAGE_SIZE,
     onRefreshSuccess: resetSelection,
   });
@@ -253,17 +280,27 @@ export const Dashboard: React.FC = () => {
     { field: 'name', label: 'Name', icon: <FileText size={16} /> },
     { field: 'createdAt', label: 'Date Created', icon: <Calendar size={16} /> },
     { field: 'updatedAt', label: 'Date Modified', icon: <Clock size={16} /> },
+    ...(isSearching
+      ? [{ field: 'relevance' as const, label: 'Relevance', icon: <Sparkles size={16} /> }]
+      : []),
   ];
 
-  const currentSortOption = sortOptions.find(opt => opt.field === sortConfig.field) || sortOptions[0];
+  const currentSortOption = sortOptions.find(opt => opt.field === effectiveSortField) || sortOptions[0];
 
   const isTrashView = selectedCollectionId === 'trash';
-  const isSharedView = selectedCollectionId === 'shared';
-  const handleCreateDrawing = async () => {
-    if (isTrashView || isSharedView) return;
+  const sharedCollectionId = getSharedCollectionIdFromView(selectedCollectionId);
+  const isSharedView = selectedCollectionId === 'shared' || sharedCollectionId !== null;
+  const isStarredView = selectedCollectionId === 'starred';
+  // Starred is a virtual view that can mix in other users' drawings, so it can't be a drop or create target.
+  const isReadOnlyListView = isSharedView || isStarredView;
+  const handleCreateDrawing = async (template: DrawingTemplate | null) => {
+    if (isTrashView || isReadOnlyListView) return;
+    setIsTemplatePickerOpen(false);
     try {
       const targetCollectionId = selectedCollectionId === undefined ? null : selectedCollectionId;
-      const { id } = await api.createDrawing('Untitled Drawing', targetCollectionId);
+      const { id } = template
+        ? await api.createDrawingFromTemplate(template.id, { collectionId: targetCollectionId })
+        : await api.createDrawing('Untitled Drawing', targetCollectionId);
       navigate(`/editor/${id}`);
     } catch (err) {
       console.error(err);
@@ -271,7 +308,7 @@ export const Dashboard: React.FC = () => {
   };
 
   const handleImportDrawings = async (files: FileList | null) => {
-    if (!files || isTrashView || isSharedView) return;
+    if (!files || isTrashView || isReadOnlyListView) return;
 
     const fileArray = Array.from(files);
     const targetCollectionId = selectedCollectionId === undefined ? null : selectedCollectionId;
@@ -291,6 +328,42 @@ export const Dashboard: React.FC = () => {
     }
   };
 
+  const refreshTags = async () => {
+    try {
+      setTags(await api.getTags());
+    } catch (err) {
+      console.error("Failed to fetch tags:", err);
+    }
+  };
+
+  const handleSetDrawingTags = async (id: string, tagIds: string[]) => {
+    try {
+      const drawingTags = await api.setDrawingTags(id, tagIds);
+      setDrawings(prev => prev.map(d => d.id === id ? { ...d, tags: drawingTags } : d));
+      await refreshTags();
+    } catch (err) {
+      console.error("Failed to update drawing tags:", err);
+      refreshData();
+    }
+  };
+
+  const handleCreateTag = async (name: string): Promise<Tag | null> => {
+    try {
+      const tag = await api.createTag(name);
+      setTags(prev => [...prev, tag].sort((a, b) => a.name.localeCompare(b.name)));
+      return tag;
+    } catch (err) {
+      console.error("Failed to create tag:", err);
+      return null;
+    }
+  };
+
+  const handleToggleTagFilter = (tagId: string) => {
+    setSelectedTagIds(prev =>
+      prev.includes(tagId) ? prev.filter(id => id !== tagId) : [...prev, tagId]
+    );
+  };
+
   const handleDeleteDrawing = async (id: string) => {
     if (isTrashView) {
       setDrawingToDelete(id);
@@ -436,6 +509,24 @@ export const Dashboard: React.FC = () => {
     }
   };
 
+  const handleRestoreDrawing = async (id: string) => {
+    setDrawings(prev => {
+      const next = prev.filter(d => d.id !== id);
+      if (next.length !== prev.length) {
+        setTotalCount(t => t - 1);
+      }
+      return next;
+    });
+    setSelectedIds(prev => { const s = new Set(prev); s.delete(id); return s; });
+
+    try {
+      await api.restoreDrawing(id);
+    } catch (err) {
+      console.error("Failed to restore drawing:", err);
+      refreshData();
+    }
+  };
+
   const handleDuplicateDrawing = async (id: string) => {
     try {
       await api.duplicateDrawing(id);
@@ -445,6 +536,31 @@ export const Dashboard: React.FC = () => {
     }
   };
 
+  const handleToggleStar = async (id: string, starred: boolean) => {
+    if (isStarredView && !starred) {
+      setDrawings(prev => prev.filter(d => d.id !== id));
+      setTotalCount(prev => Math.max(0, prev - 1));
+    } else {
+      setDrawings(prev => prev.map(d => d.id === id ? { ...d, starred } : d));
+    }
+    try {
+      await api.setDrawingStarred(id, starred);
+    } catch (err) {
+      console.error("Failed to update star:", err);
+      refreshData();
+    }
+  };
+
+  const handleSetTemplateScope = async (id: string, templateScope: TemplateScope | null) => {
+    setDrawings(prev => prev.map(d => d.id === id ? { ...d, templateScope } : d));
+    try {
+      await api.setDrawingTemplateScope(id, templateScope);
+    } catch (err) {
+      console.error("Failed to update template:", err);
+      refreshData();
+    }
+  };
+
   const handleBulkDuplicate = async () => {
     if (selectedIds.size === 0) return;
 
@@ -479,9 +595,9 @@ export const Dashboard: React.FC = () => {
     }
   };
 
-  const handleCreateCollection = async (name: string) => {
+  const handleCreateCollection = async (name: string, parentId: string | null = null) => {
     try {
-      await api.createCollection(name);
+      await api.createCollection(name, parentId);
       const newCollections = await api.getCollections();
       setCollections(newCollections);
     } catch (err) {
@@ -500,9 +616,20 @@ export const Dashboard: React.FC = () => {
     }
   };
 
+  const handleMoveCollection = async (id: string, parentId: string | null) => {
+    setCollections(prev => prev.map(c => c.id === id ? { ...c, parentId } : c));
+    try {
+      await api.moveCollection(id, parentId);
+    } catch (err) {
+      console.error("Failed to move collection:", err);
+      refreshData();
+    }
+  };
+
   const handleDeleteCollection = async (id: string) => {
-    setCollections(prev => prev.filter(c => c.id !== id));
-    if (selectedCollectionId === id) {
+    const deletedIds = getCollectionSubtreeIds(collections, id);
+    setCollections(prev => prev.filter(c => !deletedIds.has(c.id)));
+    if (selectedCollectionId && deletedIds.has(selectedCollectionId)) {
       setSelectedCollectionId(undefined);
     }
     try {
@@ -518,10 +645,15 @@ export const Dashboard: React.FC = () => {
     if (selectedCollectionId === undefined) return "All Drawings";
     if (selectedCollectionId === null) return "Unorganized";
     if (selectedCollectionId === 'shared') return "Shared with me";
+    if (selectedCollectionId === 'starred') return "Starred";
     if (selectedCollectionId === 'trash') return "Trash";
+    if (sharedCollectionId) {
+      const shared = sharedCollections.find(c => c.id === sharedCollectionId);
+      return shared ? shared.name : "Shared collection";
+    }
     const collection = collections.find(c => c.id === selectedCollectionId);
     return collection ? collection.name : "Collection";
-  }, [selectedCollectionId, collections]);
+  }, [selectedCollectionId, sharedCollectionId, collections, sharedCollections]);
 
   const hasSelection = selectedIds.size > 0;
   const allSelected = sortedDrawings.length > 0 && selectedIds.size === sortedDrawings.length;
@@ -625,11 +757,13 @@ export const Dashboard: React.FC = () => {
   return (
     <Layout
       collections={visibleCollections}
+      sharedCollections={sharedCollections}
       selectedCollectionId={selectedCollectionId}
       onSelectCollection={setSelectedCollectionId}
       onCreateCollection={handleCreateCollection}
       onEditCollection={handleEditCollection}
       onDeleteCollection={handleDeleteCollection}
+      onMoveCollection={handleMoveCollection}
       onDrop={isSharedView ? undefined : handleDrop}
     >
       <div
@@ -736,14 +870,14 @@ export const Dashboard: React.FC = () => {
                         }}
                         className={clsx(
                           "w-full px-3 py-2 text-sm text-left flex items-center gap-2 transition-colors",
-                          sortConfig.field === option.field
+                          effectiveSortField === option.field
                             ? "bg-indigo-50 dark:bg-indigo-900/30 text-indigo-600 dark:text-indigo-400 font-bold"
                             : "text-slate-600 dark:text-neutral-300 hover:bg-slate-50 dark:hover:bg-neutral-700 hover:text-indigo-600 dark:hover:text-indigo-400"
                         )}
                       >
                         <span className="text-indigo-600 dark:text-indigo-400">{option.icon}</span>
                         <span>{option.label}</span>
-                        {sortConfig.field === option.field && (
+                        {effectiveSortField === option.field && (
                           <span className="ml-auto text-xs">✓</span>
                         )}
                       </button>
@@ -767,6 +901,23 @@ export const Dashboard: React.FC = () => {
                 <ArrowDown size={18} />
               )}
             </button>
+
+            {!isReadOnlyListView && !isTrashView && (
+              <button
+                onClick={() => setPinStarred(prev => !prev)}
+                aria-pressed={pinStarred}
+                className={clsx(
+                  "flex items-center justify-center gap-1.5 px-3 py-1.5 rounded-lg text-sm font-bold transition-all border-2 border-black dark:border-neutral-700 h-[42px] min-w-[42px]",
+                  "shadow-[2px_2px_0px_0px_rgba(0,0,0,1)] dark:shadow-[2px_2px_0px_0px_rgba(255,255,255,0.2)] hover:shadow-[4px_4px_0px_0px_rgba(0,0,0,1)] dark:hover:shadow-[4px_4px_0px_0px_rgba(255,255,255,0.2)] hover:-translate-y-0.5",
+                  pinStarred
+                    ? "bg-amber-50 dark:bg-amber-900/30 text-amber-600 dark:text-amber-400"
+                    : "bg-white dark:bg-neutral-900 text-slate-400 dark:text-neutral-500 hover:bg-indigo-50 dark:hover:bg-indigo-900/30"
+                )}
+                title={pinStarred ? 'Starred drawings pinned first' : 'Pin starred drawings first'}
+              >
+                <Star size={18} fill={pinStarred ? 'currentColor' : 'none'} />
+              </button>
+            )}
           </div>
         </div>
 
@@ -788,10 +939,10 @@ export const Dashboard: React.FC = () => {
 
           <button
             onClick={handleBulkDeleteClick}
-            disabled={!hasSelection || isSharedView}
+            disabled={!hasSelection || isReadOnlyListView}
             className={clsx(
               "h-[42px] w-[42px] flex items-center justify-center rounded-xl border-2 transition-all",
-              hasSelection && !isSharedView
+              hasSelection && !isReadOnlyListView
                 ? "bg-white dark:bg-neutral-800 border-black dark:border-neutral-700 text-rose-600 dark:text-rose-400 shadow-[2px_2px_0px_0px_rgba(0,0,0,1)] dark:shadow-[2px_2px_0px_0px_rgba(255,255,255,0.2)] hover:shadow-[4px_4px_0px_0px_rgba(0,0,0,1)] dark:hover:shadow-[4px_4px_0px_0px_rgba(255,255,255,0.2)] hover:-translate-y-1 hover:bg-rose-50 dark:hover:bg-rose-900/30"
                 : "bg-slate-100 dark:bg-neutral-900 border-slate-300 dark:border-neutral-800 text-slate-300 dark:text-neutral-700 cursor-not-allowed"
             )}
@@ -802,10 +953,10 @@ export const Dashboard: React.FC = () => {
 
           <button
             onClick={handleBulkDuplicate}
-            disabled={!hasSelection || isTrashView || isSharedView}
+            disabled={!hasSelection || isTrashView || isReadOnlyListView}
             className={clsx(
               "h-[42px] w-[42px] flex items-center justify-center rounded-xl border-2 transition-all",
-              hasSelection && !isTrashView && !isSharedView
+              hasSelection && !isTrashView && !isReadOnlyListView
                 ? "bg-white dark:bg-neutral-800 border-black dark:border-neutral-700 text-indigo-600 dark:text-indigo-400 shadow-[2px_2px_0px_0px_rgba(0,0,0,1)] dark:shadow-[2px_2px_0px_0px_rgba(255,255,255,0.2)] hover:shadow-[4px_4px_0px_0px_rgba(0,0,0,1)] dark:hover:shadow-[4px_4px_0px_0px_rgba(255,255,255,0.2)] hover:-translate-y-1 hover:bg-indigo-50 dark:hover:bg-indigo-900/30"
                 : "bg-slate-100 dark:bg-neutral-900 border-slate-300 dark:border-neutral-800 text-slate-300 dark:text-neutral-700 cursor-not-allowed"
             )}
@@ -817,10 +968,10 @@ export const Dashboard: React.FC = () => {
             <div className="relative">
               <button
                 onClick={() => hasSelection && setShowBulkMoveMenu(!showBulkMoveMenu)}
-                disabled={!hasSelection || isSharedView}
+                disabled={!hasSelection || isReadOnlyListView}
                 className={clsx(
                   "h-[42px] w-[42px] flex items-center justify-center rounded-xl border-2 transition-all",
-                  hasSelection && !isSharedView
+                  hasSelection && !isReadOnlyListView
                     ? "bg-white dark:bg-neutral-800 border-black dark:border-neutral-700 text-emerald-600 dark:text-emerald-400 shadow-[2px_2px_0px_0px_rgba(0,0,0,1)] dark:shadow-[2px_2px_0px_0px_rgba(255,255,255,0.2)] hover:shadow-[4px_4px_0px_0px_rgba(0,0,0,1)] dark:hover:shadow-[4px_4px_0px_0px_rgba(255,255,255,0.2)] hover:-translate-y-1 hover:bg-emerald-50 dark:hover:bg-emerald-900/30"
                     : "bg-slate-100 dark:bg-neutral-900 border-slate-300 dark:border-neutral-800 text-slate-300 dark:text-neutral-700 cursor-not-allowed"
                 )}
@@ -874,10 +1025,10 @@ export const Dashboard: React.FC = () => {
 
           <button
             onClick={() => document.getElementById('dashboard-import')?.click()}
-            disabled={isTrashView || isSharedView}
+            disabled={isTrashView || isReadOnlyListView}
             className={clsx(
               "h-[42px] w-full sm:w-auto flex items-center justify-center gap-2 px-6 rounded-xl border-2 border-black dark:border-neutral-700 shadow-[2px_2px_0px_0px_rgba(0,0,0,1)] dark:shadow-[2px_2px_0px_0px_rgba(255,255,255,0.2)] transition-all font-bold text-sm whitespace-nowrap",
-              isTrashView || isSharedView
+              isTrashView || isReadOnlyListView
                 ? "bg-slate-100 dark:bg-slate-800 text-slate-400 dark:text-slate-600 border-slate-300 dark:border-slate-700 shadow-none cursor-not-allowed"
                 : "bg-emerald-600 dark:bg-neutral-800 text-white hover:shadow-[4px_4px_0px_0px_rgba(0,0,0,1)] dark:hover:shadow-[4px_4px_0px_0px_rgba(255,255,255,0.2)] hover:-translate-y-1 active:translate-y-0 active:shadow-[2px_2px_0px_0px_rgba(0,0,0,1)] dark:active:shadow-[2px_2px_0px_0px_rgba(255,255,255,0.2)]"
             )}
@@ -887,11 +1038,11 @@ export const Dashboard: React.FC = () => {
           </button>
 
           <button
-            onClick={handleCreateDrawing}
-            disabled={isTrashView || isSharedView}
+            onClick={() => setIsTemplatePickerOpen(true)}
+            disabled={isTrashView || isReadOnlyListView}
             className={clsx(
               "h-[42px] w-full sm:w-auto flex items-center justify-center gap-2 px-6 rounded-xl border-2 border-black dark:border-neutral-700 shadow-[2px_2px_0px_0px_rgba(0,0,0,1)] dark:shadow-[2px_2px_0px_0px_rgba(255,255,255,0.2)] transition-all font-bold text-sm whitespace-nowrap",
-              isTrashView || isSharedView
+              isTrashView || isReadOnlyListView
                 ? "bg-slate-100 dark:bg-slate-800 text-slate-400 dark:text-slate-600 border-slate-300 dark:border-slate-700 shadow-none cursor-not-allowed"
                 : "bg-indigo-600 dark:bg-neutral-800 text-white hover:shadow-[4px_4px_0px_0px_rgba(0,0,0,1)] dark:hover:shadow-[4px_4px_0px_0px_rgba(255,255,255,0.2)] hover:-translate-y-1 active:translate-y-0 active:shadow-[2px_2px_0px_0px_rgba(0,0,0,1)] dark:active:shadow-[2px_2px_0px_0px_rgba(255,255,255,0.2)]"
             )}
@@ -902,6 +1053,15 @@ export const Dashboard: React.FC = () => {
         </div>
       </div>
 
+      <TagFilterBar
+        tags={tags}
+        selectedTagIds={selectedTagIds}
+        mode={tagMode}
+        onToggleTag={handleToggleTagFilter}
+        onModeChange={setTagMode}
+        onClear={() => setSelectedTagIds([])}
+      />
+
       <div
         className="min-h-full select-none relative"
         onMouseDown={handleMouseDown}
@@ -918,7 +1078,7 @@ export const Dashboard: React.FC = () => {
           setIsDraggingFile(false);
           dragCounter.current = 0;
           const target = selectedCollectionId === undefined ? null : selectedCollectionId;
-          if (isSharedView) return;
+          if (isReadOnlyListView) return;
           handleDrop(e, target);
         }}
       >
@@ -957,7 +1117,11 @@ export const Dashboard: React.FC = () => {
                 </p>
                 {!isTrashView && (
                   <p className="text-sm mt-2 text-slate-400 dark:text-neutral-500 max-w-xs text-center">
-                    {search ? `No results for "${search}"` : "Create a new drawing to get started!"}
+                    {search
+                      ? `No results for "${search}"`
+                      : selectedTagIds.length > 0
+                        ? "No drawings match the selected tags"
+                        : "Create a new drawing to get started!"}
                   </p>
                 )}
                 {search && (
@@ -976,19 +1140,30 @@ export const Dashboard: React.FC = () => {
                   drawing={drawing}
                   collections={collections}
                   isSelected={selectedIds.has(drawing.id)}
-                  isShared={isSharedView}
+                  isShared={isSharedView || (isStarredView && drawing.accessLevel !== 'owner')}
                   onToggleSelection={(e) => handleToggleSelection(drawing.id, e)}
                   onRename={handleRenameDrawing}
                   onDelete={handleDeleteDrawing}
                   onDuplicate={handleDuplicateDrawing}
+                  onRestore={isTrashView ? handleRestoreDrawing : undefined}
+                  onToggleStar={isTrashView ? undefined : handleToggleStar}
+                  onSetTemplateScope={isTrashView ? undefined : handleSetTemplateScope}
+                  canPublishTemplates={user?.role === 'ADMIN'}
                   onMoveToCollection={handleMoveToCollection}
+                  tags={isTrashView ? undefined : tags}
+                  onSetTags={handleSetDrawingTags}
+                  onCreateTag={handleCreateTag}
+                  onTagClick={(tagId) => {
+                    if (!selectedTagIds.includes(tagId)) handleToggleTagFilter(tagId);
+                  }}
                   onClick={(id, e) => {
                     if (selectedIds.size > 0 || e.shiftKey || e.metaKey || e.ctrlKey) {
                       handleToggleSelection(id, e);
                     } else {
-                      navigate(`/editor/${id}`);
+                      navigate(buildEditorPath(id, drawing.search?.matchedElementIds[0]));
                     }
                   }}
+                  onOpenMatch={(id, elementId) => navigate(buildEditorPath(id, elementId))}
                   onMouseDown={handleCardMouseDown}
                   onDragStart={handleCardDragStart}
                   onPreviewGenerated={handlePreviewGenerated}
@@ -1008,6 +1183,12 @@ export const Dashboard: React.FC = () => {
         </div>
       </div>
 
+      <TemplatePickerModal
+        isOpen={isTemplatePickerOpen}
+        onClose={() => setIsTemplatePickerOpen(false)}
+        onPick={(template) => void handleCreateDrawing(template)}
+      />
+
       <ConfirmModal
         isOpen={!!drawingToDelete}
         title="Delete Drawing"
@@ -1,6 +1,6 @@
-import React, { useCallback, useEffect, useState, useRef } from 'react';
+import React, { useCallback, useEffect, useMemo, useState, useRef } from 'react';
 import { useParams, useNavigate, useLocation } from 'react-router-dom';
-import { ArrowLeft, Download, Loader2, ChevronUp, ChevronDown, Share2 } from 'lucide-react';
+import { ArrowLeft, CloudOff, Download, Loader2, ChevronUp, ChevronDown, RefreshCw, Share2, History, MessageSquare, Presentation, X } from 'lucide-react';
 import clsx from 'clsx';
 import { Excalidraw, exportToSvg } from '@excalidraw/excalidraw';
 import debounce from 'lodash/debounce';
@@ -11,24 +11,65 @@ import type { UserIdentity } from '../utils/identity';
 import { useAuth } from '../context/AuthContext';
 import { applyElementOrder, reconcileElements } from '../utils/sync';
 import { exportFromEditor } from '../utils/exportUtils';
+import { getSocketUrl } from '../utils/socket';
+import {
+  buildOfflineReplay,
+  clearPendingScenes,
+  getPendingSceneKey,
+  isOfflineSaveError,
+  isSamePendingSceneKey,
+  loadPendingScenes,
+  savePendingScene,
+  type PendingScene,
+  type PendingSceneKey,
+} from '../utils/offlineQueue';
+import {
+  isStoredFileRef,
+  loadStoredFile,
+  mergeStoredFileRefs,
+  prepareFilesForSave,
+} from '../utils/drawingFiles';
 import * as api from '../api';
 import { useTheme } from '../context/ThemeContext';
 import {
+  EMBED_UI_OPTIONS,
   UIOptions,
+  getEmbedTheme,
   getFilesDelta,
   hasRenderableElements,
   haveSameElements,
   isSuspiciousEmptySnapshot,
   isStaleEmptySnapshot,
   isStaleNonRenderableSnapshot,
+  readSceneViewport,
+  readSelectedElementIds,
 } from './editor/shared';
+import { fitSharedViewport, isSameViewport, toSharedViewport, type SharedViewport } from './editor/follow';
 import type { ElementVersionInfo } from './editor/shared';
+import {
+  ELEMENT_DELTA_PROTOCOL_VERSION,
+  applyElementDelta,
+  buildElementDelta,
+  isSequenceGap,
+  type ElementDelta,
+} from './editor/deltas';
+import { createLivePersistTracker } from './editor/livePersistence';
 import { useEditorChrome } from './editor/useEditorChrome';
 import { useEditorIdentity } from './editor/useEditorIdentity';
+import { useDrawingComments } from './editor/useDrawingComments';
 import { ShareModal } from '../components/ShareModal';
+import { HistoryPanel } from '../components/HistoryPanel';
+import { DiffOverlay } from '../components/DiffOverlay';
+import { CommentsPanel } from '../components/CommentsPanel';
+import { CommentPins } from '../components/CommentPins';
+import { RemoteSelections, type RemoteSelection } from '../components/RemoteSelections';
+import type { DrawingComment, DrawingDiff } from '../types';
+import { getCommentAnchor, getElementAnchor, groupCommentThreads, type CommentThread } from '../utils/comments';
 
 interface Peer extends UserIdentity {
   isActive: boolean;
+  /** Presence id of the collaborator this peer is following, if any. */
+  followingId?: string | null;
 }
 
 const toFiniteNumber = (value: any): number => {
@@ -68,6 +109,17 @@ const getElementContentSig = (element: any): string => {
   return `${type}|${isDeleted}|${status}|${x}|${y}|${w}|${h}|${angle}|${pointsSig}|${fileId}|${textSig}`;
 };
 
+const RESYNC_TIMEOUT_MS = 5000;
+// Well past the server's longest save delay; after this the edits are saved over HTTP as well.
+const LIVE_PERSIST_TIMEOUT_MS = 20_000;
+
+/** The appState fields that belong to the drawing rather than to one viewer's session. */
+const getCanvasSettingsSig = (appState: any) =>
+  JSON.stringify({
+    viewBackgroundColor: appState?.viewBackgroundColor || '#ffffff',
+    gridSize: appState?.gridSize || null,
+  });
+
 class DrawingSaveConflictError extends Error {
   constructor(message = "Drawing version conflict") {
     super(message);
@@ -75,12 +127,18 @@ class DrawingSaveConflictError extends Error {
   }
 }
 
-export const Editor: React.FC = () => {
+interface EditorProps {
+  /** Chromeless read-only viewer for `/embed/:id`: no header, menus or editing, pan/zoom only. */
+  embedded?: boolean;
+}
+
+export const Editor: React.FC<EditorProps> = ({ embedded = false }) => {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
   const location = useLocation();
   const { theme } = useTheme();
-  const { user } = useAuth();
+  const { user, authEnabled } = useAuth();
+  const currentUserId = user?.id ?? null;
   const autoHideStorageKey = id ? `excalidash:editor:${id}:autoHideEnabled` : null;
   const getStoredAutoHideEnabled = useCallback((): boolean => {
     if (!autoHideStorageKey) return true;
@@ -93,16 +151,31 @@ export const Editor: React.FC = () => {
     }
   }, [autoHideStorageKey]);
   const [accessLevel, setAccessLevel] = useState<"none" | "view" | "edit" | "owner">("none");
-  const canEdit = accessLevel === "edit" || accessLevel === "owner";
+  const canEdit = !embedded && (accessLevel === "edit" || accessLevel === "owner");
   const [drawingName, setDrawingName] = useState('Drawing Editor');
   const [isRenaming, setIsRenaming] = useState(false);
   const [newName, setNewName] = useState('');
   const [initialData, setInitialData] = useState<any>(null);
   const [isSceneLoading, setIsSceneLoading] = useState(true);
   const [loadError, setLoadError] = useState<string | null>(null);
+  const [accessLost, setAccessLost] = useState(false);
   const [isSavingOnLeave, setIsSavingOnLeave] = useState(false);
   const [autoHideEnabled, setAutoHideEnabled] = useState(getStoredAutoHideEnabled);
   const [isShareOpen, setIsShareOpen] = useState(false);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [revisionDiff, setRevisionDiff] = useState<DrawingDiff | null>(null);
+  const [isCommentsOpen, setIsCommentsOpen] = useState(false);
+  const [activeThreadId, setActiveThreadId] = useState<string | null>(null);
+  const {
+    comments,
+    receiveComment,
+    receiveDeletion,
+    addComment,
+    setResolved: setCommentResolved,
+    deleteComment,
+  } = useDrawingComments(id, !embedded);
+  const commentThreads = useMemo(() => groupCommentThreads(comments), [comments]);
+  const openThreadCount = commentThreads.filter((thread) => !thread.root.resolved).length;
   const { isHeaderVisible, setIsHeaderVisible } = useEditorChrome({
     drawingName,
     autoHideEnabled,
@@ -128,6 +201,16 @@ export const Editor: React.FC = () => {
   const socketRef = useRef<Socket | null>(null);
   const lastCursorEmit = useRef<number>(0);
   const elementVersionMap = useRef<Map<string, ElementVersionInfo>>(new Map());
+  // Each element as peers last received it; outgoing deltas are computed against these copies.
+  const lastBroadcastElementsRef = useRef<Map<string, any>>(new Map());
+  const lastRoomSeqRef = useRef<number | null>(null);
+  // While joined to the drawing's room, the server keeps the scene and saves it; edits sent there
+  // only count as saved once a `room-persisted` covers them (see livePersistence).
+  const inLiveRoomRef = useRef(false);
+  const livePersistRef = useRef(createLivePersistTracker());
+  const livePersistCheckTimerRef = useRef<number | null>(null);
+  const saveSceneOverHttpRef = useRef<((drawingId: string) => void) | null>(null);
+  const lastPersistedCanvasSettingsRef = useRef<string | null>(null);
   const isBootstrappingScene = useRef(true);
   const hasHydratedInitialScene = useRef(false);
   const isUnmounting = useRef(false);
@@ -148,12 +231,44 @@ export const Editor: React.FC = () => {
   const patchedAddFilesApisRef = useRef<WeakSet<object>>(new WeakSet());
   const suspiciousBlankLoadRef = useRef(false);
   const hasSceneChangesSinceLoadRef = useRef(false);
+  // Offline queue: while a stored scene is waiting to be replayed, saves go to IndexedDB only.
+  const hasOfflineChangesRef = useRef(false);
+  const replayingOfflineChangesRef = useRef(false);
+  const offlineSyncInFlightRef = useRef(false);
+  // Queue entries this tab wrote or merged in; a successful save of their drawing clears them.
+  const ownPendingSceneKeysRef = useRef<PendingSceneKey[]>([]);
+  const syncOfflineChangesRef = useRef<(() => Promise<void>) | null>(null);
+  const hydrateStoredFileRefsRef = useRef<((files: Record<string, any>) => void) | null>(null);
+  const [hasOfflineChanges, setHasOfflineChanges] = useState(false);
+  const [isOnline, setIsOnline] = useState(() => typeof navigator === 'undefined' || navigator.onLine);
   const lastLocalChangeAtRef = useRef<number>(0);
   const pendingRemoteElementsRef = useRef<Map<string, any>>(new Map());
   const pendingRemoteFilesRef = useRef<Record<string, any>>({});
   const pendingRemoteElementOrderRef = useRef<string[] | null>(null);
   const remoteFlushScheduledRef = useRef(false);
   const remoteFlushRafIdRef = useRef<number | null>(null);
+  const [followingId, setFollowingId] = useState<string | null>(null);
+  const followingIdRef = useRef<string | null>(null);
+  const leaderViewportRef = useRef<SharedViewport | null>(null);
+  const followerCountRef = useRef(0);
+  const lastSentViewportRef = useRef<SharedViewport | null>(null);
+  // Element ids each collaborator has selected, keyed by presence id.
+  const [remoteSelectionIds, setRemoteSelectionIds] = useState<Record<string, string[]>>({});
+  const lastSentSelectionRef = useRef<string>("");
+  const followedPeer = followingId ? peers.find((peer) => peer.id === followingId) ?? null : null;
+  const followerCount = peers.filter((peer) => peer.followingId === socketMe.id).length;
+  const remoteSelections = useMemo<RemoteSelection[]>(
+    () =>
+      peers
+        .filter((peer) => remoteSelectionIds[peer.id]?.length)
+        .map((peer) => ({
+          userId: peer.id,
+          name: peer.name,
+          color: peer.color,
+          elementIds: remoteSelectionIds[peer.id],
+        })),
+    [peers, remoteSelectionIds]
+  );
 
   useEffect(() => {
     setAutoHideEnabled(getStoredAutoHideEnabled());
@@ -291,12 +406,13 @@ export const Editor: React.FC = () => {
         dbg.lastFilesDeltaIds = Object.keys(filesDelta);
       }
 
-      socketRef.current.emit("element-update", {
+      socketRef.current.emit("element-delta", {
+        v: ELEMENT_DELTA_PROTOCOL_VERSION,
         drawingId: id,
-        elements: [],
+        deltas: [],
         files: filesDelta,
-        userId: socketMeRef.current.id,
       });
+      livePersistRef.current.noteSent();
 
       return true;
     },
@@ -304,6 +420,7 @@ export const Editor: React.FC = () => {
   );
 
   const recordElementVersion = useCallback((element: any) => {
+    lastBroadcastElementsRef.current.set(element.id, element);
     elementVersionMap.current.set(element.id, {
       version: element.version ?? 0,
       versionNonce: element.versionNonce ?? 0,
@@ -362,14 +479,84 @@ export const Editor: React.FC = () => {
     };
   }, []);
 
+  // Keeps a follower's viewport locked to the leader's last broadcast, refitted to this canvas.
+  const applyLeaderViewport = useCallback(() => {
+    const canvas = excalidrawAPI.current;
+    const shared = leaderViewportRef.current;
+    const appState = canvas?.getAppState?.();
+    const current = readSceneViewport(appState);
+    if (!canvas || !shared || !current) return;
+    const target = fitSharedViewport(shared, {
+      width: Number(appState.width) || shared.width,
+      height: Number(appState.height) || shared.height,
+    });
+    if (isSameViewport(current, target)) return;
+    canvas.updateScene({
+      appState: { scrollX: target.scrollX, scrollY: target.scrollY, zoom: { value: target.zoom } },
+    });
+  }, []);
+
+  const followPeer = useCallback((leaderId: string | null) => {
+    followingIdRef.current = leaderId;
+    leaderViewportRef.current = null;
+    setFollowingId(leaderId);
+    socketRef.current?.emit('follow-user', { drawingId: id, leaderId });
+  }, [id]);
+
+  const emitViewport = useMemo(
+    () =>
+      throttle((appState: any) => {
+        const viewport = toSharedViewport(appState);
+        if (!viewport || !socketRef.current) return;
+        // onChange also fires for edits and selection; only actual scroll/zoom/resize goes out.
+        const last = lastSentViewportRef.current;
+        if (
+          last &&
+          last.width === viewport.width &&
+          last.height === viewport.height &&
+          isSameViewport(
+            { scrollX: last.centerX, scrollY: last.centerY, zoom: last.zoom },
+            { scrollX: viewport.centerX, scrollY: viewport.centerY, zoom: viewport.zoom }
+          )
+        ) {
+          return;
+        }
+        lastSentViewportRef.current = viewport;
+        socketRef.current.emit('viewport-update', { drawingId: id, ...viewport });
+      }, 50),
+    [id]
+  );
+
+  useEffect(() => () => emitViewport.cancel(), [emitViewport]);
+
+  const emitSelection = useMemo(
+    () =>
+      throttle((selectedElementIds: string[]) => {
+        socketRef.current?.emit('selection-change', { drawingId: id, selectedElementIds });
+      }, 100),
+    [id]
+  );
+
+  useEffect(() => () => emitSelection.cancel(), [emitSelection]);
+
+  const handleSelectionChange = useCallback((appState: any) => {
+    const selectedElementIds = readSelectedElementIds(appState);
+    const signature = selectedElementIds.join(",");
+    if (signature === lastSentSelectionRef.current) return;
+    lastSentSelectionRef.current = signature;
+    emitSelection(selectedElementIds);
+  }, [emitSelection]);
+
+  const handleViewportChange = useCallback((appState: any) => {
+    if (followingIdRef.current) applyLeaderViewport();
+    // Only stream the viewport while someone follows us; following chains pass it along.
+    if (followerCountRef.current > 0) emitViewport(appState);
+  }, [applyLeaderViewport, emitViewport]);
+
   useEffect(() => {
     if (!id || !isReady) return;
 
-    const socketUrl = import.meta.env.VITE_API_URL === '/api'
-      ? window.location.origin
-      : (import.meta.env.VITE_API_URL || 'http://localhost:8000');
-
-    const socket = io(socketUrl, {
+    const socket = io(getSocketUrl(), {
       path: '/socket.io',
       transports: ['websocket', 'polling'],
       withCredentials: true,
@@ -388,7 +575,31 @@ export const Editor: React.FC = () => {
       });
     }
 
-    socket.emit('join-room', { drawingId: id, user: me }, (payload: any) => {
+    // A reconnect after a network drop is the other signal that queued offline work can go out.
+    const handleReconnect = () => {
+      void syncOfflineChangesRef.current?.();
+    };
+    socket.io.on('reconnect', handleReconnect);
+    // The new connection is not in the room, so saving goes back to HTTP, starting with whatever
+    // the room may not have received or saved.
+    const handleDisconnect = () => {
+      inLiveRoomRef.current = false;
+      if (livePersistRef.current.noteFailed()) saveSceneOverHttpRef.current?.(id);
+    };
+    socket.on('disconnect', handleDisconnect);
+
+    // Embeds follow the room as viewers, so they never show up in the collaborators' presence list.
+    const joinPayload = {
+      drawingId: id,
+      version: currentDrawingVersionRef.current ?? undefined,
+      ...(embedded ? { viewer: true } : { user: me }),
+    };
+    lastRoomSeqRef.current = null;
+    socket.emit('join-room', joinPayload, (payload: any) => {
+      if (typeof payload?.seq === 'number') {
+        lastRoomSeqRef.current = Math.max(lastRoomSeqRef.current ?? 0, payload.seq);
+      }
+      inLiveRoomRef.current = true;
       const serverUser = payload?.user;
       if (!serverUser || typeof serverUser.id !== "string") return;
       const next: UserIdentity = {
@@ -421,10 +632,38 @@ export const Editor: React.FC = () => {
     renderLoop();
 
     socket.on('presence-update', (users: Peer[]) => {
+      const previousUsers = lastPresenceUsersRef.current;
       lastPresenceUsersRef.current = users;
       const selfId = socketMeRef.current.id;
       setPeers(users.filter(u => u.id !== selfId));
 
+      const presentIds = new Set(users.map((u) => u.id));
+      setRemoteSelectionIds((prev) => {
+        const stale = Object.keys(prev).filter((userId) => !presentIds.has(userId));
+        if (stale.length === 0) return prev;
+        const next = { ...prev };
+        stale.forEach((userId) => delete next[userId]);
+        return next;
+      });
+      // Late joiners haven't seen our selection yet; send it again.
+      if (users.length > (previousUsers?.length ?? 0) && lastSentSelectionRef.current && excalidrawAPI.current) {
+        lastSentSelectionRef.current = "";
+        handleSelectionChange(excalidrawAPI.current.getAppState());
+      }
+
+      const previousFollowerCount = followerCountRef.current;
+      followerCountRef.current = users.filter((u) => u.id !== selfId && u.followingId === selfId).length;
+      if (followerCountRef.current > previousFollowerCount && excalidrawAPI.current) {
+        // Give new followers our current view straight away.
+        lastSentViewportRef.current = null;
+        emitViewport(excalidrawAPI.current.getAppState());
+      }
+      const leaderId = followingIdRef.current;
+      if (leaderId && !users.some((u) => u.id === leaderId)) {
+        followPeer(null);
+        toast.info('The person you were following left');
+      }
+
       if (excalidrawAPI.current) {
         const collaborators = new Map(excalidrawAPI.current.getAppState().collaborators || []);
         users.forEach(user => {
@@ -453,17 +692,84 @@ export const Editor: React.FC = () => {
       if (message) toast.error(message);
     });
 
+    // The server refused one of our edits (malformed, oversized or rate limited), so the room will
+    // not save it: save the scene over HTTP instead. Collaborators pick it up on their next load.
+    // One toast per reason.
+    socket.on('element-update-rejected', (payload: any) => {
+      if (payload?.drawingId === id && livePersistRef.current.noteFailed()) {
+        saveSceneOverHttpRef.current?.(id);
+      }
+      const code = typeof payload?.code === 'string' ? payload.code : 'unknown';
+      const message = typeof payload?.message === 'string' ? payload.message : 'Update was not shared';
+      console.warn('[Editor] Element update rejected:', payload);
+      toast.error(`Live sync: ${message}`, { id: `element-update-rejected:${code}` });
+    });
+
+    // The owner changed sharing while we had the drawing open: the server has already re-checked
+    // this socket, so mirror its verdict instead of waiting for the next save to fail.
+    socket.on('access-changed', (payload: any) => {
+      if (payload?.drawingId !== id) return;
+      const access = payload?.access;
+      if (access === 'none') {
+        // We have already been dropped from the room; nothing live from it is trustworthy any more.
+        followingIdRef.current = null;
+        leaderViewportRef.current = null;
+        setFollowingId(null);
+        setPeers([]);
+        setRemoteSelectionIds({});
+        setAccessLevel('none');
+        setAccessLost(true);
+        setLoadError('The owner removed your access to this drawing.');
+        setInitialData(null);
+        return;
+      }
+      if (access !== 'view' && access !== 'edit' && access !== 'owner') return;
+      setAccessLevel(access);
+      if (access === 'view') {
+        toast('Your access changed to view only', { id: 'access-changed' });
+      } else {
+        toast.success('You can now edit this drawing', { id: 'access-changed' });
+      }
+    });
+
     socket.on('cursor-move', (data: any) => {
       cursorBuffer.current.set(data.userId, {
         pointer: data.pointer,
         button: data.button || 'up',
-        selectedElementIds: data.selectedElementIds || {},
         username: data.username,
         color: { background: data.color, stroke: data.color },
         id: data.userId,
       });
     });
 
+    socket.on('selection-change', (data: any) => {
+      if (typeof data?.userId !== 'string' || !Array.isArray(data.selectedElementIds)) return;
+      const selectedElementIds: string[] = data.selectedElementIds.filter((value: unknown) => typeof value === 'string');
+      setRemoteSelectionIds((prev) => {
+        if (selectedElementIds.length === 0 && !prev[data.userId]) return prev;
+        const next = { ...prev };
+        if (selectedElementIds.length === 0) delete next[data.userId];
+        else next[data.userId] = selectedElementIds;
+        return next;
+      });
+    });
+
+    socket.on('viewport-update', (data: any) => {
+      if (!data || data.userId !== followingIdRef.current) return;
+      const { centerX, centerY, zoom, width, height } = data;
+      leaderViewportRef.current = { centerX, centerY, zoom, width, height };
+      applyLeaderViewport();
+    });
+
+    socket.on('follow-request', (data: any) => {
+      if (embedded || typeof data?.userId !== 'string' || data.userId === socketMeRef.current.id) return;
+      followPeer(data.userId);
+      const name = typeof data.username === 'string' ? data.username : 'A collaborator';
+      toast(`${name} asked everyone to follow their view`, {
+        action: { label: 'Stop following', onClick: () => followPeer(null) },
+      });
+    });
+
     const hasNonEmptyArray = (value: unknown): value is any[] =>
       Array.isArray(value) && value.length > 0;
 
@@ -559,41 +865,189 @@ export const Editor: React.FC = () => {
       remoteFlushRafIdRef.current = requestAnimationFrame(flushRemoteUpdates);
     };
 
-    socket.on(
-      "element-update",
-      ({
-        elements,
-        files,
-        elementOrder,
-      }: {
-        elements: any[];
-        files?: Record<string, any>;
-        elementOrder?: string[];
-      }) => {
-        if (Array.isArray(elements)) {
-          for (const el of elements) {
-            const id = el?.id;
-            if (typeof id === "string" && id.length > 0) {
-              pendingRemoteElementsRef.current.set(id, el);
-            }
+    const queueRemoteScene = ({
+      elements,
+      files,
+      elementOrder,
+    }: {
+      elements?: any[] | null;
+      files?: Record<string, any>;
+      elementOrder?: string[];
+    }) => {
+      if (Array.isArray(elements)) {
+        for (const el of elements) {
+          const id = el?.id;
+          if (typeof id === "string" && id.length > 0) {
+            pendingRemoteElementsRef.current.set(id, el);
           }
         }
+      }
+
+      if (files && typeof files === "object") {
+        pendingRemoteFilesRef.current = {
+          ...pendingRemoteFilesRef.current,
+          ...files,
+        };
+      }
+
+      if (Array.isArray(elementOrder) && elementOrder.length > 0) {
+        pendingRemoteElementOrderRef.current = elementOrder;
+      }
 
-        if (files && typeof files === "object") {
-          pendingRemoteFilesRef.current = {
-            ...pendingRemoteFilesRef.current,
-            ...files,
-          };
+      scheduleRemoteFlush();
+    };
+
+    // Resync: one request in flight at a time; anything asked for meanwhile goes out after it.
+    let resyncTimer: number | null = null;
+    let queuedResync: Set<string> | 'full' | null = null;
+
+    const reloadFromServer = async () => {
+      try {
+        const latest = await api.getDrawing(id);
+        queueRemoteScene({ elements: latest.elements || [] });
+        hydrateStoredFileRefsRef.current?.(latest.files || {});
+      } catch (err) {
+        console.warn('[Editor] Failed to reload drawing after a missed update', err);
+      }
+    };
+
+    const requestResync = (elementIds?: string[]) => {
+      if (resyncTimer !== null) {
+        if (!elementIds || queuedResync === 'full') {
+          queuedResync = 'full';
+        } else {
+          queuedResync = new Set([...(queuedResync ?? []), ...elementIds]);
         }
+        return;
+      }
+      socket.emit('resync-request', { drawingId: id, ...(elementIds ? { elementIds } : {}) });
+      resyncTimer = window.setTimeout(() => {
+        // Nobody answered; the stored copy is the next best thing.
+        resyncTimer = null;
+        void reloadFromServer();
+      }, RESYNC_TIMEOUT_MS);
+    };
+
+    const noteRoomSeq = (seq: unknown) => {
+      if (typeof seq !== 'number') return;
+      if (isSequenceGap(lastRoomSeqRef.current, seq)) {
+        console.warn('[Editor] Missed live updates, resyncing', { lastSeq: lastRoomSeqRef.current, seq });
+        requestResync();
+      }
+      lastRoomSeqRef.current = Math.max(lastRoomSeqRef.current ?? 0, seq);
+    };
+
+    // Protocol v1, still relayed for clients that have not reloaded since the upgrade.
+    socket.on("element-update", (payload: any) => {
+      noteRoomSeq(payload?.seq);
+      queueRemoteScene(payload ?? {});
+    });
 
-        if (Array.isArray(elementOrder) && elementOrder.length > 0) {
-          pendingRemoteElementOrderRef.current = elementOrder;
+    socket.on('element-delta', (payload: any) => {
+      if (payload?.v !== ELEMENT_DELTA_PROTOCOL_VERSION) return;
+      noteRoomSeq(payload.seq);
+      const deltas: ElementDelta[] = Array.isArray(payload.deltas) ? payload.deltas : [];
+      const applied: any[] = [];
+      const missing: string[] = [];
+      if (deltas.length > 0) {
+        const scene = excalidrawAPI.current?.getSceneElementsIncludingDeleted() ?? [];
+        const sceneById = new Map<string, any>(scene.map((el: any) => [el.id, el]));
+        for (const delta of deltas) {
+          if (typeof delta?.id !== 'string') continue;
+          // Deltas queued for the next frame are the newest local copy of their element.
+          const local = pendingRemoteElementsRef.current.get(delta.id) ?? sceneById.get(delta.id);
+          const result = applyElementDelta(local, delta);
+          if (result.kind === 'applied') {
+            pendingRemoteElementsRef.current.set(delta.id, result.element);
+            applied.push(result.element);
+          } else if (result.kind === 'missing-base') {
+            missing.push(delta.id);
+          }
         }
+      }
+      if (missing.length > 0) requestResync(missing);
+      queueRemoteScene({ elements: applied, files: payload.files, elementOrder: payload.elementOrder });
+    });
 
-        scheduleRemoteFlush();
+    socket.on('element-delta-ack', (payload: any) => {
+      if (payload?.drawingId !== id) return;
+      noteRoomSeq(payload.seq);
+      if (typeof payload.seq === 'number') livePersistRef.current.noteAck(payload.seq);
+      // The room could not rebuild these from our deltas; send them whole.
+      const resend = Array.isArray(payload.resend) ? new Set<string>(payload.resend) : null;
+      const excalidraw = excalidrawAPI.current;
+      if (!resend || resend.size === 0 || !excalidraw) return;
+      const deltas = excalidraw
+        .getSceneElementsIncludingDeleted()
+        .filter((el: any) => resend.has(el.id))
+        .map((el: any) => buildElementDelta(undefined, el));
+      if (deltas.length > 0) {
+        livePersistRef.current.noteSent();
+        socket.emit('element-delta', { v: ELEMENT_DELTA_PROTOCOL_VERSION, drawingId: id, deltas });
       }
-    );
+    });
+
+    const noteDrawingVersion = (version: unknown) => {
+      if (typeof version === 'number' && version > (currentDrawingVersionRef.current ?? 0)) {
+        currentDrawingVersionRef.current = version;
+      }
+    };
+
+    socket.on('room-persisted', (payload: any) => {
+      if (payload?.drawingId !== id) return;
+      noteDrawingVersion(payload.version);
+      if (typeof payload.seq === 'number' && livePersistRef.current.notePersisted(payload.seq)) {
+        lastPersistedElementsRef.current = latestElementsRef.current;
+      }
+    });
 
+    // Sent on join when the room holds changes newer than the copy this editor loaded.
+    socket.on('room-scene', (payload: any) => {
+      if (payload?.drawingId !== id || !Array.isArray(payload.elements)) return;
+      if (typeof payload.seq === 'number') {
+        lastRoomSeqRef.current = Math.max(lastRoomSeqRef.current ?? 0, payload.seq);
+      }
+      noteDrawingVersion(payload.version);
+      const files: Record<string, any> = payload.files || {};
+      const storedRefs = Object.fromEntries(
+        Object.entries(files).filter(([, file]) => isStoredFileRef(file))
+      );
+      queueRemoteScene({
+        elements: payload.elements,
+        files: Object.fromEntries(Object.entries(files).filter(([fileId]) => !(fileId in storedRefs))),
+        elementOrder: payload.elementOrder,
+      });
+      hydrateStoredFileRefsRef.current?.(storedRefs);
+    });
+
+    socket.on('resync', (payload: any) => {
+      if (payload?.drawingId !== id) return;
+      if (resyncTimer !== null) {
+        window.clearTimeout(resyncTimer);
+        resyncTimer = null;
+      }
+      if (typeof payload.seq === 'number') {
+        lastRoomSeqRef.current = Math.max(lastRoomSeqRef.current ?? 0, payload.seq);
+      }
+      if (Array.isArray(payload.elements)) {
+        queueRemoteScene(payload);
+      } else {
+        void reloadFromServer();
+      }
+      const next = queuedResync;
+      queuedResync = null;
+      if (next) requestResync(next === 'full' ? undefined : [...next]);
+    });
+
+    socket.on('comment-created', (payload: any) => {
+      if (payload?.comment) receiveComment(api.deserializeDrawingComment(payload.comment));
+    });
+    socket.on('comment-updated', (payload: any) => {
+      if (payload?.comment) receiveComment(api.deserializeDrawingComment(payload.comment));
+    });
+    socket.on('comment-deleted', (payload: any) => {
+      if (typeof payload?.commentId === "string") receiveDeletion(payload.commentId);
+    });
 
     const handleActivity = (isActive: boolean) => {
       socket.emit('user-activity', { drawingId: id, isActive });
@@ -616,9 +1070,37 @@ export const Editor: React.FC = () => {
       document.removeEventListener('mouseleave', onMouseLeave);
       socket.off('presence-update');
       socket.off('error');
+      socket.off('element-update-rejected');
+      socket.off('access-changed');
       socket.off('cursor-move');
       socket.off('element-update');
+      socket.off('element-delta');
+      socket.off('element-delta-ack');
+      socket.off('room-persisted');
+      socket.off('room-scene');
+      socket.off('resync');
+      socket.off('disconnect', handleDisconnect);
+      inLiveRoomRef.current = false;
+      if (livePersistCheckTimerRef.current !== null) {
+        window.clearTimeout(livePersistCheckTimerRef.current);
+        livePersistCheckTimerRef.current = null;
+      }
+      if (livePersistRef.current.noteFailed()) saveSceneOverHttpRef.current?.(id);
+      if (resyncTimer !== null) window.clearTimeout(resyncTimer);
+      socket.off('comment-created');
+      socket.off('comment-updated');
+      socket.off('comment-deleted');
+      socket.off('selection-change');
+      socket.off('viewport-update');
+      socket.off('follow-request');
+      socket.io.off('reconnect', handleReconnect);
       socket.disconnect();
+      followingIdRef.current = null;
+      leaderViewportRef.current = null;
+      followerCountRef.current = 0;
+      setFollowingId(null);
+      lastSentSelectionRef.current = "";
+      setRemoteSelectionIds({});
       if (remoteFlushRafIdRef.current !== null) {
         cancelAnimationFrame(remoteFlushRafIdRef.current);
         remoteFlushRafIdRef.current = null;
@@ -632,6 +1114,7 @@ export const Editor: React.FC = () => {
   }, [
     id,
     me,
+    embedded,
     isReady,
     recordElementVersion,
     computeElementOrderSig,
@@ -639,6 +1122,12 @@ export const Editor: React.FC = () => {
     location.pathname,
     location.search,
     location.hash,
+    receiveComment,
+    receiveDeletion,
+    applyLeaderViewport,
+    emitViewport,
+    followPeer,
+    handleSelectionChange,
   ]);
 
   const onPointerUpdate = useCallback((payload: any) => {
@@ -688,6 +1177,34 @@ export const Editor: React.FC = () => {
     setIsReady(true);
   }, [emitFilesDeltaIfNeeded, id]);
 
+  // Stored images are fetched after the scene renders. They are already persisted and every peer
+  // can load them too, so they are added without broadcasting a files delta or scheduling a save.
+  const hydrateStoredFileRefs = useCallback((files: Record<string, any>) => {
+    if (!id) return;
+    for (const ref of Object.values(files || {})) {
+      if (!isStoredFileRef(ref)) continue;
+      void loadStoredFile(ref, id).then((file) => {
+        const excalidraw = excalidrawAPI.current;
+        if (!file || !excalidraw || typeof excalidraw.addFiles !== "function") return;
+        isSyncing.current = true;
+        try {
+          excalidraw.addFiles([file]);
+        } finally {
+          isSyncing.current = false;
+        }
+        latestFilesRef.current = { ...(latestFilesRef.current || {}), [file.id]: file };
+        lastSyncedFilesRef.current = { ...lastSyncedFilesRef.current, [file.id]: file };
+        lastPersistedFilesRef.current = { ...lastPersistedFilesRef.current, [file.id]: file };
+      });
+    }
+  }, [id]);
+  hydrateStoredFileRefsRef.current = hydrateStoredFileRefs;
+
+  useEffect(() => {
+    if (!isReady || !initialData) return;
+    hydrateStoredFileRefs(lastPersistedFilesRef.current);
+  }, [hydrateStoredFileRefs, initialData, isReady]);
+
   useEffect(() => {
     if (!isReady || !excalidrawAPI.current) return;
 
@@ -771,6 +1288,30 @@ export const Editor: React.FC = () => {
     importLibraryFromUrl();
   }, [isReady]);
 
+  // Dashboard search results open the editor with `?focus=<elementId>`; zoom to that hit.
+  const focusElementId = new URLSearchParams(location.search).get('focus');
+  useEffect(() => {
+    if (!isReady || !focusElementId) return;
+
+    // The initial scene is applied asynchronously after the API becomes available.
+    let attempts = 0;
+    let frameId = 0;
+    const focusElement = () => {
+      const api = excalidrawAPI.current;
+      const target = api
+        ?.getSceneElements?.()
+        .find((element: any) => element.id === focusElementId && !element.isDeleted);
+      if (!api || !target) {
+        if (++attempts < 60) frameId = requestAnimationFrame(focusElement);
+        return;
+      }
+      api.scrollToContent(target, { fitToViewport: true, viewportZoomFactor: 0.5, animate: true });
+      api.updateScene({ appState: { selectedElementIds: { [target.id]: true } } });
+    };
+    frameId = requestAnimationFrame(focusElement);
+    return () => cancelAnimationFrame(frameId);
+  }, [isReady, focusElementId]);
+
   const buildEmptyScene = useCallback(() => ({
     elements: [],
     appState: {
@@ -786,9 +1327,34 @@ export const Editor: React.FC = () => {
   const savePreviewRef = useRef<((drawingId: string, elements: readonly any[], appState: any, files: any) => Promise<void>) | null>(null);
   const saveLibraryRef = useRef<((items: any[]) => Promise<void>) | null>(null);
 
+  const notePendingSceneKey = useCallback((key: PendingSceneKey) => {
+    if (ownPendingSceneKeysRef.current.some((known) => isSamePendingSceneKey(known, key))) return;
+    ownPendingSceneKeysRef.current = [...ownPendingSceneKeysRef.current, key];
+  }, []);
+
+  // Falls back to an HTTP save when the room has not confirmed our edits in time.
+  const scheduleLivePersistCheck = (drawingId: string) => {
+    if (livePersistCheckTimerRef.current !== null) return;
+    livePersistCheckTimerRef.current = window.setTimeout(() => {
+      livePersistCheckTimerRef.current = null;
+      if (livePersistRef.current.hasUnpersisted()) saveSceneOverHttpRef.current?.(drawingId);
+    }, LIVE_PERSIST_TIMEOUT_MS);
+  };
+
   saveDataRef.current = async (drawingId: string, elements: readonly any[], appState: any, files?: Record<string, any>) => {
     if (!drawingId) return;
 
+    let offlineScene: PendingScene | null = null;
+    const liveTracker = livePersistRef.current;
+    const liveEpoch = liveTracker.beginHttpSave();
+    const keepOffline = async (scene: PendingScene) => {
+      await savePendingScene(scene);
+      notePendingSceneKey(getPendingSceneKey(scene));
+      hasOfflineChangesRef.current = true;
+      setHasOfflineChanges(true);
+      liveTracker.finishHttpSave(liveEpoch);
+    };
+
     try {
       const persistableAppState = {
         ...appState,
@@ -822,7 +1388,10 @@ export const Editor: React.FC = () => {
         });
         return;
       }
-      const persistableFiles = files ?? latestFilesRef.current ?? {};
+      const persistableFiles = mergeStoredFileRefs(
+        files ?? latestFilesRef.current ?? {},
+        lastPersistedFilesRef.current
+      );
       const filesChangedSincePersist =
         Object.keys(getFilesDelta(lastPersistedFilesRef.current || {}, persistableFiles || {}))
           .length > 0;
@@ -831,6 +1400,37 @@ export const Editor: React.FC = () => {
         persistableFiles
       );
       const normalizedElementsForSave = Array.from(normalizedElements);
+      offlineScene = {
+        userId: currentUserId,
+        drawingId,
+        baseVersion: currentDrawingVersionRef.current,
+        elements: normalizedElementsForSave,
+        appState: persistableAppState,
+        files: persistableFiles,
+        savedAt: Date.now(),
+      };
+      if (hasOfflineChangesRef.current && !replayingOfflineChangesRef.current) {
+        // Earlier work is still queued; keep this on top of it and let the replay merge both.
+        await keepOffline(offlineScene);
+        void syncOfflineChangesRef.current?.();
+        return;
+      }
+      if (
+        inLiveRoomRef.current &&
+        !replayingOfflineChangesRef.current &&
+        !liveTracker.needsHttpSave(Date.now(), LIVE_PERSIST_TIMEOUT_MS)
+      ) {
+        // The room has these elements and files and saves them itself; only the canvas settings
+        // collaborators share still go over HTTP, and only when they change.
+        scheduleLivePersistCheck(drawingId);
+        const canvasSettingsSig = getCanvasSettingsSig(persistableAppState);
+        if (canvasSettingsSig !== lastPersistedCanvasSettingsRef.current) {
+          await api.updateDrawing(drawingId, { appState: persistableAppState });
+          lastPersistedCanvasSettingsRef.current = canvasSettingsSig;
+        }
+        return;
+      }
+      const filesForSave = filesChangedSincePersist ? await prepareFilesForSave(persistableFiles) : null;
 
       console.log("[Editor] Saving drawing", {
         drawingId,
@@ -844,16 +1444,41 @@ export const Editor: React.FC = () => {
           const updated = await api.updateDrawing(drawingId, {
             elements: normalizedElementsForSave,
             appState: persistableAppState,
-            ...(filesChangedSincePersist ? { files: persistableFiles } : {}),
+            ...(filesForSave ? { files: filesForSave } : {}),
             version: currentDrawingVersionRef.current ?? undefined,
+            merge: true,
           });
           if (typeof updated.version === "number") {
             currentDrawingVersionRef.current = updated.version;
           }
           lastPersistedElementsRef.current = normalizedElementsForSave;
+          if (updated.merged && Array.isArray(updated.elements)) {
+            // Someone else saved first; the server merged both scenes, so pull their part in too.
+            console.warn("[Editor] Save merged with a newer version", {
+              drawingId,
+              version: updated.version,
+            });
+            lastPersistedElementsRef.current = updated.elements;
+            const excalidraw = excalidrawAPI.current;
+            if (excalidraw && drawingId === id) {
+              const next = reconcileElements(latestElementsRef.current ?? [], updated.elements);
+              latestElementsRef.current = next;
+              excalidraw.updateScene({ elements: next });
+              hydrateStoredFileRefs(updated.files || {});
+            }
+          }
           if (filesChangedSincePersist) {
             lastPersistedFilesRef.current = persistableFiles;
           }
+          if (hasOfflineChangesRef.current) {
+            hasOfflineChangesRef.current = false;
+            setHasOfflineChanges(false);
+            const savedKeys = ownPendingSceneKeysRef.current.filter((key) => key[1] === drawingId);
+            ownPendingSceneKeysRef.current = ownPendingSceneKeysRef.current.filter((key) => key[1] !== drawingId);
+            await clearPendingScenes(savedKeys).catch((err) => {
+              console.warn("[Editor] Failed to clear offline changes", err);
+            });
+          }
           console.log("[Editor] Save complete", { drawingId });
         } catch (err) {
           if (api.isAxiosError(err) && err.response?.status === 409) {
@@ -880,12 +1505,25 @@ export const Editor: React.FC = () => {
       };
 
       await persistScene(0);
+      liveTracker.finishHttpSave(liveEpoch);
     } catch (err) {
       if (err instanceof DrawingSaveConflictError) {
         console.warn("[Editor] Version conflict while saving drawing", { drawingId });
         toast.error("Drawing changed in another tab. Refresh to load latest.");
         throw err;
       }
+      if (offlineScene && isOfflineSaveError(err)) {
+        try {
+          await keepOffline(offlineScene);
+          console.warn("[Editor] Server unreachable, kept changes on this device", { drawingId });
+          toast("You're offline. Changes are kept on this device and sync when you reconnect.", {
+            id: 'offline-save',
+          });
+          return;
+        } catch (storeErr) {
+          console.error('Failed to keep changes offline', storeErr);
+        }
+      }
       console.error('Failed to save drawing', err);
       toast.error("Failed to save changes");
       throw err;
@@ -920,6 +1558,96 @@ export const Editor: React.FC = () => {
     []
   );
 
+  saveSceneOverHttpRef.current = (drawingId: string) => {
+    const appState = latestAppStateRef.current;
+    if (!appState) return;
+    void enqueueSceneSave(drawingId, latestElementsRef.current, appState, latestFilesRef.current ?? undefined);
+  };
+
+  // Replays a scene queued while offline: merge it with whatever the server has now (edits made
+  // elsewhere in the meantime included) and save on top of the current version, so it never
+  // goes through the version-conflict path.
+  const syncOfflineChanges = useCallback(async () => {
+    if (!id || !canEdit || offlineSyncInFlightRef.current) return;
+    if (typeof navigator !== 'undefined' && navigator.onLine === false) return;
+    offlineSyncInFlightRef.current = true;
+    try {
+      const pending = await loadPendingScenes(currentUserId, id).catch(() => []);
+      if (pending.length === 0) return;
+      hasOfflineChangesRef.current = true;
+      setHasOfflineChanges(true);
+      await saveQueueRef.current.catch(() => undefined);
+
+      const server = await api.getDrawing(id);
+      const serverFiles = server.files || {};
+      const { elements: merged, files } = buildOfflineReplay({
+        pending,
+        server: { elements: server.elements || [], files: serverFiles },
+        local: { elements: latestElementsRef.current ?? [], files: latestFilesRef.current },
+      });
+      // The replayed save covers these entries, so it clears them like this tab's own.
+      pending.forEach((scene) => notePendingSceneKey(getPendingSceneKey(scene)));
+      console.log("[Editor] Replaying offline changes", {
+        drawingId: id,
+        baseVersions: pending.map((scene) => scene.baseVersion),
+        serverVersion: server.version ?? null,
+        elementCount: merged.length,
+      });
+
+      currentDrawingVersionRef.current = typeof server.version === "number" ? server.version : null;
+      latestElementsRef.current = merged;
+      latestFilesRef.current = files;
+      const excalidraw = excalidrawAPI.current;
+      if (excalidraw) {
+        const localFiles = pending
+          .flatMap((scene) => Object.values(scene.files || {}))
+          .filter((file) => !isStoredFileRef(file));
+        if (localFiles.length > 0) excalidraw.addFiles(localFiles);
+        // Goes through onChange like any edit, so peers receive the offline work as well.
+        excalidraw.updateScene({ elements: merged });
+        hydrateStoredFileRefs(serverFiles);
+      }
+
+      replayingOfflineChangesRef.current = true;
+      try {
+        const appState = latestAppStateRef.current ?? pending[pending.length - 1].appState;
+        await enqueueSceneSave(id, merged, appState, files, {
+          suppressErrors: false,
+        });
+      } finally {
+        replayingOfflineChangesRef.current = false;
+      }
+      if (!hasOfflineChangesRef.current) {
+        toast.success("Offline changes synced", { id: 'offline-save' });
+      }
+    } catch (err) {
+      console.warn("[Editor] Offline changes not synced yet", err);
+    } finally {
+      offlineSyncInFlightRef.current = false;
+    }
+  }, [id, canEdit, currentUserId, enqueueSceneSave, hydrateStoredFileRefs, notePendingSceneKey]);
+  syncOfflineChangesRef.current = syncOfflineChanges;
+
+  useEffect(() => {
+    const handleOnline = () => {
+      setIsOnline(true);
+      void syncOfflineChangesRef.current?.();
+    };
+    const handleOffline = () => setIsOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, []);
+
+  // Picks up work queued in an earlier session (e.g. the tab was closed while offline).
+  useEffect(() => {
+    if (!isReady) return;
+    void syncOfflineChanges();
+  }, [isReady, syncOfflineChanges]);
+
   savePreviewRef.current = async (drawingId: string, elements: readonly any[], appState: any, files: any) => {
     if (!drawingId) return;
 
@@ -1055,7 +1783,7 @@ export const Editor: React.FC = () => {
     throttle((elements: readonly any[], currentFiles?: Record<string, any>) => {
       if (!socketRef.current || !id) return;
 
-      const changes: any[] = [];
+      const changes: ElementDelta[] = [];
 
       const nextFiles = currentFiles || excalidrawAPI.current?.getFiles() || {};
       const normalizedElements = normalizeImageElementStatus(elements, nextFiles);
@@ -1068,7 +1796,7 @@ export const Editor: React.FC = () => {
 
       normalizedElements.forEach((el) => {
         if (hasElementChanged(el)) {
-          changes.push(el);
+          changes.push(buildElementDelta(lastBroadcastElementsRef.current.get(el.id), el));
           recordElementVersion(el);
         }
       });
@@ -1086,14 +1814,15 @@ export const Editor: React.FC = () => {
       if (changes.length > 0 || shouldSyncFiles || shouldSyncOrder) {
         hasSceneChangesSinceLoadRef.current = true;
         lastLocalChangeAtRef.current = Date.now();
-        socketRef.current.emit('element-update', {
+        livePersistRef.current.noteSent();
+        socketRef.current.emit('element-delta', {
+          v: ELEMENT_DELTA_PROTOCOL_VERSION,
           drawingId: id,
-          elements: changes.length > 0 ? changes : [],
+          deltas: changes,
           files: shouldSyncFiles ? filesDelta : undefined,
           elementOrder: shouldSyncOrder
             ? normalizedElements.map((el: any) => el?.id).filter(Boolean)
             : undefined,
-          userId: socketMeRef.current.id
         });
 
         // Only schedule persistence when there's a real scene change (elements or files).
@@ -1119,6 +1848,8 @@ export const Editor: React.FC = () => {
     isBootstrappingScene.current = true;
     hasHydratedInitialScene.current = false;
     elementVersionMap.current.clear();
+    lastBroadcastElementsRef.current.clear();
+    livePersistRef.current = createLivePersistTracker();
     saveQueueRef.current = Promise.resolve();
     latestElementsRef.current = [];
     initialSceneElementsRef.current = [];
@@ -1136,12 +1867,17 @@ export const Editor: React.FC = () => {
     }
     currentDrawingVersionRef.current = null;
     lastPersistedElementsRef.current = [];
+    lastPersistedCanvasSettingsRef.current = null;
     suspiciousBlankLoadRef.current = false;
     hasSceneChangesSinceLoadRef.current = false;
     excalidrawAPI.current = null;
     setIsReady(false);
     setIsSceneLoading(true);
     setLoadError(null);
+    setAccessLost(false);
+    hasOfflineChangesRef.current = false;
+    setHasOfflineChanges(false);
+    setRevisionDiff(null);
     setInitialData(null);
 
     const loadData = async () => {
@@ -1151,7 +1887,7 @@ export const Editor: React.FC = () => {
         return;
       }
       try {
-        const libraryItemsPromise = user
+        const libraryItemsPromise = user && !embedded
           ? api.getLibrary().catch((err) => {
               console.warn("Failed to load library, using empty:", err);
               return [];
@@ -1202,11 +1938,15 @@ export const Editor: React.FC = () => {
           collaborators: new Map(),
         };
         latestAppStateRef.current = hydratedAppState;
+        lastPersistedCanvasSettingsRef.current = getCanvasSettingsSig(hydratedAppState);
 
         setInitialData({
           elements,
           appState: hydratedAppState,
-          files,
+          // Stored references have no image data yet; hydrateStoredFileRefs adds them once loaded.
+          files: Object.fromEntries(
+            Object.entries(files).filter(([, file]) => !isStoredFileRef(file))
+          ),
           scrollToContent: true,
           libraryItems,
         });
@@ -1254,6 +1994,7 @@ export const Editor: React.FC = () => {
     loadData();
   }, [
     id,
+    embedded,
     recordElementVersion,
     buildEmptyScene,
     user,
@@ -1300,6 +2041,8 @@ export const Editor: React.FC = () => {
   }, [enqueueSceneSave, id, resolveSafeSnapshot, canEdit]);
 
   const handleCanvasChange = useCallback((elements: readonly any[], appState: any, files?: Record<string, any>) => {
+    handleViewportChange(appState);
+    handleSelectionChange(appState);
     if (!canEdit) return;
     if (isUnmounting.current) {
       if (import.meta.env.DEV) {
@@ -1407,7 +2150,7 @@ export const Editor: React.FC = () => {
     broadcastChanges(allElements, currentFiles);
 
     // `broadcastChanges` schedules persistence only when it actually detects diffs.
-  }, [debouncedSave, debouncedSavePreview, broadcastChanges, id, resolveSafeSnapshot, canEdit]);
+  }, [broadcastChanges, id, resolveSafeSnapshot, canEdit, handleViewportChange, handleSelectionChange]);
 
   useEffect(() => {
     if (!id || !isReady) return;
@@ -1446,6 +2189,126 @@ export const Editor: React.FC = () => {
     }
   };
 
+  const handleRestoreRevision = useCallback(async (version: number) => {
+    if (!id || !canEdit) return;
+
+    // Persist pending edits first so the scene being replaced is captured in history too.
+    debouncedSave.flush();
+    await saveQueueRef.current.catch(() => undefined);
+
+    try {
+      const restored = await api.restoreDrawingRevision(
+        id,
+        version,
+        currentDrawingVersionRef.current ?? undefined
+      );
+      const elements = restored.elements || [];
+      const files = restored.files || {};
+      currentDrawingVersionRef.current = restored.version;
+      lastPersistedElementsRef.current = elements;
+      lastPersistedFilesRef.current = files;
+      latestElementsRef.current = elements;
+      latestFilesRef.current = files;
+      suspiciousBlankLoadRef.current = false;
+
+      if (excalidrawAPI.current) {
+        const restoredFiles = Object.values(files).filter((file) => !isStoredFileRef(file));
+        if (restoredFiles.length > 0) {
+          excalidrawAPI.current.addFiles(restoredFiles);
+        }
+        hydrateStoredFileRefs(files);
+        // Restored elements carry bumped versions, so the resulting onChange broadcasts them to peers.
+        excalidrawAPI.current.updateScene({
+          elements,
+          appState: {
+            viewBackgroundColor: restored.appState?.viewBackgroundColor ?? '#ffffff',
+          },
+        });
+      }
+      setRevisionDiff(null);
+      toast.success(`Restored version ${version}`);
+    } catch (err) {
+      if (api.isAxiosError(err) && err.response?.status === 409) {
+        const reportedVersion = Number(err.response?.data?.currentVersion);
+        if (Number.isInteger(reportedVersion) && reportedVersion > 0) {
+          currentDrawingVersionRef.current = reportedVersion;
+        }
+        toast.error("Drawing changed while restoring. Please try again.");
+      } else {
+        toast.error("Failed to restore version");
+      }
+      throw err;
+    }
+  }, [id, canEdit, debouncedSave, hydrateStoredFileRefs]);
+
+  const handleCompareRevision = useCallback(async (version: number) => {
+    if (!id) return;
+    if (canEdit) {
+      // Compare against what is on screen, not a save that is still debouncing.
+      debouncedSave.flush();
+      await saveQueueRef.current.catch(() => undefined);
+    }
+    try {
+      setRevisionDiff(await api.getDrawingDiff(id, version));
+    } catch (err) {
+      toast.error("Failed to load changes");
+      throw err;
+    }
+  }, [id, canEdit, debouncedSave]);
+
+  const getCanvasAppState = useCallback(
+    () => excalidrawAPI.current?.getAppState?.() ?? null,
+    []
+  );
+
+  const getCanvasElements = useCallback(
+    (): readonly any[] => excalidrawAPI.current?.getSceneElements?.() ?? [],
+    []
+  );
+
+  // New threads attach to the selected element when there is one, else to the middle of the view.
+  const handleCreateComment = useCallback(async (body: string) => {
+    const appState = getCanvasAppState();
+    const selectedIds = appState?.selectedElementIds ?? {};
+    const element = getCanvasElements().find((candidate) => selectedIds[candidate.id]);
+    if (element) {
+      // The saved point keeps the pin in place if the element is later deleted.
+      const point = getElementAnchor(element);
+      await addComment({ body, elementId: element.id, x: point.x, y: point.y });
+      return;
+    }
+    const zoom = Number(appState?.zoom?.value) || 1;
+    await addComment({
+      body,
+      x: (Number(appState?.width) || 0) / (2 * zoom) - (Number(appState?.scrollX) || 0),
+      y: (Number(appState?.height) || 0) / (2 * zoom) - (Number(appState?.scrollY) || 0),
+    });
+  }, [addComment, getCanvasAppState, getCanvasElements]);
+
+  const handleSelectCommentThread = useCallback((thread: CommentThread) => {
+    setActiveThreadId(thread.root.id);
+    setIsCommentsOpen(true);
+    setIsHistoryOpen(false);
+    const canvas = excalidrawAPI.current;
+    const appState = canvas?.getAppState?.();
+    if (!canvas || !appState) return;
+    const elementsById = new Map(getCanvasElements().map((element) => [element.id as string, element]));
+    const anchor = getCommentAnchor(thread.root, elementsById);
+    if (!anchor) return;
+    const zoom = Number(appState.zoom?.value) || 1;
+    canvas.updateScene({
+      appState: {
+        scrollX: (Number(appState.width) || 0) / (2 * zoom) - anchor.x,
+        scrollY: (Number(appState.height) || 0) / (2 * zoom) - anchor.y,
+      },
+    });
+  }, [getCanvasElements]);
+
+  const isCommentAuthor = useCallback(
+    (comment: DrawingComment) => authEnabled === false || (!!user && comment.author?.id === user.id),
+    [authEnabled, user]
+  );
+
   const handleLibraryChange = useCallback((items: readonly any[]) => {
     if (!canEdit) return;
     if (!user) return;
@@ -1521,6 +2384,32 @@ export const Editor: React.FC = () => {
     }
   };
 
+  if (embedded) {
+    return (
+      <div className="excalidash-embed h-screen w-full relative bg-white dark:bg-neutral-950 overflow-hidden">
+        {loadError ? (
+          <div className="absolute inset-0 flex items-center justify-center px-6 text-center text-sm text-gray-600 dark:text-gray-400">
+            {loadError}
+          </div>
+        ) : initialData ? (
+          <Excalidraw
+            key={id}
+            theme={getEmbedTheme(location.search, theme === 'dark' ? 'dark' : 'light')}
+            initialData={initialData}
+            onChange={handleCanvasChange}
+            excalidrawAPI={setExcalidrawAPI}
+            UIOptions={EMBED_UI_OPTIONS}
+            viewModeEnabled
+          />
+        ) : (
+          <div className="absolute inset-0 flex items-center justify-center text-sm font-medium text-gray-500 dark:text-gray-400">
+            Loading drawing...
+          </div>
+        )}
+      </div>
+    );
+  }
+
   return (
     <div className="h-screen flex flex-col bg-white dark:bg-neutral-950 overflow-hidden">
       <header 
@@ -1568,6 +2457,15 @@ export const Editor: React.FC = () => {
         </div>
 
         <div className="flex items-center gap-3">
+          {canEdit && (!isOnline || hasOfflineChanges) ? (
+            <span
+              className="flex items-center gap-1.5 text-xs font-semibold px-2 py-1 rounded-full bg-slate-100 text-slate-700 dark:bg-neutral-800 dark:text-neutral-300 border border-slate-200 dark:border-neutral-700"
+              title={hasOfflineChanges ? 'Changes are kept on this device until they reach the server' : undefined}
+            >
+              {isOnline ? <RefreshCw size={12} /> : <CloudOff size={12} />}
+              {isOnline ? 'Offline changes pending' : hasOfflineChanges ? 'Offline · changes pending' : 'Offline'}
+            </span>
+          ) : null}
           {!canEdit ? (
             <span className="text-xs font-semibold px-2 py-1 rounded-full bg-amber-100 text-amber-900 dark:bg-amber-900/30 dark:text-amber-200 border border-amber-200 dark:border-amber-800">
               Read-only
@@ -1582,6 +2480,41 @@ export const Editor: React.FC = () => {
               <Share2 size={20} />
             </button>
           ) : null}
+          {id ? (
+            <button
+              onClick={() => {
+                setIsCommentsOpen((open) => !open);
+                setIsHistoryOpen(false);
+              }}
+              className={clsx(
+                "relative p-2 hover:bg-gray-100 dark:hover:bg-neutral-800 rounded-lg text-gray-600 dark:text-gray-300 transition-colors",
+                isCommentsOpen && "bg-gray-100 dark:bg-neutral-800"
+              )}
+              title="Comments"
+            >
+              <MessageSquare size={20} />
+              {openThreadCount > 0 ? (
+                <span className="absolute -top-0.5 -right-0.5 min-w-4 h-4 px-1 rounded-full bg-indigo-600 text-white text-[10px] font-bold leading-4 text-center">
+                  {openThreadCount}
+                </span>
+              ) : null}
+            </button>
+          ) : null}
+          {id ? (
+            <button
+              onClick={() => {
+                setIsHistoryOpen((open) => !open);
+                setIsCommentsOpen(false);
+              }}
+              className={clsx(
+                "p-2 hover:bg-gray-100 dark:hover:bg-neutral-800 rounded-lg text-gray-600 dark:text-gray-300 transition-colors",
+                isHistoryOpen && "bg-gray-100 dark:bg-neutral-800"
+              )}
+              title="Version history"
+            >
+              <History size={20} />
+            </button>
+          ) : null}
           <button
             onClick={() => {
               const next = !autoHideEnabled;
@@ -1621,6 +2554,18 @@ export const Editor: React.FC = () => {
           <div className="h-6 w-px bg-gray-300 dark:bg-gray-700" />
 
           <div className="flex items-center">
+            {canEdit && peers.length > 0 ? (
+              <button
+                onClick={() => {
+                  socketRef.current?.emit('follow-me', { drawingId: id });
+                  toast.success('Asked everyone to follow your view');
+                }}
+                className="p-2 mr-2 hover:bg-gray-100 dark:hover:bg-neutral-800 rounded-lg text-gray-600 dark:text-gray-300 transition-colors"
+                title="Ask everyone to follow me"
+              >
+                <Presentation size={20} />
+              </button>
+            ) : null}
             <div className="relative group">
               <div
                 className="w-9 h-9 rounded-xl flex items-center justify-center text-sm font-bold text-white shadow-sm"
@@ -1628,8 +2573,13 @@ export const Editor: React.FC = () => {
               >
                 {me.initials}
               </div>
+              {followerCount > 0 ? (
+                <span className="absolute -bottom-1 -right-1 min-w-4 h-4 px-1 rounded-full bg-gray-900 text-white text-[10px] font-bold leading-4 text-center">
+                  {followerCount}
+                </span>
+              ) : null}
               <div className="absolute top-full mt-2 right-0 bg-gray-900 text-white text-xs py-1 px-2 rounded whitespace-nowrap z-50 pointer-events-none opacity-0 group-hover:opacity-100 transition-opacity">
-                {me.name} (You)
+                {me.name} (You){followerCount > 0 ? ` · ${followerCount} following` : ''}
               </div>
             </div>
 
@@ -1641,14 +2591,20 @@ export const Editor: React.FC = () => {
                   key={peer.id}
                   className="relative group"
                 >
-                  <div
-                    className={`w-9 h-9 rounded-xl flex items-center justify-center text-sm font-bold text-white shadow-sm transition-all duration-300 ${!peer.isActive ? 'opacity-30 grayscale' : ''}`}
+                  <button
+                    onClick={() => followPeer(followingId === peer.id ? null : peer.id)}
+                    className={clsx(
+                      'w-9 h-9 rounded-xl flex items-center justify-center text-sm font-bold text-white shadow-sm transition-all duration-300',
+                      !peer.isActive && 'opacity-30 grayscale',
+                      followingId === peer.id && 'ring-2 ring-offset-2 ring-gray-900 dark:ring-white dark:ring-offset-neutral-900'
+                    )}
                     style={{ backgroundColor: peer.color }}
+                    aria-pressed={followingId === peer.id}
                   >
                     {peer.initials}
-                  </div>
+                  </button>
                   <div className="absolute top-full mt-2 right-0 bg-gray-900 text-white text-xs py-1 px-2 rounded whitespace-nowrap z-50 pointer-events-none opacity-0 group-hover:opacity-100 transition-opacity">
-                    {peer.name}
+                    {followingId === peer.id ? `Following ${peer.name} · click to stop` : `${peer.name} · click to follow`}
                   </div>
                 </div>
               ))}
@@ -1668,7 +2624,7 @@ export const Editor: React.FC = () => {
           <div className="absolute inset-0 flex flex-col items-center justify-center gap-4 bg-white dark:bg-neutral-950 px-6">
             <div className="text-center">
               <h2 className="text-xl font-bold text-gray-900 dark:text-gray-100">
-                Unable to open drawing
+                {accessLost ? 'Access removed' : 'Unable to open drawing'}
               </h2>
               <p className="mt-2 text-sm text-gray-600 dark:text-gray-400">
                 {loadError}
@@ -1700,6 +2656,50 @@ export const Editor: React.FC = () => {
             </span>
           </div>
         )}
+        {revisionDiff && initialData ? (
+          <DiffOverlay
+            diff={revisionDiff}
+            getAppState={getCanvasAppState}
+            onClose={() => setRevisionDiff(null)}
+          />
+        ) : null}
+        {initialData && remoteSelections.length > 0 ? (
+          <RemoteSelections
+            selections={remoteSelections}
+            getAppState={getCanvasAppState}
+            getElements={getCanvasElements}
+          />
+        ) : null}
+        {followedPeer ? (
+          <>
+            <div
+              className="absolute inset-0 z-20 border-4 pointer-events-none"
+              style={{ borderColor: followedPeer.color }}
+            />
+            <div
+              className="absolute top-3 left-1/2 -translate-x-1/2 z-30 flex items-center gap-2 pl-3 pr-1 py-1 rounded-full text-xs font-bold text-white shadow-md"
+              style={{ backgroundColor: followedPeer.color }}
+            >
+              Following {followedPeer.name}
+              <button
+                onClick={() => followPeer(null)}
+                className="p-1 rounded-full hover:bg-black/20 transition-colors"
+                title="Stop following"
+              >
+                <X size={12} />
+              </button>
+            </div>
+          </>
+        ) : null}
+        {initialData && commentThreads.length > 0 ? (
+          <CommentPins
+            threads={commentThreads}
+            activeThreadId={activeThreadId}
+            getAppState={getCanvasAppState}
+            getElements={getCanvasElements}
+            onSelect={handleSelectCommentThread}
+          />
+        ) : null}
         <Toaster position="bottom-center" />
       </div>
 
@@ -1711,6 +2711,35 @@ export const Editor: React.FC = () => {
           onClose={() => setIsShareOpen(false)}
         />
       ) : null}
+
+      {id ? (
+        <HistoryPanel
+          drawingId={id}
+          isOpen={isHistoryOpen}
+          canRestore={canEdit}
+          onClose={() => setIsHistoryOpen(false)}
+          onRestore={handleRestoreRevision}
+          onCompare={handleCompareRevision}
+        />
+      ) : null}
+
+      {id ? (
+        <CommentsPanel
+          isOpen={isCommentsOpen}
+          threads={commentThreads}
+          activeThreadId={activeThreadId}
+          canComment={authEnabled === false || !!user}
+          canResolveAny={canEdit}
+          canDeleteAny={accessLevel === "owner"}
+          isAuthor={isCommentAuthor}
+          onClose={() => setIsCommentsOpen(false)}
+          onSelectThread={handleSelectCommentThread}
+          onCreate={handleCreateComment}
+          onReply={(threadId, body) => addComment({ body, parentId: threadId })}
+          onResolve={setCommentResolved}
+          onDelete={deleteComment}
+        />
+      ) : null}
     </div>
   );
 };
@@ -8,6 +8,7 @@ import { User, Lock, Save, X } from 'lucide-react';
 import { USER_KEY } from '../utils/impersonation';
 import { getPasswordPolicy, validatePassword } from '../utils/passwordPolicy';
 import { PasswordRequirements } from '../components/PasswordRequirements';
+import { getCollectionSubtreeIds } from '../utils/collectionTree';
 
 export const Profile: React.FC = () => {
     const { user: authUser, logout, authEnabled } = useAuth();
@@ -63,8 +64,8 @@ export const Profile: React.FC = () => {
         else navigate(`/collections?id=${id}`);
     };
 
-    const handleCreateCollection = async (name: string) => {
-        await api.createCollection(name);
+    const handleCreateCollection = async (name: string, parentId: string | null = null) => {
+        await api.createCollection(name, parentId);
         const newCollections = await api.getCollections();
         setCollections(newCollections);
     };
@@ -74,8 +75,14 @@ export const Profile: React.FC = () => {
         await api.updateCollection(id, name);
     };
 
+    const handleMoveCollection = async (id: string, parentId: string | null) => {
+        setCollections(prev => prev.map(c => (c.id === id ? { ...c, parentId } : c)));
+        await api.moveCollection(id, parentId);
+    };
+
     const handleDeleteCollection = async (id: string) => {
-        setCollections(prev => prev.filter(c => c.id !== id));
+        const deletedIds = getCollectionSubtreeIds(collections, id);
+        setCollections(prev => prev.filter(c => !deletedIds.has(c.id)));
         await api.deleteCollection(id);
     };
 
@@ -221,6 +228,7 @@ export const Profile: React.FC = () => {
             onCreateCollection={handleCreateCollection}
             onEditCollection={handleEditCollection}
             onDeleteCollection={handleDeleteCollection}
+            onMoveCollection={handleMoveCollection}
         >
             <h1 className="text-3xl sm:text-5xl mb-6 sm:mb-8 text-slate-900 dark:text-white pl-1" style={{ fontFamily: 'Excalifont' }}>
                 Profile
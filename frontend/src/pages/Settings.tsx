@@ -9,6 +9,7 @@ import { importLegacyFiles } from '../utils/importUtils';
 import { useTheme } from '../context/ThemeContext';
 import { useAuth } from '../context/AuthContext';
 import clsx from 'clsx';
+import { getCollectionSubtreeIds } from '../utils/collectionTree';
 
 export const Settings: React.FC = () => {
     const [collections, setCollections] = useState<Collection[]>([]);
@@ -241,8 +242,8 @@ export const Settings: React.FC = () => {
         }
     };
 
-    const handleCreateCollection = async (name: string) => {
-        await api.createCollection(name);
+    const handleCreateCollection = async (name: string, parentId: string | null = null) => {
+        await api.createCollection(name, parentId);
         const newCollections = await api.getCollections();
         setCollections(newCollections);
     };
@@ -252,8 +253,14 @@ export const Settings: React.FC = () => {
         await api.updateCollection(id, name);
     };
 
+    const handleMoveCollection = async (id: string, parentId: string | null) => {
+        setCollections(prev => prev.map(c => (c.id === id ? { ...c, parentId } : c)));
+        await api.moveCollection(id, parentId);
+    };
+
     const handleDeleteCollection = async (id: string) => {
-        setCollections(prev => prev.filter(c => c.id !== id));
+        const deletedIds = getCollectionSubtreeIds(collections, id);
+        setCollections(prev => prev.filter(c => !deletedIds.has(c.id)));
         await api.deleteCollection(id);
     };
 
@@ -273,6 +280,7 @@ export const Settings: React.FC = () => {
             onCreateCollection={handleCreateCollection}
             onEditCollection={handleEditCollection}
             onDeleteCollection={handleDeleteCollection}
+            onMoveCollection={handleMoveCollection}
         >
             <h1 className="text-3xl sm:text-4xl lg:text-5xl mb-6 lg:mb-8 text-slate-900 dark:text-white pl-1" style={{ fontFamily: 'Excalifont' }}>
                 Settings
@@ -6,6 +6,8 @@ import { useDashboardData } from "./useDashboardData";
 vi.mock("../../api", () => ({
   getDrawings: vi.fn(),
   getCollections: vi.fn(),
+  getTags: vi.fn(),
+  getSharedCollections: vi.fn(),
 }));
 
 type Deferred<T> = {
@@ -43,9 +45,12 @@ const makeCollection = (id: string) => ({
 describe("useDashboardData", () => {
   const getDrawingsMock = vi.mocked(api.getDrawings);
   const getCollectionsMock = vi.mocked(api.getCollections);
+  const getTagsMock = vi.mocked(api.getTags);
 
   beforeEach(() => {
     vi.clearAllMocks();
+    getTagsMock.mockResolvedValue([]);
+    vi.mocked(api.getSharedCollections).mockResolvedValue([]);
   });
 
   it("loads drawings and collections on mount", async () => {
@@ -86,6 +91,40 @@ describe("useDashboardData", () => {
     expect(onRefreshSuccess).toHaveBeenCalledTimes(1);
   });
 
+  it("passes the tag filter through to the drawings request", async () => {
+    getDrawingsMock.mockResolvedValue({ drawings: [], totalCount: 0, limit: 24, offset: 0 });
+    getCollectionsMock.mockResolvedValue([]);
+    getTagsMock.mockResolvedValue([
+      { id: "t1", name: "api", color: null, drawingCount: 0, createdAt: 1, updatedAt: 1 },
+    ]);
+
+    const { result } = renderHook(() =>
+      useDashboardData({
+        debouncedSearch: "",
+        selectedCollectionId: undefined,
+        sortField: "updatedAt",
+        sortDirection: "desc",
+        tagIds: ["t1", "t2"],
+        tagMode: "all",
+        pageSize: 24,
+      })
+    );
+
+    await waitFor(() => {
+      expect(result.current.isLoading).toBe(false);
+    });
+
+    expect(getDrawingsMock).toHaveBeenCalledWith("", undefined, {
+      limit: 24,
+      offset: 0,
+      sortField: "updatedAt",
+      sortDirection: "desc",
+      tagIds: ["t1", "t2"],
+      tagMode: "all",
+    });
+    expect(result.current.tags.map((tag) => tag.id)).toEqual(["t1"]);
+  });
+
   it("fetches more drawings and merges unique results", async () => {
     getDrawingsMock
       .mockResolvedValueOnce({
@@ -1,7 +1,8 @@
-import { useCallback, useEffect, useRef, useState } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import * as api from '../../api';
 import type { DrawingSortField, SortDirection } from '../../api';
-import type { Collection, DrawingSummary } from '../../types';
+import type { Collection, DrawingSummary, SharedCollection, Tag, TagMatchMode } from '../../types';
+import { getSharedCollectionIdFromView } from '../../utils/sharedCollections';
 import { isLatestRequest, mergeUniqueDrawings } from './pagination';
 
 type SelectedCollectionId = string | null | undefined;
@@ -11,6 +12,9 @@ type UseDashboardDataOptions = {
   selectedCollectionId: SelectedCollectionId;
   sortField: DrawingSortField;
   sortDirection: SortDirection;
+  tagIds?: string[];
+  tagMode?: TagMatchMode;
+  pinStarred?: boolean;
   pageSize: number;
   onRefreshSuccess?: () => void;
 };
@@ -20,41 +24,68 @@ export const useDashboardData = ({
   selectedCollectionId,
   sortField,
   sortDirection,
+  tagIds,
+  tagMode,
+  pinStarred = false,
   pageSize,
   onRefreshSuccess,
 }: UseDashboardDataOptions) => {
   const [drawings, setDrawings] = useState<DrawingSummary[]>([]);
   const [collections, setCollections] = useState<Collection[]>([]);
+  const [tags, setTags] = useState<Tag[]>([]);
+  const [sharedCollections, setSharedCollections] = useState<SharedCollection[]>([]);
   const [totalCount, setTotalCount] = useState(0);
   const [isFetchingMore, setIsFetchingMore] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const listRequestVersionRef = useRef(0);
 
   const hasMore = drawings.length < totalCount;
+  const sharedCollectionId = getSharedCollectionIdFromView(selectedCollectionId);
+  const isSharedView = selectedCollectionId === "shared" || sharedCollectionId !== null;
+  const isStarredView = selectedCollectionId === "starred";
+  // "starred" is a virtual view over all collections, not a collection id the server knows.
+  const listCollectionId = isStarredView ? undefined : selectedCollectionId;
+  const starOptions = useMemo(
+    () => (isStarredView ? { starred: true } : pinStarred ? { pinStarred: true } : {}),
+    [isStarredView, pinStarred]
+  );
+  // Key the tag filter by value so a new array with the same ids does not refetch.
+  const tagKey = tagIds && tagIds.length > 0 ? tagIds.join(',') : '';
+  const effectiveTagMode: TagMatchMode = tagMode ?? 'any';
+  const tagOptions = useMemo(
+    () => (tagKey ? { tagIds: tagKey.split(','), tagMode: effectiveTagMode } : {}),
+    [tagKey, effectiveTagMode]
+  );
 
   const refreshData = useCallback(async () => {
     const requestVersion = ++listRequestVersionRef.current;
     setIsLoading(true);
     try {
-      const isSharedView = selectedCollectionId === "shared";
       const drawingsPromise = isSharedView
         ? api.getSharedDrawings(debouncedSearch, {
             limit: pageSize,
             offset: 0,
             sortField,
             sortDirection,
+            ...tagOptions,
+            ...(sharedCollectionId ? { collectionId: sharedCollectionId } : {}),
           })
-        : api.getDrawings(debouncedSearch, selectedCollectionId, {
+        : api.getDrawings(debouncedSearch, listCollectionId, {
             limit: pageSize,
             offset: 0,
             sortField,
             sortDirection,
+            ...tagOptions,
+            ...starOptions,
           });
 
-      const [drawingsResult, collectionsResult] = await Promise.allSettled([
-        drawingsPromise,
-        api.getCollections(),
-      ]);
+      const [drawingsResult, collectionsResult, tagsResult, sharedCollectionsResult] =
+        await Promise.allSettled([
+          drawingsPromise,
+          api.getCollections(),
+          api.getTags(),
+          api.getSharedCollections(),
+        ]);
       if (!isLatestRequest(requestVersion, listRequestVersionRef.current)) return;
 
       if (drawingsResult.status === "fulfilled") {
@@ -70,6 +101,18 @@ export const useDashboardData = ({
       } else {
         console.error("Failed to fetch collections:", collectionsResult.reason);
       }
+
+      if (tagsResult.status === "fulfilled") {
+        setTags(tagsResult.value);
+      } else {
+        console.error("Failed to fetch tags:", tagsResult.reason);
+      }
+
+      if (sharedCollectionsResult.status === "fulfilled") {
+        setSharedCollections(sharedCollectionsResult.value);
+      } else {
+        console.error("Failed to fetch shared collections:", sharedCollectionsResult.reason);
+      }
     } catch (err) {
       console.error('Failed to fetch data:', err);
     } finally {
@@ -79,10 +122,14 @@ export const useDashboardData = ({
     }
   }, [
     debouncedSearch,
-    selectedCollectionId,
+    listCollectionId,
+    starOptions,
+    isSharedView,
+    sharedCollectionId,
     pageSize,
     sortField,
     sortDirection,
+    tagOptions,
     onRefreshSuccess,
   ]);
 
@@ -91,19 +138,22 @@ export const useDashboardData = ({
     const requestVersion = listRequestVersionRef.current;
     setIsFetchingMore(true);
     try {
-      const isSharedView = selectedCollectionId === "shared";
       const drawingsRes = await (isSharedView
         ? api.getSharedDrawings(debouncedSearch, {
             limit: pageSize,
             offset: drawings.length,
             sortField,
             sortDirection,
+            ...tagOptions,
+            ...(sharedCollectionId ? { collectionId: sharedCollectionId } : {}),
           })
-        : api.getDrawings(debouncedSearch, selectedCollectionId, {
+        : api.getDrawings(debouncedSearch, listCollectionId, {
             limit: pageSize,
             offset: drawings.length,
             sortField,
             sortDirection,
+            ...tagOptions,
+            ...starOptions,
           }));
       if (!isLatestRequest(requestVersion, listRequestVersionRef.current)) return;
       setDrawings((prev) => mergeUniqueDrawings(prev, drawingsRes.drawings));
@@ -118,11 +168,15 @@ export const useDashboardData = ({
     hasMore,
     isLoading,
     debouncedSearch,
-    selectedCollectionId,
+    listCollectionId,
+    starOptions,
+    isSharedView,
+    sharedCollectionId,
     pageSize,
     drawings.length,
     sortField,
     sortDirection,
+    tagOptions,
   ]);
 
   useEffect(() => {
@@ -134,6 +188,9 @@ export const useDashboardData = ({
     setDrawings,
     collections,
     setCollections,
+    tags,
+    setTags,
+    sharedCollections,
     totalCount,
     setTotalCount,
     isFetchingMore,
@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { applyElementDelta, buildElementDelta, isSequenceGap } from "./deltas";
+
+const element = (version: number, extra: Record<string, unknown> = {}) => ({
+  id: "a",
+  type: "rectangle",
+  x: 0,
+  y: 0,
+  version,
+  versionNonce: version * 10,
+  ...extra,
+});
+
+describe("editor/deltas element deltas", () => {
+  it("sends only changed fields against the last broadcast copy", () => {
+    const previous = element(1);
+    const next = element(2, { x: 5 });
+    const delta = buildElementDelta(previous, next);
+
+    expect(delta).toEqual({
+      id: "a",
+      version: 2,
+      versionNonce: 20,
+      base: { version: 1, versionNonce: 10 },
+      props: { x: 5 },
+    });
+    expect(applyElementDelta(previous, delta)).toEqual({ kind: "applied", element: next });
+  });
+
+  it("sends the whole element when there is nothing to diff against", () => {
+    const next = element(1);
+    const delta = buildElementDelta(undefined, next);
+    expect(delta.base).toBeUndefined();
+    expect(applyElementDelta(undefined, delta)).toEqual({ kind: "applied", element: next });
+  });
+
+  it("skips deltas the local copy already has and flags a diverged base", () => {
+    const delta = buildElementDelta(element(1), element(2, { x: 5 }));
+    expect(applyElementDelta(element(3), delta)).toEqual({ kind: "stale" });
+    expect(applyElementDelta(element(1, { versionNonce: 99 }), delta)).toEqual({
+      kind: "missing-base",
+    });
+    expect(applyElementDelta(undefined, delta)).toEqual({ kind: "missing-base" });
+  });
+
+  it("detects skipped room sequence numbers", () => {
+    expect(isSequenceGap(null, 7)).toBe(false);
+    expect(isSequenceGap(4, 5)).toBe(false);
+    expect(isSequenceGap(4, 4)).toBe(false);
+    expect(isSequenceGap(4, 6)).toBe(true);
+  });
+});
@@ -0,0 +1,74 @@
+/** Must match the backend's `ELEMENT_DELTA_PROTOCOL_VERSION`. */
+export const ELEMENT_DELTA_PROTOCOL_VERSION = 2;
+
+type ElementRevision = { version: number; versionNonce: number };
+
+/**
+ * One changed element on the wire. With `base`, `props` only carries the fields that differ
+ * from the sender's previous copy (at that version/nonce); without it, `props` is the whole element.
+ */
+export type ElementDelta = ElementRevision & {
+  id: string;
+  base?: ElementRevision;
+  props: Record<string, unknown>;
+};
+
+export type AppliedDelta =
+  | { kind: 'applied'; element: any }
+  /** The local copy is already at or past this delta. */
+  | { kind: 'stale' }
+  /** The local copy is not the delta's base, so the full element has to be fetched. */
+  | { kind: 'missing-base' };
+
+const readRevision = (element: any): ElementRevision => ({
+  version: typeof element?.version === 'number' ? element.version : 0,
+  versionNonce: typeof element?.versionNonce === 'number' ? element.versionNonce : 0,
+});
+
+const isSameValue = (a: unknown, b: unknown) =>
+  a === b ||
+  (typeof a === 'object' && typeof b === 'object' && a !== null && b !== null &&
+    JSON.stringify(a) === JSON.stringify(b));
+
+const withoutId = (element: any): Record<string, unknown> => {
+  const { id: _id, ...props } = element;
+  return props;
+};
+
+/** Encodes `next` against `previous`, the copy peers last received from us (if any). */
+export const buildElementDelta = (previous: any | undefined, next: any): ElementDelta => {
+  const revision = readRevision(next);
+  if (!previous || Object.keys(previous).some((key) => !(key in next))) {
+    return { id: next.id, ...revision, props: withoutId(next) };
+  }
+  const props: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(next)) {
+    if (key === 'id' || key === 'version' || key === 'versionNonce') continue;
+    if (!isSameValue(previous[key], value)) props[key] = value;
+  }
+  return { id: next.id, ...revision, base: readRevision(previous), props };
+};
+
+export const applyElementDelta = (local: any | undefined, delta: ElementDelta): AppliedDelta => {
+  const revision = { version: delta.version, versionNonce: delta.versionNonce };
+  if (!delta.base) {
+    return { kind: 'applied', element: { ...delta.props, id: delta.id, ...revision } };
+  }
+  if (local) {
+    const current = readRevision(local);
+    if (
+      current.version > delta.version ||
+      (current.version === delta.version && current.versionNonce === delta.versionNonce)
+    ) {
+      return { kind: 'stale' };
+    }
+    if (current.version === delta.base.version && current.versionNonce === delta.base.versionNonce) {
+      return { kind: 'applied', element: { ...local, ...delta.props, id: delta.id, ...revision } };
+    }
+  }
+  return { kind: 'missing-base' };
+};
+
+/** True when `seq` skips at least one sequence number after `lastSeq`. */
+export const isSequenceGap = (lastSeq: number | null, seq: number) =>
+  lastSeq !== null && seq > lastSeq + 1;
@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import { fitSharedViewport, isSameViewport, toSharedViewport } from "./follow";
+
+describe("editor/follow viewport sharing", () => {
+  const presenter = { width: 1000, height: 800, scrollX: -100, scrollY: 50, zoom: { value: 2 } };
+
+  it("describes the viewport by its centre point", () => {
+    expect(toSharedViewport(presenter)).toEqual({
+      centerX: 350,
+      centerY: 150,
+      zoom: 2,
+      width: 1000,
+      height: 800,
+    });
+    expect(toSharedViewport({ width: 0, height: 0 })).toBeNull();
+  });
+
+  it("reproduces the presenter's viewport on an identical canvas", () => {
+    const shared = toSharedViewport(presenter)!;
+    expect(fitSharedViewport(shared, { width: 1000, height: 800 })).toEqual({
+      scrollX: -100,
+      scrollY: 50,
+      zoom: 2,
+    });
+  });
+
+  it("zooms out on a smaller canvas so the same area stays visible", () => {
+    const shared = toSharedViewport(presenter)!;
+    const fitted = fitSharedViewport(shared, { width: 500, height: 800 });
+    expect(fitted.zoom).toBe(1);
+    // The centre stays on the same scene point.
+    expect(500 / (2 * fitted.zoom) - fitted.scrollX).toBe(350);
+  });
+
+  it("treats sub-pixel differences as the same viewport", () => {
+    expect(isSameViewport({ scrollX: 1, scrollY: 1, zoom: 1 }, { scrollX: 1.2, scrollY: 0.9, zoom: 1 })).toBe(true);
+    expect(isSameViewport({ scrollX: 1, scrollY: 1, zoom: 1 }, { scrollX: 1, scrollY: 1, zoom: 1.5 })).toBe(false);
+  });
+});
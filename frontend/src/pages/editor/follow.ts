@@ -0,0 +1,52 @@
+import type { SceneViewport } from './shared';
+
+/**
+ * What a presenter broadcasts: the scene point at the centre of their canvas, their zoom and
+ * the canvas size, so followers with a different window size still see the same area.
+ */
+export interface SharedViewport {
+  centerX: number;
+  centerY: number;
+  zoom: number;
+  width: number;
+  height: number;
+}
+
+export const MIN_FOLLOW_ZOOM = 0.1;
+export const MAX_FOLLOW_ZOOM = 30;
+
+const clampZoom = (zoom: number) => Math.min(MAX_FOLLOW_ZOOM, Math.max(MIN_FOLLOW_ZOOM, zoom));
+
+export const toSharedViewport = (appState: any): SharedViewport | null => {
+  if (!appState) return null;
+  const width = Number(appState.width) || 0;
+  const height = Number(appState.height) || 0;
+  if (width <= 0 || height <= 0) return null;
+  const zoom = Number(appState.zoom?.value) || 1;
+  return {
+    centerX: width / (2 * zoom) - (Number(appState.scrollX) || 0),
+    centerY: height / (2 * zoom) - (Number(appState.scrollY) || 0),
+    zoom,
+    width,
+    height,
+  };
+};
+
+/** Scroll/zoom that shows the presenter's whole visible area centred in a canvas of `size`. */
+export const fitSharedViewport = (
+  shared: SharedViewport,
+  size: { width: number; height: number }
+): SceneViewport => {
+  const scale = Math.min(size.width / shared.width, size.height / shared.height);
+  const zoom = clampZoom(shared.zoom * (Number.isFinite(scale) && scale > 0 ? scale : 1));
+  return {
+    scrollX: size.width / (2 * zoom) - shared.centerX,
+    scrollY: size.height / (2 * zoom) - shared.centerY,
+    zoom,
+  };
+};
+
+export const isSameViewport = (a: SceneViewport, b: SceneViewport, epsilon = 0.5): boolean =>
+  Math.abs(a.scrollX - b.scrollX) < epsilon &&
+  Math.abs(a.scrollY - b.scrollY) < epsilon &&
+  Math.abs(a.zoom - b.zoom) < 0.001;
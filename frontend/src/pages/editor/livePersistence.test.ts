@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { createLivePersistTracker } from "./livePersistence";
+
+describe("editor/livePersistence", () => {
+  it("treats live edits as saved only once a room write covers the acknowledged ones", () => {
+    const tracker = createLivePersistTracker();
+    tracker.noteSent(0);
+    tracker.noteSent(0);
+    tracker.noteAck(4);
+    expect(tracker.notePersisted(10)).toBe(false);
+
+    tracker.noteAck(5);
+    expect(tracker.notePersisted(4)).toBe(false);
+    expect(tracker.hasUnpersisted()).toBe(true);
+    expect(tracker.notePersisted(5)).toBe(true);
+    expect(tracker.hasUnpersisted()).toBe(false);
+  });
+
+  it("still saves a rejected delta, over HTTP", () => {
+    const tracker = createLivePersistTracker();
+    tracker.noteSent(0);
+    expect(tracker.needsHttpSave(0)).toBe(false);
+
+    expect(tracker.noteFailed()).toBe(true);
+    expect(tracker.needsHttpSave(0)).toBe(true);
+    // A later room write does not cover an update the room never took.
+    expect(tracker.notePersisted(100)).toBe(false);
+
+    tracker.finishHttpSave(tracker.beginHttpSave());
+    expect(tracker.needsHttpSave(0)).toBe(false);
+    expect(tracker.hasUnpersisted()).toBe(false);
+  });
+
+  it("keeps edits sent during an HTTP save pending, and gives up on a silent room", () => {
+    const tracker = createLivePersistTracker();
+    tracker.noteSent(0);
+    const epoch = tracker.beginHttpSave();
+    tracker.noteSent(1);
+    tracker.finishHttpSave(epoch);
+    expect(tracker.hasUnpersisted()).toBe(true);
+
+    expect(tracker.needsHttpSave(10_000, 20_000)).toBe(false);
+    expect(tracker.needsHttpSave(20_000, 20_000)).toBe(true);
+    expect(createLivePersistTracker().noteFailed()).toBe(false);
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * Bookkeeping for edits that were only sent to the collaboration room. The room saves them
+ * itself, so they count as persisted once a `room-persisted` covers the last one the server
+ * acknowledged. A rejected update, a dropped connection or a room that stays silent for too
+ * long means the editor has to save the scene over HTTP (or queue it offline) instead.
+ */
+export const createLivePersistTracker = () => {
+  let unacked = 0;
+  let lastAckedSeq: number | null = null;
+  let unpersistedSinceMs: number | null = null;
+  let failed = false;
+  // Bumped on every send, so an HTTP save only clears what it actually contained.
+  let epoch = 0;
+
+  const noteSent = (now = Date.now()) => {
+    unacked += 1;
+    epoch += 1;
+    unpersistedSinceMs ??= now;
+  };
+
+  const noteAck = (seq: number) => {
+    unacked = Math.max(0, unacked - 1);
+    lastAckedSeq = Math.max(lastAckedSeq ?? 0, seq);
+  };
+
+  /** True when this write made every acknowledged edit persisted. */
+  const notePersisted = (seq: number): boolean => {
+    if (unpersistedSinceMs === null || failed || unacked > 0) return false;
+    if (lastAckedSeq === null || seq < lastAckedSeq) return false;
+    unpersistedSinceMs = null;
+    return true;
+  };
+
+  /** Rejection or disconnect; true when there are edits the room may not have. */
+  const noteFailed = (): boolean => {
+    if (unpersistedSinceMs === null) return false;
+    failed = true;
+    return true;
+  };
+
+  const hasUnpersisted = () => unpersistedSinceMs !== null;
+
+  /** Whether the next save has to go over HTTP rather than trusting the room. */
+  const needsHttpSave = (now = Date.now(), timeoutMs = Number.POSITIVE_INFINITY) =>
+    failed || (unpersistedSinceMs !== null && now - unpersistedSinceMs >= timeoutMs);
+
+  const beginHttpSave = () => epoch;
+
+  /** The scene went out over HTTP (or into the offline queue) as of `savedEpoch`. */
+  const finishHttpSave = (savedEpoch: number) => {
+    failed = false;
+    if (savedEpoch !== epoch) return;
+    // Anything never acknowledged was part of this save.
+    unacked = 0;
+    unpersistedSinceMs = null;
+  };
+
+  return {
+    noteSent,
+    noteAck,
+    notePersisted,
+    noteFailed,
+    hasUnpersisted,
+    needsHttpSave,
+    beginHttpSave,
+    finishHttpSave,
+  };
+};
+
+export type LivePersistTracker = ReturnType<typeof createLivePersistTracker>;
@@ -1,9 +1,13 @@
 import { describe, expect, it } from "vitest";
 import {
+  getElementSceneBox,
+  getEmbedTheme,
   hasRenderableElements,
   isSuspiciousEmptySnapshot,
   isStaleEmptySnapshot,
   isStaleNonRenderableSnapshot,
+  readSelectedElementIds,
+  sceneBoundsToViewport,
 } from "./shared";
 
 describe("editor/shared scene guards", () => {
@@ -59,3 +63,51 @@ describe("editor/shared scene guards", () => {
     expect(isStaleNonRenderableSnapshot(latest, candidate)).toBe(false);
   });
 });
+
+describe("editor/shared sceneBoundsToViewport", () => {
+  it("applies scroll and zoom with padding", () => {
+    expect(
+      sceneBoundsToViewport(
+        { x: 10, y: 20, width: 100, height: 50 },
+        { scrollX: 5, scrollY: -10, zoom: 2 },
+        4
+      )
+    ).toEqual({ left: 26, top: 16, width: 208, height: 108 });
+  });
+
+  it("never produces negative sizes", () => {
+    const rect = sceneBoundsToViewport(
+      { x: 0, y: 0, width: -10, height: -10 },
+      { scrollX: 0, scrollY: 0, zoom: 1 },
+      0
+    );
+    expect(rect.width).toBe(0);
+    expect(rect.height).toBe(0);
+  });
+});
+
+describe("editor/shared getEmbedTheme", () => {
+  it("lets the host page pick the theme and ignores anything else", () => {
+    expect(getEmbedTheme("?theme=dark", "light")).toBe("dark");
+    expect(getEmbedTheme("?theme=light", "dark")).toBe("light");
+    expect(getEmbedTheme("?theme=neon", "dark")).toBe("dark");
+    expect(getEmbedTheme("", "light")).toBe("light");
+  });
+});
+
+describe("editor/shared selection helpers", () => {
+  it("normalizes flipped element boxes", () => {
+    expect(getElementSceneBox({ x: 100, y: 50, width: -40, height: -20, angle: 0.5 })).toEqual({
+      x: 60,
+      y: 30,
+      width: 40,
+      height: 20,
+      angle: 0.5,
+    });
+  });
+
+  it("lists selected ids in a stable order", () => {
+    expect(readSelectedElementIds({ selectedElementIds: { b: true, a: true, c: false } })).toEqual(["a", "b"]);
+    expect(readSelectedElementIds(null)).toEqual([]);
+  });
+});
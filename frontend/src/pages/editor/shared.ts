@@ -107,6 +107,56 @@ export const getFilesDelta = (
   return delta;
 };
 
+export interface SceneViewport {
+  scrollX: number;
+  scrollY: number;
+  zoom: number;
+}
+
+/** Reads the scroll/zoom part of Excalidraw's app state; null until the canvas is ready. */
+export const readSceneViewport = (appState: any): SceneViewport | null => {
+  if (!appState) return null;
+  return {
+    scrollX: Number(appState.scrollX) || 0,
+    scrollY: Number(appState.scrollY) || 0,
+    zoom: Number(appState.zoom?.value) || 1,
+  };
+};
+
+/** Projects scene-space bounds onto the canvas container (CSS pixels). */
+export const sceneBoundsToViewport = (
+  bounds: { x: number; y: number; width: number; height: number },
+  viewport: SceneViewport,
+  padding = 4
+) => ({
+  left: (bounds.x + viewport.scrollX) * viewport.zoom - padding,
+  top: (bounds.y + viewport.scrollY) * viewport.zoom - padding,
+  width: Math.max(bounds.width * viewport.zoom, 0) + padding * 2,
+  height: Math.max(bounds.height * viewport.zoom, 0) + padding * 2,
+});
+
+/** Unrotated scene box of an element plus its rotation (radians); flipped shapes are normalized. */
+export const getElementSceneBox = (element: any) => {
+  const x = Number(element?.x) || 0;
+  const y = Number(element?.y) || 0;
+  const width = Number(element?.width) || 0;
+  const height = Number(element?.height) || 0;
+  return {
+    x: Math.min(x, x + width),
+    y: Math.min(y, y + height),
+    width: Math.abs(width),
+    height: Math.abs(height),
+    angle: Number(element?.angle) || 0,
+  };
+};
+
+/** Ids Excalidraw currently shows as selected, in a stable order for cheap comparisons. */
+export const readSelectedElementIds = (appState: any): string[] =>
+  Object.entries(appState?.selectedElementIds ?? {})
+    .filter(([, selected]) => selected === true)
+    .map(([elementId]) => elementId)
+    .sort();
+
 export const UIOptions = {
   canvasActions: {
     saveToActiveFile: false,
@@ -116,6 +166,26 @@ export const UIOptions = {
   },
 };
 
+/** Embedded viewers (`/embed/:id`) only pan and zoom, so every canvas action is turned off. */
+export const EMBED_UI_OPTIONS = {
+  canvasActions: {
+    changeViewBackgroundColor: false,
+    clearCanvas: false,
+    export: false as const,
+    loadScene: false,
+    saveAsImage: false,
+    saveToActiveFile: false,
+    toggleTheme: null,
+  },
+  tools: { image: false },
+};
+
+/** Host pages pick the embed theme with `?theme=light|dark`; anything else keeps the app theme. */
+export const getEmbedTheme = (search: string, fallback: "light" | "dark"): "light" | "dark" => {
+  const theme = new URLSearchParams(search).get("theme");
+  return theme === "light" || theme === "dark" ? theme : fallback;
+};
+
 export { getInitialsFromName } from "../../utils/user";
 
 export const getColorFromString = (str: string): string => {
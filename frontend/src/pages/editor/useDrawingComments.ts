@@ -0,0 +1,60 @@
+import { useCallback, useEffect, useState } from 'react';
+import * as api from '../../api';
+import type { DrawingComment } from '../../types';
+import { removeComment, upsertComment } from '../../utils/comments';
+
+/**
+ * Comment state for the open drawing. Mutations apply their REST response right away; the same
+ * change also arrives over the socket room (see `receiveComment`/`receiveDeletion`), which is
+ * how other collaborators' comments show up live.
+ */
+export const useDrawingComments = (drawingId: string | undefined, enabled: boolean) => {
+  const [comments, setComments] = useState<DrawingComment[]>([]);
+
+  useEffect(() => {
+    setComments([]);
+    if (!drawingId || !enabled) return;
+    let cancelled = false;
+    api
+      .getDrawingComments(drawingId)
+      .then((loaded) => {
+        if (!cancelled) setComments(loaded);
+      })
+      .catch((err) => {
+        console.warn('[Editor] Failed to load comments', err);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [drawingId, enabled]);
+
+  const receiveComment = useCallback((comment: DrawingComment) => {
+    if (comment.drawingId !== drawingId) return;
+    setComments((prev) => upsertComment(prev, comment));
+  }, [drawingId]);
+
+  const receiveDeletion = useCallback((commentId: string) => {
+    setComments((prev) => removeComment(prev, commentId));
+  }, []);
+
+  const addComment = useCallback(
+    async (input: { body: string; parentId?: string; elementId?: string; x?: number; y?: number }) => {
+      if (!drawingId) return;
+      receiveComment(await api.createDrawingComment(drawingId, input));
+    },
+    [drawingId, receiveComment]
+  );
+
+  const setResolved = useCallback(async (commentId: string, resolved: boolean) => {
+    if (!drawingId) return;
+    receiveComment(await api.updateDrawingComment(drawingId, commentId, { resolved }));
+  }, [drawingId, receiveComment]);
+
+  const deleteComment = useCallback(async (commentId: string) => {
+    if (!drawingId) return;
+    await api.deleteDrawingComment(drawingId, commentId);
+    receiveDeletion(commentId);
+  }, [drawingId, receiveDeletion]);
+
+  return { comments, receiveComment, receiveDeletion, addComment, setResolved, deleteComment };
+};
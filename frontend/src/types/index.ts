@@ -7,6 +7,57 @@ export interface DrawingSummary {
   version: number;
   preview?: string | null;
   accessLevel?: "none" | "view" | "edit" | "owner";
+  /** Present only on search results: why the drawing matched. */
+  search?: DrawingSearchMatch;
+  /** The current user's own tags on this drawing. */
+  tags?: DrawingTagRef[];
+  /** When the drawing was moved to the trash; null outside the trash. */
+  trashedAt?: number | null;
+  /** Whether the current user starred the drawing. */
+  starred?: boolean;
+  /** Set when the drawing is offered in the "New drawing" template picker. */
+  templateScope?: TemplateScope | null;
+}
+
+export type TemplateScope = "personal" | "global";
+
+/** A drawing offered as a starting point for new drawings. */
+export interface DrawingTemplate {
+  id: string;
+  name: string;
+  preview: string | null;
+  scope: TemplateScope;
+  updatedAt: number;
+  owner: { id: string; name: string };
+  isOwner: boolean;
+}
+
+export interface DrawingTagRef {
+  id: string;
+  name: string;
+  color: string | null;
+}
+
+export interface Tag extends DrawingTagRef {
+  drawingCount: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type TagMatchMode = "any" | "all";
+
+export type DrawingSearchEntryKind = "name" | "text" | "frame" | "link";
+
+export interface DrawingSearchSnippet {
+  elementId: string | null;
+  kind: DrawingSearchEntryKind;
+  segments: { text: string; match: boolean }[];
+}
+
+export interface DrawingSearchMatch {
+  rank: number | null;
+  matchedElementIds: string[];
+  snippets: DrawingSearchSnippet[];
 }
 
 export interface Drawing extends DrawingSummary {
@@ -16,7 +67,73 @@ export interface Drawing extends DrawingSummary {
 }
 
 export interface Collection {
+  id: string;
+  name: string;
+  /** Null (or absent) for top-level collections. */
+  parentId?: string | null;
+  createdAt: number;
+}
+
+/** A collection another user shared with the current user. */
+export interface SharedCollection {
   id: string;
   name: string;
   createdAt: number;
+  owner: { id: string; name: string; email: string };
+  accessLevel: "view" | "edit";
+}
+
+export interface DrawingRevisionSummary {
+  id: string;
+  version: number;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  createdBy: { id: string; name: string } | null;
+}
+
+export interface DrawingRevision extends DrawingRevisionSummary {
+  elements: any[];
+  appState: any;
+  files: Record<string, any>;
+}
+
+export interface DrawingComment {
+  id: string;
+  drawingId: string;
+  /** Null for the first comment of a thread; replies point at it. */
+  parentId: string | null;
+  body: string;
+  elementId: string | null;
+  sceneX: number | null;
+  sceneY: number | null;
+  resolved: boolean;
+  resolvedAt: number | null;
+  resolvedByUserId: string | null;
+  createdAt: number;
+  updatedAt: number;
+  author: { id: string; name: string } | null;
+}
+
+export type ElementChangeKind = "moved" | "restyled" | "text" | "other";
+
+export interface ElementBounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface ElementDiffEntry {
+  id: string;
+  type: string | null;
+  bounds: ElementBounds;
+}
+
+export interface DrawingDiff {
+  from: number;
+  to: number;
+  added: ElementDiffEntry[];
+  removed: ElementDiffEntry[];
+  modified: (ElementDiffEntry & { changes: ElementChangeKind[]; previousBounds: ElementBounds })[];
 }
@@ -0,0 +1,45 @@
+import { describe, it, expect } from "vitest";
+import { buildCollectionTree, getCollectionSubtreeIds } from "../collectionTree";
+import type { Collection } from "../../types";
+
+const collection = (id: string, name: string, parentId: string | null = null): Collection => ({
+  id,
+  name,
+  parentId,
+  createdAt: 0,
+});
+
+describe("buildCollectionTree", () => {
+  it("nests children under their parent sorted by name", () => {
+    const tree = buildCollectionTree([
+      collection("b", "Beta"),
+      collection("a", "Alpha"),
+      collection("a2", "Zed", "a"),
+      collection("a1", "Child", "a"),
+    ]);
+    expect(tree.map((node) => node.collection.id)).toEqual(["a", "b"]);
+    expect(tree[0].children.map((node) => [node.collection.id, node.depth])).toEqual([
+      ["a1", 1],
+      ["a2", 1],
+    ]);
+  });
+
+  it("shows collections with a missing parent or a cycle at the top level", () => {
+    const tree = buildCollectionTree([
+      collection("x", "X", "y"),
+      collection("y", "Y", "x"),
+      collection("z", "Z", "gone"),
+    ]);
+    expect(tree.map((node) => node.collection.id).sort()).toEqual(["x", "y", "z"]);
+  });
+});
+
+describe("getCollectionSubtreeIds", () => {
+  it("includes the collection and all descendants", () => {
+    const ids = getCollectionSubtreeIds(
+      [collection("a", "A"), collection("b", "B", "a"), collection("c", "C", "b"), collection("d", "D")],
+      "a"
+    );
+    expect(Array.from(ids).sort()).toEqual(["a", "b", "c"]);
+  });
+});
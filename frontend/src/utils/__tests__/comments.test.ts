@@ -0,0 +1,75 @@
+import { describe, it, expect } from "vitest";
+import { getCommentAnchor, groupCommentThreads, removeComment, upsertComment } from "../comments";
+import type { DrawingComment } from "../../types";
+
+const comment = (id: string, createdAt: number, extra: Partial<DrawingComment> = {}): DrawingComment => ({
+  id,
+  drawingId: "d1",
+  parentId: null,
+  body: id,
+  elementId: null,
+  sceneX: null,
+  sceneY: null,
+  resolved: false,
+  resolvedAt: null,
+  resolvedByUserId: null,
+  createdAt,
+  updatedAt: createdAt,
+  author: null,
+  ...extra,
+});
+
+describe("comment list helpers", () => {
+  it("upserts by id in creation order", () => {
+    const list = upsertComment([comment("b", 2), comment("a", 1)], comment("b", 2, { body: "edited" }));
+    expect(list.map((c) => [c.id, c.body])).toEqual([
+      ["a", "a"],
+      ["b", "edited"],
+    ]);
+  });
+
+  it("removes a thread together with its replies", () => {
+    const list = [comment("t", 1), comment("r", 2, { parentId: "t" }), comment("other", 3)];
+    expect(removeComment(list, "t").map((c) => c.id)).toEqual(["other"]);
+    expect(removeComment(list, "r").map((c) => c.id)).toEqual(["t", "other"]);
+  });
+
+  it("groups replies under their thread, newest thread first", () => {
+    const threads = groupCommentThreads([
+      comment("old", 1),
+      comment("new", 5),
+      comment("r2", 4, { parentId: "old" }),
+      comment("r1", 2, { parentId: "old" }),
+      comment("stray", 6, { parentId: "gone" }),
+    ]);
+    expect(threads.map((t) => [t.root.id, t.replies.map((r) => r.id)])).toEqual([
+      ["new", []],
+      ["old", ["r1", "r2"]],
+    ]);
+  });
+});
+
+describe("getCommentAnchor", () => {
+  const elements = new Map<string, any>([
+    ["box", { id: "box", x: 10, y: 20, width: 100, height: 50 }],
+    ["flipped", { id: "flipped", x: 10, y: 20, width: -30, height: -40 }],
+    ["gone", { id: "gone", x: 0, y: 0, width: 5, height: 5, isDeleted: true }],
+  ]);
+
+  it("pins to the element's top-right corner while it exists", () => {
+    expect(getCommentAnchor(comment("c", 1, { elementId: "box", sceneX: 0, sceneY: 0 }), elements)).toEqual({
+      x: 110,
+      y: 20,
+    });
+    expect(getCommentAnchor(comment("c", 1, { elementId: "flipped" }), elements)).toEqual({ x: 10, y: -20 });
+  });
+
+  it("falls back to the saved point, or nothing", () => {
+    expect(getCommentAnchor(comment("c", 1, { elementId: "gone", sceneX: 3, sceneY: 4 }), elements)).toEqual({
+      x: 3,
+      y: 4,
+    });
+    expect(getCommentAnchor(comment("c", 1, { elementId: "gone" }), elements)).toBeNull();
+    expect(getCommentAnchor(comment("c", 1), elements)).toBeNull();
+  });
+});
@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest";
+import { isStoredFileRef, mergeStoredFileRefs } from "../drawingFiles";
+
+const HASH = "a".repeat(64);
+
+describe("stored drawing files", () => {
+  it("treats only hash entries without image data as references", () => {
+    expect(isStoredFileRef({ id: "f", hash: HASH })).toBe(true);
+    expect(isStoredFileRef({ id: "f", hash: HASH, dataURL: "data:image/png;base64,AA" })).toBe(false);
+    expect(isStoredFileRef({ id: "f", dataURL: "data:image/png;base64,AA" })).toBe(false);
+    expect(isStoredFileRef(null)).toBe(false);
+  });
+
+  it("keeps references that are still loading when merging a save", () => {
+    const loaded = { id: "a", dataURL: "data:image/png;base64,AA" };
+    const pending = { id: "b", hash: HASH };
+    const next = { a: loaded };
+
+    expect(mergeStoredFileRefs(next, { a: { id: "a", hash: HASH }, b: pending })).toEqual({
+      a: loaded,
+      b: pending,
+    });
+    expect(mergeStoredFileRefs(next, { c: { id: "c", dataURL: "data:image/png;base64,AA" } })).toBe(next);
+  });
+});
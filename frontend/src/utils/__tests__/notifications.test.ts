@@ -0,0 +1,45 @@
+import { describe, it, expect } from "vitest";
+import { describeNotification, prependNotification } from "../notifications";
+import type { AppNotification } from "../../api";
+
+const notification = (extra: Partial<AppNotification> = {}): AppNotification => ({
+  id: "n1",
+  type: "drawing_shared",
+  drawingId: "d1",
+  data: {},
+  readAt: null,
+  createdAt: "2026-01-01T00:00:00.000Z",
+  actor: { id: "u1", name: "Alice" },
+  ...extra,
+});
+
+describe("describeNotification", () => {
+  it("describes shares and links to the drawing", () => {
+    expect(
+      describeNotification(notification({ data: { drawingName: "Roadmap", permission: "edit" } }))
+    ).toEqual({ text: "Alice shared Roadmap with you (can edit)", href: "/editor/d1" });
+  });
+
+  it("mentions the group a share went through and drops the link once access is gone", () => {
+    expect(
+      describeNotification(
+        notification({ type: "drawing_unshared", data: { drawingName: "Roadmap", groupName: "Design" } })
+      )
+    ).toEqual({ text: "Alice stopped sharing Roadmap with Design", href: null });
+  });
+
+  it("falls back to generic wording when the snapshot is missing", () => {
+    expect(describeNotification(notification({ type: "comment_created", actor: null })).text).toBe(
+      "Someone commented on a drawing"
+    );
+  });
+});
+
+describe("prependNotification", () => {
+  it("adds new notifications first and ignores repeats", () => {
+    const existing = [notification()];
+    const next = prependNotification(existing, notification({ id: "n2" }));
+    expect(next.map((entry) => entry.id)).toEqual(["n2", "n1"]);
+    expect(prependNotification(next, notification({ id: "n2" }))).toBe(next);
+  });
+});
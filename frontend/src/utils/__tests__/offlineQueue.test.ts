@@ -0,0 +1,93 @@
+import { describe, it, expect } from "vitest";
+import { AxiosError, AxiosHeaders } from "axios";
+import {
+  buildOfflineReplay,
+  getPendingSceneKey,
+  isOfflineSaveError,
+  isSamePendingSceneKey,
+  mergePendingScene,
+  type PendingScene,
+} from "../offlineQueue";
+
+const element = (id: string, version: number, extra: Record<string, unknown> = {}) => ({
+  id,
+  version,
+  versionNonce: 1,
+  updated: version,
+  ...extra,
+});
+
+describe("isOfflineSaveError", () => {
+  it("treats requests that never got a response as offline", () => {
+    expect(isOfflineSaveError(new AxiosError("Network Error", "ERR_NETWORK"))).toBe(true);
+  });
+
+  it("does not queue saves the server refused", () => {
+    const refused = new AxiosError("Conflict", "ERR_BAD_REQUEST", undefined, undefined, {
+      status: 409,
+      statusText: "Conflict",
+      data: { code: "VERSION_CONFLICT" },
+      headers: {},
+      config: { headers: new AxiosHeaders() },
+    });
+    expect(isOfflineSaveError(refused)).toBe(false);
+    expect(isOfflineSaveError(new Error("boom"))).toBe(false);
+  });
+});
+
+describe("mergePendingScene", () => {
+  it("keeps offline edits and changes made on the server meanwhile", () => {
+    const server = [element("a", 3, { x: 10 }), element("b", 1), element("c", 1)];
+    const local = [element("a", 2), element("b", 4, { x: 99 }), element("d", 1)];
+
+    const merged = mergePendingScene(server, local);
+    const byId = new Map(merged.map((el) => [el.id, el]));
+
+    expect(byId.get("a")).toMatchObject({ version: 3, x: 10 });
+    expect(byId.get("b")).toMatchObject({ version: 4, x: 99 });
+    expect([...byId.keys()].sort()).toEqual(["a", "b", "c", "d"]);
+  });
+});
+
+describe("getPendingSceneKey", () => {
+  it("keeps entries of other users and other base versions apart", () => {
+    const key = getPendingSceneKey({ userId: "u1", drawingId: "d1", baseVersion: 3 });
+    expect(key).toEqual(["u1", "d1", 3]);
+    expect(isSamePendingSceneKey(key, getPendingSceneKey({ userId: "u2", drawingId: "d1", baseVersion: 3 }))).toBe(false);
+    expect(isSamePendingSceneKey(key, getPendingSceneKey({ userId: "u1", drawingId: "d1", baseVersion: 4 }))).toBe(false);
+    expect(getPendingSceneKey({ userId: null, drawingId: "d1", baseVersion: null })).toEqual(["", "d1", 0]);
+  });
+});
+
+describe("buildOfflineReplay", () => {
+  const pendingScene = (baseVersion: number, elements: any[], files: Record<string, any>, savedAt: number): PendingScene => ({
+    userId: "u1",
+    drawingId: "d1",
+    baseVersion,
+    elements,
+    appState: {},
+    files,
+    savedAt,
+  });
+
+  it("merges every queued entry and the open scene back onto the server copy", () => {
+    const replay = buildOfflineReplay({
+      pending: [
+        // Queued by two tabs that were offline on different versions.
+        pendingScene(2, [element("a", 2, { x: 1 }), element("b", 5, { x: 2 })], { f1: { id: "f1", dataURL: "data:1" } }, 1),
+        pendingScene(3, [element("a", 4, { x: 3 }), element("c", 1)], { f2: { id: "f2", hash: "h2" } }, 2),
+      ],
+      server: {
+        elements: [element("a", 3, { x: 9 }), element("b", 1), element("s", 1)],
+        files: { fs: { id: "fs", hash: "hs" } },
+      },
+      local: { elements: [element("d", 1)], files: { fl: { id: "fl", dataURL: "data:l" } } },
+    });
+    const byId = new Map(replay.elements.map((el) => [el.id, el]));
+
+    expect(byId.get("a")).toMatchObject({ version: 4, x: 3 });
+    expect(byId.get("b")).toMatchObject({ version: 5, x: 2 });
+    expect([...byId.keys()].sort()).toEqual(["a", "b", "c", "d", "s"]);
+    expect(Object.keys(replay.files).sort()).toEqual(["f1", "f2", "fl", "fs"]);
+  });
+});
@@ -0,0 +1,17 @@
+import { describe, expect, it } from "vitest";
+import { getSharedCollectionIdFromView, toSharedCollectionViewId } from "../sharedCollections";
+
+describe("shared collection view ids", () => {
+  it("round-trips a collection id through the view id", () => {
+    expect(getSharedCollectionIdFromView(toSharedCollectionViewId("c1"))).toBe("c1");
+  });
+
+  it("ignores the built-in views and plain collection ids", () => {
+    expect(getSharedCollectionIdFromView("shared")).toBeNull();
+    expect(getSharedCollectionIdFromView("shared:")).toBeNull();
+    expect(getSharedCollectionIdFromView("trash")).toBeNull();
+    expect(getSharedCollectionIdFromView("c1")).toBeNull();
+    expect(getSharedCollectionIdFromView(null)).toBeNull();
+    expect(getSharedCollectionIdFromView(undefined)).toBeNull();
+  });
+});
@@ -0,0 +1,58 @@
+import type { Collection } from '../types';
+
+export interface CollectionTreeNode {
+  collection: Collection;
+  depth: number;
+  children: CollectionTreeNode[];
+}
+
+/**
+ * Arranges collections into a tree, sorted by name within each level. Collections whose
+ * parent is missing (or part of a cycle) are shown at the top level.
+ */
+export const buildCollectionTree = (collections: Collection[]): CollectionTreeNode[] => {
+  const ids = new Set(collections.map((c) => c.id));
+  const childrenByParent = new Map<string | null, Collection[]>();
+  for (const collection of collections) {
+    const parentId = collection.parentId && ids.has(collection.parentId) ? collection.parentId : null;
+    const siblings = childrenByParent.get(parentId) ?? [];
+    siblings.push(collection);
+    childrenByParent.set(parentId, siblings);
+  }
+
+  const visited = new Set<string>();
+  const build = (parentId: string | null, depth: number): CollectionTreeNode[] =>
+    (childrenByParent.get(parentId) ?? [])
+      .filter((collection) => !visited.has(collection.id))
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map((collection) => {
+        visited.add(collection.id);
+        return { collection, depth, children: build(collection.id, depth + 1) };
+      });
+
+  const roots = build(null, 0);
+  // Anything left unvisited sits on a parent cycle; surface it rather than hiding it.
+  const orphans = collections
+    .filter((collection) => !visited.has(collection.id))
+    .map((collection) => {
+      visited.add(collection.id);
+      return { collection, depth: 0, children: [] };
+    });
+  return [...roots, ...orphans];
+};
+
+/** Returns `id` and the ids of every collection nested below it. */
+export const getCollectionSubtreeIds = (collections: Collection[], id: string): Set<string> => {
+  const result = new Set<string>([id]);
+  let added = true;
+  while (added) {
+    added = false;
+    for (const collection of collections) {
+      if (collection.parentId && result.has(collection.parentId) && !result.has(collection.id)) {
+        result.add(collection.id);
+        added = true;
+      }
+    }
+  }
+  return result;
+};
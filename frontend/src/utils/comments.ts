@@ -0,0 +1,61 @@
+import type { DrawingComment } from '../types';
+
+export interface CommentThread {
+  root: DrawingComment;
+  replies: DrawingComment[];
+}
+
+export interface ScenePoint {
+  x: number;
+  y: number;
+}
+
+const byCreatedAt = (a: DrawingComment, b: DrawingComment) => a.createdAt - b.createdAt;
+
+/** Inserts or replaces a comment; REST responses and socket events may deliver the same one. */
+export const upsertComment = (comments: DrawingComment[], comment: DrawingComment): DrawingComment[] => {
+  const next = comments.filter((existing) => existing.id !== comment.id);
+  next.push(comment);
+  return next.sort(byCreatedAt);
+};
+
+/** Removes a comment and, when it starts a thread, its replies (the server cascades the same way). */
+export const removeComment = (comments: DrawingComment[], commentId: string): DrawingComment[] =>
+  comments.filter((comment) => comment.id !== commentId && comment.parentId !== commentId);
+
+/** Groups replies under their thread, newest thread first. Replies whose thread is gone are dropped. */
+export const groupCommentThreads = (comments: DrawingComment[]): CommentThread[] => {
+  const threads = new Map<string, CommentThread>();
+  for (const comment of comments) {
+    if (!comment.parentId) threads.set(comment.id, { root: comment, replies: [] });
+  }
+  for (const comment of [...comments].sort(byCreatedAt)) {
+    if (comment.parentId) threads.get(comment.parentId)?.replies.push(comment);
+  }
+  return Array.from(threads.values()).sort((a, b) => byCreatedAt(b.root, a.root));
+};
+
+/** Top-right corner of an element's box; width/height can be negative for flipped shapes. */
+export const getElementAnchor = (element: any): ScenePoint => {
+  const x = Number(element.x) || 0;
+  const y = Number(element.y) || 0;
+  const width = Number(element.width) || 0;
+  const height = Number(element.height) || 0;
+  return { x: Math.max(x, x + width), y: Math.min(y, y + height) };
+};
+
+/**
+ * Where a thread's pin sits in scene coordinates: the top-right corner of its element while the
+ * element is on the canvas, otherwise the point saved with the comment. Null for unanchored threads.
+ */
+export const getCommentAnchor = (
+  comment: DrawingComment,
+  elementsById: ReadonlyMap<string, any>
+): ScenePoint | null => {
+  const element = comment.elementId ? elementsById.get(comment.elementId) : null;
+  if (element && !element.isDeleted) return getElementAnchor(element);
+  if (typeof comment.sceneX === 'number' && typeof comment.sceneY === 'number') {
+    return { x: comment.sceneX, y: comment.sceneY };
+  }
+  return null;
+};
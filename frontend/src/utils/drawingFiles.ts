@@ -0,0 +1,131 @@
+import * as api from "../api";
+
+/**
+ * Embedded images are kept by the backend in a content-addressed store: drawings carry
+ * `{ id, mimeType, hash }` and the bytes are fetched from `/files/:hash` when needed.
+ */
+
+const hasDataUrl = (file: any): boolean =>
+  typeof file?.dataURL === "string" && file.dataURL.length > 0;
+
+export const isStoredFileRef = (file: any): boolean =>
+  typeof file?.hash === "string" && file.hash.length > 0 && !hasDataUrl(file);
+
+const storedDataUrls = new Map<string, Promise<string>>();
+const knownStoredHashes = new Set<string>();
+const fileHashes = new WeakMap<object, string>();
+let uploadsUnavailable = false;
+
+const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+const loadStoredDataUrl = (hash: string, drawingId?: string): Promise<string> => {
+  let pending = storedDataUrls.get(hash);
+  if (!pending) {
+    pending = api.getDrawingFile(hash, drawingId).then(blobToDataUrl);
+    pending.catch(() => storedDataUrls.delete(hash));
+    storedDataUrls.set(hash, pending);
+  }
+  return pending;
+};
+
+/** Resolves a stored file reference to an Excalidraw file with its `dataURL`, or null if unavailable. */
+export const loadStoredFile = async (file: any, drawingId?: string): Promise<any | null> => {
+  try {
+    const dataURL = await loadStoredDataUrl(file.hash, drawingId);
+    knownStoredHashes.add(file.hash);
+    return { ...file, dataURL };
+  } catch (error) {
+    console.warn("Failed to load stored drawing file", { fileId: file?.id, hash: file?.hash, error });
+    return null;
+  }
+};
+
+/** Fills in every stored reference of a files map; references that fail to load are kept as-is. */
+export const hydrateStoredFiles = async (
+  files: Record<string, any> | null | undefined,
+  drawingId?: string
+): Promise<Record<string, any>> => {
+  const entries = await Promise.all(
+    Object.entries(files || {}).map(async ([fileId, file]) => {
+      if (!isStoredFileRef(file)) return [fileId, file] as const;
+      return [fileId, (await loadStoredFile(file, drawingId)) ?? file] as const;
+    })
+  );
+  return Object.fromEntries(entries);
+};
+
+/**
+ * Adds references from `previous` that `next` does not have yet. Excalidraw only knows files
+ * that finished loading, so a save must not drop the ones that are still being fetched.
+ */
+export const mergeStoredFileRefs = (
+  next: Record<string, any>,
+  previous: Record<string, any> | null | undefined
+): Record<string, any> => {
+  let merged = next;
+  for (const [fileId, file] of Object.entries(previous || {})) {
+    if (fileId in next || !isStoredFileRef(file)) continue;
+    if (merged === next) merged = { ...next };
+    merged[fileId] = file;
+  }
+  return merged;
+};
+
+// Decoded by hand: the app's CSP does not allow fetch() on data: URLs.
+const dataUrlToBlob = (dataURL: string): Blob | null => {
+  const match = /^data:([^;,]+);base64,(.*)$/s.exec(dataURL);
+  if (!match) return null;
+  const binary = atob(match[2]);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i += 1) bytes[i] = binary.charCodeAt(i);
+  return new Blob([bytes], { type: match[1] });
+};
+
+const hashBlob = async (blob: Blob): Promise<string> => {
+  const digest = await globalThis.crypto.subtle.digest("SHA-256", await blob.arrayBuffer());
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+};
+
+/**
+ * Uploads inline images to the file store and swaps them for references before a save.
+ * Anything that cannot be uploaded (SVGs, insecure contexts, anonymous editors) stays inline
+ * and the backend stores it on save instead.
+ */
+export const prepareFilesForSave = async (
+  files: Record<string, any>
+): Promise<Record<string, any>> => {
+  const prepared: Record<string, any> = {};
+  for (const [fileId, file] of Object.entries(files)) {
+    prepared[fileId] = file;
+    if (!hasDataUrl(file) || file.mimeType === "image/svg+xml" || uploadsUnavailable) continue;
+
+    try {
+      let hash = fileHashes.get(file) ?? (knownStoredHashes.has(file.hash) ? file.hash : undefined);
+      if (!hash || !knownStoredHashes.has(hash)) {
+        // crypto.subtle only exists in secure contexts (HTTPS or localhost).
+        const blob = globalThis.crypto?.subtle ? dataUrlToBlob(file.dataURL) : null;
+        if (!blob) continue;
+        hash = await hashBlob(blob);
+        fileHashes.set(file, hash);
+        if (!knownStoredHashes.has(hash)) {
+          await api.uploadDrawingFile(hash, blob);
+          knownStoredHashes.add(hash);
+        }
+      }
+      const { dataURL: _dataURL, ...rest } = file;
+      prepared[fileId] = { ...rest, hash };
+    } catch (error) {
+      if (api.isAxiosError(error) && (error.response?.status === 401 || error.response?.status === 403)) {
+        uploadsUnavailable = true;
+      }
+      console.warn("Failed to upload drawing file, saving it inline", { fileId, error });
+    }
+  }
+  return prepared;
+};
@@ -0,0 +1,81 @@
+import type { AppNotification } from '../api';
+
+export interface NotificationSummary {
+  text: string;
+  /** Where clicking the notification leads; null when the target is no longer reachable. */
+  href: string | null;
+}
+
+const readString = (data: Record<string, unknown>, key: string, fallback: string): string => {
+  const value = data[key];
+  return typeof value === 'string' && value.trim().length > 0 ? value : fallback;
+};
+
+const readCount = (data: Record<string, unknown>, key: string): number => {
+  const value = data[key];
+  return typeof value === 'number' && Number.isFinite(value) ? value : 0;
+};
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+/** Human-readable line for a notification; relies only on the snapshot stored with it. */
+export const describeNotification = (notification: AppNotification): NotificationSummary => {
+  const { data, drawingId } = notification;
+  const actor = notification.actor?.name ?? 'Someone';
+  const drawingName = readString(data, 'drawingName', 'a drawing');
+  const drawingHref = drawingId ? `/editor/${drawingId}` : null;
+  const groupName = typeof data.groupName === 'string' ? data.groupName : null;
+  const via = groupName ? ` with ${groupName}` : ' with you';
+
+  switch (notification.type) {
+    case 'drawing_shared': {
+      const access = data.permission === 'edit' ? 'edit' : 'view';
+      return { text: `${actor} shared ${drawingName}${via} (can ${access})`, href: drawingHref };
+    }
+    case 'drawing_unshared':
+      return { text: `${actor} stopped sharing ${drawingName}${via}`, href: null };
+    case 'collection_shared': {
+      const collectionId = typeof data.collectionId === 'string' ? data.collectionId : null;
+      return {
+        text: `${actor} shared the collection ${readString(data, 'collectionName', 'a collection')} with you`,
+        href: collectionId ? `/collections?id=${encodeURIComponent(collectionId)}` : null,
+      };
+    }
+    case 'collection_unshared':
+      return {
+        text: `${actor} stopped sharing the collection ${readString(data, 'collectionName', 'a collection')} with you`,
+        href: null,
+      };
+    case 'ownership_offered':
+      return { text: `${actor} wants to make you the owner of ${drawingName}`, href: '/' };
+    case 'ownership_accepted':
+      return { text: `${actor} accepted ownership of ${drawingName}`, href: drawingHref };
+    case 'ownership_declined':
+      return { text: `${actor} declined ownership of ${drawingName}`, href: drawingHref };
+    case 'ownership_transferred':
+      return {
+        text: `${actor} moved ${plural(readCount(data, 'drawingCount'), 'drawing')} and ${plural(
+          readCount(data, 'collectionCount'),
+          'collection'
+        )} from ${readString(data, 'fromUserName', 'another user')} to you`,
+        href: '/',
+      };
+    case 'comment_created': {
+      const excerpt = typeof data.excerpt === 'string' && data.excerpt ? `: “${data.excerpt}”` : '';
+      return { text: `${actor} commented on ${drawingName}${excerpt}`, href: drawingHref };
+    }
+    case 'link_share_expiring':
+      return { text: `Your share link for ${drawingName} expires soon`, href: drawingHref };
+    default:
+      return { text: 'New notification', href: drawingHref };
+  }
+};
+
+/** Inserts a pushed notification, ignoring one the list already has (fetch and push can overlap). */
+export const prependNotification = (
+  notifications: AppNotification[],
+  notification: AppNotification
+): AppNotification[] =>
+  notifications.some((existing) => existing.id === notification.id)
+    ? notifications
+    : [notification, ...notifications];
@@ -0,0 +1,137 @@
+import * as api from "../api";
+import { reconcileElements } from "./sync";
+
+/**
+ * Scene saves that could not reach the server are kept in IndexedDB, one entry per user, drawing
+ * and the drawing `version` they were edited on top of, so tabs (or accounts) sharing a browser
+ * never overwrite or replay each other's work. They are replayed (merged with the server copy)
+ * once the connection is back, including after a reload.
+ */
+
+export type PendingScene = {
+  /** Signed-in user who made the edits; null when signed out (auth disabled or a link share). */
+  userId: string | null;
+  drawingId: string;
+  /** Server version the edits were based on; null for drawings loaded without one. */
+  baseVersion: number | null;
+  elements: any[];
+  appState: Record<string, any>;
+  files: Record<string, any>;
+  savedAt: number;
+};
+
+const DB_NAME = "excalidash-offline";
+const DB_VERSION = 2;
+const STORE = "pendingScenes";
+
+export type PendingSceneKey = [userId: string, drawingId: string, baseVersion: number];
+
+// Versions start at 1, so 0 stands in for "no version" (IndexedDB keys cannot hold null).
+export const getPendingSceneKey = (
+  scene: Pick<PendingScene, "userId" | "drawingId" | "baseVersion">
+): PendingSceneKey => [scene.userId ?? "", scene.drawingId, scene.baseVersion ?? 0];
+
+export const isSamePendingSceneKey = (a: PendingSceneKey, b: PendingSceneKey): boolean =>
+  a[0] === b[0] && a[1] === b[1] && a[2] === b[2];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (typeof indexedDB === "undefined") {
+    return Promise.reject(new Error("IndexedDB is not available"));
+  }
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        // Version 1 entries were keyed by drawing alone and carry no owner, so they cannot be
+        // handed to anyone safely.
+        if (request.result.objectStoreNames.contains(STORE)) {
+          request.result.deleteObjectStore(STORE);
+        }
+        request.result.createObjectStore(STORE);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T>(
+  mode: IDBTransactionMode,
+  makeRequest: (store: IDBObjectStore) => IDBRequest
+): Promise<T> => {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const request = makeRequest(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result as T);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const savePendingScene = (scene: PendingScene): Promise<void> =>
+  runRequest<unknown>("readwrite", (store) => store.put(scene, getPendingSceneKey(scene))).then(
+    () => undefined
+  );
+
+/** Everything `userId` queued for a drawing, whatever version it was based on, oldest first. */
+export const loadPendingScenes = async (
+  userId: string | null,
+  drawingId: string
+): Promise<PendingScene[]> => {
+  const range = IDBKeyRange.bound([userId ?? "", drawingId, -Infinity], [userId ?? "", drawingId, Infinity]);
+  const scenes = await runRequest<PendingScene[]>("readonly", (store) => store.getAll(range));
+  return [...scenes].sort((a, b) => a.savedAt - b.savedAt);
+};
+
+export const clearPendingScenes = async (keys: readonly PendingSceneKey[]): Promise<void> => {
+  if (keys.length === 0) return;
+  const db = await openDb();
+  await new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction(STORE, "readwrite");
+    const store = transaction.objectStore(STORE);
+    for (const key of keys) store.delete(key);
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+/** True when a save failed because the server could not be reached, rather than being refused. */
+export const isOfflineSaveError = (err: unknown): boolean => {
+  if (typeof navigator !== "undefined" && navigator.onLine === false) return true;
+  return api.isAxiosError(err) && !err.response;
+};
+
+/**
+ * Folds offline edits into the latest server copy. Elements are merged by version like live
+ * updates, so changes made elsewhere in the meantime survive next to ours instead of conflicting.
+ */
+export const mergePendingScene = (
+  serverElements: readonly any[],
+  localElements: readonly any[]
+): any[] => reconcileElements(localElements, serverElements);
+
+/**
+ * The scene a replay saves: every queued entry (oldest first) and what the editor holds now,
+ * merged onto the server copy. Files are content-addressed, so all sides' entries are kept.
+ */
+export const buildOfflineReplay = (params: {
+  pending: readonly PendingScene[];
+  server: { elements: readonly any[]; files: Record<string, any> };
+  local: { elements: readonly any[]; files: Record<string, any> | null };
+}): { elements: any[]; files: Record<string, any> } => {
+  let localElements: readonly any[] = params.local.elements;
+  let files: Record<string, any> = { ...params.server.files };
+  for (const scene of params.pending) {
+    localElements = reconcileElements(scene.elements, localElements);
+    files = { ...files, ...scene.files };
+  }
+  return {
+    elements: mergePendingScene(params.server.elements, localElements),
+    files: { ...files, ...(params.local.files || {}) },
+  };
+};
@@ -0,0 +1,12 @@
+// Shared collections are browsed as `/collections?id=shared:<collectionId>` so they never clash
+// with the viewer's own collection ids or the built-in "shared" view.
+const SHARED_COLLECTION_VIEW_PREFIX = 'shared:';
+
+export const toSharedCollectionViewId = (collectionId: string) =>
+  `${SHARED_COLLECTION_VIEW_PREFIX}${collectionId}`;
+
+/** The shared collection id behind a dashboard view id, or null for any other view. */
+export const getSharedCollectionIdFromView = (viewId: string | null | undefined): string | null =>
+  viewId && viewId.startsWith(SHARED_COLLECTION_VIEW_PREFIX)
+    ? viewId.slice(SHARED_COLLECTION_VIEW_PREFIX.length) || null
+    : null;
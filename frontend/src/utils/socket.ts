@@ -0,0 +1,5 @@
+/** Origin the Socket.IO client connects to; mirrors how the API base URL is resolved. */
+export const getSocketUrl = (): string =>
+  import.meta.env.VITE_API_URL === '/api'
+    ? window.location.origin
+    : (import.meta.env.VITE_API_URL || 'http://localhost:8000');